@@ -10,6 +10,9 @@ import { Server } from 'socket.io';
 import mongoose from 'mongoose';
 
 import authRoutes from './routes/auth';
+import mfaRoutes from './routes/mfa';
+import oidcRoutes from './routes/oidc';
+import mockIdpRoutes from './routes/mockIdp';
 import roomRoutes from './routes/rooms';
 import callRoutes from './routes/calls';
 import userRoutes from './routes/users';
@@ -21,10 +24,31 @@ import aiChatRoutes from './routes/ai-chat';
 import searchRoutes from './routes/search';
 import friendsRoutes from './routes/friends';
 import privateCallRoutes from './routes/privateCalls';
+import notificationRoutes from './routes/notifications';
+import jobRoutes from './routes/jobs';
+import uploadRoutes from './routes/uploads';
+import rtcRoutes from './routes/rtc';
 import { setupSocketHandlers } from './socket';
+import { createClusterAdapter } from './socket/clusterAdapter';
+import { startCallSupervisor } from './socket/callSupervisor';
 import { errorHandler, notFoundHandler, setupUnhandledRejectionHandler } from './middleware/errorHandler';
 import { initGridFS } from './services/storage';
+import { startRetentionWorker } from './services/retention';
+import { startJobWorker, getJobQueueStatus } from './services/jobQueue';
+import { registerJobHandlers } from './services/jobHandlers';
+import { getRecorderStatus, flushAllRecorderTracks, saveUploadedRecording } from './services/callRecorder';
+import { getUploadStatus, startUploadSweeper } from './services/uploads';
+import { getSfuStatus } from './services/sfu';
+import { getIceServerStatus } from './services/iceServers';
 import { isOpenAIConfigured } from './services/openai';
+import { getTranscriptionStatus } from './services/transcription';
+import { getDiarizationStatus } from './services/diarization';
+import { getLLMStatus } from './services/llm';
+import { MOCK_IDP_ENABLED } from './services/oidc';
+import { getSharedStore, getSharedStoreStatus } from './services/sharedStore';
+import { getRateLimitConfig } from './services/rateLimits';
+import { startAiCreditAccounting } from './services/aiCredits';
+import { rateLimit } from './middleware/rateLimit';
 
 // Setup global error handlers
 setupUnhandledRejectionHandler();
@@ -97,6 +121,12 @@ const io = new Server(httpServer, {
   connectTimeout: 20000, // 20 seconds - connection timeout
 });
 
+// Share broadcasts with the other backend instances
+const sharedStore = getSharedStore();
+if (sharedStore.name === 'redis') {
+  io.adapter(createClusterAdapter(process.env.REDIS_URL!));
+}
+
 console.log('📡 Socket.IO server configured');
 
 // Middleware
@@ -107,6 +137,16 @@ app.use(cors({
 app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ extended: true, limit: '50mb' }));
 
+// Behind a load balancer, rate limits need the client's address rather than the proxy's
+// (TRUST_PROXY: hop count, or anything Express accepts for 'trust proxy')
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set('trust proxy', Number.isInteger(hops) ? hops : process.env.TRUST_PROXY);
+}
+
+// Overall request rate per user (or address); AI and media routes add their own limits
+app.use('/api', rateLimit('api'));
+
 // API info route (only if frontend is not built)
 app.get('/api/info', (req, res) => {
   res.json({ 
@@ -123,7 +163,21 @@ app.get('/api/info', (req, res) => {
       messages: '/api/messages',
       images: '/api/images',
       network: '/api/network',
+      notifications: '/api/notifications',
+      jobs: '/api/jobs',
+      uploads: '/api/uploads',
+      rtc: '/api/rtc',
     },
+    transcription: getTranscriptionStatus(),
+    diarization: getDiarizationStatus(),
+    llm: getLLMStatus(),
+    sharedStore: getSharedStoreStatus(),
+    jobs: getJobQueueStatus(),
+    recorder: getRecorderStatus(),
+    uploads: getUploadStatus(),
+    sfu: getSfuStatus(),
+    iceServers: getIceServerStatus(),
+    rateLimits: getRateLimitConfig(),
   });
 });
 
@@ -139,6 +193,8 @@ app.get('/health', (req, res) => {
 });
 
 // API Routes
+app.use('/api/auth/mfa', mfaRoutes);
+app.use('/api/auth/oidc', oidcRoutes);
 app.use('/api/auth', authRoutes);
 app.use('/api/rooms', roomRoutes);
 app.use('/api/calls', callRoutes);
@@ -151,6 +207,16 @@ app.use('/api/contacts', contactRoutes);
 app.use('/api/ai-chat', aiChatRoutes);
 app.use('/api/search', searchRoutes);
 app.use('/api/friends', friendsRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/jobs', jobRoutes);
+app.use('/api/uploads', uploadRoutes);
+app.use('/api/rtc', rtcRoutes);
+
+// Local OpenID Connect provider for trying single sign-on (services/oidc.ts)
+if (MOCK_IDP_ENABLED) {
+  app.use('/mock-idp', mockIdpRoutes);
+  console.log('🧪 Mock IdP enabled at /mock-idp');
+}
 
 // Serve static files from frontend build (in production)
 const frontendDistPath = path.resolve(__dirname, '../../frontend/dist');
@@ -186,6 +252,9 @@ app.use(errorHandler);
 // Socket.IO handlers
 setupSocketHandlers(io);
 
+// Charge LLM usage against users' daily AI credits
+startAiCreditAccounting();
+
 // Make io accessible to routes
 app.set('io', io);
 
@@ -239,6 +308,15 @@ mongoose.connect(MONGODB_URI, {
     console.log('✅ Connected to MongoDB');
     // Initialize GridFS for file storage
     initGridFS();
+    // Purge chat history according to each user's retention setting
+    startRetentionWorker();
+    // Resume or finalize calls left active by a restart
+    startCallSupervisor(io);
+    // Save recordings whose tab went away, drop other abandoned uploads
+    startUploadSweeper(async (upload) => { await saveUploadedRecording(io, upload); });
+    // AI post-processing (summaries, images, contact context, matching)
+    registerJobHandlers(io);
+    startJobWorker();
   })
   .catch((error) => {
     console.error('❌ MongoDB connection error:', error);
@@ -250,6 +328,8 @@ mongoose.connect(MONGODB_URI, {
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   console.log('SIGTERM received. Shutting down gracefully...');
+  // Keep the server recorder's buffered media
+  await flushAllRecorderTracks();
   await mongoose.connection.close();
   httpServer.close(() => {
     console.log('Server closed');
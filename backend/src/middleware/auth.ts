@@ -1,15 +1,19 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { User, IUser } from '../models/User';
+import { isSessionActive, touchSession } from '../services/sessions';
+import { getJWTSecret } from '../services/jwt';
 
 export interface AuthRequest extends Request {
   user?: IUser;
   userId?: string;
+  sessionId?: string; // Device session of the access token
 }
 
 export interface JwtPayload {
   userId: string;
   email: string;
+  sessionId?: string;
 }
 
 export const authenticate = async (
@@ -28,7 +32,7 @@ export const authenticate = async (
     const token = authHeader.split(' ')[1];
     
     try {
-      const JWT_SECRET = process.env.JWT_SECRET || 'default-secret-change-me';
+      const JWT_SECRET = getJWTSecret();
       
       // Debug logging (remove in production)
       if (process.env.NODE_ENV === 'development') {
@@ -38,6 +42,16 @@ export const authenticate = async (
       
       const decoded = jwt.verify(token, JWT_SECRET) as JwtPayload;
 
+      // Signed out on this device, or from another one
+      if (!(await isSessionActive(decoded.sessionId))) {
+        res.status(401).json({
+          error: 'Session revoked',
+          code: 'SESSION_REVOKED',
+          message: 'This device was signed out. Please login again.'
+        });
+        return;
+      }
+
       const user = await User.findById(decoded.userId);
       
       if (!user) {
@@ -47,6 +61,10 @@ export const authenticate = async (
 
       req.user = user;
       req.userId = decoded.userId;
+      req.sessionId = decoded.sessionId;
+      if (decoded.sessionId) {
+        touchSession(decoded.sessionId).catch(() => {});
+      }
       next();
     } catch (jwtError: any) {
       console.error('JWT verification error:', jwtError.name, jwtError.message);
@@ -92,13 +110,14 @@ export const optionalAuth = async (
       try {
         const decoded = jwt.verify(
           token,
-          process.env.JWT_SECRET || 'default-secret-change-me'
+          getJWTSecret()
         ) as JwtPayload;
 
         const user = await User.findById(decoded.userId);
-        if (user) {
+        if (user && (await isSessionActive(decoded.sessionId))) {
           req.user = user;
           req.userId = decoded.userId;
+          req.sessionId = decoded.sessionId;
         }
       } catch {
         // Token invalid, continue without auth
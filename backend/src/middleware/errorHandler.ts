@@ -85,9 +85,13 @@ export class ExternalServiceError extends ApiError {
   }
 }
 
+// retryAfter in seconds; sent as the Retry-After header too
 export class RateLimitError extends ApiError {
-  constructor(retryAfter?: number) {
-    super('Too many requests, please try again later', 429, ErrorType.RATE_LIMIT, { retryAfter });
+  retryAfter?: number;
+
+  constructor(retryAfter?: number, message: string = 'Too many requests, please try again later', details?: Record<string, any>) {
+    super(message, 429, ErrorType.RATE_LIMIT, { retryAfter, ...details });
+    this.retryAfter = retryAfter;
   }
 }
 
@@ -174,6 +178,10 @@ export const errorHandler = (
     ...(process.env.NODE_ENV === 'development' && { stack: error.stack }),
   });
 
+  if (error instanceof RateLimitError && error.retryAfter !== undefined) {
+    res.set('Retry-After', String(error.retryAfter));
+  }
+
   // Send response
   res.status(error.statusCode).json({
     success: false,
@@ -0,0 +1,50 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from './auth';
+import { asyncHandler, RateLimitError } from './errorHandler';
+import { takeRateLimit, RateLimitPolicy } from '../services/rateLimits';
+import { getAiCreditStatus } from '../services/aiCredits';
+import { verifyAccessToken } from '../services/jwt';
+
+// Who a request counts against: its user when signed in, otherwise its address
+export const rateLimitSubject = (req: AuthRequest): string => {
+  if (req.userId) return `user:${req.userId}`;
+  const header = req.headers.authorization;
+  if (header?.startsWith('Bearer ')) {
+    try {
+      return `user:${verifyAccessToken(header.slice(7)).userId}`;
+    } catch {
+      // Not a valid token: authenticate will refuse it, count it by address
+    }
+  }
+  return `ip:${req.ip}`;
+};
+
+// 429 with Retry-After once the caller's bucket for `policy` is empty
+export const rateLimit = (policy: RateLimitPolicy) =>
+  async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const result = await takeRateLimit(policy, rateLimitSubject(req));
+      if (!result.allowed) {
+        next(new RateLimitError(result.retryAfter, undefined, { policy }));
+        return;
+      }
+    } catch (error) {
+      // The store being down shouldn't take the API down with it
+      console.error(`[RATE] ❌ Rate limit check for ${policy} failed:`, error);
+    }
+    next();
+  };
+
+// 429 until midnight UTC once the user's AI credits for the day are spent (after authenticate)
+export const requireAiCredits = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const credits = await getAiCreditStatus(req.userId!);
+  if (credits.remaining === 0) {
+    next(new RateLimitError(credits.retryAfter, 'Daily AI credit limit reached', {
+      code: 'AI_QUOTA_EXCEEDED',
+      limit: credits.limit,
+      resetsAt: credits.resetsAt,
+    }));
+    return;
+  }
+  next();
+});
@@ -0,0 +1,69 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// What one AI feature cost a user in a day
+export interface IAiFeatureUsage {
+  requests: number;
+  credits: number;
+  tokens: number; // LLM tokens (0 for images and transcription)
+}
+
+// A user's AI credit consumption for one UTC day, checked against the daily budget
+export interface IAiUsage extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  day: string; // YYYY-MM-DD (UTC)
+  credits: number;
+  requests: number;
+  features: Map<string, IAiFeatureUsage>; // Keyed by feature: chat, callCommand, matching, image, transcription, ...
+  expiresAt: Date; // Kept for the usage history, then purged
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const aiFeatureUsageSchema = new Schema<IAiFeatureUsage>(
+  {
+    requests: { type: Number, default: 0 },
+    credits: { type: Number, default: 0 },
+    tokens: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+const aiUsageSchema = new Schema<IAiUsage>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    day: {
+      type: String,
+      required: true,
+    },
+    credits: {
+      type: Number,
+      default: 0,
+    },
+    requests: {
+      type: Number,
+      default: 0,
+    },
+    features: {
+      type: Map,
+      of: aiFeatureUsageSchema,
+      default: {},
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+aiUsageSchema.index({ userId: 1, day: -1 }, { unique: true });
+aiUsageSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const AiUsage = mongoose.model<IAiUsage>('AiUsage', aiUsageSchema);
@@ -0,0 +1,81 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// One participant's view of one connection (a peer, or the SFU) over a sampling interval
+export interface ICallQualitySample extends Document {
+  _id: mongoose.Types.ObjectId;
+  callId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  userName: string;
+  peerId: string; // Remote socketId on the mesh, 'sfu' on the SFU
+  peerName?: string;
+  at: Date;
+  offsetMs: number; // From call start
+  rttMs?: number;
+  jitterMs?: number;
+  packetLossPct?: number; // Inbound packets lost over the interval
+  inboundKbps?: number;
+  outboundKbps?: number;
+  frameWidth?: number; // Received video
+  frameHeight?: number;
+  framesPerSecond?: number;
+  audioCodec?: string;
+  videoCodec?: string;
+  qualityLimitation?: 'none' | 'bandwidth' | 'cpu' | 'other';
+  sendScale?: number; // Video sent at 1/sendScale resolution by adaptive quality
+  createdAt: Date;
+}
+
+const callQualitySampleSchema = new Schema<ICallQualitySample>(
+  {
+    callId: {
+      type: Schema.Types.ObjectId,
+      ref: 'CallSession',
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    userName: {
+      type: String,
+      required: true,
+    },
+    peerId: {
+      type: String,
+      required: true,
+    },
+    peerName: String,
+    at: {
+      type: Date,
+      required: true,
+    },
+    offsetMs: {
+      type: Number,
+      default: 0,
+    },
+    rttMs: Number,
+    jitterMs: Number,
+    packetLossPct: Number,
+    inboundKbps: Number,
+    outboundKbps: Number,
+    frameWidth: Number,
+    frameHeight: Number,
+    framesPerSecond: Number,
+    audioCodec: String,
+    videoCodec: String,
+    qualityLimitation: {
+      type: String,
+      enum: ['none', 'bandwidth', 'cpu', 'other'],
+    },
+    sendScale: Number,
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+callQualitySampleSchema.index({ callId: 1, at: 1 });
+
+export const CallQualitySample = mongoose.model<ICallQualitySample>('CallQualitySample', callQualitySampleSchema);
@@ -1,21 +1,69 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+// A participant's answer to a recording request
+export interface IRecordingConsent {
+  userId: mongoose.Types.ObjectId;
+  userName: string;
+  granted: boolean;
+  at: Date;
+}
+
+export type RoomAccessMode = 'open' | 'invite' | 'lobby';
+
+export type ModerationAction =
+  | 'admit'
+  | 'reject'
+  | 'kick'
+  | 'mute_all'
+  | 'lock'
+  | 'unlock'
+  | 'access_mode'
+  | 'transfer_host';
+
+// Something the host did to the room or a participant
+export interface IModerationEvent {
+  action: ModerationAction;
+  actorId: mongoose.Types.ObjectId;
+  actorName: string;
+  targetId?: mongoose.Types.ObjectId;
+  targetName?: string;
+  detail?: string; // e.g. the new access mode
+  at: Date;
+}
+
 export interface ICallSession extends Document {
   _id: mongoose.Types.ObjectId;
   roomId: string;
   hostId: mongoose.Types.ObjectId;
   guestIds: mongoose.Types.ObjectId[];
-  startedAt: Date;
+  startedAt: Date; // When the call went live; transcript times count from here
   endedAt?: Date;
+  lastSeenAt?: Date; // Last time someone was connected; an abandoned call ends here
   duration?: number; // in seconds
   recordingUrl?: string;
   recordingKey?: string;
   transcriptId?: mongoose.Types.ObjectId;
   notesId?: mongoose.Types.ObjectId;
   status: 'waiting' | 'active' | 'ended' | 'failed';
+  // Recording and transcription only use media of participants who consented
+  recordingConsent: {
+    requestedBy?: mongoose.Types.ObjectId;
+    requestedAt?: Date;
+    responses: IRecordingConsent[]; // Every answer in order; a participant's latest one counts
+  };
+  // Who may join: anyone the host's privacy settings allow, only invitees, or whoever the host admits from the lobby
+  access: {
+    mode: RoomAccessMode;
+    locked: boolean; // Nobody new gets in, whatever the mode
+  };
+  removedIds: mongoose.Types.ObjectId[]; // Kicked or rejected; can't come back unless admitted again
+  moderation: IModerationEvent[];
   metadata: {
     audioOnly: boolean;
     recordingSize?: number;
+    recordingOffsetMs?: number; // Call time at the recording's first frame
+    recorder?: 'client' | 'server' | 'none'; // Who records: a participant's browser, the backend or nobody
+    topology: 'auto' | 'mesh' | 'sfu'; // Media topology asked for when the room was created
     participantCount: number;
     conversationId?: mongoose.Types.ObjectId; // Link to conversation/thread
   };
@@ -49,6 +97,10 @@ const callSessionSchema = new Schema<ICallSession>(
       type: Date,
       default: null,
     },
+    lastSeenAt: {
+      type: Date,
+      default: null,
+    },
     duration: {
       type: Number,
       default: null,
@@ -76,9 +128,45 @@ const callSessionSchema = new Schema<ICallSession>(
       enum: ['waiting', 'active', 'ended', 'failed'],
       default: 'waiting',
     },
+    recordingConsent: {
+      requestedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+      requestedAt: { type: Date, default: null },
+      responses: [{
+        _id: false,
+        userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        userName: { type: String, default: '' },
+        granted: { type: Boolean, required: true },
+        at: { type: Date, default: Date.now },
+      }],
+    },
+    access: {
+      mode: { type: String, enum: ['open', 'invite', 'lobby'], default: 'open' },
+      locked: { type: Boolean, default: false },
+    },
+    removedIds: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    }],
+    moderation: [{
+      _id: false,
+      action: {
+        type: String,
+        enum: ['admit', 'reject', 'kick', 'mute_all', 'lock', 'unlock', 'access_mode', 'transfer_host'],
+        required: true,
+      },
+      actorId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+      actorName: { type: String, default: '' },
+      targetId: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+      targetName: { type: String, default: null },
+      detail: { type: String, default: null },
+      at: { type: Date, default: Date.now },
+    }],
     metadata: {
       audioOnly: { type: Boolean, default: false },
       recordingSize: { type: Number, default: null },
+      recordingOffsetMs: { type: Number, default: null },
+      recorder: { type: String, enum: ['client', 'server', 'none'], default: null },
+      topology: { type: String, enum: ['auto', 'mesh', 'sfu'], default: 'auto' },
       participantCount: { type: Number, default: 1 },
       conversationId: { type: Schema.Types.ObjectId, ref: 'Conversation', default: null },
     },
@@ -91,6 +179,7 @@ const callSessionSchema = new Schema<ICallSession>(
 // Index for efficient history queries
 callSessionSchema.index({ hostId: 1, createdAt: -1 });
 callSessionSchema.index({ guestIds: 1, createdAt: -1 });
+callSessionSchema.index({ status: 1, lastSeenAt: 1 }); // Call supervisor sweeps
 
 export const CallSession = mongoose.model<ICallSession>('CallSession', callSessionSchema);
 
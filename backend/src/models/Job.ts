@@ -0,0 +1,112 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type JobKind =
+  | 'call.summary' // Comprehensive post-call notes
+  | 'call.image' // Image generated from a visual moment in the transcript
+  | 'call.recording' // Compose the server recorder's segments into the call recording
+  | 'contact.context' // Refresh a contact's AI relationship context
+  | 'network.match'; // Score vision/offer matches
+
+// queued -> running -> completed, or back to retrying until attempts run out (dead)
+export type JobStatus = 'queued' | 'running' | 'retrying' | 'completed' | 'dead';
+
+export interface IJob extends Document {
+  _id: mongoose.Types.ObjectId;
+  kind: JobKind;
+  payload: Record<string, any>;
+  status: JobStatus;
+  ownerIds: mongoose.Types.ObjectId[]; // Users allowed to see the job
+  subject?: string; // What the job is about (e.g. a call id), for lookups
+  dedupeKey?: string; // A waiting job with the same key absorbs new requests
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date; // Not picked up before this (backoff)
+  lockedAt?: Date;
+  lockedBy?: string; // Worker that holds the job
+  lastError?: string;
+  result?: any;
+  completedAt?: Date;
+  deadAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const jobSchema = new Schema<IJob>(
+  {
+    kind: {
+      type: String,
+      enum: ['call.summary', 'call.image', 'call.recording', 'contact.context', 'network.match'],
+      required: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    status: {
+      type: String,
+      enum: ['queued', 'running', 'retrying', 'completed', 'dead'],
+      default: 'queued',
+    },
+    ownerIds: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    }],
+    subject: {
+      type: String,
+      default: null,
+    },
+    dedupeKey: {
+      type: String,
+      default: null,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    maxAttempts: {
+      type: Number,
+      default: 3,
+    },
+    runAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lockedAt: {
+      type: Date,
+      default: null,
+    },
+    lockedBy: {
+      type: String,
+      default: null,
+    },
+    lastError: {
+      type: String,
+      default: null,
+    },
+    result: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    completedAt: {
+      type: Date,
+      default: null,
+    },
+    deadAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Worker polling, stale lock recovery and lookups
+jobSchema.index({ status: 1, runAt: 1 });
+jobSchema.index({ status: 1, lockedAt: 1 });
+jobSchema.index({ dedupeKey: 1, status: 1 });
+jobSchema.index({ kind: 1, subject: 1, createdAt: -1 });
+// Finished jobs are kept for a week
+jobSchema.index({ completedAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+export const Job = mongoose.model<IJob>('Job', jobSchema);
@@ -0,0 +1,106 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type NotificationKind =
+  | 'incoming_call'
+  | 'missed_call'
+  | 'friend_request'
+  | 'friend_accepted'
+  | 'ai_insight'
+  | 'call_recording_ready'
+  | 'blocked_call_attempt';
+
+export interface INotification extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId; // Recipient
+  type: NotificationKind;
+  title: string;
+  message: string;
+  actionUrl?: string;
+  metadata?: {
+    callId?: string;
+    roomId?: string;
+    conversationId?: string;
+    callerId?: string;
+    callerName?: string;
+    isVideo?: boolean;
+    friendId?: string;
+    friendName?: string;
+    friendshipId?: string;
+    recordingUrl?: string;
+    denialReason?: string; // blocked_call_attempt: CallDenialReason
+    attempts?: number; // blocked_call_attempt: calls from this caller the entry stands for
+    lastAttemptAt?: Date;
+  };
+  read: boolean;
+  readAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const notificationSchema = new Schema<INotification>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    type: {
+      type: String,
+      enum: [
+        'incoming_call',
+        'missed_call',
+        'friend_request',
+        'friend_accepted',
+        'ai_insight',
+        'call_recording_ready',
+        'blocked_call_attempt',
+      ],
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+    },
+    message: {
+      type: String,
+      default: '',
+    },
+    actionUrl: {
+      type: String,
+      default: null,
+    },
+    metadata: {
+      callId: String,
+      roomId: String,
+      conversationId: String,
+      callerId: String,
+      callerName: String,
+      isVideo: Boolean,
+      friendId: String,
+      friendName: String,
+      friendshipId: String,
+      recordingUrl: String,
+      denialReason: String,
+      attempts: Number,
+      lastAttemptAt: Date,
+    },
+    read: {
+      type: Boolean,
+      default: false,
+    },
+    readAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Inbox listing and unread counts
+notificationSchema.index({ userId: 1, createdAt: -1 });
+notificationSchema.index({ userId: 1, read: 1 });
+
+export const Notification = mongoose.model<INotification>('Notification', notificationSchema);
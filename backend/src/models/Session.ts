@@ -0,0 +1,91 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Why a session ended: signed out, signed out from another device, a stolen
+// refresh token was used, or the password was reset
+export type SessionRevokeReason = 'logout' | 'revoked' | 'reuse' | 'password_reset' | 'account_deleted' | 'email_claimed';
+
+// One signed-in device. Its refresh token rotates on every refresh; only the
+// latest one is valid, and presenting an older one revokes the session.
+export interface ISession extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  tokenHash: string; // sha256 of the current refresh token, never the token itself
+  previousTokenHash?: string; // The token it replaced, for concurrent refreshes
+  rotatedAt?: Date;
+  rotations: number;
+  userAgent?: string;
+  deviceName: string; // e.g. "Chrome on macOS"
+  ip?: string;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: SessionRevokeReason;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const sessionSchema = new Schema<ISession>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+    },
+    previousTokenHash: {
+      type: String,
+      default: null,
+    },
+    rotatedAt: {
+      type: Date,
+      default: null,
+    },
+    rotations: {
+      type: Number,
+      default: 0,
+    },
+    userAgent: {
+      type: String,
+      default: null,
+    },
+    deviceName: {
+      type: String,
+      default: 'Unknown device',
+    },
+    ip: {
+      type: String,
+      default: null,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+    revokedReason: {
+      type: String,
+      enum: ['logout', 'revoked', 'reuse', 'password_reset', 'account_deleted', 'email_claimed'],
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A user's active sessions
+sessionSchema.index({ userId: 1, revokedAt: 1, lastUsedAt: -1 });
+// Gone once the refresh token would have expired anyway
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Session = mongoose.model<ISession>('Session', sessionSchema);
@@ -1,17 +1,41 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+// All transcript times are milliseconds from call start (CallSession.startedAt)
+export interface ITranscriptWord {
+  text: string;
+  start: number;
+  end: number;
+  confidence?: number;
+}
+
 export interface ITranscriptSegment {
   speaker: string;
   speakerId?: mongoose.Types.ObjectId;
+  speakerKey?: string; // Stable per-call voice id, see ITranscriptSpeaker
   text: string;
-  timestamp: number; // seconds from call start
+  timestamp: number; // ms from call start
+  endTimestamp?: number; // ms from call start, when the transcriber reports timings
+  words?: ITranscriptWord[]; // Only from transcribers with word timings
   confidence?: number;
+  flagged?: boolean; // Marked by a participant for redaction in exports
+}
+
+// A distinct voice heard during the call (services/diarization.ts)
+export interface ITranscriptSpeaker {
+  key: string; // spk_1, spk_2, ...
+  name: string; // Display label written to segments, e.g. "Speaker 2" until renamed
+  speakerId?: mongoose.Types.ObjectId; // Account the voice belongs to, when known
+  sourceId: string; // User whose microphone captured the voice
+  providerLabel?: string; // Label from a diarization service without embeddings
+  embedding?: number[]; // Running voice centroid, only read by the diarization stage
+  speechSeconds: number;
 }
 
 export interface ITranscript extends Document {
   _id: mongoose.Types.ObjectId;
   callId: mongoose.Types.ObjectId;
   segments: ITranscriptSegment[];
+  speakers: ITranscriptSpeaker[];
   fullText: string;
   language: string;
   wordCount: number;
@@ -19,6 +43,28 @@ export interface ITranscript extends Document {
   updatedAt: Date;
 }
 
+const transcriptWordSchema = new Schema(
+  {
+    text: {
+      type: String,
+      required: true,
+    },
+    start: {
+      type: Number,
+      required: true,
+    },
+    end: {
+      type: Number,
+      required: true,
+    },
+    confidence: {
+      type: Number,
+      default: null,
+    },
+  },
+  { _id: false }
+);
+
 const transcriptSegmentSchema = new Schema(
   {
     speaker: {
@@ -30,6 +76,10 @@ const transcriptSegmentSchema = new Schema(
       ref: 'User',
       default: null,
     },
+    speakerKey: {
+      type: String,
+      default: null,
+    },
     text: {
       type: String,
       required: true,
@@ -38,10 +88,58 @@ const transcriptSegmentSchema = new Schema(
       type: Number,
       required: true,
     },
+    endTimestamp: {
+      type: Number,
+      default: null,
+    },
+    words: {
+      type: [transcriptWordSchema],
+      default: undefined,
+    },
     confidence: {
       type: Number,
       default: null,
     },
+    flagged: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  { _id: false }
+);
+
+const transcriptSpeakerSchema = new Schema(
+  {
+    key: {
+      type: String,
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    speakerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    sourceId: {
+      type: String,
+      required: true,
+    },
+    providerLabel: {
+      type: String,
+      default: null,
+    },
+    embedding: {
+      type: [Number],
+      default: undefined,
+      select: false,
+    },
+    speechSeconds: {
+      type: Number,
+      default: 0,
+    },
   },
   { _id: false }
 );
@@ -55,6 +153,7 @@ const transcriptSchema = new Schema<ITranscript>(
       unique: true,
     },
     segments: [transcriptSegmentSchema],
+    speakers: [transcriptSpeakerSchema],
     fullText: {
       type: String,
       default: '',
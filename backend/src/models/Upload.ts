@@ -0,0 +1,119 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type UploadKind = 'recording' | 'attachment';
+
+// uploading -> completed, or failed (bad checksum) / expired (abandoned or its instance went away)
+export type UploadStatus = 'uploading' | 'completed' | 'failed' | 'expired';
+
+export interface IUpload extends Document {
+  _id: mongoose.Types.ObjectId;
+  kind: UploadKind;
+  userId: mongoose.Types.ObjectId;
+  callId?: mongoose.Types.ObjectId; // Recordings only
+  filename: string;
+  contentType: string;
+  size?: number; // Declared by the client, if known up front
+  offsetMs?: number; // Recordings: call time at the first frame
+  status: UploadStatus;
+  fileId: mongoose.Types.ObjectId; // GridFS file being written
+  nextChunk: number; // Index of the next chunk expected
+  receivedBytes: number;
+  chunkDigests: string[]; // SHA-256 (hex) of every chunk received, in order
+  sha256?: string; // Of the whole file, once completed
+  instance: string; // Backend instance holding the upload stream
+  lastChunkAt: Date;
+  completedAt?: Date;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const uploadSchema = new Schema<IUpload>(
+  {
+    kind: {
+      type: String,
+      enum: ['recording', 'attachment'],
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    callId: {
+      type: Schema.Types.ObjectId,
+      ref: 'CallSession',
+      default: null,
+    },
+    filename: {
+      type: String,
+      required: true,
+    },
+    contentType: {
+      type: String,
+      default: 'application/octet-stream',
+    },
+    size: {
+      type: Number,
+      default: null,
+    },
+    offsetMs: {
+      type: Number,
+      default: null,
+    },
+    status: {
+      type: String,
+      enum: ['uploading', 'completed', 'failed', 'expired'],
+      default: 'uploading',
+    },
+    fileId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    nextChunk: {
+      type: Number,
+      default: 0,
+    },
+    receivedBytes: {
+      type: Number,
+      default: 0,
+    },
+    chunkDigests: [{
+      type: String,
+    }],
+    sha256: {
+      type: String,
+      default: null,
+    },
+    instance: {
+      type: String,
+      required: true,
+    },
+    lastChunkAt: {
+      type: Date,
+      default: Date.now,
+    },
+    completedAt: {
+      type: Date,
+      default: null,
+    },
+    error: {
+      type: String,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Expiry sweeps
+uploadSchema.index({ status: 1, lastChunkAt: 1 });
+// Finished uploads are kept for a week
+uploadSchema.index({ updatedAt: 1 }, {
+  expireAfterSeconds: 7 * 24 * 60 * 60,
+  partialFilterExpression: { status: { $in: ['completed', 'failed', 'expired'] } },
+});
+
+export const Upload = mongoose.model<IUpload>('Upload', uploadSchema);
@@ -6,6 +6,7 @@ export interface IUser extends Document {
   name: string;
   email: string;
   passwordHash: string;
+  hasPassword: boolean; // false until an account made through single sign-on sets one
   avatar?: string;
   bio?: string;
   settings: {
@@ -46,7 +47,27 @@ export interface IUser extends Document {
       accentColor: 'purple' | 'blue' | 'green' | 'red' | 'orange';
     };
   };
-  refreshToken?: string;
+  passwordReset?: {
+    tokenHash: string; // sha256 of the emailed token, never the token itself
+    expiresAt: Date;
+  };
+  emailVerifiedAt?: Date; // When the owner proved the inbox is theirs (a reset link, or a sign-in provider)
+  // Two-factor authentication (services/mfa.ts)
+  mfa?: {
+    enabled: boolean;
+    secret?: string; // TOTP secret, encrypted
+    pendingSecret?: string; // Being enrolled, until the first code confirms it
+    enabledAt?: Date;
+    lastUsedStep?: number; // TOTP codes can't be replayed
+    recoveryCodes: Array<{ hash: string; usedAt?: Date }>;
+  };
+  // Single sign-on accounts linked to this user (services/oidc.ts)
+  identities: Array<{
+    provider: string; // OIDC provider id
+    subject: string; // The provider's `sub` claim
+    email?: string;
+    linkedAt: Date;
+  }>;
   createdAt: Date;
   updatedAt: Date;
   comparePassword(password: string): Promise<boolean>;
@@ -115,16 +136,43 @@ const userSchema = new Schema<IUser>(
         accentColor: { type: String, enum: ['purple', 'blue', 'green', 'red', 'orange'], default: 'purple' },
       },
     },
-    refreshToken: {
-      type: String,
-      default: null,
+    passwordReset: {
+      tokenHash: { type: String, index: true },
+      expiresAt: Date,
     },
+    emailVerifiedAt: { type: Date, default: null },
+    hasPassword: { type: Boolean, default: true },
+    mfa: {
+      enabled: { type: Boolean, default: false },
+      secret: { type: String, default: null },
+      pendingSecret: { type: String, default: null },
+      enabledAt: { type: Date, default: null },
+      lastUsedStep: { type: Number, default: 0 },
+      recoveryCodes: [{
+        _id: false,
+        hash: { type: String, required: true },
+        usedAt: { type: Date, default: null },
+      }],
+    },
+    identities: [{
+      _id: false,
+      provider: { type: String, required: true },
+      subject: { type: String, required: true },
+      email: { type: String, default: null },
+      linkedAt: { type: Date, default: Date.now },
+    }],
   },
   {
     timestamps: true,
   }
 );
 
+// One AceTime account per provider identity
+userSchema.index(
+  { 'identities.provider': 1, 'identities.subject': 1 },
+  { unique: true, partialFilterExpression: { 'identities.subject': { $exists: true } } }
+);
+
 // Hash password before saving
 userSchema.pre('save', async function (next) {
   if (!this.isModified('passwordHash')) return next();
@@ -146,8 +194,8 @@ userSchema.methods.comparePassword = async function (password: string): Promise<
 // Remove sensitive data when converting to JSON
 userSchema.set('toJSON', {
   transform: (_doc: any, ret: any) => {
-    const { passwordHash, refreshToken, __v, ...rest } = ret;
-    return rest;
+    const { passwordHash, refreshToken, passwordReset, mfa, __v, ...rest } = ret;
+    return { ...rest, mfaEnabled: !!mfa?.enabled };
   },
 });
 
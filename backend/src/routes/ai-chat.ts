@@ -2,13 +2,13 @@ import { Router, Response } from 'express';
 import mongoose from 'mongoose';
 import { authenticate, AuthRequest } from '../middleware/auth';
 import { asyncHandler } from '../middleware/errorHandler';
+import { rateLimit, requireAiCredits } from '../middleware/rateLimit';
 import { Conversation } from '../models/Conversation';
 import { Message } from '../models/Message';
 import { CallSession } from '../models/CallSession';
 import { Transcript } from '../models/Transcript';
 import { Notes } from '../models/Notes';
-import { getOpenAI } from '../services/openai';
-import { generateFreeText } from '../services/freeAI';
+import { streamText, LLMUnavailableError } from '../services/llm';
 
 const router = Router();
 
@@ -105,6 +105,8 @@ async function getUserContext(userId: string): Promise<string> {
 router.post(
   '/message',
   authenticate,
+  rateLimit('aiChat'),
+  requireAiCredits,
   asyncHandler(async (req: AuthRequest, res: Response) => {
     const { message, conversationId } = req.body;
     const userId = req.userId!;
@@ -193,94 +195,38 @@ Be conversational, helpful, and concise. You can reference their recent activiti
     let fullResponse = '';
 
     try {
-      // PRIORITY: Try free AI first (always available, no cost)
+      const sendChunk = (content: string) => {
+        fullResponse += content;
+        res.write(`data: ${JSON.stringify({ type: 'chunk', content })}\n\n`);
+      };
+
       try {
-        console.log('[AI CHAT] 🆓 Using free AI service for chat response');
-        
-        // Build conversation context for free AI
-        const conversationContext = messageHistory
-          .map(msg => `${msg.role === 'assistant' ? 'Assistant' : 'User'}: ${msg.content}`)
-          .join('\n');
-        
-        const userPrompt = conversationContext 
-          ? `${conversationContext}\n\nUser: ${message}\n\nAssistant:`
-          : `User: ${message}\n\nAssistant:`;
-        
-        const response = await generateFreeText(systemPrompt, userPrompt, 1000);
-        fullResponse = response;
-        
-        // Simulate streaming for better UX (word-by-word)
-        const words = fullResponse.split(' ');
-        for (let i = 0; i < words.length; i++) {
-          const chunk = (i === 0 ? '' : ' ') + words[i];
-          res.write(`data: ${JSON.stringify({ type: 'chunk', content: chunk })}\n\n`);
-          // Small delay to simulate streaming
-          await new Promise((resolve) => setTimeout(resolve, 30));
-        }
-        
-        res.write(`data: ${JSON.stringify({ type: 'done', messageId: aiMessage._id.toString() })}\n\n`);
-        console.log('[AI CHAT] ✅ Free AI response generated');
-      } catch (freeError: any) {
-        console.warn('[AI CHAT] ⚠️ Free AI failed, trying OpenAI fallback:', freeError.message);
-        
-        // Fallback to OpenAI
-        const openai = getOpenAI();
-        if (openai) {
-          try {
-            // Use OpenAI streaming
-            const stream = await openai.chat.completions.create({
-              model: 'gpt-4o',
-              messages: [
-                { role: 'system', content: systemPrompt },
-                ...messageHistory,
-                { role: 'user', content: message },
-              ],
-              stream: true,
-              temperature: 0.7,
-              max_tokens: 1000,
-            });
-
-            for await (const chunk of stream) {
-              const content = chunk.choices[0]?.delta?.content || '';
-              if (content) {
-                fullResponse += content;
-                // Send chunk to client
-                res.write(`data: ${JSON.stringify({ type: 'chunk', content })}\n\n`);
-              }
-            }
-
-            // Send completion
-            res.write(`data: ${JSON.stringify({ type: 'done', messageId: aiMessage._id.toString() })}\n\n`);
-          } catch (openaiError: any) {
-            // If quota exceeded, return helpful message
-            if (openaiError.status === 429 || openaiError.code === 'insufficient_quota') {
-              const errorMessage = 'AI service temporarily unavailable due to quota limits. Please try again later.';
-              fullResponse = errorMessage;
-              res.write(`data: ${JSON.stringify({ type: 'chunk', content: errorMessage })}\n\n`);
-              res.write(`data: ${JSON.stringify({ type: 'done', messageId: aiMessage._id.toString() })}\n\n`);
-            } else {
-              throw openaiError;
-            }
-          }
-        } else {
-          // No OpenAI available - return helpful message
-          const mockResponse = `I understand you're asking about "${message}". 
+        // History already ends with the message just saved
+        const response = await streamText('chat', {
+          messages: [{ role: 'system', content: systemPrompt }, ...messageHistory],
+          temperature: 0.7,
+          maxTokens: 1000,
+          userId,
+        }, sendChunk);
+        console.log(`[AI CHAT] ✅ Response generated with ${response.provider} (${response.model})`);
+      } catch (llmError) {
+        if (!(llmError instanceof LLMUnavailableError)) throw llmError;
+
+        // No AI provider available - return helpful message
+        const mockResponse = `I understand you're asking about "${message}". 
 
 As AceTime AI, I'm here to help! AI services are currently unavailable. Please try again later or configure API keys for enhanced features.`;
 
-          // Simulate word-by-word streaming
-          const words = mockResponse.split(' ');
-          for (let i = 0; i < words.length; i++) {
-            const chunk = (i === 0 ? '' : ' ') + words[i];
-            fullResponse += chunk;
-            res.write(`data: ${JSON.stringify({ type: 'chunk', content: chunk })}\n\n`);
-            await new Promise((resolve) => setTimeout(resolve, 50));
-          }
-
-          res.write(`data: ${JSON.stringify({ type: 'done', messageId: aiMessage._id.toString() })}\n\n`);
+        // Simulate word-by-word streaming
+        const words = mockResponse.split(' ');
+        for (let i = 0; i < words.length; i++) {
+          sendChunk((i === 0 ? '' : ' ') + words[i]);
+          await new Promise((resolve) => setTimeout(resolve, 50));
         }
       }
 
+      res.write(`data: ${JSON.stringify({ type: 'done', messageId: aiMessage._id.toString() })}\n\n`);
+
       // Update AI message with full response
       aiMessage.content = fullResponse;
       await aiMessage.save();
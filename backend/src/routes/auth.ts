@@ -1,7 +1,22 @@
 import { Router, Request, Response } from 'express';
 import { body, validationResult } from 'express-validator';
 import { User } from '../models/User';
-import { generateTokenPair, verifyRefreshToken } from '../services/jwt';
+import mongoose from 'mongoose';
+import { Session } from '../models/Session';
+import {
+  createSession,
+  rotateSession,
+  listSessions,
+  revokeSession,
+  revokeUserSessions,
+  RefreshFailure,
+} from '../services/sessions';
+import {
+  createPasswordResetToken,
+  resetPasswordWithToken,
+  sendPasswordResetEmail,
+} from '../services/passwordReset';
+import { createMfaChallenge } from '../services/mfa';
 import { authenticate, AuthRequest } from '../middleware/auth';
 import { asyncHandler } from '../middleware/errorHandler';
 
@@ -19,6 +34,23 @@ const loginValidation = [
   body('password').notEmpty().withMessage('Password required'),
 ];
 
+const forgotPasswordValidation = [
+  body('email').isEmail().normalizeEmail().withMessage('Valid email required'),
+];
+
+const resetPasswordValidation = [
+  body('token').isString().notEmpty().withMessage('Reset token required'),
+  body('password').isLength({ min: 6 }).withMessage('Password must be at least 6 characters'),
+];
+
+// 'race': another tab of the device refreshed first, and its new token is the one to use
+const REFRESH_FAILURE_MESSAGES: Record<RefreshFailure, string> = {
+  invalid: 'Invalid or expired refresh token',
+  revoked: 'This device was signed out',
+  reused: 'Refresh token was already used; this device has been signed out',
+  race: 'Refresh token was just rotated',
+};
+
 // POST /api/auth/register
 router.post(
   '/register',
@@ -48,15 +80,8 @@ router.post(
 
     await user.save();
 
-    // Generate tokens
-    const tokens = generateTokenPair({
-      userId: user._id.toString(),
-      email: user.email,
-    });
-
-    // Save refresh token
-    user.refreshToken = tokens.refreshToken;
-    await user.save();
+    // Sign this device in
+    const tokens = await createSession(user, req);
 
     const userResponse = {
       _id: user._id,
@@ -130,15 +155,19 @@ router.post(
     
     console.log('[AUTH] Password verified, generating tokens...');
 
-    // Generate tokens
-    const tokens = generateTokenPair({
-      userId: user._id.toString(),
-      email: user.email,
-    });
+    // Second step first: no tokens until the authenticator code checks out
+    if (user.mfa?.enabled) {
+      res.json({
+        message: 'Two-factor authentication required',
+        code: 'mfa_required',
+        mfaRequired: true,
+        mfaToken: createMfaChallenge(user),
+      });
+      return;
+    }
 
-    // Save refresh token
-    user.refreshToken = tokens.refreshToken;
-    await user.save();
+    // A session of its own for this device; other devices stay signed in
+    const tokens = await createSession(user, req);
 
     const userResponse = {
       _id: user._id,
@@ -167,33 +196,74 @@ router.post(
       return;
     }
 
-    try {
-      const payload = verifyRefreshToken(refreshToken);
-      
-      const user = await User.findById(payload.userId);
-      if (!user || user.refreshToken !== refreshToken) {
-        res.status(401).json({ error: 'Invalid refresh token' });
-        return;
+    const result = await rotateSession(req.app.get('io'), refreshToken, req);
+    if (!result.ok) {
+      res.status(401).json({
+        error: REFRESH_FAILURE_MESSAGES[result.reason],
+        code: `REFRESH_${result.reason.toUpperCase()}`,
+      });
+      return;
+    }
+
+    res.json({
+      message: 'Tokens refreshed',
+      accessToken: result.accessToken,
+      refreshToken: result.refreshToken,
+    });
+  })
+);
+
+// POST /api/auth/forgot-password - Email a single-use reset link
+router.post(
+  '/forgot-password',
+  forgotPasswordValidation,
+  asyncHandler(async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { email } = req.body;
+    const user = await User.findOne({ email });
+
+    if (user) {
+      const token = await createPasswordResetToken(user);
+      try {
+        await sendPasswordResetEmail(user, token);
+      } catch (error: any) {
+        // Not reported to the caller: a different answer would reveal the account exists
+        console.error('[AUTH] Failed to send password reset email:', error.message);
       }
+    } else {
+      console.log('[AUTH] Password reset requested for an unknown email');
+    }
 
-      // Generate new tokens
-      const tokens = generateTokenPair({
-        userId: user._id.toString(),
-        email: user.email,
-      });
+    // Same response either way so the endpoint can't be used to probe for accounts
+    res.json({ message: 'If an account exists for that email, a reset link has been sent' });
+  })
+);
+
+// POST /api/auth/reset-password - Set a new password using a reset token
+router.post(
+  '/reset-password',
+  resetPasswordValidation,
+  asyncHandler(async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
 
-      // Update refresh token
-      user.refreshToken = tokens.refreshToken;
-      await user.save();
+    const { token, password } = req.body;
+    const user = await resetPasswordWithToken(token, password, req.app.get('io'));
 
-      res.json({
-        message: 'Tokens refreshed',
-        accessToken: tokens.accessToken,
-        refreshToken: tokens.refreshToken,
-      });
-    } catch (error) {
-      res.status(401).json({ error: 'Invalid or expired refresh token' });
+    if (!user) {
+      res.status(400).json({ error: 'Reset link is invalid or has expired' });
+      return;
     }
+
+    res.json({ message: 'Password has been reset. Please sign in with your new password.' });
   })
 );
 
@@ -216,6 +286,7 @@ router.get(
         name: req.user.name,
         email: req.user.email,
         settings: req.user.settings,
+        mfaEnabled: !!req.user.mfa?.enabled,
       };
       
       res.json({
@@ -237,15 +308,60 @@ router.post(
   '/logout',
   authenticate,
   asyncHandler(async (req: AuthRequest, res: Response) => {
-    if (req.user) {
-      req.user.refreshToken = undefined;
-      await req.user.save();
+    const session = req.sessionId ? await Session.findById(req.sessionId) : null;
+    if (session) {
+      await revokeSession(req.app.get('io'), session, 'logout');
     }
 
     res.json({ message: 'Logged out successfully' });
   })
 );
 
+// GET /api/auth/sessions - Devices signed in to this account
+router.get(
+  '/sessions',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const sessions = await listSessions(req.userId!);
+    res.json({
+      sessions: sessions.map(session => ({
+        ...session,
+        current: session._id.toString() === req.sessionId,
+      })),
+    });
+  })
+);
+
+// DELETE /api/auth/sessions/:id - Sign out one device
+router.delete(
+  '/sessions/:id',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const session = mongoose.Types.ObjectId.isValid(id)
+      ? await Session.findOne({ _id: id, userId: req.userId, revokedAt: null })
+      : null;
+
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    await revokeSession(req.app.get('io'), session, id === req.sessionId ? 'logout' : 'revoked');
+    res.json({ message: 'Session signed out', current: id === req.sessionId });
+  })
+);
+
+// DELETE /api/auth/sessions - Sign out every other device
+router.delete(
+  '/sessions',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const revoked = await revokeUserSessions(req.app.get('io'), req.userId!, 'revoked', req.sessionId);
+    res.json({ message: 'Other sessions signed out', revoked });
+  })
+);
+
 // GET /api/auth/me
 router.get(
   '/me',
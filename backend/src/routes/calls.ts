@@ -3,15 +3,30 @@ import { CallSession } from '../models/CallSession';
 import { Transcript } from '../models/Transcript';
 import { Notes } from '../models/Notes';
 import { Message } from '../models/Message';
+import { Job } from '../models/Job';
 import { authenticate, AuthRequest } from '../middleware/auth';
 import { asyncHandler } from '../middleware/errorHandler';
+import { rateLimit, requireAiCredits } from '../middleware/rateLimit';
 import { 
   uploadRecording, 
   getRecordingStream, 
   deleteRecording as deleteRecordingFile,
   getRecordingInfo 
 } from '../services/storage';
-import { generateNotes, generateFinalSummary, generateComprehensiveNotes, getOpenAI } from '../services/openai';
+import { generateNotes, generateFinalSummary, generateComprehensiveNotes } from '../services/openai';
+import { streamText, LLMUnavailableError } from '../services/llm';
+import { enqueueJob, serializeJob } from '../services/jobQueue';
+import { announceRecordingReady } from '../services/callRecorder';
+import { canRecordCall } from '../services/recordingConsent';
+import { getCallQuality } from '../services/callQuality';
+import { renameTranscriptSpeaker, SpeakerNotFoundError } from '../services/diarization';
+import {
+  exportTranscript,
+  TranscriptExportFormat,
+  TranscriptRedaction,
+  TRANSCRIPT_EXPORT_FORMATS,
+  TRANSCRIPT_REDACTIONS,
+} from '../services/transcriptExport';
 import multer from 'multer';
 
 const router = Router();
@@ -50,9 +65,13 @@ router.get(
       return;
     }
 
+    // Latest post-call summary job, so the page can show pending/failed states
+    const summaryJob = await Job.findOne({ kind: 'call.summary', subject: id }).sort({ createdAt: -1 });
+
     res.json({
       call: callSession,
       hasRecording: !!callSession.recordingKey,
+      summaryJob: summaryJob ? serializeJob(summaryJob) : null,
     });
   })
 );
@@ -61,6 +80,7 @@ router.get(
 router.post(
   '/:id/recording',
   authenticate,
+  rateLimit('upload'),
   upload.single('recording'),
   asyncHandler(async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
@@ -87,6 +107,11 @@ router.post(
       return;
     }
 
+    if (!(await canRecordCall(callSession, userId))) {
+      res.status(403).json({ error: 'Everyone in the call has to consent to recording' });
+      return;
+    }
+
     // Upload to GridFS - ensure video mime type
     const mimeType = req.file.mimetype || 'video/webm';
     const filename = `recording-${id}-${Date.now()}.webm`;
@@ -122,20 +147,13 @@ router.post(
     callSession.recordingKey = result.fileId;
     callSession.recordingUrl = `/api/calls/${id}/recording/stream`;
     callSession.metadata.recordingSize = req.file.size;
+    // Call time at the first frame, so the player can line up with the transcript
+    const offsetMs = Number(req.body.offsetMs);
+    callSession.metadata.recordingOffsetMs = Number.isFinite(offsetMs) ? Math.max(0, Math.round(offsetMs)) : 0;
     await callSession.save();
 
     // Emit notification to all participants
-    const io = req.app.get('io');
-    if (io) {
-      const participants = [callSession.hostId, ...(callSession.guestIds || [])];
-      participants.forEach((participantId) => {
-        io.to(`user:${participantId}`).emit('call:recording:ready', {
-          callId: id,
-          recordingUrl: callSession.recordingUrl,
-          duration: callSession.duration,
-        });
-      });
-    }
+    await announceRecordingReady(req.app.get('io'), callSession);
 
     res.json({
       message: 'Recording uploaded successfully',
@@ -268,6 +286,184 @@ router.get(
   })
 );
 
+// GET /api/calls/:id/quality - Call quality timeline and per-participant summary
+router.get(
+  '/:id/quality',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+
+    const callSession = await CallSession.findById(id);
+    if (!callSession) {
+      res.status(404).json({ error: 'Call not found' });
+      return;
+    }
+
+    // Check access
+    const userId = req.userId!;
+    const isHost = callSession.hostId.toString() === userId;
+    const isGuest = callSession.guestIds.some(g => g.toString() === userId);
+
+    if (!isHost && !isGuest) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    res.json({ quality: await getCallQuality(id) });
+  })
+);
+
+// GET /api/calls/:id/transcript/export - Download the transcript as srt, vtt, md, docx or txt
+router.get(
+  '/:id/transcript/export',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const format = String(req.query.format || 'txt').toLowerCase() as TranscriptExportFormat;
+    const redact = String(req.query.redact || 'none').toLowerCase() as TranscriptRedaction;
+    // Flags default to on; `false` or `0` turns them off
+    const flag = (name: string) => !['false', '0'].includes(String(req.query[name] ?? 'true').toLowerCase());
+
+    if (!TRANSCRIPT_EXPORT_FORMATS.includes(format)) {
+      res.status(400).json({ error: `Format must be one of: ${TRANSCRIPT_EXPORT_FORMATS.join(', ')}` });
+      return;
+    }
+    if (!TRANSCRIPT_REDACTIONS.includes(redact)) {
+      res.status(400).json({ error: `Redact must be one of: ${TRANSCRIPT_REDACTIONS.join(', ')}` });
+      return;
+    }
+
+    const callSession = await CallSession.findById(id);
+    if (!callSession) {
+      res.status(404).json({ error: 'Call not found' });
+      return;
+    }
+
+    // Check access
+    const userId = req.userId!;
+    const isHost = callSession.hostId.toString() === userId;
+    const isGuest = callSession.guestIds.some(g => g.toString() === userId);
+
+    if (!isHost && !isGuest) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const [transcript, notes] = await Promise.all([
+      Transcript.findOne({ callId: id }),
+      Notes.findOne({ callId: id }),
+    ]);
+
+    const file = await exportTranscript(callSession, transcript, notes, {
+      format,
+      speakers: flag('speakers'),
+      timestamps: flag('timestamps'),
+      notes: flag('notes'),
+      redact,
+    });
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.send(file.body);
+  })
+);
+
+// PUT /api/calls/:id/transcript/segments/:index/flag - Flag a segment for redaction
+router.put(
+  '/:id/transcript/segments/:index/flag',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const index = Number(req.params.index);
+    const flagged = req.body.flagged !== false;
+
+    if (!Number.isInteger(index) || index < 0) {
+      res.status(400).json({ error: 'Invalid segment index' });
+      return;
+    }
+
+    const callSession = await CallSession.findById(id);
+    if (!callSession) {
+      res.status(404).json({ error: 'Call not found' });
+      return;
+    }
+
+    // Check access
+    const userId = req.userId!;
+    const isHost = callSession.hostId.toString() === userId;
+    const isGuest = callSession.guestIds.some(g => g.toString() === userId);
+
+    if (!isHost && !isGuest) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const transcript = await Transcript.findOneAndUpdate(
+      { callId: id, [`segments.${index}`]: { $exists: true } },
+      { $set: { [`segments.${index}.flagged`]: flagged } },
+      { new: true }
+    );
+    if (!transcript) {
+      res.status(404).json({ error: 'Segment not found' });
+      return;
+    }
+
+    res.json({ segment: transcript.segments[index] });
+  })
+);
+
+// PUT /api/calls/:id/transcript/speakers - Rename a speaker across the transcript
+router.put(
+  '/:id/transcript/speakers',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const { from } = req.body;
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+
+    if (!from || typeof from !== 'string') {
+      res.status(400).json({ error: 'Speaker to rename is required' });
+      return;
+    }
+    if (!name || name.length > 60) {
+      res.status(400).json({ error: 'Name must be 1-60 characters' });
+      return;
+    }
+
+    const callSession = await CallSession.findById(id);
+    if (!callSession) {
+      res.status(404).json({ error: 'Call not found' });
+      return;
+    }
+
+    // Check access
+    const userId = req.userId!;
+    const isHost = callSession.hostId.toString() === userId;
+    const isGuest = callSession.guestIds.some(g => g.toString() === userId);
+
+    if (!isHost && !isGuest) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    try {
+      const transcript = await renameTranscriptSpeaker(id, from, name);
+      if (!transcript) {
+        res.status(404).json({ error: 'Transcript not found' });
+        return;
+      }
+
+      res.json({ transcript });
+    } catch (error) {
+      if (error instanceof SpeakerNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      throw error;
+    }
+  })
+);
+
 // GET /api/calls/:id/notes - Get AI notes
 router.get(
   '/:id/notes',
@@ -301,6 +497,7 @@ router.get(
 router.post(
   '/:id/generate-comprehensive-notes',
   authenticate,
+  requireAiCredits,
   asyncHandler(async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
 
@@ -333,19 +530,17 @@ router.post(
       return;
     }
 
-    // Start generation asynchronously
-    const io = req.app.get('io');
-    if (io) {
-      // Import the function (avoid circular dependency)
-      const { generateComprehensivePostCallSummary } = await import('../socket/index');
-      generateComprehensivePostCallSummary(id, callSession, transcript, io).catch((error) => {
-        console.error('[API] Error generating comprehensive notes:', error);
-      });
-    }
+    // Generate in the background; progress via GET /api/jobs/:id
+    const job = await enqueueJob('call.summary', { callId: id }, {
+      ownerIds: [callSession.hostId, ...callSession.guestIds].map(g => g.toString()),
+      subject: id,
+      dedupeKey: `call.summary:${id}`,
+    });
 
     res.json({ 
       message: 'Comprehensive notes generation started',
       status: 'processing',
+      job: serializeJob(job),
     });
   })
 );
@@ -354,6 +549,8 @@ router.post(
 router.post(
   '/:id/analyze-transcript',
   authenticate,
+  rateLimit('analysis'),
+  requireAiCredits,
   asyncHandler(async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
     const { transcript, participants, duration, isFinal } = req.body;
@@ -403,10 +600,10 @@ router.post(
       let analysis;
       if (isFinal) {
         // Generate final comprehensive summary
-        analysis = await generateFinalSummary(transcript, participants || [], duration || 0);
+        analysis = await generateFinalSummary(transcript, participants || [], duration || 0, userId);
       } else {
         // Generate incremental notes
-        analysis = await generateNotes(transcript, existingNotes || undefined);
+        analysis = await generateNotes(transcript, existingNotes || undefined, userId);
       }
 
       // Save or update notes in database
@@ -456,6 +653,8 @@ router.post(
 router.post(
   '/:id/ai-command',
   authenticate,
+  rateLimit('aiCommand'),
+  requireAiCredits,
   asyncHandler(async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
     const { command, requestedBy } = req.body;
@@ -544,35 +743,28 @@ Special commands you can handle:
 
 Always be conversational and helpful. Reference the call context when relevant.`;
 
-    const openai = getOpenAI();
-
     // Set up streaming response
     res.setHeader('Content-Type', 'text/event-stream');
     res.setHeader('Cache-Control', 'no-cache');
     res.setHeader('Connection', 'keep-alive');
 
     try {
-      if (openai) {
-        const stream = await openai.chat.completions.create({
-          model: 'gpt-4o',
+      let fullResponse = '';
+      const sendChunk = (content: string) => {
+        fullResponse += content;
+        res.write(`data: ${JSON.stringify({ type: 'chunk', content })}\n\n`);
+      };
+
+      try {
+        await streamText('callCommand', {
           messages: [
             { role: 'system', content: systemPrompt },
             { role: 'user', content: command },
           ],
-          stream: true,
           temperature: 0.7,
-          max_tokens: 1000,
-        });
-
-        let fullResponse = '';
-
-        for await (const chunk of stream) {
-          const content = chunk.choices[0]?.delta?.content || '';
-          if (content) {
-            fullResponse += content;
-            res.write(`data: ${JSON.stringify({ type: 'chunk', content })}\n\n`);
-          }
-        }
+          maxTokens: 1000,
+          userId,
+        }, sendChunk);
 
         // Send completion
         res.write(`data: ${JSON.stringify({ type: 'done' })}\n\n`);
@@ -588,20 +780,19 @@ Always be conversational and helpful. Reference the call context when relevant.`
             timestamp: Date.now(),
           });
         }
-      } else {
+      } catch (llmError) {
+        if (!(llmError instanceof LLMUnavailableError)) throw llmError;
+
         // Mock response
         const mockResponse = `I understand you're asking: "${command}". 
 
-As AceTime AI, I'm here to help! While OpenAI is not configured, I can still assist with general questions about the call.
+As AceTime AI, I'm here to help! AI services are currently unavailable, but I can still assist with general questions about the call.
 
-To enable full AI capabilities, please configure OPENAI_API_KEY.`;
+To enable full AI capabilities, please configure an AI provider (see LLM_PROVIDER).`;
 
         const words = mockResponse.split(' ');
-        let fullResponse = '';
         for (let i = 0; i < words.length; i++) {
-          const chunk = (i === 0 ? '' : ' ') + words[i];
-          fullResponse += chunk;
-          res.write(`data: ${JSON.stringify({ type: 'chunk', content: chunk })}\n\n`);
+          sendChunk((i === 0 ? '' : ' ') + words[i]);
           await new Promise((resolve) => setTimeout(resolve, 50));
         }
 
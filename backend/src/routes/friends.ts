@@ -3,6 +3,7 @@ import { authenticate, AuthRequest } from '../middleware/auth';
 import { asyncHandler } from '../middleware/errorHandler';
 import { Friendship } from '../models/Friendship';
 import { User } from '../models/User';
+import { createNotification } from '../services/notifications';
 import mongoose from 'mongoose';
 
 const router = express.Router();
@@ -105,6 +106,20 @@ router.post(
 
     await friendship.save();
 
+    const requester = await User.findById(userId).select('name').lean();
+    await createNotification(req.app.get('io'), {
+      userId: targetUserId,
+      type: 'friend_request',
+      title: 'New friend request',
+      message: `${requester?.name || 'Someone'} wants to connect with you`,
+      actionUrl: '/friends',
+      metadata: {
+        friendId: userId.toString(),
+        friendName: requester?.name,
+        friendshipId: friendship._id.toString(),
+      },
+    });
+
     res.status(201).json({ friendship, message: 'Friend request sent' });
   })
 );
@@ -144,6 +159,19 @@ router.post(
     friendship.lastInteraction = new Date();
     await friendship.save();
 
+    await createNotification(req.app.get('io'), {
+      userId: friendship.userId1.toString(),
+      type: 'friend_accepted',
+      title: 'Friend request accepted',
+      message: `${req.user?.name || 'Someone'} accepted your friend request`,
+      actionUrl: '/friends',
+      metadata: {
+        friendId: userId.toString(),
+        friendName: req.user?.name,
+        friendshipId: friendship._id.toString(),
+      },
+    });
+
     res.json({ friendship, message: 'Friend request accepted' });
   })
 );
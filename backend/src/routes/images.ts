@@ -4,10 +4,12 @@ import { CallSession } from '../models/CallSession';
 import { Transcript } from '../models/Transcript';
 import { authenticate, AuthRequest } from '../middleware/auth';
 import { asyncHandler } from '../middleware/errorHandler';
+import { rateLimit, requireAiCredits } from '../middleware/rateLimit';
 import OpenAI from 'openai';
 import { getOpenAI } from '../services/openai';
 import { generateImage, isStabilityConfigured } from '../services/stability';
 import { generateFreeImage, isFreeAIAvailable } from '../services/freeAI';
+import { chargeImageCredits } from '../services/aiCredits';
 
 const router = Router();
 
@@ -15,6 +17,8 @@ const router = Router();
 router.post(
   '/generate',
   authenticate,
+  rateLimit('imageGeneration'),
+  requireAiCredits,
   asyncHandler(async (req: AuthRequest, res: Response) => {
     const { prompt, style = 'dream', callId, conversationId } = req.body;
 
@@ -150,6 +154,7 @@ router.post(
         contextSource: callId ? 'call_transcript' : conversationId ? 'chat' : 'manual',
       });
       await generatedImage.save();
+      await chargeImageCredits(req.userId!);
 
       // Emit to call room if during a call
       if (callId) {
@@ -216,6 +221,8 @@ router.post(
 router.post(
   '/generate-from-call',
   authenticate,
+  rateLimit('imageGeneration'),
+  requireAiCredits,
   asyncHandler(async (req: AuthRequest, res: Response) => {
     const { callId, style = 'dream' } = req.body;
 
@@ -377,6 +384,7 @@ router.post(
         transcriptContext: context,
       });
       await generatedImage.save();
+      await chargeImageCredits(req.userId!);
 
       // Emit to call room
       const io = req.app.get('io');
@@ -0,0 +1,57 @@
+import { Router, Response } from 'express';
+import mongoose from 'mongoose';
+import { Job } from '../models/Job';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { retryJob, serializeJob } from '../services/jobQueue';
+
+const router = Router();
+
+// Jobs are visible to the users they were queued for
+const findOwnJob = async (id: string, userId: string) => {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+  return Job.findOne({ _id: id, ownerIds: userId });
+};
+
+// GET /api/jobs/:id - Background job status (queued, running, retrying, completed, dead)
+router.get(
+  '/:id',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const job = await findOwnJob(req.params.id, req.userId!);
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+
+    res.json({ job: serializeJob(job) });
+  })
+);
+
+// POST /api/jobs/:id/retry - Requeue a dead job
+router.post(
+  '/:id/retry',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const job = await findOwnJob(req.params.id, req.userId!);
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+
+    if (job.status !== 'dead') {
+      res.status(409).json({ error: `Job is ${job.status}, only failed jobs can be retried` });
+      return;
+    }
+
+    const requeued = await retryJob(job._id.toString());
+    if (!requeued) {
+      res.status(409).json({ error: 'Job was already retried' });
+      return;
+    }
+
+    res.json({ job: serializeJob(requeued) });
+  })
+);
+
+export default router;
@@ -11,6 +11,7 @@ import { User } from '../models/User';
 import { authenticate, AuthRequest } from '../middleware/auth';
 import { asyncHandler } from '../middleware/errorHandler';
 import { uploadRecording } from '../services/storage';
+import { enqueueJob } from '../services/jobQueue';
 import OpenAI from 'openai';
 
 const router = Router();
@@ -356,22 +357,11 @@ router.post(
           contact.lastInteractionAt = new Date();
           await contact.save();
           
-          // Trigger context update in background (non-blocking)
-          const { generateContactContext } = await import('../services/contactContext');
-          const contactUser = await User.findById(otherParticipantId);
-          generateContactContext(
-            contactUser?.name || 'Contact',
-            userIdStr,
-            otherParticipantId.toString(),
-            conversation._id.toString()
-          ).then((context) => {
-            contact.aiContext = {
-              summary: context.summary,
-              keyTopics: context.keyTopics,
-              relationship: context.relationship,
-              lastUpdated: new Date(),
-            };
-            contact.save().catch(console.error);
+          // Refresh context in the background (a burst of messages shares one job)
+          enqueueJob('contact.context', { contactId: contact._id.toString() }, {
+            ownerIds: [userIdStr],
+            subject: contact._id.toString(),
+            dedupeKey: `contact.context:${contact._id}`,
           }).catch(console.error);
         } else {
           // Auto-create contact if it doesn't exist
@@ -0,0 +1,104 @@
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { User } from '../models/User';
+import { Session } from '../models/Session';
+import { createMemoryStore, setSharedStore } from '../services/sharedStore';
+import { createMfaChallenge, encryptSecret } from '../services/mfa';
+import { serveRouter } from '../test/app';
+import mfaRoutes from './mfa';
+
+// RFC 6238 test secret; its code at T = 59 s is 287082
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const NOW = 59 * 1000;
+const RIGHT_CODE = '287082';
+const WRONG_CODE = '000000';
+
+describe('POST /api/auth/mfa/challenge', () => {
+  let server: Awaited<ReturnType<typeof serveRouter>>;
+  const user = new User({
+    name: 'Test User',
+    email: 'test@example.com',
+    passwordHash: 'x'.repeat(60),
+    mfa: { enabled: true, secret: encryptSecret(SECRET), lastUsedStep: 0, recoveryCodes: [] },
+  });
+
+  const challenge = (mfaToken: string, code: string) =>
+    fetch(`${server.url}/challenge`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ mfaToken, code }),
+    });
+
+  before(async () => {
+    server = await serveRouter('/api/auth/mfa', mfaRoutes);
+  });
+  after(() => server.close());
+
+  beforeEach(() => {
+    setSharedStore(createMemoryStore());
+    user.mfa!.lastUsedStep = 0;
+    mock.timers.enable({ apis: ['Date'], now: NOW });
+    mock.method(User, 'findById', async () => user);
+    mock.method(User, 'findOneAndUpdate', async (filter: any) =>
+      user.mfa!.lastUsedStep! < filter['mfa.lastUsedStep'].$lt ? user : null);
+    mock.method(Session, 'create', async (doc: any) => ({ ...doc, deviceName: 'Unknown device' }));
+  });
+  afterEach(() => {
+    mock.timers.reset();
+    mock.restoreAll();
+  });
+
+  it('trades the challenge and a valid code for a session', async () => {
+    const response = await challenge(createMfaChallenge(user), RIGHT_CODE);
+    assert.equal(response.status, 200);
+    const data = await response.json() as any;
+    assert.ok(data.accessToken);
+    assert.ok(data.refreshToken);
+  });
+
+  it('does not accept the same code twice', async () => {
+    assert.equal((await challenge(createMfaChallenge(user), RIGHT_CODE)).status, 200);
+    assert.equal((await challenge(createMfaChallenge(user), RIGHT_CODE)).status, 401);
+  });
+
+  it('gives each challenge five attempts', async () => {
+    const mfaToken = createMfaChallenge(user);
+    for (let i = 0; i < 5; i++) {
+      assert.equal((await challenge(mfaToken, WRONG_CODE)).status, 401);
+    }
+    const response = await challenge(mfaToken, RIGHT_CODE);
+    assert.equal(response.status, 401);
+    assert.equal(((await response.json()) as any).code, 'mfa_challenge_invalid');
+  });
+
+  it('locks the account across challenges, before looking at the code', async () => {
+    // A new password sign-in (a new challenge) doesn't reset the count
+    for (let i = 0; i < 10; i++) {
+      assert.equal((await challenge(createMfaChallenge(user), WRONG_CODE)).status, 401);
+    }
+
+    const verify = mock.method(User, 'findOneAndUpdate', async () => user);
+    const response = await challenge(createMfaChallenge(user), RIGHT_CODE);
+    assert.equal(response.status, 429);
+    assert.equal(((await response.json()) as any).code, 'mfa_locked');
+    assert.equal(verify.mock.callCount(), 0);
+  });
+
+  it('starts counting again after a correct code', async () => {
+    for (let i = 0; i < 9; i++) {
+      await challenge(createMfaChallenge(user), WRONG_CODE);
+    }
+    assert.equal((await challenge(createMfaChallenge(user), RIGHT_CODE)).status, 200);
+    assert.equal((await challenge(createMfaChallenge(user), WRONG_CODE)).status, 401);
+    assert.equal((await challenge(createMfaChallenge(user), WRONG_CODE)).status, 401);
+  });
+
+  it('rejects a tampered challenge', async () => {
+    const [header, payload, signature] = createMfaChallenge(user).split('.');
+    const forged = JSON.stringify({ ...JSON.parse(Buffer.from(payload, 'base64url').toString()), userId: new mongoose.Types.ObjectId().toString() });
+    const response = await challenge([header, Buffer.from(forged).toString('base64url'), signature].join('.'), RIGHT_CODE);
+    assert.equal(response.status, 401);
+    assert.equal(((await response.json()) as any).code, 'mfa_challenge_invalid');
+  });
+});
@@ -0,0 +1,233 @@
+import { Router, Request, Response } from 'express';
+import { User, IUser } from '../models/User';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { createSession } from '../services/sessions';
+import {
+  MfaError,
+  generateTotpSecret,
+  otpauthUrl,
+  encryptSecret,
+  decryptSecret,
+  matchTotp,
+  generateRecoveryCodes,
+  verifyMfaCode,
+  remainingRecoveryCodes,
+  readMfaChallenge,
+  recordChallengeFailure,
+  assertNotLockedOut,
+  recordUserFailure,
+  clearUserFailures,
+} from '../services/mfa';
+
+const router = Router();
+
+const mfaStatus = (user: IUser) => ({
+  enabled: !!user.mfa?.enabled,
+  enabledAt: user.mfa?.enabledAt || null,
+  recoveryCodesRemaining: remainingRecoveryCodes(user),
+  passwordRequired: user.hasPassword,
+});
+
+// Changing 2FA takes the password and a current code (or a recovery code).
+// An account made through single sign-on has no password its owner knows,
+// so there the code alone will do. Wrong codes count towards the lockout.
+const reauthenticate = async (
+  user: IUser,
+  body: { password?: string; code?: string; recoveryCode?: string }
+): Promise<{ status: number; error: string } | null> => {
+  const userId = user._id.toString();
+  try {
+    await assertNotLockedOut(userId);
+  } catch (error: any) {
+    if (!(error instanceof MfaError)) throw error;
+    return { status: 429, error: error.message };
+  }
+  if (user.hasPassword && (!body.password || !(await user.comparePassword(body.password)))) {
+    return { status: 401, error: 'Password is incorrect' };
+  }
+  if (!(await verifyMfaCode(user, body))) {
+    await recordUserFailure(userId);
+    return { status: 401, error: 'Invalid authentication code' };
+  }
+  await clearUserFailures(userId);
+  return null;
+};
+
+// POST /api/auth/mfa/challenge - Second sign-in step: trade the challenge and a code for tokens
+router.post(
+  '/challenge',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { mfaToken, code, recoveryCode } = req.body;
+    if (!mfaToken || (!code && !recoveryCode)) {
+      res.status(400).json({ error: 'Challenge token and code required' });
+      return;
+    }
+
+    let challenge: { userId: string; jti: string };
+    try {
+      challenge = await readMfaChallenge(mfaToken);
+    } catch (error: any) {
+      if (!(error instanceof MfaError)) throw error;
+      res.status(401).json({ error: error.message, code: 'mfa_challenge_invalid' });
+      return;
+    }
+
+    // Checked before the code, so a locked account can't be probed at all
+    try {
+      await assertNotLockedOut(challenge.userId);
+    } catch (error: any) {
+      if (!(error instanceof MfaError)) throw error;
+      res.status(429).json({ error: error.message, code: 'mfa_locked' });
+      return;
+    }
+
+    const user = await User.findById(challenge.userId);
+    const method = user ? await verifyMfaCode(user, { code, recoveryCode }) : null;
+    if (!user || !method) {
+      await recordChallengeFailure(challenge.jti);
+      await recordUserFailure(challenge.userId);
+      res.status(401).json({ error: 'Invalid authentication code' });
+      return;
+    }
+    await clearUserFailures(challenge.userId);
+
+    const tokens = await createSession(user, req);
+    res.json({
+      message: 'Login successful',
+      user: {
+        _id: user._id,
+        name: user.name,
+        email: user.email,
+        settings: user.settings,
+        mfaEnabled: true,
+      },
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      // Running low after using one is worth a nudge
+      recoveryCodesRemaining: method === 'recovery' ? remainingRecoveryCodes(user) : undefined,
+    });
+  })
+);
+
+// GET /api/auth/mfa - Two-factor status
+router.get(
+  '/',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    res.json(mfaStatus(req.user!));
+  })
+);
+
+// POST /api/auth/mfa/setup - Start enrolling: a new secret to scan
+router.post(
+  '/setup',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const user = req.user!;
+    if (user.mfa?.enabled) {
+      res.status(409).json({ error: 'Two-factor authentication is already on' });
+      return;
+    }
+
+    const secret = generateTotpSecret();
+    user.set('mfa.pendingSecret', encryptSecret(secret));
+    await user.save();
+
+    res.json({ secret, otpauthUrl: otpauthUrl(user.email, secret) });
+  })
+);
+
+// POST /api/auth/mfa/enable - Confirm enrollment with a code from the app; returns the recovery codes once
+router.post(
+  '/enable',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const user = req.user!;
+    if (user.mfa?.enabled) {
+      res.status(409).json({ error: 'Two-factor authentication is already on' });
+      return;
+    }
+    if (!user.mfa?.pendingSecret) {
+      res.status(400).json({ error: 'Start the setup first' });
+      return;
+    }
+
+    const step = matchTotp(decryptSecret(user.mfa.pendingSecret), req.body.code);
+    if (step === null) {
+      res.status(400).json({ error: 'Invalid authentication code' });
+      return;
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+    user.set('mfa', {
+      enabled: true,
+      secret: user.mfa.pendingSecret,
+      pendingSecret: null,
+      enabledAt: new Date(),
+      lastUsedStep: step,
+      recoveryCodes: hashes.map(hash => ({ hash })),
+    });
+    await user.save();
+    console.log(`[MFA] ✅ Two-factor authentication enabled for ${user._id}`);
+
+    res.json({ ...mfaStatus(user), recoveryCodes: codes });
+  })
+);
+
+// POST /api/auth/mfa/recovery-codes - Replace the recovery codes (re-authentication required)
+router.post(
+  '/recovery-codes',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const user = req.user!;
+    if (!user.mfa?.enabled) {
+      res.status(400).json({ error: 'Two-factor authentication is off' });
+      return;
+    }
+    const failure = await reauthenticate(user, req.body);
+    if (failure) {
+      res.status(failure.status).json({ error: failure.error });
+      return;
+    }
+
+    // A targeted update: saving the whole document could roll back a code used meanwhile
+    const { codes, hashes } = generateRecoveryCodes();
+    const updated = await User.findByIdAndUpdate(
+      user._id,
+      { $set: { 'mfa.recoveryCodes': hashes.map(hash => ({ hash })) } },
+      { new: true }
+    );
+
+    res.json({ ...mfaStatus(updated!), recoveryCodes: codes });
+  })
+);
+
+// POST /api/auth/mfa/disable - Turn 2FA off (re-authentication required)
+router.post(
+  '/disable',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const user = req.user!;
+    if (!user.mfa?.enabled) {
+      res.status(400).json({ error: 'Two-factor authentication is off' });
+      return;
+    }
+    const failure = await reauthenticate(user, req.body);
+    if (failure) {
+      res.status(failure.status).json({ error: failure.error });
+      return;
+    }
+
+    const updated = await User.findByIdAndUpdate(
+      user._id,
+      { $set: { mfa: { enabled: false, secret: null, pendingSecret: null, enabledAt: null, lastUsedStep: 0, recoveryCodes: [] } } },
+      { new: true }
+    );
+    console.log(`[MFA] ⚠️ Two-factor authentication disabled for ${user._id}`);
+
+    res.json(mfaStatus(updated!));
+  })
+);
+
+export default router;
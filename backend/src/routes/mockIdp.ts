@@ -0,0 +1,179 @@
+import crypto from 'crypto';
+import { Router, Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { MOCK_IDP_CLIENT_ID, mockIdpIssuer } from '../services/oidc';
+
+/**
+ * A stand-in OpenID Connect provider for development and tests, mounted at
+ * /mock-idp when OIDC_MOCK_IDP=true (never in production). The authorize
+ * page lets you type any email and choose whether it counts as verified,
+ * so linking, sign-up and the unverified case can all be tried without a
+ * real identity provider. PKCE (S256) is required, as from a real one.
+ *
+ * State lives in this process only; run a single instance with it.
+ */
+
+const CODE_TTL_MS = 60 * 1000;
+const TOKEN_TTL_SECONDS = 300;
+
+interface IssuedCode {
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  email: string;
+  name: string;
+  emailVerified: boolean;
+  expiresAt: number;
+}
+
+const codes = new Map<string, IssuedCode>();
+
+let signingKeys: { privateKey: crypto.KeyObject; jwk: crypto.JsonWebKey; kid: string } | null = null;
+
+// A fresh key per process; providers cache JWKS by kid, so a restart is picked up
+const getSigningKeys = () => {
+  if (signingKeys) return signingKeys;
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  signingKeys = {
+    privateKey,
+    jwk: publicKey.export({ format: 'jwk' }),
+    kid: crypto.randomBytes(8).toString('hex'),
+  };
+  return signingKeys;
+};
+
+const escapeHtml = (value: unknown) =>
+  String(value ?? '').replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+
+// Stable per email, like a real provider's subject
+const subjectFor = (email: string) =>
+  `mock-${crypto.createHash('sha256').update(email.toLowerCase()).digest('hex').substring(0, 24)}`;
+
+const router = Router();
+
+// GET /mock-idp/.well-known/openid-configuration - Provider metadata
+router.get('/.well-known/openid-configuration', (req: Request, res: Response) => {
+  const issuer = mockIdpIssuer();
+  res.json({
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    jwks_uri: `${issuer}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    code_challenge_methods_supported: ['S256'],
+    scopes_supported: ['openid', 'email', 'profile'],
+  });
+});
+
+// GET /mock-idp/jwks - Public signing key
+router.get('/jwks', (req: Request, res: Response) => {
+  const { jwk, kid } = getSigningKeys();
+  res.json({ keys: [{ ...jwk, kid, use: 'sig', alg: 'RS256' }] });
+});
+
+// GET /mock-idp/authorize - "Sign in" page: pick who you are
+router.get('/authorize', (req: Request, res: Response) => {
+  const { client_id, redirect_uri, response_type, code_challenge, code_challenge_method } = req.query;
+  if (client_id !== MOCK_IDP_CLIENT_ID || response_type !== 'code' || !redirect_uri) {
+    res.status(400).send('Invalid authorization request');
+    return;
+  }
+  if (!code_challenge || code_challenge_method !== 'S256') {
+    res.status(400).send('PKCE with S256 is required');
+    return;
+  }
+
+  const hidden = ['redirect_uri', 'state', 'nonce', 'code_challenge']
+    .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(req.query[name])}">`)
+    .join('');
+  res.send(`<!doctype html>
+<html><head><title>Mock IdP</title></head>
+<body style="font-family: sans-serif; max-width: 360px; margin: 80px auto">
+  <h2>Mock IdP</h2>
+  <p>Local test provider. Sign in as anyone.</p>
+  <form method="post" action="${escapeHtml(`${mockIdpIssuer()}/authorize`)}">
+    ${hidden}
+    <p><label>Email<br><input name="email" type="email" required style="width: 100%"></label></p>
+    <p><label>Name<br><input name="name" style="width: 100%"></label></p>
+    <p><label><input name="email_verified" type="checkbox" checked> Email is verified</label></p>
+    <button type="submit">Sign in</button>
+  </form>
+</body></html>`);
+});
+
+// POST /mock-idp/authorize - Issue a code and send the browser back
+router.post('/authorize', (req: Request, res: Response) => {
+  const { redirect_uri, state, nonce, code_challenge, email, name, email_verified } = req.body;
+  if (!redirect_uri || !code_challenge || !email) {
+    res.status(400).send('Invalid sign-in');
+    return;
+  }
+
+  for (const [key, issued] of codes) {
+    if (issued.expiresAt < Date.now()) codes.delete(key);
+  }
+  const code = crypto.randomBytes(24).toString('base64url');
+  codes.set(code, {
+    redirectUri: redirect_uri,
+    codeChallenge: code_challenge,
+    nonce: nonce || undefined,
+    email: String(email).trim().toLowerCase(),
+    name: String(name || '').trim(),
+    emailVerified: !!email_verified,
+    expiresAt: Date.now() + CODE_TTL_MS,
+  });
+
+  const target = new URL(redirect_uri);
+  target.searchParams.set('code', code);
+  if (state) target.searchParams.set('state', state);
+  res.redirect(target.toString());
+});
+
+// POST /mock-idp/token - Trade a code (and its PKCE verifier) for an ID token
+router.post('/token', (req: Request, res: Response) => {
+  const { grant_type, code, redirect_uri, code_verifier } = req.body;
+  const basic = req.get('authorization')?.match(/^Basic (.+)$/)?.[1];
+  const clientId = req.body.client_id || (basic && decodeURIComponent(Buffer.from(basic, 'base64').toString().split(':')[0]));
+
+  const issued = codes.get(code);
+  codes.delete(code);
+  if (grant_type !== 'authorization_code' || clientId !== MOCK_IDP_CLIENT_ID || !issued || issued.expiresAt < Date.now()) {
+    res.status(400).json({ error: 'invalid_grant' });
+    return;
+  }
+  const challenge = crypto.createHash('sha256').update(String(code_verifier || '')).digest('base64url');
+  if (issued.redirectUri !== redirect_uri || challenge !== issued.codeChallenge) {
+    res.status(400).json({ error: 'invalid_grant' });
+    return;
+  }
+
+  const { privateKey, kid } = getSigningKeys();
+  const idToken = jwt.sign(
+    {
+      email: issued.email,
+      email_verified: issued.emailVerified,
+      name: issued.name || undefined,
+      nonce: issued.nonce,
+    },
+    privateKey,
+    {
+      algorithm: 'RS256',
+      keyid: kid,
+      issuer: mockIdpIssuer(),
+      audience: MOCK_IDP_CLIENT_ID,
+      subject: subjectFor(issued.email),
+      expiresIn: TOKEN_TTL_SECONDS,
+    }
+  );
+
+  res.json({
+    access_token: crypto.randomBytes(24).toString('base64url'),
+    token_type: 'Bearer',
+    expires_in: TOKEN_TTL_SECONDS,
+    id_token: idToken,
+  });
+});
+
+export default router;
@@ -7,14 +7,13 @@ import { Connection } from '../models/Connection';
 import { User } from '../models/User';
 import { authenticate, AuthRequest } from '../middleware/auth';
 import { asyncHandler } from '../middleware/errorHandler';
-import OpenAI from 'openai';
+import { rateLimit, requireAiCredits } from '../middleware/rateLimit';
+import { isLLMAvailable, LLMUnavailableError } from '../services/llm';
+import { findMatches, MatchSourceNotFoundError } from '../services/matching';
+import { enqueueJob, serializeJob } from '../services/jobQueue';
 
 const router = Router();
 
-const openai = process.env.OPENAI_API_KEY 
-  ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
-  : null;
-
 // ============ VISIONS ============
 
 // POST /api/network/visions - Create vision
@@ -272,108 +271,49 @@ router.get(
 
 // ============ MATCHING ENGINE ============
 
-// POST /api/network/match/find - Find matches for vision/offer
+// POST /api/network/match/find - Find matches for vision/offer ({ async: true } queues a job instead)
 router.post(
   '/match/find',
   authenticate,
+  rateLimit('matching'),
+  requireAiCredits,
   asyncHandler(async (req: AuthRequest, res: Response) => {
-    const { entityType, entityId } = req.body;
+    const { entityType, entityId, async: runAsync } = req.body;
+
+    if (entityType !== 'vision' && entityType !== 'offer') {
+      res.status(400).json({ error: 'entityType must be vision or offer' });
+      return;
+    }
 
-    if (!openai) {
+    if (!isLLMAvailable('matching')) {
       res.status(503).json({ error: 'Matching engine requires AI configuration' });
       return;
     }
 
-    let sourceEntity: any;
-    let searchCriteria: any = {};
+    // Scoring many candidates takes a while: let the client poll GET /api/jobs/:id
+    if (runAsync) {
+      const job = await enqueueJob('network.match', { userId: req.userId!, entityType, entityId }, {
+        ownerIds: [req.userId!],
+        subject: entityId,
+      });
+      res.status(202).json({ job: serializeJob(job) });
+      return;
+    }
 
-    if (entityType === 'vision') {
-      sourceEntity = await Vision.findOne({ _id: entityId, userId: req.userId });
-      if (!sourceEntity) {
-        res.status(404).json({ error: 'Vision not found' });
+    try {
+      const matches = await findMatches(req.userId!, entityType, entityId);
+      res.json({ matches });
+    } catch (error) {
+      if (error instanceof MatchSourceNotFoundError) {
+        res.status(404).json({ error: error.message });
         return;
       }
-      searchCriteria = { tags: sourceEntity.tags, category: sourceEntity.category };
-    } else if (entityType === 'offer') {
-      sourceEntity = await Offer.findOne({ _id: entityId, userId: req.userId });
-      if (!sourceEntity) {
-        res.status(404).json({ error: 'Offer not found' });
+      if (error instanceof LLMUnavailableError) {
+        res.status(503).json({ error: 'Matching engine is temporarily unavailable' });
         return;
       }
-      searchCriteria = { tags: sourceEntity.tags, targetAudience: sourceEntity.targetAudience };
+      throw error;
     }
-
-    // Get user's connections for mutual matching
-    const connections = await Connection.find({
-      userId: req.userId,
-      status: 'accepted',
-    });
-    const connectionIds = connections.map(c => c.connectedUserId);
-
-    // Find potential matches
-    const potentialOffers = await Offer.find({
-      userId: { $ne: req.userId },
-      status: 'active',
-      $or: [
-        { tags: { $in: searchCriteria.tags || [] } },
-        { category: searchCriteria.category },
-      ],
-    }).populate('userId', 'name avatar');
-
-    const potentialVisions = await Vision.find({
-      userId: { $ne: req.userId },
-      status: 'active',
-      $or: [
-        { tags: { $in: searchCriteria.tags || [] } },
-        { category: searchCriteria.category },
-      ],
-    }).populate('userId', 'name avatar');
-
-    // Use AI to score and rank matches
-    const matches: any[] = [];
-    const allPotentialItems = [...potentialOffers.map(o => ({ ...o.toObject(), _type: 'offer' })), 
-                               ...potentialVisions.map(v => ({ ...v.toObject(), _type: 'vision' }))];
-
-    for (const item of allPotentialItems) {
-      try {
-        const response = await openai.chat.completions.create({
-          model: 'gpt-4o',
-          messages: [
-            {
-              role: 'system',
-              content: 'You are a business matching AI. Score how well two items match on a scale of 0-100 and provide 2-3 brief reasons. Return JSON: { "score": number, "reasons": string[] }',
-            },
-            {
-              role: 'user',
-              content: `Source: ${sourceEntity.title} - ${sourceEntity.description}\n\nTarget: ${item.title} - ${item.description}`,
-            },
-          ],
-          response_format: { type: 'json_object' },
-          max_tokens: 200,
-        });
-
-        const result = JSON.parse(response.choices[0]?.message?.content || '{}');
-        
-        if (result.score >= 50) {
-          const isMutual = connectionIds.some(id => id.equals(item.userId._id));
-          
-          matches.push({
-            targetEntity: item,
-            targetType: item._type,
-            score: result.score,
-            reasons: result.reasons,
-            isMutualConnection: isMutual,
-          });
-        }
-      } catch (error) {
-        console.error('Match scoring error:', error);
-      }
-    }
-
-    // Sort by score
-    matches.sort((a, b) => b.score - a.score);
-
-    res.json({ matches: matches.slice(0, 20) });
   })
 );
 
@@ -0,0 +1,151 @@
+import { Router, Response } from 'express';
+import mongoose from 'mongoose';
+import { Notification } from '../models/Notification';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { serializeNotification } from '../services/notifications';
+
+const router = Router();
+
+// GET /api/notifications - List the user's inbox
+router.get(
+  '/',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.userId!;
+    const { page = 1, limit = 30, unreadOnly } = req.query;
+
+    const pageNum = Math.max(1, parseInt(page as string) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string) || 30));
+
+    const query: any = { userId };
+    if (unreadOnly === 'true') {
+      query.read = false;
+    }
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      Notification.find(query)
+        .sort({ createdAt: -1 })
+        .skip((pageNum - 1) * limitNum)
+        .limit(limitNum),
+      Notification.countDocuments(query),
+      Notification.countDocuments({ userId, read: false }),
+    ]);
+
+    res.json({
+      notifications: notifications.map(serializeNotification),
+      unreadCount,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        pages: Math.ceil(total / limitNum),
+      },
+    });
+  })
+);
+
+// POST /api/notifications/read-all - Mark every notification as read
+router.post(
+  '/read-all',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.userId!;
+
+    await Notification.updateMany(
+      { userId, read: false },
+      { $set: { read: true, readAt: new Date() } }
+    );
+
+    // Sync other tabs/devices
+    const io = req.app.get('io');
+    if (io) {
+      io.to(`user:${userId}`).emit('notification:read', { all: true });
+    }
+
+    res.json({ message: 'All notifications marked as read', unreadCount: 0 });
+  })
+);
+
+// PATCH /api/notifications/:id/read - Mark a single notification as read
+router.patch(
+  '/:id/read',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.userId!;
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      res.status(400).json({ error: 'Invalid notification ID' });
+      return;
+    }
+
+    const notification = await Notification.findOneAndUpdate(
+      { _id: id, userId },
+      { $set: { read: true, readAt: new Date() } },
+      { new: true }
+    );
+
+    if (!notification) {
+      res.status(404).json({ error: 'Notification not found' });
+      return;
+    }
+
+    const unreadCount = await Notification.countDocuments({ userId, read: false });
+
+    const io = req.app.get('io');
+    if (io) {
+      io.to(`user:${userId}`).emit('notification:read', { ids: [id] });
+    }
+
+    res.json({ notification: serializeNotification(notification), unreadCount });
+  })
+);
+
+// DELETE /api/notifications/:id - Remove a notification from the inbox
+router.delete(
+  '/:id',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.userId!;
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      res.status(400).json({ error: 'Invalid notification ID' });
+      return;
+    }
+
+    const result = await Notification.deleteOne({ _id: id, userId });
+    if (result.deletedCount === 0) {
+      res.status(404).json({ error: 'Notification not found' });
+      return;
+    }
+
+    const io = req.app.get('io');
+    if (io) {
+      io.to(`user:${userId}`).emit('notification:deleted', { ids: [id] });
+    }
+
+    res.json({ message: 'Notification deleted' });
+  })
+);
+
+// DELETE /api/notifications - Clear the whole inbox
+router.delete(
+  '/',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.userId!;
+
+    await Notification.deleteMany({ userId });
+
+    const io = req.app.get('io');
+    if (io) {
+      io.to(`user:${userId}`).emit('notification:deleted', { all: true });
+    }
+
+    res.json({ message: 'Notifications cleared' });
+  })
+);
+
+export default router;
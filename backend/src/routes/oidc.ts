@@ -0,0 +1,80 @@
+import { Router, Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { createSession } from '../services/sessions';
+import { createMfaChallenge } from '../services/mfa';
+import { OidcError, listOidcProviders, startOidcLogin, completeOidcLogin } from '../services/oidc';
+
+const router = Router();
+
+// GET /api/auth/oidc/providers - Single sign-on providers for the login page
+router.get('/providers', (req: Request, res: Response) => {
+  res.json({ providers: listOidcProviders() });
+});
+
+// POST /api/auth/oidc/:provider/start - Where to send the browser to sign in
+router.post(
+  '/:provider/start',
+  asyncHandler(async (req: Request, res: Response) => {
+    try {
+      const authorizationUrl = await startOidcLogin(req.params.provider, req.body.redirectTo);
+      res.json({ authorizationUrl });
+    } catch (error: any) {
+      if (!(error instanceof OidcError)) throw error;
+      res.status(404).json({ error: error.message, code: error.code });
+    }
+  })
+);
+
+// POST /api/auth/oidc/callback - Trade the code the provider sent back for a session
+router.post(
+  '/callback',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { code, state } = req.body;
+    if (!code || !state) {
+      res.status(400).json({ error: 'Authorization code and state required' });
+      return;
+    }
+
+    let result: Awaited<ReturnType<typeof completeOidcLogin>>;
+    try {
+      result = await completeOidcLogin(String(code), String(state), req.app.get('io'));
+    } catch (error: any) {
+      if (!(error instanceof OidcError)) throw error;
+      res.status(error.code === 'signup_disabled' || error.code === 'email_unverified' ? 403 : 401)
+        .json({ error: error.message, code: error.code });
+      return;
+    }
+
+    const { user, created, redirectTo } = result;
+
+    // An account with 2FA on still needs its code after single sign-on
+    if (user.mfa?.enabled) {
+      res.json({
+        message: 'Two-factor authentication required',
+        code: 'mfa_required',
+        mfaRequired: true,
+        mfaToken: createMfaChallenge(user),
+        redirectTo,
+      });
+      return;
+    }
+
+    const tokens = await createSession(user, req);
+    res.status(created ? 201 : 200).json({
+      message: created ? 'Registration successful' : 'Login successful',
+      user: {
+        _id: user._id,
+        name: user.name,
+        email: user.email,
+        settings: user.settings,
+        mfaEnabled: false,
+      },
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      created,
+      redirectTo,
+    });
+  })
+);
+
+export default router;
@@ -3,6 +3,7 @@ import { authenticate, AuthRequest } from '../middleware/auth';
 import { asyncHandler } from '../middleware/errorHandler';
 import { PrivateCall } from '../models/PrivateCall';
 import { Friendship } from '../models/Friendship';
+import { checkCallPermission, recordBlockedCallAttempt, DENIAL_STATUS } from '../services/callPolicy';
 import { v4 as uuidv4 } from 'uuid';
 
 const router = express.Router();
@@ -20,24 +21,22 @@ router.post(
       return;
     }
 
-    if (recipientId === callerId.toString()) {
-      res.status(400).json({ error: 'Cannot call yourself' });
-      return;
-    }
+    // Private calls need an accepted friendship on top of the recipient's privacy settings
+    const permission = await checkCallPermission(callerId, recipientId, { requireFriendship: true });
 
-    // Verify friendship exists and is accepted
-    const friendship = await Friendship.findOne({
-      $or: [
-        { userId1: callerId, userId2: recipientId, status: 'accepted' },
-        { userId1: recipientId, userId2: callerId, status: 'accepted' },
-      ],
-    });
-
-    if (!friendship) {
-      res.status(403).json({ error: 'You must be friends to call' });
+    if (!permission.allowed) {
+      await recordBlockedCallAttempt(req.app.get('io'), {
+        callerId,
+        recipientId,
+        reason: permission.reason,
+        isVideo: (type || 'video') === 'video',
+      });
+      res.status(DENIAL_STATUS[permission.publicReason]).json({ error: permission.message, reason: permission.publicReason });
       return;
     }
 
+    const friendship = permission.friendship!;
+
     // Generate unique call ID
     const callId = `private-${uuidv4()}`;
 
@@ -5,36 +5,78 @@ import { Transcript } from '../models/Transcript';
 import { Notes } from '../models/Notes';
 import { authenticate, AuthRequest } from '../middleware/auth';
 import { asyncHandler } from '../middleware/errorHandler';
+import { createNotification } from '../services/notifications';
+import {
+  checkCallPermission,
+  checkRoomJoinPermission,
+  recordBlockedCallAttempt,
+  CallDenialReason,
+  DENIAL_STATUS,
+} from '../services/callPolicy';
+import {
+  ROOM_ACCESS_MODES,
+  ROOM_ACCESS_STATUS,
+  checkRoomAccess,
+  generateUniqueRoomCode,
+  isRoomHost,
+} from '../services/roomAccess';
+import { createGuestInvite, readGuestInvite, redeemGuestInvite, GuestInviteError } from '../services/guestInvites';
 
 const router = Router();
 
-// Generate a short, readable room code
-const generateRoomCode = (): string => {
-  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
-  let code = '';
-  for (let i = 0; i < 6; i++) {
-    code += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return code;
-};
-
 // POST /api/rooms - Create a new room
 router.post(
   '/',
   authenticate,
   asyncHandler(async (req: AuthRequest, res: Response) => {
-    const roomId = generateRoomCode();
+    const roomId = await generateUniqueRoomCode();
+    const io = req.app.get('io');
+    const requested: string[] = Array.from(
+      new Set<string>((req.body.participants || []).map((id: any) => id.toString()))
+    );
+
+    // Only invite participants whose privacy settings allow this caller
+    const participants: string[] = [];
+    const deniedParticipants: { userId: string; reason: CallDenialReason; message: string }[] = [];
+    for (const participantId of requested) {
+      const permission = await checkCallPermission(req.userId!, participantId);
+      if (permission.allowed) {
+        participants.push(participantId);
+      } else {
+        deniedParticipants.push({ userId: participantId, reason: permission.publicReason, message: permission.message });
+        await recordBlockedCallAttempt(io, {
+          callerId: req.userId!,
+          recipientId: participantId,
+          reason: permission.reason,
+          isVideo: !req.body.audioOnly,
+        });
+      }
+    }
+
+    // Nobody left to call
+    if (requested.length > 0 && participants.length === 0) {
+      const { reason, message } = deniedParticipants[0];
+      res.status(DENIAL_STATUS[reason]).json({ error: message, reason, deniedParticipants });
+      return;
+    }
     
     // Create call session
     const callSession = new CallSession({
       roomId,
       hostId: req.userId,
-      guestIds: req.body.participants || [],
+      guestIds: participants,
       status: 'waiting',
       metadata: {
         audioOnly: req.body.audioOnly || false,
-        participantCount: (req.body.participants?.length || 0) + 1,
+        participantCount: participants.length + 1,
         conversationId: req.body.conversationId || null, // Link to conversation if provided
+        // Mesh, SFU, or mesh until the room grows (see services/sfu.ts)
+        topology: ['mesh', 'sfu'].includes(req.body.topology) ? req.body.topology : 'auto',
+      },
+      // Who may join besides the invited participants (see services/roomAccess.ts)
+      access: {
+        mode: ROOM_ACCESS_MODES.includes(req.body.access) ? req.body.access : 'open',
+        locked: req.body.locked === true,
       },
     });
 
@@ -59,14 +101,13 @@ router.post(
     await callSession.save();
 
     // Emit call invitation to participants via socket
-    const io = req.app.get('io');
-    if (io && req.body.participants && req.body.participants.length > 0) {
+    if (io && participants.length > 0) {
       // Get caller info
       const User = (await import('../models/User')).User;
       const caller = await User.findById(req.userId).select('name avatar').lean();
       
       // Emit call invitation to each participant
-      req.body.participants.forEach((participantId: string) => {
+      participants.forEach((participantId) => {
         io.to(`user:${participantId}`).emit('call:invitation', {
           roomId,
           callId: callSession._id,
@@ -77,12 +118,34 @@ router.post(
           conversationId: req.body.conversationId || null,
         });
       });
+
+      // Record the invitation in each participant's inbox
+      await Promise.all(
+        participants.map((participantId) =>
+          createNotification(io, {
+            userId: participantId,
+            type: 'incoming_call',
+            title: `${caller?.name || 'Someone'} is calling`,
+            message: req.body.audioOnly ? 'Incoming audio call' : 'Incoming video call',
+            actionUrl: `/call/${roomId}`,
+            metadata: {
+              roomId,
+              callId: callSession._id.toString(),
+              callerId: req.userId?.toString(),
+              callerName: caller?.name || 'Someone',
+              isVideo: !req.body.audioOnly,
+              conversationId: req.body.conversationId || undefined,
+            },
+          })
+        )
+      );
     }
 
     res.status(201).json({
       message: 'Room created',
       roomId,
       callId: callSession._id,
+      deniedParticipants,
     });
   })
 );
@@ -106,8 +169,40 @@ router.post(
       return;
     }
 
-    // Check if user is already in the room
+    // Joining uninvited counts as calling the host
     const userId = req.userId!;
+    const permission = await checkRoomJoinPermission(userId, callSession);
+    if (!permission.allowed) {
+      await recordBlockedCallAttempt(req.app.get('io'), {
+        callerId: userId,
+        recipientId: callSession.hostId.toString(),
+        reason: permission.reason,
+        roomId,
+        isVideo: !callSession.metadata.audioOnly,
+      });
+      res.status(DENIAL_STATUS[permission.publicReason]).json({ error: permission.message, reason: permission.publicReason });
+      return;
+    }
+
+    // Then the room's own rules; the lobby is entered over the socket (room:join)
+    const access = await checkRoomAccess(userId, callSession);
+    if (access.status === 'denied') {
+      res.status(ROOM_ACCESS_STATUS[access.reason]).json({ error: access.message, reason: access.reason });
+      return;
+    }
+    if (access.status === 'lobby') {
+      res.status(202).json({
+        message: 'Waiting for the host to let you in',
+        roomId,
+        callId: callSession._id,
+        lobby: true,
+        isHost: false,
+        status: callSession.status,
+      });
+      return;
+    }
+
+    // Check if user is already in the room
     const isHost = callSession.hostId.toString() === userId;
     const isGuest = callSession.guestIds.some(id => id.toString() === userId);
 
@@ -128,6 +223,78 @@ router.post(
   })
 );
 
+// POST /api/rooms/guest-invites/redeem - Trade a guest invite link for a guest token (no account)
+router.post(
+  '/guest-invites/redeem',
+  asyncHandler(async (req, res: Response) => {
+    const { invite } = req.body;
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+
+    if (typeof invite !== 'string' || !invite) {
+      res.status(400).json({ error: 'Invite is required' });
+      return;
+    }
+    if (!name || name.length > 50) {
+      res.status(400).json({ error: 'Enter a name of up to 50 characters' });
+      return;
+    }
+
+    try {
+      const { roomId } = readGuestInvite(invite);
+      const callSession = await CallSession.findOne({ roomId });
+      if (!callSession) {
+        res.status(404).json({ error: 'Room not found' });
+        return;
+      }
+      if (callSession.status === 'ended') {
+        res.status(400).json({ error: 'This call has ended' });
+        return;
+      }
+      if (callSession.access?.locked) {
+        res.status(ROOM_ACCESS_STATUS.room_locked).json({ error: 'The host locked this call', reason: 'room_locked' });
+        return;
+      }
+
+      const result = await redeemGuestInvite(invite, name);
+      res.json({ ...result, callId: callSession._id });
+    } catch (error) {
+      if (error instanceof GuestInviteError) {
+        res.status(401).json({ error: error.message, code: 'invite_invalid' });
+        return;
+      }
+      throw error;
+    }
+  })
+);
+
+// POST /api/rooms/:id/guest-invites - Create a guest invite link (host only)
+router.post(
+  '/:id/guest-invites',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id: roomId } = req.params;
+
+    const callSession = await CallSession.findOne({ roomId });
+
+    if (!callSession) {
+      res.status(404).json({ error: 'Room not found' });
+      return;
+    }
+
+    if (!isRoomHost(callSession, req.userId!)) {
+      res.status(403).json({ error: 'Only the host can invite guests' });
+      return;
+    }
+
+    if (callSession.status === 'ended') {
+      res.status(400).json({ error: 'This call has ended' });
+      return;
+    }
+
+    res.status(201).json(createGuestInvite(callSession, req.userId!));
+  })
+);
+
 // GET /api/rooms/:id - Get room details
 router.get(
   '/:id',
@@ -152,6 +319,7 @@ router.get(
       status: callSession.status,
       startedAt: callSession.startedAt,
       metadata: callSession.metadata,
+      access: { mode: callSession.access?.mode || 'open', locked: !!callSession.access?.locked },
     });
   })
 );
@@ -0,0 +1,44 @@
+import { Router, Response, NextFunction } from 'express';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { getIceServers } from '../services/iceServers';
+import { verifyGuestToken, GuestInviteError } from '../services/guestInvites';
+
+const router = Router();
+
+// Guests from an invite link send their guest token (X-Guest-Token) instead of an
+// access token: behind a strict NAT they need the TURN relay as much as anyone
+const authenticateUserOrGuest = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  const guestToken = req.headers['x-guest-token'];
+  if (typeof guestToken !== 'string' || !guestToken) {
+    await authenticate(req, res, next);
+    return;
+  }
+
+  try {
+    const guest = await verifyGuestToken(guestToken);
+    req.userId = guest.guestId;
+    next();
+  } catch (error) {
+    if (!(error instanceof GuestInviteError)) {
+      next(error);
+      return;
+    }
+    res.status(401).json({ error: error.message, code: 'GUEST_INVALID' });
+  }
+};
+
+// GET /api/rtc/ice-servers - STUN/TURN servers with short-lived TURN credentials (optional ?region=)
+router.get(
+  '/ice-servers',
+  authenticateUserOrGuest,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const region = typeof req.query.region === 'string' ? req.query.region : undefined;
+
+    // Credentials are per user (or guest) and must not be cached by proxies
+    res.set('Cache-Control', 'no-store');
+    res.json(getIceServers(req.userId!, region));
+  })
+);
+
+export default router;
@@ -0,0 +1,83 @@
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { User } from '../models/User';
+import { CallSession } from '../models/CallSession';
+import { generateAccessToken } from '../services/jwt';
+import { createMemoryStore, setSharedStore } from '../services/sharedStore';
+import { ensureRoom, addParticipant, setConsent } from '../socket/roomStore';
+import { useFakeUploadStorage } from '../test/uploads';
+import { serveRouter } from '../test/app';
+import uploadRoutes from './uploads';
+
+describe('recording uploads and consent', () => {
+  let server: Awaited<ReturnType<typeof serveRouter>>;
+  const host = new User({ name: 'Host', email: 'host@example.com', passwordHash: 'x' });
+  const guestId = new mongoose.Types.ObjectId().toString();
+  const callSession = new CallSession({ roomId: 'room-1', hostId: host._id, guestIds: [guestId], title: 'Call' });
+  const token = generateAccessToken({ userId: host._id.toString(), email: host.email });
+
+  const request = (path: string, init: RequestInit = {}) =>
+    fetch(`${server.url}${path}`, {
+      ...init,
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json', ...init.headers },
+    });
+  const startRecording = () =>
+    request('/', { method: 'POST', body: JSON.stringify({ kind: 'recording', callId: callSession._id.toString() }) });
+  const sendChunk = (uploadId: string, index: number) =>
+    request(`/${uploadId}/chunks/${index}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: `chunk ${index}`,
+    });
+
+  before(async () => {
+    server = await serveRouter('/api/uploads', uploadRoutes);
+  });
+  after(() => server.close());
+
+  beforeEach(async () => {
+    setSharedStore(createMemoryStore());
+    useFakeUploadStorage();
+    mock.method(User, 'findById', async () => host);
+    mock.method(CallSession, 'findById', async () => callSession);
+
+    // Both are in the call; the host has consented
+    await ensureRoom('room-1', 60000);
+    await addParticipant('room-1', { userId: host._id.toString(), userName: 'Host', socketId: 'a' });
+    await addParticipant('room-1', { userId: guestId, userName: 'Guest', socketId: 'b' });
+    await setConsent('room-1', host._id.toString(), true);
+  });
+  afterEach(() => mock.restoreAll());
+
+  it('does not start a recording until everyone in the call consents', async () => {
+    assert.equal((await startRecording()).status, 403);
+
+    await setConsent('room-1', guestId, true);
+    assert.equal((await startRecording()).status, 201);
+  });
+
+  it('refuses the next chunk once someone withdraws consent, saying where the recording stopped', async () => {
+    await setConsent('room-1', guestId, true);
+    const { upload } = await (await startRecording()).json() as any;
+    assert.equal((await sendChunk(upload.id, 0)).status, 200);
+
+    await setConsent('room-1', guestId, false);
+    const refused = await sendChunk(upload.id, 1);
+    assert.equal(refused.status, 403);
+    assert.deepEqual(await refused.json(), {
+      error: 'Recording stopped: not everyone in the call consents',
+      code: 'recording_consent_required',
+      nextChunk: 1,
+    });
+  });
+
+  it('checks consent for a chunk sent again after it was withdrawn', async () => {
+    await setConsent('room-1', guestId, true);
+    const { upload } = await (await startRecording()).json() as any;
+    await sendChunk(upload.id, 0);
+
+    await setConsent('room-1', guestId, false);
+    assert.equal((await sendChunk(upload.id, 0)).status, 403);
+  });
+});
@@ -0,0 +1,239 @@
+import express, { Router, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { CallSession } from '../models/CallSession';
+import { IUpload } from '../models/Upload';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { rateLimit } from '../middleware/rateLimit';
+import {
+  startUpload,
+  findUpload,
+  putChunk,
+  completeUpload,
+  cancelUpload,
+  serializeUpload,
+  UploadError,
+  UPLOAD_CHUNK_MAX_BYTES,
+} from '../services/uploads';
+import { saveUploadedRecording } from '../services/callRecorder';
+import { canRecordCall } from '../services/recordingConsent';
+
+const router = Router();
+
+// Chunks are raw bytes, whatever the client calls them
+const rawChunk = express.raw({ type: () => true, limit: UPLOAD_CHUNK_MAX_BYTES });
+const readChunk = (req: AuthRequest, res: Response, next: NextFunction) => {
+  rawChunk(req, res, (error?: any) => {
+    if (error) {
+      res.status(error.status || 400).json({ error: error.status === 413 ? 'Chunk is too large' : 'Invalid chunk' });
+      return;
+    }
+    next();
+  });
+};
+
+const sendUploadError = (res: Response, error: unknown) => {
+  if (error instanceof UploadError) {
+    res.status(error.status).json({ error: error.message, ...error.details });
+    return true;
+  }
+  return false;
+};
+
+// The call can only receive recordings from its participants
+const findCallForRecording = async (callId: unknown, userId: string) => {
+  if (typeof callId !== 'string' || !mongoose.Types.ObjectId.isValid(callId)) return null;
+  const callSession = await CallSession.findById(callId);
+  if (!callSession) return null;
+  const isHost = callSession.hostId.toString() === userId;
+  const isGuest = callSession.guestIds.some(g => g.toString() === userId);
+  return isHost || isGuest ? callSession : null;
+};
+
+// What a finished upload becomes: the call's recording, or a message attachment
+const finishUpload = async (req: AuthRequest, upload: IUpload) => {
+  const fileId = upload.fileId.toString();
+
+  if (upload.kind === 'recording') {
+    const callSession = await saveUploadedRecording(req.app.get('io'), upload);
+    return callSession ? { fileId, recordingUrl: callSession.recordingUrl } : { fileId };
+  }
+
+  return {
+    url: `/api/messages/files/${fileId}`,
+    fileId,
+    filename: upload.filename,
+    type: upload.contentType.startsWith('image/') ? 'image' :
+          upload.contentType.startsWith('audio/') ? 'audio' : 'file',
+    name: upload.filename,
+  };
+};
+
+// POST /api/uploads - Start a resumable upload ({ kind: 'recording' | 'attachment', filename, contentType, size?, callId?, offsetMs? })
+router.post(
+  '/',
+  authenticate,
+  rateLimit('upload'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { kind, filename, contentType, size, callId, offsetMs } = req.body;
+    const userId = req.userId!;
+
+    if (kind !== 'recording' && kind !== 'attachment') {
+      res.status(400).json({ error: "kind must be 'recording' or 'attachment'" });
+      return;
+    }
+    if (size !== undefined && (!Number.isFinite(Number(size)) || Number(size) <= 0)) {
+      res.status(400).json({ error: 'size must be a positive number' });
+      return;
+    }
+
+    try {
+      if (kind === 'recording') {
+        const callSession = await findCallForRecording(callId, userId);
+        if (!callSession) {
+          res.status(404).json({ error: 'Call not found' });
+          return;
+        }
+        // The recording has everyone in it
+        if (!(await canRecordCall(callSession, userId))) {
+          res.status(403).json({ error: 'Everyone in the call has to consent to recording' });
+          return;
+        }
+
+        const type = typeof contentType === 'string' &&
+          (contentType.startsWith('video/') || contentType.startsWith('audio/')) ? contentType : 'video/webm';
+        const offset = Number(offsetMs);
+        const upload = await startUpload({
+          kind,
+          userId,
+          filename: `recording-${callSession._id}-${Date.now()}.webm`,
+          contentType: type,
+          size: size !== undefined ? Number(size) : undefined,
+          callId: callSession._id.toString(),
+          offsetMs: Number.isFinite(offset) ? Math.max(0, Math.round(offset)) : 0,
+          metadata: {
+            callId: callSession._id.toString(),
+            userId,
+            uploadDate: new Date(),
+            participants: [callSession.hostId, ...(callSession.guestIds || [])].map(p => p.toString()),
+          },
+        });
+        res.status(201).json({ upload: serializeUpload(upload) });
+        return;
+      }
+
+      if (typeof filename !== 'string' || !filename.trim()) {
+        res.status(400).json({ error: 'filename is required' });
+        return;
+      }
+      const name = filename.trim().substring(0, 200);
+      const upload = await startUpload({
+        kind,
+        userId,
+        filename: name,
+        contentType: typeof contentType === 'string' && contentType ? contentType : 'application/octet-stream',
+        size: size !== undefined ? Number(size) : undefined,
+        metadata: { userId },
+      });
+      res.status(201).json({ upload: serializeUpload(upload) });
+    } catch (error) {
+      if (!sendUploadError(res, error)) throw error;
+    }
+  })
+);
+
+// GET /api/uploads/:id - Upload progress (resume from nextChunk)
+router.get(
+  '/:id',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      const upload = await findUpload(req.params.id, req.userId!);
+      res.json({ upload: serializeUpload(upload) });
+    } catch (error) {
+      if (!sendUploadError(res, error)) throw error;
+    }
+  })
+);
+
+// PUT /api/uploads/:id/chunks/:index - Upload chunk `index` (raw body, optional X-Chunk-Sha256 header)
+router.put(
+  '/:id/chunks/:index',
+  authenticate,
+  readChunk,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const index = Number(req.params.index);
+    if (!Number.isInteger(index) || index < 0) {
+      res.status(400).json({ error: 'Invalid chunk index' });
+      return;
+    }
+    if (!Buffer.isBuffer(req.body)) {
+      res.status(400).json({ error: 'Chunk body is required' });
+      return;
+    }
+
+    try {
+      const upload = await findUpload(req.params.id, req.userId!);
+      // Consent can be withdrawn mid-call, so every chunk of a recording needs it
+      if (upload.kind === 'recording') {
+        const callSession = await CallSession.findById(upload.callId);
+        if (!callSession || !(await canRecordCall(callSession, req.userId!))) {
+          res.status(403).json({
+            error: 'Recording stopped: not everyone in the call consents',
+            code: 'recording_consent_required',
+            nextChunk: upload.nextChunk,
+          });
+          return;
+        }
+      }
+      const digest = req.header('x-chunk-sha256') || undefined;
+      const updated = await putChunk(upload, index, req.body, digest);
+      res.json({ upload: serializeUpload(updated) });
+    } catch (error) {
+      if (!sendUploadError(res, error)) throw error;
+    }
+  })
+);
+
+// POST /api/uploads/:id/complete - Finish the upload ({ sha256 } of the file or { chunksSha256 } of the chunk digests)
+router.post(
+  '/:id/complete',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { sha256, chunksSha256 } = req.body;
+
+    try {
+      const upload = await findUpload(req.params.id, req.userId!);
+      const alreadyComplete = upload.status === 'completed';
+      const completed = await completeUpload(upload, {
+        sha256: typeof sha256 === 'string' ? sha256 : undefined,
+        chunksSha256: typeof chunksSha256 === 'string' ? chunksSha256 : undefined,
+      });
+
+      // A retried complete doesn't announce the recording twice
+      const file = alreadyComplete && completed.kind === 'recording'
+        ? { fileId: completed.fileId.toString() }
+        : await finishUpload(req, completed);
+      res.json({ upload: serializeUpload(completed), ...file });
+    } catch (error) {
+      if (!sendUploadError(res, error)) throw error;
+    }
+  })
+);
+
+// DELETE /api/uploads/:id - Cancel an upload in progress
+router.delete(
+  '/:id',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      const upload = await findUpload(req.params.id, req.userId!);
+      await cancelUpload(upload);
+      res.json({ message: 'Upload cancelled' });
+    } catch (error) {
+      if (!sendUploadError(res, error)) throw error;
+    }
+  })
+);
+
+export default router;
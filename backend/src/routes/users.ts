@@ -6,6 +6,11 @@ import { Contact } from '../models/Contact';
 import { Connection } from '../models/Connection';
 import { authenticate, AuthRequest } from '../middleware/auth';
 import { asyncHandler } from '../middleware/errorHandler';
+import { applyRetentionPolicy, ChatHistoryPolicy, CHAT_HISTORY_POLICIES } from '../services/retention';
+import { deleteUserAccount } from '../services/accountDeletion';
+import { streamUserDataExport } from '../services/dataExport';
+import { getAiCreditStatus, getAiUsageHistory } from '../services/aiCredits';
+import { getRateLimitStatus } from '../services/rateLimits';
 
 const router = Router();
 
@@ -327,12 +332,24 @@ router.put(
   '/settings',
   authenticate,
   asyncHandler(async (req: AuthRequest, res: Response) => {
-    const { defaultMic, defaultCamera, autoRecord } = req.body;
+    const { defaultMic, defaultCamera, autoRecord, callQuality } = req.body;
 
     const updates: any = {};
     if (typeof defaultMic === 'boolean') updates['settings.defaultMic'] = defaultMic;
     if (typeof defaultCamera === 'boolean') updates['settings.defaultCamera'] = defaultCamera;
     if (typeof autoRecord === 'boolean') updates['settings.autoRecord'] = autoRecord;
+    // Call quality also picks the simulcast layers sent and received on the SFU
+    if (callQuality && typeof callQuality === 'object') {
+      if (['720p', '1080p', 'auto'].includes(callQuality.videoResolution)) {
+        updates['settings.callQuality.videoResolution'] = callQuality.videoResolution;
+      }
+      if (['low', 'medium', 'high', 'auto'].includes(callQuality.bandwidth)) {
+        updates['settings.callQuality.bandwidth'] = callQuality.bandwidth;
+      }
+      if (['low', 'medium', 'high'].includes(callQuality.audioQuality)) {
+        updates['settings.callQuality.audioQuality'] = callQuality.audioQuality;
+      }
+    }
 
     const user = await User.findByIdAndUpdate(
       req.userId,
@@ -491,18 +508,101 @@ router.post(
   })
 );
 
-// DELETE /api/users/account - Delete user account
+// GET /api/users/retention/preview - Dry run of the chat history retention policy
+// Optional ?policy= previews a different setting before it is saved
+router.get(
+  '/retention/preview',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { policy } = req.query;
+
+    if (policy !== undefined && !CHAT_HISTORY_POLICIES.includes(policy as ChatHistoryPolicy)) {
+      res.status(400).json({ error: `policy must be one of: ${CHAT_HISTORY_POLICIES.join(', ')}` });
+      return;
+    }
+
+    const user = await User.findById(req.userId).select('_id settings');
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    const report = await applyRetentionPolicy(user, {
+      dryRun: true,
+      policy: policy as ChatHistoryPolicy | undefined,
+    });
+
+    res.json({ report });
+  })
+);
+
+// GET /api/users/usage - Today's AI credits, daily usage (?days=, default 30) and what's left of each rate limit
+router.get(
+  '/usage',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.userId!;
+    const days = Math.min(90, Math.max(1, parseInt(req.query.days as string) || 30));
+
+    const [credits, history, rateLimits] = await Promise.all([
+      getAiCreditStatus(userId),
+      getAiUsageHistory(userId, days),
+      getRateLimitStatus(`user:${userId}`),
+    ]);
+
+    res.json({ credits, history, rateLimits });
+  })
+);
+
+// GET /api/users/export - Download everything the user owns as a ZIP
+router.get(
+  '/export',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.userId!;
+    const date = new Date().toISOString().slice(0, 10);
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="acetime-export-${date}.zip"`);
+    res.setHeader('Cache-Control', 'no-store');
+
+    try {
+      await streamUserDataExport(userId, res);
+    } catch (error: any) {
+      console.error('[EXPORT] ❌ Export failed:', error.message);
+      // Once the ZIP has started streaming the only option is to cut it off
+      if (res.headersSent) {
+        res.destroy(error);
+      } else {
+        res.removeHeader('Content-Type');
+        res.removeHeader('Content-Disposition');
+        res.status(500).json({ error: 'Failed to export data' });
+      }
+    }
+  })
+);
+
+// DELETE /api/users/account - Delete user account and everything it owns
 router.delete(
   '/account',
   authenticate,
   asyncHandler(async (req: AuthRequest, res: Response) => {
     const userId = req.userId!;
 
-    // This would need more comprehensive cleanup in production
-    // (delete all calls, recordings, etc.)
-    await User.findByIdAndDelete(userId);
+    const summary = await deleteUserAccount(userId);
+    if (!summary) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    // Sign out any open tabs/devices
+    const io = req.app.get('io');
+    if (io) {
+      io.in(`user:${userId}`).disconnectSockets(true);
+    }
 
-    res.json({ message: 'Account deleted successfully' });
+    res.json({ message: 'Account deleted successfully', summary });
   })
 );
 
@@ -0,0 +1,90 @@
+/**
+ * Migration Script: Mark Existing Emails Verified
+ *
+ * Single sign-on resets the password, 2FA and sessions of an account whose
+ * owner never proved the inbox is theirs before linking to it
+ * (services/oidc.ts). Accounts created before `emailVerifiedAt` existed have
+ * no record either way, so without this their owners would lose their
+ * password the first time they use single sign-on. This script treats
+ * accounts registered before the cutoff as verified, dating it to sign-up.
+ * Accounts that already have a date are left untouched, so the script is
+ * safe to run repeatedly.
+ *
+ * Run once when deploying, with the cutoff set to when the release went out:
+ *   npx ts-node backend/src/scripts/migrate-email-verified.ts [--before=2026-10-19T00:00:00Z]
+ * (default: now)
+ */
+
+import mongoose from 'mongoose';
+import { User } from '../models/User';
+import dotenv from 'dotenv';
+import path from 'path';
+
+// Load environment variables
+// Try multiple possible paths for .env file
+const envPaths = [
+  path.join(__dirname, '../../.env'),
+  path.join(process.cwd(), '.env'),
+  path.join(process.cwd(), 'backend', '.env'),
+];
+
+for (const envPath of envPaths) {
+  try {
+    dotenv.config({ path: envPath });
+    break;
+  } catch (error) {
+    // Continue to next path
+  }
+}
+
+const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/acetime';
+
+const cutoffFromArgs = (): Date => {
+  const arg = process.argv.find(a => a.startsWith('--before='));
+  const cutoff = arg ? new Date(arg.substring('--before='.length)) : new Date();
+  if (isNaN(cutoff.getTime())) throw new Error(`Invalid --before date: ${arg}`);
+  return cutoff;
+};
+
+async function migrateEmailVerified(cutoff = cutoffFromArgs()) {
+  try {
+    console.log(`🔄 Starting migration: Emails of accounts created before ${cutoff.toISOString()} marked verified...`);
+
+    // Connect to MongoDB
+    await mongoose.connect(MONGODB_URI);
+    console.log('✅ Connected to MongoDB');
+
+    // Matches a missing field as well as null
+    const result = await User.updateMany(
+      { emailVerifiedAt: null, createdAt: { $lt: cutoff } },
+      [{ $set: { emailVerifiedAt: '$createdAt' } }]
+    );
+
+    // Summary
+    console.log('\n📊 Migration Summary:');
+    console.log(`  - Accounts updated: ${result.modifiedCount}`);
+    console.log('\n✅ Migration completed successfully!');
+
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    throw error;
+  } finally {
+    await mongoose.disconnect();
+    console.log('🔌 Disconnected from MongoDB');
+  }
+}
+
+// Run migration
+if (require.main === module) {
+  migrateEmailVerified()
+    .then(() => {
+      console.log('✅ Migration script completed');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Migration script failed:', error);
+      process.exit(1);
+    });
+}
+
+export { migrateEmailVerified };
@@ -0,0 +1,103 @@
+/**
+ * Migration Script: Call-relative Transcript Timestamps
+ *
+ * Older transcripts stored segment timestamps as absolute epoch milliseconds
+ * (Date.now() when the segment arrived). Segments now count milliseconds from
+ * call start (CallSession.startedAt) so they line up with the recording.
+ * This script rewrites absolute timestamps relative to the call's start, or
+ * to the first segment when the call started after it. Already-migrated
+ * segments are left untouched, so the script is safe to run repeatedly.
+ *
+ * Run with: npx ts-node backend/src/scripts/migrate-transcript-timestamps.ts
+ */
+
+import mongoose from 'mongoose';
+import { CallSession } from '../models/CallSession';
+import { Transcript } from '../models/Transcript';
+import dotenv from 'dotenv';
+import path from 'path';
+
+// Load environment variables
+// Try multiple possible paths for .env file
+const envPaths = [
+  path.join(__dirname, '../../.env'),
+  path.join(process.cwd(), '.env'),
+  path.join(process.cwd(), 'backend', '.env'),
+];
+
+for (const envPath of envPaths) {
+  try {
+    dotenv.config({ path: envPath });
+    break;
+  } catch (error) {
+    // Continue to next path
+  }
+}
+
+const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/acetime';
+
+// Anything this large is an epoch timestamp (1973 onwards), not a call offset
+const ABSOLUTE_THRESHOLD_MS = 1e11;
+
+async function migrateTranscriptTimestamps() {
+  try {
+    console.log('🔄 Starting migration: Call-relative transcript timestamps...');
+
+    // Connect to MongoDB
+    await mongoose.connect(MONGODB_URI);
+    console.log('✅ Connected to MongoDB');
+
+    const transcripts = await Transcript.find({ 'segments.timestamp': { $gte: ABSOLUTE_THRESHOLD_MS } });
+    console.log(`\n📋 Found ${transcripts.length} transcripts with absolute timestamps`);
+
+    let transcriptsUpdated = 0;
+    let segmentsUpdated = 0;
+
+    for (const transcript of transcripts) {
+      const absolute = transcript.segments.filter(s => s.timestamp >= ABSOLUTE_THRESHOLD_MS);
+      if (absolute.length === 0) continue;
+
+      const callSession = await CallSession.findById(transcript.callId).select('startedAt');
+      const firstSegment = Math.min(...absolute.map(s => s.timestamp));
+      const startedAt = callSession?.startedAt?.getTime();
+      const base = startedAt && startedAt <= firstSegment ? startedAt : firstSegment;
+
+      absolute.forEach(segment => {
+        segment.timestamp = Math.max(0, segment.timestamp - base);
+      });
+      transcript.markModified('segments');
+      await transcript.save();
+
+      transcriptsUpdated++;
+      segmentsUpdated += absolute.length;
+    }
+
+    // Summary
+    console.log('\n📊 Migration Summary:');
+    console.log(`  - Transcripts updated: ${transcriptsUpdated}`);
+    console.log(`  - Segments rewritten: ${segmentsUpdated}`);
+    console.log('\n✅ Migration completed successfully!');
+
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    throw error;
+  } finally {
+    await mongoose.disconnect();
+    console.log('🔌 Disconnected from MongoDB');
+  }
+}
+
+// Run migration
+if (require.main === module) {
+  migrateTranscriptTimestamps()
+    .then(() => {
+      console.log('✅ Migration script completed');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Migration script failed:', error);
+      process.exit(1);
+    });
+}
+
+export { migrateTranscriptTimestamps };
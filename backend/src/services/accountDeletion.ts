@@ -0,0 +1,291 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { User, IUser } from '../models/User';
+import { CallSession } from '../models/CallSession';
+import { CallParticipant } from '../models/CallParticipant';
+import { Transcript } from '../models/Transcript';
+import { Notes } from '../models/Notes';
+import { Message } from '../models/Message';
+import { Conversation } from '../models/Conversation';
+import { Contact } from '../models/Contact';
+import { Friendship } from '../models/Friendship';
+import { Connection } from '../models/Connection';
+import { Lead } from '../models/Lead';
+import { Offer } from '../models/Offer';
+import { Vision } from '../models/Vision';
+import { Match } from '../models/Match';
+import { GeneratedImage } from '../models/GeneratedImage';
+import { PrivateCall } from '../models/PrivateCall';
+import { Notification } from '../models/Notification';
+import { CallQualitySample } from '../models/CallQualitySample';
+import { Session } from '../models/Session';
+import { AiUsage } from '../models/AiUsage';
+import { deleteRecording, getRecordingInfo, isStorageReady, listRecordingsForCalls } from './storage';
+
+/**
+ * Cascading account deletion.
+ *
+ * Anything only the user can see is deleted. History shared with other
+ * people (conversations with other participants, calls with guests,
+ * 1:1 call logs) is kept for them, with the user's part re-attributed to
+ * a single "Deleted user" placeholder account so populated senders/speakers
+ * still resolve.
+ */
+
+const DELETED_USER_EMAIL = 'deleted-user@acetime.invalid';
+export const DELETED_USER_NAME = 'Deleted user';
+
+export interface AccountDeletionSummary {
+  userId: string;
+  calls: { deleted: number; kept: number };
+  recordings: number;
+  conversations: { deleted: number; left: number };
+  messages: { deleted: number; anonymised: number };
+  contacts: number;
+  friendships: number;
+  connections: number;
+  leads: number;
+  offers: number;
+  visions: number;
+  matches: number;
+  generatedImages: number;
+  notifications: number;
+}
+
+let placeholderId: mongoose.Types.ObjectId | null = null;
+
+// The account anonymised content is attributed to (created on first use)
+export async function getDeletedUserPlaceholder(): Promise<mongoose.Types.ObjectId> {
+  if (placeholderId) return placeholderId;
+
+  let placeholder = await User.findOne({ email: DELETED_USER_EMAIL }).select('_id');
+  if (!placeholder) {
+    try {
+      placeholder = await User.create({
+        name: DELETED_USER_NAME,
+        email: DELETED_USER_EMAIL,
+        // Random, never disclosed - nobody can sign in as the placeholder
+        passwordHash: crypto.randomBytes(32).toString('hex'),
+        settings: {
+          privacy: { whoCanCall: 'nobody', chatHistory: 'forever', profileVisibility: 'private' },
+        },
+      });
+    } catch (error: any) {
+      // Another deletion created it concurrently
+      if (error.code !== 11000) throw error;
+      placeholder = await User.findOne({ email: DELETED_USER_EMAIL }).select('_id');
+    }
+  }
+
+  placeholderId = placeholder!._id;
+  return placeholderId;
+}
+
+export const isDeletedUserPlaceholder = (user: Pick<IUser, 'email'>): boolean =>
+  user.email === DELETED_USER_EMAIL;
+
+// GridFS ids of message attachments served from /api/messages/files/:id
+const attachmentFileIds = (messages: { attachments?: { url: string }[] }[]): string[] =>
+  messages.flatMap(m => m.attachments || [])
+    .map(a => a.url.match(/\/api\/messages\/files\/([a-f0-9]{24})/)?.[1])
+    .filter((id): id is string => !!id);
+
+const deleteFiles = async (fileIds: string[]): Promise<number> => {
+  if (!isStorageReady()) return 0;
+
+  let deleted = 0;
+  for (const fileId of Array.from(new Set(fileIds))) {
+    try {
+      await deleteRecording(fileId);
+      deleted++;
+    } catch (error: any) {
+      console.error('[ACCOUNT] Failed to delete file:', fileId, error.message);
+    }
+  }
+  return deleted;
+};
+
+/**
+ * Delete a user and everything they own. Returns null if the user
+ * doesn't exist. The User document is removed last so a failure part way
+ * through can be retried.
+ */
+export async function deleteUserAccount(userId: string): Promise<AccountDeletionSummary | null> {
+  const user = await User.findById(userId).select('_id email');
+  if (!user || isDeletedUserPlaceholder(user)) return null;
+
+  const uid = user._id;
+  const placeholder = await getDeletedUserPlaceholder();
+
+  const summary: AccountDeletionSummary = {
+    userId: uid.toString(),
+    calls: { deleted: 0, kept: 0 },
+    recordings: 0,
+    conversations: { deleted: 0, left: 0 },
+    messages: { deleted: 0, anonymised: 0 },
+    contacts: 0,
+    friendships: 0,
+    connections: 0,
+    leads: 0,
+    offers: 0,
+    visions: 0,
+    matches: 0,
+    generatedImages: 0,
+    notifications: 0,
+  };
+
+  // --- Conversations & messages ---
+  const conversations = await Conversation.find({ participants: uid });
+  const soloConversationIds: mongoose.Types.ObjectId[] = [];
+
+  for (const conversation of conversations) {
+    const others = conversation.participants.filter(p => !p.equals(uid));
+    if (others.length === 0) {
+      soloConversationIds.push(conversation._id);
+      continue;
+    }
+
+    // Leave the conversation; make sure someone is still able to manage it
+    conversation.participants = others;
+    conversation.admins = conversation.admins.filter(a => !a.equals(uid));
+    if (conversation.admins.length === 0) {
+      conversation.admins = [others[0]];
+    }
+    if (conversation.lastMessage?.senderId?.equals(uid)) {
+      conversation.lastMessage.senderId = placeholder;
+    }
+    await conversation.save();
+    summary.conversations.left++;
+  }
+
+  if (soloConversationIds.length > 0) {
+    const soloMessages = await Message.find({ conversationId: { $in: soloConversationIds } })
+      .select('attachments')
+      .lean();
+    summary.recordings += await deleteFiles(attachmentFileIds(soloMessages));
+
+    const result = await Message.deleteMany({ conversationId: { $in: soloConversationIds } });
+    summary.messages.deleted = result.deletedCount;
+    await Conversation.deleteMany({ _id: { $in: soloConversationIds } });
+    summary.conversations.deleted = soloConversationIds.length;
+  }
+
+  // Whatever the user said in shared conversations stays, attributed to the placeholder
+  const anonymised = await Message.updateMany({ senderId: uid }, { $set: { senderId: placeholder } });
+  summary.messages.anonymised = anonymised.modifiedCount;
+  await Message.updateMany(
+    { $or: [{ readBy: uid }, { 'reactions.userId': uid }] },
+    { $pull: { readBy: uid, reactions: { userId: uid } } }
+  );
+
+  // --- Calls ---
+  const hostedCalls = await CallSession.find({ hostId: uid });
+  const deletedCallIds: mongoose.Types.ObjectId[] = [];
+  const deletedRecordingKeys: string[] = [];
+
+  for (const call of hostedCalls) {
+    const guests = call.guestIds.filter(g => !g.equals(uid));
+    if (guests.length === 0) {
+      deletedCallIds.push(call._id);
+      if (call.recordingKey) deletedRecordingKeys.push(call.recordingKey);
+      continue;
+    }
+
+    // Shared call: hand it to the first guest so the others keep their history
+    call.hostId = guests[0];
+    call.guestIds = guests.slice(1);
+    call.metadata.participantCount = guests.length;
+    await call.save();
+    summary.calls.kept++;
+  }
+
+  await CallSession.updateMany({ guestIds: uid }, { $pull: { guestIds: uid } });
+
+  if (deletedCallIds.length > 0) {
+    // Recordings are matched both by metadata and by the call's recordingKey
+    if (isStorageReady()) {
+      const files = await listRecordingsForCalls(deletedCallIds.map(id => id.toString()));
+      const fileIds = files.map(f => f._id.toString());
+      for (const key of deletedRecordingKeys) {
+        if (fileIds.includes(key)) continue;
+        const info = await getRecordingInfo(key).catch(() => null);
+        if (info) fileIds.push(key);
+      }
+      summary.recordings += await deleteFiles(fileIds);
+    }
+
+    await Promise.all([
+      Transcript.deleteMany({ callId: { $in: deletedCallIds } }),
+      Notes.deleteMany({ callId: { $in: deletedCallIds } }),
+      CallParticipant.deleteMany({ callId: { $in: deletedCallIds } }),
+      GeneratedImage.deleteMany({ callId: { $in: deletedCallIds } }),
+      CallQualitySample.deleteMany({ callId: { $in: deletedCallIds } }),
+      CallSession.deleteMany({ _id: { $in: deletedCallIds } }),
+    ]);
+    summary.calls.deleted = deletedCallIds.length;
+  }
+
+  // Re-attribute what the user said in calls that were kept (save() rebuilds fullText)
+  const transcripts = await Transcript.find({ 'segments.speakerId': uid });
+  for (const transcript of transcripts) {
+    transcript.segments.forEach(segment => {
+      if (segment.speakerId?.equals(uid)) {
+        segment.speaker = DELETED_USER_NAME;
+        segment.speakerId = placeholder;
+      }
+    });
+    transcript.speakers.forEach(speaker => {
+      if (speaker.speakerId?.equals(uid)) {
+        speaker.name = DELETED_USER_NAME;
+        speaker.speakerId = placeholder;
+      }
+    });
+    transcript.markModified('segments');
+    await transcript.save();
+  }
+
+  await Promise.all([
+    CallParticipant.deleteMany({ userId: uid }),
+    CallQualitySample.deleteMany({ userId: uid }),
+    AiUsage.deleteMany({ userId: uid }),
+    Notes.updateMany({ 'comments.userId': uid }, { $pull: { comments: { userId: uid } } }),
+    PrivateCall.updateMany({ callerId: uid }, { $set: { callerId: placeholder } }),
+    PrivateCall.updateMany({ recipientId: uid }, { $set: { recipientId: placeholder } }),
+  ]);
+
+  // --- Social graph & networking ---
+  const [contacts, friendships, connections, leads, offers, visions, matches, images, notifications] =
+    await Promise.all([
+      Contact.deleteMany({ $or: [{ userId: uid }, { contactUserId: uid }] }),
+      Friendship.deleteMany({ $or: [{ userId1: uid }, { userId2: uid }] }),
+      Connection.deleteMany({ $or: [{ userId: uid }, { connectedUserId: uid }] }),
+      Lead.deleteMany({ userId: uid }),
+      Offer.deleteMany({ userId: uid }),
+      Vision.deleteMany({ userId: uid }),
+      Match.deleteMany({ $or: [{ initiatorId: uid }, { targetId: uid }] }),
+      GeneratedImage.deleteMany({ creatorId: uid }),
+      Notification.deleteMany({ userId: uid }),
+    ]);
+
+  summary.contacts = contacts.deletedCount;
+  summary.friendships = friendships.deletedCount;
+  summary.connections = connections.deletedCount;
+  summary.leads = leads.deletedCount;
+  summary.offers = offers.deletedCount;
+  summary.visions = visions.deletedCount;
+  summary.matches = matches.deletedCount;
+  summary.generatedImages = images.deletedCount;
+  summary.notifications = notifications.deletedCount;
+
+  await Promise.all([
+    Connection.updateMany({ mutualConnections: uid }, { $pull: { mutualConnections: uid } }),
+    Match.updateMany({ mutualConnectionIds: uid }, { $pull: { mutualConnectionIds: uid } }),
+    GeneratedImage.updateMany({ likes: uid }, { $pull: { likes: uid } }),
+  ]);
+
+  await Session.deleteMany({ userId: uid });
+  await User.deleteOne({ _id: uid });
+
+  console.log('[ACCOUNT] 🗑️ Account deleted:', summary);
+  return summary;
+}
@@ -0,0 +1,128 @@
+import mongoose from 'mongoose';
+import { AiUsage } from '../models/AiUsage';
+import { LLMFeature, onLLMUsage } from './llm';
+
+/**
+ * Daily AI credit budgets.
+ *
+ * Everything a user asks a cloud AI provider for costs credits: LLM
+ * completions by the tokens they used (counted from onLLMUsage, so anything
+ * that passes a userId to the LLM is charged), generated images per image,
+ * and call transcription per minute of speech. Models run locally (Ollama,
+ * whisper.cpp) and the mock provider cost nothing. Usage is kept per UTC day; once a
+ * user's credits for the day are gone, AI requests are refused until
+ * midnight UTC. A request is allowed while any credit is left, so the last
+ * one can go slightly over.
+ *
+ * AI_DAILY_CREDITS                     credits per user per day (default 200; 0 = unlimited)
+ * AI_CREDITS_PER_1K_TOKENS             LLM cost (default 1)
+ * AI_CREDITS_PER_IMAGE                 image generation cost (default 10)
+ * AI_CREDITS_PER_TRANSCRIPTION_MINUTE  speech-to-text cost (default 2)
+ * AI_USAGE_HISTORY_DAYS                how long daily usage is kept (default 90)
+ */
+
+export type AiCreditFeature = LLMFeature | 'image' | 'transcription';
+
+export interface AiCreditStatus {
+  day: string;
+  used: number;
+  limit: number | null; // null: unlimited
+  remaining: number | null;
+  resetsAt: Date;
+  retryAfter: number; // Seconds until the budget resets
+}
+
+const numberFromEnv = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+export const AI_DAILY_CREDITS = numberFromEnv('AI_DAILY_CREDITS', 200);
+const CREDITS_PER_1K_TOKENS = numberFromEnv('AI_CREDITS_PER_1K_TOKENS', 1);
+export const CREDITS_PER_IMAGE = numberFromEnv('AI_CREDITS_PER_IMAGE', 10);
+const CREDITS_PER_TRANSCRIPTION_MINUTE = numberFromEnv('AI_CREDITS_PER_TRANSCRIPTION_MINUTE', 2);
+const HISTORY_DAYS = numberFromEnv('AI_USAGE_HISTORY_DAYS', 90) || 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Providers that bill someone; the rest run on this machine (or are scripted)
+const CHARGED_PROVIDERS = new Set(['openai', 'huggingface']);
+
+export const isChargedProvider = (provider?: string) => !!provider && CHARGED_PROVIDERS.has(provider);
+
+export const utcDay = (date: Date = new Date()) => date.toISOString().slice(0, 10);
+
+const nextUtcMidnight = () => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+};
+
+export async function chargeAiCredits(
+  userId: string,
+  feature: AiCreditFeature,
+  credits: number,
+  tokens = 0
+): Promise<void> {
+  if (!mongoose.Types.ObjectId.isValid(userId) || credits <= 0) return;
+  const day = utcDay();
+
+  await AiUsage.updateOne(
+    { userId, day },
+    {
+      $inc: {
+        credits,
+        requests: 1,
+        [`features.${feature}.credits`]: credits,
+        [`features.${feature}.requests`]: 1,
+        [`features.${feature}.tokens`]: tokens,
+      },
+      $setOnInsert: { expiresAt: new Date(Date.parse(day) + HISTORY_DAYS * DAY_MS) },
+    },
+    { upsert: true }
+  );
+}
+
+export const chargeImageCredits = (userId: string) => chargeAiCredits(userId, 'image', CREDITS_PER_IMAGE);
+
+export const chargeTranscriptionCredits = (userId: string, seconds: number) =>
+  chargeAiCredits(userId, 'transcription', (seconds / 60) * CREDITS_PER_TRANSCRIPTION_MINUTE);
+
+export async function getAiCreditStatus(userId: string): Promise<AiCreditStatus> {
+  const day = utcDay();
+  const usage = await AiUsage.findOne({ userId, day }).select('credits').lean();
+  const used = usage?.credits || 0;
+  const resetsAt = nextUtcMidnight();
+
+  return {
+    day,
+    used,
+    limit: AI_DAILY_CREDITS || null,
+    remaining: AI_DAILY_CREDITS ? Math.max(0, AI_DAILY_CREDITS - used) : null,
+    resetsAt,
+    retryAfter: Math.ceil((resetsAt.getTime() - Date.now()) / 1000),
+  };
+}
+
+export const hasAiCredits = async (userId: string) => (await getAiCreditStatus(userId)).remaining !== 0;
+
+// Daily usage, most recent first
+export async function getAiUsageHistory(userId: string, days = 30) {
+  const since = utcDay(new Date(Date.now() - (days - 1) * DAY_MS));
+  const history = await AiUsage.find({ userId, day: { $gte: since } })
+    .sort({ day: -1 })
+    .select('day credits requests features')
+    .lean();
+  return history.map(({ day, credits, requests, features }) => ({ day, credits, requests, features }));
+}
+
+// Charge every attributed cloud LLM completion to its user
+export function startAiCreditAccounting() {
+  onLLMUsage((event) => {
+    if (!event.userId || !isChargedProvider(event.provider)) return;
+    const credits = (event.usage.totalTokens / 1000) * CREDITS_PER_1K_TOKENS;
+    chargeAiCredits(event.userId, event.feature, credits, event.usage.totalTokens).catch((error) => {
+      console.error('[CREDITS] ❌ Failed to record LLM usage:', error);
+    });
+  });
+  console.log(`[CREDITS] ✅ AI credit budget: ${AI_DAILY_CREDITS || 'unlimited'} a day`);
+}
@@ -0,0 +1,127 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { User } from '../models/User';
+import { Friendship } from '../models/Friendship';
+import { Contact } from '../models/Contact';
+import { Notification } from '../models/Notification';
+import { checkCallPermission, recordBlockedCallAttempt, DENIAL_STATUS } from './callPolicy';
+
+// What `Model.findById(...).select(...).lean()` resolves to
+const query = (result: unknown) => ({ select: () => ({ lean: async () => result }) });
+
+const id = () => new mongoose.Types.ObjectId().toString();
+
+describe('checkCallPermission', () => {
+  const caller = id();
+  const recipient = id();
+  let whoCanCall: string;
+  let friendship: { status: string } | null;
+  let contact: { isBlocked: boolean } | null;
+
+  beforeEach(() => {
+    whoCanCall = 'everyone';
+    friendship = null;
+    contact = null;
+    mock.method(User, 'findById', () => query({ settings: { privacy: { whoCanCall } } }));
+    mock.method(Friendship, 'findOne', async () => friendship);
+    mock.method(Contact, 'findOne', () => query(contact));
+  });
+  afterEach(() => mock.restoreAll());
+
+  it('lets anyone call a recipient who accepts everyone', async () => {
+    assert.equal((await checkCallPermission(caller, recipient)).allowed, true);
+  });
+
+  it('tells a blocked caller exactly what it tells everyone when calls are off', async () => {
+    contact = { isBlocked: true };
+    const blocked = await checkCallPermission(caller, recipient);
+
+    contact = null;
+    whoCanCall = 'nobody';
+    const disabled = await checkCallPermission(caller, recipient);
+
+    assert.ok(!blocked.allowed && !disabled.allowed);
+    assert.equal(blocked.reason, 'blocked');
+    assert.equal(blocked.publicReason, 'calls_disabled');
+    assert.equal(blocked.publicReason, disabled.publicReason);
+    assert.equal(blocked.message, disabled.message);
+    assert.equal(DENIAL_STATUS[blocked.publicReason], DENIAL_STATUS[disabled.publicReason]);
+  });
+
+  it('puts a block before friendship', async () => {
+    friendship = { status: 'blocked' };
+    const permission = await checkCallPermission(caller, recipient, { requireFriendship: true });
+    assert.ok(!permission.allowed);
+    assert.equal(permission.reason, 'blocked');
+  });
+
+  it('only lets contacts through when the recipient chose contacts', async () => {
+    whoCanCall = 'contacts';
+    const stranger = await checkCallPermission(caller, recipient);
+    assert.ok(!stranger.allowed);
+    assert.equal(stranger.publicReason, 'contacts_only');
+
+    contact = { isBlocked: false };
+    assert.equal((await checkCallPermission(caller, recipient)).allowed, true);
+  });
+
+  it('treats guests as strangers', async () => {
+    whoCanCall = 'contacts';
+    const permission = await checkCallPermission('guest-abc', recipient);
+    assert.ok(!permission.allowed);
+    assert.equal(permission.publicReason, 'contacts_only');
+  });
+
+  it('refuses self-calls and unknown recipients', async () => {
+    const self = await checkCallPermission(caller, caller);
+    assert.ok(!self.allowed && self.reason === 'self_call');
+    const unknown = await checkCallPermission(caller, 'not-an-id');
+    assert.ok(!unknown.allowed && unknown.reason === 'recipient_not_found');
+  });
+});
+
+describe('recordBlockedCallAttempt', () => {
+  const callerId = id();
+  const recipientId = id();
+  let created: any[];
+
+  beforeEach(() => {
+    created = [];
+    mock.method(User, 'findById', () => query({ name: 'Caller', settings: {} }));
+    mock.method(Notification, 'create', async (doc: any) => {
+      created.push(doc);
+      return doc;
+    });
+  });
+  afterEach(() => mock.restoreAll());
+
+  it('leaves one silent, already-read inbox entry', async () => {
+    mock.method(Notification, 'findOneAndUpdate', async () => null);
+    await recordBlockedCallAttempt(undefined, { callerId, recipientId, reason: 'blocked' });
+
+    assert.equal(created.length, 1);
+    assert.equal(created[0].type, 'blocked_call_attempt');
+    assert.equal(created[0].read, true);
+    assert.equal(created[0].metadata.attempts, 1);
+  });
+
+  it('counts a redial within the hour on the existing entry', async () => {
+    const update = mock.method(Notification, 'findOneAndUpdate', async () => ({ _id: id() }));
+    await recordBlockedCallAttempt(undefined, { callerId, recipientId, reason: 'contacts_only' });
+
+    assert.equal(created.length, 0);
+    const [filter, pipeline] = update.mock.calls[0].arguments as any[];
+    assert.equal(filter['metadata.callerId'], callerId);
+    assert.ok(filter['metadata.lastAttemptAt'].$gt.getTime() > Date.now() - 60 * 60 * 1000 - 1000);
+    assert.ok(pipeline[0].$set['metadata.attempts']);
+  });
+
+  it('records nothing for self-calls or unknown recipients', async () => {
+    const update = mock.method(Notification, 'findOneAndUpdate', async () => null);
+    await recordBlockedCallAttempt(undefined, { callerId, recipientId: callerId, reason: 'self_call' });
+    await recordBlockedCallAttempt(undefined, { callerId, recipientId, reason: 'recipient_not_found' });
+    assert.equal(update.mock.callCount(), 0);
+    assert.equal(created.length, 0);
+  });
+});
@@ -0,0 +1,204 @@
+import { Server } from 'socket.io';
+import mongoose from 'mongoose';
+import { User } from '../models/User';
+import { Friendship, IFriendship } from '../models/Friendship';
+import { Contact } from '../models/Contact';
+import { CallSession, ICallSession } from '../models/CallSession';
+import { Notification } from '../models/Notification';
+import { createNotification } from './notifications';
+
+/**
+ * Call permission policy.
+ *
+ * Every way of ringing or joining someone (POST /api/rooms, POST /api/calls/private,
+ * POST /api/rooms/:id/join and socket `room:join`) goes through checkCallPermission
+ * so the recipient's settings.privacy.whoCanCall and blocks are enforced in one place.
+ */
+
+export type CallDenialReason =
+  | 'self_call'
+  | 'recipient_not_found'
+  | 'blocked'
+  | 'calls_disabled'
+  | 'contacts_only'
+  | 'not_friends';
+
+// `publicReason` is what the caller may be told; `reason` stays on the server
+export type CallPermission =
+  | { allowed: true; friendship: IFriendship | null }
+  | { allowed: false; reason: CallDenialReason; publicReason: CallDenialReason; message: string };
+
+// Repeated attempts from one caller within this window share one inbox entry
+const BLOCKED_ATTEMPT_WINDOW_MS = 60 * 60 * 1000;
+
+const DENIAL_MESSAGES: Record<Exclude<CallDenialReason, 'blocked'>, string> = {
+  self_call: 'Cannot call yourself',
+  recipient_not_found: 'User not found',
+  calls_disabled: 'This user is not accepting calls',
+  contacts_only: 'This user only accepts calls from their contacts',
+  not_friends: 'You must be friends to call',
+};
+
+// HTTP status the REST routes answer a denial with
+export const DENIAL_STATUS: Record<CallDenialReason, number> = {
+  self_call: 400,
+  recipient_not_found: 404,
+  blocked: 403,
+  calls_disabled: 403,
+  contacts_only: 403,
+  not_friends: 403,
+};
+
+// A block reads exactly like calls being turned off, so the caller can't tell them apart
+const publicDenialReason = (reason: CallDenialReason) => (reason === 'blocked' ? 'calls_disabled' : reason);
+
+const deny = (reason: CallDenialReason): CallPermission => {
+  const publicReason = publicDenialReason(reason);
+  return { allowed: false, reason, publicReason, message: DENIAL_MESSAGES[publicReason] };
+};
+
+/**
+ * Decide whether `callerId` may ring `recipientId`.
+ * Guests from invite links (guest-*) are treated as strangers.
+ * `requireFriendship` is used by 1:1 private calls, which have always
+ * required an accepted friendship regardless of whoCanCall.
+ */
+export async function checkCallPermission(
+  callerId: string,
+  recipientId: string,
+  options: { requireFriendship?: boolean } = {}
+): Promise<CallPermission> {
+  const caller = callerId.toString();
+  const recipient = recipientId.toString();
+
+  if (caller === recipient) return deny('self_call');
+  if (!mongoose.Types.ObjectId.isValid(recipient)) return deny('recipient_not_found');
+
+  const recipientUser = await User.findById(recipient).select('settings.privacy').lean();
+  if (!recipientUser) return deny('recipient_not_found');
+
+  const whoCanCall = recipientUser.settings?.privacy?.whoCanCall || 'everyone';
+  const callerIsUser = mongoose.Types.ObjectId.isValid(caller);
+
+  let friendship: IFriendship | null = null;
+  let recipientContact: { isBlocked: boolean } | null = null;
+
+  if (callerIsUser) {
+    [friendship, recipientContact] = await Promise.all([
+      Friendship.findOne({
+        $or: [
+          { userId1: caller, userId2: recipient },
+          { userId1: recipient, userId2: caller },
+        ],
+      }),
+      Contact.findOne({ userId: recipient, contactUserId: caller }).select('isBlocked').lean(),
+    ]);
+  }
+
+  // Blocks win over everything else
+  if (friendship?.status === 'blocked' || recipientContact?.isBlocked) {
+    return deny('blocked');
+  }
+
+  if (whoCanCall === 'nobody') return deny('calls_disabled');
+
+  const isFriend = friendship?.status === 'accepted';
+
+  if (options.requireFriendship && !isFriend) return deny('not_friends');
+
+  if (whoCanCall === 'contacts' && !isFriend && !recipientContact) {
+    return deny('contacts_only');
+  }
+
+  return { allowed: true, friendship: isFriend ? friendship : null };
+}
+
+/**
+ * Joining an existing room counts as calling its host, unless the user
+ * is the host or was already invited. Rooms without a CallSession
+ * (ad-hoc socket rooms) are not restricted.
+ */
+export async function checkRoomJoinPermission(
+  userId: string,
+  roomOrSession: string | ICallSession
+): Promise<CallPermission & { callSession: ICallSession | null }> {
+  const callSession = typeof roomOrSession === 'string'
+    ? await CallSession.findOne({ roomId: roomOrSession })
+    : roomOrSession;
+
+  if (!callSession) return { allowed: true, friendship: null, callSession: null };
+
+  const user = userId.toString();
+  const isHost = callSession.hostId.toString() === user;
+  const isGuest = callSession.guestIds.some(id => id.toString() === user);
+  if (isHost || isGuest) return { allowed: true, friendship: null, callSession };
+
+  const permission = await checkCallPermission(user, callSession.hostId.toString());
+  return { ...permission, callSession };
+}
+
+/**
+ * Leave a silent record in the recipient's inbox so they can see who tried
+ * to reach them. Not pushed over the socket and stored as already read,
+ * so it never rings, toasts or bumps the unread badge. Calling again within
+ * the hour counts on the same entry, so redialling can't flood the inbox.
+ * Self-calls and unknown recipients aren't worth recording.
+ */
+export async function recordBlockedCallAttempt(
+  io: Server | undefined,
+  input: {
+    callerId: string;
+    recipientId: string;
+    reason: CallDenialReason;
+    roomId?: string;
+    isVideo?: boolean;
+  }
+): Promise<void> {
+  if (input.reason === 'self_call' || input.reason === 'recipient_not_found') return;
+
+  const callerIsUser = mongoose.Types.ObjectId.isValid(input.callerId);
+  const caller = callerIsUser
+    ? await User.findById(input.callerId).select('name').lean()
+    : null;
+  const callerName = caller?.name || 'Someone';
+  const now = new Date();
+
+  // Guests have no id worth keeping, so their attempts count together
+  const attempts = { $add: [{ $ifNull: ['$metadata.attempts', 1] }, 1] };
+  const repeat = await Notification.findOneAndUpdate(
+    {
+      userId: input.recipientId,
+      type: 'blocked_call_attempt',
+      'metadata.callerId': callerIsUser ? input.callerId : null,
+      'metadata.lastAttemptAt': { $gt: new Date(now.getTime() - BLOCKED_ATTEMPT_WINDOW_MS) },
+    },
+    [{
+      $set: {
+        title: { $concat: [callerName, ' tried to call you ', { $toString: attempts }, ' times'] },
+        'metadata.attempts': attempts,
+        'metadata.lastAttemptAt': now,
+        'metadata.roomId': input.roomId ?? null,
+        'metadata.isVideo': input.isVideo ?? null,
+        'metadata.denialReason': input.reason,
+      },
+    }]
+  );
+  if (repeat) return;
+
+  await createNotification(io, {
+    userId: input.recipientId,
+    type: 'blocked_call_attempt',
+    title: `${callerName} tried to call you`,
+    message: 'The call was not put through because of your privacy settings',
+    silent: true,
+    metadata: {
+      roomId: input.roomId,
+      callerId: callerIsUser ? input.callerId : undefined,
+      callerName,
+      isVideo: input.isVideo,
+      denialReason: input.reason,
+      attempts: 1,
+      lastAttemptAt: now,
+    },
+  });
+}
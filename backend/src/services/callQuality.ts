@@ -0,0 +1,213 @@
+import mongoose from 'mongoose';
+import { CallQualitySample } from '../models/CallQualitySample';
+
+/**
+ * Call quality telemetry.
+ *
+ * Every participant samples getStats() of its connections (each mesh peer,
+ * or its SFU transports) and sends one aggregate per connection with
+ * `quality:report` every few seconds. Samples are kept per call as a time
+ * series (CallQualitySample) and summarised by GET /api/calls/:id/quality.
+ */
+
+export const QUALITY_REPORT_MIN_INTERVAL_MS = 2000; // Faster reports are dropped
+const MAX_PEERS_PER_REPORT = 32;
+const TIMELINE_BUCKET_MS = 10000;
+
+export type QualityGrade = 'good' | 'fair' | 'poor';
+
+export interface QualityReportSample {
+  peerId: string;
+  peerName?: string;
+  rttMs?: number;
+  jitterMs?: number;
+  packetLossPct?: number;
+  inboundKbps?: number;
+  outboundKbps?: number;
+  frameWidth?: number;
+  frameHeight?: number;
+  framesPerSecond?: number;
+  audioCodec?: string;
+  videoCodec?: string;
+  qualityLimitation?: 'none' | 'bandwidth' | 'cpu' | 'other';
+  sendScale?: number;
+}
+
+export interface QualityTimelinePoint {
+  offsetMs: number;
+  rttMs: number | null;
+  jitterMs: number | null;
+  packetLossPct: number | null;
+  inboundKbps: number | null;
+  frameHeight: number | null; // Lowest received video height in the bucket
+  grade: QualityGrade;
+}
+
+export interface ParticipantQuality {
+  userId: string;
+  userName: string;
+  samples: number;
+  avgRttMs: number | null;
+  p95RttMs: number | null;
+  avgJitterMs: number | null;
+  avgPacketLossPct: number | null;
+  maxPacketLossPct: number | null;
+  avgInboundKbps: number | null;
+  bandwidthLimitedPct: number; // Share of samples where the browser lowered quality for bandwidth
+  grade: QualityGrade;
+}
+
+const LIMITATIONS = ['none', 'bandwidth', 'cpu', 'other'];
+
+const number = (value: unknown, max: number): number | undefined => {
+  const n = Number(value);
+  if (value === undefined || value === null || !Number.isFinite(n) || n < 0) return undefined;
+  return Math.min(max, Math.round(n * 100) / 100);
+};
+
+const text = (value: unknown, max = 40): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim().substring(0, max) : undefined;
+
+// Keep only what we understand, in sane ranges
+export function sanitizeSamples(raw: unknown): QualityReportSample[] {
+  if (!Array.isArray(raw)) return [];
+  const samples: QualityReportSample[] = [];
+  for (const entry of raw.slice(0, MAX_PEERS_PER_REPORT)) {
+    const peerId = text(entry?.peerId, 64);
+    if (!peerId) continue;
+    samples.push({
+      peerId,
+      peerName: text(entry.peerName, 100),
+      rttMs: number(entry.rttMs, 60000),
+      jitterMs: number(entry.jitterMs, 60000),
+      packetLossPct: number(entry.packetLossPct, 100),
+      inboundKbps: number(entry.inboundKbps, 1000000),
+      outboundKbps: number(entry.outboundKbps, 1000000),
+      frameWidth: number(entry.frameWidth, 10000),
+      frameHeight: number(entry.frameHeight, 10000),
+      framesPerSecond: number(entry.framesPerSecond, 240),
+      audioCodec: text(entry.audioCodec),
+      videoCodec: text(entry.videoCodec),
+      qualityLimitation: LIMITATIONS.includes(entry.qualityLimitation) ? entry.qualityLimitation : undefined,
+      sendScale: number(entry.sendScale, 16),
+    });
+  }
+  return samples;
+}
+
+export async function recordQualityReport(
+  call: { callId: string; callStartedAt?: number },
+  user: { userId: string; userName: string },
+  samples: QualityReportSample[]
+): Promise<number> {
+  // Anonymous sockets have nobody to attribute samples to
+  if (samples.length === 0 || !mongoose.Types.ObjectId.isValid(call.callId) || !mongoose.Types.ObjectId.isValid(user.userId)) {
+    return 0;
+  }
+  const at = new Date();
+  const offsetMs = call.callStartedAt ? Math.max(0, at.getTime() - call.callStartedAt) : 0;
+  await CallQualitySample.insertMany(samples.map(sample => ({
+    ...sample,
+    callId: call.callId,
+    userId: user.userId,
+    userName: user.userName,
+    at,
+    offsetMs,
+  })));
+  return samples.length;
+}
+
+// Rough call-quality grade from the usual VoIP thresholds
+export const gradeOf = (rttMs: number | null, packetLossPct: number | null, jitterMs: number | null): QualityGrade => {
+  if ((rttMs ?? 0) > 500 || (packetLossPct ?? 0) > 8 || (jitterMs ?? 0) > 100) return 'poor';
+  if ((rttMs ?? 0) > 300 || (packetLossPct ?? 0) > 3 || (jitterMs ?? 0) > 50) return 'fair';
+  return 'good';
+};
+
+const average = (values: (number | undefined)[]): number | null => {
+  const present = values.filter((v): v is number => typeof v === 'number');
+  if (present.length === 0) return null;
+  return Math.round((present.reduce((sum, v) => sum + v, 0) / present.length) * 10) / 10;
+};
+
+const percentile = (values: (number | undefined)[], p: number): number | null => {
+  const present = values.filter((v): v is number => typeof v === 'number').sort((a, b) => a - b);
+  if (present.length === 0) return null;
+  return present[Math.min(present.length - 1, Math.floor(present.length * p))];
+};
+
+const maximum = (values: (number | undefined)[]): number | null => {
+  const present = values.filter((v): v is number => typeof v === 'number');
+  return present.length > 0 ? Math.max(...present) : null;
+};
+
+const minimum = (values: (number | undefined)[]): number | null => {
+  const present = values.filter((v): v is number => typeof v === 'number' && v > 0);
+  return present.length > 0 ? Math.min(...present) : null;
+};
+
+export async function getCallQuality(callId: string) {
+  const samples = await CallQualitySample.find({ callId }).sort({ at: 1 }).lean();
+  type Sample = (typeof samples)[number];
+
+  // Timeline: every connection of every participant, bucketed
+  const buckets = new Map<number, Sample[]>();
+  for (const sample of samples) {
+    const bucket = Math.floor(sample.offsetMs / TIMELINE_BUCKET_MS) * TIMELINE_BUCKET_MS;
+    if (!buckets.has(bucket)) buckets.set(bucket, []);
+    buckets.get(bucket)!.push(sample);
+  }
+  const timeline: QualityTimelinePoint[] = Array.from(buckets.entries()).map(([offsetMs, group]) => {
+    const rttMs = average(group.map(s => s.rttMs));
+    const jitterMs = average(group.map(s => s.jitterMs));
+    const packetLossPct = average(group.map(s => s.packetLossPct));
+    return {
+      offsetMs,
+      rttMs,
+      jitterMs,
+      packetLossPct,
+      inboundKbps: average(group.map(s => s.inboundKbps)),
+      frameHeight: minimum(group.map(s => s.frameHeight)),
+      grade: gradeOf(rttMs, packetLossPct, jitterMs),
+    };
+  });
+
+  // Per participant, as they experienced the call
+  const byUser = new Map<string, Sample[]>();
+  for (const sample of samples) {
+    const key = sample.userId.toString();
+    if (!byUser.has(key)) byUser.set(key, []);
+    byUser.get(key)!.push(sample);
+  }
+  const participants: ParticipantQuality[] = Array.from(byUser.entries()).map(([userId, group]) => {
+    const avgRttMs = average(group.map(s => s.rttMs));
+    const avgJitterMs = average(group.map(s => s.jitterMs));
+    const avgPacketLossPct = average(group.map(s => s.packetLossPct));
+    const limited = group.filter(s => s.qualityLimitation === 'bandwidth').length;
+    return {
+      userId,
+      userName: group[group.length - 1].userName,
+      samples: group.length,
+      avgRttMs,
+      p95RttMs: percentile(group.map(s => s.rttMs), 0.95),
+      avgJitterMs,
+      avgPacketLossPct,
+      maxPacketLossPct: maximum(group.map(s => s.packetLossPct)),
+      avgInboundKbps: average(group.map(s => s.inboundKbps)),
+      bandwidthLimitedPct: Math.round((limited / group.length) * 100),
+      grade: gradeOf(avgRttMs, avgPacketLossPct, avgJitterMs),
+    };
+  });
+
+  const rttMs = average(samples.map(s => s.rttMs));
+  const packetLossPct = average(samples.map(s => s.packetLossPct));
+  const jitterMs = average(samples.map(s => s.jitterMs));
+
+  return {
+    bucketMs: TIMELINE_BUCKET_MS,
+    samples: samples.length,
+    summary: samples.length > 0 ? { rttMs, packetLossPct, jitterMs, grade: gradeOf(rttMs, packetLossPct, jitterMs) } : null,
+    timeline,
+    participants,
+  };
+}
@@ -0,0 +1,439 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { spawn, spawnSync } from 'child_process';
+import { pipeline } from 'stream/promises';
+import { Server } from 'socket.io';
+import { GridFSBucketWriteStream } from 'mongodb';
+import { CallSession, ICallSession } from '../models/CallSession';
+import { User } from '../models/User';
+import { IUpload } from '../models/Upload';
+import { notifyUsers } from './notifications';
+import {
+  uploadRecording,
+  openRecordingUploadStream,
+  listRecordingSegments,
+  getRecordingStream,
+  deleteRecording,
+} from './storage';
+
+/**
+ * Server-side call recorder.
+ *
+ * With RECORDER_MODE=server the backend records a call instead of one
+ * participant's browser. The recorder is a hidden member of the room: every
+ * participant streams its own camera and microphone to it (`recorder:chunk`,
+ * WebM from a short MediaRecorder timeslice) and the media is written to
+ * GridFS as it arrives, a few seconds per segment, so a crashed tab or a
+ * restarted backend loses at most the last segment. When the call ends a
+ * 'call.recording' job mixes everyone's audio and tiles their video into one
+ * recording with ffmpeg and drops the segments.
+ *
+ * Either way, calls are only recorded when the host has `settings.autoRecord` on.
+ *
+ * RECORDER_MODE              'client' (default, the browser records) or 'server'
+ * RECORDER_SEGMENT_SECONDS   media buffered per GridFS write (default 5)
+ * FFMPEG_PATH                ffmpeg binary (default `ffmpeg`)
+ */
+
+export type RecorderMode = 'client' | 'server' | 'none';
+
+export interface RecorderChunk {
+  trackId: string; // One participant's feed (a new one after a camera/mic restart)
+  seq: number; // Chunk number within the track
+  offsetMs: number; // Call time at the track's first frame
+  mimeType: string;
+  hasVideo: boolean;
+  hasAudio: boolean;
+  data: Buffer;
+}
+
+interface TrackBuffer {
+  callId: string;
+  userId: string;
+  socketId: string;
+  offsetMs: number;
+  mimeType: string;
+  hasVideo: boolean;
+  hasAudio: boolean;
+  pending: Array<{ seq: number; data: Buffer }>;
+  pendingBytes: number;
+  pendingSince: number;
+  writing: Promise<void>; // Segments are written one after another
+}
+
+const MODE: 'client' | 'server' = process.env.RECORDER_MODE === 'server' ? 'server' : 'client';
+const SEGMENT_MS = Number(process.env.RECORDER_SEGMENT_SECONDS || 5) * 1000;
+const FFMPEG_BIN = process.env.FFMPEG_PATH || 'ffmpeg';
+
+export const RECORDER_CHUNK_MS = 1000; // MediaRecorder timeslice asked of participants
+const MAX_SEGMENT_BYTES = 8 * 1024 * 1024;
+const COMPOSE_TIMEOUT_MS = 30 * 60 * 1000;
+const TILE_WIDTH = 640;
+const TILE_HEIGHT = 360;
+const FRAME_RATE = 25;
+
+// Tracks fed through this node (trackId -> media not yet in GridFS)
+const tracks = new Map<string, TrackBuffer>();
+// First chunks of a track wait here while the call is checked
+const admitting = new Map<string, Promise<boolean>>();
+
+let ffmpegAvailable: boolean | null = null;
+
+// Checked once, on first use
+const probeFfmpeg = (): boolean => {
+  if (ffmpegAvailable === null) {
+    const probe = spawnSync(FFMPEG_BIN, ['-version'], { stdio: 'ignore', timeout: 5000 });
+    ffmpegAvailable = !probe.error && probe.status === 0;
+    if (!ffmpegAvailable) {
+      console.warn('[RECORDER] ⚠️ ffmpeg not found - server recordings cannot be composed');
+    }
+  }
+  return ffmpegAvailable;
+};
+
+export const isRecorderAvailable = () => probeFfmpeg();
+
+// Who records a call that is starting
+export async function chooseRecorder(callSession: ICallSession): Promise<RecorderMode> {
+  const host = await User.findById(callSession.hostId).select('settings.autoRecord');
+  if (host?.settings?.autoRecord === false) return 'none';
+  return MODE;
+}
+
+const isRecordedByServer = async (callId: string) =>
+  !!(await CallSession.exists({ _id: callId, status: 'active', 'metadata.recorder': 'server' }));
+
+const flushTrack = (trackId: string, track: TrackBuffer) => {
+  if (track.pending.length === 0) return track.writing;
+
+  const chunks = track.pending.sort((a, b) => a.seq - b.seq);
+  const seq = chunks[0].seq;
+  const data = Buffer.concat(chunks.map(c => c.data));
+  track.pending = [];
+  track.pendingBytes = 0;
+
+  track.writing = track.writing
+    .then(() => uploadRecording(data, `segment-${track.callId}-${trackId}-${seq}.webm`, track.mimeType, {
+      callId: track.callId,
+      userId: track.userId,
+      segment: true,
+      trackId,
+      seq,
+      offsetMs: track.offsetMs,
+      hasVideo: track.hasVideo,
+      hasAudio: track.hasAudio,
+    }))
+    .then(() => undefined)
+    .catch((error) => {
+      console.error(`[RECORDER] ❌ Failed to write segment ${seq} of track ${trackId}:`, error);
+    });
+  return track.writing;
+};
+
+/**
+ * Buffer a participant's media and write it out once a segment's worth has
+ * arrived. Returns false when the call isn't being recorded by the server.
+ */
+export async function appendRecorderChunk(
+  callId: string,
+  userId: string,
+  socketId: string,
+  chunk: RecorderChunk
+): Promise<boolean> {
+  let track = tracks.get(chunk.trackId);
+  if (!track) {
+    let admitted = admitting.get(chunk.trackId);
+    if (!admitted) {
+      admitted = isRecordedByServer(callId);
+      admitting.set(chunk.trackId, admitted);
+      admitted.finally(() => admitting.delete(chunk.trackId)).catch(() => {});
+    }
+    if (!(await admitted)) return false;
+
+    track = tracks.get(chunk.trackId);
+    if (!track) {
+      track = {
+        callId,
+        userId,
+        socketId,
+        offsetMs: Math.max(0, Math.round(chunk.offsetMs)),
+        mimeType: chunk.mimeType || 'video/webm',
+        hasVideo: chunk.hasVideo,
+        hasAudio: chunk.hasAudio,
+        pending: [],
+        pendingBytes: 0,
+        pendingSince: Date.now(),
+        writing: Promise.resolve(),
+      };
+      tracks.set(chunk.trackId, track);
+    }
+  }
+  if (track.callId !== callId || track.userId !== userId) return false;
+
+  // The same feed may come back on a new connection after a reconnect
+  track.socketId = socketId;
+  if (track.pending.length === 0) track.pendingSince = Date.now();
+  track.pending.push({ seq: chunk.seq, data: chunk.data });
+  track.pendingBytes += chunk.data.length;
+
+  if (Date.now() - track.pendingSince >= SEGMENT_MS || track.pendingBytes >= MAX_SEGMENT_BYTES) {
+    flushTrack(chunk.trackId, track);
+  }
+  return true;
+}
+
+// A participant stopped its feed: write what's left
+export async function endRecorderTrack(trackId: string, userId: string) {
+  const track = tracks.get(trackId);
+  if (!track || track.userId !== userId) return;
+  tracks.delete(trackId);
+  await flushTrack(trackId, track);
+}
+
+// A connection went away: write out every feed it was sending
+export async function closeRecorderTracks(socketId: string) {
+  const closing = Array.from(tracks.entries()).filter(([, track]) => track.socketId === socketId);
+  for (const [trackId] of closing) {
+    tracks.delete(trackId);
+  }
+  await Promise.all(closing.map(([trackId, track]) => flushTrack(trackId, track)));
+}
+
+// Write out everything buffered on this node (shutdown)
+export async function flushAllRecorderTracks() {
+  await Promise.all(Array.from(tracks.entries()).map(([trackId, track]) => flushTrack(trackId, track)));
+}
+
+interface ComposedTrack {
+  input: number;
+  file: string;
+  offsetMs: number;
+  hasVideo: boolean;
+  hasAudio: boolean;
+}
+
+// One grid cell per camera, audio from everyone, each delayed to its place in the call
+const buildComposeArgs = (inputs: ComposedTrack[], baseMs: number) => {
+  const filters: string[] = [];
+  const video = inputs.filter(t => t.hasVideo);
+  const audio = inputs.filter(t => t.hasAudio);
+  const args = ['-hide_banner', '-loglevel', 'error'];
+  inputs.forEach(t => args.push('-i', t.file));
+
+  let videoOut: string | null = null;
+  if (video.length > 0) {
+    video.forEach((t, i) => {
+      const delay = ((t.offsetMs - baseMs) / 1000).toFixed(3);
+      filters.push(
+        `[${t.input}:v]setpts=PTS-STARTPTS,fps=${FRAME_RATE},` +
+        `scale=${TILE_WIDTH}:${TILE_HEIGHT}:force_original_aspect_ratio=decrease,` +
+        `pad=${TILE_WIDTH}:${TILE_HEIGHT}:(ow-iw)/2:(oh-ih)/2,` +
+        `tpad=start_duration=${delay}:color=black[v${i}]`
+      );
+    });
+    if (video.length === 1) {
+      videoOut = 'v0';
+    } else {
+      const columns = Math.ceil(Math.sqrt(video.length));
+      const layout = video
+        .map((_, i) => `${(i % columns) * TILE_WIDTH}_${Math.floor(i / columns) * TILE_HEIGHT}`)
+        .join('|');
+      filters.push(`${video.map((_, i) => `[v${i}]`).join('')}xstack=inputs=${video.length}:layout=${layout}:fill=black[vout]`);
+      videoOut = 'vout';
+    }
+  }
+
+  let audioOut: string | null = null;
+  if (audio.length > 0) {
+    audio.forEach((t, i) => {
+      const delayMs = Math.round(t.offsetMs - baseMs);
+      filters.push(`[${t.input}:a]asetpts=PTS-STARTPTS,aresample=48000,adelay=${delayMs}:all=1[a${i}]`);
+    });
+    if (audio.length === 1) {
+      audioOut = 'a0';
+    } else {
+      filters.push(`${audio.map((_, i) => `[a${i}]`).join('')}amix=inputs=${audio.length}:duration=longest:dropout_transition=0[aout]`);
+      audioOut = 'aout';
+    }
+  }
+
+  args.push('-filter_complex', filters.join(';'));
+  if (videoOut) {
+    args.push('-map', `[${videoOut}]`, '-c:v', 'libvpx', '-deadline', 'realtime', '-cpu-used', '8', '-b:v', '2M');
+  }
+  if (audioOut) {
+    args.push('-map', `[${audioOut}]`, '-c:a', 'libopus', '-b:a', '96k');
+  }
+  args.push('-f', 'webm', 'pipe:1');
+  return args;
+};
+
+// Run ffmpeg, streaming its output into GridFS as it is encoded
+const composeInto = (args: string[], output: GridFSBucketWriteStream) =>
+  new Promise<void>((resolve, reject) => {
+    const ffmpeg = spawn(FFMPEG_BIN, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    let stderr = '';
+    let exited = false;
+    let stored = false;
+    const timer = setTimeout(() => ffmpeg.kill('SIGKILL'), COMPOSE_TIMEOUT_MS);
+
+    ffmpeg.stdout.pipe(output);
+    ffmpeg.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+    output.on('finish', () => {
+      stored = true;
+      if (exited) resolve();
+    });
+    output.on('error', (error) => {
+      ffmpeg.kill('SIGKILL');
+      reject(error);
+    });
+    ffmpeg.on('error', (error) => {
+      clearTimeout(timer);
+      output.abort().catch(() => {});
+      reject(error);
+    });
+    ffmpeg.on('close', (code) => {
+      clearTimeout(timer);
+      if (code !== 0) {
+        output.abort().catch(() => {});
+        reject(new Error(`ffmpeg exited with ${code}: ${stderr.trim().substring(0, 200)}`));
+        return;
+      }
+      exited = true;
+      if (stored) resolve();
+    });
+  });
+
+// Tell participants (live and in their inbox) that the call's recording can be played
+export async function announceRecordingReady(io: Server | undefined, callSession: ICallSession) {
+  const callId = callSession._id.toString();
+  const participants = [callSession.hostId, ...(callSession.guestIds || [])];
+  if (io) {
+    participants.forEach((participantId) => {
+      io.to(`user:${participantId}`).emit('call:recording:ready', {
+        callId,
+        recordingUrl: callSession.recordingUrl,
+        duration: callSession.duration,
+      });
+    });
+  }
+  await notifyUsers(io, participants.map(p => p.toString()), {
+    type: 'call_recording_ready',
+    title: 'Call Recording Ready',
+    message: 'Your call recording is ready to view',
+    actionUrl: `/call-detail/${callId}`,
+    metadata: {
+      callId,
+      recordingUrl: callSession.recordingUrl,
+    },
+  });
+}
+
+// A browser recording uploaded in full (or saved when its uploader went away) becomes the call's recording
+export async function saveUploadedRecording(io: Server | undefined, upload: IUpload): Promise<ICallSession | null> {
+  const callSession = await CallSession.findById(upload.callId);
+  if (!callSession) return null;
+
+  callSession.recordingKey = upload.fileId.toString();
+  callSession.recordingUrl = `/api/calls/${callSession._id}/recording/stream`;
+  callSession.metadata.recordingSize = upload.receivedBytes;
+  callSession.metadata.recordingOffsetMs = upload.offsetMs ?? 0;
+  await callSession.save();
+
+  await announceRecordingReady(io, callSession);
+  return callSession;
+}
+
+/**
+ * Mix and tile a call's recorded segments into its recording. Runs as the
+ * 'call.recording' job once the call has ended.
+ */
+export async function composeCallRecording(
+  callId: string,
+  io: Server
+): Promise<{ fileId?: string; tracks?: number; size?: number; skipped?: string }> {
+  const callSession = await CallSession.findById(callId);
+  if (!callSession) return { skipped: 'call_not_found' };
+
+  const segments = await listRecordingSegments(callId);
+  if (segments.length === 0) {
+    console.log(`[RECORDER] ⚠️ No media was recorded for call ${callId}`);
+    return { skipped: 'no_media' };
+  }
+
+  const byTrack = new Map<string, typeof segments>();
+  for (const segment of segments) {
+    const trackId = segment.metadata!.trackId as string;
+    if (!byTrack.has(trackId)) byTrack.set(trackId, []);
+    byTrack.get(trackId)!.push(segment);
+  }
+
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'acetime-recording-'));
+  try {
+    // Segments of a track concatenate back into the stream the browser produced
+    const inputs: ComposedTrack[] = [];
+    for (const trackSegments of byTrack.values()) {
+      const file = path.join(workDir, `track-${inputs.length}.webm`);
+      for (const segment of trackSegments) {
+        await pipeline(getRecordingStream(segment._id.toString()), fs.createWriteStream(file, { flags: 'a' }));
+      }
+      const { offsetMs, hasVideo, hasAudio } = trackSegments[0].metadata!;
+      inputs.push({ input: inputs.length, file, offsetMs: offsetMs || 0, hasVideo: !!hasVideo, hasAudio: !!hasAudio });
+    }
+
+    const composable = inputs
+      .filter(t => t.hasVideo || t.hasAudio)
+      .map((t, i) => ({ ...t, input: i }));
+    if (composable.length === 0) return { skipped: 'no_media' };
+
+    const baseMs = Math.min(...composable.map(t => t.offsetMs));
+    const hasVideo = composable.some(t => t.hasVideo);
+    console.log(`[RECORDER] 🎬 Composing call ${callId} from ${composable.length} track(s)`);
+
+    const output = openRecordingUploadStream(
+      `recording-${callId}-${Date.now()}.webm`,
+      hasVideo ? 'video/webm' : 'audio/webm',
+      {
+        callId,
+        userId: callSession.hostId.toString(),
+        duration: callSession.duration || 0,
+        uploadDate: new Date(),
+        participants: [callSession.hostId, ...(callSession.guestIds || [])].map(p => p.toString()),
+        recorder: 'server',
+        tracks: composable.length,
+      }
+    );
+    await composeInto(buildComposeArgs(composable, baseMs), output);
+    const fileId = output.id.toString();
+
+    // Replace whatever recording the call had
+    if (callSession.recordingKey && callSession.recordingKey !== fileId) {
+      await deleteRecording(callSession.recordingKey).catch(() => {});
+    }
+    callSession.recordingKey = fileId;
+    callSession.recordingUrl = `/api/calls/${callId}/recording/stream`;
+    callSession.metadata.recordingSize = output.length;
+    callSession.metadata.recordingOffsetMs = baseMs;
+    await callSession.save();
+
+    for (const segment of segments) {
+      await deleteRecording(segment._id.toString()).catch((error) => {
+        console.error('[RECORDER] ❌ Failed to delete segment:', error);
+      });
+    }
+
+    console.log(`[RECORDER] ✅ Recording for call ${callId} stored (${(output.length / (1024 * 1024)).toFixed(2)} MB)`);
+    await announceRecordingReady(io, callSession);
+    return { fileId, tracks: composable.length, size: output.length };
+  } finally {
+    fs.promises.rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+export const getRecorderStatus = () => ({
+  mode: MODE,
+  segmentSeconds: SEGMENT_MS / 1000,
+  bufferedTracks: tracks.size,
+  ffmpeg: MODE === 'server' ? probeFfmpeg() : undefined,
+});
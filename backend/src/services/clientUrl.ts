@@ -0,0 +1,8 @@
+// Frontend base URL for links in emails and invites (first entry if CLIENT_URL is a list)
+export const getClientBaseUrl = (): string => {
+  const clientUrl = process.env.CLIENT_URL?.split(',')[0]?.trim();
+  if (clientUrl && (clientUrl.startsWith('http://') || clientUrl.startsWith('https://'))) {
+    return clientUrl.replace(/\/$/, '');
+  }
+  return 'http://localhost:3000';
+};
@@ -1,4 +1,4 @@
-import { getOpenAI } from './openai';
+import { completeJSON, LLMUnavailableError } from './llm';
 import { Message } from '../models/Message';
 import { CallSession } from '../models/CallSession';
 import { Transcript } from '../models/Transcript';
@@ -21,8 +21,6 @@ export async function generateContactContext(
   contactUserId: string,
   conversationId: string
 ): Promise<ContactContext> {
-  const client = getOpenAI();
-
   // Fetch recent messages (last 50)
   const recentMessages = await Message.find({
     conversationId,
@@ -72,17 +70,6 @@ export async function generateContactContext(
     contextText += '\n';
   }
 
-  // If no OpenAI key, use mock response
-  if (!client) {
-    console.log('[CONTACT CONTEXT] ⚠️ OpenAI not configured - using mock context');
-    return {
-      summary: `You and ${contactName} have been in regular contact.`,
-      keyTopics: ['General discussion'],
-      relationship: 'contact',
-      suggestedTopics: ['Continue conversation'],
-    };
-  }
-
   const systemPrompt = `You are AceTime AI assistant. Analyze the conversation history and generate insights about the relationship and interaction patterns.
 
 Return a JSON object with these exact fields:
@@ -97,23 +84,15 @@ Be concise, friendly, and helpful. Focus on actionable insights.`;
   const userPrompt = contextText || `No conversation history yet with ${contactName}.`;
 
   try {
-    const response = await client.chat.completions.create({
-      model: 'gpt-4o-mini', // Use cheaper model for context generation
+    const { data: parsed } = await completeJSON<ContactContext>('contactContext', {
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt },
       ],
-      response_format: { type: 'json_object' },
       temperature: 0.7,
-      max_tokens: 500,
+      maxTokens: 500,
+      userId,
     });
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No response from OpenAI');
-    }
-
-    const parsed = JSON.parse(content) as ContactContext;
     
     // Validate and set defaults
     return {
@@ -124,6 +103,16 @@ Be concise, friendly, and helpful. Focus on actionable insights.`;
       suggestedTopics: Array.isArray(parsed.suggestedTopics) ? parsed.suggestedTopics : [],
     };
   } catch (error: any) {
+    if (error instanceof LLMUnavailableError) {
+      console.log('[CONTACT CONTEXT] ⚠️ No AI provider available - using mock context');
+      return {
+        summary: `You and ${contactName} have been in regular contact.`,
+        keyTopics: ['General discussion'],
+        relationship: 'contact',
+        suggestedTopics: ['Continue conversation'],
+      };
+    }
+
     console.error('[CONTACT CONTEXT] Error generating context:', error);
     // Return fallback context
     return {
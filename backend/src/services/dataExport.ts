@@ -0,0 +1,121 @@
+import archiver from 'archiver';
+import { Writable } from 'stream';
+import { GridFSFile } from 'mongodb';
+import { User } from '../models/User';
+import { CallSession } from '../models/CallSession';
+import { CallParticipant } from '../models/CallParticipant';
+import { Transcript } from '../models/Transcript';
+import { Notes } from '../models/Notes';
+import { Message } from '../models/Message';
+import { Conversation } from '../models/Conversation';
+import { Contact } from '../models/Contact';
+import { Friendship } from '../models/Friendship';
+import { Connection } from '../models/Connection';
+import { Lead } from '../models/Lead';
+import { Offer } from '../models/Offer';
+import { Vision } from '../models/Vision';
+import { Match } from '../models/Match';
+import { GeneratedImage } from '../models/GeneratedImage';
+import { PrivateCall } from '../models/PrivateCall';
+import { Notification } from '../models/Notification';
+import { AiUsage } from '../models/AiUsage';
+import { getRecordingStream, isStorageReady, listFilesUploadedBy, listRecordingsForCalls } from './storage';
+
+/**
+ * Data export (GET /api/users/export).
+ *
+ * Writes a ZIP to `output` with one JSON file per collection the user has
+ * data in, plus every recording of calls they took part in and every file
+ * they uploaded under files/. Documents are read and written one collection
+ * at a time and GridFS files are streamed, so large accounts never sit in
+ * memory as a whole.
+ */
+
+// Keep archive entry names portable
+const safeName = (name: string) => name.replace(/[^a-zA-Z0-9._-]/g, '_');
+
+export async function streamUserDataExport(userId: string, output: Writable): Promise<void> {
+  const user = await User.findById(userId);
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const archive = archiver('zip', { zlib: { level: 6 } });
+  const finished = new Promise<void>((resolve, reject) => {
+    archive.on('error', reject);
+    output.on('close', resolve);
+    output.on('finish', resolve);
+    output.on('error', reject);
+  });
+  archive.on('warning', (error) => console.warn('[EXPORT] Archive warning:', error.message));
+  archive.pipe(output);
+
+  const addJson = (name: string, data: unknown) => {
+    archive.append(JSON.stringify(data, null, 2), { name: `${name}.json` });
+  };
+
+  const uid = user._id;
+
+  // Calls the user hosted or joined, with their transcripts and notes
+  const calls = await CallSession.find({ $or: [{ hostId: uid }, { guestIds: uid }] })
+    .sort({ createdAt: -1 })
+    .lean();
+  const callIds = calls.map(c => c._id);
+
+  const conversations = await Conversation.find({ participants: uid }).lean();
+
+  addJson('profile', user.toJSON());
+  addJson('calls', calls);
+  addJson('call-participation', await CallParticipant.find({ userId: uid }).lean());
+  addJson('transcripts', await Transcript.find({ callId: { $in: callIds } }).lean());
+  addJson('notes', await Notes.find({ callId: { $in: callIds } }).lean());
+  addJson('private-calls', await PrivateCall.find({ $or: [{ callerId: uid }, { recipientId: uid }] }).lean());
+  addJson('conversations', conversations);
+  addJson('messages', await Message.find({ senderId: uid }).sort({ createdAt: 1 }).lean());
+  addJson('contacts', await Contact.find({ userId: uid }).lean());
+  addJson('friendships', await Friendship.find({ $or: [{ userId1: uid }, { userId2: uid }] }).lean());
+  addJson('connections', await Connection.find({ userId: uid }).lean());
+  addJson('leads', await Lead.find({ userId: uid }).lean());
+  addJson('offers', await Offer.find({ userId: uid }).lean());
+  addJson('visions', await Vision.find({ userId: uid }).lean());
+  addJson('matches', await Match.find({ $or: [{ initiatorId: uid }, { targetId: uid }] }).lean());
+  addJson('generated-images', await GeneratedImage.find({ creatorId: uid }).lean());
+  addJson('notifications', await Notification.find({ userId: uid }).sort({ createdAt: -1 }).lean());
+  addJson('ai-usage', await AiUsage.find({ userId: uid }).sort({ day: -1 }).lean());
+
+  // Recordings and uploads, streamed straight out of GridFS
+  const files = new Map<string, GridFSFile>();
+  if (isStorageReady()) {
+    const [recordings, uploads] = await Promise.all([
+      listRecordingsForCalls(callIds.map(id => id.toString())),
+      listFilesUploadedBy(uid.toString()),
+    ]);
+    [...recordings, ...uploads].forEach(f => files.set(f._id.toString(), f));
+  }
+
+  const manifest = Array.from(files.values()).map(file => {
+    const folder = file.metadata?.callId ? `recordings/${safeName(String(file.metadata.callId))}` : 'files';
+    const path = `${folder}/${file._id.toString()}-${safeName(file.filename)}`;
+    archive.append(getRecordingStream(file._id.toString()), { name: path, date: file.uploadDate });
+    return {
+      path,
+      fileId: file._id.toString(),
+      callId: file.metadata?.callId || null,
+      contentType: file.contentType || null,
+      size: file.length,
+      uploadedAt: file.uploadDate,
+    };
+  });
+
+  addJson('manifest', {
+    exportedAt: new Date(),
+    userId: uid.toString(),
+    counts: { calls: calls.length, conversations: conversations.length, files: manifest.length },
+    files: manifest,
+  });
+
+  await archive.finalize();
+  await finished;
+
+  console.log(`[EXPORT] 📦 Export complete for user ${uid.toString()} (${archive.pointer()} bytes)`);
+}
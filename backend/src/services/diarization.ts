@@ -0,0 +1,468 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { Transcript, ITranscriptSpeaker } from '../models/Transcript';
+import type { TranscriptionResult, TranscriptionWord } from './transcription';
+import { averageEmbedding, cosineSimilarity, createLocalDiarizationProvider } from './localDiarization';
+
+/**
+ * Speaker diarization for `audio:chunk`.
+ *
+ * One socket's audio can carry several voices (a meeting room on one
+ * microphone). Each transcribed chunk is split into speaker turns, and every
+ * turn is matched against the voices already heard from that microphone
+ * during the call, so "Speaker 2" stays "Speaker 2" for the whole call. The
+ * first voice on a microphone is attributed to the signed-in user; further
+ * voices get "Speaker N" labels that can be renamed after the call.
+ *
+ * DIARIZATION_PROVIDER     comma-separated chain, or `none` (default `local`)
+ *   local     voice features on this machine (see services/localDiarization.ts, needs ffmpeg)
+ *   service   HTTP diarization service such as a pyannote wrapper (DIARIZATION_SERVICE_URL)
+ *   fixture   deterministic turns for tests and demos
+ * DIARIZATION_SIMILARITY   voiceprint similarity needed to match a known voice (default 0.85)
+ */
+
+export type DiarizationProviderName = 'local' | 'service' | 'fixture';
+
+// Times are seconds from the start of the audio that was diarized
+export interface DiarizationTurn {
+  start: number;
+  end: number;
+  speaker: string; // Provider's label, only meaningful within one response unless embeddings are missing
+  embedding?: number[]; // Voiceprint used to recognise the voice in later chunks
+}
+
+export interface DiarizeOptions {
+  mimeType: string;
+  transcription: TranscriptionResult;
+}
+
+export interface DiarizationProvider {
+  name: DiarizationProviderName;
+  isAvailable(): boolean;
+  diarize(audio: Buffer, options: DiarizeOptions): Promise<DiarizationTurn[]>;
+}
+
+const DEFAULT_CHAIN = 'local';
+const SIMILARITY = Number(process.env.DIARIZATION_SIMILARITY || 0.85);
+// A voice needs this much speech before it counts as a new speaker rather than noise
+const MIN_NEW_SPEAKER_SECONDS = 2;
+// Centroids stop moving much after a minute of speech
+const MAX_CENTROID_WEIGHT = 60;
+
+// --- Service provider ---
+
+/**
+ * POSTs the raw audio (Content-Type = its MIME type) and expects
+ * `{ "turns": [{ "start", "end", "speaker", "embedding"? }] }`, times in seconds.
+ */
+const serviceProvider: DiarizationProvider = {
+  name: 'service',
+  isAvailable: () => !!process.env.DIARIZATION_SERVICE_URL,
+  diarize: async (audio, { mimeType }) => {
+    const headers: Record<string, string> = { 'Content-Type': mimeType };
+    if (process.env.DIARIZATION_SERVICE_TOKEN) {
+      headers['Authorization'] = `Bearer ${process.env.DIARIZATION_SERVICE_TOKEN}`;
+    }
+
+    const response = await fetch(process.env.DIARIZATION_SERVICE_URL!, {
+      method: 'POST',
+      headers,
+      body: audio,
+      signal: AbortSignal.timeout(Number(process.env.DIARIZATION_TIMEOUT_MS || 20000)),
+    });
+    if (!response.ok) {
+      throw new Error(`Diarization service error: ${response.status}`);
+    }
+
+    const data = await response.json() as { turns?: DiarizationTurn[]; segments?: DiarizationTurn[] };
+    return (data.turns || data.segments || []).filter(t => typeof t.start === 'number' && typeof t.end === 'number');
+  },
+};
+
+// --- Fixture provider ---
+
+/**
+ * Every sentence of the transcription is one turn, spoken by one of
+ * DIARIZATION_FIXTURE_SPEAKERS (default 2) voices picked by hashing the
+ * sentence, so the same audio always diarizes the same way.
+ */
+const fixtureProvider: DiarizationProvider = {
+  name: 'fixture',
+  isAvailable: () => true,
+  diarize: async (_audio, { transcription }) => {
+    const voices = Math.max(1, Number(process.env.DIARIZATION_FIXTURE_SPEAKERS || 2));
+    const words = transcription.words || [];
+    if (words.length === 0) return [];
+
+    const sentences: Array<{ start: number; end: number; text: string }> = [];
+    let current: { start: number; end: number; text: string } | null = null;
+    for (const word of words) {
+      if (!current) current = { start: word.start, end: word.end, text: '' };
+      current.text += `${word.word} `;
+      current.end = word.end;
+      if (/[.!?]$/.test(word.word)) {
+        sentences.push(current);
+        current = null;
+      }
+    }
+    if (current) sentences.push(current);
+
+    return sentences.map(sentence => {
+      const voice = crypto.createHash('sha256').update(sentence.text.trim()).digest().readUInt32BE(0) % voices;
+      return {
+        start: sentence.start,
+        end: sentence.end,
+        speaker: `voice_${voice}`,
+        embedding: Array.from({ length: voices }, (_, i) => (i === voice ? 1 : 0)),
+      };
+    });
+  },
+};
+
+// --- Registry ---
+
+const providers = new Map<DiarizationProviderName, DiarizationProvider>([
+  ['local', createLocalDiarizationProvider()],
+  ['service', serviceProvider],
+  ['fixture', fixtureProvider],
+]);
+
+// Swap in a custom implementation for a provider name (tests, new engines)
+export const registerDiarizationProvider = (provider: DiarizationProvider) => {
+  providers.set(provider.name, provider);
+};
+
+let diarizationChain: DiarizationProviderName[] | null = null;
+
+// Configured provider names, in fallback order (empty when diarization is off)
+export const getDiarizationChain = (): DiarizationProviderName[] => {
+  if (diarizationChain) return diarizationChain;
+
+  const names = (process.env.DIARIZATION_PROVIDER || DEFAULT_CHAIN)
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(name => name && name !== 'none');
+
+  const chain: DiarizationProviderName[] = [];
+  for (const name of names) {
+    if (providers.has(name as DiarizationProviderName)) {
+      chain.push(name as DiarizationProviderName);
+    } else {
+      console.warn(`[DIARIZATION] ⚠️ Unknown provider "${name}" in DIARIZATION_PROVIDER - ignoring`);
+    }
+  }
+
+  diarizationChain = chain;
+  return chain;
+};
+
+// Provider status for /api/info
+export const getDiarizationStatus = () => {
+  const chain = getDiarizationChain();
+  return {
+    chain,
+    providers: Array.from(providers.values()).map(provider => ({
+      name: provider.name,
+      enabled: chain.includes(provider.name),
+      available: chain.includes(provider.name) ? provider.isAvailable() : undefined,
+    })),
+  };
+};
+
+// Turns from the first provider that succeeds; empty when none could run
+const diarize = async (audio: Buffer, options: DiarizeOptions): Promise<DiarizationTurn[]> => {
+  for (const name of getDiarizationChain()) {
+    const provider = providers.get(name)!;
+    if (!provider.isAvailable()) continue;
+
+    try {
+      return await provider.diarize(audio, options);
+    } catch (error: any) {
+      console.warn(`[DIARIZATION] ⚠️ ${name} failed, trying next provider:`, error.message);
+    }
+  }
+  return [];
+};
+
+// --- Per-call speakers ---
+
+// Keyed by callId (or roomId before the call is persisted)
+const callSpeakers = new Map<string, Promise<ITranscriptSpeaker[]>>();
+
+const loadCallSpeakers = (callKey: string, callId?: string): Promise<ITranscriptSpeaker[]> => {
+  let speakers = callSpeakers.get(callKey);
+  if (!speakers) {
+    speakers = callId
+      ? Transcript.findOne({ callId })
+        .select('+speakers.embedding speakers')
+        .lean()
+        .then(doc => (doc?.speakers || []) as ITranscriptSpeaker[])
+        .catch(() => [])
+      : Promise.resolve([]);
+    callSpeakers.set(callKey, speakers);
+  }
+  return speakers;
+};
+
+// Drop a finished call's voices from memory (they stay on the Transcript)
+export const forgetCallSpeakers = (callKey: string) => {
+  callSpeakers.delete(callKey);
+};
+
+// Keep an in-progress call's labels in step with a rename
+export const renameCallSpeaker = async (callKey: string, key: string, name: string) => {
+  const speakers = await callSpeakers.get(callKey);
+  const speaker = speakers?.find(s => s.key === key);
+  if (speaker) speaker.name = name;
+};
+
+export interface SpeakerSource {
+  id: string; // Socket's user id (may be anonymous)
+  name: string;
+}
+
+const nextSpeakerName = (speakers: ITranscriptSpeaker[]) => {
+  let n = speakers.length + 1;
+  while (speakers.some(s => s.name === `Speaker ${n}`)) n++;
+  return `Speaker ${n}`;
+};
+
+const addSpeaker = (speakers: ITranscriptSpeaker[], source: SpeakerSource, turn?: DiarizationTurn): ITranscriptSpeaker => {
+  const isFirstOnSource = !speakers.some(s => s.sourceId === source.id);
+  const speaker: ITranscriptSpeaker = {
+    key: `spk_${speakers.length + 1}`,
+    // The first voice on a microphone is taken to be its owner
+    name: isFirstOnSource ? source.name : nextSpeakerName(speakers),
+    speakerId: isFirstOnSource && mongoose.isValidObjectId(source.id)
+      ? new mongoose.Types.ObjectId(source.id)
+      : undefined,
+    sourceId: source.id,
+    providerLabel: turn && !turn.embedding ? turn.speaker : undefined,
+    embedding: turn?.embedding,
+    speechSeconds: 0,
+  };
+  speakers.push(speaker);
+  return speaker;
+};
+
+const matchTurn = (speakers: ITranscriptSpeaker[], source: SpeakerSource, turn: DiarizationTurn): ITranscriptSpeaker => {
+  const candidates = speakers.filter(s => s.sourceId === source.id);
+  const duration = turn.end - turn.start;
+
+  if (!turn.embedding) {
+    return candidates.find(s => s.providerLabel === turn.speaker) || addSpeaker(speakers, source, turn);
+  }
+
+  let best: ITranscriptSpeaker | null = null;
+  let bestSimilarity = -Infinity;
+  for (const candidate of candidates) {
+    if (!candidate.embedding?.length) continue;
+    const similarity = cosineSimilarity(candidate.embedding, turn.embedding);
+    if (similarity > bestSimilarity) {
+      best = candidate;
+      bestSimilarity = similarity;
+    }
+  }
+
+  if (best && bestSimilarity >= SIMILARITY) return best;
+  if (candidates.length === 0 || duration >= MIN_NEW_SPEAKER_SECONDS) return addSpeaker(speakers, source, turn);
+
+  // Too short to be sure it's someone new
+  return best || candidates[0];
+};
+
+const learnVoice = (speaker: ITranscriptSpeaker, turn: DiarizationTurn) => {
+  const duration = Math.max(0, turn.end - turn.start);
+  if (turn.embedding) {
+    speaker.embedding = speaker.embedding?.length === turn.embedding.length
+      ? averageEmbedding(speaker.embedding, Math.min(speaker.speechSeconds, MAX_CENTROID_WEIGHT) || 1, turn.embedding, duration || 1)
+      : turn.embedding;
+  }
+  speaker.speechSeconds += duration;
+};
+
+// --- Aligning text to turns ---
+
+interface TimedText {
+  start: number;
+  end: number;
+  text: string;
+  confidence?: number;
+}
+
+const overlap = (a: { start: number; end: number }, b: { start: number; end: number }) =>
+  Math.min(a.end, b.end) - Math.max(a.start, b.start);
+
+// The turn a piece of text belongs to: most overlap, else the nearest one
+const turnFor = (turns: DiarizationTurn[], item: TimedText): number => {
+  let best = 0;
+  let bestScore = -Infinity;
+  turns.forEach((turn, i) => {
+    const score = overlap(turn, item);
+    if (score > bestScore) {
+      best = i;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+export interface AttributedSegment {
+  speaker: string;
+  speakerId?: mongoose.Types.ObjectId;
+  speakerKey: string;
+  text: string;
+  offset: number; // Seconds into the chunk
+  end?: number; // Seconds into the chunk, when the provider reports timings
+  words: TranscriptionWord[]; // Word timings for this segment, seconds into the chunk
+  confidence?: number;
+}
+
+// Where the transcribed speech ends, in seconds into the chunk
+const speechEnd = (transcription: TranscriptionResult): number | undefined => {
+  const ends = [...(transcription.segments || []), ...(transcription.words || [])].map(t => t.end);
+  return ends.length > 0 ? Math.max(...ends) : undefined;
+};
+
+/**
+ * Split a transcribed chunk into per-speaker segments with stable labels.
+ * Without usable turns (diarization off or failing, no timings) the whole
+ * chunk goes to the microphone's owner, as before diarization existed.
+ * `speakers` is the call's full speaker list to persist on the Transcript.
+ */
+export async function attributeSpeakers(input: {
+  callKey: string;
+  callId?: string;
+  source: SpeakerSource;
+  audio: Buffer;
+  mimeType: string;
+  transcription: TranscriptionResult;
+}): Promise<{ segments: AttributedSegment[]; speakers: ITranscriptSpeaker[] }> {
+  const { source, transcription } = input;
+  const speakers = await loadCallSpeakers(input.callKey, input.callId);
+
+  const turns = (await diarize(input.audio, { mimeType: input.mimeType, transcription }))
+    .filter(turn => turn.end > turn.start)
+    .sort((a, b) => a.start - b.start);
+
+  // Sentence-level timings keep punctuation; word timings split more finely
+  const pieces: TimedText[] = (transcription.segments?.length || 0) > 1
+    ? transcription.segments!.map(s => ({ start: s.start, end: s.end, text: s.text.trim() }))
+    : (transcription.words || []).map(w => ({ start: w.start, end: w.end, text: w.word.trim(), confidence: w.confidence }));
+
+  if (turns.length === 0 || pieces.length === 0) {
+    const owner = speakers.find(s => s.sourceId === source.id) || addSpeaker(speakers, source, turns[0]);
+    return {
+      segments: [{
+        speaker: owner.name,
+        speakerId: owner.speakerId,
+        speakerKey: owner.key,
+        text: transcription.text.trim(),
+        offset: 0,
+        end: speechEnd(transcription),
+        words: transcription.words || [],
+        confidence: transcription.confidence,
+      }],
+      speakers,
+    };
+  }
+
+  const turnSpeakers = turns.map(turn => {
+    const speaker = matchTurn(speakers, source, turn);
+    learnVoice(speaker, turn);
+    return speaker;
+  });
+
+  // Consecutive pieces from the same voice form one segment
+  const groups: Array<{ speaker: ITranscriptSpeaker; pieces: TimedText[] }> = [];
+  for (const piece of pieces.filter(p => p.text)) {
+    const speaker = turnSpeakers[turnFor(turns, piece)];
+    const last = groups[groups.length - 1];
+    if (last && last.speaker === speaker) {
+      last.pieces.push(piece);
+    } else {
+      groups.push({ speaker, pieces: [piece] });
+    }
+  }
+
+  // A single voice keeps the provider's own text (with punctuation)
+  if (groups.length === 1) {
+    groups[0].pieces = [{ start: groups[0].pieces[0].start, end: speechEnd(transcription) || 0, text: transcription.text.trim() }];
+  }
+
+  // Each word belongs to the segment it starts in
+  const wordsFor = (index: number) => (transcription.words || []).filter(w =>
+    (index === 0 || w.start >= groups[index].pieces[0].start) &&
+    (index === groups.length - 1 || w.start < groups[index + 1].pieces[0].start)
+  );
+
+  const segments = groups.map(({ speaker, pieces: grouped }, index) => {
+    const confident = grouped.filter(p => typeof p.confidence === 'number');
+    return {
+      speaker: speaker.name,
+      speakerId: speaker.speakerId,
+      speakerKey: speaker.key,
+      text: grouped.map(p => p.text).join(' '),
+      offset: grouped[0].start,
+      end: grouped[grouped.length - 1].end || undefined,
+      words: wordsFor(index),
+      confidence: confident.length > 0
+        ? confident.reduce((sum, p) => sum + p.confidence!, 0) / confident.length
+        : transcription.confidence,
+    };
+  });
+
+  return { segments, speakers };
+}
+
+export class SpeakerNotFoundError extends Error {
+  constructor(speaker: string) {
+    super(`No speaker "${speaker}" in this transcript`);
+    this.name = 'SpeakerNotFoundError';
+  }
+}
+
+/**
+ * Rename a voice everywhere in a call's transcript. `from` is a speaker key
+ * or a current label (transcripts from before diarization only have labels).
+ * Saving rebuilds fullText. Returns null when the call has no transcript.
+ */
+export async function renameTranscriptSpeaker(
+  callId: string,
+  from: string,
+  name: string
+) {
+  const transcript = await Transcript.findOne({ callId });
+  if (!transcript) return null;
+
+  const speaker = transcript.speakers.find(s => s.key === from)
+    || transcript.speakers.find(s => s.name === from);
+  const label = speaker?.name || from;
+
+  let renamed = 0;
+  transcript.segments.forEach(segment => {
+    const matches = speaker
+      ? segment.speakerKey === speaker.key || (!segment.speakerKey && segment.speaker === label)
+      : segment.speaker === label;
+    if (matches) {
+      segment.speaker = name;
+      renamed++;
+    }
+  });
+
+  if (!speaker && renamed === 0) {
+    throw new SpeakerNotFoundError(from);
+  }
+
+  if (speaker) {
+    speaker.name = name;
+    await renameCallSpeaker(callId, speaker.key, name);
+  }
+
+  // Only the name path of a speaker is written, so voiceprints (not selected) survive
+  transcript.markModified('segments');
+  await transcript.save();
+
+  console.log(`[DIARIZATION] ✏️ Renamed "${label}" to "${name}" in ${renamed} segments of call ${callId}`);
+  return transcript;
+}
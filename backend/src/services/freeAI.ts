@@ -35,199 +35,88 @@ export const getHuggingFaceAPIKey = (): string | null => {
 };
 
 /**
- * Generate meeting notes using free Hugging Face models
- * Uses Mistral-7B-Instruct for summarization (free, no API key required)
+ * Pattern-based meeting notes, used when no AI provider is reachable.
+ * Merges into previousNotes when given so live notes keep accumulating.
  */
-export const generateFreeNotes = async (
-  transcriptText: string,
+export const extractNotesFromTranscript = (
+  text: string,
   previousNotes?: Partial<NotesResult>
-): Promise<NotesResult> => {
-  try {
-    // Extract key information from transcript using pattern matching
-    // This is a fallback if Hugging Face API fails
-    const extractSimpleNotes = (text: string): NotesResult => {
-      const lines = text.split('\n').filter(l => l.trim());
-      const sentences = text.split(/[.!?]+/).filter(s => s.trim());
-      
-      // Extract action items (look for patterns like "need to", "should", "will", "let's")
-      const actionItemPatterns = [
-        /(?:need to|should|will|let's|must|have to)\s+([^.!?]+)/gi,
-        /(?:action|todo|task):\s*([^.!?]+)/gi,
-      ];
-      const actionItems: Array<{ text: string }> = [];
-      for (const pattern of actionItemPatterns) {
-        const matches = text.matchAll(pattern);
-        for (const match of matches) {
-          if (match[1] && match[1].trim().length > 5) {
-            actionItems.push({ text: match[1].trim() });
-          }
-        }
-      }
-      
-      // Extract decisions (look for "decided", "agreed", "chose")
-      const decisionPatterns = [
-        /(?:decided|agreed|chose|concluded)\s+([^.!?]+)/gi,
-      ];
-      const decisions: string[] = [];
-      for (const pattern of decisionPatterns) {
-        const matches = text.matchAll(pattern);
-        for (const match of matches) {
-          if (match[1] && match[1].trim().length > 5) {
-            decisions.push(match[1].trim());
-          }
-        }
-      }
-      
-      // Generate summary (first 2-3 sentences)
-      const summary = sentences.slice(0, 3).join('. ').substring(0, 200) + (sentences.length > 3 ? '...' : '');
-      
-      // Extract key topics (look for repeated words or important terms)
-      const words = text.toLowerCase().match(/\b\w{4,}\b/g) || [];
-      const wordFreq: Record<string, number> = {};
-      words.forEach(word => {
-        if (!['that', 'this', 'with', 'from', 'have', 'been', 'will', 'would', 'could', 'should'].includes(word)) {
-          wordFreq[word] = (wordFreq[word] || 0) + 1;
-        }
-      });
-      const keyTopics = Object.entries(wordFreq)
-        .sort((a, b) => b[1] - a[1])
-        .slice(0, 5)
-        .map(([word]) => word.charAt(0).toUpperCase() + word.slice(1));
-      
-      // Key bullets (important sentences)
-      const bullets = sentences
-        .filter(s => s.length > 20 && s.length < 150)
-        .slice(0, 5)
-        .map(s => s.trim());
-      
-      return {
-        summary: summary || 'Meeting in progress...',
-        bullets: bullets.length > 0 ? bullets : ['Discussion ongoing'],
-        actionItems: actionItems.length > 0 ? actionItems.slice(0, 5) : [],
-        decisions: decisions.length > 0 ? decisions.slice(0, 5) : [],
-        suggestedReplies: [],
-        keyTopics: keyTopics.length > 0 ? keyTopics : ['General Discussion'],
-      };
-    };
-
-    // Try Hugging Face API first (if available)
-    const apiKey = getHuggingFaceAPIKey();
-    // Use Llama 3.2 3B for better responses (faster, free, good quality)
-    const model = 'meta-llama/Llama-3.2-3B-Instruct';
-    
-    const systemPrompt = `You are AceTime AI assistant. Generate structured meeting notes from the transcript.
-Return ONLY valid JSON with these exact fields:
-{
-  "summary": "1-2 sentence summary",
-  "bullets": ["key point 1", "key point 2", ...],
-  "actionItems": [{"text": "action item"}],
-  "decisions": ["decision 1", ...],
-  "suggestedReplies": ["suggestion 1", ...],
-  "keyTopics": ["topic 1", ...]
-}`;
-
-    const userPrompt = previousNotes
-      ? `Previous notes: ${JSON.stringify(previousNotes)}\n\nNew transcript: ${transcriptText}\n\nUpdate the notes.`
-      : `Transcript: ${transcriptText}\n\nGenerate meeting notes.`;
-
-    try {
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-      };
-      
-      if (apiKey) {
-        headers['Authorization'] = `Bearer ${apiKey}`;
+): NotesResult => {
+  const sentences = text.split(/[.!?]+/).filter(s => s.trim());
+
+  // Extract action items (look for patterns like "need to", "should", "will", "let's")
+  const actionItemPatterns = [
+    /(?:need to|should|will|let's|must|have to)\s+([^.!?]+)/gi,
+    /(?:action|todo|task):\s*([^.!?]+)/gi,
+  ];
+  const actionItems: Array<{ text: string }> = [];
+  for (const pattern of actionItemPatterns) {
+    const matches = text.matchAll(pattern);
+    for (const match of matches) {
+      if (match[1] && match[1].trim().length > 5) {
+        actionItems.push({ text: match[1].trim() });
       }
-
-      const response = await fetch(
-        `https://api-inference.huggingface.co/models/${model}`,
-        {
-          method: 'POST',
-          headers,
-          body: JSON.stringify({
-            inputs: `<|begin_of_text|><|start_header_id|>system<|end_header_id|>\n\n${systemPrompt}<|eot_id|><|start_header_id|>user<|end_header_id|>\n\n${userPrompt}<|eot_id|><|start_header_id|>assistant<|end_header_id|>\n\n`,
-            parameters: {
-              max_new_tokens: 500,
-              temperature: 0.7,
-              return_full_text: false,
-            },
-          }),
-        }
-      );
-
-      if (response.ok) {
-        const data = await response.json() as any;
-        
-        // Handle different response formats from Hugging Face
-        let generatedText = '';
-        if (Array.isArray(data)) {
-          generatedText = data[0]?.generated_text || data[0]?.text || '';
-        } else if (typeof data === 'string') {
-          generatedText = data;
-        } else {
-          generatedText = data?.generated_text || data?.text || '';
-        }
-        
-        // Try to extract JSON from response
-        if (generatedText) {
-          const jsonMatch = generatedText.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            try {
-              const notes = JSON.parse(jsonMatch[0]) as NotesResult;
-              console.log('[FREE AI] ✅ Notes generated using Hugging Face');
-              return {
-                summary: notes.summary || '',
-                bullets: notes.bullets || [],
-                actionItems: notes.actionItems || [],
-                decisions: notes.decisions || [],
-                suggestedReplies: notes.suggestedReplies || [],
-                keyTopics: notes.keyTopics || [],
-              };
-            } catch (parseError) {
-              console.warn('[FREE AI] ⚠️ Failed to parse JSON, using extraction method');
-            }
-          }
-        }
-      } else {
-        const errorData = await response.json().catch(() => ({}));
-        // If model is loading (503), that's okay - we'll use extraction
-        if (response.status !== 503) {
-          console.warn('[FREE AI] ⚠️ Hugging Face API error:', errorData);
-        }
+    }
+  }
+  
+  // Extract decisions (look for "decided", "agreed", "chose")
+  const decisionPatterns = [
+    /(?:decided|agreed|chose|concluded)\s+([^.!?]+)/gi,
+  ];
+  const decisions: string[] = [];
+  for (const pattern of decisionPatterns) {
+    const matches = text.matchAll(pattern);
+    for (const match of matches) {
+      if (match[1] && match[1].trim().length > 5) {
+        decisions.push(match[1].trim());
       }
-    } catch (hfError) {
-      console.warn('[FREE AI] ⚠️ Hugging Face API unavailable, using extraction method:', hfError);
     }
-
-    // Fallback to simple extraction
-    console.log('[FREE AI] Using pattern-based extraction for notes');
-    const extractedNotes = extractSimpleNotes(transcriptText);
-    
-    // Merge with previous notes if provided
-    if (previousNotes) {
-      return {
-        summary: previousNotes.summary || extractedNotes.summary,
-        bullets: [...(previousNotes.bullets || []), ...extractedNotes.bullets].slice(0, 5),
-        actionItems: [...(previousNotes.actionItems || []), ...extractedNotes.actionItems].slice(0, 5),
-        decisions: [...(previousNotes.decisions || []), ...extractedNotes.decisions].slice(0, 5),
-        suggestedReplies: extractedNotes.suggestedReplies,
-        keyTopics: [...new Set([...(previousNotes.keyTopics || []), ...extractedNotes.keyTopics])].slice(0, 5),
-      };
+  }
+  
+  // Generate summary (first 2-3 sentences)
+  const summary = sentences.slice(0, 3).join('. ').substring(0, 200) + (sentences.length > 3 ? '...' : '');
+  
+  // Extract key topics (look for repeated words or important terms)
+  const words = text.toLowerCase().match(/\b\w{4,}\b/g) || [];
+  const wordFreq: Record<string, number> = {};
+  words.forEach(word => {
+    if (!['that', 'this', 'with', 'from', 'have', 'been', 'will', 'would', 'could', 'should'].includes(word)) {
+      wordFreq[word] = (wordFreq[word] || 0) + 1;
     }
-    
-    return extractedNotes;
-  } catch (error) {
-    console.error('[FREE AI] ❌ Notes generation error:', error);
-    // Return basic fallback
+  });
+  const keyTopics = Object.entries(wordFreq)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 5)
+    .map(([word]) => word.charAt(0).toUpperCase() + word.slice(1));
+  
+  // Key bullets (important sentences)
+  const bullets = sentences
+    .filter(s => s.length > 20 && s.length < 150)
+    .slice(0, 5)
+    .map(s => s.trim());
+  
+  const extractedNotes: NotesResult = {
+    summary: summary || 'Meeting in progress...',
+    bullets: bullets.length > 0 ? bullets : ['Discussion ongoing'],
+    actionItems: actionItems.length > 0 ? actionItems.slice(0, 5) : [],
+    decisions: decisions.length > 0 ? decisions.slice(0, 5) : [],
+    suggestedReplies: [],
+    keyTopics: keyTopics.length > 0 ? keyTopics : ['General Discussion'],
+  };
+
+  // Merge with previous notes if provided
+  if (previousNotes) {
     return {
-      summary: 'Meeting notes are being generated...',
-      bullets: ['Processing transcript'],
-      actionItems: [],
-      decisions: [],
-      suggestedReplies: [],
-      keyTopics: ['Meeting'],
+      summary: previousNotes.summary || extractedNotes.summary,
+      bullets: [...(previousNotes.bullets || []), ...extractedNotes.bullets].slice(0, 5),
+      actionItems: [...(previousNotes.actionItems || []), ...extractedNotes.actionItems].slice(0, 5),
+      decisions: [...(previousNotes.decisions || []), ...extractedNotes.decisions].slice(0, 5),
+      suggestedReplies: extractedNotes.suggestedReplies,
+      keyTopics: [...new Set([...(previousNotes.keyTopics || []), ...extractedNotes.keyTopics])].slice(0, 5),
     };
   }
+  
+  return extractedNotes;
 };
 
 /**
@@ -437,12 +326,12 @@ export const transcribeFreeAudio = async (
 export const generateFreeText = async (
   systemPrompt: string,
   userPrompt: string,
-  maxTokens: number = 200
+  maxTokens: number = 200,
+  // Llama 3.2 3B by default for better responses (faster and free)
+  model: string = 'meta-llama/Llama-3.2-3B-Instruct'
 ): Promise<string> => {
   try {
     const apiKey = getHuggingFaceAPIKey();
-    // Use Llama 3.2 3B for better responses (faster and free)
-    const model = 'meta-llama/Llama-3.2-3B-Instruct';
     
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
@@ -530,97 +419,6 @@ export const generateFreeText = async (
   }
 };
 
-/**
- * Generate comprehensive notes using free AI
- */
-export const generateFreeComprehensiveNotes = async (
-  transcriptText: string,
-  participants: string[],
-  duration: number,
-  callDate: Date
-): Promise<{
-  title: string;
-  summary: string;
-  sections: Array<{ topic: string; timestamp: string; notes: string[]; relatedTranscript: string }>;
-  actionItems: Array<{ item: string; assignee?: string; dueDate?: string; priority: 'high' | 'medium' | 'low' }>;
-  decisions: Array<{ decision: string; context: string; timestamp: string }>;
-  keyPoints: string[];
-  questionsRaised: string[];
-  nextSteps: string[];
-  suggestedFollowUp?: string;
-}> => {
-  try {
-    const systemPrompt = `You are AceTime AI assistant. Generate comprehensive, structured meeting notes from a completed call transcript.
-
-Participants: ${participants.join(', ') || 'Unknown'}
-Duration: ${Math.round(duration / 60)} minutes
-Date: ${callDate.toLocaleDateString()}
-
-Return ONLY valid JSON with these exact fields:
-{
-  "title": "Meeting title (3-8 words)",
-  "summary": "2-3 sentence executive summary",
-  "sections": [{"topic": "...", "timestamp": "...", "notes": ["..."], "relatedTranscript": "..."}],
-  "actionItems": [{"item": "...", "assignee": "...", "dueDate": "...", "priority": "high|medium|low"}],
-  "decisions": [{"decision": "...", "context": "...", "timestamp": "..."}],
-  "keyPoints": ["..."],
-  "questionsRaised": ["..."],
-  "nextSteps": ["..."],
-  "suggestedFollowUp": "..."
-}`;
-
-    const userPrompt = `Complete meeting transcript:\n${transcriptText}\n\nGenerate comprehensive meeting notes.`;
-
-    const generatedText = await generateFreeText(systemPrompt, userPrompt, 2000);
-    
-    // Extract JSON from response
-    const jsonMatch = generatedText.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      try {
-        const notes = JSON.parse(jsonMatch[0]);
-        console.log('[FREE AI] ✅ Comprehensive notes generated');
-        return {
-          title: notes.title || 'Meeting Notes',
-          summary: notes.summary || '',
-          sections: notes.sections || [],
-          actionItems: notes.actionItems || [],
-          decisions: notes.decisions || [],
-          keyPoints: notes.keyPoints || [],
-          questionsRaised: notes.questionsRaised || [],
-          nextSteps: notes.nextSteps || [],
-          suggestedFollowUp: notes.suggestedFollowUp,
-        };
-      } catch (parseError) {
-        console.warn('[FREE AI] ⚠️ Failed to parse JSON, using extraction');
-      }
-    }
-    
-    // Fallback to basic extraction
-    return {
-      title: 'Meeting Notes',
-      summary: transcriptText.substring(0, 200) + '...',
-      sections: [],
-      actionItems: [],
-      decisions: [],
-      keyPoints: [],
-      questionsRaised: [],
-      nextSteps: [],
-    };
-  } catch (error: any) {
-    console.error('[FREE AI] ❌ Comprehensive notes error:', error);
-    return {
-      title: 'Meeting Notes',
-      summary: 'Notes generation temporarily unavailable.',
-      sections: [],
-      actionItems: [],
-      decisions: [],
-      keyPoints: [],
-      questionsRaised: [],
-      nextSteps: [],
-    };
-  }
-};
-
 /**
  * Check if free AI is available (always true, but may have rate limits)
  */
@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { ICallSession } from '../models/CallSession';
+import { getSharedStore, SHARED_STORE_PREFIX } from './sharedStore';
+import { deriveSecret } from './jwt';
+import { getClientBaseUrl } from './clientUrl';
+
+/**
+ * Signed guest invite links: the only way into a call without an account.
+ *
+ * The host signs a link for one room; whoever opens it picks a display name
+ * and trades the invite for a guest token, which the socket accepts instead
+ * of an access token. A guest can only be in that room and can't use the
+ * paid AI features. Removing a guest from the call also revokes the link
+ * they came in with.
+ *
+ * Environment:
+ * - GUEST_INVITE_TTL_HOURS: how long an invite link works (default 24)
+ * - GUEST_TOKEN_TTL_HOURS: how long a guest stays signed in (default 8)
+ */
+
+const INVITE_TTL_SECONDS = Number(process.env.GUEST_INVITE_TTL_HOURS || 24) * 3600;
+const GUEST_TOKEN_TTL_SECONDS = Number(process.env.GUEST_TOKEN_TTL_HOURS || 8) * 3600;
+
+export interface GuestIdentity {
+  guestId: string;
+  name: string;
+  roomId: string;
+  inviteId: string;
+  exp: number;
+}
+
+export class GuestInviteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GuestInviteError';
+  }
+}
+
+// Their own key, so neither an invite nor a guest token passes for an access token
+const guestKey = () => deriveSecret('guest-invite');
+
+const revokedKey = (inviteId: string) => `${SHARED_STORE_PREFIX}guest-invite:revoked:${inviteId}`;
+const guestInviteKey = (guestId: string) => `${SHARED_STORE_PREFIX}guest:${guestId}:invite`;
+
+export const isGuestId = (userId: string) => userId.startsWith('guest-');
+
+export function createGuestInvite(
+  callSession: ICallSession,
+  invitedBy: string
+): { invite: string; url: string; expiresAt: Date } {
+  const invite = jwt.sign(
+    { purpose: 'guest_invite', roomId: callSession.roomId, invitedBy },
+    guestKey(),
+    { expiresIn: INVITE_TTL_SECONDS, jwtid: crypto.randomUUID() }
+  );
+  const url = `${getClientBaseUrl()}/join/${encodeURIComponent(callSession.roomId)}?invite=${encodeURIComponent(invite)}`;
+  console.log(`[GUEST] 🔗 ${invitedBy} created a guest invite for room ${callSession.roomId}`);
+  return { invite, url, expiresAt: new Date(Date.now() + INVITE_TTL_SECONDS * 1000) };
+}
+
+export function readGuestInvite(invite: string): { roomId: string; inviteId: string; exp: number } {
+  let payload: { purpose: string; roomId: string; jti: string; exp: number };
+  try {
+    payload = jwt.verify(invite, guestKey()) as typeof payload;
+  } catch {
+    throw new GuestInviteError('This invite link has expired or is invalid');
+  }
+  if (payload.purpose !== 'guest_invite') throw new GuestInviteError('This invite link is invalid');
+  return { roomId: payload.roomId, inviteId: payload.jti, exp: payload.exp };
+}
+
+// A guest identity for whoever opened the link; lasts no longer than the invite
+export async function redeemGuestInvite(
+  invite: string,
+  name: string
+): Promise<{ guestToken: string; guest: { id: string; name: string }; roomId: string; expiresAt: Date }> {
+  const { roomId, inviteId, exp } = readGuestInvite(invite);
+  if (await isInviteRevoked(inviteId)) throw new GuestInviteError('This invite link was revoked');
+
+  const guestId = `guest-${crypto.randomBytes(9).toString('base64url')}`;
+  const expiresAt = Math.min(exp, Math.floor(Date.now() / 1000) + GUEST_TOKEN_TTL_SECONDS);
+  const guestToken = jwt.sign(
+    { purpose: 'guest', guestId, name, roomId, inviteId, exp: expiresAt },
+    guestKey()
+  );
+  // Kicking the guest later has to find the link they used
+  await getSharedStore().set(guestInviteKey(guestId), inviteId, INVITE_TTL_SECONDS * 1000);
+
+  console.log(`[GUEST] 🎟️ ${guestId} (${name}) joined through an invite to room ${roomId}`);
+  return { guestToken, guest: { id: guestId, name }, roomId, expiresAt: new Date(expiresAt * 1000) };
+}
+
+export async function verifyGuestToken(token: string): Promise<GuestIdentity> {
+  let payload: GuestIdentity & { purpose: string };
+  try {
+    payload = jwt.verify(token, guestKey()) as typeof payload;
+  } catch (error: any) {
+    throw new GuestInviteError(error.name === 'TokenExpiredError' ? 'Guest access expired' : 'Invalid guest token');
+  }
+  if (payload.purpose !== 'guest' || !isGuestId(payload.guestId || '')) {
+    throw new GuestInviteError('Invalid guest token');
+  }
+  if (await isInviteRevoked(payload.inviteId)) throw new GuestInviteError('Guest access was revoked');
+  return payload;
+}
+
+export async function isInviteRevoked(inviteId: string): Promise<boolean> {
+  return !!(await getSharedStore().get(revokedKey(inviteId)));
+}
+
+// Removed since they joined (a guest we have no record of counts as removed)
+export async function isGuestRevoked(guestId: string): Promise<boolean> {
+  const inviteId = await getSharedStore().get(guestInviteKey(guestId));
+  return !inviteId || await isInviteRevoked(inviteId);
+}
+
+// The guest is out, and so is anyone else still holding their link
+export async function revokeGuestAccess(guestId: string): Promise<void> {
+  const inviteId = await getSharedStore().get(guestInviteKey(guestId));
+  if (!inviteId) return;
+  await getSharedStore().set(revokedKey(inviteId), '1', INVITE_TTL_SECONDS * 1000);
+  console.log(`[GUEST] 🚫 Invite ${inviteId} revoked with the removal of ${guestId}`);
+}
@@ -0,0 +1,123 @@
+import crypto from 'crypto';
+
+/**
+ * ICE servers for WebRTC, with short-lived TURN credentials.
+ *
+ * Credentials follow the TURN REST API scheme (coturn `use-auth-secret`):
+ * the username is `<expiry unix time>:<userId>` and the password is the
+ * base64 HMAC-SHA1 of the username with the secret shared with the TURN
+ * server, so nothing has to be provisioned per user and a leaked credential
+ * stops working on its own.
+ *
+ * STUN_URLS      comma-separated STUN URLs (default: Google's public STUN)
+ * TURN_URLS      comma-separated TURN URLs of a single region
+ * TURN_SECRET    shared secret for TURN_URLS
+ * TURN_REGIONS   JSON array of `{ "region", "urls": [...], "secret"? }` for
+ *                several regions (a region without a secret uses TURN_SECRET)
+ * TURN_DEFAULT_REGION          region handed out when the client doesn't ask (default: the first)
+ * TURN_CREDENTIAL_TTL_SECONDS  credential lifetime (default 3600)
+ */
+
+export interface IceServer {
+  urls: string[];
+  username?: string;
+  credential?: string;
+}
+
+export interface IceServerConfig {
+  iceServers: IceServer[];
+  region: string | null; // TURN region the credentials are for
+  regions: string[]; // Every configured region
+  ttl: number; // Seconds
+  expiresAt: string;
+}
+
+interface TurnRegion {
+  region: string;
+  urls: string[];
+  secret: string;
+}
+
+const DEFAULT_STUN_URLS = [
+  'stun:stun.l.google.com:19302',
+  'stun:stun1.l.google.com:19302',
+  'stun:stun2.l.google.com:19302',
+];
+
+const CREDENTIAL_TTL_SECONDS = Math.max(60, Number(process.env.TURN_CREDENTIAL_TTL_SECONDS || 3600));
+
+const splitUrls = (value: string | undefined): string[] =>
+  (value || '').split(',').map(url => url.trim()).filter(Boolean);
+
+let turnRegions: TurnRegion[] | null = null;
+
+const getTurnRegions = (): TurnRegion[] => {
+  if (turnRegions) return turnRegions;
+
+  const regions: TurnRegion[] = [];
+  const fallbackSecret = process.env.TURN_SECRET || '';
+  if (process.env.TURN_REGIONS) {
+    try {
+      const parsed = JSON.parse(process.env.TURN_REGIONS);
+      for (const entry of Array.isArray(parsed) ? parsed : []) {
+        const urls = Array.isArray(entry?.urls) ? entry.urls.filter((u: unknown) => typeof u === 'string') : splitUrls(entry?.urls);
+        const secret = typeof entry?.secret === 'string' ? entry.secret : fallbackSecret;
+        if (typeof entry?.region === 'string' && urls.length > 0 && secret) {
+          regions.push({ region: entry.region, urls, secret });
+        } else {
+          console.warn('[ICE] ⚠️ Ignoring TURN region without a name, urls or secret:', entry?.region);
+        }
+      }
+    } catch (error: any) {
+      console.error('[ICE] ❌ TURN_REGIONS is not valid JSON:', error.message);
+    }
+  } else if (process.env.TURN_URLS && fallbackSecret) {
+    regions.push({ region: 'default', urls: splitUrls(process.env.TURN_URLS), secret: fallbackSecret });
+  }
+
+  turnRegions = regions;
+  return regions;
+};
+
+// TURN REST API credential for `userId`, valid until `expiresAt` (unix seconds)
+export const turnCredential = (secret: string, userId: string, expiresAt: number) => {
+  const username = `${expiresAt}:${userId}`;
+  const credential = crypto.createHmac('sha1', secret).update(username).digest('base64');
+  return { username, credential };
+};
+
+const pickRegion = (regions: TurnRegion[], requested?: string): TurnRegion | null => {
+  if (regions.length === 0) return null;
+  return regions.find(r => r.region === requested)
+    || regions.find(r => r.region === process.env.TURN_DEFAULT_REGION)
+    || regions[0];
+};
+
+export function getIceServers(userId: string, region?: string): IceServerConfig {
+  const regions = getTurnRegions();
+  const expiresAt = Math.floor(Date.now() / 1000) + CREDENTIAL_TTL_SECONDS;
+
+  const iceServers: IceServer[] = [];
+  const stunUrls = process.env.STUN_URLS !== undefined ? splitUrls(process.env.STUN_URLS) : DEFAULT_STUN_URLS;
+  if (stunUrls.length > 0) iceServers.push({ urls: stunUrls });
+
+  const turn = pickRegion(regions, region);
+  if (turn) {
+    iceServers.push({ urls: turn.urls, ...turnCredential(turn.secret, userId, expiresAt) });
+  }
+
+  return {
+    iceServers,
+    region: turn?.region || null,
+    regions: regions.map(r => r.region),
+    ttl: CREDENTIAL_TTL_SECONDS,
+    expiresAt: new Date(expiresAt * 1000).toISOString(),
+  };
+}
+
+export const getIceServerStatus = () => ({
+  turn: getTurnRegions().length > 0,
+  regions: getTurnRegions().map(r => r.region),
+  defaultRegion: pickRegion(getTurnRegions())?.region || null,
+  credentialTtlSeconds: CREDENTIAL_TTL_SECONDS,
+});
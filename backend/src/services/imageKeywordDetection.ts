@@ -1,24 +1,4 @@
-import { getOpenAI } from './openai';
-
-// Helper to check if error is a quota/rate limit error
-const isQuotaError = (error: any): boolean => {
-  if (!error) return false;
-  
-  if (error.status === 429 || error.code === 'insufficient_quota' || error.type === 'insufficient_quota') {
-    return true;
-  }
-  
-  const errorMessage = error.message?.toLowerCase() || '';
-  if (errorMessage.includes('quota') || errorMessage.includes('insufficient_quota') || errorMessage.includes('rate_limit')) {
-    return true;
-  }
-  
-  if (error.error?.code === 'insufficient_quota' || error.error?.type === 'insufficient_quota') {
-    return true;
-  }
-  
-  return false;
-};
+import { completeJSON, completeText } from './llm';
 
 /**
  * Keywords that trigger automatic image generation
@@ -91,61 +71,11 @@ export async function detectVisualConcept(
     };
   }
 
-  // Advanced detection using free AI first, then OpenAI fallback
+  // Advanced detection through the AI provider chain
   if (fullContext.length > 50) {
-    try {
-      const { generateFreeText } = await import('./freeAI');
-      const systemPrompt = `You are an AI assistant that detects when conversations contain visual concepts that would benefit from image generation.
-
-Analyze the conversation and determine if it contains:
-1. Visual descriptions (colors, shapes, objects, scenes)
-2. Creative concepts (designs, logos, artwork, architecture)
-3. Imaginary scenarios (dreams, visions, fantasies)
-4. Requests for visualizations ("show me", "imagine", "picture")
-
-Respond with JSON:
-{
-  "shouldGenerate": boolean,
-  "prompt": "extracted image prompt or null",
-  "confidence": number (0-1),
-  "reason": "brief explanation"
-}`;
-      
-      const userPrompt = `Analyze this conversation for visual concepts:\n\n${fullContext.substring(-500)}`;
-      
-      const generatedText = await generateFreeText(systemPrompt, userPrompt, 200);
-      const jsonMatch = generatedText.match(/\{[\s\S]*\}/);
-      
-      if (jsonMatch) {
-        try {
-          const result = JSON.parse(jsonMatch[0]);
-          if (result.shouldGenerate === true) {
-            console.log('[IMAGE DETECTION] ✅ Free AI detected visual concept');
-            return {
-              shouldGenerate: true,
-              prompt: result.prompt || undefined,
-              confidence: result.confidence || 0.7,
-            };
-          }
-        } catch (parseError) {
-          console.warn('[IMAGE DETECTION] Failed to parse free AI response');
-        }
-      }
-    } catch (freeError) {
-      console.warn('[IMAGE DETECTION] Free AI detection failed, trying OpenAI:', freeError);
-    }
-    
-    // Fallback to OpenAI if free AI fails
-    const openai = getOpenAI();
-    if (openai) {
-      try {
-        const aiDetection = await detectVisualConceptWithAI(fullContext, openai);
-        if (aiDetection.shouldGenerate) {
-          return aiDetection;
-        }
-      } catch (error) {
-        console.warn('[IMAGE DETECTION] OpenAI detection failed, using basic detection:', error);
-      }
+    const aiDetection = await detectVisualConceptWithAI(fullContext);
+    if (aiDetection.shouldGenerate) {
+      return aiDetection;
     }
   }
 
@@ -196,12 +126,14 @@ function extractImagePrompt(context: string, currentText: string): string {
  * Use AI to detect visual concepts with higher accuracy
  */
 async function detectVisualConceptWithAI(
-  context: string,
-  openai: any
+  context: string
 ): Promise<{ shouldGenerate: boolean; prompt?: string; confidence: number }> {
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o',
+    const { data: result, response } = await completeJSON<{
+      shouldGenerate?: boolean;
+      prompt?: string | null;
+      confidence?: number;
+    }>('imageDetection', {
       messages: [
         {
           role: 'system',
@@ -226,27 +158,21 @@ Respond with JSON:
           content: `Analyze this conversation for visual concepts:\n\n${context.substring(-500)}`,
         },
       ],
-      response_format: { type: 'json_object' },
-      max_tokens: 200,
+      maxTokens: 200,
       temperature: 0.3,
     });
 
-    const content = response.choices[0]?.message?.content;
-    if (content) {
-      const result = JSON.parse(content);
-      return {
-        shouldGenerate: result.shouldGenerate === true,
-        prompt: result.prompt || undefined,
-        confidence: result.confidence || 0.5,
-      };
+    if (result.shouldGenerate === true) {
+      console.log(`[IMAGE DETECTION] ✅ ${response.provider} detected visual concept`);
     }
+    return {
+      shouldGenerate: result.shouldGenerate === true,
+      prompt: result.prompt || undefined,
+      confidence: result.confidence || 0.5,
+    };
   } catch (error: any) {
-    // If quota exceeded, gracefully fall back to basic detection
-    if (isQuotaError(error)) {
-      console.warn('[IMAGE DETECTION] ⚠️ OpenAI quota exceeded - using basic keyword detection');
-    } else {
-      console.error('[IMAGE DETECTION] AI detection error:', error);
-    }
+    // No provider could answer - fall back to basic keyword detection
+    console.warn('[IMAGE DETECTION] ⚠️ AI detection unavailable - using basic keyword detection:', error.message);
   }
 
   return { shouldGenerate: false, confidence: 0 };
@@ -259,61 +185,32 @@ export async function generateImagePromptFromContext(
   transcriptText: string,
   recentSegments?: string[]
 ): Promise<string> {
-  // PRIORITY: Try free AI first
-  try {
-    const { generateFreeText } = await import('./freeAI');
-    const context = recentSegments 
-      ? [...recentSegments, transcriptText].join(' ')
-      : transcriptText;
-
-    const systemPrompt = 'You are a creative AI that generates vivid, imaginative image prompts from conversations. Extract the main visual concept and create a detailed, artistic image prompt. Focus on colors, mood, style, and key visual elements. Output only the image prompt, nothing else.';
-    const userPrompt = `Generate an image prompt from this conversation:\n\n${context.substring(-500)}`;
-    
-    const prompt = await generateFreeText(systemPrompt, userPrompt, 200);
-    if (prompt && prompt.length > 10) {
-      console.log('[IMAGE DETECTION] ✅ Free AI generated prompt');
-      return prompt.trim();
-    }
-  } catch (freeError) {
-    console.warn('[IMAGE DETECTION] Free AI prompt generation failed, trying OpenAI:', freeError);
-  }
-  
-  // Fallback to OpenAI
-  const openai = getOpenAI();
-  if (openai) {
-    try {
-      const context = recentSegments 
-        ? [...recentSegments, transcriptText].join(' ')
-        : transcriptText;
+  const context = recentSegments 
+    ? [...recentSegments, transcriptText].join(' ')
+    : transcriptText;
 
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4o',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a creative AI that generates vivid, imaginative image prompts from conversations. Extract the main visual concept and create a detailed, artistic image prompt. Focus on colors, mood, style, and key visual elements. Output only the image prompt, nothing else.',
-          },
-          {
-            role: 'user',
-            content: `Generate an image prompt from this conversation:\n\n${context.substring(-500)}`,
-          },
-        ],
-        max_tokens: 200,
-        temperature: 0.7,
-      });
+  try {
+    const { text } = await completeText('imagePrompt', {
+      messages: [
+        {
+          role: 'system',
+          content: 'You are a creative AI that generates vivid, imaginative image prompts from conversations. Extract the main visual concept and create a detailed, artistic image prompt. Focus on colors, mood, style, and key visual elements. Output only the image prompt, nothing else.',
+        },
+        {
+          role: 'user',
+          content: `Generate an image prompt from this conversation:\n\n${context.substring(-500)}`,
+        },
+      ],
+      maxTokens: 200,
+      temperature: 0.7,
+    });
 
-      const prompt = response.choices[0]?.message?.content?.trim();
-      if (prompt && prompt.length > 10) {
-        return prompt;
-      }
-    } catch (error: any) {
-      // If quota exceeded, gracefully fall back to simple extraction
-      if (isQuotaError(error)) {
-        console.warn('[IMAGE DETECTION] ⚠️ OpenAI quota exceeded - using simple prompt extraction');
-      } else {
-        console.error('[IMAGE DETECTION] OpenAI prompt generation error:', error);
-      }
+    const prompt = text.trim();
+    if (prompt.length > 10) {
+      return prompt;
     }
+  } catch (error: any) {
+    console.warn('[IMAGE DETECTION] ⚠️ AI prompt generation unavailable - using simple prompt extraction:', error.message);
   }
 
   // Fallback: simple extraction
@@ -0,0 +1,108 @@
+import { Server } from 'socket.io';
+import { CallSession } from '../models/CallSession';
+import { Transcript } from '../models/Transcript';
+import { Contact } from '../models/Contact';
+import { User } from '../models/User';
+import { registerJobHandler, PermanentJobError } from './jobQueue';
+import { generateContactContext } from './contactContext';
+import { findMatches, MatchSourceNotFoundError } from './matching';
+import { composeCallRecording, isRecorderAvailable } from './callRecorder';
+import {
+  generateComprehensivePostCallSummary,
+  fallbackToBasicNotes,
+  generateImageFromTranscript,
+} from '../socket/index';
+
+// What each background job kind does; registered before the worker starts
+export const registerJobHandlers = (io: Server) => {
+  const loadCall = async (callId: string) => {
+    const callSession = await CallSession.findById(callId);
+    if (!callSession) throw new PermanentJobError('Call not found');
+    const transcript = await Transcript.findOne({ callId });
+    return { callSession, transcript };
+  };
+
+  registerJobHandler('call.summary', {
+    concurrency: 2,
+    maxAttempts: 3,
+    backoffMs: 10000,
+    run: async ({ callId }) => {
+      const { callSession, transcript } = await loadCall(callId);
+      if (!transcript) return { skipped: 'no_transcript' };
+      return generateComprehensivePostCallSummary(callId, callSession, transcript, io);
+    },
+    onDead: async ({ callId }) => {
+      const { callSession, transcript } = await loadCall(callId);
+      await fallbackToBasicNotes(callId, callSession, transcript, io);
+    },
+  });
+
+  // Images belong to the live call, so give up quickly
+  registerJobHandler('call.image', {
+    concurrency: 1,
+    maxAttempts: 2,
+    backoffMs: 3000,
+    timeoutMs: 3 * 60 * 1000,
+    run: async ({ callId, roomId, prompt, userId, userName }) => {
+      await generateImageFromTranscript(callId, prompt, userId, userName, io, roomId);
+    },
+    onDead: async ({ roomId, prompt }, _job, error) => {
+      io.to(roomId).emit('image:generation:error', {
+        error: error.message || 'Failed to generate image',
+        prompt: prompt.substring(0, 100),
+      });
+    },
+  });
+
+  // ffmpeg work; one at a time so calls don't starve each other of CPU
+  registerJobHandler('call.recording', {
+    concurrency: 1,
+    maxAttempts: 3,
+    backoffMs: 30000,
+    timeoutMs: 45 * 60 * 1000,
+    run: async ({ callId }) => {
+      if (!isRecorderAvailable()) throw new PermanentJobError('ffmpeg is not available');
+      return composeCallRecording(callId, io);
+    },
+  });
+
+  registerJobHandler('contact.context', {
+    concurrency: 2,
+    maxAttempts: 3,
+    backoffMs: 30000,
+    run: async ({ contactId }) => {
+      const contact = await Contact.findById(contactId);
+      if (!contact || !contact.conversationId) throw new PermanentJobError('Contact not found');
+
+      const contactUser = await User.findById(contact.contactUserId).select('name');
+      const context = await generateContactContext(
+        contactUser?.name || 'Contact',
+        contact.userId.toString(),
+        contact.contactUserId.toString(),
+        contact.conversationId.toString()
+      );
+      contact.aiContext = {
+        summary: context.summary,
+        keyTopics: context.keyTopics,
+        relationship: context.relationship,
+        lastUpdated: new Date(),
+      };
+      await contact.save();
+      return { summary: context.summary };
+    },
+  });
+
+  registerJobHandler('network.match', {
+    concurrency: 1,
+    maxAttempts: 3,
+    backoffMs: 15000,
+    run: async ({ userId, entityType, entityId }) => {
+      try {
+        return { matches: await findMatches(userId, entityType, entityId) };
+      } catch (error) {
+        if (error instanceof MatchSourceNotFoundError) throw new PermanentJobError(error.message);
+        throw error;
+      }
+    },
+  });
+};
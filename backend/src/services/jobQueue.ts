@@ -0,0 +1,267 @@
+import os from 'os';
+import mongoose from 'mongoose';
+import { Job, IJob, JobKind } from '../models/Job';
+
+/**
+ * Persistent background jobs (AI post-processing) backed by MongoDB.
+ *
+ * Work is enqueued with a typed payload and picked up by a worker in any
+ * backend instance. A failed attempt is retried with exponential backoff;
+ * once its attempts are used up (or the handler throws PermanentJobError) the
+ * job is dead-lettered: it stays in the collection with status `dead` and its
+ * last error, and can be retried by hand. Jobs held by a crashed worker are
+ * released once their lock goes stale.
+ *
+ * JOB_CONCURRENCY             jobs run at once per instance (default 4)
+ * JOB_POLL_INTERVAL_MS        how often the queue is polled (default 1000)
+ */
+
+export interface JobPayloads {
+  'call.summary': { callId: string };
+  'call.image': { callId: string; roomId: string; prompt: string; userId: string; userName: string };
+  'call.recording': { callId: string };
+  'contact.context': { contactId: string };
+  'network.match': { userId: string; entityType: 'vision' | 'offer'; entityId: string };
+}
+
+export interface JobHandler<K extends JobKind> {
+  run(payload: JobPayloads[K], job: IJob): Promise<unknown>; // Resolved value is stored as the result
+  onDead?(payload: JobPayloads[K], job: IJob, error: Error): Promise<void>;
+  concurrency?: number; // Per instance (default 1)
+  maxAttempts?: number; // Default 3
+  backoffMs?: number; // First retry delay, doubled every attempt (default 5s)
+  timeoutMs?: number; // A running job is presumed lost after this (default 10 min)
+}
+
+export interface EnqueueOptions {
+  ownerIds?: string[]; // Users who may see the job's status
+  subject?: string;
+  dedupeKey?: string; // Reuse a job with this key that hasn't started yet
+  delayMs?: number;
+  maxAttempts?: number;
+}
+
+// Thrown by a handler when retrying cannot help (e.g. the call was deleted)
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+const CONCURRENCY = Math.max(1, Number(process.env.JOB_CONCURRENCY || 4));
+const POLL_INTERVAL_MS = Number(process.env.JOB_POLL_INTERVAL_MS || 1000);
+const STALE_CHECK_INTERVAL_MS = 60 * 1000;
+const MAX_BACKOFF_MS = 10 * 60 * 1000;
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+
+const WORKER_ID = `${os.hostname()}:${process.pid}:${Math.random().toString(36).slice(2, 8)}`;
+
+const handlers = new Map<JobKind, JobHandler<any>>();
+const running = new Map<JobKind, number>();
+let pollTimer: NodeJS.Timeout | null = null;
+let polling = false;
+let lastStaleCheck = 0;
+
+export const registerJobHandler = <K extends JobKind>(kind: K, handler: JobHandler<K>) => {
+  handlers.set(kind, handler);
+};
+
+export async function enqueueJob<K extends JobKind>(
+  kind: K,
+  payload: JobPayloads[K],
+  options: EnqueueOptions = {}
+): Promise<IJob> {
+  const ownerIds = (options.ownerIds || []).map(id => new mongoose.Types.ObjectId(id));
+
+  if (options.dedupeKey) {
+    const waiting = await Job.findOneAndUpdate(
+      { dedupeKey: options.dedupeKey, status: { $in: ['queued', 'retrying'] } },
+      { $set: { payload }, $addToSet: { ownerIds: { $each: ownerIds } } },
+      { new: true }
+    );
+    if (waiting) return waiting;
+  }
+
+  const job = await Job.create({
+    kind,
+    payload,
+    ownerIds,
+    subject: options.subject || null,
+    dedupeKey: options.dedupeKey || null,
+    maxAttempts: options.maxAttempts || handlers.get(kind)?.maxAttempts || 3,
+    runAt: new Date(Date.now() + (options.delayMs || 0)),
+  });
+
+  // Start right away if this instance has room
+  if (pollTimer && !options.delayMs) setImmediate(poll);
+  return job;
+}
+
+// Put a dead job back in the queue with fresh attempts
+export async function retryJob(jobId: string): Promise<IJob | null> {
+  const job = await Job.findOneAndUpdate(
+    { _id: jobId, status: 'dead' },
+    {
+      $set: { status: 'queued', attempts: 0, runAt: new Date(), deadAt: null, lastError: null },
+    },
+    { new: true }
+  );
+  if (job && pollTimer) setImmediate(poll);
+  return job;
+}
+
+// What the API shows of a job
+export const serializeJob = (job: IJob) => ({
+  id: job._id,
+  kind: job.kind,
+  status: job.status,
+  subject: job.subject,
+  attempts: job.attempts,
+  maxAttempts: job.maxAttempts,
+  nextAttemptAt: job.status === 'retrying' || job.status === 'queued' ? job.runAt : null,
+  lastError: job.lastError,
+  result: job.result,
+  createdAt: job.createdAt,
+  updatedAt: job.updatedAt,
+  completedAt: job.completedAt,
+  deadAt: job.deadAt,
+});
+
+// Exponential backoff with some jitter so failing jobs don't retry in lockstep
+const backoffFor = (handler: JobHandler<any>, attempts: number) => {
+  const base = (handler.backoffMs ?? 5000) * Math.pow(2, Math.max(0, attempts - 1));
+  return Math.min(MAX_BACKOFF_MS, Math.round(base * (0.8 + Math.random() * 0.4)));
+};
+
+const runningTotal = () => Array.from(running.values()).reduce((sum, n) => sum + n, 0);
+
+async function claimNext(): Promise<IJob | null> {
+  const available = Array.from(handlers.entries())
+    .filter(([kind, handler]) => (running.get(kind) || 0) < (handler.concurrency ?? 1))
+    .map(([kind]) => kind);
+  if (available.length === 0) return null;
+
+  const now = new Date();
+  return Job.findOneAndUpdate(
+    { status: { $in: ['queued', 'retrying'] }, runAt: { $lte: now }, kind: { $in: available } },
+    { $set: { status: 'running', lockedAt: now, lockedBy: WORKER_ID }, $inc: { attempts: 1 } },
+    { sort: { runAt: 1 }, new: true }
+  );
+}
+
+async function execute(job: IJob) {
+  const handler = handlers.get(job.kind)!;
+  const held = { _id: job._id, status: 'running', lockedBy: WORKER_ID };
+
+  try {
+    const result = await handler.run(job.payload as any, job);
+    await Job.updateOne(held, {
+      $set: { status: 'completed', result: result ?? null, completedAt: new Date(), lockedAt: null, lockedBy: null, lastError: null },
+    });
+    console.log(`[JOBS] ✅ ${job.kind} ${job._id} completed (attempt ${job.attempts})`);
+  } catch (err: any) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    const dead = error instanceof PermanentJobError || job.attempts >= job.maxAttempts;
+
+    if (dead) {
+      await Job.updateOne(held, {
+        $set: { status: 'dead', deadAt: new Date(), lastError: error.message, lockedAt: null, lockedBy: null },
+      });
+      console.error(`[JOBS] ❌ ${job.kind} ${job._id} dead after ${job.attempts} attempt(s):`, error.message);
+      try {
+        await handler.onDead?.(job.payload as any, job, error);
+      } catch (deadError) {
+        console.error(`[JOBS] ❌ ${job.kind} ${job._id} dead-letter handler failed:`, deadError);
+      }
+    } else {
+      const delay = backoffFor(handler, job.attempts);
+      await Job.updateOne(held, {
+        $set: {
+          status: 'retrying',
+          runAt: new Date(Date.now() + delay),
+          lastError: error.message,
+          lockedAt: null,
+          lockedBy: null,
+        },
+      });
+      console.warn(`[JOBS] ⚠️ ${job.kind} ${job._id} attempt ${job.attempts}/${job.maxAttempts} failed, retrying in ${Math.round(delay / 1000)}s:`, error.message);
+    }
+  }
+}
+
+// Release jobs whose worker went away mid-run
+async function releaseStaleJobs() {
+  for (const [kind, handler] of handlers) {
+    const staleBefore = new Date(Date.now() - (handler.timeoutMs ?? DEFAULT_TIMEOUT_MS));
+    const stale = { kind, status: 'running', lockedAt: { $lt: staleBefore } };
+    const lostMessage = 'Worker stopped before the job finished';
+
+    await Job.updateMany(
+      { ...stale, $expr: { $gte: ['$attempts', '$maxAttempts'] } },
+      { $set: { status: 'dead', deadAt: new Date(), lastError: lostMessage, lockedAt: null, lockedBy: null } }
+    );
+    const released = await Job.updateMany(stale, {
+      $set: { status: 'retrying', runAt: new Date(), lastError: lostMessage, lockedAt: null, lockedBy: null },
+    });
+    if (released.modifiedCount > 0) {
+      console.warn(`[JOBS] ⚠️ Released ${released.modifiedCount} stale ${kind} job(s)`);
+    }
+  }
+}
+
+async function poll() {
+  if (polling || mongoose.connection.readyState !== 1) return;
+  polling = true;
+  try {
+    if (Date.now() - lastStaleCheck >= STALE_CHECK_INTERVAL_MS) {
+      lastStaleCheck = Date.now();
+      await releaseStaleJobs();
+    }
+
+    while (runningTotal() < CONCURRENCY) {
+      const job = await claimNext();
+      if (!job) break;
+
+      running.set(job.kind, (running.get(job.kind) || 0) + 1);
+      execute(job)
+        .catch((error) => console.error(`[JOBS] ❌ ${job.kind} ${job._id} bookkeeping failed:`, error))
+        .finally(() => {
+          running.set(job.kind, (running.get(job.kind) || 1) - 1);
+          // A slot opened up: look for more work without waiting for the next tick
+          setImmediate(poll);
+        });
+    }
+  } catch (error) {
+    console.error('[JOBS] ❌ Poll error:', error);
+  } finally {
+    polling = false;
+  }
+}
+
+export const startJobWorker = () => {
+  if (pollTimer) return;
+  pollTimer = setInterval(poll, POLL_INTERVAL_MS);
+  pollTimer.unref();
+  poll();
+  console.log(`✅ Job worker started (${CONCURRENCY} at a time: ${Array.from(handlers.keys()).join(', ')})`);
+};
+
+export const stopJobWorker = () => {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+};
+
+export const getJobQueueStatus = () => ({
+  worker: WORKER_ID,
+  concurrency: CONCURRENCY,
+  running: Object.fromEntries(running),
+  kinds: Object.fromEntries(
+    Array.from(handlers.entries()).map(([kind, handler]) => [kind, {
+      concurrency: handler.concurrency ?? 1,
+      maxAttempts: handler.maxAttempts ?? 3,
+    }])
+  ),
+});
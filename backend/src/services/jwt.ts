@@ -1,30 +1,40 @@
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 
 // Read secrets dynamically to ensure .env is loaded
-const getJWTSecret = () => process.env.JWT_SECRET || 'default-secret-change-me';
+export const getJWTSecret = () => process.env.JWT_SECRET || 'default-secret-change-me';
 const getJWTRefreshSecret = () => process.env.JWT_REFRESH_SECRET || 'refresh-secret-change-me';
 const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '24h'; // Increased to 24 hours
 const JWT_REFRESH_EXPIRES_IN = process.env.JWT_REFRESH_EXPIRES_IN || '30d';
 
+// A key of its own for other signed tokens, so none of them passes for an access token
+export const deriveSecret = (purpose: string): string =>
+  crypto.createHmac('sha256', getJWTSecret()).update(purpose).digest('hex');
+
 export interface TokenPayload {
   userId: string;
   email: string;
+  sessionId?: string; // The device session (models/Session.ts) the tokens belong to
 }
 
 export const generateAccessToken = (payload: TokenPayload): string => {
   return jwt.sign(payload, getJWTSecret(), { expiresIn: JWT_EXPIRES_IN } as jwt.SignOptions);
 };
 
+// Unique id per token, so every rotation yields a different refresh token
 export const generateRefreshToken = (payload: TokenPayload): string => {
-  return jwt.sign(payload, getJWTRefreshSecret(), { expiresIn: JWT_REFRESH_EXPIRES_IN } as jwt.SignOptions);
+  return jwt.sign(payload, getJWTRefreshSecret(), {
+    expiresIn: JWT_REFRESH_EXPIRES_IN,
+    jwtid: crypto.randomUUID(),
+  } as jwt.SignOptions);
 };
 
 export const verifyAccessToken = (token: string): TokenPayload => {
   return jwt.verify(token, getJWTSecret()) as TokenPayload;
 };
 
-export const verifyRefreshToken = (token: string): TokenPayload => {
-  return jwt.verify(token, getJWTRefreshSecret()) as TokenPayload;
+export const verifyRefreshToken = (token: string): TokenPayload & { exp: number } => {
+  return jwt.verify(token, getJWTRefreshSecret()) as TokenPayload & { exp: number };
 };
 
 export const generateTokenPair = (payload: TokenPayload) => {
@@ -0,0 +1,510 @@
+import fs from 'fs';
+import { getOpenAI, isOpenAIConfigured } from './openai';
+import { generateFreeText } from './freeAI';
+import { createOllamaProvider } from './ollama';
+
+/**
+ * Text generation providers.
+ *
+ * Every AI feature asks for a completion by feature name; this module picks
+ * the model, walks the provider chain until one succeeds and keeps a token
+ * ledger. Any provider error (quota, rate limit, network, bad JSON) simply
+ * moves on to the next provider, so callers only ever handle
+ * LLMUnavailableError.
+ *
+ * LLM_PROVIDER               default chain (default `huggingface,openai`)
+ * LLM_PROVIDER_<FEATURE>     chain for one feature, e.g. LLM_PROVIDER_MATCHING=ollama
+ * LLM_MODEL_<FEATURE>        model for one feature; `model` for every provider
+ *                            or `provider:model,...`, e.g. `openai:gpt-4o-mini,ollama:llama3.2:3b`
+ * LLM_MOCK_SCRIPT            JSON file of scripted replies for the `mock` provider
+ */
+
+export type LLMProviderName = 'openai' | 'huggingface' | 'ollama' | 'mock';
+
+export type LLMFeature =
+  | 'notes'
+  | 'finalSummary'
+  | 'comprehensiveNotes'
+  | 'chat'
+  | 'callCommand'
+  | 'contactContext'
+  | 'matching'
+  | 'imageDetection'
+  | 'imagePrompt';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimated: boolean; // Provider didn't report usage, counted from text length
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  json?: boolean; // Ask for a single JSON object
+  temperature?: number;
+  maxTokens?: number;
+  userId?: string; // Who the usage is attributed to
+}
+
+export interface LLMProviderRequest {
+  feature: LLMFeature;
+  model: string;
+  messages: LLMMessage[];
+  json: boolean;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface LLMProviderResult {
+  text: string;
+  usage?: Omit<LLMUsage, 'estimated'>;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  defaultModel: string;
+  isAvailable(): boolean;
+  complete(request: LLMProviderRequest): Promise<LLMProviderResult>;
+  // Native streaming; providers without it are streamed word by word after completion
+  stream?(request: LLMProviderRequest, onChunk: (chunk: string) => void): Promise<LLMProviderResult>;
+}
+
+export interface LLMResponse {
+  text: string;
+  provider: LLMProviderName;
+  model: string;
+  usage: LLMUsage;
+}
+
+export class LLMUnavailableError extends Error {
+  constructor(public feature: LLMFeature, public attempts: Array<{ provider: LLMProviderName; error: string }>) {
+    super(`No AI provider could handle "${feature}"`);
+    this.name = 'LLMUnavailableError';
+  }
+}
+
+const DEFAULT_CHAIN = 'huggingface,openai';
+
+// Features that have always gone to OpenAI first keep doing so unless configured
+const FEATURE_CHAINS: Partial<Record<LLMFeature, string>> = {
+  callCommand: 'openai,huggingface',
+  contactContext: 'openai,huggingface',
+  matching: 'openai,huggingface',
+};
+
+// Per-feature model defaults (anything else uses the provider's default model)
+const FEATURE_MODELS: Partial<Record<LLMFeature, Partial<Record<LLMProviderName, string>>>> = {
+  contactContext: { openai: 'gpt-4o-mini' }, // Cheaper model for context generation
+};
+
+// --- Token estimation ---
+
+// Rough English average; good enough for accounting when a provider doesn't report usage
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const estimateUsage = (messages: LLMMessage[], completion: string): Omit<LLMUsage, 'estimated'> => {
+  const promptTokens = estimateTokens(messages.map(m => m.content).join('\n'));
+  const completionTokens = estimateTokens(completion);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+};
+
+// --- Cloud providers ---
+
+const openaiProvider: LLMProvider = {
+  name: 'openai',
+  defaultModel: 'gpt-4o',
+  isAvailable: () => isOpenAIConfigured(),
+  complete: async (request) => {
+    const response = await getOpenAI()!.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+    });
+
+    const text = response.choices[0]?.message?.content;
+    if (!text) {
+      throw new Error('No response from OpenAI');
+    }
+
+    return {
+      text,
+      usage: response.usage && {
+        promptTokens: response.usage.prompt_tokens,
+        completionTokens: response.usage.completion_tokens,
+        totalTokens: response.usage.total_tokens,
+      },
+    };
+  },
+  stream: async (request, onChunk) => {
+    const stream = await getOpenAI()!.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+
+    let text = '';
+    let usage: LLMProviderResult['usage'];
+    for await (const chunk of stream) {
+      const content = chunk.choices[0]?.delta?.content || '';
+      if (content) {
+        text += content;
+        onChunk(content);
+      }
+      if (chunk.usage) {
+        usage = {
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+          totalTokens: chunk.usage.total_tokens,
+        };
+      }
+    }
+    return { text, usage };
+  },
+};
+
+const huggingFaceProvider: LLMProvider = {
+  name: 'huggingface',
+  defaultModel: 'meta-llama/Llama-3.2-3B-Instruct',
+  // Public models work without a key (rate limited)
+  isAvailable: () => true,
+  complete: async (request) => {
+    // The instruct template takes one system and one user turn; earlier turns become a transcript
+    const system = request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const turns = request.messages.filter(m => m.role !== 'system');
+    const user = turns.length === 1
+      ? turns[0].content
+      : `${turns.map(m => `${m.role === 'assistant' ? 'Assistant' : 'User'}: ${m.content}`).join('\n')}\n\nAssistant:`;
+
+    const text = await generateFreeText(
+      request.json ? `${system}\n\nReturn ONLY valid JSON.` : system,
+      user,
+      request.maxTokens,
+      request.model
+    );
+    if (!text) {
+      throw new Error('Empty response from Hugging Face');
+    }
+    return { text };
+  },
+};
+
+// --- Scripted mock ---
+
+/**
+ * Replies are matched in order against the feature and the last user
+ * message; the first match wins. Without a matching entry the mock answers
+ * deterministically from the prompt ({} for JSON requests).
+ */
+export interface MockLLMScriptEntry {
+  feature?: LLMFeature;
+  match?: string; // Case-insensitive substring or /regex/ of the last user message
+  response: string | object;
+}
+
+let mockScript: MockLLMScriptEntry[] | null = null;
+
+const loadMockScript = (): MockLLMScriptEntry[] => {
+  if (mockScript) return mockScript;
+
+  const file = process.env.LLM_MOCK_SCRIPT;
+  mockScript = [];
+  if (file) {
+    try {
+      const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+      if (Array.isArray(parsed)) {
+        mockScript = parsed;
+      } else {
+        console.warn('[LLM] ⚠️ LLM_MOCK_SCRIPT must contain a JSON array:', file);
+      }
+    } catch (error: any) {
+      console.warn('[LLM] ⚠️ Could not read LLM_MOCK_SCRIPT:', error.message);
+    }
+  }
+  return mockScript;
+};
+
+// Replace the mock's script (tests)
+export const setMockLLMScript = (script: MockLLMScriptEntry[] | null) => {
+  mockScript = script;
+};
+
+const scriptMatches = (entry: MockLLMScriptEntry, feature: LLMFeature, prompt: string) => {
+  if (entry.feature && entry.feature !== feature) return false;
+  if (!entry.match) return true;
+
+  const regex = entry.match.match(/^\/(.+)\/([a-z]*)$/);
+  return regex
+    ? new RegExp(regex[1], regex[2]).test(prompt)
+    : prompt.toLowerCase().includes(entry.match.toLowerCase());
+};
+
+const mockProvider: LLMProvider = {
+  name: 'mock',
+  defaultModel: 'mock',
+  isAvailable: () => true,
+  complete: async (request) => {
+    const prompt = [...request.messages].reverse().find(m => m.role === 'user')?.content || '';
+    const entry = loadMockScript().find(e => scriptMatches(e, request.feature, prompt));
+
+    const text = entry
+      ? typeof entry.response === 'string' ? entry.response : JSON.stringify(entry.response)
+      : request.json ? '{}' : `[mock ${request.feature}] ${prompt.substring(0, 200)}`;
+
+    return { text };
+  },
+};
+
+// --- Registry ---
+
+const providers = new Map<LLMProviderName, LLMProvider>([
+  ['openai', openaiProvider],
+  ['huggingface', huggingFaceProvider],
+  ['ollama', createOllamaProvider()],
+  ['mock', mockProvider],
+]);
+
+// Swap in a custom implementation for a provider name (tests, new backends)
+export const registerLLMProvider = (provider: LLMProvider) => {
+  providers.set(provider.name, provider);
+};
+
+const envKey = (feature: LLMFeature) => feature.replace(/([A-Z])/g, '_$1').toUpperCase();
+
+const chainCache = new Map<LLMFeature, LLMProviderName[]>();
+
+// Provider names for a feature, in fallback order
+export const getLLMChain = (feature: LLMFeature): LLMProviderName[] => {
+  const cached = chainCache.get(feature);
+  if (cached) return cached;
+
+  const configured = process.env[`LLM_PROVIDER_${envKey(feature)}`]
+    || process.env.LLM_PROVIDER
+    || FEATURE_CHAINS[feature]
+    || DEFAULT_CHAIN;
+
+  const chain: LLMProviderName[] = [];
+  for (const name of configured.split(',').map(n => n.trim().toLowerCase()).filter(Boolean)) {
+    if (providers.has(name as LLMProviderName)) {
+      chain.push(name as LLMProviderName);
+    } else {
+      console.warn(`[LLM] ⚠️ Unknown provider "${name}" configured for ${feature} - ignoring`);
+    }
+  }
+
+  chainCache.set(feature, chain);
+  return chain;
+};
+
+// Model for a feature on a provider: LLM_MODEL_<FEATURE>, then built-in defaults
+export const getLLMModel = (feature: LLMFeature, provider: LLMProviderName): string => {
+  const configured = process.env[`LLM_MODEL_${envKey(feature)}`];
+  if (configured) {
+    let fallback: string | undefined;
+    for (const entry of configured.split(',').map(e => e.trim()).filter(Boolean)) {
+      const separator = entry.indexOf(':');
+      const prefix = separator > 0 ? entry.slice(0, separator) : '';
+      if (providers.has(prefix as LLMProviderName)) {
+        if (prefix === provider) return entry.slice(separator + 1);
+      } else {
+        fallback = entry;
+      }
+    }
+    if (fallback) return fallback;
+  }
+
+  return FEATURE_MODELS[feature]?.[provider] || providers.get(provider)!.defaultModel;
+};
+
+// Whether any provider configured for the feature could be tried
+export const isLLMAvailable = (feature: LLMFeature): boolean =>
+  getLLMChain(feature).some(name => providers.get(name)!.isAvailable());
+
+// --- Token accounting ---
+
+export interface LLMUsageEvent {
+  feature: LLMFeature;
+  provider: LLMProviderName;
+  model: string;
+  usage: LLMUsage;
+  userId?: string;
+}
+
+interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+const usageTotals = new Map<string, UsageTotals & { feature: LLMFeature; provider: LLMProviderName; model: string }>();
+const usageListeners: Array<(event: LLMUsageEvent) => void> = [];
+
+// Subscribe to every completion's token usage (e.g. per-user quotas)
+export const onLLMUsage = (listener: (event: LLMUsageEvent) => void) => {
+  usageListeners.push(listener);
+};
+
+const recordUsage = (event: LLMUsageEvent) => {
+  const key = `${event.feature}:${event.provider}:${event.model}`;
+  const totals = usageTotals.get(key)
+    || { feature: event.feature, provider: event.provider, model: event.model, requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+  totals.requests++;
+  totals.promptTokens += event.usage.promptTokens;
+  totals.completionTokens += event.usage.completionTokens;
+  totals.totalTokens += event.usage.totalTokens;
+  usageTotals.set(key, totals);
+
+  for (const listener of usageListeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('[LLM] Usage listener error:', error);
+    }
+  }
+};
+
+// Token totals since startup, per feature/provider/model
+export const getLLMUsage = () => Array.from(usageTotals.values());
+
+// Provider status for /api/info
+export const getLLMStatus = () => ({
+  providers: Array.from(providers.values()).map(provider => ({
+    name: provider.name,
+    available: provider.isAvailable(),
+    defaultModel: provider.defaultModel,
+  })),
+  usage: getLLMUsage(),
+});
+
+// --- Completion API ---
+
+async function runChain<T>(
+  feature: LLMFeature,
+  request: LLMRequest,
+  attempt: (provider: LLMProvider, providerRequest: LLMProviderRequest) => Promise<{ result: LLMProviderResult; value: T }>
+): Promise<{ value: T; response: LLMResponse }> {
+  const attempts: Array<{ provider: LLMProviderName; error: string }> = [];
+
+  for (const name of getLLMChain(feature)) {
+    const provider = providers.get(name)!;
+    if (!provider.isAvailable()) {
+      attempts.push({ provider: name, error: 'not configured' });
+      continue;
+    }
+
+    const providerRequest: LLMProviderRequest = {
+      feature,
+      model: getLLMModel(feature, name),
+      messages: request.messages,
+      json: !!request.json,
+      temperature: request.temperature ?? 0.7,
+      maxTokens: request.maxTokens ?? 1000,
+    };
+
+    try {
+      const { result, value } = await attempt(provider, providerRequest);
+      const usage: LLMUsage = result.usage
+        ? { ...result.usage, estimated: false }
+        : { ...estimateUsage(request.messages, result.text), estimated: true };
+
+      recordUsage({ feature, provider: name, model: providerRequest.model, usage, userId: request.userId });
+
+      return {
+        value,
+        response: { text: result.text, provider: name, model: providerRequest.model, usage },
+      };
+    } catch (error: any) {
+      // A stream that already reached the client can't be replayed by another provider
+      if (error.streamStarted) throw error;
+
+      attempts.push({ provider: name, error: error.message || String(error) });
+      console.warn(`[LLM] ⚠️ ${name} failed for ${feature}, trying next provider:`, error.message);
+    }
+  }
+
+  throw new LLMUnavailableError(feature, attempts);
+}
+
+// Plain text completion
+export async function completeText(feature: LLMFeature, request: LLMRequest): Promise<LLMResponse> {
+  const { response } = await runChain(feature, request, async (provider, providerRequest) => {
+    const result = await provider.complete(providerRequest);
+    return { result, value: result.text };
+  });
+  return response;
+}
+
+/**
+ * JSON completion. Replies that don't contain a parsable JSON object count
+ * as a provider failure, so the next provider gets a chance.
+ */
+export async function completeJSON<T = any>(
+  feature: LLMFeature,
+  request: LLMRequest
+): Promise<{ data: T; response: LLMResponse }> {
+  const { value, response } = await runChain(feature, { ...request, json: true }, async (provider, providerRequest) => {
+    const result = await provider.complete(providerRequest);
+    const jsonMatch = result.text.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('Response did not contain JSON');
+    }
+    return { result, value: JSON.parse(jsonMatch[0]) as T };
+  });
+  return { data: value, response };
+}
+
+const WORD_STREAM_DELAY_MS = 30;
+
+/**
+ * Streamed completion. Falls back to the next provider only until the first
+ * chunk has been sent; providers without native streaming are replayed word
+ * by word so the UI behaves the same.
+ */
+export async function streamText(
+  feature: LLMFeature,
+  request: LLMRequest,
+  onChunk: (chunk: string) => void
+): Promise<LLMResponse> {
+  let started = false;
+
+  const { response } = await runChain(feature, request, async (provider, providerRequest) => {
+    if (provider.stream) {
+      try {
+        const result = await provider.stream(providerRequest, (chunk) => {
+          started = true;
+          onChunk(chunk);
+        });
+        return { result, value: result.text };
+      } catch (error) {
+        if (started) {
+          // Can't take back what the client already received
+          throw Object.assign(error as Error, { streamStarted: true });
+        }
+        throw error;
+      }
+    }
+
+    const result = await provider.complete(providerRequest);
+    const words = result.text.split(' ');
+    for (let i = 0; i < words.length; i++) {
+      started = true;
+      onChunk((i === 0 ? '' : ' ') + words[i]);
+      await new Promise((resolve) => setTimeout(resolve, WORD_STREAM_DELAY_MS));
+    }
+    return { result, value: result.text };
+  });
+
+  return response;
+}
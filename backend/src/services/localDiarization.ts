@@ -0,0 +1,254 @@
+import { spawn, spawnSync } from 'child_process';
+import type { DiarizationProvider, DiarizationTurn } from './diarization';
+
+/**
+ * Offline speaker turns from voice features, no model download required.
+ *
+ * Audio is decoded to 16 kHz mono PCM with ffmpeg, described frame by frame
+ * with MFCCs, and voiced one-second windows are summarised as a voiceprint
+ * (mean and spread of the cepstrum). Consecutive windows that sound alike
+ * form a turn. Voiceprints are only comparable within one microphone, which
+ * is all the diarization stage asks of them.
+ *
+ * FFMPEG_PATH               ffmpeg binary (default `ffmpeg`)
+ * DIARIZATION_TIMEOUT_MS    per-chunk decode time limit (default 20000)
+ */
+
+const FFMPEG_BIN = process.env.FFMPEG_PATH || 'ffmpeg';
+const TIMEOUT_MS = Number(process.env.DIARIZATION_TIMEOUT_MS || 20000);
+
+const SAMPLE_RATE = 16000;
+const FRAME_SIZE = 400; // 25 ms
+const FRAME_HOP = 160; // 10 ms
+const FFT_SIZE = 512;
+const MEL_BANDS = 26;
+const CEPSTRA = 13; // c0 (loudness) is dropped from voiceprints
+const LIFTER = 22;
+const WINDOW_FRAMES = 100; // 1 s voiceprint windows
+const WINDOW_HOP = 50; // 0.5 s
+const MIN_VOICED_FRAMES = 30;
+const VAD_RANGE_DB = 35; // Frames this far below the loudest frame are silence
+const MIN_TURN_SECONDS = 1;
+const TURN_SIMILARITY = 0.9; // Windows at least this alike continue the current turn
+
+let ffmpegAvailable: boolean | null = null;
+
+// Checked once, on first use
+const probeFfmpeg = (): boolean => {
+  if (ffmpegAvailable === null) {
+    const probe = spawnSync(FFMPEG_BIN, ['-version'], { stdio: 'ignore', timeout: 5000 });
+    ffmpegAvailable = !probe.error && probe.status === 0;
+    if (!ffmpegAvailable) {
+      console.warn('[DIARIZATION] ⚠️ ffmpeg not found - local diarization disabled');
+    }
+  }
+  return ffmpegAvailable;
+};
+
+const decodeToPcm = (audio: Buffer): Promise<Float32Array> =>
+  new Promise((resolve, reject) => {
+    const ffmpeg = spawn(FFMPEG_BIN, [
+      '-hide_banner', '-loglevel', 'error',
+      '-i', 'pipe:0',
+      '-f', 's16le', '-ac', '1', '-ar', String(SAMPLE_RATE),
+      'pipe:1',
+    ]);
+
+    const chunks: Buffer[] = [];
+    let stderr = '';
+    const timer = setTimeout(() => ffmpeg.kill('SIGKILL'), TIMEOUT_MS);
+
+    ffmpeg.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+    ffmpeg.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+    ffmpeg.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    ffmpeg.on('close', (code) => {
+      clearTimeout(timer);
+      if (code !== 0) {
+        reject(new Error(`ffmpeg exited with ${code}: ${stderr.trim().substring(0, 200)}`));
+        return;
+      }
+      const pcm = Buffer.concat(chunks);
+      const samples = new Float32Array(Math.floor(pcm.length / 2));
+      for (let i = 0; i < samples.length; i++) {
+        samples[i] = pcm.readInt16LE(i * 2) / 32768;
+      }
+      resolve(samples);
+    });
+
+    // ffmpeg may stop reading early on bad input
+    ffmpeg.stdin.on('error', () => {});
+    ffmpeg.stdin.end(audio);
+  });
+
+// --- Features ---
+
+// In-place iterative radix-2 FFT
+const fft = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * cos - im[b] * sin;
+        const tIm = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+      }
+    }
+  }
+};
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+const buildMelFilters = (): Float64Array[] => {
+  const low = hzToMel(100);
+  const high = hzToMel(7600);
+  const bins = Array.from({ length: MEL_BANDS + 2 }, (_, i) =>
+    Math.floor(((FFT_SIZE + 1) * melToHz(low + ((high - low) * i) / (MEL_BANDS + 1))) / SAMPLE_RATE)
+  );
+
+  return Array.from({ length: MEL_BANDS }, (_, m) => {
+    const filter = new Float64Array(FFT_SIZE / 2 + 1);
+    const [left, center, right] = [bins[m], bins[m + 1], bins[m + 2]];
+    for (let k = left; k < center; k++) filter[k] = (k - left) / Math.max(1, center - left);
+    for (let k = center; k < right; k++) filter[k] = (right - k) / Math.max(1, right - center);
+    return filter;
+  });
+};
+
+const MEL_FILTERS = buildMelFilters();
+const HAMMING = Float64Array.from({ length: FRAME_SIZE }, (_, i) => 0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1)));
+
+// MFCCs per 10 ms frame, plus the frame's log energy for voice activity detection
+const frameFeatures = (samples: Float32Array): Array<{ energy: number; cepstrum: number[] }> => {
+  const frames: Array<{ energy: number; cepstrum: number[] }> = [];
+
+  for (let offset = 0; offset + FRAME_SIZE <= samples.length; offset += FRAME_HOP) {
+    const re = new Float64Array(FFT_SIZE);
+    const im = new Float64Array(FFT_SIZE);
+    let energy = 0;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      // Pre-emphasis then window
+      const sample = samples[offset + i] - 0.97 * (offset + i > 0 ? samples[offset + i - 1] : 0);
+      re[i] = sample * HAMMING[i];
+      energy += samples[offset + i] ** 2;
+    }
+    fft(re, im);
+
+    const logMel = MEL_FILTERS.map(filter => {
+      let sum = 0;
+      for (let k = 0; k < filter.length; k++) {
+        if (filter[k]) sum += filter[k] * (re[k] ** 2 + im[k] ** 2);
+      }
+      return Math.log(sum + 1e-10);
+    });
+
+    const cepstrum: number[] = [];
+    for (let c = 0; c < CEPSTRA; c++) {
+      let value = 0;
+      for (let m = 0; m < MEL_BANDS; m++) {
+        value += logMel[m] * Math.cos((Math.PI * c * (m + 0.5)) / MEL_BANDS);
+      }
+      cepstrum.push(value * (1 + (LIFTER / 2) * Math.sin((Math.PI * c) / LIFTER)));
+    }
+
+    frames.push({ energy: 10 * Math.log10(energy / FRAME_SIZE + 1e-12), cepstrum });
+  }
+
+  return frames;
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] ** 2;
+    normB += b[i] ** 2;
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// Mean and standard deviation of c1..c12 over the voiced frames
+const voiceprint = (frames: Array<{ cepstrum: number[] }>): number[] => {
+  const dims = CEPSTRA - 1;
+  const mean = new Array(dims).fill(0);
+  const spread = new Array(dims).fill(0);
+  frames.forEach(f => f.cepstrum.slice(1).forEach((v, i) => { mean[i] += v / frames.length; }));
+  frames.forEach(f => f.cepstrum.slice(1).forEach((v, i) => { spread[i] += (v - mean[i]) ** 2 / frames.length; }));
+  return [...mean, ...spread.map(Math.sqrt)];
+};
+
+export const averageEmbedding = (a: number[], aWeight: number, b: number[], bWeight: number) =>
+  a.map((v, i) => (v * aWeight + b[i] * bWeight) / (aWeight + bWeight));
+
+export const findSpeakerTurns = (samples: Float32Array): DiarizationTurn[] => {
+  const frames = frameFeatures(samples);
+  if (frames.length === 0) return [];
+
+  const loudest = Math.max(...frames.map(f => f.energy));
+  const voiced = frames.map(f => f.energy > loudest - VAD_RANGE_DB && f.energy > -60);
+  const frameSeconds = FRAME_HOP / SAMPLE_RATE;
+
+  // Voiceprint per overlapping window
+  const windows: Array<{ start: number; end: number; embedding: number[] }> = [];
+  for (let start = 0; start < frames.length; start += WINDOW_HOP) {
+    const end = Math.min(start + WINDOW_FRAMES, frames.length);
+    const speech = frames.slice(start, end).filter((_, i) => voiced[start + i]);
+    if (speech.length >= MIN_VOICED_FRAMES) {
+      windows.push({ start: start * frameSeconds, end: end * frameSeconds, embedding: voiceprint(speech) });
+    }
+    if (end === frames.length) break;
+  }
+
+  // Consecutive windows that sound alike are one turn
+  const turns: Array<DiarizationTurn & { embedding: number[] }> = [];
+  for (const window of windows) {
+    const current = turns[turns.length - 1];
+    if (current && window.start <= current.end && cosineSimilarity(current.embedding, window.embedding) >= TURN_SIMILARITY) {
+      current.embedding = averageEmbedding(current.embedding, current.end - current.start, window.embedding, window.end - window.start);
+      current.end = window.end;
+    } else {
+      // Overlapping windows: the new turn starts where the previous one ends
+      const start = current ? Math.max(window.start, Math.min(window.end, current.end)) : window.start;
+      turns.push({ start, end: window.end, speaker: `turn_${turns.length}`, embedding: window.embedding });
+    }
+  }
+
+  // Turns too short to judge reliably belong to their neighbour
+  return turns.reduce<Array<DiarizationTurn & { embedding: number[] }>>((merged, turn) => {
+    const previous = merged[merged.length - 1];
+    if (previous && turn.end - turn.start < MIN_TURN_SECONDS) {
+      previous.end = turn.end;
+    } else {
+      merged.push(turn);
+    }
+    return merged;
+  }, []);
+};
+
+export const createLocalDiarizationProvider = (): DiarizationProvider => ({
+  name: 'local',
+  isAvailable: probeFfmpeg,
+  diarize: async (audio) => findSpeakerTurns(await decodeToPcm(audio)),
+});
@@ -0,0 +1,173 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { TranscriptionProvider, TranscriptionResult, TranscriptionWord } from './transcription';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Offline transcription with whisper.cpp (https://github.com/ggerganov/whisper.cpp).
+ *
+ * The browser sends WebM/Opus chunks, so each chunk is converted to 16 kHz
+ * mono WAV with ffmpeg and passed to the whisper.cpp CLI, which writes its
+ * full JSON output (segments plus per-token offsets and probabilities).
+ *
+ * WHISPER_CPP_MODEL       path to a ggml model, e.g. models/ggml-base.en.bin (required)
+ * WHISPER_CPP_BIN         whisper.cpp CLI binary (default `whisper-cli`)
+ * WHISPER_CPP_THREADS     threads per transcription (default 4)
+ * WHISPER_CPP_LANGUAGES   comma-separated languages the model covers
+ *                         (default: `en` for *.en models, otherwise any)
+ * WHISPER_CPP_TIMEOUT_MS  per-chunk time limit (default 60000)
+ * FFMPEG_PATH             ffmpeg binary (default `ffmpeg`)
+ */
+
+const WHISPER_BIN = process.env.WHISPER_CPP_BIN || 'whisper-cli';
+const FFMPEG_BIN = process.env.FFMPEG_PATH || 'ffmpeg';
+const THREADS = process.env.WHISPER_CPP_THREADS || '4';
+const TIMEOUT_MS = Number(process.env.WHISPER_CPP_TIMEOUT_MS || 60000);
+
+// whisper.cpp --output-json-full shapes we read
+interface WhisperToken {
+  text: string;
+  offsets: { from: number; to: number }; // ms
+  p?: number;
+}
+
+interface WhisperSegment {
+  offsets: { from: number; to: number }; // ms
+  text: string;
+  tokens?: WhisperToken[];
+}
+
+interface WhisperOutput {
+  result?: { language?: string };
+  transcription?: WhisperSegment[];
+}
+
+const modelLanguages = (model: string | undefined): string[] | 'any' => {
+  const configured = process.env.WHISPER_CPP_LANGUAGES;
+  if (configured) {
+    return configured.split(',').map(l => l.trim().toLowerCase()).filter(Boolean);
+  }
+  // English-only models are named like ggml-base.en.bin
+  return model && /\.en(\.|-|$)/.test(path.basename(model)) ? ['en'] : 'any';
+};
+
+// Special tokens such as [_BEG_] or [_TT_150] carry no text
+const isSpecialToken = (token: WhisperToken) => /^\[_.*\]$/.test(token.text.trim());
+
+/**
+ * Tokens are sub-word pieces; a token starting with a space begins a new
+ * word. Word confidence is the mean probability of its tokens.
+ */
+const tokensToWords = (segments: WhisperSegment[]): TranscriptionWord[] => {
+  const words: TranscriptionWord[] = [];
+  let current: { text: string; start: number; end: number; probabilities: number[] } | null = null;
+
+  const flush = () => {
+    if (current && current.text.trim()) {
+      const probabilities = current.probabilities;
+      words.push({
+        word: current.text.trim(),
+        start: current.start / 1000,
+        end: current.end / 1000,
+        confidence: probabilities.length > 0
+          ? probabilities.reduce((sum, p) => sum + p, 0) / probabilities.length
+          : undefined,
+      });
+    }
+    current = null;
+  };
+
+  for (const segment of segments) {
+    for (const token of segment.tokens || []) {
+      if (isSpecialToken(token)) continue;
+
+      if (!current || token.text.startsWith(' ')) {
+        flush();
+        current = { text: '', start: token.offsets.from, end: token.offsets.to, probabilities: [] };
+      }
+      current!.text += token.text;
+      current!.end = token.offsets.to;
+      if (typeof token.p === 'number') current!.probabilities.push(token.p);
+    }
+    flush();
+  }
+
+  return words;
+};
+
+export const parseWhisperOutput = (output: WhisperOutput): TranscriptionResult => {
+  const segments = output.transcription || [];
+  const words = tokensToWords(segments);
+  const confident = words.filter(w => typeof w.confidence === 'number');
+
+  return {
+    text: segments.map(s => s.text.trim()).filter(Boolean).join(' '),
+    language: output.result?.language,
+    segments: segments.map(s => ({
+      start: s.offsets.from / 1000,
+      end: s.offsets.to / 1000,
+      text: s.text.trim(),
+    })),
+    words,
+    confidence: confident.length > 0
+      ? confident.reduce((sum, w) => sum + w.confidence!, 0) / confident.length
+      : undefined,
+  };
+};
+
+const transcribeLocally = async (
+  audio: Buffer,
+  language: string,
+  mimeType: string
+): Promise<TranscriptionResult> => {
+  const model = process.env.WHISPER_CPP_MODEL!;
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'acetime-whisper-'));
+  const extension = mimeType.includes('wav') ? 'wav' : mimeType.includes('ogg') ? 'ogg' : 'webm';
+  const inputPath = path.join(workDir, `input.${extension}`);
+  const wavPath = path.join(workDir, 'audio.wav');
+  const outputBase = path.join(workDir, 'transcript');
+
+  try {
+    await fs.promises.writeFile(inputPath, audio);
+
+    await execFileAsync(
+      FFMPEG_BIN,
+      ['-hide_banner', '-loglevel', 'error', '-y', '-i', inputPath, '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', wavPath],
+      { timeout: TIMEOUT_MS }
+    );
+
+    await execFileAsync(
+      WHISPER_BIN,
+      ['-m', model, '-f', wavPath, '-l', language, '-t', THREADS, '-ojf', '-of', outputBase, '-np'],
+      { timeout: TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024 }
+    );
+
+    const raw = await fs.promises.readFile(`${outputBase}.json`, 'utf8');
+    const result = parseWhisperOutput(JSON.parse(raw));
+    console.log('[WHISPER.CPP] ✅ Local transcription:', result.text.substring(0, 100));
+    return result;
+  } finally {
+    fs.promises.rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+};
+
+export const createLocalWhisperProvider = (): TranscriptionProvider => {
+  const model = process.env.WHISPER_CPP_MODEL;
+
+  return {
+    name: 'local',
+    capabilities: {
+      languages: modelLanguages(model),
+      languageDetection: true,
+      timestamps: 'word',
+      wordConfidence: true,
+      offline: true,
+    },
+    isAvailable: () => !!model && fs.existsSync(model),
+    transcribe: (audio, { language, mimeType }) => transcribeLocally(audio, language, mimeType),
+  };
+};
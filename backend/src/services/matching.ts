@@ -0,0 +1,131 @@
+import { Vision } from '../models/Vision';
+import { Offer } from '../models/Offer';
+import { Connection } from '../models/Connection';
+import { completeJSON, LLMUnavailableError } from './llm';
+import { hasAiCredits } from './aiCredits';
+
+/**
+ * Matching engine: scores other users' active visions and offers against one
+ * of the user's own. Used by POST /api/network/match/find directly and by the
+ * 'network.match' background job. Every candidate is one LLM call charged to
+ * the user, so scoring stops once their daily AI credits run out.
+ */
+
+export type MatchEntityType = 'vision' | 'offer';
+
+export interface ScoredMatch {
+  targetEntity: any;
+  targetType: MatchEntityType;
+  score: number;
+  reasons: string[];
+  isMutualConnection: boolean;
+}
+
+export class MatchSourceNotFoundError extends Error {
+  constructor(entityType: MatchEntityType) {
+    super(entityType === 'vision' ? 'Vision not found' : 'Offer not found');
+    this.name = 'MatchSourceNotFoundError';
+  }
+}
+
+// Best matches first (at most 20); throws LLMUnavailableError if nothing could be scored
+export async function findMatches(
+  userId: string,
+  entityType: MatchEntityType,
+  entityId: string
+): Promise<ScoredMatch[]> {
+  let sourceEntity: any;
+  let searchCriteria: any = {};
+
+  if (entityType === 'vision') {
+    sourceEntity = await Vision.findOne({ _id: entityId, userId });
+    if (!sourceEntity) throw new MatchSourceNotFoundError(entityType);
+    searchCriteria = { tags: sourceEntity.tags, category: sourceEntity.category };
+  } else {
+    sourceEntity = await Offer.findOne({ _id: entityId, userId });
+    if (!sourceEntity) throw new MatchSourceNotFoundError(entityType);
+    searchCriteria = { tags: sourceEntity.tags, targetAudience: sourceEntity.targetAudience };
+  }
+
+  // Get user's connections for mutual matching
+  const connections = await Connection.find({
+    userId,
+    status: 'accepted',
+  });
+  const connectionIds = connections.map(c => c.connectedUserId);
+
+  // Find potential matches
+  const potentialOffers = await Offer.find({
+    userId: { $ne: userId },
+    status: 'active',
+    $or: [
+      { tags: { $in: searchCriteria.tags || [] } },
+      { category: searchCriteria.category },
+    ],
+  }).populate('userId', 'name avatar');
+
+  const potentialVisions = await Vision.find({
+    userId: { $ne: userId },
+    status: 'active',
+    $or: [
+      { tags: { $in: searchCriteria.tags || [] } },
+      { category: searchCriteria.category },
+    ],
+  }).populate('userId', 'name avatar');
+
+  // Use AI to score and rank matches
+  const matches: ScoredMatch[] = [];
+  let unavailable: LLMUnavailableError | null = null;
+  const allPotentialItems = [...potentialOffers.map(o => ({ ...o.toObject(), _type: 'offer' as const })),
+                             ...potentialVisions.map(v => ({ ...v.toObject(), _type: 'vision' as const }))];
+
+  for (const item of allPotentialItems) {
+    if (!(await hasAiCredits(userId))) {
+      console.warn(`[MATCHING] 🚦 AI credits ran out after ${matches.length} matches - stopping early`);
+      break;
+    }
+    try {
+      const { data: result } = await completeJSON<{ score: number; reasons: string[] }>('matching', {
+        messages: [
+          {
+            role: 'system',
+            content: 'You are a business matching AI. Score how well two items match on a scale of 0-100 and provide 2-3 brief reasons. Return JSON: { "score": number, "reasons": string[] }',
+          },
+          {
+            role: 'user',
+            content: `Source: ${sourceEntity.title} - ${sourceEntity.description}\n\nTarget: ${item.title} - ${item.description}`,
+          },
+        ],
+        maxTokens: 200,
+        userId,
+      });
+
+      if (result.score >= 50) {
+        const isMutual = connectionIds.some(id => id.equals((item.userId as any)._id));
+
+        matches.push({
+          targetEntity: item,
+          targetType: item._type,
+          score: result.score,
+          reasons: result.reasons,
+          isMutualConnection: isMutual,
+        });
+      }
+    } catch (error) {
+      if (error instanceof LLMUnavailableError) {
+        // Every provider is failing - the rest would fail too
+        unavailable = error;
+        break;
+      }
+      console.error('Match scoring error:', error);
+    }
+  }
+
+  if (unavailable && matches.length === 0) {
+    throw unavailable;
+  }
+
+  // Sort by score
+  matches.sort((a, b) => b.score - a.score);
+  return matches.slice(0, 20);
+}
@@ -0,0 +1,128 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { User } from '../models/User';
+import { createMemoryStore, setSharedStore } from './sharedStore';
+import {
+  MfaError,
+  matchTotp,
+  encryptSecret,
+  generateRecoveryCodes,
+  verifyMfaCode,
+  assertNotLockedOut,
+  recordUserFailure,
+  clearUserFailures,
+} from './mfa';
+
+// RFC 6238 test secret ("12345678901234567890"), base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+const userWithMfa = (secret: string, hashes: string[] = []) =>
+  new User({
+    name: 'Test User',
+    email: 'test@example.com',
+    passwordHash: 'x'.repeat(60),
+    mfa: {
+      enabled: true,
+      secret: encryptSecret(secret),
+      lastUsedStep: 0,
+      recoveryCodes: hashes.map(hash => ({ hash, usedAt: null })),
+    },
+  });
+
+describe('matchTotp', () => {
+  it('accepts the RFC 6238 code for its time step', () => {
+    // 94287082 at T = 59 s, truncated to six digits
+    assert.equal(matchTotp(RFC_SECRET, '287082', 59 * 1000), 1);
+  });
+
+  it('accepts one step of clock drift and no more', () => {
+    assert.equal(matchTotp(RFC_SECRET, '287082', 89 * 1000), 1);
+    assert.equal(matchTotp(RFC_SECRET, '287082', 150 * 1000), null);
+  });
+
+  it('rejects malformed codes', () => {
+    assert.equal(matchTotp(RFC_SECRET, '28708', 59 * 1000), null);
+    assert.equal(matchTotp(RFC_SECRET, 'abcdef', 59 * 1000), null);
+  });
+});
+
+describe('verifyMfaCode', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('consumes a TOTP step with a conditional update, so it cannot be replayed', async () => {
+    const user = userWithMfa(RFC_SECRET);
+    const update = mock.method(User, 'findOneAndUpdate', async () => user);
+    mock.timers.enable({ apis: ['Date'], now: 59 * 1000 });
+    try {
+      assert.equal(await verifyMfaCode(user, { code: '287082' }), 'totp');
+    } finally {
+      mock.timers.reset();
+    }
+
+    const [filter, change] = update.mock.calls[0].arguments as any[];
+    assert.deepEqual(filter['mfa.lastUsedStep'], { $lt: 1 });
+    assert.deepEqual(change, { $set: { 'mfa.lastUsedStep': 1 } });
+    assert.equal(user.mfa!.lastUsedStep, 1);
+  });
+
+  it('fails when another request used the step first', async () => {
+    const user = userWithMfa(RFC_SECRET);
+    mock.method(User, 'findOneAndUpdate', async () => null);
+    mock.timers.enable({ apis: ['Date'], now: 59 * 1000 });
+    try {
+      assert.equal(await verifyMfaCode(user, { code: '287082' }), null);
+    } finally {
+      mock.timers.reset();
+    }
+    assert.equal(user.mfa!.lastUsedStep, 0);
+  });
+
+  it('uses a recovery code only while it is unused', async () => {
+    const { codes, hashes } = generateRecoveryCodes();
+    const user = userWithMfa(RFC_SECRET, hashes);
+    const used = userWithMfa(RFC_SECRET, hashes);
+    used.mfa!.recoveryCodes[0].usedAt = new Date();
+    const update = mock.method(User, 'findOneAndUpdate', async () => used);
+
+    assert.equal(await verifyMfaCode(user, { recoveryCode: codes[0].toLowerCase() }), 'recovery');
+    const [filter] = update.mock.calls[0].arguments as any[];
+    assert.deepEqual(filter['mfa.recoveryCodes'], { $elemMatch: { hash: hashes[0], usedAt: null } });
+    assert.ok(user.mfa!.recoveryCodes[0].usedAt);
+
+    update.mock.mockImplementation(async () => null as any);
+    assert.equal(await verifyMfaCode(user, { recoveryCode: codes[0] }), null);
+  });
+
+  it('does not look up codes for users without 2FA', async () => {
+    const user = userWithMfa(RFC_SECRET);
+    user.mfa!.enabled = false;
+    const update = mock.method(User, 'findOneAndUpdate', async () => user);
+    assert.equal(await verifyMfaCode(user, { code: '287082' }), null);
+    assert.equal(update.mock.callCount(), 0);
+  });
+});
+
+describe('lockout', () => {
+  const userId = '64b000000000000000000001';
+
+  beforeEach(() => setSharedStore(createMemoryStore()));
+
+  it('locks an account after ten wrong codes', async () => {
+    for (let i = 0; i < 9; i++) await recordUserFailure(userId);
+    await assertNotLockedOut(userId);
+
+    await recordUserFailure(userId);
+    await assert.rejects(assertNotLockedOut(userId), MfaError);
+  });
+
+  it('is lifted by a correct code', async () => {
+    for (let i = 0; i < 10; i++) await recordUserFailure(userId);
+    await clearUserFailures(userId);
+    await assertNotLockedOut(userId);
+  });
+
+  it('counts per account', async () => {
+    for (let i = 0; i < 10; i++) await recordUserFailure(userId);
+    await assertNotLockedOut('64b000000000000000000002');
+  });
+});
@@ -0,0 +1,252 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { User, IUser } from '../models/User';
+import { getSharedStore, SHARED_STORE_PREFIX } from './sharedStore';
+import { getJWTSecret, deriveSecret } from './jwt';
+
+/**
+ * Two-factor authentication: TOTP (RFC 6238, 6 digits, 30 s steps, SHA-1 -
+ * what every authenticator app speaks) plus one-time recovery codes.
+ *
+ * Signing in with 2FA on is two steps: the password gets a short-lived
+ * challenge token (`mfa_required`), and only the challenge plus a code
+ * gets a session. The TOTP secret is encrypted at rest; recovery codes are
+ * only ever stored as hashes.
+ *
+ * Environment:
+ * - MFA_ISSUER: name shown in authenticator apps (default AceTime)
+ * - MFA_ENCRYPTION_KEY: key for the stored secrets (default derived from JWT_SECRET)
+ * - MFA_CHALLENGE_TTL_SECONDS: how long the second step may take (default 300)
+ * - MFA_MAX_FAILURES: wrong codes an account may get before it is locked (default 10)
+ * - MFA_LOCKOUT_SECONDS: how long a lock lasts, counted from the last wrong code (default 900)
+ */
+
+const MFA_ISSUER = process.env.MFA_ISSUER || 'AceTime';
+const CHALLENGE_TTL_SECONDS = Number(process.env.MFA_CHALLENGE_TTL_SECONDS || 300);
+const MAX_CHALLENGE_ATTEMPTS = 5;
+const MAX_USER_FAILURES = Number(process.env.MFA_MAX_FAILURES || 10);
+const LOCKOUT_SECONDS = Number(process.env.MFA_LOCKOUT_SECONDS || 900);
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_WINDOW = 1; // Steps of clock drift accepted either way
+const RECOVERY_CODE_COUNT = 10;
+
+export class MfaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MfaError';
+  }
+}
+
+// --- TOTP ---
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+};
+
+const base32Decode = (input: string): Buffer => {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new MfaError('Invalid secret');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+const hotp = (secret: Buffer, counter: number): string => {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const digest = crypto.createHmac('sha1', secret).update(message).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const code = (digest.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+  return code.toString().padStart(TOTP_DIGITS, '0');
+};
+
+// The time step a code belongs to, or null; the caller rejects steps already used
+export function matchTotp(secret: string, code: string, at = Date.now()): number | null {
+  const digits = String(code || '').replace(/\s/g, '');
+  if (!/^\d{6}$/.test(digits)) return null;
+  const key = base32Decode(secret);
+  const step = Math.floor(at / 1000 / TOTP_STEP_SECONDS);
+  for (let drift = -TOTP_WINDOW; drift <= TOTP_WINDOW; drift++) {
+    const candidate = hotp(key, step + drift);
+    if (crypto.timingSafeEqual(Buffer.from(candidate), Buffer.from(digits))) return step + drift;
+  }
+  return null;
+}
+
+export const generateTotpSecret = (): string => base32Encode(crypto.randomBytes(20));
+
+export const otpauthUrl = (email: string, secret: string): string => {
+  const label = encodeURIComponent(`${MFA_ISSUER}:${email}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: MFA_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+// --- Secrets at rest ---
+
+const encryptionKey = () =>
+  crypto.createHash('sha256')
+    .update(process.env.MFA_ENCRYPTION_KEY || `${getJWTSecret()}:mfa`)
+    .digest();
+
+export function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.');
+}
+
+export function decryptSecret(stored: string): string {
+  const [iv, tag, encrypted] = stored.split('.').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+// --- Recovery codes ---
+
+const hashRecoveryCode = (code: string): string =>
+  crypto.createHash('sha256').update(code.toUpperCase().replace(/[\s-]/g, '')).digest('hex');
+
+// xxxxx-xxxxx, shown to the user once
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = base32Encode(crypto.randomBytes(7)).substring(0, 10);
+    return `${raw.substring(0, 5)}-${raw.substring(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+// --- Verification ---
+
+export type MfaMethod = 'totp' | 'recovery';
+
+/**
+ * Check a code (TOTP or recovery) for a user with 2FA on and consume it:
+ * a TOTP step can't be used twice, a recovery code only once. The code is
+ * used up by one conditional update, so two requests racing with the same
+ * code can't both pass; `user` is updated to match.
+ */
+export async function verifyMfaCode(user: IUser, input: { code?: string; recoveryCode?: string }): Promise<MfaMethod | null> {
+  if (!user.mfa?.enabled || !user.mfa.secret) return null;
+
+  if (input.recoveryCode) {
+    const hash = hashRecoveryCode(input.recoveryCode);
+    const usedAt = new Date();
+    const updated = await User.findOneAndUpdate(
+      { _id: user._id, 'mfa.enabled': true, 'mfa.recoveryCodes': { $elemMatch: { hash, usedAt: null } } },
+      { $set: { 'mfa.recoveryCodes.$.usedAt': usedAt } },
+      { new: true }
+    );
+    if (!updated) return null;
+    user.mfa.recoveryCodes = updated.mfa!.recoveryCodes;
+    console.log(`[MFA] 🔑 Recovery code used by ${user._id} (${remainingRecoveryCodes(user)} left)`);
+    return 'recovery';
+  }
+
+  const step = matchTotp(decryptSecret(user.mfa.secret), input.code || '');
+  if (step === null) return null;
+  const updated = await User.findOneAndUpdate(
+    { _id: user._id, 'mfa.enabled': true, 'mfa.lastUsedStep': { $lt: step } },
+    { $set: { 'mfa.lastUsedStep': step } },
+    { new: true }
+  );
+  if (!updated) return null;
+  user.mfa.lastUsedStep = step;
+  return 'totp';
+}
+
+export const remainingRecoveryCodes = (user: IUser) =>
+  (user.mfa?.recoveryCodes || []).filter(c => !c.usedAt).length;
+
+// --- Login challenge ---
+
+// Its own key, so a challenge can never pass for an access token
+const challengeKey = () => deriveSecret('mfa-challenge');
+
+export function createMfaChallenge(user: IUser): string {
+  return jwt.sign({ userId: user._id.toString(), purpose: 'mfa' }, challengeKey(), {
+    expiresIn: CHALLENGE_TTL_SECONDS,
+    jwtid: crypto.randomUUID(),
+  });
+}
+
+// The user the challenge was issued to; each challenge allows a few wrong codes
+export async function readMfaChallenge(token: string): Promise<{ userId: string; jti: string }> {
+  let payload: { userId: string; purpose: string; jti: string };
+  try {
+    payload = jwt.verify(token, challengeKey()) as typeof payload;
+  } catch {
+    throw new MfaError('Sign-in expired, please enter your password again');
+  }
+  if (payload.purpose !== 'mfa') throw new MfaError('Invalid challenge');
+
+  const failures = await getSharedStore().get(`${SHARED_STORE_PREFIX}mfa:challenge:${payload.jti}`);
+  if ((failures?.length || 0) >= MAX_CHALLENGE_ATTEMPTS) {
+    throw new MfaError('Too many attempts, please sign in again');
+  }
+  return { userId: payload.userId, jti: payload.jti };
+}
+
+export async function recordChallengeFailure(jti: string) {
+  const store = getSharedStore();
+  const key = `${SHARED_STORE_PREFIX}mfa:challenge:${jti}`;
+  await store.append(key, '.');
+  await store.expire(key, CHALLENGE_TTL_SECONDS * 1000);
+}
+
+// --- Lockout ---
+
+// Wrong codes count against the account, not the challenge: a new password
+// sign-in gets a new challenge but doesn't reset this
+const failuresKey = (userId: string) => `${SHARED_STORE_PREFIX}mfa:failures:${userId}`;
+
+export async function assertNotLockedOut(userId: string) {
+  const failures = await getSharedStore().get(failuresKey(userId));
+  if ((failures?.length || 0) >= MAX_USER_FAILURES) {
+    throw new MfaError(`Too many wrong codes, try again in ${Math.ceil(LOCKOUT_SECONDS / 60)} minutes`);
+  }
+}
+
+export async function recordUserFailure(userId: string) {
+  const store = getSharedStore();
+  const length = await store.append(failuresKey(userId), '.');
+  await store.expire(failuresKey(userId), LOCKOUT_SECONDS * 1000);
+  if (length === MAX_USER_FAILURES) {
+    console.warn(`[MFA] ⚠️ ${userId} locked out after ${length} wrong codes`);
+  }
+}
+
+export async function clearUserFailures(userId: string) {
+  await getSharedStore().del(failuresKey(userId));
+}
@@ -0,0 +1,87 @@
+import { Server } from 'socket.io';
+import { Notification, INotification, NotificationKind } from '../models/Notification';
+import { User, IUser } from '../models/User';
+
+export interface CreateNotificationInput {
+  userId: string;
+  type: NotificationKind;
+  title: string;
+  message?: string;
+  actionUrl?: string;
+  metadata?: INotification['metadata'];
+  silent?: boolean; // Store as already read and don't push it to the client
+}
+
+// Which user preference (settings.notifications.*) gates each notification type
+const PREFERENCE_FOR_TYPE: Record<NotificationKind, keyof IUser['settings']['notifications']> = {
+  incoming_call: 'incomingCalls',
+  missed_call: 'incomingCalls',
+  friend_request: 'friendRequests',
+  friend_accepted: 'friendRequests',
+  ai_insight: 'aiInsights',
+  call_recording_ready: 'callRecordings',
+  blocked_call_attempt: 'incomingCalls',
+};
+
+// Shape sent to clients over `notification:new` and from the REST API
+export const serializeNotification = (notification: INotification) => ({
+  _id: notification._id.toString(),
+  type: notification.type,
+  title: notification.title,
+  message: notification.message,
+  actionUrl: notification.actionUrl || undefined,
+  metadata: notification.metadata || {},
+  read: notification.read,
+  createdAt: notification.createdAt,
+});
+
+/**
+ * Persist a notification in the user's inbox and push it to every open
+ * tab/device via the user's socket room. Respects the user's notification
+ * preferences; returns null when the notification was suppressed.
+ * Never throws - notifications must not break the flow that triggered them.
+ */
+export async function createNotification(
+  io: Server | undefined,
+  input: CreateNotificationInput
+): Promise<INotification | null> {
+  try {
+    const user = await User.findById(input.userId).select('settings.notifications').lean();
+    if (!user) return null;
+
+    const preference = PREFERENCE_FOR_TYPE[input.type];
+    if (user.settings?.notifications?.[preference] === false) {
+      return null;
+    }
+
+    const notification = await Notification.create({
+      userId: input.userId,
+      type: input.type,
+      title: input.title,
+      message: input.message || '',
+      actionUrl: input.actionUrl,
+      metadata: input.metadata,
+      read: !!input.silent,
+      readAt: input.silent ? new Date() : null,
+    });
+
+    if (!input.silent) {
+      io?.to(`user:${input.userId}`).emit('notification:new', serializeNotification(notification));
+    }
+
+    return notification;
+  } catch (error) {
+    console.error('[NOTIFICATIONS] Failed to create notification:', error);
+    return null;
+  }
+}
+
+// Fan the same notification out to several users
+export async function notifyUsers(
+  io: Server | undefined,
+  userIds: string[],
+  input: Omit<CreateNotificationInput, 'userId'>
+): Promise<void> {
+  const uniqueIds = Array.from(new Set(userIds.map(id => id.toString())));
+  await Promise.all(uniqueIds.map(userId => createNotification(io, { ...input, userId })));
+}
@@ -0,0 +1,158 @@
+import { describe, it, before, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { User, IUser } from '../models/User';
+import { Session } from '../models/Session';
+import { createMemoryStore, setSharedStore } from './sharedStore';
+import { setMailTransport, MailMessage } from './mailer';
+import { startOidcLogin, completeOidcLogin, OidcError } from './oidc';
+
+const ISSUER = 'https://idp.test';
+const CLIENT_ID = 'acetime-test';
+
+// A provider that signs whatever claims the test asks for
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const discovery = {
+  issuer: ISSUER,
+  authorization_endpoint: `${ISSUER}/authorize`,
+  token_endpoint: `${ISSUER}/token`,
+  jwks_uri: `${ISSUER}/jwks`,
+};
+
+let claims: Record<string, unknown> = {};
+let nonce = '';
+
+const fakeIdp = async (input: string | URL | Request) => {
+  const url = String(input);
+  if (url === `${ISSUER}/.well-known/openid-configuration`) return Response.json(discovery);
+  if (url === discovery.jwks_uri) {
+    return Response.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'k1', use: 'sig' }] });
+  }
+  if (url === discovery.token_endpoint) {
+    const idToken = jwt.sign({ nonce, ...claims }, privateKey, {
+      algorithm: 'RS256',
+      keyid: 'k1',
+      issuer: ISSUER,
+      audience: CLIENT_ID,
+    });
+    return Response.json({ id_token: idToken, access_token: 'access' });
+  }
+  return new Response(null, { status: 404 });
+};
+
+const startLogin = async () => {
+  const params = new URL(await startOidcLogin('test')).searchParams;
+  nonce = params.get('nonce')!;
+  return params.get('state')!;
+};
+
+const signIn = async (identity: Record<string, unknown>) => {
+  claims = identity;
+  return completeOidcLogin('code', await startLogin());
+};
+
+const existingUser = (fields: Partial<IUser> = {}) => {
+  const user = new User({
+    name: 'Existing User',
+    email: 'owner@example.com',
+    passwordHash: 'original-hash',
+    mfa: { enabled: true, secret: 'secret', recoveryCodes: [{ hash: 'h' }] },
+    ...fields,
+  });
+  mock.method(user, 'save', async () => user);
+  return user;
+};
+
+describe('OIDC sign-in', () => {
+  let byEmail: IUser | null;
+  let mail: MailMessage[];
+  let revokedFor: string[];
+
+  before(() => {
+    process.env.OIDC_PROVIDERS = JSON.stringify([{ id: 'test', name: 'Test IdP', issuer: ISSUER, clientId: CLIENT_ID }]);
+  });
+
+  beforeEach(() => {
+    setSharedStore(createMemoryStore());
+    byEmail = null;
+    mail = [];
+    revokedFor = [];
+    setMailTransport({ name: 'test', send: async (message) => { mail.push(message); } });
+    mock.method(globalThis, 'fetch', fakeIdp);
+    mock.method(User, 'findOne', async (filter: any) => (filter.email ? byEmail : null));
+    mock.method(User, 'create', async (doc: any) => new User(doc));
+    mock.method(Session, 'find', async (filter: any) => {
+      revokedFor.push(filter.userId);
+      return [];
+    });
+  });
+  afterEach(() => {
+    setMailTransport(null);
+    mock.restoreAll();
+  });
+
+  it('links a verified identity to an account whose email was confirmed, leaving its sign-in alone', async () => {
+    byEmail = existingUser({ emailVerifiedAt: new Date() });
+    const result = await signIn({ sub: 'abc', email: 'Owner@Example.com', email_verified: true });
+
+    assert.equal(result.linked, true);
+    assert.equal(result.user, byEmail);
+    assert.deepEqual(byEmail.identities.map(i => [i.provider, i.subject]), [['test', 'abc']]);
+    assert.equal(byEmail.passwordHash, 'original-hash');
+    assert.equal(byEmail.hasPassword, true);
+    assert.equal(byEmail.mfa!.enabled, true);
+    assert.equal(mail.length, 0);
+    assert.equal(revokedFor.length, 0);
+  });
+
+  it('resets the sign-in of an unconfirmed account before linking, and tells the owner', async () => {
+    byEmail = existingUser({ emailVerifiedAt: undefined });
+    const result = await signIn({ sub: 'abc', email: 'owner@example.com', email_verified: true });
+
+    assert.equal(result.linked, true);
+    assert.notEqual(byEmail.passwordHash, 'original-hash');
+    assert.equal(byEmail.hasPassword, false);
+    assert.equal(byEmail.mfa!.enabled, false);
+    assert.equal(byEmail.mfa!.recoveryCodes.length, 0);
+    assert.ok(byEmail.emailVerifiedAt);
+    assert.deepEqual(revokedFor, [byEmail._id.toString()]);
+    assert.equal(mail.length, 1);
+    assert.equal(mail[0].to, 'owner@example.com');
+    assert.match(mail[0].text, /Test IdP/);
+  });
+
+  it('does not link an email the provider has not verified', async () => {
+    byEmail = existingUser({ emailVerifiedAt: new Date() });
+    await assert.rejects(
+      signIn({ sub: 'abc', email: 'owner@example.com', email_verified: false }),
+      (error: any) => error instanceof OidcError && error.code === 'email_unverified'
+    );
+    assert.equal(byEmail.identities.length, 0);
+  });
+
+  it('creates an account without a usable password for a new email', async () => {
+    const result = await signIn({ sub: 'new', email: 'new@example.com', email_verified: 'true', name: 'New Person' });
+    assert.equal(result.created, true);
+    assert.equal(result.user.hasPassword, false);
+    assert.equal(result.user.name, 'New Person');
+    assert.ok(result.user.emailVerifiedAt);
+  });
+
+  it('accepts each state once', async () => {
+    claims = { sub: 'new', email: 'new@example.com', email_verified: true };
+    const state = await startLogin();
+    await completeOidcLogin('code', state);
+    await assert.rejects(
+      completeOidcLogin('code', state),
+      (error: any) => error instanceof OidcError && error.code === 'invalid_state'
+    );
+  });
+
+  it('rejects an ID token minted for another sign-in', async () => {
+    await assert.rejects(
+      signIn({ sub: 'abc', email: 'new@example.com', email_verified: true, nonce: 'someone-else' }),
+      (error: any) => error instanceof OidcError && error.code === 'invalid_id_token'
+    );
+  });
+});
@@ -0,0 +1,390 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Server } from 'socket.io';
+import { User, IUser } from '../models/User';
+import { getSharedStore, SHARED_STORE_PREFIX } from './sharedStore';
+import { revokeUserSessions } from './sessions';
+import { sendMail } from './mailer';
+import { getClientBaseUrl } from './clientUrl';
+
+/**
+ * Single sign-on with OpenID Connect providers (authorization code + PKCE).
+ *
+ * The browser is sent to the provider with a one-time `state`, a `nonce`
+ * and a PKCE challenge; the provider sends it back to the frontend's
+ * callback page, which posts the code here. The ID token must be signed by
+ * the provider's published keys and carry our client id and the nonce.
+ *
+ * An identity is matched to an account by provider + `sub`. The first time,
+ * it is linked to the account with the same email - only if the provider
+ * says the email is verified - or a new account is created for it.
+ *
+ * Environment:
+ * - OIDC_PROVIDERS: JSON array of `{ "id", "name", "issuer", "clientId",
+ *   "clientSecret"?, "scopes"? }`
+ * - OIDC_REDIRECT_URI: where providers send the browser back
+ *   (default `${CLIENT_URL}/auth/callback`)
+ * - OIDC_ALLOW_SIGNUP: create accounts for unknown identities (default true)
+ * - OIDC_MOCK_IDP: `true` serves a local test provider at /mock-idp and
+ *   lists it as "mock" (ignored in production)
+ */
+
+const STATE_TTL_MS = 10 * 60 * 1000;
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+const ALLOW_SIGNUP = process.env.OIDC_ALLOW_SIGNUP !== 'false';
+
+export const MOCK_IDP_ENABLED = process.env.OIDC_MOCK_IDP === 'true' && process.env.NODE_ENV !== 'production';
+export const MOCK_IDP_CLIENT_ID = 'acetime-local';
+
+export const mockIdpIssuer = () =>
+  process.env.OIDC_MOCK_IDP_ISSUER || `http://localhost:${process.env.PORT || 3001}/mock-idp`;
+
+export interface OidcProvider {
+  id: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes?: string[];
+}
+
+interface Discovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+interface PendingLogin {
+  provider: string;
+  codeVerifier: string;
+  nonce: string;
+  redirectTo: string | null;
+}
+
+export type OidcErrorCode =
+  | 'unknown_provider'
+  | 'invalid_state'
+  | 'token_exchange_failed'
+  | 'invalid_id_token'
+  | 'email_unverified'
+  | 'signup_disabled';
+
+export class OidcError extends Error {
+  constructor(message: string, public code: OidcErrorCode) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+// --- Providers ---
+
+let providers: OidcProvider[] | null = null;
+
+const getProviders = (): OidcProvider[] => {
+  if (providers) return providers;
+
+  const configured: OidcProvider[] = [];
+  if (process.env.OIDC_PROVIDERS) {
+    try {
+      const parsed = JSON.parse(process.env.OIDC_PROVIDERS);
+      for (const entry of Array.isArray(parsed) ? parsed : []) {
+        if (!entry?.id || !entry.issuer || !entry.clientId) {
+          console.warn('[OIDC] ⚠️ Skipping provider without id, issuer or clientId');
+          continue;
+        }
+        configured.push({
+          id: String(entry.id),
+          name: String(entry.name || entry.id),
+          issuer: String(entry.issuer).replace(/\/$/, ''),
+          clientId: String(entry.clientId),
+          clientSecret: entry.clientSecret ? String(entry.clientSecret) : undefined,
+          scopes: Array.isArray(entry.scopes) ? entry.scopes.map(String) : undefined,
+        });
+      }
+    } catch {
+      console.error('[OIDC] ❌ OIDC_PROVIDERS is not valid JSON, no providers configured');
+    }
+  }
+  if (MOCK_IDP_ENABLED) {
+    configured.push({ id: 'mock', name: 'Mock IdP', issuer: mockIdpIssuer(), clientId: MOCK_IDP_CLIENT_ID });
+  }
+
+  providers = configured;
+  return providers;
+};
+
+const getProvider = (id: string): OidcProvider => {
+  const provider = getProviders().find(p => p.id === id);
+  if (!provider) throw new OidcError('Unknown sign-in provider', 'unknown_provider');
+  return provider;
+};
+
+// What the login page shows
+export const listOidcProviders = () => getProviders().map(({ id, name }) => ({ id, name }));
+
+const redirectUri = () => process.env.OIDC_REDIRECT_URI || `${getClientBaseUrl()}/auth/callback`;
+
+// --- Provider metadata and keys ---
+
+const discoveryCache = new Map<string, { discovery: Discovery; fetchedAt: number }>();
+const jwksCache = new Map<string, Map<string, crypto.KeyObject>>();
+
+async function discover(provider: OidcProvider): Promise<Discovery> {
+  const cached = discoveryCache.get(provider.id);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_TTL_MS) return cached.discovery;
+
+  const response = await fetch(`${provider.issuer}/.well-known/openid-configuration`);
+  if (!response.ok) throw new Error(`OIDC discovery failed for ${provider.id}: ${response.status}`);
+  const discovery = await response.json() as Discovery;
+  discoveryCache.set(provider.id, { discovery, fetchedAt: Date.now() });
+  return discovery;
+}
+
+async function signingKey(provider: OidcProvider, discovery: Discovery, kid: string | undefined): Promise<crypto.KeyObject> {
+  const find = () => {
+    const keys = jwksCache.get(provider.id);
+    if (!keys) return undefined;
+    return kid ? keys.get(kid) : keys.values().next().value;
+  };
+
+  // Keys rotate: an unknown kid means fetching the set again
+  let key = find();
+  if (!key) {
+    const response = await fetch(discovery.jwks_uri);
+    if (!response.ok) throw new Error(`OIDC JWKS fetch failed for ${provider.id}: ${response.status}`);
+    const { keys } = await response.json() as { keys: Array<crypto.JsonWebKey & { kid?: string; use?: string }> };
+    const byKid = new Map<string, crypto.KeyObject>();
+    for (const jwk of keys || []) {
+      if (jwk.use && jwk.use !== 'sig') continue;
+      try {
+        byKid.set(jwk.kid || '', crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+      } catch {
+        // A key type we can't use
+      }
+    }
+    jwksCache.set(provider.id, byKid);
+    key = find();
+  }
+  if (!key) throw new OidcError('ID token signed with an unknown key', 'invalid_id_token');
+  return key;
+}
+
+// --- PKCE and state ---
+
+const base64url = (buffer: Buffer) => buffer.toString('base64url');
+
+const stateKey = (state: string) => `${SHARED_STORE_PREFIX}oidc:state:${state}`;
+
+// Only same-app paths, so the callback can't bounce the user elsewhere
+const safeRedirect = (value: unknown): string | null =>
+  typeof value === 'string' && value.startsWith('/') && !value.startsWith('//') ? value.substring(0, 500) : null;
+
+// The provider URL to send the browser to
+export async function startOidcLogin(providerId: string, redirectTo?: unknown): Promise<string> {
+  const provider = getProvider(providerId);
+  const discovery = await discover(provider);
+
+  const state = base64url(crypto.randomBytes(24));
+  const nonce = base64url(crypto.randomBytes(24));
+  const codeVerifier = base64url(crypto.randomBytes(48));
+  const codeChallenge = base64url(crypto.createHash('sha256').update(codeVerifier).digest());
+
+  const pending: PendingLogin = { provider: provider.id, codeVerifier, nonce, redirectTo: safeRedirect(redirectTo) };
+  await getSharedStore().set(stateKey(state), JSON.stringify(pending), STATE_TTL_MS);
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: provider.clientId,
+    redirect_uri: redirectUri(),
+    scope: (provider.scopes || ['openid', 'email', 'profile']).join(' '),
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+  });
+  return `${discovery.authorization_endpoint}?${params.toString()}`;
+}
+
+// Each state works once, on whichever instance the browser comes back to
+async function consumeState(state: string): Promise<PendingLogin> {
+  const store = getSharedStore();
+  const raw = typeof state === 'string' && state ? await store.get(stateKey(state)) : null;
+  if (!raw || !(await store.del(stateKey(state)))) {
+    throw new OidcError('Sign-in expired or was already used, please try again', 'invalid_state');
+  }
+  return JSON.parse(raw) as PendingLogin;
+}
+
+// --- Code exchange ---
+
+interface IdentityClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  preferred_username?: string;
+}
+
+async function exchangeCode(provider: OidcProvider, discovery: Discovery, code: string, pending: PendingLogin) {
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri(),
+    code_verifier: pending.codeVerifier,
+    client_id: provider.clientId,
+  });
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+  if (provider.clientSecret) {
+    const credentials = `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(provider.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  const response = await fetch(discovery.token_endpoint, { method: 'POST', headers, body });
+  const data = await response.json().catch(() => ({})) as { id_token?: string; access_token?: string; error?: string };
+  if (!response.ok || !data.id_token) {
+    console.warn(`[OIDC] ⚠️ Token exchange with ${provider.id} failed: ${data.error || response.status}`);
+    throw new OidcError('The sign-in provider rejected the login', 'token_exchange_failed');
+  }
+  return { idToken: data.id_token, accessToken: data.access_token };
+}
+
+async function verifyIdToken(provider: OidcProvider, discovery: Discovery, idToken: string, nonce: string): Promise<IdentityClaims> {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new OidcError('Malformed ID token', 'invalid_id_token');
+  }
+
+  const key = await signingKey(provider, discovery, decoded.header.kid);
+  let claims: IdentityClaims & { nonce?: string };
+  try {
+    claims = jwt.verify(idToken, key, {
+      algorithms: ['RS256', 'RS384', 'RS512', 'PS256', 'ES256', 'ES384'],
+      issuer: discovery.issuer,
+      audience: provider.clientId,
+      clockTolerance: 60,
+    }) as typeof claims;
+  } catch (error: any) {
+    throw new OidcError(`ID token rejected: ${error.message}`, 'invalid_id_token');
+  }
+  if (!claims.sub || claims.nonce !== nonce) {
+    throw new OidcError('ID token does not belong to this sign-in', 'invalid_id_token');
+  }
+  return claims;
+}
+
+// Some providers keep the email out of the ID token
+async function withUserInfo(discovery: Discovery, claims: IdentityClaims, accessToken?: string): Promise<IdentityClaims> {
+  if (claims.email || !discovery.userinfo_endpoint || !accessToken) return claims;
+  const response = await fetch(discovery.userinfo_endpoint, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  }).catch(() => null);
+  if (!response?.ok) return claims;
+  const info = await response.json() as IdentityClaims;
+  // Userinfo about someone else is ignored
+  return info.sub === claims.sub ? { ...info, ...claims, email: info.email, email_verified: info.email_verified } : claims;
+}
+
+// --- Accounts ---
+
+const displayName = (claims: IdentityClaims, email: string): string => {
+  const candidate = (claims.name || claims.preferred_username || email.split('@')[0] || '').trim();
+  return candidate.length >= 2 ? candidate.substring(0, 50) : 'AceTime user';
+};
+
+/**
+ * Anyone can register with someone else's address, and AceTime doesn't check
+ * it at sign-up. Before a provider's identity joins an account whose owner
+ * never proved the inbox is theirs, whatever that owner set up - password,
+ * 2FA, signed-in devices - is thrown out, so whoever pre-registered the
+ * address can't keep a way in. The address is told what happened.
+ * Accounts from before `emailVerifiedAt` existed are backfilled as verified
+ * (scripts/migrate-email-verified.ts), so this only reaches newer sign-ups.
+ */
+async function claimUnverifiedAccount(user: IUser, provider: OidcProvider, io?: Server) {
+  user.passwordHash = crypto.randomBytes(32).toString('hex'); // Hashed by the pre-save hook, never disclosed
+  user.hasPassword = false;
+  user.passwordReset = undefined;
+  user.mfa = { enabled: false, recoveryCodes: [] };
+  await user.save();
+  const revoked = await revokeUserSessions(io, user._id.toString(), 'email_claimed');
+  console.warn(`[OIDC] ⚠️ ${user._id} had an unverified email: password and 2FA reset, ${revoked} session(s) revoked`);
+
+  await sendMail({
+    to: user.email,
+    subject: 'Your AceTime sign-in was reset',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      `Your AceTime account was just signed in to with ${provider.name}.`,
+      "This address hadn't been confirmed yet, so the account's password and two-factor",
+      'authentication were removed and every device was signed out.',
+      '',
+      `From now on, sign in with ${provider.name}, or use "Forgot password" to set a new password.`,
+    ].join('\n'),
+  }).catch(error => console.error(`[OIDC] ❌ Could not tell ${user._id} their sign-in was reset:`, error.message));
+}
+
+async function resolveUser(provider: OidcProvider, claims: IdentityClaims, io?: Server) {
+  const identity = { 'identities.provider': provider.id, 'identities.subject': claims.sub };
+  const existing = await User.findOne(identity);
+  if (existing) return { user: existing, created: false, linked: false };
+
+  const email = claims.email?.toLowerCase().trim();
+  const verified = claims.email_verified === true || claims.email_verified === 'true';
+  if (!email || !verified) {
+    throw new OidcError('Your sign-in provider did not confirm your email address', 'email_unverified');
+  }
+  const entry = { provider: provider.id, subject: claims.sub, email, linkedAt: new Date() };
+
+  const byEmail = await User.findOne({ email });
+  if (byEmail) {
+    // A provider already vouched for the address when another identity was linked
+    if (!byEmail.emailVerifiedAt && byEmail.identities.length === 0) {
+      await claimUnverifiedAccount(byEmail, provider, io);
+    }
+    byEmail.identities.push(entry);
+    byEmail.emailVerifiedAt = byEmail.emailVerifiedAt || new Date();
+    await byEmail.save();
+    console.log(`[OIDC] 🔗 Linked ${provider.id} identity to ${byEmail._id}`);
+    return { user: byEmail, created: false, linked: true };
+  }
+
+  if (!ALLOW_SIGNUP) {
+    throw new OidcError('No AceTime account uses this email', 'signup_disabled');
+  }
+  const user = await User.create({
+    name: displayName(claims, email),
+    email,
+    // Random, never disclosed - "Forgot password" sets a real one
+    passwordHash: crypto.randomBytes(32).toString('hex'),
+    hasPassword: false,
+    identities: [entry],
+    emailVerifiedAt: new Date(),
+  });
+  console.log(`[OIDC] ✅ Created ${user._id} for a new ${provider.id} identity`);
+  return { user, created: true, linked: false };
+}
+
+/**
+ * Finish a sign-in the provider sent back to the callback page: the
+ * account it belongs to, linked or created as needed.
+ */
+export async function completeOidcLogin(code: string, state: string, io?: Server): Promise<{
+  user: IUser;
+  provider: string;
+  created: boolean;
+  linked: boolean;
+  redirectTo: string | null;
+}> {
+  const pending = await consumeState(state);
+  const provider = getProvider(pending.provider);
+  const discovery = await discover(provider);
+
+  const tokens = await exchangeCode(provider, discovery, code, pending);
+  const claims = await withUserInfo(discovery, await verifyIdToken(provider, discovery, tokens.idToken, pending.nonce), tokens.accessToken);
+  const result = await resolveUser(provider, claims, io);
+
+  return { ...result, provider: provider.id, redirectTo: pending.redirectTo };
+}
@@ -0,0 +1,126 @@
+import type { LLMProvider, LLMProviderRequest, LLMProviderResult } from './llm';
+
+/**
+ * Ollama-compatible chat API (https://github.com/ollama/ollama/blob/main/docs/api.md).
+ *
+ * Works with Ollama itself and with servers that mimic its /api/chat
+ * endpoint, so models can run on the same machine or a private GPU box.
+ *
+ * OLLAMA_BASE_URL     server address, e.g. http://localhost:11434 (required)
+ * OLLAMA_MODEL        default model (default `llama3.2`)
+ * OLLAMA_TIMEOUT_MS   per-request time limit (default 120000)
+ */
+
+const DEFAULT_MODEL = process.env.OLLAMA_MODEL || 'llama3.2';
+const TIMEOUT_MS = Number(process.env.OLLAMA_TIMEOUT_MS || 120000);
+
+// /api/chat response shape we read (one object, or one per NDJSON line when streaming)
+interface OllamaChatResponse {
+  message?: { role: string; content: string };
+  done?: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+const baseUrl = () => process.env.OLLAMA_BASE_URL?.replace(/\/+$/, '');
+
+const usageOf = (response: OllamaChatResponse): LLMProviderResult['usage'] => {
+  if (typeof response.prompt_eval_count !== 'number' && typeof response.eval_count !== 'number') {
+    return undefined;
+  }
+  const promptTokens = response.prompt_eval_count || 0;
+  const completionTokens = response.eval_count || 0;
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+};
+
+const chat = async (request: LLMProviderRequest, stream: boolean) => {
+  const response = await fetch(`${baseUrl()}/api/chat`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      model: request.model,
+      messages: request.messages,
+      stream,
+      ...(request.json ? { format: 'json' } : {}),
+      options: {
+        temperature: request.temperature,
+        num_predict: request.maxTokens,
+      },
+    }),
+    signal: AbortSignal.timeout(TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '');
+    throw new Error(`Ollama API error: ${response.status} ${errorText.substring(0, 200)}`);
+  }
+  return response;
+};
+
+const complete = async (request: LLMProviderRequest): Promise<LLMProviderResult> => {
+  const response = await chat(request, false);
+  const result = await response.json() as OllamaChatResponse;
+  if (result.error) {
+    throw new Error(`Ollama error: ${result.error}`);
+  }
+
+  const text = result.message?.content;
+  if (!text) {
+    throw new Error('Empty response from Ollama');
+  }
+  return { text, usage: usageOf(result) };
+};
+
+const stream = async (
+  request: LLMProviderRequest,
+  onChunk: (chunk: string) => void
+): Promise<LLMProviderResult> => {
+  const response = await chat(request, true);
+  if (!response.body) {
+    throw new Error('Ollama returned no response body');
+  }
+
+  const decoder = new TextDecoder();
+  const reader = response.body.getReader();
+  let buffered = '';
+  let text = '';
+  let usage: LLMProviderResult['usage'];
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    const part = JSON.parse(line) as OllamaChatResponse;
+    if (part.error) {
+      throw new Error(`Ollama error: ${part.error}`);
+    }
+    const content = part.message?.content || '';
+    if (content) {
+      text += content;
+      onChunk(content);
+    }
+    if (part.done) {
+      usage = usageOf(part);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() || '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffered);
+
+  return { text, usage };
+};
+
+export const createOllamaProvider = (): LLMProvider => ({
+  name: 'ollama',
+  defaultModel: DEFAULT_MODEL,
+  isAvailable: () => !!baseUrl(),
+  complete,
+  stream,
+});
@@ -1,31 +1,11 @@
 import OpenAI from 'openai';
+import type { TranscriptionResult } from './transcription';
+import { completeJSON, LLMUnavailableError } from './llm';
+import { extractNotesFromTranscript } from './freeAI';
 
 // Lazy initialization of OpenAI client
 let openai: OpenAI | null = null;
 
-// Helper to check if error is a quota/rate limit error
-const isQuotaError = (error: any): boolean => {
-  if (!error) return false;
-  
-  // Check for OpenAI API error structure
-  if (error.status === 429 || error.code === 'insufficient_quota' || error.type === 'insufficient_quota') {
-    return true;
-  }
-  
-  // Check error message
-  const errorMessage = error.message?.toLowerCase() || '';
-  if (errorMessage.includes('quota') || errorMessage.includes('insufficient_quota') || errorMessage.includes('rate_limit')) {
-    return true;
-  }
-  
-  // Check nested error structure
-  if (error.error?.code === 'insufficient_quota' || error.error?.type === 'insufficient_quota') {
-    return true;
-  }
-  
-  return false;
-};
-
 export const getOpenAI = (): OpenAI | null => {
   if (openai) return openai;
   
@@ -40,15 +20,6 @@ export const getOpenAI = (): OpenAI | null => {
   return openai;
 };
 
-export interface TranscriptionResult {
-  text: string;
-  segments?: Array<{
-    start: number;
-    end: number;
-    text: string;
-  }>;
-}
-
 export interface NotesResult {
   summary: string;
   bullets: string[];
@@ -84,32 +55,16 @@ export interface ComprehensiveNotesResult {
   suggestedFollowUp?: string;
 }
 
-// Transcribe audio using Whisper
-export const transcribeAudio = async (
+// Transcribe audio using OpenAI Whisper (the `openai` transcription provider).
+// Throws on failure so the provider chain in services/transcription.ts can fall back.
+export const transcribeWithOpenAI = async (
   audioBuffer: Buffer,
-  language: string = 'en'
+  language: string = 'en',
+  mimeType: string = 'audio/webm'
 ): Promise<TranscriptionResult> => {
-  // PRIORITY: Try free AI first (always available, no cost)
-  try {
-    const { transcribeFreeAudio } = await import('./freeAI');
-    console.log('[WHISPER] 🆓 Trying free Hugging Face Whisper first...');
-    const result = await transcribeFreeAudio(audioBuffer, language);
-    console.log('[WHISPER] ✅ Free transcription successful');
-    return result;
-  } catch (freeError: any) {
-    console.warn('[WHISPER] ⚠️ Free transcription failed, trying OpenAI:', freeError.message);
-    // Fallback to OpenAI if free AI fails
-  }
-
   const client = getOpenAI();
-  
-  // If no OpenAI key, return unavailable message
   if (!client) {
-    console.warn('⚠️ OpenAI not configured - transcription unavailable');
-    return {
-      text: '[Transcription temporarily unavailable]',
-      segments: [],
-    };
+    throw new Error('OpenAI not configured');
   }
 
   try {
@@ -119,7 +74,7 @@ export const transcribeAudio = async (
     // Create a File-like object that works in Node.js
     // Using the buffer directly with proper metadata
     const file = new File([audioBuffer], 'audio.webm', { 
-      type: 'audio/webm',
+      type: mimeType,
       lastModified: Date.now(),
     });
 
@@ -129,65 +84,58 @@ export const transcribeAudio = async (
       model: 'whisper-1',
       language,
       response_format: 'verbose_json',
+      timestamp_granularities: ['segment', 'word'],
     });
 
     const transcribedText = response.text || '';
     console.log('[WHISPER] ✅ Transcription successful:', transcribedText.substring(0, 100) + (transcribedText.length > 100 ? '...' : ''));
 
+    const verbose = response as any;
     return {
       text: response.text,
-      segments: (response as any).segments?.map((seg: any) => ({
+      language: verbose.language,
+      segments: verbose.segments?.map((seg: any) => ({
         start: seg.start,
         end: seg.end,
         text: seg.text,
       })),
+      words: verbose.words?.map((w: any) => ({
+        word: w.word,
+        start: w.start,
+        end: w.end,
+      })),
     };
   } catch (error: any) {
-    console.error('[WHISPER] Transcription error:', error);
-    
-    // If quota exceeded, return a helpful message instead of crashing
-    if (isQuotaError(error)) {
-      console.warn('[WHISPER] ⚠️ OpenAI quota exceeded - returning unavailable message');
-      return {
-        text: '[Transcription temporarily unavailable - OpenAI quota exceeded. Please check your billing or try again later.]',
-        segments: [],
-      };
-    }
-    
+    console.error('[WHISPER] Transcription error:', error.status || '', error.message);
     throw error;
   }
 };
 
+const emptyNotes = (summary: string): NotesResult => ({
+  summary,
+  bullets: [],
+  actionItems: [],
+  decisions: [],
+  suggestedReplies: [],
+  keyTopics: [],
+});
+
+// Ensure all fields exist with defaults
+const normalizeNotes = (notes: Partial<NotesResult>): NotesResult => ({
+  summary: notes.summary || '',
+  bullets: notes.bullets || [],
+  actionItems: notes.actionItems || [],
+  decisions: notes.decisions || [],
+  suggestedReplies: notes.suggestedReplies || [],
+  keyTopics: notes.keyTopics || [],
+});
+
 // Generate AI notes from transcript
 export const generateNotes = async (
   transcriptText: string,
-  previousNotes?: Partial<NotesResult>
+  previousNotes?: Partial<NotesResult>,
+  userId?: string // Who the AI usage is charged to
 ): Promise<NotesResult> => {
-  // PRIORITY: Try free AI first (always available, no cost, better for most use cases)
-  try {
-    const { generateFreeNotes } = await import('./freeAI');
-    console.log('[NOTES] 🆓 Using free AI service for notes generation');
-    return await generateFreeNotes(transcriptText, previousNotes);
-  } catch (freeError: any) {
-    console.warn('[NOTES] ⚠️ Free AI failed, trying OpenAI fallback:', freeError.message);
-    // Fallback to OpenAI if free AI fails
-  }
-
-  const client = getOpenAI();
-  
-  // If no OpenAI key, return basic notes
-  if (!client) {
-    console.log('[NOTES] ⚠️ OpenAI not configured - using basic extraction');
-    return {
-      summary: 'Notes generation temporarily unavailable.',
-      bullets: [],
-      actionItems: [],
-      decisions: [],
-      suggestedReplies: [],
-      keyTopics: [],
-    };
-  }
-
   const systemPrompt = `You are AceTime AI assistant. Based on the meeting transcript provided, generate structured notes.
 
 Return a JSON object with these exact fields:
@@ -214,57 +162,23 @@ ${transcriptText}
 Generate meeting notes from this transcript.`;
 
   try {
-    const response = await client.chat.completions.create({
-      model: 'gpt-4o', // Updated to valid model name
+    const { data, response } = await completeJSON<NotesResult>('notes', {
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt },
       ],
-      response_format: { type: 'json_object' },
       temperature: 0.7,
-      max_tokens: 1000,
+      maxTokens: 1000,
+      userId,
     });
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No response from OpenAI');
-    }
-
-    const notes = JSON.parse(content) as NotesResult;
-    
-    // Ensure all fields exist with defaults
-    return {
-      summary: notes.summary || '',
-      bullets: notes.bullets || [],
-      actionItems: notes.actionItems || [],
-      decisions: notes.decisions || [],
-      suggestedReplies: notes.suggestedReplies || [],
-      keyTopics: notes.keyTopics || [],
-    };
+    console.log(`[NOTES] ✅ Notes generated with ${response.provider} (${response.model})`);
+    return normalizeNotes(data);
   } catch (error: any) {
-    console.error('[OPENAI] Notes generation error:', error);
-    
-    // If quota exceeded, fallback to free AI service
-    if (isQuotaError(error)) {
-      console.warn('[OPENAI] ⚠️ OpenAI quota exceeded - falling back to free AI service');
-      try {
-        const { generateFreeNotes } = await import('./freeAI');
-        return generateFreeNotes(transcriptText, previousNotes);
-      } catch (fallbackError) {
-        console.error('[OPENAI] Free AI fallback also failed:', fallbackError);
-        // Return basic notes structure
-        return {
-          summary: 'Notes generation temporarily unavailable due to API quota limits.',
-          bullets: [],
-          actionItems: [],
-          decisions: [],
-          suggestedReplies: [],
-          keyTopics: [],
-        };
-      }
-    }
-    
-    throw error;
+    if (!(error instanceof LLMUnavailableError)) throw error;
+
+    // No provider reachable - keep live notes going with pattern extraction
+    console.warn('[NOTES] ⚠️ No AI provider available - using pattern-based extraction');
+    return extractNotesFromTranscript(transcriptText, previousNotes);
   }
 };
 
@@ -272,33 +186,9 @@ Generate meeting notes from this transcript.`;
 export const generateFinalSummary = async (
   transcriptText: string,
   participants: string[],
-  duration: number
+  duration: number,
+  userId?: string
 ): Promise<NotesResult> => {
-  // PRIORITY: Try free AI first (always available, no cost)
-  try {
-    const { generateFreeNotes } = await import('./freeAI');
-    console.log('[NOTES] 🆓 Using free AI service for final summary');
-    return await generateFreeNotes(transcriptText);
-  } catch (freeError: any) {
-    console.warn('[NOTES] ⚠️ Free AI failed, trying OpenAI fallback:', freeError.message);
-    // Fallback to OpenAI if free AI fails
-  }
-
-  const client = getOpenAI();
-  
-  // If no OpenAI key, return basic notes
-  if (!client) {
-    console.log('[NOTES] ⚠️ OpenAI not configured - using basic extraction');
-    return {
-      summary: 'Summary generation temporarily unavailable.',
-      bullets: [],
-      actionItems: [],
-      decisions: [],
-      suggestedReplies: [],
-      keyTopics: [],
-    };
-  }
-
   const systemPrompt = `You are AceTime AI assistant. Generate a comprehensive executive summary and analysis of a completed meeting/call.
 
 Participants: ${participants.join(', ') || 'Unknown'}
@@ -320,57 +210,24 @@ ${transcriptText}
 Generate a comprehensive executive summary and analysis.`;
 
   try {
-    const response = await client.chat.completions.create({
-      model: 'gpt-4o',
+    const { data, response } = await completeJSON<NotesResult>('finalSummary', {
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt },
       ],
-      response_format: { type: 'json_object' },
       temperature: 0.7,
-      max_tokens: 2000,
+      maxTokens: 2000,
+      userId,
     });
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No response from OpenAI');
-    }
-
-    const notes = JSON.parse(content) as NotesResult;
-    
-    // Ensure all fields exist with defaults
-    return {
-      summary: notes.summary || '',
-      bullets: notes.bullets || [],
-      actionItems: notes.actionItems || [],
-      decisions: notes.decisions || [],
-      suggestedReplies: notes.suggestedReplies || [],
-      keyTopics: notes.keyTopics || [],
-    };
+    console.log(`[NOTES] ✅ Final summary generated with ${response.provider} (${response.model})`);
+    return normalizeNotes(data);
   } catch (error: any) {
-    console.error('[OPENAI] Final summary generation error:', error);
-    
-    // If quota exceeded, fallback to free AI service
-    if (isQuotaError(error)) {
-      console.warn('[OPENAI] ⚠️ OpenAI quota exceeded - falling back to free AI service');
-      try {
-        const { generateFreeNotes } = await import('./freeAI');
-        return generateFreeNotes(transcriptText);
-      } catch (fallbackError) {
-        console.error('[OPENAI] Free AI fallback also failed:', fallbackError);
-        // Return basic notes structure
-        return {
-          summary: 'Summary generation temporarily unavailable due to API quota limits.',
-          bullets: [],
-          actionItems: [],
-          decisions: [],
-          suggestedReplies: [],
-          keyTopics: [],
-        };
-      }
-    }
-    
-    throw error;
+    if (!(error instanceof LLMUnavailableError)) throw error;
+
+    console.warn('[NOTES] ⚠️ No AI provider available - using pattern-based extraction');
+    return transcriptText.trim()
+      ? extractNotesFromTranscript(transcriptText)
+      : emptyNotes('Summary generation temporarily unavailable.');
   }
 };
 
@@ -381,32 +238,6 @@ export const generateComprehensiveNotes = async (
   duration: number,
   callDate: Date
 ): Promise<ComprehensiveNotesResult> => {
-  // PRIORITY: Try free AI first (always available, no cost)
-  try {
-    const { generateFreeComprehensiveNotes } = await import('./freeAI');
-    console.log('[NOTES] 🆓 Using free AI service for comprehensive notes');
-    return await generateFreeComprehensiveNotes(transcriptText, participants, duration, callDate);
-  } catch (freeError: any) {
-    console.warn('[NOTES] ⚠️ Free AI failed, trying OpenAI fallback:', freeError.message);
-    // Fallback to OpenAI if free AI fails
-  }
-
-  const client = getOpenAI();
-  
-  if (!client) {
-    console.log('[NOTES] ⚠️ OpenAI not configured - using basic notes');
-    return {
-      title: 'Meeting Notes',
-      summary: 'Comprehensive notes generation temporarily unavailable.',
-      sections: [],
-      actionItems: [],
-      decisions: [],
-      keyPoints: [],
-      questionsRaised: [],
-      nextSteps: [],
-    };
-  }
-
   const systemPrompt = `You are AceTime AI assistant. Generate comprehensive, structured meeting notes from a completed call transcript.
 
 Participants: ${participants.join(', ') || 'Unknown'}
@@ -443,24 +274,16 @@ ${transcriptText}
 Generate comprehensive, structured meeting notes.`;
 
   try {
-    const response = await client.chat.completions.create({
-      model: 'gpt-4o',
+    const { data: notes, response } = await completeJSON<ComprehensiveNotesResult>('comprehensiveNotes', {
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt },
       ],
-      response_format: { type: 'json_object' },
       temperature: 0.7,
-      max_tokens: 4000,
+      maxTokens: 4000,
     });
+    console.log(`[NOTES] ✅ Comprehensive notes generated with ${response.provider} (${response.model})`);
 
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No response from OpenAI');
-    }
-
-    const notes = JSON.parse(content) as ComprehensiveNotesResult;
-    
     // Ensure all fields exist with defaults
     return {
       title: notes.title || 'Meeting Notes',
@@ -474,14 +297,13 @@ Generate comprehensive, structured meeting notes.`;
       suggestedFollowUp: notes.suggestedFollowUp || undefined,
     };
   } catch (error: any) {
-    console.error('[OPENAI] Comprehensive notes generation error:', error);
-    
-    // If quota exceeded, return basic structure instead of crashing
-    if (isQuotaError(error)) {
-      console.warn('[OPENAI] ⚠️ OpenAI quota exceeded - returning basic notes structure');
+    if (!(error instanceof LLMUnavailableError)) throw error;
+
+    console.warn('[NOTES] ⚠️ No AI provider available - returning extracted notes');
+    if (!transcriptText.trim()) {
       return {
         title: 'Meeting Notes',
-        summary: 'Comprehensive notes generation temporarily unavailable due to API quota limits. Please check your OpenAI billing or try again later.',
+        summary: 'Comprehensive notes generation temporarily unavailable.',
         sections: [],
         actionItems: [],
         decisions: [],
@@ -490,8 +312,18 @@ Generate comprehensive, structured meeting notes.`;
         nextSteps: [],
       };
     }
-    
-    throw error;
+
+    const extracted = extractNotesFromTranscript(transcriptText);
+    return {
+      title: 'Meeting Notes',
+      summary: extracted.summary,
+      sections: [],
+      actionItems: extracted.actionItems.map(a => ({ item: a.text, priority: 'medium' as const })),
+      decisions: extracted.decisions.map(decision => ({ decision, context: '', timestamp: '' })),
+      keyPoints: extracted.bullets,
+      questionsRaised: [],
+      nextSteps: [],
+    };
   }
 };
 
@@ -0,0 +1,81 @@
+import crypto from 'crypto';
+import { Server } from 'socket.io';
+import { User, IUser } from '../models/User';
+import { sendMail } from './mailer';
+import { getClientBaseUrl } from './clientUrl';
+import { revokeUserSessions } from './sessions';
+
+// Reset links are valid for 1 hour by default
+const RESET_TOKEN_TTL_MS = Number(process.env.PASSWORD_RESET_TTL_MINUTES || 60) * 60 * 1000;
+
+const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Issue a new reset token for the user. Any previous token is replaced,
+ * so only the most recently emailed link works.
+ */
+export const createPasswordResetToken = async (user: IUser): Promise<string> => {
+  const token = crypto.randomBytes(32).toString('hex');
+
+  user.passwordReset = {
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MS),
+  };
+  await user.save();
+
+  return token;
+};
+
+/**
+ * Set a new password and consume the token. The token is removed in the
+ * same update that finds it, so two requests racing with one link can't
+ * both succeed. Every session is revoked so all devices have to sign in again.
+ */
+export const resetPasswordWithToken = async (
+  token: string,
+  newPassword: string,
+  io?: Server
+): Promise<IUser | null> => {
+  const user = await User.findOneAndUpdate(
+    {
+      'passwordReset.tokenHash': hashToken(token),
+      'passwordReset.expiresAt': { $gt: new Date() },
+    },
+    { $unset: { passwordReset: 1 } },
+    { new: true }
+  );
+  if (!user) return null;
+
+  user.passwordHash = newPassword; // Will be hashed by pre-save hook
+  user.hasPassword = true;
+  user.emailVerifiedAt = user.emailVerifiedAt || new Date(); // The link reached their inbox
+  await user.save();
+  await revokeUserSessions(io, user._id.toString(), 'password_reset');
+
+  return user;
+};
+
+export const sendPasswordResetEmail = async (user: IUser, token: string): Promise<void> => {
+  const resetUrl = `${getClientBaseUrl()}/reset-password?token=${token}`;
+  const ttlMinutes = Math.round(RESET_TOKEN_TTL_MS / 60000);
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your AceTime password',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'We received a request to reset your AceTime password.',
+      `Open the link below to choose a new one (valid for ${ttlMinutes} minutes):`,
+      '',
+      resetUrl,
+      '',
+      "If you didn't request this, you can safely ignore this email.",
+    ].join('\n'),
+    html: `<p>Hi,</p>
+<p>We received a request to reset your AceTime password.</p>
+<p><a href="${resetUrl}">Choose a new password</a> (valid for ${ttlMinutes} minutes).</p>
+<p>If you didn't request this, you can safely ignore this email.</p>`,
+  });
+};
@@ -0,0 +1,75 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryStore, setSharedStore, SharedStore } from './sharedStore';
+import { takeRateLimit } from './rateLimits';
+
+describe('token bucket (memory store)', () => {
+  let store: SharedStore;
+
+  beforeEach(() => {
+    store = createMemoryStore();
+    mock.timers.enable({ apis: ['Date'], now: 1_000_000 });
+  });
+  afterEach(() => mock.timers.reset());
+
+  it('lets a full bucket through, then refuses with the wait until the next token', async () => {
+    for (let i = 0; i < 3; i++) {
+      assert.equal((await store.takeTokens('bucket', 3, 1, 1)).allowed, true);
+    }
+    assert.deepEqual(await store.takeTokens('bucket', 3, 1, 1), { allowed: false, tokens: 0, retryAfterMs: 1000 });
+  });
+
+  it('refills continuously up to its capacity', async () => {
+    await store.takeTokens('bucket', 3, 2, 3);
+    mock.timers.tick(500);
+    assert.deepEqual(await store.takeTokens('bucket', 3, 2, 1), { allowed: true, tokens: 0, retryAfterMs: 0 });
+
+    mock.timers.tick(60_000);
+    assert.equal((await store.takeTokens('bucket', 3, 2, 0)).tokens, 3);
+  });
+
+  it('takes nothing from a refused request', async () => {
+    await store.takeTokens('bucket', 5, 1, 4);
+    const refused = await store.takeTokens('bucket', 5, 1, 3);
+    assert.equal(refused.allowed, false);
+    assert.equal(refused.retryAfterMs, 2000);
+    assert.equal((await store.takeTokens('bucket', 5, 1, 1)).allowed, true);
+  });
+
+  it('keeps buckets apart', async () => {
+    await store.takeTokens('a', 1, 1, 1);
+    assert.equal((await store.takeTokens('b', 1, 1, 1)).allowed, true);
+  });
+});
+
+describe('takeRateLimit', () => {
+  beforeEach(() => {
+    setSharedStore(createMemoryStore());
+    mock.timers.enable({ apis: ['Date'], now: 1_000_000 });
+  });
+  afterEach(() => mock.timers.reset());
+
+  it('caps each subject at the policy and says when to retry', async () => {
+    // imageGeneration: 5 at once, then one every two minutes
+    for (let i = 0; i < 5; i++) {
+      assert.equal((await takeRateLimit('imageGeneration', 'user:1')).allowed, true);
+    }
+    assert.deepEqual(await takeRateLimit('imageGeneration', 'user:1'), {
+      allowed: false,
+      limit: 5,
+      remaining: 0,
+      retryAfter: 120,
+    });
+    assert.equal((await takeRateLimit('imageGeneration', 'user:2')).allowed, true);
+
+    mock.timers.tick(120_000);
+    assert.equal((await takeRateLimit('imageGeneration', 'user:1')).allowed, true);
+  });
+
+  it('checks without spending when the cost is zero', async () => {
+    await takeRateLimit('aiChat', 'user:1', 4);
+    const status = await takeRateLimit('aiChat', 'user:1', 0);
+    assert.equal(status.remaining, 6);
+    assert.equal((await takeRateLimit('aiChat', 'user:1', 0)).remaining, 6);
+  });
+});
@@ -0,0 +1,117 @@
+import { getSharedStore, SHARED_STORE_PREFIX } from './sharedStore';
+
+/**
+ * Request rate limits: a token bucket per user and policy.
+ *
+ * A bucket holds `capacity` requests and refills at `perMinute`, so a burst
+ * goes through but sustained use is capped. Buckets live in the shared
+ * store, so every backend instance draws from the same one. Spend on paid
+ * AI providers is capped separately by the daily credits (services/aiCredits.ts).
+ *
+ * RATE_LIMITS          JSON object overriding policies, e.g.
+ *                      `{ "imageGeneration": { "capacity": 2, "perMinute": 0.1 } }`
+ * RATE_LIMITS_ENABLED  `false` turns every limit off (default on)
+ */
+
+export type RateLimitPolicy =
+  | 'api'
+  | 'aiChat'
+  | 'aiCommand'
+  | 'analysis'
+  | 'imageGeneration'
+  | 'matching'
+  | 'transcription'
+  | 'upload';
+
+export interface RateLimitConfig {
+  capacity: number;
+  perMinute: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfter: number; // Seconds (0 when allowed)
+}
+
+const DEFAULT_POLICIES: Record<RateLimitPolicy, RateLimitConfig> = {
+  api: { capacity: 300, perMinute: 300 }, // Every /api request
+  aiChat: { capacity: 10, perMinute: 10 },
+  aiCommand: { capacity: 10, perMinute: 10 },
+  analysis: { capacity: 5, perMinute: 4 }, // Live call notes, asked for every 30 seconds by each participant
+  imageGeneration: { capacity: 5, perMinute: 0.5 },
+  matching: { capacity: 3, perMinute: 0.1 }, // One LLM call per candidate
+  transcription: { capacity: 30, perMinute: 60 }, // Speech sent for transcription, about a second each
+  upload: { capacity: 20, perMinute: 30 },
+};
+
+export const RATE_LIMITS_ENABLED = process.env.RATE_LIMITS_ENABLED !== 'false';
+
+let policies: Record<RateLimitPolicy, RateLimitConfig> | null = null;
+
+const getPolicies = (): Record<RateLimitPolicy, RateLimitConfig> => {
+  if (policies) return policies;
+
+  const configured = { ...DEFAULT_POLICIES };
+  if (process.env.RATE_LIMITS) {
+    try {
+      const parsed = JSON.parse(process.env.RATE_LIMITS);
+      for (const [name, entry] of Object.entries(parsed || {}) as Array<[string, any]>) {
+        if (!(name in DEFAULT_POLICIES)) {
+          console.warn(`[RATE] ⚠️ Ignoring unknown rate limit policy "${name}"`);
+          continue;
+        }
+        const capacity = Number(entry?.capacity ?? configured[name as RateLimitPolicy].capacity);
+        const perMinute = Number(entry?.perMinute ?? configured[name as RateLimitPolicy].perMinute);
+        if (capacity > 0 && perMinute > 0) {
+          configured[name as RateLimitPolicy] = { capacity, perMinute };
+        } else {
+          console.warn(`[RATE] ⚠️ Ignoring rate limit "${name}" without a positive capacity and perMinute`);
+        }
+      }
+    } catch (error: any) {
+      console.error('[RATE] ❌ RATE_LIMITS is not valid JSON:', error.message);
+    }
+  }
+
+  policies = configured;
+  return policies;
+};
+
+const bucketKey = (policy: RateLimitPolicy, subject: string) => `${SHARED_STORE_PREFIX}ratelimit:${policy}:${subject}`;
+
+// Take `cost` from the subject's bucket (a subject is `user:<id>` or `ip:<address>`)
+export async function takeRateLimit(policy: RateLimitPolicy, subject: string, cost = 1): Promise<RateLimitResult> {
+  const { capacity, perMinute } = getPolicies()[policy];
+  if (!RATE_LIMITS_ENABLED) return { allowed: true, limit: capacity, remaining: capacity, retryAfter: 0 };
+
+  const bucket = await getSharedStore().takeTokens(bucketKey(policy, subject), capacity, perMinute / 60, cost);
+  if (!bucket.allowed && cost > 0) {
+    console.warn(`[RATE] 🚦 ${subject} hit the ${policy} limit`);
+  }
+  return {
+    allowed: bucket.allowed,
+    limit: capacity,
+    remaining: Math.floor(bucket.tokens),
+    retryAfter: bucket.allowed ? 0 : Math.max(1, Math.ceil(bucket.retryAfterMs / 1000)),
+  };
+}
+
+// Every policy with what the subject has left of it
+export async function getRateLimitStatus(subject: string) {
+  const entries = await Promise.all(
+    (Object.keys(getPolicies()) as RateLimitPolicy[]).map(async (policy) => {
+      const { perMinute } = getPolicies()[policy];
+      const { limit, remaining } = await takeRateLimit(policy, subject, 0);
+      return [policy, { limit, remaining, perMinute }] as const;
+    })
+  );
+  return Object.fromEntries(entries) as Record<RateLimitPolicy, { limit: number; remaining: number; perMinute: number }>;
+}
+
+// Configuration for /api/info
+export const getRateLimitConfig = () => ({
+  enabled: RATE_LIMITS_ENABLED,
+  policies: getPolicies(),
+});
@@ -0,0 +1,170 @@
+import { Server } from 'socket.io';
+import mongoose from 'mongoose';
+import { CallSession, ICallSession } from '../models/CallSession';
+import { CallParticipant } from '../models/CallParticipant';
+import {
+  RoomRecordingRequest,
+  getRoom,
+  getParticipants,
+  getRecordingRequest,
+  setRecordingRequest,
+  getConsents,
+  setConsent,
+  clearConsent,
+  hasConsent,
+  getRecording,
+} from '../socket/roomStore';
+
+/**
+ * Recording consent.
+ *
+ * Nothing of a participant is recorded or transcribed until they agree. Any
+ * participant can ask (`recording:request`, sent on the host's behalf when a
+ * call with auto-record starts); everyone else answers with
+ * `recording:consent` and can change their mind at any time. Answers are
+ * kept in the room store for the per-chunk checks and every answer is
+ * appended to CallSession.recordingConsent.
+ *
+ * - Transcription (`audio:chunk`, `transcript:manual`) and the server
+ *   recorder (`recorder:chunk`) only take a participant's own media once
+ *   that participant consented.
+ * - A browser recording mixes everyone, so it can only start while everyone
+ *   in the room consented.
+ */
+
+export type ConsentAnswer = 'granted' | 'declined' | 'pending';
+
+export interface RecordingConsentState {
+  requestedBy: RoomRecordingRequest | null;
+  participants: { userId: string; userName: string; consent: ConsentAnswer }[];
+  recording: { userId: string; userName: string }[]; // Who is recording right now
+  allConsented: boolean;
+}
+
+interface ConsentUser {
+  userId: string;
+  userName: string;
+}
+
+// Anonymous socket users have nothing to store on the call
+const persistAnswer = async (callId: string | undefined, user: ConsentUser, granted: boolean) => {
+  if (!callId || !mongoose.Types.ObjectId.isValid(user.userId)) return;
+  await CallSession.updateOne(
+    { _id: callId },
+    { $push: { 'recordingConsent.responses': { userId: user.userId, userName: user.userName, granted, at: new Date() } } }
+  );
+};
+
+// A participant's latest answer (userId -> granted)
+const latestAnswers = (callSession: ICallSession): Map<string, boolean> => {
+  const answers = new Map<string, boolean>();
+  for (const response of callSession.recordingConsent?.responses || []) {
+    answers.set(response.userId.toString(), response.granted);
+  }
+  return answers;
+};
+
+export async function getConsentState(roomId: string): Promise<RecordingConsentState> {
+  const [requestedBy, consents, participants, recording] = await Promise.all([
+    getRecordingRequest(roomId),
+    getConsents(roomId),
+    getParticipants(roomId),
+    getRecording(roomId),
+  ]);
+
+  // One entry per user, however many tabs they have open
+  const users = new Map<string, ConsentUser>();
+  for (const p of participants) users.set(p.userId, { userId: p.userId, userName: p.userName });
+  const recordingUsers = new Map<string, ConsentUser>();
+  for (const p of recording) recordingUsers.set(p.userId, { userId: p.userId, userName: p.userName });
+
+  const answers = Array.from(users.values()).map(user => ({
+    ...user,
+    consent: (user.userId in consents
+      ? (consents[user.userId] ? 'granted' : 'declined')
+      : 'pending') as ConsentAnswer,
+  }));
+
+  return {
+    requestedBy,
+    participants: answers,
+    recording: Array.from(recordingUsers.values()),
+    allConsented: answers.length > 0 && answers.every(a => a.consent === 'granted'),
+  };
+}
+
+export const broadcastConsentState = async (io: Server, roomId: string) => {
+  io.to(roomId).emit('recording:state', await getConsentState(roomId));
+};
+
+/**
+ * Ask the room for consent. The requester consents by asking; anyone who
+ * declined an earlier request is asked again.
+ */
+export async function requestRecording(roomId: string, callId: string | undefined, requester: ConsentUser) {
+  const at = Date.now();
+  await setRecordingRequest(roomId, { userId: requester.userId, userName: requester.userName, at });
+
+  const consents = await getConsents(roomId);
+  for (const [userId, granted] of Object.entries(consents)) {
+    if (!granted) await clearConsent(roomId, userId);
+  }
+  await setConsent(roomId, requester.userId, true);
+
+  if (callId && mongoose.Types.ObjectId.isValid(requester.userId)) {
+    await CallSession.updateOne(
+      { _id: callId },
+      { $set: { 'recordingConsent.requestedBy': requester.userId, 'recordingConsent.requestedAt': new Date(at) } }
+    );
+  }
+  await persistAnswer(callId, requester, true);
+  console.log(`[CONSENT] 🎙️ ${requester.userName} asked to record room ${roomId}`);
+}
+
+export async function recordConsent(roomId: string, callId: string | undefined, user: ConsentUser, granted: boolean) {
+  await setConsent(roomId, user.userId, granted);
+  await persistAnswer(callId, user, granted);
+  console.log(`[CONSENT] ${granted ? '✅' : '🚫'} ${user.userName} ${granted ? 'consented to' : 'declined'} recording in room ${roomId}`);
+}
+
+export const hasRecordingConsent = (roomId: string, userId: string): Promise<boolean> =>
+  hasConsent(roomId, userId);
+
+/**
+ * Put a call's request and answers back into a room that lost them (the
+ * backend restarted during the call).
+ */
+export async function restoreConsent(roomId: string, callSession: ICallSession) {
+  const { requestedBy, requestedAt } = callSession.recordingConsent || {};
+  if (!requestedBy || !requestedAt || await getRecordingRequest(roomId)) return;
+
+  const answers = latestAnswers(callSession);
+  const requester = (callSession.recordingConsent.responses || [])
+    .find(r => r.userId.toString() === requestedBy.toString());
+  await setRecordingRequest(roomId, {
+    userId: requestedBy.toString(),
+    userName: requester?.userName || 'Someone',
+    at: requestedAt.getTime(),
+  });
+  for (const [userId, granted] of answers) {
+    await setConsent(roomId, userId, granted);
+  }
+}
+
+/**
+ * May `userId` upload a recording of the whole call? During the call,
+ * everyone in the room has to have consented; afterwards, everyone who
+ * attended. The uploader always has to.
+ */
+export async function canRecordCall(callSession: ICallSession, userId: string): Promise<boolean> {
+  const roomId = callSession.roomId;
+  if (await getRoom(roomId)) {
+    const [participants, consents] = await Promise.all([getParticipants(roomId), getConsents(roomId)]);
+    return consents[userId] === true && participants.every(p => consents[p.userId] === true);
+  }
+
+  const answers = latestAnswers(callSession);
+  const attended: string[] = (await CallParticipant.find({ callId: callSession._id }).distinct('userId'))
+    .map((id: any) => id.toString());
+  return answers.get(userId) === true && attended.every(id => answers.get(id) === true);
+}
@@ -0,0 +1,246 @@
+import mongoose from 'mongoose';
+import { User, IUser } from '../models/User';
+import { CallSession } from '../models/CallSession';
+import { Transcript } from '../models/Transcript';
+import { Notes } from '../models/Notes';
+import { CallQualitySample } from '../models/CallQualitySample';
+import { Message } from '../models/Message';
+import { Conversation } from '../models/Conversation';
+import { GridFSFile } from 'mongodb';
+import { deleteRecording, getRecordingInfo, isStorageReady, listRecordingsForCalls } from './storage';
+
+/**
+ * Chat history retention (settings.privacy.chatHistory).
+ *
+ * A user's policy applies to the history they own:
+ * - calls they hosted: transcript, notes and GridFS recordings
+ * - messages they sent, and every message in conversations only they are
+ *   in (e.g. their AI chat); other people's messages in shared threads are
+ *   theirs to keep
+ * The call/conversation records themselves are kept so call history and
+ * threads still show up, only their content is purged.
+ */
+
+export type ChatHistoryPolicy = IUser['settings']['privacy']['chatHistory'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How often the background worker sweeps (default hourly)
+const SWEEP_INTERVAL_MS = Number(process.env.RETENTION_SWEEP_INTERVAL_MINUTES || 60) * 60 * 1000;
+
+export interface RetentionReport {
+  userId: string;
+  policy: ChatHistoryPolicy;
+  cutoff: Date | null; // Content created before this is purged; null = keep forever
+  calls: number;
+  transcripts: number;
+  notes: number;
+  recordings: { count: number; bytes: number };
+  messages: number;
+  conversations: number;
+  dryRun: boolean;
+  generatedAt: Date;
+}
+
+// Content older than the returned date is purged (null = keep forever)
+export const getRetentionCutoff = (policy: ChatHistoryPolicy, now: Date = new Date()): Date | null => {
+  switch (policy) {
+    case '7days':
+      return new Date(now.getTime() - 7 * DAY_MS);
+    case '30days':
+      return new Date(now.getTime() - 30 * DAY_MS);
+    case 'delete':
+      return now;
+    case 'forever':
+    default:
+      return null;
+  }
+};
+
+export const CHAT_HISTORY_POLICIES: ChatHistoryPolicy[] = ['forever', '30days', '7days', 'delete'];
+
+/**
+ * Purge (or, with dryRun, just count) everything older than the user's
+ * retention window. Calls that are still in progress are never touched.
+ * `policy` overrides the stored setting, which lets a dry run preview a
+ * choice before it is saved.
+ */
+export async function applyRetentionPolicy(
+  user: Pick<IUser, '_id' | 'settings'>,
+  options: { dryRun: boolean; policy?: ChatHistoryPolicy }
+): Promise<RetentionReport> {
+  const policy = options.policy || user.settings?.privacy?.chatHistory || 'forever';
+  const cutoff = getRetentionCutoff(policy);
+
+  const report: RetentionReport = {
+    userId: user._id.toString(),
+    policy,
+    cutoff,
+    calls: 0,
+    transcripts: 0,
+    notes: 0,
+    recordings: { count: 0, bytes: 0 },
+    messages: 0,
+    conversations: 0,
+    dryRun: options.dryRun,
+    generatedAt: new Date(),
+  };
+
+  if (!cutoff) return report;
+
+  // Hosted calls that finished before the cutoff
+  const calls = await CallSession.find({
+    hostId: user._id,
+    status: { $in: ['ended', 'failed'] },
+    startedAt: { $lt: cutoff },
+  }).select('_id recordingKey');
+
+  const callIds = calls.map(c => c._id);
+  const callIdStrings = callIds.map(id => id.toString());
+  report.calls = calls.length;
+
+  // Recordings are matched both by metadata and by the call's recordingKey
+  let recordingFiles: GridFSFile[] = [];
+  if (callIds.length > 0 && isStorageReady()) {
+    recordingFiles = await listRecordingsForCalls(callIdStrings);
+    const knownIds = new Set(recordingFiles.map(f => f._id.toString()));
+    const missingKeys = calls
+      .map(c => c.recordingKey)
+      .filter((key): key is string => !!key && !knownIds.has(key));
+    for (const key of missingKeys) {
+      const info = await getRecordingInfo(key).catch(() => null);
+      if (info) recordingFiles.push(info);
+    }
+  }
+
+  // The user's own messages, plus everything in conversations nobody else is in
+  const soloConversationIds = await Conversation.find({
+    participants: user._id,
+    'participants.1': { $exists: false },
+  }).distinct('_id');
+  const messageQuery = {
+    $or: [{ senderId: user._id }, { conversationId: { $in: soloConversationIds } }],
+    createdAt: { $lt: cutoff },
+  };
+
+  const [transcripts, notes, messages, conversationsWithMessages] = await Promise.all([
+    Transcript.countDocuments({ callId: { $in: callIds } }),
+    Notes.countDocuments({ callId: { $in: callIds } }),
+    Message.countDocuments(messageQuery),
+    Message.distinct('conversationId', messageQuery),
+  ]);
+
+  report.transcripts = transcripts;
+  report.notes = notes;
+  report.messages = messages;
+  report.conversations = conversationsWithMessages.length;
+  report.recordings = {
+    count: recordingFiles.length,
+    bytes: recordingFiles.reduce((sum, f) => sum + (f.length || 0), 0),
+  };
+
+  if (options.dryRun) return report;
+
+  // Purge
+  await Promise.all([
+    Transcript.deleteMany({ callId: { $in: callIds } }),
+    Notes.deleteMany({ callId: { $in: callIds } }),
+    CallQualitySample.deleteMany({ callId: { $in: callIds } }),
+    Message.deleteMany(messageQuery),
+  ]);
+
+  for (const file of recordingFiles) {
+    try {
+      await deleteRecording(file._id.toString());
+    } catch (error: any) {
+      console.error('[RETENTION] Failed to delete recording:', file._id.toString(), error.message);
+    }
+  }
+
+  if (callIds.length > 0) {
+    await CallSession.updateMany(
+      { _id: { $in: callIds } },
+      {
+        $set: {
+          transcriptId: null,
+          notesId: null,
+          recordingKey: null,
+          recordingUrl: null,
+          'metadata.recordingSize': null,
+        },
+      }
+    );
+  }
+
+  if (report.calls || report.messages || report.recordings.count) {
+    console.log('[RETENTION] 🧹 Purged history:', {
+      userId: report.userId,
+      policy,
+      calls: report.calls,
+      transcripts: report.transcripts,
+      notes: report.notes,
+      recordings: report.recordings.count,
+      messages: report.messages,
+    });
+  }
+
+  return report;
+}
+
+// Run the retention policy for every user who limits their history
+export async function runRetentionSweep(): Promise<number> {
+  const users = await User.find({
+    'settings.privacy.chatHistory': { $in: ['7days', '30days', 'delete'] },
+  }).select('_id settings');
+
+  let purgedUsers = 0;
+  for (const user of users) {
+    try {
+      const report = await applyRetentionPolicy(user, { dryRun: false });
+      if (report.calls || report.messages || report.recordings.count) {
+        purgedUsers++;
+      }
+    } catch (error) {
+      console.error('[RETENTION] ❌ Sweep failed for user:', user._id.toString(), error);
+    }
+  }
+
+  return purgedUsers;
+}
+
+let sweepTimer: NodeJS.Timeout | null = null;
+let sweepInProgress = false;
+
+/**
+ * Start the background retention worker. Safe to call more than once
+ * (e.g. on MongoDB reconnect); only one timer is ever active.
+ */
+export const startRetentionWorker = () => {
+  if (sweepTimer) return;
+
+  const sweep = async () => {
+    if (sweepInProgress || mongoose.connection.readyState !== 1) return;
+    sweepInProgress = true;
+    try {
+      const purgedUsers = await runRetentionSweep();
+      console.log(`[RETENTION] ✅ Sweep complete (${purgedUsers} user(s) purged)`);
+    } catch (error) {
+      console.error('[RETENTION] ❌ Sweep error:', error);
+    } finally {
+      sweepInProgress = false;
+    }
+  };
+
+  sweepTimer = setInterval(sweep, SWEEP_INTERVAL_MS);
+  sweepTimer.unref();
+  sweep();
+
+  console.log(`✅ Retention worker started (every ${Math.round(SWEEP_INTERVAL_MS / 60000)} min)`);
+};
+
+export const stopRetentionWorker = () => {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+};
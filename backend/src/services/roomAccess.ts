@@ -0,0 +1,223 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { Server } from 'socket.io';
+import { CallSession, ICallSession, ModerationAction, RoomAccessMode } from '../models/CallSession';
+import { CallParticipant } from '../models/CallParticipant';
+import { isGuestId, revokeGuestAccess } from './guestInvites';
+import { LobbyEntry, addToLobby, getLobby, getLobbyEntry, removeFromLobby } from '../socket/roomStore';
+
+/**
+ * Who gets into a room, and what the host can do about it.
+ *
+ * - `open`: anyone the host's privacy settings allow (services/callPolicy.ts)
+ * - `invite`: only the host and invited guests
+ * - `lobby`: invited guests go straight in; everyone else waits until the
+ *   host admits or rejects them (`lobby:*` socket events)
+ *
+ * A locked room lets nobody new in, whatever its mode; people who were
+ * already in the call can still reconnect. Kicked and rejected users stay
+ * out until the host admits them again. Every host action is appended to
+ * CallSession.moderation.
+ */
+
+export const ROOM_ACCESS_MODES: RoomAccessMode[] = ['open', 'invite', 'lobby'];
+
+export type RoomAccessDenial = 'invite_only' | 'room_locked' | 'removed';
+
+export type RoomAccess =
+  | { status: 'allowed' }
+  | { status: 'lobby' }
+  | { status: 'denied'; reason: RoomAccessDenial; message: string };
+
+export const ROOM_ACCESS_STATUS: Record<RoomAccessDenial, number> = {
+  invite_only: 403,
+  room_locked: 423,
+  removed: 403,
+};
+
+export interface Moderator {
+  userId: string;
+  userName: string;
+}
+
+export class RoomAccessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RoomAccessError';
+  }
+}
+
+// 10 characters of a 32-letter alphabet (50 bits) from a CSPRNG: not worth guessing
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const ROOM_CODE_LENGTH = 10;
+
+export const generateRoomCode = (): string => {
+  let code = '';
+  for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+    code += ROOM_CODE_ALPHABET.charAt(crypto.randomInt(ROOM_CODE_ALPHABET.length));
+  }
+  return code;
+};
+
+export async function generateUniqueRoomCode(): Promise<string> {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const code = generateRoomCode();
+    if (!(await CallSession.exists({ roomId: code }))) return code;
+  }
+  throw new Error('Could not allocate a room code');
+}
+
+const sameId = (id: mongoose.Types.ObjectId | string, userId: string) => id.toString() === userId;
+
+export const isRoomHost = (callSession: ICallSession, userId: string) => sameId(callSession.hostId, userId);
+
+export async function checkRoomAccess(userId: string, callSession: ICallSession): Promise<RoomAccess> {
+  if (isRoomHost(callSession, userId)) return { status: 'allowed' };
+
+  if ((callSession.removedIds || []).some(id => sameId(id, userId))) {
+    return { status: 'denied', reason: 'removed', message: 'The host removed you from this call' };
+  }
+
+  if (callSession.access?.locked) {
+    // Whoever was already in the call can reconnect
+    const attended = mongoose.Types.ObjectId.isValid(userId) &&
+      !!(await CallParticipant.exists({ callId: callSession._id, userId }));
+    return attended
+      ? { status: 'allowed' }
+      : { status: 'denied', reason: 'room_locked', message: 'The host locked this call' };
+  }
+
+  if (callSession.guestIds.some(id => sameId(id, userId))) return { status: 'allowed' };
+
+  switch (callSession.access?.mode || 'open') {
+    case 'invite':
+      return { status: 'denied', reason: 'invite_only', message: 'This call is invite-only' };
+    case 'lobby':
+      // Admitting makes you a guest, which takes an account
+      return mongoose.Types.ObjectId.isValid(userId)
+        ? { status: 'lobby' }
+        : { status: 'denied', reason: 'invite_only', message: 'Sign in to ask to join this call' };
+    default:
+      return { status: 'allowed' };
+  }
+}
+
+export async function recordModeration(
+  callId: mongoose.Types.ObjectId | string,
+  actor: Moderator,
+  action: ModerationAction,
+  target?: { userId: string; userName?: string },
+  detail?: string
+) {
+  await CallSession.updateOne(
+    { _id: callId },
+    {
+      $push: {
+        moderation: {
+          action,
+          actorId: actor.userId,
+          actorName: actor.userName,
+          targetId: target && mongoose.Types.ObjectId.isValid(target.userId) ? target.userId : null,
+          targetName: target?.userName || null,
+          detail: detail || null,
+          at: new Date(),
+        },
+      },
+    }
+  );
+  console.log(`[ACCESS] 🛡️ ${actor.userName}: ${action}${target ? ` ${target.userName || target.userId}` : ''}${detail ? ` (${detail})` : ''}`);
+}
+
+export const accessState = (callSession: ICallSession) => ({
+  roomId: callSession.roomId,
+  mode: callSession.access?.mode || 'open',
+  locked: !!callSession.access?.locked,
+  hostId: callSession.hostId.toString(),
+});
+
+// --- Lobby ---
+
+// The host sees who is waiting (every tab they have open)
+export async function broadcastLobby(io: Server, callSession: ICallSession) {
+  io.to(`user:${callSession.hostId}`).emit('lobby:state', {
+    roomId: callSession.roomId,
+    waiting: await getLobby(callSession.roomId),
+  });
+}
+
+export async function enterLobby(io: Server, callSession: ICallSession, entry: LobbyEntry) {
+  await addToLobby(callSession.roomId, entry);
+  io.to(`user:${callSession.hostId}`).emit('lobby:request', { roomId: callSession.roomId, ...entry });
+  await broadcastLobby(io, callSession);
+  console.log(`[ACCESS] ⏳ ${entry.userName} is waiting in the lobby of room ${callSession.roomId}`);
+}
+
+export async function leaveLobby(io: Server, roomId: string, userId: string) {
+  if (!(await getLobbyEntry(roomId, userId))) return;
+  await removeFromLobby(roomId, userId);
+  const callSession = await CallSession.findOne({ roomId });
+  if (callSession) await broadcastLobby(io, callSession);
+}
+
+// Admitted users become guests, so reconnecting doesn't send them back to the lobby
+export async function admitFromLobby(io: Server, callSession: ICallSession, actor: Moderator, userId: string) {
+  const entry = await getLobbyEntry(callSession.roomId, userId);
+  if (!entry) throw new RoomAccessError('Nobody by that id is waiting');
+
+  await CallSession.updateOne(
+    { _id: callSession._id },
+    { $addToSet: { guestIds: userId }, $pull: { removedIds: userId } }
+  );
+  await removeFromLobby(callSession.roomId, userId);
+  await recordModeration(callSession._id, actor, 'admit', entry);
+  io.to(entry.socketId).emit('lobby:admitted', { roomId: callSession.roomId });
+  await broadcastLobby(io, callSession);
+}
+
+export async function rejectFromLobby(io: Server, callSession: ICallSession, actor: Moderator, userId: string) {
+  const entry = await getLobbyEntry(callSession.roomId, userId);
+  if (!entry) throw new RoomAccessError('Nobody by that id is waiting');
+
+  await CallSession.updateOne({ _id: callSession._id }, { $addToSet: { removedIds: userId } });
+  await removeFromLobby(callSession.roomId, userId);
+  await recordModeration(callSession._id, actor, 'reject', entry);
+  io.to(entry.socketId).emit('lobby:rejected', { roomId: callSession.roomId, message: 'The host did not let you in' });
+  await broadcastLobby(io, callSession);
+}
+
+// --- Host controls ---
+
+export async function removeFromCall(callSession: ICallSession, actor: Moderator, target: { userId: string; userName: string }) {
+  if (isRoomHost(callSession, target.userId)) throw new RoomAccessError('The host cannot be removed');
+  if (mongoose.Types.ObjectId.isValid(target.userId)) {
+    await CallSession.updateOne({ _id: callSession._id }, { $addToSet: { removedIds: target.userId } });
+  } else if (isGuestId(target.userId)) {
+    await revokeGuestAccess(target.userId);
+  }
+  await recordModeration(callSession._id, actor, 'kick', target);
+}
+
+export async function setRoomLocked(callSession: ICallSession, actor: Moderator, locked: boolean) {
+  await CallSession.updateOne({ _id: callSession._id }, { $set: { 'access.locked': locked } });
+  await recordModeration(callSession._id, actor, locked ? 'lock' : 'unlock');
+}
+
+export async function setRoomAccessMode(callSession: ICallSession, actor: Moderator, mode: RoomAccessMode) {
+  if (!ROOM_ACCESS_MODES.includes(mode)) throw new RoomAccessError('Invalid access mode');
+  await CallSession.updateOne({ _id: callSession._id }, { $set: { 'access.mode': mode } });
+  await recordModeration(callSession._id, actor, 'access_mode', undefined, mode);
+}
+
+// The old host stays in the call as a guest
+export async function transferHost(callSession: ICallSession, actor: Moderator, target: { userId: string; userName: string }) {
+  if (!mongoose.Types.ObjectId.isValid(target.userId)) throw new RoomAccessError('Only signed-in participants can host');
+  if (isRoomHost(callSession, target.userId)) throw new RoomAccessError('Already the host');
+
+  const previousHost = callSession.hostId;
+  await CallSession.updateOne(
+    { _id: callSession._id },
+    { $set: { hostId: target.userId }, $pull: { guestIds: target.userId, removedIds: target.userId } }
+  );
+  await CallSession.updateOne({ _id: callSession._id }, { $addToSet: { guestIds: previousHost } });
+  await recordModeration(callSession._id, actor, 'transfer_host', target);
+}
@@ -0,0 +1,111 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { Request } from 'express';
+import { Session, ISession } from '../models/Session';
+import { generateTokenPair } from './jwt';
+import { rotateSession, revokeUserSessions } from './sessions';
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+const req = { ip: '127.0.0.1', get: () => 'test' } as unknown as Request;
+
+describe('rotateSession', () => {
+  const userId = new mongoose.Types.ObjectId();
+  let session: ISession;
+  let refreshToken: string;
+  let revoked: Array<{ filter: any; update: any }>;
+
+  beforeEach(() => {
+    session = new Session({ userId, tokenHash: 'pending', expiresAt: new Date(Date.now() + 60000) });
+    refreshToken = generateTokenPair({
+      userId: userId.toString(),
+      email: 'test@example.com',
+      sessionId: session._id.toString(),
+    }).refreshToken;
+    session.tokenHash = hashToken(refreshToken);
+
+    revoked = [];
+    mock.method(Session, 'findById', async () => session);
+    mock.method(Session, 'updateOne', async (filter: any, update: any) => {
+      revoked.push({ filter, update });
+      return { modifiedCount: 1 };
+    });
+    // Applies the rotation to `session`, if its conditions still hold
+    mock.method(Session, 'findOneAndUpdate', async (filter: any, update: any) => {
+      if (filter.tokenHash !== session.tokenHash || session.revokedAt) return null;
+      Object.assign(session, update.$set);
+      return session;
+    });
+  });
+  afterEach(() => mock.restoreAll());
+
+  it('replaces the refresh token', async () => {
+    const result = await rotateSession(undefined, refreshToken, req);
+    assert.equal(result.ok, true);
+    assert.ok(result.ok && result.refreshToken !== refreshToken);
+    assert.equal(session.previousTokenHash, hashToken(refreshToken));
+  });
+
+  it('answers a second refresh with the same token within the grace period with a retry', async () => {
+    await rotateSession(undefined, refreshToken, req);
+    const again = await rotateSession(undefined, refreshToken, req);
+    assert.deepEqual(again, { ok: false, reason: 'race' });
+    assert.equal(revoked.length, 0);
+  });
+
+  it('revokes the session when a replaced token comes back later', async () => {
+    await rotateSession(undefined, refreshToken, req);
+    session.rotatedAt = new Date(Date.now() - 10 * 60 * 1000);
+
+    const reused = await rotateSession(undefined, refreshToken, req);
+    assert.deepEqual(reused, { ok: false, reason: 'reused' });
+    assert.equal(revoked.length, 1);
+    assert.deepEqual(revoked[0].filter, { _id: session._id, revokedAt: null });
+    assert.equal(revoked[0].update.$set.revokedReason, 'reuse');
+  });
+
+  it('refuses a revoked session', async () => {
+    session.revokedAt = new Date();
+    assert.deepEqual(await rotateSession(undefined, refreshToken, req), { ok: false, reason: 'revoked' });
+  });
+
+  it('lets only one of two concurrent refreshes win', async () => {
+    const results = await Promise.all([
+      rotateSession(undefined, refreshToken, req),
+      rotateSession(undefined, refreshToken, req),
+    ]);
+    assert.equal(results.filter(r => r.ok).length, 1);
+    assert.deepEqual(results.find(r => !r.ok), { ok: false, reason: 'race' });
+  });
+
+  it('refuses a token that is not a refresh token', async () => {
+    const { accessToken } = generateTokenPair({ userId: userId.toString(), email: 'test@example.com', sessionId: session._id.toString() });
+    assert.deepEqual(await rotateSession(undefined, accessToken, req), { ok: false, reason: 'invalid' });
+  });
+});
+
+describe('revokeUserSessions', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('revokes every session but the one kept, and disconnects their sockets', async () => {
+    const userId = new mongoose.Types.ObjectId();
+    const sessions = [new Session({ userId }), new Session({ userId })];
+    const find = mock.method(Session, 'find', async (_filter: any) => sessions);
+    const update = mock.method(Session, 'updateOne', async () => ({ modifiedCount: 1 }));
+
+    const emitted: string[] = [];
+    const disconnected: string[] = [];
+    const io = {
+      to: (room: string) => ({ emit: () => emitted.push(room) }),
+      in: (room: string) => ({ disconnectSockets: () => disconnected.push(room) }),
+    } as any;
+
+    const kept = new mongoose.Types.ObjectId().toString();
+    assert.equal(await revokeUserSessions(io, userId.toString(), 'password_reset', kept), 2);
+    assert.deepEqual(find.mock.calls[0].arguments[0]._id, { $ne: kept });
+    assert.equal(update.mock.callCount(), 2);
+    assert.deepEqual(disconnected, sessions.map(s => `session:${s._id}`));
+    assert.deepEqual(emitted, disconnected);
+  });
+});
@@ -0,0 +1,189 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { Request } from 'express';
+import { Server } from 'socket.io';
+import { IUser } from '../models/User';
+import { Session, ISession, SessionRevokeReason } from '../models/Session';
+import { generateTokenPair, verifyRefreshToken } from './jwt';
+
+/**
+ * Signed-in devices.
+ *
+ * Every sign-in creates a Session with its own refresh token, so signing in
+ * on a phone leaves the laptop signed in. Refreshing rotates the token: the
+ * old one stops working, and if it is ever presented again (it was copied,
+ * or the device that should have replaced it lost the race to an attacker)
+ * the whole session is revoked. Access tokens carry the session id; sockets
+ * join `session:<id>` and are disconnected when it is revoked.
+ *
+ * Environment:
+ * - SESSION_REFRESH_GRACE_SECONDS: how long the token just replaced is still
+ *   answered with a "retry" instead of a revocation, for two tabs refreshing
+ *   at once (default 30)
+ */
+
+const REFRESH_GRACE_MS = Number(process.env.SESSION_REFRESH_GRACE_SECONDS || 30) * 1000;
+
+export type RefreshFailure = 'invalid' | 'revoked' | 'reused' | 'race';
+
+export type RefreshResult =
+  | { ok: true; accessToken: string; refreshToken: string; session: ISession }
+  | { ok: false; reason: RefreshFailure };
+
+const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+// "Chrome on macOS" from a user agent; good enough to recognise your own devices
+export function describeDevice(userAgent?: string): string {
+  if (!userAgent) return 'Unknown device';
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\/|Opera/.test(userAgent) ? 'Opera' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    null;
+  const os =
+    /iPhone|iPad|iPod/.test(userAgent) ? 'iOS' :
+    /Android/.test(userAgent) ? 'Android' :
+    /Mac OS X/.test(userAgent) ? 'macOS' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    null;
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || userAgent.substring(0, 60);
+}
+
+const expiryOf = (refreshToken: string) => new Date(verifyRefreshToken(refreshToken).exp * 1000);
+
+// Sign in on a new device
+export async function createSession(user: IUser, req: Request) {
+  const sessionId = new mongoose.Types.ObjectId();
+  const tokens = generateTokenPair({
+    userId: user._id.toString(),
+    email: user.email,
+    sessionId: sessionId.toString(),
+  });
+  const userAgent = req.get('user-agent')?.substring(0, 500);
+
+  const session = await Session.create({
+    _id: sessionId,
+    userId: user._id,
+    tokenHash: hashToken(tokens.refreshToken),
+    userAgent,
+    deviceName: describeDevice(userAgent),
+    ip: req.ip,
+    expiresAt: expiryOf(tokens.refreshToken),
+  });
+  console.log(`[SESSION] ✅ New session ${session._id} for ${user._id} (${session.deviceName})`);
+  return { ...tokens, session };
+}
+
+// Trade a refresh token for a new pair
+export async function rotateSession(io: Server | undefined, refreshToken: string, req: Request): Promise<RefreshResult> {
+  let payload: ReturnType<typeof verifyRefreshToken>;
+  try {
+    payload = verifyRefreshToken(refreshToken);
+  } catch {
+    return { ok: false, reason: 'invalid' };
+  }
+  // Tokens from before sessions existed have no session to rotate
+  if (!payload.sessionId || !mongoose.Types.ObjectId.isValid(payload.sessionId)) {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  const session = await Session.findById(payload.sessionId);
+  if (!session || session.userId.toString() !== payload.userId) return { ok: false, reason: 'invalid' };
+  if (session.revokedAt) return { ok: false, reason: 'revoked' };
+
+  const presented = hashToken(refreshToken);
+  if (presented !== session.tokenHash) {
+    // Another tab of this device just refreshed with the same token
+    const justRotated = session.rotatedAt && Date.now() - session.rotatedAt.getTime() < REFRESH_GRACE_MS;
+    if (presented === session.previousTokenHash && justRotated) {
+      return { ok: false, reason: 'race' };
+    }
+    console.warn(`[SESSION] 🚨 Refresh token reuse on session ${session._id}, revoking it`);
+    await revokeSession(io, session, 'reuse');
+    return { ok: false, reason: 'reused' };
+  }
+
+  const tokens = generateTokenPair({
+    userId: payload.userId,
+    email: payload.email,
+    sessionId: session._id.toString(),
+  });
+  // Only one of two concurrent refreshes with the same token wins
+  const rotated = await Session.findOneAndUpdate(
+    { _id: session._id, tokenHash: presented, revokedAt: null },
+    {
+      $set: {
+        tokenHash: hashToken(tokens.refreshToken),
+        previousTokenHash: presented,
+        rotatedAt: new Date(),
+        lastUsedAt: new Date(),
+        expiresAt: expiryOf(tokens.refreshToken),
+        ip: req.ip,
+      },
+      $inc: { rotations: 1 },
+    },
+    { new: true }
+  );
+  if (!rotated) return { ok: false, reason: 'race' };
+
+  return { ok: true, ...tokens, session: rotated };
+}
+
+// Whether an access token's session is still signed in (tokens without one predate sessions)
+export async function isSessionActive(sessionId?: string): Promise<boolean> {
+  if (!sessionId) return true;
+  if (!mongoose.Types.ObjectId.isValid(sessionId)) return false;
+  return !!(await Session.exists({ _id: sessionId, revokedAt: null }));
+}
+
+// Keep "last active" roughly current without a write per request
+export async function touchSession(sessionId: string) {
+  await Session.updateOne(
+    { _id: sessionId, lastUsedAt: { $lt: new Date(Date.now() - 5 * 60 * 1000) } },
+    { $set: { lastUsedAt: new Date() } }
+  );
+}
+
+export async function listSessions(userId: string) {
+  return Session.find({ userId, revokedAt: null, expiresAt: { $gt: new Date() } })
+    .select('deviceName userAgent ip createdAt lastUsedAt')
+    .sort({ lastUsedAt: -1 })
+    .lean();
+}
+
+// End a session and drop its socket connections (on every instance)
+export async function revokeSession(io: Server | undefined, session: ISession, reason: SessionRevokeReason) {
+  await Session.updateOne(
+    { _id: session._id, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  if (io) {
+    const room = `session:${session._id}`;
+    io.to(room).emit('session:revoked', { reason });
+    io.in(room).disconnectSockets(true);
+  }
+  console.log(`[SESSION] 🔒 Session ${session._id} revoked (${reason})`);
+}
+
+// Every session of a user, optionally but the one they are using
+export async function revokeUserSessions(
+  io: Server | undefined,
+  userId: string,
+  reason: SessionRevokeReason,
+  exceptSessionId?: string
+): Promise<number> {
+  const sessions = await Session.find({
+    userId,
+    revokedAt: null,
+    ...(exceptSessionId ? { _id: { $ne: exceptSessionId } } : {}),
+  });
+  for (const session of sessions) {
+    await revokeSession(io, session, reason);
+  }
+  return sessions.length;
+}
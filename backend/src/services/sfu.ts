@@ -0,0 +1,413 @@
+import * as mediasoup from 'mediasoup';
+
+type Worker = mediasoup.types.Worker;
+type Router = mediasoup.types.Router;
+type WebRtcTransport = mediasoup.types.WebRtcTransport;
+type Producer = mediasoup.types.Producer;
+type Consumer = mediasoup.types.Consumer;
+type RtpCapabilities = mediasoup.types.RtpCapabilities;
+type RtpParameters = mediasoup.types.RtpParameters;
+type DtlsParameters = mediasoup.types.DtlsParameters;
+type MediaKind = mediasoup.types.MediaKind;
+
+/**
+ * Selective forwarding unit for group calls (mediasoup).
+ *
+ * In a mesh call every participant sends its media to every other one, which
+ * stops working beyond four or five people. In an SFU room everyone sends
+ * their camera and microphone once (a producer on a send transport) and
+ * receives the others through consumers on a receive transport; the router
+ * forwards packets without decoding them. Video is sent as three simulcast
+ * layers and every consumer picks one, so a participant on a poor link or
+ * with `callQuality.bandwidth` set to 'low' only receives the smallest.
+ *
+ * A room's router lives in this process: with several backend instances, all
+ * participants of an SFU room have to reach the same one. Rooms fall back to
+ * mesh when the mediasoup worker can't start.
+ *
+ * SFU_ENABLED            'true' to offer SFU rooms (default off)
+ * SFU_MIN_PARTICIPANTS   'auto' rooms switch to the SFU at this size (default 3)
+ * SFU_LISTEN_IP          address the media ports bind to (default 0.0.0.0)
+ * SFU_ANNOUNCED_IP       public address given to browsers (needed behind NAT)
+ * SFU_RTC_MIN_PORT / SFU_RTC_MAX_PORT   UDP/TCP media ports (default 40000-40999)
+ */
+
+export type MediaTopology = 'mesh' | 'sfu';
+export type TopologyPreference = MediaTopology | 'auto';
+export type TransportDirection = 'send' | 'recv';
+
+export interface CallQualitySettings {
+  videoResolution?: '720p' | '1080p' | 'auto';
+  bandwidth?: 'low' | 'medium' | 'high' | 'auto';
+}
+
+export class SfuError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SfuError';
+  }
+}
+
+const ENABLED = process.env.SFU_ENABLED === 'true';
+export const SFU_MIN_PARTICIPANTS = Number(process.env.SFU_MIN_PARTICIPANTS || 3);
+const LISTEN_IP = process.env.SFU_LISTEN_IP || '0.0.0.0';
+const ANNOUNCED_IP = process.env.SFU_ANNOUNCED_IP || undefined;
+const RTC_MIN_PORT = Number(process.env.SFU_RTC_MIN_PORT || 40000);
+const RTC_MAX_PORT = Number(process.env.SFU_RTC_MAX_PORT || 40999);
+
+const MEDIA_CODECS: mediasoup.types.RouterRtpCodecCapability[] = [
+  { kind: 'audio', mimeType: 'audio/opus', clockRate: 48000, channels: 2 },
+  { kind: 'video', mimeType: 'video/VP8', clockRate: 90000, parameters: { 'x-google-start-bitrate': 1000 } },
+  {
+    kind: 'video',
+    mimeType: 'video/H264',
+    clockRate: 90000,
+    parameters: { 'packetization-mode': 1, 'profile-level-id': '42e01f', 'level-asymmetry-allowed': 1 },
+  },
+];
+
+/**
+ * Simulcast layers, smallest first. A sender only offers the layers its own
+ * bandwidth setting allows; a receiver asks for the largest its setting allows.
+ */
+const SIMULCAST_LAYERS: SimulcastProfile['encodings'] = [
+  { rid: 'l', scaleResolutionDownBy: 4, maxBitrate: 150_000 }, // ~320x180
+  { rid: 'm', scaleResolutionDownBy: 2, maxBitrate: 500_000 }, // ~640x360
+  { rid: 'h', scaleResolutionDownBy: 1, maxBitrate: 1_500_000 }, // capture size (720p)
+];
+const TOP_LAYER_BITRATE_1080P = 3_000_000;
+const LAYERS_FOR_BANDWIDTH: Record<NonNullable<CallQualitySettings['bandwidth']>, number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+  auto: 3,
+};
+
+export interface SimulcastProfile {
+  encodings: Array<{ rid?: string; scaleResolutionDownBy: number; maxBitrate: number }>;
+  preferredLayers: { spatialLayer: number; temporalLayer: number };
+  maxResolution: { width: number; height: number };
+}
+
+// What a participant sends and wants to receive, from their settings.callQuality
+export function simulcastProfile(callQuality?: CallQualitySettings): SimulcastProfile {
+  const layers = LAYERS_FOR_BANDWIDTH[callQuality?.bandwidth || 'auto'] ?? 3;
+  const is1080p = callQuality?.videoResolution === '1080p';
+  const encodings = SIMULCAST_LAYERS.slice(0, layers).map((layer, i) =>
+    i === 2 && is1080p ? { ...layer, maxBitrate: TOP_LAYER_BITRATE_1080P } : { ...layer }
+  );
+  // A single layer is a plain stream, not simulcast
+  if (encodings.length === 1) delete encodings[0].rid;
+
+  return {
+    encodings,
+    preferredLayers: { spatialLayer: layers - 1, temporalLayer: 2 },
+    maxResolution: is1080p ? { width: 1920, height: 1080 } : { width: 1280, height: 720 },
+  };
+}
+
+interface SfuPeer {
+  socketId: string;
+  userId: string;
+  userName: string;
+  preferredLayers: SimulcastProfile['preferredLayers'];
+  transports: Map<string, WebRtcTransport>;
+  producers: Map<string, Producer>;
+  consumers: Map<string, Consumer>;
+}
+
+interface SfuRoom {
+  router: Router;
+  peers: Map<string, SfuPeer>; // socketId -> peer
+}
+
+export interface ProducerInfo {
+  producerId: string;
+  socketId: string;
+  userId: string;
+  userName: string;
+  kind: MediaKind;
+}
+
+let worker: Worker | null = null;
+let workerStarting: Promise<Worker | null> | null = null;
+let workerFailed = false;
+const rooms = new Map<string, SfuRoom>();
+// Rooms whose router is being created (so two joins don't create two)
+const roomsStarting = new Map<string, Promise<SfuRoom>>();
+
+const getWorker = (): Promise<Worker | null> => {
+  if (!ENABLED || workerFailed) return Promise.resolve(null);
+  if (worker) return Promise.resolve(worker);
+  if (!workerStarting) {
+    workerStarting = mediasoup.createWorker({ logLevel: 'warn', rtcMinPort: RTC_MIN_PORT, rtcMaxPort: RTC_MAX_PORT })
+      .then((created) => {
+        worker = created;
+        created.on('died', (error) => {
+          console.error('[SFU] ❌ mediasoup worker died, SFU rooms are lost:', error);
+          worker = null;
+          workerStarting = null;
+          rooms.clear();
+        });
+        console.log(`[SFU] ✅ mediasoup worker started (pid ${created.pid})`);
+        return created;
+      })
+      .catch((error) => {
+        workerFailed = true;
+        console.error('[SFU] ❌ Could not start the mediasoup worker, rooms stay in mesh mode:', error.message);
+        return null;
+      });
+  }
+  return workerStarting;
+};
+
+export const isSfuAvailable = async (): Promise<boolean> => !!(await getWorker());
+
+/**
+ * The topology a room should use: once a room is on the SFU it stays there;
+ * 'auto' rooms move to it when they reach SFU_MIN_PARTICIPANTS.
+ */
+export async function chooseTopology(
+  preference: TopologyPreference | undefined,
+  current: MediaTopology | undefined,
+  participantCount: number
+): Promise<MediaTopology> {
+  if (current === 'sfu') return 'sfu';
+  if (preference === 'mesh') return 'mesh';
+  if (preference !== 'sfu' && participantCount < SFU_MIN_PARTICIPANTS) return 'mesh';
+  return (await isSfuAvailable()) ? 'sfu' : 'mesh';
+}
+
+const openRoom = async (roomId: string): Promise<SfuRoom> => {
+  const existing = rooms.get(roomId);
+  if (existing) return existing;
+
+  let starting = roomsStarting.get(roomId);
+  if (!starting) {
+    starting = (async () => {
+      const mediaWorker = await getWorker();
+      if (!mediaWorker) throw new SfuError('SFU is not available');
+      const router = await mediaWorker.createRouter({ mediaCodecs: MEDIA_CODECS });
+      const room: SfuRoom = { router, peers: new Map() };
+      rooms.set(roomId, room);
+      console.log(`[SFU] 🎛️ Router created for room ${roomId}`);
+      return room;
+    })();
+    roomsStarting.set(roomId, starting);
+    starting.finally(() => roomsStarting.delete(roomId)).catch(() => {});
+  }
+  return starting;
+};
+
+const existingRoom = (roomId: string): SfuRoom => {
+  const room = rooms.get(roomId);
+  if (!room) throw new SfuError('Join the SFU room first');
+  return room;
+};
+
+const getPeer = (room: SfuRoom, socketId: string): SfuPeer => {
+  const peer = room.peers.get(socketId);
+  if (!peer) throw new SfuError('Join the SFU room first');
+  return peer;
+};
+
+const getTransport = (peer: SfuPeer, transportId: string): WebRtcTransport => {
+  const transport = peer.transports.get(transportId);
+  if (!transport) throw new SfuError('Transport not found');
+  return transport;
+};
+
+// Join (or rejoin) a room's router; returns what the browser needs to load its device
+export async function joinSfuRoom(
+  roomId: string,
+  participant: { socketId: string; userId: string; userName: string },
+  callQuality?: CallQualitySettings
+): Promise<{ rtpCapabilities: RtpCapabilities; simulcast: SimulcastProfile }> {
+  const room = await openRoom(roomId);
+  const simulcast = simulcastProfile(callQuality);
+  if (!room.peers.has(participant.socketId)) {
+    room.peers.set(participant.socketId, {
+      ...participant,
+      preferredLayers: simulcast.preferredLayers,
+      transports: new Map(),
+      producers: new Map(),
+      consumers: new Map(),
+    });
+  }
+  return { rtpCapabilities: room.router.rtpCapabilities, simulcast };
+}
+
+export async function createTransport(roomId: string, socketId: string, direction: TransportDirection) {
+  const room = existingRoom(roomId);
+  const peer = getPeer(room, socketId);
+
+  const transport = await room.router.createWebRtcTransport({
+    listenInfos: [
+      { protocol: 'udp', ip: LISTEN_IP, announcedAddress: ANNOUNCED_IP },
+      { protocol: 'tcp', ip: LISTEN_IP, announcedAddress: ANNOUNCED_IP },
+    ],
+    enableUdp: true,
+    enableTcp: true,
+    preferUdp: true,
+    initialAvailableOutgoingBitrate: 1_000_000,
+    appData: { direction },
+  });
+  transport.on('dtlsstatechange', (state) => {
+    if (state === 'closed' || state === 'failed') transport.close();
+  });
+  transport.observer.on('close', () => peer.transports.delete(transport.id));
+  peer.transports.set(transport.id, transport);
+
+  return {
+    id: transport.id,
+    iceParameters: transport.iceParameters,
+    iceCandidates: transport.iceCandidates,
+    dtlsParameters: transport.dtlsParameters,
+  };
+}
+
+export async function connectTransport(roomId: string, socketId: string, transportId: string, dtlsParameters: DtlsParameters) {
+  const room = existingRoom(roomId);
+  await getTransport(getPeer(room, socketId), transportId).connect({ dtlsParameters });
+}
+
+export async function produce(
+  roomId: string,
+  socketId: string,
+  transportId: string,
+  kind: MediaKind,
+  rtpParameters: RtpParameters
+): Promise<ProducerInfo> {
+  const room = existingRoom(roomId);
+  const peer = getPeer(room, socketId);
+  const producer = await getTransport(peer, transportId).produce({ kind, rtpParameters });
+  producer.observer.on('close', () => peer.producers.delete(producer.id));
+  peer.producers.set(producer.id, producer);
+
+  return { producerId: producer.id, socketId, userId: peer.userId, userName: peer.userName, kind };
+}
+
+// Everything being sent in the room, except the asking participant's own media
+export async function listProducers(roomId: string, socketId: string): Promise<ProducerInfo[]> {
+  const room = rooms.get(roomId);
+  if (!room) return [];
+  const producers: ProducerInfo[] = [];
+  for (const peer of room.peers.values()) {
+    if (peer.socketId === socketId) continue;
+    for (const producer of peer.producers.values()) {
+      producers.push({ producerId: producer.id, socketId: peer.socketId, userId: peer.userId, userName: peer.userName, kind: producer.kind });
+    }
+  }
+  return producers;
+}
+
+/**
+ * Receive a producer. The consumer starts paused (resumed once the browser
+ * has set it up) on the receiver's preferred simulcast layer. `onClosed`
+ * fires when the producer goes away.
+ */
+export async function consume(
+  roomId: string,
+  socketId: string,
+  transportId: string,
+  producerId: string,
+  rtpCapabilities: RtpCapabilities,
+  onClosed: (consumerId: string) => void
+) {
+  const room = existingRoom(roomId);
+  const peer = getPeer(room, socketId);
+  if (!room.router.canConsume({ producerId, rtpCapabilities })) {
+    throw new SfuError('Cannot consume this producer');
+  }
+
+  const consumer = await getTransport(peer, transportId).consume({
+    producerId,
+    rtpCapabilities,
+    paused: true,
+    preferredLayers: peer.preferredLayers,
+  });
+  consumer.on('producerclose', () => {
+    consumer.close();
+    onClosed(consumer.id);
+  });
+  consumer.observer.on('close', () => peer.consumers.delete(consumer.id));
+  peer.consumers.set(consumer.id, consumer);
+
+  return {
+    id: consumer.id,
+    producerId,
+    kind: consumer.kind,
+    rtpParameters: consumer.rtpParameters,
+  };
+}
+
+export async function resumeConsumer(roomId: string, socketId: string, consumerId: string) {
+  const room = existingRoom(roomId);
+  const consumer = getPeer(room, socketId).consumers.get(consumerId);
+  if (!consumer) throw new SfuError('Consumer not found');
+  await consumer.resume();
+}
+
+// Pick the simulcast layer of one consumer, or (no consumerId) of everything the participant receives
+export async function setPreferredLayers(
+  roomId: string,
+  socketId: string,
+  layers: { spatialLayer: number; temporalLayer?: number },
+  consumerId?: string
+) {
+  const room = existingRoom(roomId);
+  const peer = getPeer(room, socketId);
+  const preferred = {
+    spatialLayer: Math.max(0, Math.min(SIMULCAST_LAYERS.length - 1, Math.floor(layers.spatialLayer))),
+    temporalLayer: Math.max(0, Math.min(2, Math.floor(layers.temporalLayer ?? 2))),
+  };
+
+  const consumers = consumerId
+    ? [peer.consumers.get(consumerId)].filter((c): c is Consumer => !!c)
+    : Array.from(peer.consumers.values());
+  if (!consumerId) peer.preferredLayers = preferred;
+  for (const consumer of consumers) {
+    if (consumer.type === 'simulcast') await consumer.setPreferredLayers(preferred);
+  }
+}
+
+export async function closeProducer(roomId: string, socketId: string, producerId: string): Promise<boolean> {
+  const room = rooms.get(roomId);
+  const producer = room?.peers.get(socketId)?.producers.get(producerId);
+  if (!producer) return false;
+  producer.close();
+  return true;
+}
+
+// A participant left: close their transports (and with them producers and consumers)
+export function leaveSfuRoom(roomId: string, socketId: string): string[] {
+  const room = rooms.get(roomId);
+  const peer = room?.peers.get(socketId);
+  if (!room || !peer) return [];
+
+  const producerIds = Array.from(peer.producers.keys());
+  peer.transports.forEach(transport => transport.close());
+  room.peers.delete(socketId);
+
+  if (room.peers.size === 0) {
+    room.router.close();
+    rooms.delete(roomId);
+    console.log(`[SFU] 🧹 Closed router for room ${roomId}`);
+  }
+  return producerIds;
+}
+
+export function closeSfuRoom(roomId: string) {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  room.router.close();
+  rooms.delete(roomId);
+}
+
+export const getSfuStatus = () => ({
+  enabled: ENABLED,
+  available: !!worker,
+  minParticipants: SFU_MIN_PARTICIPANTS,
+  rooms: rooms.size,
+  peers: Array.from(rooms.values()).reduce((sum, room) => sum + room.peers.size, 0),
+});
@@ -0,0 +1,338 @@
+import { EventEmitter } from 'events';
+import Redis from 'ioredis';
+
+/**
+ * State shared by every backend instance: call rooms, presence and the
+ * per-room transcript buffers live here so any node can serve any
+ * participant (socket/roomStore.ts). With Redis, Socket.IO broadcasts travel
+ * over its pub/sub too (socket/clusterAdapter.ts).
+ *
+ * SHARED_STORE   `memory` (single node, tests) or `redis`; defaults to
+ *                `redis` when REDIS_URL is set
+ * REDIS_URL      redis://[[user]:password@]host[:port][/db] (rediss:// for TLS)
+ * REDIS_COMMAND_TIMEOUT_MS  a command (or connection attempt) unanswered this
+ *                long fails instead of hanging its caller (default 5000)
+ * SHARED_STORE_PREFIX  key/channel prefix (default `acetime:`)
+ */
+
+export type SharedStoreName = 'memory' | 'redis';
+
+export interface TokenBucketResult {
+  allowed: boolean;
+  tokens: number; // Left after this take
+  retryAfterMs: number; // Until the cost would be available (0 when allowed)
+}
+
+export interface SharedStore {
+  name: SharedStoreName;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlMs?: number): Promise<void>;
+  setIfAbsent(key: string, value: string, ttlMs?: number): Promise<boolean>;
+  del(key: string): Promise<boolean>; // true if the key existed
+  append(key: string, value: string): Promise<number>; // New length in bytes
+  // In one step: the value minus a leading `prefix` (if it has it), after `replacement`
+  replacePrefix(key: string, prefix: string, replacement: string, ttlMs?: number): Promise<void>;
+  expire(key: string, ttlMs: number): Promise<void>;
+  hget(key: string, field: string): Promise<string | null>;
+  hset(key: string, field: string, value: string): Promise<void>;
+  hsetIfAbsent(key: string, field: string, value: string): Promise<boolean>;
+  hdel(key: string, field: string): Promise<void>;
+  hgetall(key: string): Promise<Record<string, string>>;
+  hlen(key: string): Promise<number>;
+  sadd(key: string, member: string): Promise<boolean>; // true if newly added
+  srem(key: string, member: string): Promise<boolean>; // true if it was a member
+  scard(key: string): Promise<number>;
+  // Token bucket holding up to `capacity`, refilled continuously; takes `cost` if it's there
+  takeTokens(key: string, capacity: number, refillPerSecond: number, cost: number): Promise<TokenBucketResult>;
+  publish(channel: string, message: string): Promise<void>;
+  subscribe(channel: string, handler: (message: string) => void): Promise<void>;
+  close(): Promise<void>;
+}
+
+export const SHARED_STORE_PREFIX = process.env.SHARED_STORE_PREFIX || 'acetime:';
+const REDIS_COMMAND_TIMEOUT_MS = Number(process.env.REDIS_COMMAND_TIMEOUT_MS || 5000);
+
+// --- In-memory ---
+
+interface MemoryEntry {
+  value: string | Map<string, string> | Set<string>;
+  expiresAt?: number;
+}
+
+export const createMemoryStore = (): SharedStore => {
+  const entries = new Map<string, MemoryEntry>();
+  const channels = new EventEmitter();
+  channels.setMaxListeners(0);
+
+  const read = (key: string) => {
+    const entry = entries.get(key);
+    if (entry?.expiresAt && entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+  const hash = (key: string, create = false) => {
+    const entry = read(key);
+    if (entry?.value instanceof Map) return entry.value;
+    if (!create) return undefined;
+    const map = new Map<string, string>();
+    entries.set(key, { value: map, expiresAt: entry?.expiresAt });
+    return map;
+  };
+  const set = (key: string, create = false) => {
+    const entry = read(key);
+    if (entry?.value instanceof Set) return entry.value;
+    if (!create) return undefined;
+    const members = new Set<string>();
+    entries.set(key, { value: members, expiresAt: entry?.expiresAt });
+    return members;
+  };
+  // Empty hashes and sets disappear, as in Redis
+  const dropIfEmpty = (key: string, collection?: Map<string, string> | Set<string>) => {
+    if (collection && collection.size === 0) entries.delete(key);
+  };
+
+  return {
+    name: 'memory',
+    get: async (key) => {
+      const value = read(key)?.value;
+      return typeof value === 'string' ? value : null;
+    },
+    set: async (key, value, ttlMs) => {
+      entries.set(key, { value, expiresAt: ttlMs ? Date.now() + ttlMs : undefined });
+    },
+    setIfAbsent: async (key, value, ttlMs) => {
+      if (read(key)) return false;
+      entries.set(key, { value, expiresAt: ttlMs ? Date.now() + ttlMs : undefined });
+      return true;
+    },
+    del: async (key) => !!read(key) && entries.delete(key),
+    append: async (key, value) => {
+      const entry = read(key);
+      const current = typeof entry?.value === 'string' ? entry.value : '';
+      entries.set(key, { value: current + value, expiresAt: entry?.expiresAt });
+      return Buffer.byteLength(current + value);
+    },
+    replacePrefix: async (key, prefix, replacement, ttlMs) => {
+      const entry = read(key);
+      const current = typeof entry?.value === 'string' ? entry.value : '';
+      const rest = current.startsWith(prefix) ? current.slice(prefix.length) : current;
+      entries.set(key, { value: replacement + rest, expiresAt: ttlMs ? Date.now() + ttlMs : entry?.expiresAt });
+    },
+    expire: async (key, ttlMs) => {
+      const entry = read(key);
+      if (entry) entry.expiresAt = Date.now() + ttlMs;
+    },
+    hget: async (key, field) => hash(key)?.get(field) ?? null,
+    hset: async (key, field, value) => {
+      hash(key, true)!.set(field, value);
+    },
+    hsetIfAbsent: async (key, field, value) => {
+      const map = hash(key, true)!;
+      if (map.has(field)) return false;
+      map.set(field, value);
+      return true;
+    },
+    hdel: async (key, field) => {
+      const map = hash(key);
+      map?.delete(field);
+      dropIfEmpty(key, map);
+    },
+    hgetall: async (key) => Object.fromEntries(hash(key) || []),
+    hlen: async (key) => hash(key)?.size || 0,
+    sadd: async (key, member) => {
+      const members = set(key, true)!;
+      if (members.has(member)) return false;
+      members.add(member);
+      return true;
+    },
+    srem: async (key, member) => {
+      const members = set(key);
+      const removed = !!members?.delete(member);
+      dropIfEmpty(key, members);
+      return removed;
+    },
+    scard: async (key) => set(key)?.size || 0,
+    takeTokens: async (key, capacity, refillPerSecond, cost) => {
+      const now = Date.now();
+      const bucket = hash(key, true)!;
+      const at = Number(bucket.get('at') ?? now);
+      const tokens = Math.min(capacity, Number(bucket.get('tokens') ?? capacity) + ((now - at) / 1000) * refillPerSecond);
+      const allowed = tokens >= cost;
+      const left = allowed ? tokens - cost : tokens;
+      bucket.set('tokens', String(left));
+      bucket.set('at', String(now));
+      entries.get(key)!.expiresAt = now + Math.ceil((capacity / refillPerSecond) * 1000) + 1000;
+      return { allowed, tokens: left, retryAfterMs: allowed ? 0 : Math.ceil(((cost - tokens) / refillPerSecond) * 1000) };
+    },
+    publish: async (channel, message) => {
+      // Asynchronous like a real broker, so publishers never re-enter themselves
+      setImmediate(() => channels.emit(channel, message));
+    },
+    subscribe: async (channel, handler) => {
+      channels.on(channel, handler);
+    },
+    close: async () => {
+      entries.clear();
+      channels.removeAllListeners();
+    },
+  };
+};
+
+// --- Redis-compatible ---
+
+// Read-modify-write without a gap another node's APPEND could fall into
+const REPLACE_PREFIX_SCRIPT = `
+local current = redis.call('GET', KEYS[1]) or ''
+local prefix = ARGV[1]
+local rest = current
+if string.sub(current, 1, #prefix) == prefix then rest = string.sub(current, #prefix + 1) end
+local ttl = tonumber(ARGV[3])
+if ttl > 0 then
+  redis.call('SET', KEYS[1], ARGV[2] .. rest, 'PX', ttl)
+else
+  redis.call('SET', KEYS[1], ARGV[2] .. rest, 'KEEPTTL')
+end
+return 1
+`;
+
+// Same arithmetic as the memory store, in one step on the server's clock
+const TAKE_TOKENS_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2]) / 1000
+local cost = tonumber(ARGV[3])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'at')
+local at = tonumber(state[2]) or now
+local tokens = math.min(capacity, (tonumber(state[1]) or capacity) + (now - at) * rate)
+local allowed = tokens >= cost
+local left = tokens
+if allowed then left = tokens - cost end
+redis.call('HSET', KEYS[1], 'tokens', tostring(left), 'at', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / rate) + 1000)
+local retry = 0
+if not allowed then retry = math.ceil((cost - tokens) / rate) end
+return { allowed and 1 or 0, tostring(left), retry }
+`;
+
+/**
+ * A Redis connection as the shared store uses it. It reconnects with backoff
+ * on its own; a command issued while it is down is retried once on the next
+ * connection, and fails if that doesn't answer in time.
+ */
+export const connectRedis = (url: string): Redis => {
+  const client = new Redis(url, {
+    commandTimeout: REDIS_COMMAND_TIMEOUT_MS,
+    connectTimeout: REDIS_COMMAND_TIMEOUT_MS,
+    maxRetriesPerRequest: 1,
+  });
+  client.on('error', (error) => console.warn('[REDIS] ⚠️ Connection error:', error.message));
+  return client;
+};
+
+export const createRedisStore = (url: string): SharedStore => {
+  const client = connectRedis(url);
+  const subscriber = client.duplicate();
+  const handlers = new Map<string, Array<(message: string) => void>>();
+
+  subscriber.on('message', (channel: string, message: string) => {
+    handlers.get(channel)?.forEach(handler => handler(message));
+  });
+
+  return {
+    name: 'redis',
+    get: (key) => client.get(key),
+    set: async (key, value, ttlMs) => {
+      if (ttlMs) {
+        await client.set(key, value, 'PX', Math.ceil(ttlMs));
+      } else {
+        await client.set(key, value);
+      }
+    },
+    setIfAbsent: async (key, value, ttlMs) =>
+      (ttlMs
+        ? await client.set(key, value, 'PX', Math.ceil(ttlMs), 'NX')
+        : await client.set(key, value, 'NX')) === 'OK',
+    del: async (key) => (await client.del(key)) === 1,
+    append: (key, value) => client.append(key, value),
+    replacePrefix: async (key, prefix, replacement, ttlMs) => {
+      await client.eval(REPLACE_PREFIX_SCRIPT, 1, key, prefix, replacement, ttlMs ? Math.ceil(ttlMs) : 0);
+    },
+    expire: async (key, ttlMs) => {
+      await client.pexpire(key, Math.ceil(ttlMs));
+    },
+    hget: (key, field) => client.hget(key, field),
+    hset: async (key, field, value) => {
+      await client.hset(key, field, value);
+    },
+    hsetIfAbsent: async (key, field, value) => (await client.hsetnx(key, field, value)) === 1,
+    hdel: async (key, field) => {
+      await client.hdel(key, field);
+    },
+    hgetall: (key) => client.hgetall(key),
+    hlen: (key) => client.hlen(key),
+    sadd: async (key, member) => (await client.sadd(key, member)) === 1,
+    srem: async (key, member) => (await client.srem(key, member)) === 1,
+    scard: (key) => client.scard(key),
+    takeTokens: async (key, capacity, refillPerSecond, cost) => {
+      const [allowed, tokens, retryAfterMs] = (await client.eval(
+        TAKE_TOKENS_SCRIPT, 1, key, capacity, refillPerSecond, cost
+      )) as [number, string, number];
+      return { allowed: allowed === 1, tokens: Number(tokens), retryAfterMs };
+    },
+    publish: async (channel, message) => {
+      await client.publish(channel, message);
+    },
+    subscribe: async (channel, handler) => {
+      const existing = handlers.get(channel);
+      if (existing) {
+        existing.push(handler);
+        return;
+      }
+      handlers.set(channel, [handler]);
+      await subscriber.subscribe(channel);
+    },
+    close: async () => {
+      await Promise.all([client.quit(), subscriber.quit()]);
+    },
+  };
+};
+
+// --- Selection ---
+
+let store: SharedStore | null = null;
+
+const configuredStore = (): SharedStoreName => {
+  const name = (process.env.SHARED_STORE || (process.env.REDIS_URL ? 'redis' : 'memory')).toLowerCase();
+  if (name !== 'memory' && name !== 'redis') {
+    console.warn(`[STORE] ⚠️ Unknown SHARED_STORE "${name}", using memory`);
+    return 'memory';
+  }
+  if (name === 'redis' && !process.env.REDIS_URL) {
+    console.warn('[STORE] ⚠️ SHARED_STORE=redis but REDIS_URL is not set, using memory');
+    return 'memory';
+  }
+  return name;
+};
+
+export const getSharedStore = (): SharedStore => {
+  if (!store) {
+    store = configuredStore() === 'redis'
+      ? createRedisStore(process.env.REDIS_URL!)
+      : createMemoryStore();
+    console.log(`[STORE] ✅ Using ${store.name} shared store`);
+  }
+  return store;
+};
+
+// Swap the store (tests, or a custom adapter); call before sockets connect
+export const setSharedStore = (custom: SharedStore) => {
+  store = custom;
+};
+
+export const getSharedStoreStatus = () => ({
+  store: getSharedStore().name,
+  prefix: SHARED_STORE_PREFIX,
+});
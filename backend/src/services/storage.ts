@@ -1,5 +1,5 @@
 import mongoose from 'mongoose';
-import { GridFSBucket, ObjectId } from 'mongodb';
+import { GridFSBucket, GridFSBucketWriteStream, ObjectId } from 'mongodb';
 import { Readable } from 'stream';
 
 let bucket: GridFSBucket | null = null;
@@ -48,6 +48,19 @@ export const uploadRecording = async (
   });
 };
 
+// Open an upload stream to write a recording as it is produced
+export const openRecordingUploadStream = (
+  filename: string,
+  contentType: string,
+  metadata: Record<string, any> = {}
+): GridFSBucketWriteStream => {
+  if (!bucket) {
+    throw new Error('GridFS not initialized');
+  }
+
+  return bucket.openUploadStream(filename, { contentType, metadata });
+};
+
 // Get a download stream for a recording
 export const getRecordingStream = (fileId: string, start?: number): Readable => {
   if (!bucket) {
@@ -91,3 +104,34 @@ export const listRecordings = async (callId: string) => {
   return bucket.find({ 'metadata.callId': callId }).toArray();
 };
 
+// List the server recorder's media segments for a call, in write order
+export const listRecordingSegments = async (callId: string) => {
+  if (!bucket) {
+    throw new Error('GridFS not initialized');
+  }
+
+  return bucket
+    .find({ 'metadata.callId': callId, 'metadata.segment': true })
+    .sort({ 'metadata.trackId': 1, 'metadata.seq': 1 })
+    .toArray();
+};
+
+// List recordings belonging to any of the given calls
+export const listRecordingsForCalls = async (callIds: string[]) => {
+  if (!bucket) {
+    throw new Error('GridFS not initialized');
+  }
+
+  return bucket.find({ 'metadata.callId': { $in: callIds } }).toArray();
+};
+
+// List every file a user uploaded (recordings and message attachments)
+export const listFilesUploadedBy = async (userId: string) => {
+  if (!bucket) {
+    throw new Error('GridFS not initialized');
+  }
+
+  return bucket.find({ 'metadata.userId': userId }).toArray();
+};
+
+export const isStorageReady = (): boolean => bucket !== null;
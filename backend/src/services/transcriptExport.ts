@@ -0,0 +1,356 @@
+import archiver from 'archiver';
+import { PassThrough } from 'stream';
+import { ICallSession } from '../models/CallSession';
+import { ITranscript, ITranscriptSegment, ITranscriptWord } from '../models/Transcript';
+import { INotes } from '../models/Notes';
+
+/**
+ * Transcript export (GET /api/calls/:id/transcript/export).
+ *
+ * Documents (md, txt, docx) are the transcript followed by the call's notes.
+ * Subtitles (srt, vtt) are timed against the recording rather than the call:
+ * cue times subtract metadata.recordingOffsetMs, and speech from before the
+ * recording started is left out.
+ */
+
+export type TranscriptExportFormat = 'srt' | 'vtt' | 'md' | 'docx' | 'txt';
+
+// flagged: segments participants flagged; pii: emails, phone and card numbers
+export type TranscriptRedaction = 'none' | 'flagged' | 'pii' | 'all';
+
+export const TRANSCRIPT_EXPORT_FORMATS: TranscriptExportFormat[] = ['srt', 'vtt', 'md', 'docx', 'txt'];
+export const TRANSCRIPT_REDACTIONS: TranscriptRedaction[] = ['none', 'flagged', 'pii', 'all'];
+
+export interface TranscriptExportOptions {
+  format: TranscriptExportFormat;
+  speakers: boolean; // Prefix lines and cues with the speaker's name
+  timestamps: boolean; // Prefix document lines with their call time
+  notes: boolean; // Append summary, action items and decisions (documents only)
+  redact: TranscriptRedaction;
+}
+
+export interface TranscriptExport {
+  filename: string;
+  contentType: string;
+  body: Buffer;
+}
+
+const CONTENT_TYPES: Record<TranscriptExportFormat, string> = {
+  srt: 'application/x-subrip; charset=utf-8',
+  vtt: 'text/vtt; charset=utf-8',
+  md: 'text/markdown; charset=utf-8',
+  txt: 'text/plain; charset=utf-8',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+const REDACTED = '[redacted]';
+const MAX_CUE_CHARS = 84; // Two subtitle lines
+const MAX_CUE_MS = 7000;
+const MS_PER_CHAR = 60; // Reading speed used when a segment has no end time
+
+const PII_PATTERNS = [
+  /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi, // Email addresses
+  /\b(?:\d[ -]?){13,19}\b/g, // Card numbers
+  /(?:\+\d{1,3}[ .-]?)?\(?\d{3}\)?[ .-]?\d{3}[ .-]?\d{4}\b/g, // Phone numbers
+];
+
+export const redactPII = (text: string) =>
+  PII_PATTERNS.reduce((redacted, pattern) => redacted.replace(pattern, REDACTED), text);
+
+interface ExportSegment {
+  speaker: string;
+  text: string;
+  start: number; // ms from call start
+  end: number;
+  words: ITranscriptWord[]; // Dropped when redaction changed the text
+}
+
+// Segments as they should read in the export, with end times filled in
+const prepareSegments = (segments: ITranscriptSegment[], redact: TranscriptRedaction): ExportSegment[] => {
+  const ordered = [...segments].sort((a, b) => a.timestamp - b.timestamp);
+  return ordered.map((segment, i) => {
+    let text = segment.text.trim();
+    if ((redact === 'flagged' || redact === 'all') && segment.flagged) {
+      text = REDACTED;
+    } else if (redact === 'pii' || redact === 'all') {
+      text = redactPII(text);
+    }
+
+    const next = ordered[i + 1]?.timestamp;
+    const estimatedEnd = segment.timestamp + Math.max(1000, text.length * MS_PER_CHAR);
+    const end = segment.endTimestamp || (next !== undefined ? Math.min(next, estimatedEnd) : estimatedEnd);
+    return {
+      speaker: segment.speaker,
+      text,
+      start: segment.timestamp,
+      end: Math.max(end, segment.timestamp + 500),
+      words: text === segment.text.trim() ? segment.words || [] : [],
+    };
+  });
+};
+
+// --- Subtitles ---
+
+interface Cue {
+  start: number;
+  end: number;
+  speaker: string;
+  text: string;
+}
+
+// Long segments are split into readable cues: at word timings when the
+// transcriber reported them, otherwise timed by each cue's share of the text
+const buildCues = (segments: ExportSegment[], offsetMs: number): Cue[] => {
+  const cues: Cue[] = [];
+  for (const segment of segments) {
+    if (segment.words.length > 0) {
+      let current: Cue | null = null;
+      for (const word of segment.words) {
+        if (current && current.text.length + word.text.length + 1 <= MAX_CUE_CHARS && word.end - current.start <= MAX_CUE_MS) {
+          current.text = `${current.text} ${word.text}`;
+          current.end = word.end;
+        } else {
+          current = { start: word.start, end: word.end, speaker: segment.speaker, text: word.text };
+          cues.push(current);
+        }
+      }
+      continue;
+    }
+
+    const lines: string[] = [];
+    for (const word of segment.text.split(/\s+/).filter(Boolean)) {
+      const last = lines[lines.length - 1];
+      if (last !== undefined && last.length + word.length + 1 <= MAX_CUE_CHARS) {
+        lines[lines.length - 1] = `${last} ${word}`;
+      } else {
+        lines.push(word);
+      }
+    }
+
+    const duration = segment.end - segment.start;
+    const totalChars = lines.reduce((sum, line) => sum + line.length, 0) || 1;
+    let cursor = segment.start;
+    for (const line of lines) {
+      const end = cursor + Math.min(MAX_CUE_MS, (duration * line.length) / totalChars);
+      cues.push({ start: cursor, end, speaker: segment.speaker, text: line });
+      cursor = end;
+    }
+  }
+
+  // Recording time, dropping speech from before the recording started
+  return cues
+    .map(cue => ({ ...cue, start: Math.max(0, Math.round(cue.start - offsetMs)), end: Math.round(cue.end - offsetMs) }))
+    .filter(cue => cue.end > cue.start);
+};
+
+// 3723004 -> "01:02:03,004" (SRT) or "01:02:03.004" (WebVTT)
+const cueTime = (ms: number, separator: ',' | '.') => {
+  const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+const toSrt = (cues: Cue[], options: TranscriptExportOptions) =>
+  cues.map((cue, i) => [
+    String(i + 1),
+    `${cueTime(cue.start, ',')} --> ${cueTime(cue.end, ',')}`,
+    options.speakers ? `${cue.speaker}: ${cue.text}` : cue.text,
+  ].join('\n')).join('\n\n') + '\n';
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const toVtt = (cues: Cue[], options: TranscriptExportOptions) =>
+  'WEBVTT\n\n' + cues.map(cue => [
+    `${cueTime(cue.start, '.')} --> ${cueTime(cue.end, '.')}`,
+    options.speakers ? `<v ${escapeVtt(cue.speaker)}>${escapeVtt(cue.text)}` : escapeVtt(cue.text),
+  ].join('\n')).join('\n\n') + '\n';
+
+// --- Documents ---
+
+// 75000 -> "1:15", 3725000 -> "1:02:05"
+const callTime = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+// Format-neutral outline shared by the md, txt and docx writers
+type Block =
+  | { kind: 'title'; text: string }
+  | { kind: 'heading'; text: string }
+  | { kind: 'paragraph'; text: string; label?: string }
+  | { kind: 'bullet'; text: string };
+
+const buildDocument = (
+  callSession: ICallSession,
+  segments: ExportSegment[],
+  notes: INotes | null,
+  options: TranscriptExportOptions
+): Block[] => {
+  const redactNotes = (text: string) =>
+    options.redact === 'pii' || options.redact === 'all' ? redactPII(text) : text;
+
+  const blocks: Block[] = [
+    { kind: 'title', text: notes?.title || 'Call Transcript' },
+    { kind: 'paragraph', text: `Date: ${new Date(callSession.startedAt).toLocaleString()}` },
+  ];
+  if (callSession.duration) {
+    blocks.push({ kind: 'paragraph', text: `Duration: ${callTime(callSession.duration * 1000)}` });
+  }
+
+  if (options.notes && notes) {
+    if (notes.summary) {
+      blocks.push({ kind: 'heading', text: 'Summary' }, { kind: 'paragraph', text: redactNotes(notes.summary) });
+    }
+    if (notes.actionItems?.length) {
+      blocks.push({ kind: 'heading', text: 'Action Items' });
+      notes.actionItems.forEach(item => blocks.push({
+        kind: 'bullet',
+        text: redactNotes(item.assignee ? `${item.text} (${item.assignee})` : item.text),
+      }));
+    }
+    if (notes.decisions?.length) {
+      blocks.push({ kind: 'heading', text: 'Decisions' });
+      notes.decisions.forEach(decision => blocks.push({ kind: 'bullet', text: redactNotes(decision.decision) }));
+    }
+  }
+
+  blocks.push({ kind: 'heading', text: 'Transcript' });
+  if (segments.length === 0) {
+    blocks.push({ kind: 'paragraph', text: 'No transcript available.' });
+  }
+  segments.forEach(segment => {
+    const label = [
+      options.timestamps ? `[${callTime(segment.start)}]` : '',
+      options.speakers ? `${segment.speaker}:` : '',
+    ].filter(Boolean).join(' ');
+    blocks.push({ kind: 'paragraph', text: segment.text, label: label || undefined });
+  });
+
+  return blocks;
+};
+
+const toMarkdown = (blocks: Block[]) => blocks.map(block => {
+  switch (block.kind) {
+    case 'title': return `# ${block.text}`;
+    case 'heading': return `## ${block.text}`;
+    case 'bullet': return `- ${block.text}`;
+    case 'paragraph': return block.label ? `**${block.label}** ${block.text}` : block.text;
+  }
+}).join('\n\n') + '\n';
+
+const toText = (blocks: Block[]) => blocks.map(block => {
+  switch (block.kind) {
+    case 'title': return `${block.text}\n${'='.repeat(block.text.length)}`;
+    case 'heading': return `${block.text}\n${'-'.repeat(block.text.length)}`;
+    case 'bullet': return `  * ${block.text}`;
+    case 'paragraph': return block.label ? `${block.label} ${block.text}` : block.text;
+  }
+}).join('\n\n') + '\n';
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const docxRun = (text: string, bold = false) =>
+  `<w:r>${bold ? '<w:rPr><w:b/></w:rPr>' : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+
+const docxParagraph = (block: Block) => {
+  switch (block.kind) {
+    case 'title': return `<w:p><w:pPr><w:pStyle w:val="Title"/></w:pPr>${docxRun(block.text)}</w:p>`;
+    case 'heading': return `<w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr>${docxRun(block.text)}</w:p>`;
+    case 'bullet': return `<w:p><w:pPr><w:ind w:left="360"/></w:pPr>${docxRun(`• ${block.text}`)}</w:p>`;
+    case 'paragraph': return `<w:p>${block.label ? docxRun(`${block.label} `, true) : ''}${docxRun(block.text)}</w:p>`;
+  }
+};
+
+const DOCX_CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+</Types>`;
+
+const DOCX_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+const DOCX_DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+const DOCX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:pPr><w:spacing w:after="120"/></w:pPr><w:rPr><w:sz w:val="22"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:rPr><w:b/><w:sz w:val="40"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:before="240"/></w:pPr><w:rPr><w:b/><w:sz w:val="28"/></w:rPr></w:style>
+</w:styles>`;
+
+// A minimal WordprocessingML package: content types, relationships, styles and the body
+const toDocx = (blocks: Block[]): Promise<Buffer> => {
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:body>${blocks.map(docxParagraph).join('')}</w:body>
+</w:document>`;
+
+  const archive = archiver('zip', { zlib: { level: 6 } });
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    archive.on('error', reject);
+    output.on('end', () => resolve(Buffer.concat(chunks)));
+  });
+
+  archive.pipe(output);
+  archive.append(DOCX_CONTENT_TYPES, { name: '[Content_Types].xml' });
+  archive.append(DOCX_RELS, { name: '_rels/.rels' });
+  archive.append(DOCX_DOCUMENT_RELS, { name: 'word/_rels/document.xml.rels' });
+  archive.append(DOCX_STYLES, { name: 'word/styles.xml' });
+  archive.append(document, { name: 'word/document.xml' });
+  archive.finalize();
+
+  return finished;
+};
+
+export async function exportTranscript(
+  callSession: ICallSession,
+  transcript: ITranscript | null,
+  notes: INotes | null,
+  options: TranscriptExportOptions
+): Promise<TranscriptExport> {
+  const segments = prepareSegments(transcript?.segments || [], options.redact);
+  const date = new Date(callSession.startedAt).toISOString().split('T')[0];
+  const filename = `call-transcript-${date}-${callSession._id}.${options.format}`;
+
+  let body: Buffer;
+  switch (options.format) {
+    case 'srt':
+    case 'vtt': {
+      const cues = buildCues(segments, callSession.metadata?.recordingOffsetMs || 0);
+      body = Buffer.from(options.format === 'srt' ? toSrt(cues, options) : toVtt(cues, options));
+      break;
+    }
+    case 'md':
+      body = Buffer.from(toMarkdown(buildDocument(callSession, segments, notes, options)));
+      break;
+    case 'txt':
+      body = Buffer.from(toText(buildDocument(callSession, segments, notes, options)));
+      break;
+    case 'docx':
+      body = await toDocx(buildDocument(callSession, segments, notes, options));
+      break;
+  }
+
+  return { filename, contentType: CONTENT_TYPES[options.format], body };
+}
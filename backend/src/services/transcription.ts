@@ -0,0 +1,253 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { transcribeWithOpenAI, isOpenAIConfigured } from './openai';
+import { transcribeFreeAudio } from './freeAI';
+import { createLocalWhisperProvider } from './localTranscription';
+
+/**
+ * Speech-to-text providers.
+ *
+ * TRANSCRIPTION_PROVIDER is a comma-separated chain tried in order, e.g.
+ * `local` for machines with no network, or `local,openai` to fall back to
+ * the cloud. The default keeps the original behaviour: free Hugging Face
+ * Whisper first, then OpenAI.
+ *
+ *   openai       OpenAI Whisper API (needs OPENAI_API_KEY)
+ *   huggingface  Hugging Face Inference API Whisper
+ *   local        whisper.cpp on this machine (see services/localTranscription.ts)
+ *   fixture      deterministic canned transcripts for tests and demos
+ */
+
+export type TranscriptionProviderName = 'openai' | 'huggingface' | 'local' | 'fixture';
+
+export interface TranscriptionCapabilities {
+  languages: string[] | 'any'; // ISO 639-1 codes the provider can transcribe
+  languageDetection: boolean; // Reports the spoken language back
+  timestamps: 'none' | 'segment' | 'word';
+  wordConfidence: boolean;
+  offline: boolean; // Works without network access
+}
+
+// Times are seconds from the start of the audio that was transcribed
+export interface TranscriptionWord {
+  word: string;
+  start: number;
+  end: number;
+  confidence?: number; // 0-1
+}
+
+export interface TranscriptionResult {
+  text: string;
+  language?: string;
+  segments?: Array<{
+    start: number;
+    end: number;
+    text: string;
+  }>;
+  words?: TranscriptionWord[];
+  confidence?: number; // Mean word confidence, when the provider reports it
+  provider?: TranscriptionProviderName;
+}
+
+export interface TranscribeOptions {
+  language?: string;
+  mimeType?: string;
+}
+
+export interface TranscriptionProvider {
+  name: TranscriptionProviderName;
+  capabilities: TranscriptionCapabilities;
+  isAvailable(): boolean;
+  transcribe(audio: Buffer, options: Required<TranscribeOptions>): Promise<TranscriptionResult>;
+}
+
+const DEFAULT_CHAIN = 'huggingface,openai';
+const DEFAULT_LANGUAGE = process.env.TRANSCRIPTION_LANGUAGE || 'en';
+
+// --- Cloud providers ---
+
+const openaiProvider: TranscriptionProvider = {
+  name: 'openai',
+  capabilities: {
+    languages: 'any',
+    languageDetection: true,
+    timestamps: 'word',
+    wordConfidence: false,
+    offline: false,
+  },
+  isAvailable: () => isOpenAIConfigured(),
+  transcribe: (audio, { language, mimeType }) => transcribeWithOpenAI(audio, language, mimeType),
+};
+
+const huggingFaceProvider: TranscriptionProvider = {
+  name: 'huggingface',
+  capabilities: {
+    languages: 'any',
+    languageDetection: false,
+    timestamps: 'segment',
+    wordConfidence: false,
+    offline: false,
+  },
+  // Public models work without a key (rate limited)
+  isAvailable: () => true,
+  transcribe: (audio, { language }) => transcribeFreeAudio(audio, language),
+};
+
+// --- Fixture provider ---
+
+const DEFAULT_FIXTURES = [
+  'Thanks everyone for joining, let us get started.',
+  'The first item on the agenda is the launch timeline.',
+  'I think we should move the release to next Thursday.',
+  'Can you send me the updated design before Friday?',
+  'Sounds good, I will follow up with the team after this call.',
+];
+
+let fixtureTranscripts: string[] | null = null;
+
+const loadFixtures = (): string[] => {
+  if (fixtureTranscripts) return fixtureTranscripts;
+
+  const file = process.env.TRANSCRIPTION_FIXTURE_FILE;
+  if (file) {
+    try {
+      const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+      if (Array.isArray(parsed) && parsed.length > 0) {
+        fixtureTranscripts = parsed.map(String);
+        return fixtureTranscripts;
+      }
+      console.warn('[TRANSCRIPTION] ⚠️ Fixture file must contain a non-empty JSON array of strings:', file);
+    } catch (error: any) {
+      console.warn('[TRANSCRIPTION] ⚠️ Could not read fixture file:', error.message);
+    }
+  }
+
+  fixtureTranscripts = DEFAULT_FIXTURES;
+  return fixtureTranscripts;
+};
+
+// Replace the fixture utterances (tests)
+export const setTranscriptionFixtures = (transcripts: string[] | null) => {
+  fixtureTranscripts = transcripts && transcripts.length > 0 ? transcripts : null;
+};
+
+const FIXTURE_SECONDS_PER_WORD = 0.4;
+
+/**
+ * The same audio always yields the same transcript: the utterance is picked
+ * by hashing the buffer, words are spaced evenly and confidence is derived
+ * from the word itself.
+ */
+const fixtureProvider: TranscriptionProvider = {
+  name: 'fixture',
+  capabilities: {
+    languages: 'any',
+    languageDetection: false,
+    timestamps: 'word',
+    wordConfidence: true,
+    offline: true,
+  },
+  isAvailable: () => true,
+  transcribe: async (audio, { language }) => {
+    const fixtures = loadFixtures();
+    const digest = crypto.createHash('sha256').update(audio).digest();
+    const text = fixtures[digest.readUInt32BE(0) % fixtures.length];
+
+    const words = text.split(/\s+/).filter(Boolean).map((word, i) => ({
+      word,
+      start: i * FIXTURE_SECONDS_PER_WORD,
+      end: (i + 1) * FIXTURE_SECONDS_PER_WORD,
+      confidence: 0.8 + (word.length % 5) / 25,
+    }));
+
+    return {
+      text,
+      language,
+      segments: [{ start: 0, end: words.length * FIXTURE_SECONDS_PER_WORD, text }],
+      words,
+      confidence: words.reduce((sum, w) => sum + w.confidence, 0) / words.length,
+    };
+  },
+};
+
+// --- Registry & selection ---
+
+const providers = new Map<TranscriptionProviderName, TranscriptionProvider>([
+  ['openai', openaiProvider],
+  ['huggingface', huggingFaceProvider],
+  ['local', createLocalWhisperProvider()],
+  ['fixture', fixtureProvider],
+]);
+
+// Swap in a custom implementation for a provider name (tests, new engines)
+export const registerTranscriptionProvider = (provider: TranscriptionProvider) => {
+  providers.set(provider.name, provider);
+};
+
+let transcriptionChain: TranscriptionProviderName[] | null = null;
+
+// Configured provider names, in fallback order
+export const getTranscriptionChain = (): TranscriptionProviderName[] => {
+  if (transcriptionChain) return transcriptionChain;
+
+  const names = (process.env.TRANSCRIPTION_PROVIDER || DEFAULT_CHAIN)
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const chain: TranscriptionProviderName[] = [];
+  for (const name of names) {
+    if (providers.has(name as TranscriptionProviderName)) {
+      chain.push(name as TranscriptionProviderName);
+    } else {
+      console.warn(`[TRANSCRIPTION] ⚠️ Unknown provider "${name}" in TRANSCRIPTION_PROVIDER - ignoring`);
+    }
+  }
+
+  transcriptionChain = chain;
+  return chain;
+};
+
+const supportsLanguage = (provider: TranscriptionProvider, language: string) =>
+  provider.capabilities.languages === 'any' || provider.capabilities.languages.includes(language);
+
+// Provider status for /api/info
+export const getTranscriptionStatus = () => {
+  const chain = getTranscriptionChain();
+  return {
+    chain,
+    providers: Array.from(providers.values()).map(provider => ({
+      name: provider.name,
+      enabled: chain.includes(provider.name),
+      available: provider.isAvailable(),
+      capabilities: provider.capabilities,
+    })),
+  };
+};
+
+/**
+ * Transcribe with the first configured provider that is available, supports
+ * the language and succeeds. Resolves with empty text (provider undefined)
+ * when every provider failed, so callers can simply skip the chunk.
+ */
+export async function transcribe(audio: Buffer, options: TranscribeOptions = {}): Promise<TranscriptionResult> {
+  const resolved: Required<TranscribeOptions> = {
+    language: options.language || DEFAULT_LANGUAGE,
+    mimeType: options.mimeType || 'audio/webm',
+  };
+
+  for (const name of getTranscriptionChain()) {
+    const provider = providers.get(name)!;
+    if (!provider.isAvailable() || !supportsLanguage(provider, resolved.language)) continue;
+
+    try {
+      const result = await provider.transcribe(audio, resolved);
+      return { ...result, provider: name };
+    } catch (error: any) {
+      console.warn(`[TRANSCRIPTION] ⚠️ ${name} failed, trying next provider:`, error.message);
+    }
+  }
+
+  console.warn('[TRANSCRIPTION] ⚠️ No transcription provider succeeded');
+  return { text: '', segments: [] };
+}
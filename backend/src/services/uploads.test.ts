@@ -0,0 +1,183 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { Upload, IUpload } from '../models/Upload';
+import { createMemoryStore, getSharedStore, setSharedStore, SHARED_STORE_PREFIX } from './sharedStore';
+import { useFakeUploadStorage } from '../test/uploads';
+import {
+  startUpload,
+  putChunk,
+  completeUpload,
+  sweepUploads,
+  UploadError,
+  ATTACHMENT_MAX_BYTES,
+  RECORDING_MAX_BYTES,
+} from './uploads';
+
+const sha256 = (data: Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+const chunksSha256 = (chunks: Buffer[]) => sha256(Buffer.concat(chunks.map(c => Buffer.from(sha256(c), 'hex'))));
+
+const uploadError = (status: number, details: Record<string, unknown> = {}) => (error: any) => {
+  assert.ok(error instanceof UploadError, error);
+  assert.equal(error.status, status);
+  for (const [key, value] of Object.entries(details)) assert.equal(error.details?.[key], value);
+  return true;
+};
+
+const start = (kind: 'recording' | 'attachment' = 'attachment', size?: number) =>
+  startUpload({
+    kind,
+    userId: new mongoose.Types.ObjectId().toString(),
+    filename: `${kind}.bin`,
+    contentType: 'application/octet-stream',
+    size,
+    callId: kind === 'recording' ? new mongoose.Types.ObjectId().toString() : undefined,
+  });
+
+// An upload another backend instance started (its stream isn't held here)
+const foreignUpload = (storage: ReturnType<typeof useFakeUploadStorage>, instance: string, fields: Partial<IUpload> = {}) => {
+  const upload = new Upload({
+    kind: 'attachment',
+    userId: new mongoose.Types.ObjectId(),
+    filename: 'attachment.bin',
+    fileId: new mongoose.Types.ObjectId(),
+    instance,
+    ...fields,
+  });
+  storage.uploads.set(upload._id.toString(), upload);
+  return upload;
+};
+
+describe('chunked uploads', () => {
+  let storage: ReturnType<typeof useFakeUploadStorage>;
+  const chunks = [Buffer.from('first chunk'), Buffer.from('second chunk')];
+
+  beforeEach(() => {
+    setSharedStore(createMemoryStore());
+    storage = useFakeUploadStorage();
+  });
+  afterEach(() => mock.restoreAll());
+
+  it('writes chunks in order and completes with the digest of their digests', async () => {
+    let upload = await start('attachment', chunks[0].length + chunks[1].length);
+    for (const [index, chunk] of chunks.entries()) {
+      upload = await putChunk(upload, index, chunk, sha256(chunk));
+    }
+    assert.equal(upload.nextChunk, 2);
+
+    const completed = await completeUpload(upload, { chunksSha256: chunksSha256(chunks) });
+    assert.equal(completed.status, 'completed');
+    assert.equal(completed.sha256, sha256(Buffer.concat(chunks)));
+    assert.equal(storage.files().length, 1);
+    assert.equal(storage.files()[0].length, completed.receivedBytes);
+  });
+
+  it('acknowledges a chunk sent again, so a client that lost the reply can resume', async () => {
+    let upload = await start();
+    upload = await putChunk(upload, 0, chunks[0], sha256(chunks[0]));
+    upload = await putChunk(upload, 0, chunks[0], sha256(chunks[0]));
+    assert.equal(upload.nextChunk, 1);
+    assert.equal(upload.receivedBytes, chunks[0].length);
+
+    await assert.rejects(putChunk(upload, 0, chunks[1], sha256(chunks[1])), uploadError(409, { nextChunk: 1 }));
+  });
+
+  it('refuses a chunk past a gap and tells the client where to resume', async () => {
+    const upload = await start();
+    await assert.rejects(putChunk(upload, 1, chunks[1]), uploadError(409, { nextChunk: 0 }));
+  });
+
+  it('refuses a chunk that does not match its checksum', async () => {
+    const upload = await start();
+    await assert.rejects(putChunk(upload, 0, chunks[0], sha256(chunks[1])), uploadError(422));
+  });
+
+  it('refuses an attachment declared or grown beyond the limit', async () => {
+    await assert.rejects(start('attachment', ATTACHMENT_MAX_BYTES + 1), uploadError(413, { code: 'file_too_large' }));
+
+    const upload = await start();
+    upload.receivedBytes = ATTACHMENT_MAX_BYTES - 1;
+    await assert.rejects(putChunk(upload, 0, chunks[0]), uploadError(413, { code: 'file_too_large' }));
+  });
+
+  it('stops a recording at its limit and keeps what it has', async () => {
+    let upload = await start('recording');
+    upload = await putChunk(upload, 0, chunks[0], sha256(chunks[0]));
+    upload.receivedBytes = RECORDING_MAX_BYTES - 1;
+    await assert.rejects(putChunk(upload, 1, chunks[1]), uploadError(413, { code: 'recording_limit_reached' }));
+
+    upload.receivedBytes = chunks[0].length;
+    const completed = await completeUpload(upload, { chunksSha256: chunksSha256([chunks[0]]) });
+    assert.equal(completed.status, 'completed');
+  });
+
+  it('sends the client to start over when the instance holding the upload went away', async () => {
+    const upload = foreignUpload(storage, 'gone-host:1');
+    await assert.rejects(putChunk(upload, 0, chunks[0]), uploadError(410));
+    assert.equal(upload.status, 'expired');
+  });
+
+  it('points the client at the instance holding the upload while that one is up', async () => {
+    const upload = foreignUpload(storage, 'other-host:1');
+    await getSharedStore().set(`${SHARED_STORE_PREFIX}uploads:instance:other-host:1`, '1');
+    await assert.rejects(putChunk(upload, 0, chunks[0]), uploadError(409, { instance: 'other-host:1' }));
+    assert.equal(upload.status, 'uploading');
+  });
+});
+
+describe('sweepUploads', () => {
+  let storage: ReturnType<typeof useFakeUploadStorage>;
+  let saved: IUpload[];
+  const chunk = Buffer.from('recorded media');
+  const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000);
+
+  beforeEach(() => {
+    setSharedStore(createMemoryStore());
+    storage = useFakeUploadStorage();
+    saved = [];
+  });
+  afterEach(() => mock.restoreAll());
+
+  const sweep = () => sweepUploads(async (upload) => { saved.push(upload); });
+
+  it('saves a recording whose uploader went quiet with what arrived', async () => {
+    const upload = await putChunk(await start('recording'), 0, chunk);
+    upload.lastChunkAt = minutesAgo(31);
+
+    await sweep();
+    assert.equal(upload.status, 'completed');
+    assert.equal(upload.sha256, sha256(chunk));
+    assert.deepEqual(saved, [upload]);
+    assert.equal(storage.files().length, 1);
+  });
+
+  it('leaves a recording that is still being sent', async () => {
+    const upload = await putChunk(await start('recording'), 0, chunk);
+    upload.lastChunkAt = minutesAgo(5);
+
+    await sweep();
+    assert.equal(upload.status, 'uploading');
+    assert.equal(saved.length, 0);
+  });
+
+  it('discards other uploads left beyond the TTL', async () => {
+    const upload = await putChunk(await start('attachment'), 0, chunk);
+    upload.lastChunkAt = minutesAgo(25 * 60);
+
+    await sweep();
+    assert.equal(upload.status, 'expired');
+    await assert.rejects(putChunk(upload, 1, chunk), uploadError(410));
+    assert.equal(storage.files().length, 0);
+  });
+
+  it('leaves an abandoned upload to the instance holding it while that one is up', async () => {
+    const alive = foreignUpload(storage, 'other-host:1', { lastChunkAt: minutesAgo(25 * 60) });
+    const orphaned = foreignUpload(storage, 'gone-host:1', { lastChunkAt: minutesAgo(25 * 60) });
+    await getSharedStore().set(`${SHARED_STORE_PREFIX}uploads:instance:other-host:1`, '1');
+
+    await sweep();
+    assert.equal(alive.status, 'uploading');
+    assert.equal(orphaned.status, 'expired');
+  });
+});
@@ -0,0 +1,399 @@
+import crypto from 'crypto';
+import os from 'os';
+import mongoose from 'mongoose';
+import { GridFSBucketWriteStream } from 'mongodb';
+import { Upload, IUpload, UploadKind } from '../models/Upload';
+import { openRecordingUploadStream, deleteRecording } from './storage';
+import { getSharedStore, SHARED_STORE_PREFIX } from './sharedStore';
+
+/**
+ * Resumable chunked uploads for call recordings and message attachments.
+ *
+ * The client starts an upload, PUTs numbered chunks (each with its SHA-256)
+ * and completes it with a checksum: the SHA-256 of the whole file, or the
+ * SHA-256 of the chunk digests concatenated in order for clients that can't
+ * hash incrementally. Every chunk goes straight into a GridFS upload stream,
+ * so no more than one chunk is ever held in memory. A chunk that was already
+ * received is acknowledged again, so a client that lost a reply resumes from
+ * `nextChunk` (GET /api/uploads/:id).
+ *
+ * The upload stream lives on the instance that started the upload: with
+ * several backends, route a client's requests to the same one (as Socket.IO
+ * already needs). An instance holding streams keeps a heartbeat in the
+ * shared store; an upload whose instance restarted or stopped beating has
+ * to start over (410). A recording whose uploader went quiet (a crashed or
+ * closed tab) is saved with what arrived once it has been idle for
+ * UPLOAD_RECORDING_IDLE_MINUTES, by the instance holding its stream.
+ *
+ * UPLOAD_CHUNK_MAX_MB       largest chunk accepted (default 8)
+ * UPLOAD_RECORDING_MAX_MB   largest call recording accepted (default 4096)
+ * UPLOAD_RECORDING_IDLE_MINUTES  recordings idle this long are saved as they are (default 30)
+ * UPLOAD_TTL_HOURS          other uploads idle this long are discarded (default 24)
+ */
+
+export const UPLOAD_CHUNK_MAX_BYTES = Number(process.env.UPLOAD_CHUNK_MAX_MB || 8) * 1024 * 1024;
+export const ATTACHMENT_MAX_BYTES = 50 * 1024 * 1024;
+export const RECORDING_MAX_BYTES = Number(process.env.UPLOAD_RECORDING_MAX_MB || 4096) * 1024 * 1024;
+
+const MAX_BYTES: Record<UploadKind, number> = {
+  attachment: ATTACHMENT_MAX_BYTES,
+  recording: RECORDING_MAX_BYTES,
+};
+
+// A recording that reaches the limit keeps what it has; the client completes it
+const tooLarge = (kind: UploadKind) => new UploadError(
+  kind === 'recording' ? 'Recording reached its size limit' : 'File is too large',
+  413,
+  { maxBytes: MAX_BYTES[kind], code: kind === 'recording' ? 'recording_limit_reached' : 'file_too_large' }
+);
+const TTL_MS = Number(process.env.UPLOAD_TTL_HOURS || 24) * 60 * 60 * 1000;
+const RECORDING_IDLE_MS = Number(process.env.UPLOAD_RECORDING_IDLE_MINUTES || 30) * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+const INSTANCE = `${os.hostname()}:${process.pid}`;
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+export class UploadError extends Error {
+  status: number;
+  details?: Record<string, any>;
+
+  constructor(message: string, status: number, details?: Record<string, any>) {
+    super(message);
+    this.name = 'UploadError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+interface OpenUpload {
+  stream: GridFSBucketWriteStream;
+  hash: crypto.Hash; // Of everything written so far
+  nextChunk: number;
+  busy: boolean; // A chunk is being written
+  error: Error | null;
+}
+
+// Upload streams held by this instance (uploadId -> stream)
+const open = new Map<string, OpenUpload>();
+let sweepTimer: NodeJS.Timeout | null = null;
+let sweepInProgress = false;
+
+const heartbeatKey = (instance: string) => `${SHARED_STORE_PREFIX}uploads:instance:${instance}`;
+let heartbeatTimer: NodeJS.Timeout | null = null;
+
+const beat = () => getSharedStore().set(heartbeatKey(INSTANCE), '1', HEARTBEAT_INTERVAL_MS * 3);
+
+// Beats while this instance holds any upload stream
+async function keepHeartbeat() {
+  if (heartbeatTimer) return;
+  heartbeatTimer = setInterval(() => {
+    if (open.size === 0) {
+      clearInterval(heartbeatTimer!);
+      heartbeatTimer = null;
+      return;
+    }
+    beat().catch((error) => console.error('[UPLOADS] ❌ Heartbeat failed:', error));
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeatTimer.unref();
+  await beat();
+}
+
+// Whether another instance is still up and holding upload streams
+const isInstanceAlive = async (instance: string) =>
+  (await getSharedStore().get(heartbeatKey(instance))) !== null;
+
+export interface StartUploadOptions {
+  kind: UploadKind;
+  userId: string;
+  filename: string;
+  contentType: string;
+  size?: number;
+  callId?: string;
+  offsetMs?: number;
+  metadata?: Record<string, any>; // Stored on the GridFS file
+}
+
+const sha256 = (data: Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+
+// Release whatever an upload had written; the file never gets a files document
+const discard = async (upload: IUpload, status: 'failed' | 'expired', error: string) => {
+  const entry = open.get(upload._id.toString());
+  open.delete(upload._id.toString());
+  if (entry) {
+    await entry.stream.abort().catch(() => {});
+  }
+  // Not if it was saved meanwhile (an abandoned recording)
+  const { modifiedCount } = await Upload.updateOne({ _id: upload._id, status: 'uploading' }, { $set: { status, error } });
+  if (modifiedCount > 0) {
+    await deleteRecording(upload.fileId.toString()).catch(() => {});
+  }
+};
+
+// End the GridFS file with what was written so far and mark the upload complete
+const closeUpload = async (upload: IUpload, entry: OpenUpload): Promise<IUpload> => {
+  open.delete(upload._id.toString());
+  await new Promise<void>((resolve, reject) => {
+    entry.stream.once('finish', resolve);
+    entry.stream.once('error', reject);
+    entry.stream.end();
+  });
+
+  upload.status = 'completed';
+  upload.sha256 = entry.hash.copy().digest('hex');
+  upload.completedAt = new Date();
+  await upload.save();
+  return upload;
+};
+
+/**
+ * Save recordings held here whose uploader stopped sending, and drop other
+ * uploads nobody has touched within the TTL. Uploads held by another
+ * instance that is still up are left to it.
+ */
+export async function sweepUploads(onRecordingSaved: (upload: IUpload) => Promise<void>) {
+  const idleRecordings = await Upload.find({
+    _id: { $in: Array.from(open.keys()) },
+    kind: 'recording',
+    status: 'uploading',
+    nextChunk: { $gt: 0 },
+    lastChunkAt: { $lt: new Date(Date.now() - RECORDING_IDLE_MS) },
+  });
+  for (const upload of idleRecordings) {
+    const entry = open.get(upload._id.toString());
+    if (!entry || entry.busy || entry.error) continue;
+    try {
+      await onRecordingSaved(await closeUpload(upload, entry));
+      console.log(`[UPLOADS] 💾 Saved abandoned recording ${upload._id} (${upload.nextChunk} chunks, ${upload.receivedBytes} bytes)`);
+    } catch (error) {
+      console.error(`[UPLOADS] ❌ Could not save abandoned recording ${upload._id}:`, error);
+    }
+  }
+
+  const expired = await Upload.find({
+    status: 'uploading',
+    lastChunkAt: { $lt: new Date(Date.now() - TTL_MS) },
+  });
+  let discarded = 0;
+  for (const upload of expired) {
+    const heldHere = open.has(upload._id.toString()) || upload.instance === INSTANCE;
+    if (!heldHere && upload.instance && await isInstanceAlive(upload.instance)) continue;
+    await discard(upload, 'expired', 'Upload was abandoned');
+    discarded++;
+  }
+  if (discarded > 0) {
+    console.log(`[UPLOADS] 🧹 Discarded ${discarded} abandoned upload(s)`);
+  }
+}
+
+/**
+ * Start sweeping abandoned uploads every minute. `onRecordingSaved` gets a
+ * recording saved with what its uploader sent (to attach it to its call).
+ */
+export const startUploadSweeper = (onRecordingSaved: (upload: IUpload) => Promise<void>) => {
+  if (sweepTimer) return;
+
+  const sweep = async () => {
+    if (sweepInProgress || mongoose.connection.readyState !== 1) return;
+    sweepInProgress = true;
+    try {
+      await sweepUploads(onRecordingSaved);
+    } catch (error) {
+      console.error('[UPLOADS] ❌ Sweep failed:', error);
+    } finally {
+      sweepInProgress = false;
+    }
+  };
+
+  sweepTimer = setInterval(sweep, SWEEP_INTERVAL_MS);
+  sweepTimer.unref();
+};
+
+export async function startUpload(options: StartUploadOptions): Promise<IUpload> {
+  if (options.size && options.size > MAX_BYTES[options.kind]) {
+    throw tooLarge(options.kind);
+  }
+
+  await keepHeartbeat();
+  const stream = openRecordingUploadStream(options.filename, options.contentType, options.metadata);
+  const upload = await Upload.create({
+    kind: options.kind,
+    userId: options.userId,
+    callId: options.callId || null,
+    filename: options.filename,
+    contentType: options.contentType,
+    size: options.size ?? null,
+    offsetMs: options.offsetMs ?? null,
+    fileId: stream.id,
+    instance: INSTANCE,
+  });
+
+  const entry: OpenUpload = { stream, hash: crypto.createHash('sha256'), nextChunk: 0, busy: false, error: null };
+  stream.on('error', (error) => {
+    entry.error = error;
+    console.error(`[UPLOADS] ❌ Upload ${upload._id} stream failed:`, error);
+  });
+  open.set(upload._id.toString(), entry);
+
+  console.log(`[UPLOADS] 📤 Started ${options.kind} upload ${upload._id}: ${options.filename}`);
+  return upload;
+}
+
+export async function findUpload(uploadId: string, userId: string): Promise<IUpload> {
+  const upload = mongoose.Types.ObjectId.isValid(uploadId)
+    ? await Upload.findOne({ _id: uploadId, userId })
+    : null;
+  if (!upload) throw new UploadError('Upload not found', 404);
+  return upload;
+}
+
+// The stream an in-progress upload writes to, if this instance holds it
+const heldStream = async (upload: IUpload): Promise<OpenUpload> => {
+  if (upload.status === 'completed') {
+    throw new UploadError('Upload is already complete', 409);
+  }
+  if (upload.status !== 'uploading') {
+    throw new UploadError(`Upload ${upload.status}: ${upload.error || 'start a new upload'}`, 410);
+  }
+
+  const entry = open.get(upload._id.toString());
+  if (entry && !entry.error) return entry;
+
+  if (entry?.error) {
+    await discard(upload, 'failed', entry.error.message);
+    throw new UploadError('Storage failed while uploading, start a new upload', 410);
+  }
+  if (!upload.instance || upload.instance === INSTANCE || !(await isInstanceAlive(upload.instance))) {
+    // Restarted (new pid or host) since the upload began; whatever was written can't be continued
+    await discard(upload, 'expired', 'Server restarted during the upload');
+    throw new UploadError('Upload was interrupted on the server, start a new upload', 410);
+  }
+  throw new UploadError('Upload is in progress on another server instance', 409, { instance: upload.instance });
+};
+
+/**
+ * Append chunk `index`. Chunks already received are acknowledged (as long
+ * as they match), later ones are refused until the gap is filled.
+ */
+export async function putChunk(upload: IUpload, index: number, data: Buffer, digest?: string): Promise<IUpload> {
+  const entry = await heldStream(upload);
+
+  if (index < entry.nextChunk) {
+    if (digest && upload.chunkDigests[index] && upload.chunkDigests[index] !== digest.toLowerCase()) {
+      throw new UploadError(`Chunk ${index} was already received with different content`, 409, { nextChunk: entry.nextChunk });
+    }
+    return upload;
+  }
+  if (index > entry.nextChunk || entry.busy) {
+    throw new UploadError(`Expected chunk ${entry.nextChunk}`, 409, { nextChunk: entry.nextChunk });
+  }
+  if (data.length === 0) {
+    throw new UploadError('Chunk is empty', 400);
+  }
+  if (data.length > UPLOAD_CHUNK_MAX_BYTES) {
+    throw new UploadError('Chunk is too large', 413, { maxBytes: UPLOAD_CHUNK_MAX_BYTES });
+  }
+  if (upload.receivedBytes + data.length > MAX_BYTES[upload.kind]) {
+    throw tooLarge(upload.kind);
+  }
+
+  const actual = sha256(data);
+  if (digest && digest.toLowerCase() !== actual) {
+    throw new UploadError(`Chunk ${index} checksum mismatch`, 422, { nextChunk: entry.nextChunk });
+  }
+
+  entry.busy = true;
+  try {
+    await new Promise<void>((resolve, reject) => {
+      entry.stream.write(data, (error) => (error ? reject(error) : resolve()));
+    });
+    entry.hash.update(data);
+    entry.nextChunk = index + 1;
+  } catch (error: any) {
+    await discard(upload, 'failed', error.message);
+    throw new UploadError('Storage failed while uploading, start a new upload', 410);
+  } finally {
+    entry.busy = false;
+  }
+
+  const updated = await Upload.findOneAndUpdate(
+    { _id: upload._id, status: 'uploading' },
+    {
+      $set: { nextChunk: index + 1, lastChunkAt: new Date() },
+      $inc: { receivedBytes: data.length },
+      $push: { chunkDigests: actual },
+    },
+    { new: true }
+  );
+  return updated || upload;
+}
+
+/**
+ * Close the GridFS file once the checksum matches: `sha256` of the whole
+ * file, or `chunksSha256` of the chunk digests concatenated in order.
+ */
+export async function completeUpload(
+  upload: IUpload,
+  checksum: { sha256?: string; chunksSha256?: string }
+): Promise<IUpload> {
+  if (upload.status === 'completed') return upload;
+  const entry = await heldStream(upload);
+
+  if (entry.busy) {
+    throw new UploadError('A chunk is still being written', 409, { nextChunk: entry.nextChunk });
+  }
+  if (upload.nextChunk === 0) {
+    throw new UploadError('Nothing was uploaded', 400);
+  }
+  if (!checksum.sha256 && !checksum.chunksSha256) {
+    throw new UploadError('sha256 or chunksSha256 is required', 400);
+  }
+
+  const fileHash = entry.hash.copy().digest('hex');
+  const chunksHash = sha256(Buffer.concat(upload.chunkDigests.map(d => Buffer.from(d, 'hex'))));
+  const matches = checksum.sha256
+    ? checksum.sha256.toLowerCase() === fileHash
+    : checksum.chunksSha256!.toLowerCase() === chunksHash;
+  if (!matches) {
+    await discard(upload, 'failed', 'Checksum mismatch');
+    throw new UploadError('Checksum mismatch, start a new upload', 422);
+  }
+  if (upload.size != null && upload.size !== upload.receivedBytes) {
+    await discard(upload, 'failed', 'Size mismatch');
+    throw new UploadError(`Expected ${upload.size} bytes, received ${upload.receivedBytes}`, 422);
+  }
+
+  await closeUpload(upload, entry);
+
+  console.log(`[UPLOADS] ✅ Upload ${upload._id} complete (${upload.nextChunk} chunks, ${upload.receivedBytes} bytes)`);
+  return upload;
+}
+
+export async function cancelUpload(upload: IUpload) {
+  if (upload.status !== 'uploading') return;
+  await discard(upload, 'failed', 'Cancelled');
+}
+
+// What the API shows of an upload
+export const serializeUpload = (upload: IUpload) => ({
+  id: upload._id,
+  kind: upload.kind,
+  status: upload.status,
+  filename: upload.filename,
+  contentType: upload.contentType,
+  size: upload.size,
+  nextChunk: upload.nextChunk,
+  receivedBytes: upload.receivedBytes,
+  maxChunkBytes: UPLOAD_CHUNK_MAX_BYTES,
+  fileId: upload.status === 'completed' ? upload.fileId : null,
+  sha256: upload.sha256,
+  error: upload.error,
+  createdAt: upload.createdAt,
+  completedAt: upload.completedAt,
+});
+
+export const getUploadStatus = () => ({
+  open: open.size,
+  maxChunkBytes: UPLOAD_CHUNK_MAX_BYTES,
+  recordingIdleMinutes: RECORDING_IDLE_MS / (60 * 1000),
+  ttlHours: TTL_MS / (60 * 60 * 1000),
+});
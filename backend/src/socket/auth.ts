@@ -0,0 +1,156 @@
+import { Socket } from 'socket.io';
+import { User } from '../models/User';
+import { verifyAccessToken, TokenPayload } from '../services/jwt';
+import { isSessionActive } from '../services/sessions';
+import { GuestInviteError, verifyGuestToken } from '../services/guestInvites';
+
+/**
+ * Who a socket connection belongs to. A connection needs a valid access
+ * token (`auth.token`) or a guest token from a signed invite link
+ * (`auth.guestToken`); anything else is refused with a `connect_error`
+ * whose `data.code` says why: token_missing, token_expired, token_invalid,
+ * session_revoked or guest_invalid.
+ *
+ * Access tokens expire while the socket stays open: a minute before, the
+ * socket hears `auth:expiring` and should answer with `auth:refresh`
+ * { token } (acknowledged with `{ expiresAt }` or `{ error, code }`).
+ * A socket still on an expired token gets `auth:expired` and is disconnected.
+ */
+
+export type SocketAuthFailure = 'token_missing' | 'token_expired' | 'token_invalid' | 'session_revoked' | 'guest_invalid';
+
+export interface AuthSocket extends Socket {
+  userId?: string;
+  userName?: string;
+  sessionId?: string; // Device session; revoking it disconnects this socket
+  isGuest?: boolean;
+  guestRoomId?: string; // The one room a guest was invited to
+  authExpiresAt?: number;
+}
+
+type Ack = (response: any) => void;
+
+const EXPIRY_WARNING_MS = 60 * 1000;
+const MAX_TIMER_MS = 2 ** 31 - 1; // setTimeout fires at once beyond this
+
+// Pending expiry per socket (socketId -> timer)
+const expiryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+const authError = (code: SocketAuthFailure, message: string) => {
+  const error = new Error(message) as Error & { data?: { code: SocketAuthFailure } };
+  error.data = { code };
+  return error;
+};
+
+// An access token that is valid and whose device is still signed in
+async function verifyUserToken(token: string): Promise<TokenPayload & { exp: number }> {
+  let payload: TokenPayload & { exp: number };
+  try {
+    payload = verifyAccessToken(token) as TokenPayload & { exp: number };
+  } catch (error: any) {
+    throw error.name === 'TokenExpiredError'
+      ? authError('token_expired', 'Access token expired')
+      : authError('token_invalid', 'Invalid access token');
+  }
+  if (!(await isSessionActive(payload.sessionId))) {
+    throw authError('session_revoked', 'This device was signed out');
+  }
+  return payload;
+}
+
+// io.use middleware: no valid token, no connection
+export async function authenticateSocket(socket: AuthSocket, next: (error?: Error) => void) {
+  const { token, guestToken } = socket.handshake.auth || {};
+  try {
+    if (typeof token === 'string' && token) {
+      const payload = await verifyUserToken(token);
+      const user = await User.findById(payload.userId).select('name').lean();
+      if (!user) throw authError('token_invalid', 'Account not found');
+
+      socket.userId = payload.userId;
+      socket.sessionId = payload.sessionId;
+      // The account's name, not whatever the client says it is
+      socket.userName = user.name;
+      socket.authExpiresAt = payload.exp * 1000;
+    } else if (typeof guestToken === 'string' && guestToken) {
+      let guest;
+      try {
+        guest = await verifyGuestToken(guestToken);
+      } catch (error: any) {
+        if (error instanceof GuestInviteError) throw authError('guest_invalid', error.message);
+        throw error;
+      }
+
+      socket.userId = guest.guestId;
+      socket.userName = guest.name;
+      socket.isGuest = true;
+      socket.guestRoomId = guest.roomId;
+      socket.authExpiresAt = guest.exp * 1000;
+    } else {
+      throw authError('token_missing', 'Authentication required');
+    }
+    next();
+  } catch (error: any) {
+    if (!error.data) console.error('[SOCKET] ❌ Authentication failed:', error);
+    next(error.data ? error : authError('token_invalid', 'Authentication failed'));
+  }
+}
+
+const clearExpiry = (socketId: string) => {
+  const timer = expiryTimers.get(socketId);
+  if (timer) clearTimeout(timer);
+  expiryTimers.delete(socketId);
+};
+
+// Warn a minute ahead, then drop the connection unless a fresh token came in
+export function watchTokenExpiry(socket: AuthSocket) {
+  clearExpiry(socket.id);
+  if (!socket.authExpiresAt) return;
+
+  const schedule = (warned: boolean) => {
+    const expiresAt = socket.authExpiresAt!;
+    const delay = (warned ? expiresAt : expiresAt - EXPIRY_WARNING_MS) - Date.now();
+    if (delay > MAX_TIMER_MS) {
+      expiryTimers.set(socket.id, setTimeout(() => schedule(warned), MAX_TIMER_MS));
+      return;
+    }
+    expiryTimers.set(socket.id, setTimeout(() => {
+      if (!warned) {
+        socket.emit('auth:expiring', { expiresAt });
+        schedule(true);
+        return;
+      }
+      expiryTimers.delete(socket.id);
+      console.log(`[SOCKET] ⌛ Token expired for ${socket.userId} (${socket.id}), disconnecting`);
+      socket.emit('auth:expired');
+      socket.disconnect(true);
+    }, Math.max(0, delay)));
+  };
+  schedule(false);
+}
+
+export function registerAuthHandlers(socket: AuthSocket) {
+  // A fresh access token for the open connection
+  socket.on('auth:refresh', async (data: { token?: string }, ack?: Ack) => {
+    try {
+      if (socket.isGuest) throw authError('token_invalid', 'Guest access cannot be refreshed');
+      const payload = await verifyUserToken(String(data?.token || ''));
+      if (payload.userId !== socket.userId) throw authError('token_invalid', 'Token belongs to another account');
+
+      // Signed in again on this device: follow the new session's revocations
+      if (payload.sessionId !== socket.sessionId) {
+        if (socket.sessionId) socket.leave(`session:${socket.sessionId}`);
+        if (payload.sessionId) socket.join(`session:${payload.sessionId}`);
+        socket.sessionId = payload.sessionId;
+      }
+      socket.authExpiresAt = payload.exp * 1000;
+      watchTokenExpiry(socket);
+      ack?.({ expiresAt: socket.authExpiresAt });
+    } catch (error: any) {
+      if (!error.data) console.error('[SOCKET] ❌ auth:refresh failed:', error);
+      ack?.({ error: error.data ? error.message : 'Re-authentication failed', code: error.data?.code || 'token_invalid' });
+    }
+  });
+
+  socket.on('disconnect', () => clearExpiry(socket.id));
+}
@@ -0,0 +1,190 @@
+import mongoose from 'mongoose';
+import { CallSession } from '../models/CallSession';
+import { Conversation } from '../models/Conversation';
+import { isGuestRevoked } from '../services/guestInvites';
+import { AuthSocket } from './auth';
+import { getParticipants } from './roomStore';
+
+/**
+ * Per-event authorization. Every incoming event passes through `socket.use`
+ * and is checked against its rule; an event without a rule is refused.
+ *
+ * - `any`: any authenticated connection (room:join does its own checks)
+ * - `user`: signed-in users, not guests
+ * - `room`: participants of the room the socket is in - its host, someone
+ *   on CallSession.guestIds, or a guest invited to that room - and never
+ *   someone the host removed
+ * - `room-user`: room participants with an account (AI features cost money)
+ * - `signal`: room participants, addressing another socket in the same room
+ * - `conversation`: participants of the Conversation named in the payload
+ *
+ * A refused event never reaches its handler: its acknowledgement (if any)
+ * gets `{ error }`, and the socket hears `auth:denied` { event, reason }.
+ * An event whose check fails is refused the same way ('unavailable').
+ */
+
+type Rule = 'any' | 'user' | 'room' | 'room-user' | 'signal' | 'conversation';
+
+export type DenialReason =
+  | 'unknown_event'
+  | 'guest'
+  | 'not_in_room'
+  | 'not_room_member'
+  | 'not_in_conversation'
+  | 'invalid_target'
+  | 'unavailable'; // The check itself failed (e.g. the database is down)
+
+const EVENT_RULES: Record<string, Rule> = {
+  'auth:refresh': 'any',
+  'room:join': 'any',
+  'room:leave': 'any',
+  'call:end': 'any',
+  'lobby:leave': 'any',
+
+  'signal:offer': 'signal',
+  'signal:answer': 'signal',
+  'signal:candidate': 'signal',
+
+  'participant:video:toggle': 'room',
+  'participant:audio:toggle': 'room',
+  'recording:request': 'room',
+  'recording:consent': 'room',
+  'recording:status': 'room',
+  'recorder:chunk': 'room',
+  'recorder:track:end': 'room',
+  'quality:report': 'room',
+  'audio:chunk': 'room',
+  'transcript:manual': 'room',
+
+  'sfu:join': 'room',
+  'sfu:transport:create': 'room',
+  'sfu:transport:connect': 'room',
+  'sfu:produce': 'room',
+  'sfu:consume': 'room',
+  'sfu:consumer:resume': 'room',
+  'sfu:layers': 'room',
+  'sfu:producer:close': 'room',
+
+  // Host-only on top of this (socket/roomModeration.ts)
+  'lobby:admit': 'room',
+  'lobby:reject': 'room',
+  'host:kick': 'room',
+  'host:mute-all': 'room',
+  'host:lock': 'room',
+  'host:access': 'room',
+  'host:transfer': 'room',
+
+  'notes:request': 'room-user',
+  'image:request': 'room-user',
+
+  'conversation:join': 'conversation',
+  'conversation:leave': 'user',
+  'typing:start': 'conversation',
+  'typing:stop': 'conversation',
+};
+
+const DENIAL_MESSAGES: Record<DenialReason, string> = {
+  unknown_event: 'Unknown event',
+  guest: 'Sign in to use this',
+  not_in_room: 'You are not in a call',
+  not_room_member: 'You are not a participant of this call',
+  not_in_conversation: 'You are not in this conversation',
+  invalid_target: 'That participant is not in this call',
+  unavailable: 'Could not check permissions, please try again',
+};
+
+// Membership is re-read from the database at most this often per socket
+const ROOM_RECHECK_MS = 15 * 1000;
+const roomChecks = new Map<string, { roomId: string; at: number }>();
+// Conversations a socket was found to belong to (socketId -> conversation ids)
+const conversationChecks = new Map<string, Set<string>>();
+
+async function isRoomMember(socket: AuthSocket, roomId: string): Promise<boolean> {
+  const checked = roomChecks.get(socket.id);
+  if (checked?.roomId === roomId && Date.now() - checked.at < ROOM_RECHECK_MS) return true;
+
+  let member: boolean;
+  if (socket.isGuest) {
+    member = socket.guestRoomId === roomId && !(await isGuestRevoked(socket.userId!));
+  } else {
+    const callSession = await CallSession.findOne({ roomId }).select('hostId guestIds removedIds').lean();
+    const userId = socket.userId!;
+    member = !!callSession &&
+      !(callSession.removedIds || []).some(id => id.toString() === userId) &&
+      (callSession.hostId.toString() === userId || callSession.guestIds.some(id => id.toString() === userId));
+  }
+
+  if (member) roomChecks.set(socket.id, { roomId, at: Date.now() });
+  else roomChecks.delete(socket.id);
+  return member;
+}
+
+async function isConversationMember(socket: AuthSocket, conversationId: unknown): Promise<boolean> {
+  if (typeof conversationId !== 'string' || !mongoose.Types.ObjectId.isValid(conversationId)) return false;
+  const known = conversationChecks.get(socket.id);
+  if (known?.has(conversationId)) return true;
+
+  const member = !!(await Conversation.exists({ _id: conversationId, participants: socket.userId }));
+  if (member) {
+    conversationChecks.set(socket.id, (known || new Set<string>()).add(conversationId));
+  }
+  return member;
+}
+
+// Why `socket` may not send `event` with `args`, or null when it may
+export async function authorizeEvent(socket: AuthSocket, event: string, args: any[]): Promise<DenialReason | null> {
+  const rule = EVENT_RULES[event];
+  if (!rule) return 'unknown_event';
+  if (rule === 'any') return null;
+  if (socket.isGuest && (rule === 'user' || rule === 'room-user' || rule === 'conversation')) return 'guest';
+  if (rule === 'user') return null;
+
+  if (rule === 'conversation') {
+    const conversationId = event === 'conversation:join' ? args[0] : args[0]?.conversationId;
+    return (await isConversationMember(socket, conversationId)) ? null : 'not_in_conversation';
+  }
+
+  const roomId = (socket as AuthSocket & { roomId?: string }).roomId;
+  if (!roomId) return 'not_in_room';
+  if (!(await isRoomMember(socket, roomId))) return 'not_room_member';
+
+  if (rule === 'signal') {
+    const targetId = args[0]?.targetId;
+    const participants = await getParticipants(roomId);
+    if (typeof targetId !== 'string' || !participants.some(p => p.socketId === targetId)) return 'invalid_target';
+  }
+  return null;
+}
+
+// socket.use middleware: refused events are answered here and go no further
+export function registerEventAuthorization(socket: AuthSocket) {
+  socket.use(([event, ...args], next) => {
+    const refuse = (reason: DenialReason) => {
+      const ack = args[args.length - 1];
+      if (typeof ack === 'function') ack({ error: DENIAL_MESSAGES[reason] });
+      socket.emit('auth:denied', { event, reason });
+    };
+
+    authorizeEvent(socket, event, args)
+      .then((reason) => {
+        if (!reason) {
+          next();
+          return;
+        }
+        refuse(reason);
+        console.warn(`[SOCKET] 🚫 ${event} refused for ${socket.userId} (${reason})`);
+      }, (error) => {
+        // Only the check's own failure: a handler that throws must not be answered twice
+        console.error(`[SOCKET] ❌ Authorization of ${event} failed:`, error);
+        refuse('unavailable');
+      })
+      .catch((error) => {
+        console.error(`[SOCKET] ❌ Handler for ${event} failed:`, error);
+      });
+  });
+
+  socket.on('disconnect', () => {
+    roomChecks.delete(socket.id);
+    conversationChecks.delete(socket.id);
+  });
+}
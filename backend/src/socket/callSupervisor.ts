@@ -0,0 +1,147 @@
+import mongoose from 'mongoose';
+import { Server } from 'socket.io';
+import { CallSession, ICallSession } from '../models/CallSession';
+import { CallParticipant } from '../models/CallParticipant';
+import { Transcript } from '../models/Transcript';
+import { finalizeCall, pruneStaleParticipants } from './index';
+import { closeRoom } from './roomStore';
+
+/**
+ * Call lifecycle supervisor.
+ *
+ * A call normally ends when its last participant leaves. If the backend
+ * restarts (or an instance crashes) mid-call nobody "leaves", so the session
+ * would stay active forever. The supervisor:
+ * - on boot, closes attendance records left open on calls that did end
+ * - periodically checks every active call for connected sockets on any node,
+ *   stamping `lastSeenAt` while someone is there
+ * - finalizes calls nobody has rejoined within the grace period: they end at
+ *   their last sign of life, get durations and post-call notes
+ *
+ * Clients that reconnect within the grace period rejoin the room and the call
+ * resumes (see `room:join`).
+ */
+
+// How long an active call may have nobody connected before it is ended
+const RESUME_GRACE_MS = Number(process.env.CALL_RESUME_GRACE_SECONDS || 120) * 1000;
+// How often active calls are checked
+const SWEEP_INTERVAL_MS = Number(process.env.CALL_SUPERVISOR_INTERVAL_SECONDS || 30) * 1000;
+
+let sweepTimer: NodeJS.Timeout | null = null;
+let sweepInProgress = false;
+
+// Last sign of life: lastSeenAt, or the latest transcript line of older calls
+async function lastActivity(callSession: ICallSession): Promise<Date> {
+  const startedAt = callSession.startedAt || callSession.createdAt;
+  let last = Math.max(startedAt.getTime(), callSession.lastSeenAt?.getTime() || 0);
+
+  const transcript = await Transcript.findOne({ callId: callSession._id })
+    .select({ segments: { $slice: -1 } })
+    .lean();
+  const segment = transcript?.segments?.[0];
+  if (segment) {
+    last = Math.max(last, startedAt.getTime() + (segment.endTimestamp ?? segment.timestamp));
+  }
+  return new Date(last);
+}
+
+// Attendance left open on calls that ended while their node was down
+export async function closeOrphanedAttendance(): Promise<number> {
+  const openCallIds = await CallParticipant.find({ leftAt: null }).distinct('callId');
+  if (openCallIds.length === 0) return 0;
+
+  const ended = await CallSession.find({
+    _id: { $in: openCallIds },
+    status: { $in: ['ended', 'failed'] },
+  }).select('endedAt updatedAt');
+
+  let closed = 0;
+  for (const callSession of ended) {
+    const leftAt = callSession.endedAt || callSession.updatedAt;
+    const open = await CallParticipant.find({ callId: callSession._id, leftAt: null });
+    for (const participant of open) {
+      participant.leftAt = leftAt;
+      participant.duration = Math.max(0, Math.floor((leftAt.getTime() - participant.joinedAt.getTime()) / 1000));
+      await participant.save();
+      closed++;
+    }
+  }
+  return closed;
+}
+
+/**
+ * Check every active call once: stamp the ones with someone connected and
+ * finalize the ones abandoned for longer than the grace period.
+ * Returns the number of calls finalized.
+ */
+export async function superviseActiveCalls(io: Server, now: Date = new Date()): Promise<number> {
+  const active = await CallSession.find({ status: 'active' });
+  let finalized = 0;
+
+  for (const callSession of active) {
+    const callId = callSession._id.toString();
+    try {
+      const connected = await pruneStaleParticipants(io, callSession.roomId);
+      if (connected > 0) {
+        await CallSession.updateOne({ _id: callSession._id }, { $set: { lastSeenAt: now } });
+        continue;
+      }
+
+      const endedAt = await lastActivity(callSession);
+      if (now.getTime() - endedAt.getTime() < RESUME_GRACE_MS) continue;
+
+      // Whatever is left of the room (shared store) goes with the call
+      const closed = await closeRoom(callSession.roomId);
+      if (await finalizeCall(io, callSession.roomId, callId, {
+        reason: 'abandoned',
+        endedAt,
+        transcriptBuffer: closed?.transcriptBuffer,
+      })) {
+        finalized++;
+        console.log(`[CALLS] 🧹 Finalized abandoned call ${callId} (room ${callSession.roomId})`);
+      }
+    } catch (error) {
+      console.error(`[CALLS] ❌ Failed to supervise call ${callId}:`, error);
+    }
+  }
+  return finalized;
+}
+
+export const startCallSupervisor = (io: Server) => {
+  if (sweepTimer) return;
+
+  const sweep = async () => {
+    if (sweepInProgress || mongoose.connection.readyState !== 1) return;
+    sweepInProgress = true;
+    try {
+      const finalized = await superviseActiveCalls(io);
+      if (finalized > 0) {
+        console.log(`[CALLS] ✅ Sweep complete (${finalized} abandoned call(s) finalized)`);
+      }
+    } catch (error) {
+      console.error('[CALLS] ❌ Sweep error:', error);
+    } finally {
+      sweepInProgress = false;
+    }
+  };
+
+  // Reconcile what the last run left behind, then keep watching
+  closeOrphanedAttendance()
+    .then((closed) => {
+      if (closed > 0) console.log(`[CALLS] ✅ Closed ${closed} orphaned attendance record(s)`);
+    })
+    .catch((error) => console.error('[CALLS] ❌ Attendance reconcile error:', error));
+
+  sweepTimer = setInterval(sweep, SWEEP_INTERVAL_MS);
+  sweepTimer.unref();
+  sweep();
+
+  console.log(`✅ Call supervisor started (grace ${Math.round(RESUME_GRACE_MS / 1000)}s)`);
+};
+
+export const stopCallSupervisor = () => {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+};
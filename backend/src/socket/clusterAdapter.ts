@@ -0,0 +1,16 @@
+import { createAdapter } from '@socket.io/redis-adapter';
+import { connectRedis, SHARED_STORE_PREFIX } from '../services/sharedStore';
+
+/**
+ * Socket.IO adapter that relays broadcasts, room joins and fetchSockets
+ * between backend instances over Redis pub/sub, so `io.to(room).emit(...)`
+ * and `io.to(socketId).emit(...)` reach sockets held by other nodes.
+ * Packets travel msgpack-encoded, binary payloads included.
+ *
+ * Channels are prefixed `<prefix>sio`, like the shared store's keys.
+ */
+export const createClusterAdapter = (redisUrl: string) => {
+  const pubClient = connectRedis(redisUrl);
+  const subClient = pubClient.duplicate();
+  return createAdapter(pubClient, subClient, { key: `${SHARED_STORE_PREFIX}sio` });
+};
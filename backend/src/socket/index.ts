@@ -1,42 +1,127 @@
-import { Server, Socket } from 'socket.io';
-import jwt from 'jsonwebtoken';
+import { Server } from 'socket.io';
 import mongoose from 'mongoose';
-import { CallSession } from '../models/CallSession';
+import { CallSession, ICallSession } from '../models/CallSession';
 import { CallParticipant } from '../models/CallParticipant';
 import { Transcript } from '../models/Transcript';
 import { Notes } from '../models/Notes';
 import { Message } from '../models/Message';
 import { Conversation } from '../models/Conversation';
 import { Contact } from '../models/Contact';
-import { transcribeAudio, generateNotes, generateComprehensiveNotes, getOpenAI } from '../services/openai';
+import { generateNotes, generateComprehensiveNotes, getOpenAI } from '../services/openai';
+import { transcribe, TranscriptionResult } from '../services/transcription';
+import { takeRateLimit } from '../services/rateLimits';
+import { getAiCreditStatus, chargeTranscriptionCredits, isChargedProvider } from '../services/aiCredits';
+import { attributeSpeakers, forgetCallSpeakers } from '../services/diarization';
 import { User } from '../models/User';
 import { detectVisualConcept, generateImagePromptFromContext } from '../services/imageKeywordDetection';
 import { GeneratedImage } from '../models/GeneratedImage';
 import { generateImage, isStabilityConfigured } from '../services/stability';
 import { generateFreeImage, isFreeAIAvailable } from '../services/freeAI';
-
-interface AuthenticatedSocket extends Socket {
-  userId?: string;
-  userName?: string;
+import { createNotification, notifyUsers } from '../services/notifications';
+import { checkRoomJoinPermission, recordBlockedCallAttempt } from '../services/callPolicy';
+import { enqueueJob } from '../services/jobQueue';
+import {
+  chooseRecorder,
+  appendRecorderChunk,
+  endRecorderTrack,
+  closeRecorderTracks,
+  RECORDER_CHUNK_MS,
+} from '../services/callRecorder';
+import { chooseTopology } from '../services/sfu';
+import { registerSfuHandlers, leaveSfu } from './sfuSignaling';
+import { registerRoomModerationHandlers, leaveLobbyOnDisconnect } from './roomModeration';
+import { checkRoomAccess, enterLobby, leaveLobby, accessState, isRoomHost } from '../services/roomAccess';
+import { authenticateSocket, registerAuthHandlers, watchTokenExpiry, AuthSocket } from './auth';
+import { registerEventAuthorization } from './authorization';
+import { sanitizeSamples, recordQualityReport, QUALITY_REPORT_MIN_INTERVAL_MS } from '../services/callQuality';
+import {
+  getConsentState,
+  broadcastConsentState,
+  requestRecording,
+  recordConsent,
+  hasRecordingConsent,
+  restoreConsent,
+  canRecordCall,
+} from '../services/recordingConsent';
+import {
+  RoomSnapshot,
+  ensureRoom,
+  getRoom,
+  setRoomCallId,
+  addParticipant,
+  removeParticipant,
+  getParticipants,
+  startCall,
+  closeRoom,
+  appendTranscript,
+  getTranscriptBuffer,
+  trimTranscriptBuffer,
+  claimThrottle,
+  isThrottled,
+  resetThrottle,
+  addPresence,
+  removePresence,
+  setRecording,
+  setRoomTopology,
+  getLobby,
+} from './roomStore';
+
+interface AuthenticatedSocket extends AuthSocket {
   roomId?: string;
+  lobbyRoomId?: string; // Waiting for the host to let us in
+  billingUserId?: string; // Whose AI credits pay for this speaker's transcription (the host's, for a guest)
+  quotaExceeded?: boolean; // Told the client its transcription is being held back
 }
 
-interface RoomState {
-  participants: Map<string, { userId: string; userName: string; socketId: string }>;
-  callStarted: boolean;
-  callStartedAt?: number; // Timestamp when call started
-  createdAt: number; // Timestamp when room was created
-  callId?: string;
-  transcriptBuffer: string;
-  lastNotesUpdate: number;
-  lastImageGeneration?: number; // Track last auto-generation time for debouncing
-  audioBuffer: Map<string, Buffer[]>;
-}
+// Room state, presence and transcript buffers live in the shared store
+// (./roomStore); audio waiting for transcription stays with this node (socketId -> chunks)
+// with the server time the first of them arrived, which is when the buffered speech started
+const audioBuffers = new Map<string, { chunks: Buffer[]; receivedAt: number }>();
+// When each socket last sent call quality telemetry (socketId -> timestamp)
+const qualityReportAt = new Map<string, number>();
+
+// Milliseconds from call start (the transcript time base) for an absolute time
+const callTime = (room: RoomSnapshot, at: number) =>
+  Math.max(0, Math.round(at - (room.callStartedAt || room.createdAt)));
+
+// Transcription costs AI credits: hold a speaker's audio back while the payer's
+// rate limit or daily credits are spent, telling the client once each time
+async function allowTranscription(socket: AuthenticatedSocket): Promise<boolean> {
+  const payerId = socket.billingUserId || socket.userId!;
+  let retryAfter = 0;
+  let reason: 'rate_limited' | 'credits_exhausted' | null = null;
+  try {
+    const limit = await takeRateLimit('transcription', `user:${payerId}`);
+    if (!limit.allowed) {
+      reason = 'rate_limited';
+      retryAfter = limit.retryAfter;
+    } else {
+      const credits = await getAiCreditStatus(payerId);
+      if (credits.remaining === 0) {
+        reason = 'credits_exhausted';
+        retryAfter = credits.retryAfter;
+      }
+    }
+  } catch (error) {
+    console.error('[TRANSCRIPT] ❌ Quota check failed:', error);
+  }
 
-const rooms = new Map<string, RoomState>();
+  if (!reason) {
+    socket.quotaExceeded = false;
+    return true;
+  }
+  if (!socket.quotaExceeded) {
+    socket.quotaExceeded = true;
+    socket.emit('quota:exceeded', { feature: 'transcription', reason, retryAfter });
+  }
+  return false;
+}
 
-// Track online users (userId -> socketId[])
-const onlineUsers = new Map<string, Set<string>>();
+// Seconds of speech in a transcribed chunk, for billing
+const transcribedSeconds = (result: TranscriptionResult, bytes: number) =>
+  result.words?.[result.words.length - 1]?.end ??
+  result.segments?.[result.segments.length - 1]?.end ??
+  bytes / 16000; // The threshold below: about a second of audio
 
 // Notes update interval (30 seconds)
 const NOTES_UPDATE_INTERVAL = 30000;
@@ -44,88 +129,126 @@ const NOTES_UPDATE_INTERVAL = 30000;
 const MIN_TRANSCRIPT_FOR_NOTES = 100;
 // Image generation debounce (prevent too many generations)
 const IMAGE_GENERATION_DEBOUNCE = 30000; // 30 seconds between auto-generations
+// Give other nodes time to write their last recorder segments before composing
+const RECORDING_SETTLE_MS = 15000;
 
 export const setupSocketHandlers = (io: Server) => {
-  // Authentication middleware
-  io.use(async (socket: AuthenticatedSocket, next) => {
-    try {
-      const token = socket.handshake.auth.token;
-      
-      if (!token) {
-        // Allow anonymous connections for demo
-        socket.userId = `anon-${socket.id}`;
-        socket.userName = 'Anonymous';
-        return next();
-      }
-
-      const decoded = jwt.verify(
-        token,
-        process.env.JWT_SECRET || 'default-secret'
-      ) as { userId: string; email: string };
-
-      socket.userId = decoded.userId;
-      socket.userName = socket.handshake.auth.userName || 'User';
-      next();
-    } catch (error) {
-      // Allow connection but mark as anonymous
-      socket.userId = `anon-${socket.id}`;
-      socket.userName = 'Anonymous';
-      next();
-    }
-  });
+  // Every connection is a signed-in user or an invited guest (./auth)
+  io.use(authenticateSocket);
 
   io.on('connection', (socket: AuthenticatedSocket) => {
     console.log(`🔌 User connected: ${socket.userId} (${socket.id})`);
-    
+
+    // Token expiry and re-auth, then the authorization check on every event
+    registerAuthHandlers(socket);
+    registerEventAuthorization(socket);
+    watchTokenExpiry(socket);
+
     // Join user-specific room for call invitations
-    if (socket.userId && !socket.userId.startsWith('anon-')) {
+    if (!socket.isGuest) {
       socket.join(`user:${socket.userId}`);
+      if (socket.sessionId) socket.join(`session:${socket.sessionId}`);
+
+      // Update online status (first connection on any node)
+      addPresence(socket.userId!, socket.id)
+        .then((first) => {
+          if (first) io.emit('user:online', { userId: socket.userId });
+        })
+        .catch((error) => console.error('[SOCKET] ❌ Presence update failed:', error));
     }
 
     // Join a room
-    socket.on('room:join', async (data: { roomId: string; userName?: string }) => {
-      const { roomId, userName } = data;
-      
-      if (userName) {
-        socket.userName = userName;
+    socket.on('room:join', async (data: { roomId: string }) => {
+      const roomId = typeof data?.roomId === 'string' ? data.roomId : '';
+      const deny = (reason: string, message: string) => {
+        socket.emit('room:denied', { roomId, reason, message });
+        console.log(`🚫 User ${socket.userName} denied from room ${roomId}: ${reason}`);
+      };
+
+      let callSession: ICallSession;
+      if (socket.isGuest) {
+        // Guests only get into the room their invite was for
+        const invited = roomId === socket.guestRoomId ? await CallSession.findOne({ roomId }) : null;
+        if (!invited || invited.status === 'ended') {
+          deny('invite_only', 'Your invite is not for this call');
+          return;
+        }
+        if (invited.access?.locked) {
+          deny('room_locked', 'The host locked this call');
+          return;
+        }
+        callSession = invited;
+      } else {
+        // Uninvited joiners must be allowed to call the host
+        const permission = await checkRoomJoinPermission(socket.userId!, roomId);
+        if (!permission.allowed) {
+          await recordBlockedCallAttempt(io, {
+            callerId: socket.userId!,
+            recipientId: permission.callSession!.hostId.toString(),
+            reason: permission.reason,
+            roomId,
+            isVideo: !permission.callSession!.metadata.audioOnly,
+          });
+          deny(permission.publicReason, permission.message);
+          return;
+        }
+        // Membership is checked against the call session, so there has to be one
+        if (!permission.callSession) {
+          deny('not_found', 'This call does not exist');
+          return;
+        }
+        callSession = permission.callSession;
+
+        // The room's own rules: invite-only, lobby, locked, removed users
+        const access = await checkRoomAccess(socket.userId!, callSession);
+        if (access.status === 'denied') {
+          deny(access.reason, access.message);
+          return;
+        }
+        if (access.status === 'lobby') {
+          socket.lobbyRoomId = roomId;
+          await enterLobby(io, callSession, {
+            userId: socket.userId!,
+            userName: socket.userName || 'Guest',
+            socketId: socket.id,
+            at: Date.now(),
+          });
+          socket.emit('lobby:waiting', { roomId });
+          return;
+        }
+      }
+
+      if (socket.lobbyRoomId) {
+        await leaveLobby(io, socket.lobbyRoomId, socket.userId!);
+        socket.lobbyRoomId = undefined;
       }
 
       // Leave previous room if any
       if (socket.roomId) {
         socket.leave(socket.roomId);
-        const prevRoom = rooms.get(socket.roomId);
-        if (prevRoom) {
-          prevRoom.participants.delete(socket.id);
-        }
+        await removeParticipant(socket.roomId, socket.id);
+        audioBuffers.delete(socket.id);
+        leaveSfu(io, socket.roomId, socket.id);
       }
 
       socket.roomId = roomId;
+      socket.billingUserId = socket.isGuest ? callSession.hostId.toString() : socket.userId!;
       socket.join(roomId);
 
       // Initialize room state if needed
-      if (!rooms.has(roomId)) {
-        rooms.set(roomId, {
-          participants: new Map(),
-          callStarted: false,
-          createdAt: Date.now(),
-          transcriptBuffer: '',
-          lastNotesUpdate: Date.now(),
-          audioBuffer: new Map(),
-        });
-      }
-
-      const room = rooms.get(roomId)!;
-      room.participants.set(socket.id, {
+      await ensureRoom(roomId, NOTES_UPDATE_INTERVAL);
+      await addParticipant(roomId, {
         userId: socket.userId!,
         userName: socket.userName!,
         socketId: socket.id,
       });
+      // Forget connections lost without a leave (e.g. this user's socket before a restart)
+      await pruneStaleParticipants(io, roomId);
 
-      // Get call session
-      const callSession = await CallSession.findOne({ roomId });
-      if (callSession) {
-        room.callId = callSession._id.toString();
-        
+      await setRoomCallId(roomId, callSession._id.toString());
+
+      // Attendance and guestIds are for accounts; an invited guest is in neither
+      if (!socket.isGuest) {
         // CRITICAL: Upsert participant record to prevent duplicates
         // Use findOneAndUpdate with upsert to ensure unique (callId, userId) constraint
         await CallParticipant.findOneAndUpdate(
@@ -166,42 +289,95 @@ export const setupSocketHandlers = (io: Server) => {
         }
       }
 
+      // A call that is still live resumes with its original start (the room
+      // was lost in a restart), so transcript times keep lining up
+      if (callSession.status === 'active' && callSession.startedAt) {
+        if (await startCall(roomId, callSession.startedAt.getTime())) {
+          console.log(`♻️ Resumed call ${callSession._id} in room ${roomId}`);
+        }
+        await CallSession.updateOne({ _id: callSession._id }, { $set: { lastSeenAt: new Date() } });
+      }
+      await restoreConsent(roomId, callSession);
+
+      const room = (await getRoom(roomId))!;
+      const participants = await getParticipants(roomId);
+      const participantCount = participants.length;
+
+      // Mesh for small calls; a room that grows moves everyone to the SFU
+      const topology = await chooseTopology(callSession?.metadata.topology, room.topology, participantCount);
+      if (topology !== (room.topology || 'mesh')) {
+        await setRoomTopology(roomId, topology);
+        socket.to(roomId).emit('media:topology', { roomId, topology });
+        console.log(`🎛️ Room ${roomId} switched to ${topology} with ${participantCount} participants`);
+      }
+
       // Notify room of new participant
       socket.to(roomId).emit('user:joined', {
         userId: socket.userId,
         userName: socket.userName,
         socketId: socket.id,
-        participantCount: room.participants.size,
+        participantCount,
       });
 
       // Send room state to joining user
       socket.emit('room:joined', {
         roomId,
-        participants: Array.from(room.participants.values()),
+        participants,
         callStarted: room.callStarted,
+        callStartedAt: room.callStartedAt,
         callId: room.callId,
+        topology,
+        recorder: callSession?.metadata.recorder || 'client',
+        recorderChunkMs: RECORDER_CHUNK_MS,
+        consent: await getConsentState(roomId),
+        access: callSession ? accessState(callSession) : null,
+        lobby: callSession && isRoomHost(callSession, socket.userId!) ? await getLobby(roomId) : [],
       });
+      // Everyone sees the newcomer's consent as pending
+      socket.to(roomId).emit('recording:state', await getConsentState(roomId));
 
       console.log(`📍 User ${socket.userName} joined room ${roomId}`);
 
-      // Auto-start call when 2 participants
-      if (room.participants.size >= 2 && !room.callStarted) {
-        room.callStarted = true;
-        room.callStartedAt = Date.now();
-        
+      // Auto-start call when 2 participants (once, whichever node sees it first)
+      if (participants.length >= 2 && !room.callStarted) {
+        const callStartedAt = Date.now();
+        if (!(await startCall(roomId, callStartedAt))) return;
+
+        let recorder: string = 'client';
         if (callSession) {
           callSession.status = 'active';
+          callSession.startedAt = new Date(callStartedAt);
+          callSession.metadata.recorder = await chooseRecorder(callSession);
+          recorder = callSession.metadata.recorder;
           await callSession.save();
         }
 
         io.to(roomId).emit('call:started', {
           roomId,
           callId: room.callId,
-          participants: Array.from(room.participants.values()),
+          callStartedAt,
+          participants,
+          recorder,
+          recorderChunkMs: RECORDER_CHUNK_MS,
         });
+
+        // Auto-record asks everyone on the host's behalf
+        if (callSession && recorder !== 'none') {
+          const hostId = callSession.hostId.toString();
+          const host = participants.find(p => p.userId === hostId);
+          await requestRecording(roomId, room.callId, { userId: hostId, userName: host?.userName || 'The host' });
+          io.to(roomId).emit('recording:request', { userId: hostId, userName: host?.userName || 'The host' });
+          await broadcastConsentState(io, roomId);
+        }
       }
     });
 
+    // Producer/consumer signaling for rooms on the SFU
+    registerSfuHandlers(io, socket);
+
+    // Waiting room and host controls
+    registerRoomModerationHandlers(io, socket, (target) => handleLeaveRoom(target, io));
+
     // Leave room
     socket.on('room:leave', () => {
       handleLeaveRoom(socket, io);
@@ -261,6 +437,128 @@ export const setupSocketHandlers = (io: Server) => {
       });
     });
 
+    // Ask everyone in the room to consent to recording and transcription
+    socket.on('recording:request', async () => {
+      if (!socket.roomId) return;
+      const roomId = socket.roomId;
+      const room = await getRoom(roomId);
+      if (!room) return;
+
+      const requester = { userId: socket.userId!, userName: socket.userName || 'Someone' };
+      await requestRecording(roomId, room.callId, requester);
+      socket.to(roomId).emit('recording:request', requester);
+      await broadcastConsentState(io, roomId);
+    });
+
+    // Answer a recording request, or change an earlier answer
+    socket.on('recording:consent', async (data: { granted: boolean }) => {
+      if (!socket.roomId) return;
+      const roomId = socket.roomId;
+      const room = await getRoom(roomId);
+      if (!room) return;
+
+      const granted = !!data?.granted;
+      await recordConsent(roomId, room.callId, { userId: socket.userId!, userName: socket.userName || 'Someone' }, granted);
+      if (!granted) {
+        // Nothing more of this participant is transcribed or recorded
+        audioBuffers.delete(socket.id);
+        await closeRecorderTracks(socket.id).catch((error) => {
+          console.error('[RECORDER] ❌ Failed to write final segments:', error);
+        });
+      }
+      await broadcastConsentState(io, roomId);
+    });
+
+    // A participant's browser started or stopped recording (or feeding the server recorder)
+    socket.on('recording:status', async (data: { active: boolean }, ack?: (accepted: boolean) => void) => {
+      if (!socket.roomId) {
+        ack?.(false);
+        return;
+      }
+      const roomId = socket.roomId;
+      const room = await getRoom(roomId);
+      const participant = { userId: socket.userId!, userName: socket.userName || 'Someone', socketId: socket.id };
+
+      if (data?.active) {
+        // The server recorder only takes this participant's media; a browser recording has everyone's
+        const callSession = room?.callId ? await CallSession.findById(room.callId) : null;
+        const allowed = !!callSession && (callSession.metadata.recorder === 'server'
+          ? await hasRecordingConsent(roomId, socket.userId!)
+          : await canRecordCall(callSession, socket.userId!));
+        if (!allowed) {
+          ack?.(false);
+          return;
+        }
+      }
+
+      await setRecording(roomId, participant, !!data?.active);
+      ack?.(true);
+      await broadcastConsentState(io, roomId);
+    });
+
+    // getStats() aggregates per connection, for the call's quality timeline
+    socket.on('quality:report', async (data: { samples: unknown }) => {
+      const now = Date.now();
+      if (now - (qualityReportAt.get(socket.id) || 0) < QUALITY_REPORT_MIN_INTERVAL_MS) return;
+      qualityReportAt.set(socket.id, now);
+
+      const room = socket.roomId ? await getRoom(socket.roomId) : null;
+      if (!room?.callId || !room.callStarted) return;
+      try {
+        await recordQualityReport(
+          { callId: room.callId, callStartedAt: room.callStartedAt },
+          { userId: socket.userId!, userName: socket.userName || 'Unknown' },
+          sanitizeSamples(data?.samples)
+        );
+      } catch (error: any) {
+        console.error('[QUALITY] ❌ Failed to store quality report:', error.message);
+      }
+    });
+
+    // Media for the server recorder: each participant sends its own camera and microphone
+    socket.on('recorder:chunk', async (data: any, ack?: (accepted: boolean) => void) => {
+      const room = socket.roomId ? await getRoom(socket.roomId) : null;
+      if (!room?.callId || !data?.trackId || !data.data) {
+        ack?.(false);
+        return;
+      }
+      if (!(await hasRecordingConsent(room.roomId, socket.userId!))) {
+        ack?.(false);
+        return;
+      }
+
+      let media: Buffer;
+      if (data.data instanceof ArrayBuffer || data.data instanceof Uint8Array) {
+        media = Buffer.from(data.data);
+      } else {
+        ack?.(false);
+        return;
+      }
+
+      try {
+        const accepted = await appendRecorderChunk(room.callId, socket.userId!, socket.id, {
+          trackId: String(data.trackId),
+          seq: Number(data.seq) || 0,
+          offsetMs: Number(data.offsetMs) || 0,
+          mimeType: String(data.mimeType || 'video/webm'),
+          hasVideo: !!data.hasVideo,
+          hasAudio: !!data.hasAudio,
+          data: media,
+        });
+        ack?.(accepted);
+      } catch (error) {
+        console.error('[RECORDER] ❌ Failed to record chunk:', error);
+        ack?.(false);
+      }
+    });
+
+    socket.on('recorder:track:end', (data: { trackId: string }) => {
+      if (!data?.trackId) return;
+      endRecorderTrack(String(data.trackId), socket.userId!).catch((error) => {
+        console.error('[RECORDER] ❌ Failed to close track:', error);
+      });
+    });
+
     // Audio chunk for transcription
     socket.on('audio:chunk', async (data: any) => {
       console.log('[TRANSCRIPT] ⚡ audio:chunk event received!', {
@@ -278,14 +576,22 @@ export const setupSocketHandlers = (io: Server) => {
         return;
       }
 
-      const room = rooms.get(socket.roomId);
+      const roomId = socket.roomId;
+      const room = await getRoom(roomId);
       if (!room) {
-        console.log('[TRANSCRIPT] ❌ Room not found:', socket.roomId);
+        console.log('[TRANSCRIPT] ❌ Room not found:', roomId);
         return;
       }
 
       console.log('[TRANSCRIPT] ✅ Room found, callStarted:', room.callStarted);
 
+      // Only speakers who consented are transcribed
+      if (!(await hasRecordingConsent(roomId, socket.userId!))) {
+        audioBuffers.delete(socket.id);
+        socket.emit('recording:refused', { reason: 'consent_required' });
+        return;
+      }
+
       // Allow transcription even if call hasn't officially started (for testing)
       // if (!room.callStarted) {
       //   console.log('[TRANSCRIPT] Call not started yet, but processing audio');
@@ -308,13 +614,14 @@ export const setupSocketHandlers = (io: Server) => {
         console.log(`[TRANSCRIPT] Received audio chunk: ${audioBuffer.length} bytes from ${socket.userName}`);
         
         // Store audio chunks per user
-        if (!room.audioBuffer.has(socket.id)) {
-          room.audioBuffer.set(socket.id, []);
+        if (!audioBuffers.has(socket.id)) {
+          audioBuffers.set(socket.id, { chunks: [], receivedAt: Date.now() });
         }
-        room.audioBuffer.get(socket.id)!.push(audioBuffer);
+        const buffered = audioBuffers.get(socket.id)!;
+        buffered.chunks.push(audioBuffer);
 
         // Process when we have enough audio (~3 seconds worth)
-        const chunks = room.audioBuffer.get(socket.id)!;
+        const chunks = buffered.chunks;
         const totalSize = chunks.reduce((sum, c) => sum + c.length, 0);
 
         // Lower threshold for faster transcription (1 second instead of 3)
@@ -323,22 +630,55 @@ export const setupSocketHandlers = (io: Server) => {
         if (totalSize >= THRESHOLD) {
           console.log(`[TRANSCRIPT] Processing ${chunks.length} chunks (${totalSize} bytes) for transcription`);
           const combinedBuffer = Buffer.concat(chunks);
-          room.audioBuffer.set(socket.id, []);
+          audioBuffers.delete(socket.id);
+
+          if (!(await allowTranscription(socket))) {
+            console.warn(`[TRANSCRIPT] 🚦 Dropping ${totalSize} bytes from ${socket.userName}: transcription quota reached`);
+            return;
+          }
 
           // Transcribe
           try {
-            const result = await transcribeAudio(combinedBuffer);
-            console.log('[TRANSCRIPT] Transcription result:', result.text);
+            const result = await transcribe(combinedBuffer, { mimeType: data.mimeType });
+            // Local models cost nothing; cloud transcription is charged by the minute
+            if (isChargedProvider(result.provider)) {
+              chargeTranscriptionCredits(socket.billingUserId || socket.userId!, transcribedSeconds(result, totalSize))
+                .catch((error) => console.error('[TRANSCRIPT] ❌ Failed to record transcription usage:', error));
+            }
+            console.log(`[TRANSCRIPT] Transcription result (${result.provider || 'none'}):`, result.text);
             
-            if (result.text && result.text.trim() && !result.text.includes('unavailable')) {
-              const segment = {
-                speaker: socket.userName || 'Unknown',
-                speakerId: socket.userId,
-                text: result.text.trim(),
-                timestamp: data.timestamp || Date.now(),
-              };
-
-              console.log(`[TRANSCRIPT] Emitting transcript: ${segment.speaker}: ${segment.text}`);
+            if (result.text && result.text.trim()) {
+              // Split into speaker turns (several people can share one microphone)
+              // On the server's clock like the call start: a client's clock can be minutes off
+              const chunkStart = callTime(room, buffered.receivedAt);
+              const { segments: attributed, speakers } = await attributeSpeakers({
+                callKey: room.callId || roomId,
+                callId: room.callId,
+                source: { id: socket.userId!, name: socket.userName || 'Unknown' },
+                audio: combinedBuffer,
+                mimeType: data.mimeType || 'audio/webm',
+                transcription: result,
+              });
+              const segments = attributed.map(s => ({
+                speaker: s.speaker,
+                speakerId: s.speakerId,
+                speakerKey: s.speakerKey,
+                text: s.text,
+                timestamp: chunkStart + Math.round(s.offset * 1000),
+                endTimestamp: s.end !== undefined ? chunkStart + Math.round(s.end * 1000) : undefined,
+                words: s.words.length > 0
+                  ? s.words.map(w => ({
+                      text: w.word.trim(),
+                      start: chunkStart + Math.round(w.start * 1000),
+                      end: chunkStart + Math.round(w.end * 1000),
+                      confidence: w.confidence,
+                    }))
+                  : undefined,
+                confidence: s.confidence,
+              }));
+              const spokenText = segments.map(s => s.text).join(' ');
+
+              console.log(`[TRANSCRIPT] Emitting transcript: ${segments.map(s => `${s.speaker}: ${s.text}`).join(' | ')}`);
 
               // CRITICAL: Save to database IMMEDIATELY before emitting
               if (room.callId) {
@@ -346,7 +686,8 @@ export const setupSocketHandlers = (io: Server) => {
                   const transcriptDoc = await Transcript.findOneAndUpdate(
                     { callId: room.callId },
                     { 
-                      $push: { segments: segment },
+                      $push: { segments: { $each: segments } },
+                      $set: { speakers },
                     },
                     { 
                       upsert: true,
@@ -357,14 +698,14 @@ export const setupSocketHandlers = (io: Server) => {
                   console.log('[TRANSCRIPT] ✅ Saved to database immediately:', {
                     callId: room.callId,
                     segmentCount: transcriptDoc?.segments?.length || 0,
-                    speaker: segment.speaker,
-                    textLength: segment.text.length,
+                    speakers: segments.map(s => s.speaker),
+                    textLength: spokenText.length,
                   });
                 } catch (dbError: any) {
                   console.error('[TRANSCRIPT] ❌ Database save error:', {
                     error: dbError.message,
                     callId: room.callId,
-                    segment: segment,
+                    segments,
                   });
                   // Continue even if save fails - emit anyway so users see transcript
                 }
@@ -372,63 +713,64 @@ export const setupSocketHandlers = (io: Server) => {
                 console.warn('[TRANSCRIPT] ⚠️ No callId, cannot save to database');
               }
 
-              // Update transcript buffer for notes
-              room.transcriptBuffer += `${segment.speaker}: ${segment.text}\n`;
-
-      // CRITICAL: Emit to all participants in real-time
-      console.log('[TRANSCRIPT] 📤 Broadcasting transcript chunk to room:', {
-        roomId: socket.roomId,
-        participantCount: room.participants.size,
-        speaker: segment.speaker,
-        textPreview: segment.text.substring(0, 50) + '...',
-      });
-      io.to(socket.roomId).emit('transcript:chunk', segment);
-      console.log('[TRANSCRIPT] ✅ Broadcast complete');
+              let bufferLength = 0;
+              for (const segment of segments) {
+                // Update transcript buffer for notes
+                bufferLength = await appendTranscript(roomId, `${segment.speaker}: ${segment.text}`);
+
+                // CRITICAL: Emit to all participants in real-time
+                console.log('[TRANSCRIPT] 📤 Broadcasting transcript chunk to room:', {
+                  roomId,
+                  speaker: segment.speaker,
+                  textPreview: segment.text.substring(0, 50) + '...',
+                });
+                io.to(roomId).emit('transcript:chunk', segment);
+              }
+              console.log('[TRANSCRIPT] ✅ Broadcast complete');
 
       // Check if we should update notes
-      const now = Date.now();
       if (
-        now - room.lastNotesUpdate >= NOTES_UPDATE_INTERVAL &&
-        room.transcriptBuffer.length >= MIN_TRANSCRIPT_FOR_NOTES
+        bufferLength >= MIN_TRANSCRIPT_FOR_NOTES &&
+        await claimThrottle(roomId, 'notes', NOTES_UPDATE_INTERVAL)
       ) {
-        room.lastNotesUpdate = now;
-        updateNotes(room, socket.roomId, io);
+        updateNotes(room.callId, roomId, io);
       }
 
       // CRITICAL: Auto-detect visual concepts and generate images (for manual transcript too)
       if (room.callId && room.callStarted) {
         // Debounce: only check if enough time has passed since last generation
-        const lastGen = room.lastImageGeneration || 0;
-        if (now - lastGen >= IMAGE_GENERATION_DEBOUNCE) {
+        if (!(await isThrottled(roomId, 'image'))) {
           // Get recent transcript segments for context
           const transcriptDoc = await Transcript.findOne({ callId: room.callId });
           const recentSegments = transcriptDoc?.segments?.slice(-5) || [];
           const recentTexts = recentSegments.map(s => s.text);
           
           // Detect visual concept
-          const detection = await detectVisualConcept(segment.text, recentTexts);
+          const detection = await detectVisualConcept(spokenText, recentTexts);
           
           if (detection.shouldGenerate && detection.confidence > 0.6) {
             console.log('[IMAGE AUTO] 🎨 Visual concept detected in manual transcript!', {
-              text: segment.text.substring(0, 100),
+              text: spokenText.substring(0, 100),
               confidence: detection.confidence,
               prompt: detection.prompt?.substring(0, 100),
             });
             
-            // Update last generation time
-            room.lastImageGeneration = now;
-            
-            // Generate image asynchronously (don't block transcript)
-            generateImageFromTranscript(
-              room.callId,
-              detection.prompt || segment.text,
-              socket.userId!,
-              socket.userName || 'User',
-              io,
-              socket.roomId
-            ).catch((error) => {
-              console.error('[IMAGE AUTO] ❌ Auto-generation failed:', error);
-            });
+            // Start the debounce window (another node may have just done so)
+            if (await claimThrottle(roomId, 'image', IMAGE_GENERATION_DEBOUNCE)) {
+              // Generate image in the background (don't block transcript)
+              enqueueJob('call.image', {
+                callId: room.callId,
+                roomId,
+                prompt: detection.prompt || spokenText,
+                userId: socket.userId!,
+                userName: socket.userName || 'User',
+              }, {
+                ownerIds: socket.isGuest ? [] : [socket.userId!],
+                subject: room.callId,
+              }).catch((error) => {
+                console.error('[IMAGE AUTO] ❌ Failed to queue auto-generation:', error);
+              });
+            }
           }
         }
       }
@@ -436,37 +778,38 @@ export const setupSocketHandlers = (io: Server) => {
               // CRITICAL: Auto-detect visual concepts and generate images
               if (room.callId && room.callStarted) {
                 // Debounce: only check if enough time has passed since last generation
-                const lastGen = room.lastImageGeneration || 0;
-                if (now - lastGen >= IMAGE_GENERATION_DEBOUNCE) {
+                if (!(await isThrottled(roomId, 'image'))) {
                   // Get recent transcript segments for context
                   const transcriptDoc = await Transcript.findOne({ callId: room.callId });
                   const recentSegments = transcriptDoc?.segments?.slice(-5) || [];
                   const recentTexts = recentSegments.map(s => s.text);
                   
                   // Detect visual concept
-                  const detection = await detectVisualConcept(segment.text, recentTexts);
+                  const detection = await detectVisualConcept(spokenText, recentTexts);
                   
                   if (detection.shouldGenerate && detection.confidence > 0.6) {
                     console.log('[IMAGE AUTO] 🎨 Visual concept detected!', {
-                      text: segment.text.substring(0, 100),
+                      text: spokenText.substring(0, 100),
                       confidence: detection.confidence,
                       prompt: detection.prompt?.substring(0, 100),
                     });
                     
-                    // Update last generation time
-                    room.lastImageGeneration = now;
-                    
-                    // Generate image asynchronously (don't block transcript)
-                    generateImageFromTranscript(
-                      room.callId,
-                      detection.prompt || segment.text,
-                      socket.userId!,
-                      socket.userName || 'User',
-                      io,
-                      socket.roomId
-                    ).catch((error) => {
-                      console.error('[IMAGE AUTO] ❌ Auto-generation failed:', error);
-                    });
+                    // Start the debounce window (another node may have just done so)
+                    if (await claimThrottle(roomId, 'image', IMAGE_GENERATION_DEBOUNCE)) {
+                      // Generate image in the background (don't block transcript)
+                      enqueueJob('call.image', {
+                        callId: room.callId,
+                        roomId,
+                        prompt: detection.prompt || spokenText,
+                        userId: socket.userId!,
+                        userName: socket.userName || 'User',
+                      }, {
+                        ownerIds: socket.isGuest ? [] : [socket.userId!],
+                        subject: room.callId,
+                      }).catch((error) => {
+                        console.error('[IMAGE AUTO] ❌ Failed to queue auto-generation:', error);
+                      });
+                    }
                   }
                 }
               }
@@ -500,31 +843,31 @@ export const setupSocketHandlers = (io: Server) => {
         return;
       }
 
-      const room = rooms.get(socket.roomId);
+      const roomId = socket.roomId;
+      const room = await getRoom(roomId);
       if (!room) {
-        console.error('[TRANSCRIPT] ❌ Room not found:', socket.roomId);
+        console.error('[TRANSCRIPT] ❌ Room not found:', roomId);
         return;
       }
 
       console.log('[TRANSCRIPT] 🔍 Room state:', {
-        roomId: socket.roomId,
+        roomId,
         callId: room.callId,
-        participantsCount: room.participants.size,
-        participantSocketIds: Array.from(room.participants.keys()),
         callStarted: room.callStarted,
       });
 
-      // Calculate timestamp relative to call start
-      const callStartTime = room.callStartedAt || room.createdAt;
-      const timestampSeconds = callStartTime 
-        ? Math.floor((Date.now() - callStartTime) / 1000)
-        : 0;
+      if (!(await hasRecordingConsent(roomId, socket.userId!))) {
+        console.warn('[TRANSCRIPT] 🚫 Refused transcript from a participant who has not consented:', socket.userId);
+        socket.emit('recording:refused', { reason: 'consent_required' });
+        return;
+      }
 
+      // Browser speech recognition has no timings: the segment starts when it arrives
       const segment = {
         speaker: socket.userName || 'Unknown',
         speakerId: socket.userId,
         text: data.text.trim(),
-        timestamp: data.timestamp || Date.now(), // Use absolute timestamp for better matching
+        timestamp: callTime(room, Date.now()),
       };
 
       console.log('[TRANSCRIPT] ✅ Created segment:', {
@@ -533,7 +876,6 @@ export const setupSocketHandlers = (io: Server) => {
         text: segment.text.substring(0, 50) + (segment.text.length > 50 ? '...' : ''),
         fullTextLength: segment.text.length,
         timestamp: segment.timestamp,
-        timestampSeconds,
       });
 
       // CRITICAL: Save to database IMMEDIATELY before emitting
@@ -571,14 +913,12 @@ export const setupSocketHandlers = (io: Server) => {
         console.warn('[TRANSCRIPT] ⚠️ No callId, cannot save to database');
       }
 
-      room.transcriptBuffer += `${segment.speaker}: ${segment.text}\n`;
-      console.log('[TRANSCRIPT] 📝 Updated transcript buffer, length:', room.transcriptBuffer.length);
+      const bufferLength = await appendTranscript(roomId, `${segment.speaker}: ${segment.text}`);
+      console.log('[TRANSCRIPT] 📝 Updated transcript buffer, length:', bufferLength);
 
       // CRITICAL: Emit to all participants in real-time
       console.log('[TRANSCRIPT] 📤 Broadcasting transcript chunk to room:', {
-        roomId: socket.roomId,
-        participantCount: room.participants.size,
-        participantSocketIds: Array.from(room.participants.keys()),
+        roomId,
         segment: {
           speaker: segment.speaker,
           speakerId: segment.speakerId,
@@ -588,17 +928,15 @@ export const setupSocketHandlers = (io: Server) => {
         },
       });
       
-      io.to(socket.roomId).emit('transcript:chunk', segment);
+      io.to(roomId).emit('transcript:chunk', segment);
       console.log('[TRANSCRIPT] ✅ Broadcast complete to all participants');
 
       // Update notes if enough content
-      const now = Date.now();
       if (
-        now - room.lastNotesUpdate >= NOTES_UPDATE_INTERVAL &&
-        room.transcriptBuffer.length >= MIN_TRANSCRIPT_FOR_NOTES
+        bufferLength >= MIN_TRANSCRIPT_FOR_NOTES &&
+        await claimThrottle(roomId, 'notes', NOTES_UPDATE_INTERVAL)
       ) {
-        room.lastNotesUpdate = now;
-        updateNotes(room, socket.roomId, io);
+        updateNotes(room.callId, roomId, io);
       }
     });
 
@@ -606,11 +944,12 @@ export const setupSocketHandlers = (io: Server) => {
     socket.on('notes:request', async () => {
       if (!socket.roomId) return;
 
-      const room = rooms.get(socket.roomId);
-      if (!room || room.transcriptBuffer.length < MIN_TRANSCRIPT_FOR_NOTES) return;
+      const room = await getRoom(socket.roomId);
+      const transcriptBuffer = await getTranscriptBuffer(socket.roomId);
+      if (!room || transcriptBuffer.length < MIN_TRANSCRIPT_FOR_NOTES) return;
 
-      room.lastNotesUpdate = Date.now();
-      updateNotes(room, socket.roomId, io);
+      await resetThrottle(socket.roomId, 'notes', NOTES_UPDATE_INTERVAL);
+      updateNotes(room.callId, socket.roomId, io);
     });
 
     // User leaves call (but call continues for others)
@@ -689,19 +1028,22 @@ export const setupSocketHandlers = (io: Server) => {
 
     // Disconnect
     socket.on('disconnect', () => {
-      // Update online status
-      if (socket.userId && !socket.userId.startsWith('anon-')) {
-        const userSockets = onlineUsers.get(socket.userId);
-        if (userSockets) {
-          userSockets.delete(socket.id);
-          if (userSockets.size === 0) {
-            onlineUsers.delete(socket.userId);
+      qualityReportAt.delete(socket.id);
+      leaveLobbyOnDisconnect(io, socket).catch((error) => {
+        console.error('[ACCESS] ❌ Failed to leave lobby on disconnect:', error);
+      });
+      // Update online status (last connection on any node)
+      if (!socket.isGuest) {
+        removePresence(socket.userId!, socket.id)
+          .then((last) => {
             // Notify friends that user is offline
-            io.emit('user:offline', { userId: socket.userId });
-          }
-        }
+            if (last) io.emit('user:offline', { userId: socket.userId });
+          })
+          .catch((error) => console.error('[SOCKET] ❌ Presence update failed:', error));
       }
-      handleLeaveRoom(socket, io);
+      handleLeaveRoom(socket, io).catch((error) => {
+        console.error('[SOCKET] ❌ Failed to leave room on disconnect:', error);
+      });
       console.log(`🔌 User disconnected: ${socket.userId}`);
     });
   });
@@ -710,80 +1052,218 @@ export const setupSocketHandlers = (io: Server) => {
 async function handleLeaveRoom(socket: AuthenticatedSocket, io: Server) {
   if (!socket.roomId) return;
 
-  const room = rooms.get(socket.roomId);
-  if (room) {
-    room.participants.delete(socket.id);
+  const roomId = socket.roomId;
+  audioBuffers.delete(socket.id);
+  leaveSfu(io, roomId, socket.id);
+  // Store the recorder media this connection sent before the call can be composed
+  await closeRecorderTracks(socket.id).catch((error) => {
+    console.error('[RECORDER] ❌ Failed to write final segments:', error);
+  });
+  socket.leave(roomId);
+  socket.roomId = undefined;
 
-    socket.to(socket.roomId).emit('user:left', {
-      userId: socket.userId,
-      userName: socket.userName,
-      socketId: socket.id,
-      participantCount: room.participants.size,
-    });
+  const room = await getRoom(roomId);
+  const participantCount = await removeParticipant(roomId, socket.id);
+  socket.to(roomId).emit('user:left', {
+    userId: socket.userId,
+    userName: socket.userName,
+    socketId: socket.id,
+    participantCount,
+  });
 
-    // End call only if no participants left (last person left)
-    if (room.participants.size === 0 && room.callStarted) {
-      room.callStarted = false;
-      
-      if (room.callId) {
-        const callSession = await CallSession.findById(room.callId);
-        if (callSession && callSession.status === 'active') {
-          callSession.status = 'ended';
-          callSession.endedAt = new Date();
-          if (callSession.startedAt) {
-            callSession.duration = Math.floor(
-              (callSession.endedAt.getTime() - callSession.startedAt.getTime()) / 1000
-            );
-          }
-          await callSession.save();
-          
-          // Update full transcript text first
-          const transcript = await Transcript.findOne({ callId: room.callId });
-          if (transcript) {
-            transcript.fullText = transcript.segments
-              .map(s => `${s.speaker}: ${s.text}`)
-              .join('\n');
-            transcript.wordCount = transcript.fullText.split(/\s+/).filter(w => w.length > 0).length;
-            await transcript.save();
-          }
-          
-          // Generate comprehensive AI summary asynchronously (don't block call ending)
-          if (transcript && transcript.fullText && transcript.fullText.length > 50) {
-            console.log('[AI SUMMARY] 🚀 Starting comprehensive notes generation for call:', room.callId);
-            // Run asynchronously - don't await
-            generateComprehensivePostCallSummary(room.callId, callSession, transcript, io).catch((error) => {
-              console.error('[AI SUMMARY] ❌ Error generating comprehensive summary:', error);
-            });
-          } else {
-            // Fallback to basic notes if transcript is too short
-            if (room.transcriptBuffer.length >= MIN_TRANSCRIPT_FOR_NOTES) {
-              await updateNotes(room, socket.roomId, io, true);
-            }
-          }
-          
-          // Attach call data to conversation if linked
-          if (callSession.metadata?.conversationId) {
-            await attachCallToConversation(callSession);
-          }
-        }
-      }
+  if (room?.callId && !socket.isGuest) {
+    await recordParticipantLeft(room.callId, socket.userId!, new Date());
+  }
+  // Whoever was pending or recording on this connection is gone
+  if (participantCount > 0) {
+    await broadcastConsentState(io, roomId);
+  }
 
-      // Emit call:ended only when room is empty (last person left)
-      io.to(socket.roomId).emit('call:ended', {
-        roomId: socket.roomId,
-        callId: room.callId,
+  // The node that removes the empty room ends the call and cleans up
+  const closed = participantCount === 0 ? await closeRoom(roomId) : null;
+  if (closed) {
+    const { room: closedRoom, transcriptBuffer } = closed;
+
+    // End call only if no participants left (last person left)
+    if (closedRoom.callStarted) {
+      await finalizeCall(io, roomId, closedRoom.callId, {
         reason: 'last_participant_left',
+        transcriptBuffer,
       });
+    } else {
+      cleanupRoom(io, roomId, closedRoom.callId);
     }
+  }
+}
 
-    // Clean up empty rooms
-    if (room.participants.size === 0) {
-      rooms.delete(socket.roomId);
+// Close a participant's attendance record (reopened if they rejoin)
+async function recordParticipantLeft(callId: string, userId: string, leftAt: Date) {
+  const participant = await CallParticipant.findOne({ callId, userId, leftAt: null });
+  if (!participant) return;
+  participant.leftAt = leftAt;
+  participant.duration = Math.max(0, Math.floor((leftAt.getTime() - participant.joinedAt.getTime()) / 1000));
+  await participant.save();
+}
+
+/**
+ * End a call: mark the session ended (only once, whichever node or worker
+ * gets here first), close attendance records, build the full transcript,
+ * start the post-call notes and tell anyone still in the room.
+ * Returns false when the call had already been finalized.
+ */
+export async function finalizeCall(
+  io: Server,
+  roomId: string,
+  callId: string | undefined,
+  options: {
+    reason: 'last_participant_left' | 'abandoned';
+    endedAt?: Date;
+    transcriptBuffer?: string; // Live-notes buffer of the closed room
+  }
+): Promise<boolean> {
+  const endedAt = options.endedAt || new Date();
+  let finalized = !callId;
+
+  if (callId) {
+    const callSession = await CallSession.findOneAndUpdate(
+      { _id: callId, status: 'active' },
+      { $set: { status: 'ended', endedAt } },
+      { new: true }
+    );
+    if (callSession) {
+      finalized = true;
+      if (callSession.startedAt) {
+        callSession.duration = Math.max(0, Math.floor(
+          (endedAt.getTime() - callSession.startedAt.getTime()) / 1000
+        ));
+        await callSession.save();
+      }
+
+      // Anyone still marked as in the call left when it ended
+      const open = await CallParticipant.find({ callId: callSession._id, leftAt: null });
+      for (const participant of open) {
+        participant.leftAt = endedAt;
+        participant.duration = Math.max(0, Math.floor((endedAt.getTime() - participant.joinedAt.getTime()) / 1000));
+        await participant.save();
+      }
+
+      // Update full transcript text first
+      const transcript = await Transcript.findOne({ callId });
+      if (transcript) {
+        transcript.fullText = transcript.segments
+          .map(s => `${s.speaker}: ${s.text}`)
+          .join('\n');
+        transcript.wordCount = transcript.fullText.split(/\s+/).filter(w => w.length > 0).length;
+        await transcript.save();
+      }
+
+      // Generate comprehensive AI summary asynchronously (don't block call ending)
+      if (transcript && transcript.fullText && transcript.fullText.length > 50) {
+        console.log('[AI SUMMARY] 🚀 Queueing comprehensive notes generation for call:', callId);
+        await enqueueJob('call.summary', { callId }, {
+          ownerIds: [callSession.hostId, ...callSession.guestIds].map(id => id.toString()),
+          subject: callId,
+          dedupeKey: `call.summary:${callId}`,
+        });
+      } else {
+        // Fallback to basic notes if transcript is too short
+        const buffer = options.transcriptBuffer ?? transcript?.fullText ?? '';
+        if (buffer.length >= MIN_TRANSCRIPT_FOR_NOTES) {
+          await updateNotes(callId, roomId, io, true, buffer);
+        }
+      }
+
+      // Mix and tile the server recorder's segments into the recording
+      if (callSession.metadata?.recorder === 'server') {
+        await enqueueJob('call.recording', { callId }, {
+          ownerIds: [callSession.hostId, ...callSession.guestIds].map(id => id.toString()),
+          subject: callId,
+          dedupeKey: `call.recording:${callId}`,
+          delayMs: RECORDING_SETTLE_MS,
+        });
+      }
+
+      // Attach call data to conversation if linked
+      if (callSession.metadata?.conversationId) {
+        await attachCallToConversation(callSession);
+      }
     }
   }
 
-  socket.leave(socket.roomId);
-  socket.roomId = undefined;
+  if (finalized) {
+    // Emit call:ended only when room is empty (last person left) or was abandoned
+    io.to(roomId).emit('call:ended', {
+      roomId,
+      callId,
+      reason: options.reason,
+    });
+    cleanupRoom(io, roomId, callId);
+  }
+  return finalized;
+}
+
+// Clean up after an empty room
+function cleanupRoom(io: Server, roomId: string, callId?: string) {
+  forgetCallSpeakers(callId || roomId);
+
+  if (callId) {
+    notifyMissedCall(callId, io).catch((error) => {
+      console.error('[NOTIFICATIONS] ❌ Failed to record missed calls:', error);
+    });
+  }
+}
+
+/**
+ * Drop participants whose sockets are gone from every node (a restarted or
+ * crashed instance never sent their `user:left`). Returns the live count.
+ */
+export async function pruneStaleParticipants(io: Server, roomId: string): Promise<number> {
+  const live = new Set((await io.in(roomId).fetchSockets()).map(s => s.id));
+  for (const participant of await getParticipants(roomId)) {
+    if (live.has(participant.socketId)) continue;
+    await removeParticipant(roomId, participant.socketId);
+    io.to(roomId).emit('user:left', {
+      userId: participant.userId,
+      userName: participant.userName,
+      socketId: participant.socketId,
+      participantCount: live.size,
+    });
+  }
+  return live.size;
+}
+
+// Record a missed call for every invited guest who never joined the room
+async function notifyMissedCall(callId: string, io: Server) {
+  const callSession = await CallSession.findById(callId);
+  if (!callSession || !callSession.guestIds?.length) return;
+
+  const joined = await CallParticipant.find({ callId: callSession._id }).distinct('userId');
+  const joinedIds = new Set(joined.map((id: any) => id.toString()));
+  const missedIds = callSession.guestIds
+    .map(id => id.toString())
+    .filter(id => !joinedIds.has(id));
+  if (missedIds.length === 0) return;
+
+  const host = await User.findById(callSession.hostId).select('name').lean();
+  for (const userId of missedIds) {
+    await createNotification(io, {
+      userId,
+      type: 'missed_call',
+      title: 'Missed call',
+      message: `You missed a ${callSession.metadata?.audioOnly ? 'audio' : 'video'} call from ${host?.name || 'someone'}`,
+      actionUrl: callSession.metadata?.conversationId
+        ? `/friends/chat/${callSession.metadata.conversationId}`
+        : '/history',
+      metadata: {
+        callId,
+        roomId: callSession.roomId,
+        callerId: callSession.hostId.toString(),
+        callerName: host?.name,
+        isVideo: !callSession.metadata?.audioOnly,
+        conversationId: callSession.metadata?.conversationId?.toString(),
+      },
+    });
+  }
 }
 
 // Attach call recording, transcript, and notes to conversation
@@ -942,17 +1422,25 @@ async function attachCallToConversation(callSession: any) {
   }
 }
 
-async function updateNotes(room: RoomState, roomId: string, io: Server, isFinal: boolean = false) {
+async function updateNotes(
+  callId: string | undefined,
+  roomId: string,
+  io: Server,
+  isFinal: boolean = false,
+  transcriptBuffer?: string // Final notes pass the buffer of the closed room
+) {
   try {
+    const transcript = transcriptBuffer ?? await getTranscriptBuffer(roomId);
+
     // Get existing notes
     let existingNotes = null;
-    if (room.callId) {
-      existingNotes = await Notes.findOne({ callId: room.callId });
+    if (callId) {
+      existingNotes = await Notes.findOne({ callId: callId });
     }
 
     // Generate new notes
     const newNotes = await generateNotes(
-      room.transcriptBuffer,
+      transcript,
       existingNotes ? {
         summary: existingNotes.summary,
         bullets: existingNotes.bullets,
@@ -965,9 +1453,9 @@ async function updateNotes(room: RoomState, roomId: string, io: Server, isFinal:
     );
 
     // Save to database
-    if (room.callId) {
+    if (callId) {
       await Notes.findOneAndUpdate(
-        { callId: room.callId },
+        { callId: callId },
         {
           ...newNotes,
           lastUpdatedAt: new Date(),
@@ -985,24 +1473,33 @@ async function updateNotes(room: RoomState, roomId: string, io: Server, isFinal:
     });
 
     // Emit AI insight notification when final notes are ready
-    if (isFinal && room.callId) {
-      const callSession = await CallSession.findById(room.callId);
+    if (isFinal && callId) {
+      const callSession = await CallSession.findById(callId);
       if (callSession) {
         const participants = [callSession.hostId, ...(callSession.guestIds || [])];
         participants.forEach((participantId) => {
           io.to(`user:${participantId}`).emit('ai:insight:ready', {
-            callId: room.callId,
+            callId: callId,
             conversationId: callSession.metadata?.conversationId,
             summary: newNotes.summary,
           });
         });
+        await notifyUsers(io, participants.map(p => p.toString()), {
+          type: 'ai_insight',
+          title: 'AI Insights Available',
+          message: newNotes.summary || 'AI generated notes from your last call',
+          actionUrl: `/call-detail/${callId}`,
+          metadata: {
+            callId: callId,
+            conversationId: callSession.metadata?.conversationId?.toString(),
+          },
+        });
       }
     }
 
     // Clear buffer after processing (keep last bit for context)
     if (!isFinal) {
-      const lines = room.transcriptBuffer.split('\n');
-      room.transcriptBuffer = lines.slice(-5).join('\n');
+      await trimTranscriptBuffer(roomId, transcript, 5);
     }
   } catch (error) {
     console.error('Notes update error:', error);
@@ -1011,8 +1508,9 @@ async function updateNotes(room: RoomState, roomId: string, io: Server, isFinal:
 
 /**
  * Automatically generate image from transcript when visual concepts are detected
+ * (runs as a 'call.image' job; throws so the job can retry)
  */
-async function generateImageFromTranscript(
+export async function generateImageFromTranscript(
   callId: string,
   prompt: string,
   userId: string,
@@ -1152,187 +1650,180 @@ async function generateImageFromTranscript(
     console.log('[IMAGE AUTO] ✅ Image broadcasted to room:', roomId);
   } catch (error: any) {
     console.error('[IMAGE AUTO] ❌ Error generating image:', error);
-    // Emit error to room
-    io.to(roomId).emit('image:generation:error', {
-      error: error.message || 'Failed to generate image',
-      prompt: prompt.substring(0, 100),
-    });
+    throw error;
   }
 }
 
-// Generate comprehensive post-call AI summary with retry logic
+// Generate comprehensive post-call AI summary (one attempt; the 'call.summary' job retries)
 export async function generateComprehensivePostCallSummary(
   callId: string,
   callSession: any,
   transcript: any,
   io: Server
-) {
-  const MAX_RETRIES = 3;
-  const RETRY_DELAY = 2000; // 2 seconds
+): Promise<{ notesId?: string; skipped?: string }> {
+  console.log(`[AI SUMMARY] 📝 Generating comprehensive notes for call ${callId}`);
+
+  // Get participants
+  const host = await User.findById(callSession.hostId).select('name').lean();
+  const guests = await Promise.all(
+    (callSession.guestIds || []).map((id: any) => 
+      User.findById(id).select('name').lean()
+    )
+  );
   
-  for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-    try {
-      console.log(`[AI SUMMARY] 📝 Attempt ${attempt}/${MAX_RETRIES} - Generating comprehensive notes for call ${callId}`);
-      
-      // Get participants
-      const host = await User.findById(callSession.hostId).select('name').lean();
-      const guests = await Promise.all(
-        (callSession.guestIds || []).map((id: any) => 
-          User.findById(id).select('name').lean()
-        )
-      );
-      
-      const participants = [
-        host?.name || 'Host',
-        ...guests.map((g: any) => g?.name || 'Guest').filter(Boolean)
-      ];
-      
-      // Get full transcript text
-      const transcriptText = transcript.fullText || transcript.segments
-        ?.map((s: any) => `${s.speaker || s.speakerName || 'Speaker'}: ${s.text}`)
-        .join('\n') || '';
-      
-      if (!transcriptText || transcriptText.length < 50) {
-        console.warn('[AI SUMMARY] ⚠️ Transcript too short, skipping comprehensive notes');
-        return;
-      }
-      
-      // Emit "generating" status to all participants
-      const allParticipants = [callSession.hostId, ...(callSession.guestIds || [])];
-      allParticipants.forEach((participantId) => {
-        io.to(`user:${participantId}`).emit('ai:summary:generating', {
-          callId,
-          status: 'generating',
-          message: 'Generating comprehensive meeting summary...',
-        });
-      });
-      
-      // Generate comprehensive notes using GPT-4
-      const comprehensiveNotes = await generateComprehensiveNotes(
-        transcriptText,
-        participants,
-        callSession.duration || 0,
-        callSession.startedAt || new Date()
-      );
-      
-      console.log('[AI SUMMARY] ✅ Comprehensive notes generated:', {
-        title: comprehensiveNotes.title,
-        summaryLength: comprehensiveNotes.summary?.length || 0,
-        actionItemsCount: comprehensiveNotes.actionItems?.length || 0,
-        decisionsCount: comprehensiveNotes.decisions?.length || 0,
-        sectionsCount: comprehensiveNotes.sections?.length || 0,
-      });
-      
-      // Convert to Notes model format
-      const notesData: any = {
+  const participants = [
+    host?.name || 'Host',
+    ...guests.map((g: any) => g?.name || 'Guest').filter(Boolean)
+  ];
+  
+  // Get full transcript text
+  const transcriptText = transcriptTextOf(transcript);
+  
+  if (!transcriptText || transcriptText.length < 50) {
+    console.warn('[AI SUMMARY] ⚠️ Transcript too short, skipping comprehensive notes');
+    return { skipped: 'transcript_too_short' };
+  }
+  
+  // Emit "generating" status to all participants
+  const allParticipants = [callSession.hostId, ...(callSession.guestIds || [])];
+  allParticipants.forEach((participantId) => {
+    io.to(`user:${participantId}`).emit('ai:summary:generating', {
+      callId,
+      status: 'generating',
+      message: 'Generating comprehensive meeting summary...',
+    });
+  });
+  
+  // Generate comprehensive notes using GPT-4
+  const comprehensiveNotes = await generateComprehensiveNotes(
+    transcriptText,
+    participants,
+    callSession.duration || 0,
+    callSession.startedAt || new Date()
+  );
+  
+  console.log('[AI SUMMARY] ✅ Comprehensive notes generated:', {
+    title: comprehensiveNotes.title,
+    summaryLength: comprehensiveNotes.summary?.length || 0,
+    actionItemsCount: comprehensiveNotes.actionItems?.length || 0,
+    decisionsCount: comprehensiveNotes.decisions?.length || 0,
+    sectionsCount: comprehensiveNotes.sections?.length || 0,
+  });
+  
+  // Convert to Notes model format
+  const notesData: any = {
+    callId: callSession._id,
+    title: comprehensiveNotes.title || 'Meeting Notes',
+    date: callSession.startedAt || new Date(),
+    duration: callSession.duration || 0,
+    participants: participants,
+    summary: comprehensiveNotes.summary || '',
+    sections: comprehensiveNotes.sections || [],
+    actionItems: (comprehensiveNotes.actionItems || []).map((item: any) => ({
+      text: item.item || item.text || item,
+      assignee: item.assignee || undefined,
+      completed: false,
+      dueDate: item.dueDate ? new Date(item.dueDate) : undefined,
+      priority: item.priority || 'medium',
+    })),
+    decisions: (comprehensiveNotes.decisions || []).map((decision: any) => ({
+      decision: typeof decision === 'string' ? decision : (decision.decision || decision),
+      context: typeof decision === 'object' ? (decision.context || '') : '',
+      timestamp: typeof decision === 'object' ? (decision.timestamp || '') : '',
+    })),
+    keyPoints: comprehensiveNotes.keyPoints || [],
+    questionsRaised: comprehensiveNotes.questionsRaised || [],
+    nextSteps: comprehensiveNotes.nextSteps || [],
+    suggestedFollowUp: comprehensiveNotes.suggestedFollowUp 
+      ? new Date(comprehensiveNotes.suggestedFollowUp) 
+      : undefined,
+    generatedAt: new Date(),
+    lastUpdatedAt: new Date(),
+    version: 1,
+    isEditable: true,
+    // Legacy fields for backward compatibility
+    bullets: comprehensiveNotes.keyPoints || [],
+    suggestedReplies: comprehensiveNotes.nextSteps || [],
+    keyTopics: comprehensiveNotes.sections?.map((s: any) => s.topic) || [],
+  };
+  
+  // Save to database
+  const savedNotes = await Notes.findOneAndUpdate(
+    { callId: callSession._id },
+    notesData,
+    { upsert: true, new: true }
+  );
+  await CallSession.updateOne({ _id: callSession._id }, { $set: { notesId: savedNotes._id } });
+  
+  console.log('[AI SUMMARY] 💾 Comprehensive notes saved to database:', savedNotes._id);
+  
+  // Emit success to all participants
+  allParticipants.forEach((participantId) => {
+    io.to(`user:${participantId}`).emit('ai:summary:ready', {
+      callId,
+      status: 'ready',
+      notesId: savedNotes._id,
+      summary: comprehensiveNotes.summary,
+      title: comprehensiveNotes.title,
+      actionItemsCount: comprehensiveNotes.actionItems?.length || 0,
+      decisionsCount: comprehensiveNotes.decisions?.length || 0,
+    });
+  });
+  
+  await notifyUsers(io, allParticipants.map((p: any) => p.toString()), {
+    type: 'ai_insight',
+    title: comprehensiveNotes.title || 'AI Insights Available',
+    message: comprehensiveNotes.summary || 'AI generated notes from your last call',
+    actionUrl: `/call-detail/${callId}`,
+    metadata: {
+      callId,
+      conversationId: callSession.metadata?.conversationId?.toString(),
+    },
+  });
+  
+  // Emit comprehensive notes update
+  io.to(`call:${callId}`).emit('ai:notes:comprehensive', {
+    notes: savedNotes,
+    isFinal: true,
+    timestamp: Date.now(),
+  });
+  
+  console.log('[AI SUMMARY] ✅ Comprehensive summary generation completed successfully');
+  return { notesId: savedNotes._id.toString() };
+}
+
+// When every summary attempt failed: tell participants and fall back to basic notes
+export async function fallbackToBasicNotes(callId: string, callSession: any, transcript: any, io: Server) {
+  console.error('[AI SUMMARY] ❌ All attempts failed, falling back to basic notes');
+  
+  const allParticipants = [callSession.hostId, ...(callSession.guestIds || [])];
+  allParticipants.forEach((participantId) => {
+    io.to(`user:${participantId}`).emit('ai:summary:error', {
+      callId,
+      status: 'error',
+      message: 'Failed to generate comprehensive summary. Basic notes available.',
+    });
+  });
+  
+  try {
+    const basicNotes = await generateNotes(transcriptTextOf(transcript));
+    await Notes.findOneAndUpdate(
+      { callId: callSession._id },
+      {
+        ...basicNotes,
         callId: callSession._id,
-        title: comprehensiveNotes.title || 'Meeting Notes',
-        date: callSession.startedAt || new Date(),
-        duration: callSession.duration || 0,
-        participants: participants,
-        summary: comprehensiveNotes.summary || '',
-        sections: comprehensiveNotes.sections || [],
-        actionItems: (comprehensiveNotes.actionItems || []).map((item: any) => ({
-          text: item.item || item.text || item,
-          assignee: item.assignee || undefined,
-          completed: false,
-          dueDate: item.dueDate ? new Date(item.dueDate) : undefined,
-          priority: item.priority || 'medium',
-        })),
-        decisions: (comprehensiveNotes.decisions || []).map((decision: any) => ({
-          decision: typeof decision === 'string' ? decision : (decision.decision || decision),
-          context: typeof decision === 'object' ? (decision.context || '') : '',
-          timestamp: typeof decision === 'object' ? (decision.timestamp || '') : '',
-        })),
-        keyPoints: comprehensiveNotes.keyPoints || [],
-        questionsRaised: comprehensiveNotes.questionsRaised || [],
-        nextSteps: comprehensiveNotes.nextSteps || [],
-        suggestedFollowUp: comprehensiveNotes.suggestedFollowUp 
-          ? new Date(comprehensiveNotes.suggestedFollowUp) 
-          : undefined,
         generatedAt: new Date(),
         lastUpdatedAt: new Date(),
-        version: 1,
-        isEditable: true,
-        // Legacy fields for backward compatibility
-        bullets: comprehensiveNotes.keyPoints || [],
-        suggestedReplies: comprehensiveNotes.nextSteps || [],
-        keyTopics: comprehensiveNotes.sections?.map((s: any) => s.topic) || [],
-      };
-      
-      // Save to database
-      const savedNotes = await Notes.findOneAndUpdate(
-        { callId: callSession._id },
-        notesData,
-        { upsert: true, new: true }
-      );
-      
-      console.log('[AI SUMMARY] 💾 Comprehensive notes saved to database:', savedNotes._id);
-      
-      // Emit success to all participants
-      allParticipants.forEach((participantId) => {
-        io.to(`user:${participantId}`).emit('ai:summary:ready', {
-          callId,
-          status: 'ready',
-          notesId: savedNotes._id,
-          summary: comprehensiveNotes.summary,
-          title: comprehensiveNotes.title,
-          actionItemsCount: comprehensiveNotes.actionItems?.length || 0,
-          decisionsCount: comprehensiveNotes.decisions?.length || 0,
-        });
-      });
-      
-      // Emit comprehensive notes update
-      io.to(`call:${callId}`).emit('ai:notes:comprehensive', {
-        notes: savedNotes,
-        isFinal: true,
-        timestamp: Date.now(),
-      });
-      
-      console.log('[AI SUMMARY] ✅ Comprehensive summary generation completed successfully');
-      return; // Success - exit retry loop
-      
-    } catch (error: any) {
-      console.error(`[AI SUMMARY] ❌ Attempt ${attempt}/${MAX_RETRIES} failed:`, error.message);
-      
-      if (attempt === MAX_RETRIES) {
-        // Final attempt failed - emit error and fallback to basic notes
-        console.error('[AI SUMMARY] ❌ All retry attempts failed, falling back to basic notes');
-        
-        const allParticipants = [callSession.hostId, ...(callSession.guestIds || [])];
-        allParticipants.forEach((participantId) => {
-          io.to(`user:${participantId}`).emit('ai:summary:error', {
-            callId,
-            status: 'error',
-            message: 'Failed to generate comprehensive summary. Basic notes available.',
-          });
-        });
-        
-        // Fallback: try to generate basic notes
-        try {
-          const transcriptText = transcript.fullText || transcript.segments
-            ?.map((s: any) => `${s.speaker || s.speakerName || 'Speaker'}: ${s.text}`)
-            .join('\n') || '';
-          const basicNotes = await generateNotes(transcriptText || '');
-          await Notes.findOneAndUpdate(
-            { callId: callSession._id },
-            {
-              ...basicNotes,
-              callId: callSession._id,
-              generatedAt: new Date(),
-              lastUpdatedAt: new Date(),
-            },
-            { upsert: true }
-          );
-          console.log('[AI SUMMARY] ✅ Fallback basic notes generated');
-        } catch (fallbackError) {
-          console.error('[AI SUMMARY] ❌ Fallback notes generation also failed:', fallbackError);
-        }
-      } else {
-        // Wait before retrying
-        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * attempt));
-      }
-    }
+      },
+      { upsert: true }
+    );
+    console.log('[AI SUMMARY] ✅ Fallback basic notes generated');
+  } catch (fallbackError) {
+    console.error('[AI SUMMARY] ❌ Fallback notes generation also failed:', fallbackError);
   }
 }
 
+const transcriptTextOf = (transcript: any): string =>
+  transcript?.fullText || transcript?.segments
+    ?.map((s: any) => `${s.speaker || s.speakerName || 'Speaker'}: ${s.text}`)
+    .join('\n') || '';
@@ -0,0 +1,150 @@
+import { Server, Socket } from 'socket.io';
+import { CallSession, ICallSession } from '../models/CallSession';
+import {
+  RoomAccessError,
+  Moderator,
+  isRoomHost,
+  accessState,
+  recordModeration,
+  admitFromLobby,
+  rejectFromLobby,
+  leaveLobby,
+  broadcastLobby,
+  removeFromCall,
+  setRoomLocked,
+  setRoomAccessMode,
+  transferHost,
+} from '../services/roomAccess';
+import { getRoom, getParticipants, removeParticipant } from './roomStore';
+
+/**
+ * Lobby and host controls (see services/roomAccess.ts). Host requests are
+ * answered through the acknowledgement callback, with `{ error }` when
+ * refused:
+ *
+ * lobby:admit     { userId }
+ * lobby:reject    { userId }
+ * host:kick       { userId }
+ * host:mute-all
+ * host:lock       { locked }
+ * host:access     { mode: 'open' | 'invite' | 'lobby' }
+ * host:transfer   { userId }
+ *
+ * A waiting user can give up with `lobby:leave`. The room hears
+ * `room:access` (mode, lock, host) and `room:host` when the host changes;
+ * kicked participants get `room:kicked`, everyone else `room:mute`.
+ */
+
+interface ModerationSocket extends Socket {
+  userId?: string;
+  userName?: string;
+  roomId?: string;
+  lobbyRoomId?: string;
+}
+
+type Ack = (response: any) => void;
+
+export function registerRoomModerationHandlers(
+  io: Server,
+  socket: ModerationSocket,
+  leaveRoom: (socket: Socket) => Promise<void>
+) {
+  // Only the call's host, from inside the room
+  const handle = (event: string, handler: (callSession: ICallSession, actor: Moderator, data: any) => Promise<any>) => {
+    socket.on(event, async (data: any, ack?: Ack) => {
+      try {
+        const room = socket.roomId ? await getRoom(socket.roomId) : null;
+        const callSession = room?.callId ? await CallSession.findById(room.callId) : null;
+        if (!callSession) throw new RoomAccessError('You are not in a call');
+        if (!isRoomHost(callSession, socket.userId!)) throw new RoomAccessError('Only the host can do that');
+        const actor = { userId: socket.userId!, userName: socket.userName || 'The host' };
+        ack?.((await handler(callSession, actor, data || {})) ?? {});
+      } catch (error: any) {
+        if (!(error instanceof RoomAccessError)) {
+          console.error(`[ACCESS] ❌ ${event} failed:`, error);
+        }
+        ack?.({ error: error instanceof RoomAccessError ? error.message : 'Request failed' });
+      }
+    });
+  };
+
+  // Tell the room, then re-read the session for the new state
+  const announceAccess = async (callSession: ICallSession) => {
+    const updated = await CallSession.findById(callSession._id);
+    if (updated) io.to(callSession.roomId).emit('room:access', accessState(updated));
+  };
+
+  handle('lobby:admit', async (callSession, actor, data) => {
+    await admitFromLobby(io, callSession, actor, String(data.userId));
+  });
+
+  handle('lobby:reject', async (callSession, actor, data) => {
+    await rejectFromLobby(io, callSession, actor, String(data.userId));
+  });
+
+  handle('host:kick', async (callSession, actor, data) => {
+    const userId = String(data.userId);
+    const targets = (await getParticipants(callSession.roomId)).filter(p => p.userId === userId);
+    if (targets.length === 0) throw new RoomAccessError('Not in this call');
+    await removeFromCall(callSession, actor, { userId, userName: targets[0].userName });
+
+    for (const target of targets) {
+      io.to(target.socketId).emit('room:kicked', { roomId: callSession.roomId, by: actor.userName });
+      const local = io.sockets.sockets.get(target.socketId);
+      if (local) {
+        await leaveRoom(local);
+        continue;
+      }
+      // Connected to another instance: take them out of the room from here
+      io.in(target.socketId).socketsLeave(callSession.roomId);
+      const participantCount = await removeParticipant(callSession.roomId, target.socketId);
+      io.to(callSession.roomId).emit('user:left', {
+        userId: target.userId,
+        userName: target.userName,
+        socketId: target.socketId,
+        participantCount,
+      });
+    }
+  });
+
+  handle('host:mute-all', async (callSession, actor) => {
+    socket.to(callSession.roomId).emit('room:mute', { roomId: callSession.roomId, by: actor.userName });
+    await recordModeration(callSession._id, actor, 'mute_all');
+  });
+
+  handle('host:lock', async (callSession, actor, data) => {
+    await setRoomLocked(callSession, actor, !!data.locked);
+    await announceAccess(callSession);
+  });
+
+  handle('host:access', async (callSession, actor, data) => {
+    await setRoomAccessMode(callSession, actor, data.mode);
+    await announceAccess(callSession);
+  });
+
+  handle('host:transfer', async (callSession, actor, data) => {
+    const userId = String(data.userId);
+    const target = (await getParticipants(callSession.roomId)).find(p => p.userId === userId);
+    if (!target) throw new RoomAccessError('Not in this call');
+    await transferHost(callSession, actor, { userId, userName: target.userName });
+
+    io.to(callSession.roomId).emit('room:host', { roomId: callSession.roomId, hostId: userId, hostName: target.userName });
+    await announceAccess(callSession);
+    // The new host takes over the lobby
+    const updated = await CallSession.findById(callSession._id);
+    if (updated) await broadcastLobby(io, updated);
+  });
+
+  socket.on('lobby:leave', async () => {
+    const roomId = socket.lobbyRoomId;
+    socket.lobbyRoomId = undefined;
+    if (roomId) await leaveLobby(io, roomId, socket.userId!);
+  });
+}
+
+// A waiting user disconnected
+export async function leaveLobbyOnDisconnect(io: Server, socket: ModerationSocket) {
+  if (!socket.lobbyRoomId) return;
+  await leaveLobby(io, socket.lobbyRoomId, socket.userId!);
+  socket.lobbyRoomId = undefined;
+}
@@ -0,0 +1,274 @@
+import { getSharedStore, SHARED_STORE_PREFIX } from '../services/sharedStore';
+
+/**
+ * Call room state kept in the shared store, so participants of one call can
+ * be connected to different backend instances.
+ *
+ * room:<id>               hash: createdAt, callStartedAt, callId, topology
+ * room:<id>:participants  hash: socketId -> JSON participant
+ * room:<id>:transcript    recent "Speaker: text" lines for live notes
+ * room:<id>:throttle:<k>  present while notes/image generation is throttled
+ * room:<id>:consent       hash: userId -> '1' (consented to recording) / '0', plus 'request' -> JSON
+ * room:<id>:recording     hash: socketId -> JSON participant currently recording
+ * room:<id>:lobby         hash: userId -> JSON lobby entry, waiting for the host to admit them
+ * presence:<userId>       set of the user's connected socket ids
+ *
+ * Audio waiting for transcription stays with the node holding the socket.
+ */
+
+export interface RoomParticipant {
+  userId: string;
+  userName: string;
+  socketId: string;
+}
+
+export interface RoomSnapshot {
+  roomId: string;
+  callStarted: boolean;
+  callStartedAt?: number; // Timestamp when call started
+  createdAt: number; // Timestamp when room was created
+  callId?: string;
+  topology?: 'mesh' | 'sfu'; // How media flows (mesh until the room moves to the SFU)
+}
+
+export type RoomThrottle = 'notes' | 'image';
+
+export interface RoomRecordingRequest {
+  userId: string;
+  userName: string;
+  at: number;
+}
+
+export interface LobbyEntry {
+  userId: string;
+  userName: string;
+  socketId: string;
+  at: number;
+}
+
+// Rooms abandoned by a crashed node eventually disappear
+const ROOM_TTL_MS = 24 * 60 * 60 * 1000;
+
+const roomKey = (roomId: string) => `${SHARED_STORE_PREFIX}room:${roomId}`;
+const participantsKey = (roomId: string) => `${roomKey(roomId)}:participants`;
+const transcriptKey = (roomId: string) => `${roomKey(roomId)}:transcript`;
+const throttleKey = (roomId: string, kind: RoomThrottle) => `${roomKey(roomId)}:throttle:${kind}`;
+const consentKey = (roomId: string) => `${roomKey(roomId)}:consent`;
+const recordingKey = (roomId: string) => `${roomKey(roomId)}:recording`;
+const lobbyKey = (roomId: string) => `${roomKey(roomId)}:lobby`;
+const presenceKey = (userId: string) => `${SHARED_STORE_PREFIX}presence:${userId}`;
+
+const toSnapshot = (roomId: string, fields: Record<string, string>): RoomSnapshot | null => {
+  if (!fields.createdAt) return null;
+  const callStartedAt = fields.callStartedAt ? Number(fields.callStartedAt) : undefined;
+  return {
+    roomId,
+    callStarted: !!callStartedAt,
+    callStartedAt,
+    createdAt: Number(fields.createdAt),
+    callId: fields.callId || undefined,
+    topology: fields.topology === 'sfu' ? 'sfu' : fields.topology === 'mesh' ? 'mesh' : undefined,
+  };
+};
+
+export const getRoom = async (roomId: string): Promise<RoomSnapshot | null> =>
+  toSnapshot(roomId, await getSharedStore().hgetall(roomKey(roomId)));
+
+// Create the room if needed; a new room waits a full interval before live notes
+export const ensureRoom = async (roomId: string, notesIntervalMs: number): Promise<void> => {
+  const store = getSharedStore();
+  if (await store.hsetIfAbsent(roomKey(roomId), 'createdAt', String(Date.now()))) {
+    await store.set(throttleKey(roomId, 'notes'), '1', notesIntervalMs);
+  }
+  await store.expire(roomKey(roomId), ROOM_TTL_MS);
+};
+
+export const setRoomCallId = async (roomId: string, callId: string): Promise<void> => {
+  await getSharedStore().hset(roomKey(roomId), 'callId', callId);
+};
+
+export const setRoomTopology = async (roomId: string, topology: 'mesh' | 'sfu'): Promise<void> => {
+  await getSharedStore().hset(roomKey(roomId), 'topology', topology);
+};
+
+// Returns the number of participants after the change
+export const addParticipant = async (roomId: string, participant: RoomParticipant): Promise<number> => {
+  const store = getSharedStore();
+  await store.hset(participantsKey(roomId), participant.socketId, JSON.stringify(participant));
+  await store.expire(participantsKey(roomId), ROOM_TTL_MS);
+  return store.hlen(participantsKey(roomId));
+};
+
+export const removeParticipant = async (roomId: string, socketId: string): Promise<number> => {
+  const store = getSharedStore();
+  await store.hdel(participantsKey(roomId), socketId);
+  await store.hdel(recordingKey(roomId), socketId);
+  return store.hlen(participantsKey(roomId));
+};
+
+export const getParticipants = async (roomId: string): Promise<RoomParticipant[]> => {
+  const fields = await getSharedStore().hgetall(participantsKey(roomId));
+  return Object.values(fields).map(value => JSON.parse(value) as RoomParticipant);
+};
+
+// Marks the call as started; only the first caller across all nodes gets true
+export const startCall = async (roomId: string, at: number): Promise<boolean> =>
+  getSharedStore().hsetIfAbsent(roomKey(roomId), 'callStartedAt', String(at));
+
+/**
+ * Deletes an empty room. Exactly one caller gets the final state back (the
+ * one whose delete removed it) and is responsible for ending the call.
+ */
+export const closeRoom = async (
+  roomId: string
+): Promise<{ room: RoomSnapshot; transcriptBuffer: string } | null> => {
+  const store = getSharedStore();
+  const room = await getRoom(roomId);
+  const transcriptBuffer = (await store.get(transcriptKey(roomId))) || '';
+  if (!room || !(await store.del(roomKey(roomId)))) return null;
+
+  await Promise.all([
+    store.del(participantsKey(roomId)),
+    store.del(transcriptKey(roomId)),
+    store.del(throttleKey(roomId, 'notes')),
+    store.del(throttleKey(roomId, 'image')),
+    store.del(consentKey(roomId)),
+    store.del(recordingKey(roomId)),
+  ]);
+  return { room, transcriptBuffer };
+};
+
+// --- Transcript buffer for live notes ---
+
+export const appendTranscript = async (roomId: string, line: string): Promise<number> => {
+  const store = getSharedStore();
+  const length = await store.append(transcriptKey(roomId), `${line}\n`);
+  if (length === Buffer.byteLength(`${line}\n`)) {
+    await store.expire(transcriptKey(roomId), ROOM_TTL_MS);
+  }
+  return length;
+};
+
+export const getTranscriptBuffer = async (roomId: string): Promise<string> =>
+  (await getSharedStore().get(transcriptKey(roomId))) || '';
+
+/**
+ * Drops the part of the buffer that went into notes, keeping its last lines
+ * for context. Lines appended on any node since `processed` was read are kept:
+ * the store swaps the prefix in one step, so no append can land in between.
+ */
+export const trimTranscriptBuffer = async (roomId: string, processed: string, keepLines: number): Promise<void> => {
+  const kept = processed.split('\n').slice(-keepLines).join('\n');
+  await getSharedStore().replacePrefix(transcriptKey(roomId), processed, kept, ROOM_TTL_MS);
+};
+
+// --- Throttles (notes updates, automatic images) ---
+
+// Starts the throttle window unless one is running; true if this caller got it
+export const claimThrottle = (roomId: string, kind: RoomThrottle, windowMs: number): Promise<boolean> =>
+  getSharedStore().setIfAbsent(throttleKey(roomId, kind), '1', windowMs);
+
+export const isThrottled = async (roomId: string, kind: RoomThrottle): Promise<boolean> =>
+  (await getSharedStore().get(throttleKey(roomId, kind))) !== null;
+
+// Restarts the throttle window (e.g. after notes were requested explicitly)
+export const resetThrottle = async (roomId: string, kind: RoomThrottle, windowMs: number): Promise<void> => {
+  await getSharedStore().set(throttleKey(roomId, kind), '1', windowMs);
+};
+
+// --- Recording consent ---
+
+// The request field lives next to the answers, keyed so it can't be a user id
+const REQUEST_FIELD = 'request';
+
+export const getRecordingRequest = async (roomId: string): Promise<RoomRecordingRequest | null> => {
+  const value = await getSharedStore().hget(consentKey(roomId), REQUEST_FIELD);
+  return value ? JSON.parse(value) as RoomRecordingRequest : null;
+};
+
+export const setRecordingRequest = async (roomId: string, request: RoomRecordingRequest): Promise<void> => {
+  const store = getSharedStore();
+  await store.hset(consentKey(roomId), REQUEST_FIELD, JSON.stringify(request));
+  await store.expire(consentKey(roomId), ROOM_TTL_MS);
+};
+
+// userId -> consented (true) or declined (false); users who haven't answered are missing
+export const getConsents = async (roomId: string): Promise<Record<string, boolean>> => {
+  const fields = await getSharedStore().hgetall(consentKey(roomId));
+  delete fields[REQUEST_FIELD];
+  return Object.fromEntries(Object.entries(fields).map(([userId, value]) => [userId, value === '1']));
+};
+
+export const setConsent = async (roomId: string, userId: string, granted: boolean): Promise<void> => {
+  const store = getSharedStore();
+  await store.hset(consentKey(roomId), userId, granted ? '1' : '0');
+  await store.expire(consentKey(roomId), ROOM_TTL_MS);
+};
+
+export const clearConsent = async (roomId: string, userId: string): Promise<void> => {
+  await getSharedStore().hdel(consentKey(roomId), userId);
+};
+
+export const hasConsent = async (roomId: string, userId: string): Promise<boolean> =>
+  (await getSharedStore().hget(consentKey(roomId), userId)) === '1';
+
+// Participants whose browser is recording (or feeding the server recorder)
+export const setRecording = async (roomId: string, participant: RoomParticipant, active: boolean): Promise<void> => {
+  const store = getSharedStore();
+  if (!active) {
+    await store.hdel(recordingKey(roomId), participant.socketId);
+    return;
+  }
+  await store.hset(recordingKey(roomId), participant.socketId, JSON.stringify(participant));
+  await store.expire(recordingKey(roomId), ROOM_TTL_MS);
+};
+
+export const getRecording = async (roomId: string): Promise<RoomParticipant[]> => {
+  const fields = await getSharedStore().hgetall(recordingKey(roomId));
+  return Object.values(fields).map(value => JSON.parse(value) as RoomParticipant);
+};
+
+// --- Lobby ---
+
+// Waiting users outlive the room: they may be waiting for the host to show up
+export const addToLobby = async (roomId: string, entry: LobbyEntry): Promise<void> => {
+  const store = getSharedStore();
+  await store.hset(lobbyKey(roomId), entry.userId, JSON.stringify(entry));
+  await store.expire(lobbyKey(roomId), ROOM_TTL_MS);
+};
+
+export const getLobbyEntry = async (roomId: string, userId: string): Promise<LobbyEntry | null> => {
+  const value = await getSharedStore().hget(lobbyKey(roomId), userId);
+  return value ? JSON.parse(value) as LobbyEntry : null;
+};
+
+export const removeFromLobby = async (roomId: string, userId: string): Promise<void> => {
+  await getSharedStore().hdel(lobbyKey(roomId), userId);
+};
+
+export const getLobby = async (roomId: string): Promise<LobbyEntry[]> => {
+  const fields = await getSharedStore().hgetall(lobbyKey(roomId));
+  return Object.values(fields)
+    .map(value => JSON.parse(value) as LobbyEntry)
+    .sort((a, b) => a.at - b.at);
+};
+
+// --- Presence ---
+
+// True when this is the user's first connected socket on any node
+export const addPresence = async (userId: string, socketId: string): Promise<boolean> => {
+  const store = getSharedStore();
+  const added = await store.sadd(presenceKey(userId), socketId);
+  await store.expire(presenceKey(userId), ROOM_TTL_MS);
+  return added && (await store.scard(presenceKey(userId))) === 1;
+};
+
+// True when the user has no connected sockets left on any node
+export const removePresence = async (userId: string, socketId: string): Promise<boolean> => {
+  const store = getSharedStore();
+  const removed = await store.srem(presenceKey(userId), socketId);
+  return removed && (await store.scard(presenceKey(userId))) === 0;
+};
+
+export const isUserOnline = async (userId: string): Promise<boolean> =>
+  (await getSharedStore().scard(presenceKey(userId))) > 0;
@@ -0,0 +1,131 @@
+import { Server, Socket } from 'socket.io';
+import mongoose from 'mongoose';
+import { User } from '../models/User';
+import {
+  SfuError,
+  TransportDirection,
+  joinSfuRoom,
+  createTransport,
+  connectTransport,
+  produce,
+  listProducers,
+  consume,
+  resumeConsumer,
+  setPreferredLayers,
+  closeProducer,
+  leaveSfuRoom,
+} from '../services/sfu';
+import { getRoom } from './roomStore';
+
+/**
+ * Signaling for SFU rooms (see services/sfu.ts). Every request is answered
+ * through the acknowledgement callback, with `{ error }` when it failed:
+ *
+ * sfu:join                  -> { rtpCapabilities, simulcast, producers }
+ * sfu:transport:create      { direction: 'send' | 'recv' } -> transport parameters
+ * sfu:transport:connect     { transportId, dtlsParameters }
+ * sfu:produce               { transportId, kind, rtpParameters } -> { id }
+ * sfu:consume               { transportId, producerId, rtpCapabilities } -> consumer parameters (paused)
+ * sfu:consumer:resume       { consumerId }
+ * sfu:layers                { spatialLayer, temporalLayer?, consumerId? }
+ * sfu:producer:close        { producerId }
+ *
+ * The room hears `sfu:producer:new` / `sfu:producer:closed`; a participant
+ * whose consumer lost its producer gets `sfu:consumer:closed`.
+ */
+
+interface SignalingSocket extends Socket {
+  userId?: string;
+  userName?: string;
+  roomId?: string;
+}
+
+type Ack = (response: any) => void;
+
+// Simulcast preferences come from the user's call quality settings
+const callQualityOf = async (userId: string) => {
+  if (!mongoose.Types.ObjectId.isValid(userId)) return undefined;
+  const user = await User.findById(userId).select('settings.callQuality').lean();
+  return user?.settings?.callQuality;
+};
+
+export function registerSfuHandlers(io: Server, socket: SignalingSocket) {
+  // Only participants of a room that is on the SFU get to use it
+  const handle = (event: string, handler: (roomId: string, data: any) => Promise<any>) => {
+    socket.on(event, async (data: any, ack?: Ack) => {
+      try {
+        const roomId = socket.roomId;
+        const room = roomId ? await getRoom(roomId) : null;
+        if (!roomId || room?.topology !== 'sfu') throw new SfuError('This room is not using the SFU');
+        ack?.((await handler(roomId, data || {})) ?? {});
+      } catch (error: any) {
+        if (!(error instanceof SfuError)) {
+          console.error(`[SFU] ❌ ${event} failed:`, error);
+        }
+        ack?.({ error: error instanceof SfuError ? error.message : 'SFU request failed' });
+      }
+    });
+  };
+
+  handle('sfu:join', async (roomId) => {
+    const joined = await joinSfuRoom(
+      roomId,
+      { socketId: socket.id, userId: socket.userId!, userName: socket.userName || 'Unknown' },
+      await callQualityOf(socket.userId!)
+    );
+    return { ...joined, producers: await listProducers(roomId, socket.id) };
+  });
+
+  handle('sfu:transport:create', async (roomId, data: { direction: TransportDirection }) => {
+    if (data.direction !== 'send' && data.direction !== 'recv') throw new SfuError('Invalid direction');
+    return createTransport(roomId, socket.id, data.direction);
+  });
+
+  handle('sfu:transport:connect', async (roomId, data) => {
+    await connectTransport(roomId, socket.id, String(data.transportId), data.dtlsParameters);
+  });
+
+  handle('sfu:produce', async (roomId, data) => {
+    if (data.kind !== 'audio' && data.kind !== 'video') throw new SfuError('Invalid kind');
+    const producer = await produce(roomId, socket.id, String(data.transportId), data.kind, data.rtpParameters);
+    socket.to(roomId).emit('sfu:producer:new', producer);
+    return { id: producer.producerId };
+  });
+
+  handle('sfu:consume', async (roomId, data) => {
+    const producerId = String(data.producerId);
+    return consume(roomId, socket.id, String(data.transportId), producerId, data.rtpCapabilities, (consumerId) => {
+      socket.emit('sfu:consumer:closed', { consumerId, producerId });
+    });
+  });
+
+  handle('sfu:consumer:resume', async (roomId, data) => {
+    await resumeConsumer(roomId, socket.id, String(data.consumerId));
+  });
+
+  handle('sfu:layers', async (roomId, data) => {
+    const spatialLayer = Number(data.spatialLayer);
+    if (!Number.isFinite(spatialLayer)) throw new SfuError('spatialLayer is required');
+    const temporalLayer = data.temporalLayer !== undefined ? Number(data.temporalLayer) : undefined;
+    await setPreferredLayers(
+      roomId,
+      socket.id,
+      { spatialLayer, temporalLayer: Number.isFinite(temporalLayer) ? temporalLayer : undefined },
+      data.consumerId ? String(data.consumerId) : undefined
+    );
+  });
+
+  handle('sfu:producer:close', async (roomId, data) => {
+    const producerId = String(data.producerId);
+    if (await closeProducer(roomId, socket.id, producerId)) {
+      socket.to(roomId).emit('sfu:producer:closed', { producerId, socketId: socket.id });
+    }
+  });
+}
+
+// A participant left the room: drop everything they had on the router
+export function leaveSfu(io: Server, roomId: string, socketId: string) {
+  for (const producerId of leaveSfuRoom(roomId, socketId)) {
+    io.to(roomId).emit('sfu:producer:closed', { producerId, socketId });
+  }
+}
@@ -0,0 +1,23 @@
+import express, { Router } from 'express';
+import { AddressInfo } from 'net';
+import { once } from 'events';
+import { errorHandler } from '../middleware/errorHandler';
+
+/**
+ * Serve one router on a local port, mounted as in index.ts, so route tests
+ * go through the real middleware and error handling.
+ */
+export async function serveRouter(mountPath: string, router: Router) {
+  const app = express();
+  app.use(express.json());
+  app.use(mountPath, router);
+  app.use(errorHandler);
+
+  const server = app.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}${mountPath}`,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
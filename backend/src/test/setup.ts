@@ -0,0 +1,7 @@
+/**
+ * Loaded into every test process (see `npm test`). Node 20's test runner
+ * reads each file's results from its stdout, and heavy service logging
+ * there now and then corrupts them, so informational logs are dropped;
+ * warnings and errors still go to stderr.
+ */
+console.log = () => {};
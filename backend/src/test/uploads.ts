@@ -0,0 +1,87 @@
+import { mock } from 'node:test';
+import mongoose from 'mongoose';
+import { Upload, IUpload } from '../models/Upload';
+import { initGridFS } from '../services/storage';
+
+type Filter = Record<string, any>;
+
+const same = (a: unknown, b: unknown) => String(a) === String(b);
+
+// The few query operators the upload service uses
+const matches = (doc: IUpload, filter: Filter) =>
+  Object.entries(filter).every(([field, condition]) => {
+    const value = doc.get(field);
+    if (condition && typeof condition === 'object' && Object.keys(condition).some(k => k.startsWith('$'))) {
+      if ('$in' in condition) return condition.$in.some((c: unknown) => same(c, value));
+      if ('$gt' in condition) return value != null && value > condition.$gt;
+      if ('$lt' in condition) return value != null && value < condition.$lt;
+      throw new Error(`Unsupported condition on ${field}`);
+    }
+    return same(value, condition);
+  });
+
+/**
+ * Keep GridFS and the Upload collection in memory: GridFS writes to fake
+ * collections, and the Upload model's queries run against a map. Call in
+ * beforeEach; mock.restoreAll() undoes the model stubs.
+ */
+export function useFakeUploadStorage() {
+  const collections = new Map<string, any[]>();
+  const docs = (name: string) => {
+    if (!collections.has(name)) collections.set(name, []);
+    return collections.get(name)!;
+  };
+  const remove = (name: string, filter: Filter) => {
+    const before = docs(name).length;
+    collections.set(name, docs(name).filter(doc => !Object.entries(filter).every(([k, v]) => same(doc[k], v))));
+    return before - docs(name).length;
+  };
+  const db = {
+    collection: (name: string) => ({
+      findOne: async () => docs(name)[0] ?? null,
+      listIndexes: () => ({ toArray: async () => [] }),
+      createIndex: async () => 'index',
+      insertOne: async (doc: any) => {
+        docs(name).push(doc);
+        return { acknowledged: true, insertedId: doc._id };
+      },
+      deleteOne: async (filter: Filter) => ({ deletedCount: remove(name, filter) }),
+      deleteMany: async (filter: Filter) => ({ deletedCount: remove(name, filter) }),
+    }),
+  };
+  (mongoose.connection as any).db = db;
+  initGridFS();
+
+  const uploads = new Map<string, IUpload>();
+  mock.method(Upload, 'create', async (fields: any) => {
+    const upload = new Upload(fields);
+    uploads.set(upload._id.toString(), upload);
+    return upload;
+  });
+  mock.method(Upload, 'findOne', async (filter: Filter) =>
+    Array.from(uploads.values()).find(upload => matches(upload, filter)) ?? null);
+  mock.method(Upload, 'find', async (filter: Filter) =>
+    Array.from(uploads.values()).filter(upload => matches(upload, filter)));
+  mock.method(Upload, 'findOneAndUpdate', async (filter: Filter, update: any) => {
+    const upload = Array.from(uploads.values()).find(u => matches(u, filter));
+    if (!upload) return null;
+    for (const [field, value] of Object.entries(update.$set || {})) upload.set(field, value);
+    for (const [field, value] of Object.entries(update.$inc || {})) upload.set(field, upload.get(field) + value);
+    for (const [field, value] of Object.entries(update.$push || {})) upload.get(field).push(value);
+    return upload;
+  });
+  mock.method(Upload, 'updateOne', async (filter: Filter, update: any) => {
+    const upload = Array.from(uploads.values()).find(u => matches(u, filter));
+    if (upload) upload.set(update.$set);
+    return { modifiedCount: upload ? 1 : 0 };
+  });
+  mock.method(Upload.prototype, 'save', async function (this: IUpload) {
+    return this;
+  });
+
+  return {
+    uploads,
+    // Finished GridFS files (an upload's file only appears once it is complete)
+    files: () => docs('recordings.files'),
+  };
+}
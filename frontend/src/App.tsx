@@ -1,6 +1,7 @@
 import { useEffect, lazy, Suspense } from 'react';
-import { Routes, Route, Navigate } from 'react-router-dom';
+import { Routes, Route, Navigate, useParams } from 'react-router-dom';
 import { useAuthStore } from './store/auth';
+import { useCallStore } from './store/call';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { ToastContainer } from './components/Toast';
 import FloatingCallOverlay from './components/FloatingCallOverlay';
@@ -17,6 +18,9 @@ const LandingPage = lazy(() => import('./pages/LandingPage'));
 const Login = lazy(() => import('./pages/Login'));
 const Register = lazy(() => import('./pages/Register'));
 const ForgotPassword = lazy(() => import('./pages/ForgotPassword'));
+const ResetPassword = lazy(() => import('./pages/ResetPassword'));
+const AuthCallback = lazy(() => import('./pages/AuthCallback'));
+const GuestJoin = lazy(() => import('./pages/GuestJoin'));
 const Home = lazy(() => import('./pages/Home'));
 const CallRoom = lazy(() => import('./pages/CallRoom'));
 const PrivateCall = lazy(() => import('./pages/PrivateCall'));
@@ -54,6 +58,19 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
   return <>{children}</>;
 }
 
+// A call room: signed-in users, or a guest whose invite link was for this room
+function CallRoute({ children }: { children: React.ReactNode }) {
+  const { isAuthenticated, isLoading } = useAuthStore();
+  const guest = useCallStore((state) => state.guest);
+  const { roomId } = useParams<{ roomId: string }>();
+
+  if (!isLoading && !isAuthenticated && guest?.roomId === roomId) {
+    return <>{children}</>;
+  }
+
+  return <ProtectedRoute>{children}</ProtectedRoute>;
+}
+
 function App() {
   const { loadStoredAuth } = useAuthStore();
   useNotifications(); // Set up Socket.IO notification listeners
@@ -77,6 +94,9 @@ function App() {
         <Route path="/login" element={<Login />} />
         <Route path="/register" element={<Register />} />
         <Route path="/forgot-password" element={<ForgotPassword />} />
+        <Route path="/reset-password" element={<ResetPassword />} />
+        <Route path="/auth/callback" element={<AuthCallback />} />
+        <Route path="/join/:roomId" element={<GuestJoin />} />
         <Route
           path="/home"
           element={
@@ -88,11 +108,11 @@ function App() {
         <Route
           path="/call/:roomId"
           element={
-            <ProtectedRoute>
+            <CallRoute>
               <ErrorBoundary>
                 <CallRoom />
               </ErrorBoundary>
-            </ProtectedRoute>
+            </CallRoute>
           }
         />
         <Route
@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import { Sparkles } from 'lucide-react';
+
+interface FeatureUsage {
+  requests: number;
+  credits: number;
+  tokens: number;
+}
+
+interface DailyUsage {
+  day: string;
+  credits: number;
+  requests: number;
+  features: Record<string, FeatureUsage>;
+}
+
+interface UsageReport {
+  credits: {
+    day: string;
+    used: number;
+    limit: number | null;
+    remaining: number | null;
+    resetsAt: string;
+  };
+  history: DailyUsage[];
+}
+
+interface AiUsageProps {
+  apiUrl: string;
+  accessToken: string;
+}
+
+const FEATURE_LABELS: Record<string, string> = {
+  chat: 'AI chat',
+  callCommand: 'In-call AI',
+  notes: 'Live notes',
+  finalSummary: 'Call summaries',
+  comprehensiveNotes: 'Call summaries',
+  matching: 'Network matching',
+  contactContext: 'Contact insights',
+  image: 'Images',
+  transcription: 'Transcription',
+};
+
+const formatCredits = (credits: number) => (credits < 10 ? credits.toFixed(1) : Math.round(credits).toString());
+
+/**
+ * Today's AI credits and what they went on. Everything AI (chat, notes,
+ * images, transcription) draws from one daily budget that resets at
+ * midnight UTC.
+ */
+export default function AiUsage({ apiUrl, accessToken }: AiUsageProps) {
+  const [usage, setUsage] = useState<UsageReport | null>(null);
+
+  useEffect(() => {
+    fetch(`${apiUrl}/api/users/usage?days=1`, {
+      headers: { 'Authorization': `Bearer ${accessToken}` },
+    })
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => { if (data) setUsage(data); })
+      .catch(error => console.error('Error fetching AI usage:', error));
+  }, [apiUrl, accessToken]);
+
+  if (!usage) return null;
+  const { credits } = usage;
+  const today = usage.history.find(entry => entry.day === credits.day);
+
+  // Features sharing a label (the summary kinds) are shown together
+  const byLabel = new Map<string, number>();
+  for (const [feature, entry] of Object.entries(today?.features || {})) {
+    const label = FEATURE_LABELS[feature] || feature;
+    byLabel.set(label, (byLabel.get(label) || 0) + entry.credits);
+  }
+  const breakdown = [...byLabel.entries()].filter(([, spent]) => spent > 0).sort((a, b) => b[1] - a[1]);
+  const percent = credits.limit ? Math.min(100, (credits.used / credits.limit) * 100) : 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-white font-medium">AI usage today</h3>
+        <span className="text-dark-400 text-xs">
+          Resets {new Date(credits.resetsAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </span>
+      </div>
+      <div className="p-3 bg-dark-800/50 rounded-lg space-y-3">
+        <div className="flex items-center space-x-3">
+          <Sparkles className="w-5 h-5 text-primary-400 flex-shrink-0" />
+          <p className="text-white text-sm">
+            {credits.limit === null
+              ? `${formatCredits(credits.used)} credits used (no daily limit)`
+              : `${formatCredits(credits.used)} of ${credits.limit} credits used`}
+          </p>
+        </div>
+        {credits.limit !== null && (
+          <div className="h-2 bg-dark-700 rounded-full overflow-hidden">
+            <div
+              className={`h-full rounded-full ${percent >= 90 ? 'bg-red-500' : percent >= 70 ? 'bg-yellow-500' : 'bg-primary-500'}`}
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+        )}
+        {credits.remaining === 0 && (
+          <p className="text-red-400 text-xs">
+            You've used today's AI credits. AI features are paused until they reset.
+          </p>
+        )}
+        {breakdown.length > 0 && (
+          <div className="space-y-1">
+            {breakdown.map(([label, spent]) => (
+              <div key={label} className="flex items-center justify-between text-xs">
+                <span className="text-dark-400">{label}</span>
+                <span className="text-dark-300">{formatCredits(spent)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
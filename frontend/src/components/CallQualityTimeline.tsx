@@ -0,0 +1,153 @@
+import { useEffect, useState } from 'react';
+import { Activity } from 'lucide-react';
+import { formatCallTime } from '../utils/transcriptTime';
+
+type QualityGrade = 'good' | 'fair' | 'poor';
+
+interface QualityTimelinePoint {
+  offsetMs: number;
+  rttMs: number | null;
+  jitterMs: number | null;
+  packetLossPct: number | null;
+  inboundKbps: number | null;
+  frameHeight: number | null;
+  grade: QualityGrade;
+}
+
+interface ParticipantQuality {
+  userId: string;
+  userName: string;
+  samples: number;
+  avgRttMs: number | null;
+  p95RttMs: number | null;
+  avgJitterMs: number | null;
+  avgPacketLossPct: number | null;
+  maxPacketLossPct: number | null;
+  avgInboundKbps: number | null;
+  bandwidthLimitedPct: number;
+  grade: QualityGrade;
+}
+
+interface CallQuality {
+  bucketMs: number;
+  samples: number;
+  summary: { rttMs: number | null; packetLossPct: number | null; jitterMs: number | null; grade: QualityGrade } | null;
+  timeline: QualityTimelinePoint[];
+  participants: ParticipantQuality[];
+}
+
+interface CallQualityTimelineProps {
+  apiUrl: string;
+  callId: string;
+  accessToken: string;
+  onSeek?: (time: number) => void; // Jump the recording to that moment
+}
+
+const GRADE_STYLES: Record<QualityGrade, { bar: string; badge: string; label: string }> = {
+  good: { bar: 'bg-green-500/70', badge: 'bg-green-500/20 text-green-300', label: 'Good' },
+  fair: { bar: 'bg-yellow-500/70', badge: 'bg-yellow-500/20 text-yellow-300', label: 'Fair' },
+  poor: { bar: 'bg-red-500/70', badge: 'bg-red-500/20 text-red-300', label: 'Poor' },
+};
+
+const show = (value: number | null, unit: string) => (value === null ? '—' : `${Math.round(value)}${unit}`);
+
+/**
+ * How the call went technically: one bar per interval (height is round trip
+ * time, colour the grade from RTT, loss and jitter), then each participant's
+ * averages as they experienced the call.
+ */
+export default function CallQualityTimeline({ apiUrl, callId, accessToken, onSeek }: CallQualityTimelineProps) {
+  const [quality, setQuality] = useState<CallQuality | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`${apiUrl}/api/calls/${callId}/quality`, {
+      headers: { 'Authorization': `Bearer ${accessToken}` },
+    })
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => { if (!cancelled && data) setQuality(data.quality); })
+      .catch(error => console.error('Error fetching call quality:', error));
+    return () => { cancelled = true; };
+  }, [apiUrl, callId, accessToken]);
+
+  if (!quality || quality.samples === 0) return null;
+
+  const maxRtt = Math.max(100, ...quality.timeline.map(p => p.rttMs ?? 0));
+
+  return (
+    <div className="glass-card rounded-xl p-6 animate-fade-in">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-white flex items-center space-x-2">
+          <Activity className="w-5 h-5" />
+          <span>Call Quality</span>
+        </h2>
+        {quality.summary && (
+          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${GRADE_STYLES[quality.summary.grade].badge}`}>
+            {GRADE_STYLES[quality.summary.grade].label}
+          </span>
+        )}
+      </div>
+
+      {/* Timeline */}
+      <div className="flex items-end h-24 gap-px bg-dark-800/50 rounded-lg p-2">
+        {quality.timeline.map(point => (
+          <button
+            key={point.offsetMs}
+            type="button"
+            onClick={onSeek ? () => onSeek(point.offsetMs) : undefined}
+            className={`flex-1 min-w-[2px] rounded-sm ${GRADE_STYLES[point.grade].bar} ${onSeek ? 'hover:opacity-80' : 'cursor-default'}`}
+            style={{ height: `${Math.max(8, ((point.rttMs ?? 0) / maxRtt) * 100)}%` }}
+            title={[
+              formatCallTime(point.offsetMs),
+              `RTT ${show(point.rttMs, ' ms')}`,
+              `loss ${show(point.packetLossPct, '%')}`,
+              `jitter ${show(point.jitterMs, ' ms')}`,
+              point.inboundKbps !== null ? `${Math.round(point.inboundKbps)} kbps in` : null,
+              point.frameHeight ? `${point.frameHeight}p` : null,
+            ].filter(Boolean).join(' · ')}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-dark-500 text-xs mt-1">
+        <span>{formatCallTime(quality.timeline[0]?.offsetMs ?? 0)}</span>
+        <span>Round trip time (peak {Math.round(maxRtt)} ms)</span>
+        <span>{formatCallTime((quality.timeline[quality.timeline.length - 1]?.offsetMs ?? 0) + quality.bucketMs)}</span>
+      </div>
+
+      {/* Per participant */}
+      <div className="mt-4 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-dark-400 text-xs uppercase tracking-wide text-left">
+              <th className="py-2 pr-3 font-medium">Participant</th>
+              <th className="py-2 pr-3 font-medium">RTT (p95)</th>
+              <th className="py-2 pr-3 font-medium">Loss (max)</th>
+              <th className="py-2 pr-3 font-medium">Jitter</th>
+              <th className="py-2 pr-3 font-medium">Bitrate in</th>
+              <th className="py-2 font-medium">Quality</th>
+            </tr>
+          </thead>
+          <tbody>
+            {quality.participants.map(p => (
+              <tr key={p.userId} className="border-t border-dark-700/50 text-dark-200">
+                <td className="py-2 pr-3 text-white">{p.userName}</td>
+                <td className="py-2 pr-3">{show(p.avgRttMs, ' ms')} ({show(p.p95RttMs, ' ms')})</td>
+                <td className="py-2 pr-3">{show(p.avgPacketLossPct, '%')} ({show(p.maxPacketLossPct, '%')})</td>
+                <td className="py-2 pr-3">{show(p.avgJitterMs, ' ms')}</td>
+                <td className="py-2 pr-3">{show(p.avgInboundKbps, ' kbps')}</td>
+                <td className="py-2">
+                  <span
+                    className={`px-2 py-0.5 rounded-full text-xs ${GRADE_STYLES[p.grade].badge}`}
+                    title={p.bandwidthLimitedPct > 0 ? `Video limited by bandwidth ${p.bandwidthLimitedPct}% of the time` : undefined}
+                  >
+                    {GRADE_STYLES[p.grade].label}
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useEffect, useState } from 'react';
+import { Laptop, Loader2, LogOut } from 'lucide-react';
+import { toast } from './Toast';
+
+interface DeviceSession {
+  _id: string;
+  deviceName: string;
+  ip?: string;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+}
+
+interface DeviceSessionsProps {
+  apiUrl: string;
+  accessToken: string;
+}
+
+const timeAgo = (date: string) => {
+  const minutes = Math.round((Date.now() - new Date(date).getTime()) / 60000);
+  if (minutes < 5) return 'Active now';
+  if (minutes < 60) return `${minutes} min ago`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)} h ago`;
+  return new Date(date).toLocaleDateString();
+};
+
+/**
+ * Devices signed in to the account, each with its own session. Signing one
+ * out ends its session right away, including any call it is in.
+ */
+export default function DeviceSessions({ apiUrl, accessToken }: DeviceSessionsProps) {
+  const [sessions, setSessions] = useState<DeviceSession[] | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const load = () =>
+    fetch(`${apiUrl}/api/auth/sessions`, {
+      headers: { 'Authorization': `Bearer ${accessToken}` },
+    })
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => { if (data) setSessions(data.sessions); })
+      .catch(error => console.error('Error fetching sessions:', error));
+
+  useEffect(() => {
+    load();
+  }, [apiUrl, accessToken]);
+
+  const signOut = async (id: string | null) => {
+    setBusy(id || 'others');
+    try {
+      const response = await fetch(`${apiUrl}/api/auth/sessions${id ? `/${id}` : ''}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${accessToken}` },
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || 'Failed to sign out');
+      toast.success('Signed Out', id ? 'That device was signed out' : `${data.revoked} other device${data.revoked === 1 ? '' : 's'} signed out`);
+      await load();
+    } catch (error: any) {
+      toast.error('Error', error.message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (!sessions) return null;
+  const others = sessions.filter(s => !s.current);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-white font-medium">Signed-in devices</h3>
+        {others.length > 0 && (
+          <button
+            onClick={() => signOut(null)}
+            disabled={busy !== null}
+            className="text-sm text-red-400 hover:text-red-300 disabled:opacity-50"
+          >
+            Sign out all other devices
+          </button>
+        )}
+      </div>
+      {sessions.map(session => (
+        <div key={session._id} className="flex items-center justify-between p-3 bg-dark-800/50 rounded-lg">
+          <div className="flex items-center space-x-3 min-w-0">
+            <Laptop className="w-5 h-5 text-dark-400 flex-shrink-0" />
+            <div className="min-w-0">
+              <p className="text-white text-sm truncate">
+                {session.deviceName}
+                {session.current && <span className="ml-2 text-xs text-green-400">This device</span>}
+              </p>
+              <p className="text-dark-400 text-xs">
+                {timeAgo(session.lastUsedAt)}
+                {session.ip ? ` · ${session.ip}` : ''} · Signed in {new Date(session.createdAt).toLocaleDateString()}
+              </p>
+            </div>
+          </div>
+          {!session.current && (
+            <button
+              onClick={() => signOut(session._id)}
+              disabled={busy !== null}
+              title="Sign out this device"
+              className="p-2 text-dark-400 hover:text-red-400 disabled:opacity-50"
+            >
+              {busy === session._id ? <Loader2 className="w-4 h-4 animate-spin" /> : <LogOut className="w-4 h-4" />}
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
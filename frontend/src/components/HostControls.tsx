@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import { FiShield, FiLock, FiUnlock, FiMicOff, FiUserX, FiUserCheck, FiStar, FiX, FiLink } from 'react-icons/fi';
+import { useCallStore, RoomAccessState } from '../store/call';
+import { toast } from './Toast';
+
+const ACCESS_MODES: Array<{ value: RoomAccessState['mode']; label: string }> = [
+  { value: 'open', label: 'Open' },
+  { value: 'lobby', label: 'Waiting room' },
+  { value: 'invite', label: 'Invite only' },
+];
+
+/**
+ * The host's room controls: who is waiting in the lobby, the room's access
+ * mode and lock, mute all, a guest invite link for people without an account,
+ * and removing or handing the call to a participant.
+ * Waiting requests show as a banner even while the panel is closed.
+ */
+export default function HostControls() {
+  const {
+    isHost,
+    roomAccess,
+    lobbyRequests,
+    participants,
+    admitFromLobby,
+    rejectFromLobby,
+    kickParticipant,
+    muteAll,
+    setRoomLocked,
+    setRoomAccessMode,
+    transferHost,
+    createGuestInvite,
+  } = useCallStore();
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  if (!isHost) return null;
+
+  const run = async (action: () => Promise<boolean>) => {
+    setBusy(true);
+    await action();
+    setBusy(false);
+  };
+
+  const copyGuestLink = async () => {
+    const url = await createGuestInvite();
+    if (!url) return false;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success('Guest Link Copied', 'Anyone with the link can join without an account');
+    } catch {
+      window.prompt('Copy this guest link', url);
+    }
+    return true;
+  };
+
+  // One entry per user (a participant may be connected from several tabs)
+  const people = Array.from(new Map(participants.filter(p => p.userId).map(p => [p.userId, p])).values());
+
+  return (
+    <div className="fixed top-20 left-4 z-40 flex flex-col items-start gap-2 max-w-[90vw]">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-dark-900/90 border border-dark-700 text-xs text-dark-300 hover:text-white shadow-lg"
+      >
+        <FiShield size={12} className="flex-shrink-0" />
+        Host controls
+        {roomAccess?.locked && <FiLock size={12} className="text-yellow-400" />}
+        {lobbyRequests.length > 0 && (
+          <span className="px-1.5 rounded-full bg-primary-500 text-white">{lobbyRequests.length}</span>
+        )}
+      </button>
+
+      {/* Waiting room */}
+      {lobbyRequests.map(request => (
+        <div
+          key={request.userId}
+          className="flex items-center gap-2 px-4 py-2 rounded-2xl border bg-dark-900/90 border-dark-700 text-sm shadow-lg backdrop-blur"
+        >
+          <span className="text-white truncate">{request.userName} wants to join</span>
+          <button
+            disabled={busy}
+            onClick={() => run(() => admitFromLobby(request.userId))}
+            className="px-3 py-1 rounded-lg bg-primary-500 hover:bg-primary-600 text-white text-xs font-medium disabled:opacity-50"
+          >
+            Admit
+          </button>
+          <button
+            disabled={busy}
+            onClick={() => run(() => rejectFromLobby(request.userId))}
+            className="px-3 py-1 rounded-lg bg-dark-700 hover:bg-dark-600 text-white text-xs font-medium disabled:opacity-50"
+          >
+            Reject
+          </button>
+        </div>
+      ))}
+
+      {open && (
+        <div className="w-72 rounded-2xl border bg-dark-900/95 border-dark-700 shadow-lg backdrop-blur p-4 space-y-4 text-sm">
+          <div className="flex items-center justify-between">
+            <span className="text-white font-medium">Host controls</span>
+            <button onClick={() => setOpen(false)} className="text-dark-400 hover:text-white">
+              <FiX size={16} />
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-dark-400 text-xs uppercase tracking-wide">Who can join</label>
+            <select
+              value={roomAccess?.mode || 'open'}
+              disabled={busy}
+              onChange={(e) => run(() => setRoomAccessMode(e.target.value as RoomAccessState['mode']))}
+              className="w-full px-3 py-2 rounded-lg bg-dark-800 border border-dark-700 text-white"
+            >
+              {ACCESS_MODES.map(mode => (
+                <option key={mode.value} value={mode.value}>{mode.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              disabled={busy}
+              onClick={() => run(() => setRoomLocked(!roomAccess?.locked))}
+              className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-dark-800 hover:bg-dark-700 text-white disabled:opacity-50"
+            >
+              {roomAccess?.locked ? <FiUnlock size={14} /> : <FiLock size={14} />}
+              {roomAccess?.locked ? 'Unlock' : 'Lock'}
+            </button>
+            <button
+              disabled={busy || people.length === 0}
+              onClick={() => run(muteAll)}
+              className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-dark-800 hover:bg-dark-700 text-white disabled:opacity-50"
+            >
+              <FiMicOff size={14} />
+              Mute all
+            </button>
+          </div>
+
+          <button
+            disabled={busy || roomAccess?.locked}
+            onClick={() => run(copyGuestLink)}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-dark-800 hover:bg-dark-700 text-white disabled:opacity-50"
+          >
+            <FiLink size={14} />
+            Copy guest link
+          </button>
+
+          {people.length > 0 && (
+            <div className="space-y-1">
+              <label className="text-dark-400 text-xs uppercase tracking-wide">Participants</label>
+              {people.map(person => (
+                <div key={person.userId} className="flex items-center gap-2 py-1">
+                  <FiUserCheck size={14} className="text-dark-400 flex-shrink-0" />
+                  <span className="flex-1 text-white truncate">{person.userName}</span>
+                  {/* Guests have no account to host with */}
+                  {!person.userId.startsWith('guest-') && (
+                    <button
+                      disabled={busy}
+                      onClick={() => run(() => transferHost(person.userId))}
+                      title="Make host"
+                      className="p-1.5 rounded-lg hover:bg-dark-700 text-dark-300 hover:text-yellow-400 disabled:opacity-50"
+                    >
+                      <FiStar size={14} />
+                    </button>
+                  )}
+                  <button
+                    disabled={busy}
+                    onClick={() => run(() => kickParticipant(person.userId))}
+                    title="Remove from call"
+                    className="p-1.5 rounded-lg hover:bg-dark-700 text-dark-300 hover:text-red-400 disabled:opacity-50"
+                  >
+                    <FiUserX size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,12 @@
 import { useEffect, useRef, useState } from 'react';
 import { Sparkles, CheckCircle2, Clock, User, Bot, MessageSquare } from 'lucide-react';
+import { formatCallTime } from '../utils/transcriptTime';
 
 interface TranscriptSegment {
   speaker: string;
   speakerId?: string;
   text: string;
-  timestamp: number;
+  timestamp: number; // ms from call start
 }
 
 interface AINotes {
@@ -47,21 +48,6 @@ const getSpeakerColor = (speaker: string, _speakerIndex: number): typeof SPEAKER
   return SPEAKER_COLORS[index];
 };
 
-// Format timestamp to readable time
-const formatTimestamp = (timestamp: number): string => {
-  const date = new Date(timestamp);
-  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
-};
-
-// Calculate relative time from start
-const formatRelativeTime = (timestamp: number, startTime?: number): string => {
-  if (!startTime) return formatTimestamp(timestamp);
-  const seconds = Math.floor((timestamp - startTime) / 1000);
-  const minutes = Math.floor(seconds / 60);
-  const secs = seconds % 60;
-  return `${minutes}:${secs.toString().padStart(2, '0')}`;
-};
-
 export default function LiveTranscriptDisplay({
   transcript,
   aiNotes,
@@ -72,7 +58,6 @@ export default function LiveTranscriptDisplay({
   const transcriptEndRef = useRef<HTMLDivElement>(null);
   const aiNotesEndRef = useRef<HTMLDivElement>(null);
   const [speakerMap, setSpeakerMap] = useState<Map<string, number>>(new Map());
-  const [startTime, setStartTime] = useState<number | null>(null);
   const [lastHighlightedIndex, setLastHighlightedIndex] = useState<number>(-1);
 
   // Track unique speakers and assign colors
@@ -84,12 +69,7 @@ export default function LiveTranscriptDisplay({
       }
     });
     setSpeakerMap(newSpeakerMap);
-    
-    // Set start time from first transcript entry
-    if (transcript.length > 0 && !startTime) {
-      setStartTime(transcript[0].timestamp);
-    }
-  }, [transcript, startTime]);
+  }, [transcript]);
 
   // Auto-scroll transcript to bottom when new entries arrive
   useEffect(() => {
@@ -131,10 +111,10 @@ export default function LiveTranscriptDisplay({
                 {transcript.length} entries
               </span>
             </div>
-            {startTime && (
+            {transcript.length > 0 && (
               <div className="flex items-center space-x-1 text-dark-400 text-xs">
                 <Clock className="w-3 h-3" />
-                <span>Started {formatTimestamp(startTime)}</span>
+                <span>First words at {formatCallTime(transcript[0].timestamp)}</span>
               </div>
             )}
           </div>
@@ -195,9 +175,7 @@ export default function LiveTranscriptDisplay({
                         </div>
                         <div className="flex items-center space-x-2 text-dark-400 text-xs">
                           <Clock className="w-3 h-3" />
-                          <span>{formatRelativeTime(segment.timestamp, startTime || undefined)}</span>
-                          <span className="text-dark-600">•</span>
-                          <span>{formatTimestamp(segment.timestamp)}</span>
+                          <span>{formatCallTime(segment.timestamp)}</span>
                         </div>
                       </div>
 
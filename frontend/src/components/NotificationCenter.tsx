@@ -1,13 +1,17 @@
 import { useEffect, useRef } from 'react';
-import { Bell, X, Check, CheckCheck, Trash2, Phone, MessageSquare, Sparkles, FileVideo, UserPlus } from 'lucide-react';
+import { Bell, X, Check, CheckCheck, Trash2, Phone, PhoneMissed, PhoneOff, MessageSquare, Sparkles, FileVideo, UserPlus } from 'lucide-react';
 import { useNotificationStore, Notification, NotificationType } from '../store/notifications';
 import { useNavigate } from 'react-router-dom';
 
 const typeIcons: Record<NotificationType, typeof Phone> = {
   incoming_call: Phone,
+  missed_call: PhoneMissed,
+  friend_request: UserPlus,
+  friend_accepted: UserPlus,
   new_message: MessageSquare,
   ai_insight: Sparkles,
   call_recording_ready: FileVideo,
+  blocked_call_attempt: PhoneOff,
   friend_joined: UserPlus,
   info: MessageSquare,
   success: Check,
@@ -7,12 +7,12 @@ import { useNavigate } from 'react-router-dom';
 
 export default function NotificationSystem() {
   const navigate = useNavigate();
-  const { notifications, removeNotification } = useNotificationStore();
+  const { notifications, dismissToast } = useNotificationStore();
   const toastContainerRef = useRef<HTMLDivElement>(null);
 
   // Show only unread notifications as toasts (max 3 at a time)
   const unreadToasts = notifications
-    .filter(n => !n.read)
+    .filter(n => !n.read && n.toast !== false)
     .slice(0, 3)
     .reverse(); // Show newest first
 
@@ -27,6 +27,8 @@ export default function NotificationSystem() {
         navigate(`/friends/chat/${notification.metadata.conversationId}`);
       } else if (notification.type === 'call_recording_ready' && notification.metadata.callId) {
         navigate(`/call-detail/${notification.metadata.callId}`);
+      } else if (notification.type === 'missed_call' && notification.metadata.conversationId) {
+        navigate(`/friends/chat/${notification.metadata.conversationId}`);
       } else if (notification.type === 'ai_insight' && notification.metadata.callId) {
         navigate(`/call-detail/${notification.metadata.callId}`);
       }
@@ -46,12 +48,12 @@ export default function NotificationSystem() {
             {notification.type === 'incoming_call' ? (
               <IncomingCallToast
                 notification={notification}
-                onDismiss={removeNotification}
+                onDismiss={dismissToast}
               />
             ) : (
               <ToastNotification
                 notification={notification}
-                onDismiss={removeNotification}
+                onDismiss={dismissToast}
                 onClick={handleNotificationClick}
               />
             )}
@@ -11,8 +11,10 @@ import {
   Loader2,
 } from 'lucide-react';
 import { useAuthStore } from '../store/auth';
+import { keepSocketAuthenticated } from '../utils/socketAuth';
 import { useCallStore } from '../store/call';
 import { toast } from './Toast';
+import { uploadFile } from '../utils/chunkedUpload';
 
 const getApiUrl = () => {
   if (import.meta.env.VITE_API_URL) {
@@ -149,6 +151,7 @@ export default function PrivateChatOverlay({
       },
       transports: ['websocket', 'polling'],
     });
+    const stopSocketAuth = keepSocketAuthenticated(socket);
 
     socket.on('connect', () => {
       socket.emit('conversation:join', conversationId);
@@ -175,6 +178,7 @@ export default function PrivateChatOverlay({
     socketRef.current = socket;
 
     return () => {
+      stopSocketAuth();
       socket.off('message:new', handleNewMessage);
       socket.emit('conversation:leave', conversationId);
       socket.disconnect();
@@ -292,21 +296,9 @@ export default function PrivateChatOverlay({
     
     for (const file of selectedFiles) {
       try {
-        const formData = new FormData();
-        formData.append('file', file);
-        
-        const response = await fetch(`${API_URL}/api/messages/upload`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-          },
-          body: formData,
-        });
-        
-        if (response.ok) {
-          const data = await response.json();
-          uploadedUrls.push(`${API_URL}${data.url}`);
-        }
+        // Sent in resumable chunks
+        const data = await uploadFile(API_URL, accessToken, file);
+        uploadedUrls.push(`${API_URL}${data.url}`);
       } catch (error) {
         console.error('File upload error:', error);
       }
@@ -0,0 +1,88 @@
+import { useEffect, useState } from 'react';
+import { Building2, Loader2 } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { useAuthStore } from '../store/auth';
+
+const getApiUrl = () => {
+  if (import.meta.env.VITE_API_URL) {
+    return import.meta.env.VITE_API_URL;
+  }
+  if (import.meta.env.PROD) {
+    return window.location.origin;
+  }
+  return 'http://localhost:3001';
+};
+
+const API_URL = getApiUrl();
+
+interface SsoProvider {
+  id: string;
+  name: string;
+}
+
+interface SsoButtonsProps {
+  label: string;
+  onError: (message: string) => void;
+}
+
+/**
+ * Sign-in buttons for the single sign-on providers the server has
+ * configured; nothing at all when there are none.
+ */
+export default function SsoButtons({ label, onError }: SsoButtonsProps) {
+  const { startSso } = useAuthStore();
+  const [providers, setProviders] = useState<SsoProvider[]>([]);
+  const [starting, setStarting] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`${API_URL}/api/auth/oidc/providers`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => { if (data) setProviders(data.providers); })
+      .catch(error => console.error('Error fetching sign-in providers:', error));
+  }, []);
+
+  const handleClick = async (providerId: string) => {
+    setStarting(providerId);
+    try {
+      await startSso(providerId);
+    } catch (err: any) {
+      onError(err.message || 'Single sign-on is unavailable');
+      setStarting(null);
+    }
+  };
+
+  if (providers.length === 0) return null;
+
+  return (
+    <>
+      {/* Divider */}
+      <div className="relative my-6">
+        <div className="absolute inset-0 flex items-center">
+          <div className="w-full border-t border-dark-700" />
+        </div>
+        <div className="relative flex justify-center text-sm">
+          <span className="px-4 bg-dark-900/50 text-dark-500">{label}</span>
+        </div>
+      </div>
+
+      <div className={`grid gap-3 ${providers.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+        {providers.map(provider => (
+          <motion.button
+            key={provider.id}
+            type="button"
+            onClick={() => handleClick(provider.id)}
+            disabled={starting !== null}
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            className="flex items-center justify-center gap-2 h-12 md:h-14 bg-dark-800/50 border border-dark-700 rounded-xl text-white hover:bg-dark-800 disabled:opacity-50 transition group overflow-hidden"
+          >
+            {starting === provider.id
+              ? <Loader2 className="w-5 h-5 animate-spin flex-shrink-0" />
+              : <Building2 className="w-5 h-5 flex-shrink-0" />}
+            <span className="text-sm font-medium group-hover:text-white transition truncate">{provider.name}</span>
+          </motion.button>
+        ))}
+      </div>
+    </>
+  );
+}
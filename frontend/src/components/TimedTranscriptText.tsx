@@ -0,0 +1,65 @@
+import { useEffect, useRef } from 'react';
+import type { TimedSegment } from '../utils/transcriptTime';
+
+interface TimedTranscriptTextProps {
+  segment: TimedSegment & { text: string };
+  isActive: boolean; // The recording is playing this segment
+  activeWord: number | null;
+  onSeek?: (time: number) => void;
+  className?: string;
+}
+
+/**
+ * A transcript segment's text, word by word when word timings exist.
+ * Clicking a word (or the text, without timings) seeks the recording there;
+ * the word being played is highlighted.
+ */
+export default function TimedTranscriptText({
+  segment,
+  isActive,
+  activeWord,
+  onSeek,
+  className = '',
+}: TimedTranscriptTextProps) {
+  const ref = useRef<HTMLParagraphElement>(null);
+
+  // Follow playback through long transcripts
+  useEffect(() => {
+    if (isActive) {
+      ref.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, [isActive]);
+
+  const words = segment.words || [];
+
+  if (words.length === 0) {
+    return (
+      <p
+        ref={ref}
+        onClick={onSeek ? () => onSeek(segment.timestamp) : undefined}
+        className={`${className} ${onSeek ? 'cursor-pointer hover:text-white' : ''} ${isActive ? 'text-white bg-primary-500/10 rounded' : ''}`}
+        title={onSeek ? 'Play from here' : undefined}
+      >
+        {segment.text}
+      </p>
+    );
+  }
+
+  return (
+    <p ref={ref} className={className}>
+      {words.map((word, i) => (
+        <span key={i}>
+          <span
+            onClick={onSeek ? () => onSeek(word.start) : undefined}
+            className={`rounded px-0.5 -mx-0.5 transition-colors ${
+              onSeek ? 'cursor-pointer hover:bg-dark-700/60' : ''
+            } ${isActive && activeWord === i ? 'bg-primary-500/40 text-white' : ''}`}
+          >
+            {word.text}
+          </span>
+          {i < words.length - 1 && ' '}
+        </span>
+      ))}
+    </p>
+  );
+}
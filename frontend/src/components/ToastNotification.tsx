@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react';
-import { X, Phone, MessageSquare, Sparkles, FileVideo, UserPlus, CheckCircle, AlertCircle, Info, AlertTriangle } from 'lucide-react';
+import { X, Phone, PhoneMissed, PhoneOff, MessageSquare, Sparkles, FileVideo, UserPlus, CheckCircle, AlertCircle, Info, AlertTriangle } from 'lucide-react';
 import { Notification, NotificationType } from '../store/notifications';
 import { soundManager } from '../utils/sounds';
 
@@ -11,9 +11,13 @@ interface ToastNotificationProps {
 
 const iconMap: Record<NotificationType, typeof Phone> = {
   incoming_call: Phone,
+  missed_call: PhoneMissed,
+  friend_request: UserPlus,
+  friend_accepted: UserPlus,
   new_message: MessageSquare,
   ai_insight: Sparkles,
   call_recording_ready: FileVideo,
+  blocked_call_attempt: PhoneOff,
   friend_joined: UserPlus,
   info: Info,
   success: CheckCircle,
@@ -23,9 +27,13 @@ const iconMap: Record<NotificationType, typeof Phone> = {
 
 const colorMap: Record<NotificationType, string> = {
   incoming_call: 'bg-primary-500/20 border-primary-500/40 text-primary-300',
+  missed_call: 'bg-red-500/20 border-red-500/40 text-red-300',
+  friend_request: 'bg-cyan-500/20 border-cyan-500/40 text-cyan-300',
+  friend_accepted: 'bg-cyan-500/20 border-cyan-500/40 text-cyan-300',
   new_message: 'bg-blue-500/20 border-blue-500/40 text-blue-300',
   ai_insight: 'bg-purple-500/20 border-purple-500/40 text-purple-300',
   call_recording_ready: 'bg-green-500/20 border-green-500/40 text-green-300',
+  blocked_call_attempt: 'bg-dark-800/90 border-dark-700 text-dark-300',
   friend_joined: 'bg-cyan-500/20 border-cyan-500/40 text-cyan-300',
   info: 'bg-dark-800/90 border-dark-700 text-white',
   success: 'bg-green-500/20 border-green-500/40 text-green-300',
@@ -1,11 +1,16 @@
 import { X, Download, Search, ChevronUp, ChevronDown } from 'lucide-react';
 import { useState, useMemo } from 'react';
+import TimedTranscriptText from './TimedTranscriptText';
+import { useRecordingPlayback } from '../hooks/useRecordingPlayback';
+import { findPlaybackPosition, formatCallTime, TimedWord } from '../utils/transcriptTime';
 
 interface TranscriptSegment {
   speaker: string;
   speakerId?: string;
   text: string;
-  timestamp: number;
+  timestamp: number; // ms from call start
+  endTimestamp?: number | null;
+  words?: TimedWord[];
 }
 
 interface TranscriptViewerProps {
@@ -16,6 +21,8 @@ interface TranscriptViewerProps {
   isOpen: boolean;
   onClose: () => void;
   callTitle?: string;
+  recordingUrl?: string; // Plays alongside the transcript when set
+  recordingOffsetMs?: number | null;
 }
 
 export default function TranscriptViewer({
@@ -23,9 +30,20 @@ export default function TranscriptViewer({
   isOpen,
   onClose,
   callTitle = 'Call Transcript',
+  recordingUrl,
+  recordingOffsetMs,
 }: TranscriptViewerProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [expandedSegments, setExpandedSegments] = useState<Set<number>>(new Set());
+  const playback = useRecordingPlayback(isOpen ? recordingUrl : undefined, recordingOffsetMs || 0);
+
+  const playbackPosition = useMemo(
+    () => (transcript?.segments && playback.callTime !== null
+      ? findPlaybackPosition(transcript.segments, playback.callTime)
+      : null),
+    [transcript, playback.callTime]
+  );
+  const seekTo = recordingUrl ? playback.seek : undefined;
 
   const filteredSegments = useMemo(() => {
     if (!transcript?.segments) return [];
@@ -59,12 +77,7 @@ export default function TranscriptViewer({
 
     if (transcript.segments && transcript.segments.length > 0) {
       transcript.segments.forEach((seg) => {
-        const time = new Date(seg.timestamp).toLocaleTimeString([], {
-          hour: '2-digit',
-          minute: '2-digit',
-          second: '2-digit',
-        });
-        transcriptText += `[${time}] ${seg.speaker}: ${seg.text}\n\n`;
+        transcriptText += `[${formatCallTime(seg.timestamp)}] ${seg.speaker}: ${seg.text}\n\n`;
       });
     } else if (transcript.fullText) {
       transcriptText += transcript.fullText;
@@ -116,6 +129,19 @@ export default function TranscriptViewer({
             </div>
           </div>
 
+          {/* Recording */}
+          {recordingUrl && (
+            <div className="mb-4">
+              {playback.error ? (
+                <p className="text-red-400 text-sm">{playback.error}</p>
+              ) : playback.loading ? (
+                <p className="text-dark-400 text-sm">Loading recording...</p>
+              ) : (
+                <video {...playback.mediaProps} controls preload="metadata" className="w-full max-h-48 rounded-lg bg-black" />
+              )}
+            </div>
+          )}
+
           {/* Search Bar */}
           <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-dark-400" />
@@ -142,13 +168,16 @@ export default function TranscriptViewer({
             <div className="space-y-3">
               {filteredSegments.map((segment) => {
                 const originalIndex = transcript.segments!.indexOf(segment);
-                const isExpanded = expandedSegments.has(originalIndex);
+                const isActive = playbackPosition?.segment === originalIndex;
+                const isExpanded = expandedSegments.has(originalIndex) || isActive;
                 const isLong = segment.text.length > 200;
 
                 return (
                   <div
                     key={originalIndex}
-                    className="glass-card rounded-xl p-4 border border-dark-800/50 hover:border-primary-500/30 transition animate-fade-in"
+                    className={`glass-card rounded-xl p-4 border ${
+                      isActive ? 'border-primary-500/60' : 'border-dark-800/50'
+                    } hover:border-primary-500/30 transition animate-fade-in`}
                   >
                     <div className="flex items-start justify-between mb-2">
                       <div className="flex items-center space-x-2">
@@ -159,13 +188,14 @@ export default function TranscriptViewer({
                         </div>
                         <div>
                           <p className="text-primary-400 font-semibold text-sm">{segment.speaker}</p>
-                          <p className="text-dark-400 text-xs">
-                            {new Date(segment.timestamp).toLocaleTimeString([], {
-                              hour: '2-digit',
-                              minute: '2-digit',
-                              second: '2-digit',
-                            })}
-                          </p>
+                          <button
+                            onClick={seekTo ? () => seekTo(segment.timestamp) : undefined}
+                            disabled={!seekTo}
+                            className="text-dark-400 text-xs enabled:hover:text-primary-400"
+                            title={seekTo ? 'Play from here' : undefined}
+                          >
+                            {formatCallTime(segment.timestamp)}
+                          </button>
                         </div>
                       </div>
                       {isLong && (
@@ -181,9 +211,13 @@ export default function TranscriptViewer({
                         </button>
                       )}
                     </div>
-                    <p className={`text-white text-sm leading-relaxed ${isLong && !isExpanded ? 'line-clamp-3' : ''}`}>
-                      {segment.text}
-                    </p>
+                    <TimedTranscriptText
+                      segment={segment}
+                      isActive={isActive}
+                      activeWord={isActive ? playbackPosition!.word : null}
+                      onSeek={seekTo}
+                      className={`text-white text-sm leading-relaxed ${isLong && !isExpanded ? 'line-clamp-3' : ''}`}
+                    />
                   </div>
                 );
               })}
@@ -0,0 +1,268 @@
+import { useEffect, useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { ShieldCheck, ShieldOff, Loader2, Copy, KeyRound } from 'lucide-react';
+import { toast } from './Toast';
+
+interface MfaStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  passwordRequired: boolean; // false for accounts made through single sign-on
+}
+
+interface TwoFactorSettingsProps {
+  apiUrl: string;
+  accessToken: string;
+  onChange?: (enabled: boolean) => void;
+}
+
+type Step =
+  | { name: 'idle' }
+  | { name: 'enroll'; secret: string; otpauthUrl: string }
+  | { name: 'codes'; codes: string[] }
+  | { name: 'reauth'; action: 'disable' | 'recovery-codes' };
+
+const inputClass =
+  'w-full px-4 py-2 bg-dark-800 border border-dark-700 rounded-lg text-white placeholder-dark-500 focus:outline-none focus:border-primary-500';
+
+/**
+ * Authenticator-app 2FA: enrolling shows a QR code to scan and asks for the
+ * first code before turning it on, then the recovery codes (shown once).
+ * Turning it off or replacing the recovery codes asks for the password and
+ * a current code again (just the code on accounts without a password).
+ */
+export default function TwoFactorSettings({ apiUrl, accessToken, onChange }: TwoFactorSettingsProps) {
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [step, setStep] = useState<Step>({ name: 'idle' });
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    fetch(`${apiUrl}/api/auth/mfa`, {
+      headers: { 'Authorization': `Bearer ${accessToken}` },
+    })
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => { if (data) setStatus(data); })
+      .catch(error => console.error('Error fetching 2FA status:', error));
+  }, [apiUrl, accessToken]);
+
+  const request = async (path: string, body: object = {}) => {
+    const response = await fetch(`${apiUrl}/api/auth/mfa${path}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data.error || 'Request failed');
+    return data;
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error: any) {
+      toast.error('Two-Factor Authentication', error.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const reset = () => {
+    setStep({ name: 'idle' });
+    setCode('');
+    setPassword('');
+    setUseRecoveryCode(false);
+  };
+
+  const startSetup = () => run(async () => {
+    const data = await request('/setup');
+    setCode('');
+    setStep({ name: 'enroll', secret: data.secret, otpauthUrl: data.otpauthUrl });
+  });
+
+  const confirmSetup = () => run(async () => {
+    const data = await request('/enable', { code: code.trim() });
+    setStatus(data);
+    setCode('');
+    setStep({ name: 'codes', codes: data.recoveryCodes });
+    onChange?.(true);
+    toast.success('Two-Factor Authentication', 'Turned on');
+  });
+
+  const confirmReauth = (action: 'disable' | 'recovery-codes') => run(async () => {
+    const proof = useRecoveryCode ? { recoveryCode: code.trim() } : { code: code.trim() };
+    const data = await request(`/${action}`, { password, ...proof });
+    setStatus(data);
+    reset();
+    if (action === 'disable') {
+      onChange?.(false);
+      toast.success('Two-Factor Authentication', 'Turned off');
+    } else {
+      setStep({ name: 'codes', codes: data.recoveryCodes });
+    }
+  });
+
+  const copyCodes = (codes: string[]) => {
+    navigator.clipboard.writeText(codes.join('\n'))
+      .then(() => toast.success('Copied', 'Recovery codes copied to clipboard'))
+      .catch(() => toast.error('Error', 'Could not copy to clipboard'));
+  };
+
+  if (!status) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          {status.enabled
+            ? <ShieldCheck className="w-5 h-5 text-green-400" />
+            : <ShieldOff className="w-5 h-5 text-dark-400" />}
+          <div>
+            <h3 className="text-white font-medium">Two-factor authentication</h3>
+            <p className="text-dark-400 text-xs">
+              {status.enabled
+                ? `On · ${status.recoveryCodesRemaining} recovery code${status.recoveryCodesRemaining === 1 ? '' : 's'} left`
+                : 'Ask for a code from an authenticator app when signing in'}
+            </p>
+          </div>
+        </div>
+        {step.name === 'idle' && (
+          status.enabled ? (
+            <div className="flex items-center space-x-3 text-sm">
+              <button onClick={() => setStep({ name: 'reauth', action: 'recovery-codes' })} className="text-primary-400 hover:text-primary-300">
+                New recovery codes
+              </button>
+              <button onClick={() => setStep({ name: 'reauth', action: 'disable' })} className="text-red-400 hover:text-red-300">
+                Turn off
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={startSetup}
+              disabled={busy}
+              className="px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white text-sm rounded-lg disabled:opacity-50"
+            >
+              {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Turn on'}
+            </button>
+          )
+        )}
+      </div>
+
+      {step.name === 'enroll' && (
+        <div className="p-4 bg-dark-800/50 rounded-lg space-y-4">
+          <p className="text-dark-300 text-sm">
+            Scan this QR code with your authenticator app (Google Authenticator, 1Password, Authy...), then enter the code it shows.
+          </p>
+          <div className="flex justify-center">
+            <div className="p-3 bg-white rounded-lg">
+              <QRCodeSVG value={step.otpauthUrl} size={160} />
+            </div>
+          </div>
+          <p className="text-dark-400 text-xs text-center">
+            Can't scan it? Enter this key instead: <span className="font-mono text-dark-200 break-all">{step.secret}</span>
+          </p>
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={6}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="6-digit code"
+            className={`${inputClass} text-center font-mono tracking-widest`}
+          />
+          <div className="flex space-x-3">
+            <button onClick={reset} className="flex-1 px-4 py-2 bg-dark-700 hover:bg-dark-600 text-white text-sm rounded-lg">
+              Cancel
+            </button>
+            <button
+              onClick={confirmSetup}
+              disabled={busy || code.trim().length !== 6}
+              className="flex-1 px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white text-sm rounded-lg disabled:opacity-50"
+            >
+              Verify and turn on
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step.name === 'codes' && (
+        <div className="p-4 bg-dark-800/50 rounded-lg space-y-4">
+          <div className="flex items-center space-x-2 text-yellow-300 text-sm">
+            <KeyRound className="w-4 h-4 flex-shrink-0" />
+            <span>Save these recovery codes somewhere safe. Each works once, and they won't be shown again.</span>
+          </div>
+          <div className="grid grid-cols-2 gap-2 font-mono text-sm text-white">
+            {step.codes.map(recoveryCode => <span key={recoveryCode}>{recoveryCode}</span>)}
+          </div>
+          <div className="flex space-x-3">
+            <button
+              onClick={() => copyCodes(step.codes)}
+              className="flex-1 flex items-center justify-center space-x-2 px-4 py-2 bg-dark-700 hover:bg-dark-600 text-white text-sm rounded-lg"
+            >
+              <Copy className="w-4 h-4" />
+              <span>Copy</span>
+            </button>
+            <button onClick={reset} className="flex-1 px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white text-sm rounded-lg">
+              I saved them
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step.name === 'reauth' && (
+        <div className="p-4 bg-dark-800/50 rounded-lg space-y-3">
+          <p className="text-dark-300 text-sm">
+            {step.action === 'disable'
+              ? 'Confirm it is you to turn off two-factor authentication.'
+              : 'Confirm it is you to replace your recovery codes. The old ones stop working.'}
+          </p>
+          {status.passwordRequired && (
+            <input
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password"
+              className={inputClass}
+            />
+          )}
+          <input
+            type="text"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder={useRecoveryCode ? 'Recovery code' : '6-digit code'}
+            className={`${inputClass} font-mono`}
+          />
+          <button
+            onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+            className="text-xs text-primary-400 hover:text-primary-300"
+          >
+            {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+          </button>
+          <div className="flex space-x-3">
+            <button onClick={reset} className="flex-1 px-4 py-2 bg-dark-700 hover:bg-dark-600 text-white text-sm rounded-lg">
+              Cancel
+            </button>
+            <button
+              onClick={() => confirmReauth(step.action)}
+              disabled={busy || (status.passwordRequired && !password) || !code.trim()}
+              className={`flex-1 px-4 py-2 text-white text-sm rounded-lg disabled:opacity-50 ${
+                step.action === 'disable' ? 'bg-red-500 hover:bg-red-600' : 'bg-primary-500 hover:bg-primary-600'
+              }`}
+            >
+              {step.action === 'disable' ? 'Turn off' : 'Replace codes'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import { useEffect } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { useAuthStore } from '../store/auth';
-import { useNotificationStore } from '../store/notifications';
+import { keepSocketAuthenticated } from '../utils/socketAuth';
+import { useNotificationStore, ServerNotification } from '../store/notifications';
 
 const getSocketUrl = () => {
   if (import.meta.env.VITE_SOCKET_URL) {
@@ -20,11 +21,20 @@ const SOCKET_URL = getSocketUrl();
  */
 export function useNotifications() {
   const { accessToken, user } = useAuthStore();
-  const { addNotification } = useNotificationStore();
+  const {
+    addNotification,
+    loadInbox,
+    receiveServerNotification,
+    applyRemoteRead,
+    applyRemoteDelete,
+  } = useNotificationStore();
 
   useEffect(() => {
     if (!accessToken || !user) return;
 
+    // Hydrate the persisted inbox (missed calls, AI insights, friend requests, ...)
+    loadInbox();
+
     const socket: Socket = io(SOCKET_URL, {
       auth: {
         token: accessToken,
@@ -32,6 +42,7 @@ export function useNotifications() {
       },
       transports: ['websocket', 'polling'],
     });
+    const stopSocketAuth = keepSocketAuthenticated(socket);
 
     // NOTE: Incoming call notifications are handled by GlobalCallHandler component
     // to avoid duplicate notifications. This hook only handles other notification types.
@@ -59,44 +70,18 @@ export function useNotifications() {
       }
     });
 
-    // AI insight available
-    socket.on('ai:insight:ready', (data: {
-      callId: string;
-      conversationId?: string;
-      summary?: string;
-    }) => {
-      addNotification({
-        type: 'ai_insight',
-        title: 'AI Insights Available',
-        message: data.summary || 'AI generated notes from your last call',
-        metadata: {
-          callId: data.callId,
-          conversationId: data.conversationId,
-        },
-        actionUrl: data.callId ? `/call-detail/${data.callId}` : undefined,
-        duration: 8000,
-        sound: true,
-      });
+    // Persisted inbox notifications - pushed to every open tab/device
+    socket.on('notification:new', (notification: ServerNotification) => {
+      receiveServerNotification(notification);
     });
 
-    // Call recording ready
-    socket.on('call:recording:ready', (data: {
-      callId: string;
-      recordingUrl: string;
-      duration?: number;
-    }) => {
-      addNotification({
-        type: 'call_recording_ready',
-        title: 'Call Recording Ready',
-        message: `Your call recording is ready to view`,
-        metadata: {
-          callId: data.callId,
-          recordingUrl: data.recordingUrl,
-        },
-        actionUrl: data.callId ? `/call-detail/${data.callId}` : undefined,
-        duration: 10000,
-        sound: true,
-      });
+    // Read/delete state changed on another tab or device
+    socket.on('notification:read', applyRemoteRead);
+    socket.on('notification:deleted', applyRemoteDelete);
+
+    // Re-sync anything missed while disconnected
+    socket.io.on('reconnect', () => {
+      loadInbox();
     });
 
     // Friend joined chat
@@ -121,8 +106,9 @@ export function useNotifications() {
     });
 
     return () => {
+      stopSocketAuth();
       socket.disconnect();
     };
-  }, [accessToken, user, addNotification]);
+  }, [accessToken, user, addNotification, loadInbox, receiveServerNotification, applyRemoteRead, applyRemoteDelete]);
 }
 
@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAuthStore } from '../store/auth';
+
+// Use relative URL in production (when served from backend), absolute URL in development
+const getApiUrl = () => {
+  if (import.meta.env.VITE_API_URL) {
+    return import.meta.env.VITE_API_URL;
+  }
+  if (import.meta.env.PROD) {
+    return window.location.origin;
+  }
+  return 'http://localhost:3001';
+};
+
+const API_URL = getApiUrl();
+
+/**
+ * Hook to play a call recording in step with its transcript.
+ * The stream endpoint needs the bearer token, so the recording is fetched
+ * once and played from a blob URL. `callTime` is the playback position in
+ * call time (ms from call start), for matching against transcript timestamps.
+ */
+export function useRecordingPlayback(recordingUrl?: string, recordingOffsetMs = 0) {
+  const { accessToken } = useAuthStore();
+  const mediaRef = useRef<HTMLVideoElement | null>(null);
+  const [src, setSrc] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [callTime, setCallTime] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!recordingUrl || !accessToken) return;
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    fetch(`${API_URL}${recordingUrl}`, {
+      headers: { 'Authorization': `Bearer ${accessToken}` },
+    })
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(response.status === 404 ? 'Recording not found' : 'Failed to load recording');
+        }
+        const blob = await response.blob();
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setSrc(objectUrl);
+      })
+      .catch((err) => {
+        console.error('[RECORDING] Load error:', err);
+        if (!cancelled) setError(err.message || 'Failed to load recording');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setSrc(null);
+      setCallTime(null);
+    };
+  }, [recordingUrl, accessToken]);
+
+  const syncTime = useCallback(() => {
+    const media = mediaRef.current;
+    if (media) {
+      setCallTime(Math.round(media.currentTime * 1000) + recordingOffsetMs);
+    }
+  }, [recordingOffsetMs]);
+
+  // timeupdate only fires a few times a second, too coarse for word highlighting
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = requestAnimationFrame(function tick() {
+      syncTime();
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, syncTime]);
+
+  // Jump to a point in call time and keep playing from there
+  const seek = useCallback((time: number) => {
+    const media = mediaRef.current;
+    if (!media) return;
+    media.currentTime = Math.max(0, (time - recordingOffsetMs) / 1000);
+    syncTime();
+    media.play().catch(() => {});
+  }, [recordingOffsetMs, syncTime]);
+
+  const togglePlay = useCallback(() => {
+    const media = mediaRef.current;
+    if (!media) return;
+    if (media.paused) {
+      media.play().catch(() => {});
+    } else {
+      media.pause();
+    }
+  }, []);
+
+  // Spread onto the <video>/<audio> element
+  const mediaProps = {
+    ref: mediaRef,
+    src: src || undefined,
+    onPlay: () => setIsPlaying(true),
+    onPause: () => setIsPlaying(false),
+    onEnded: () => setIsPlaying(false),
+    onSeeked: syncTime,
+    onTimeUpdate: syncTime,
+  };
+
+  return { mediaProps, loading, error, isPlaying, callTime, seek, togglePlay };
+}
@@ -5,6 +5,7 @@ import AIMessageBubble from '../components/AIMessageBubble';
 import HumanMessageBubble from '../components/HumanMessageBubble';
 import AITypingIndicator from '../components/AITypingIndicator';
 import { toast } from '../components/Toast';
+import { rateLimitMessage } from '../utils/errorHandler';
 
 const getApiUrl = () => {
   if (import.meta.env.VITE_API_URL) {
@@ -121,6 +122,9 @@ export default function AIChat() {
         signal: abortControllerRef.current.signal,
       });
 
+      if (response.status === 429) {
+        throw new Error(await rateLimitMessage(response));
+      }
       if (!response.ok) {
         throw new Error('Failed to send message');
       }
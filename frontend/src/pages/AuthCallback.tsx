@@ -0,0 +1,82 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Loader2, AlertCircle, ArrowLeft } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { useAuthStore } from '../store/auth';
+
+// Where single sign-on providers send the browser back with `code` and `state`
+export default function AuthCallback() {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { completeSso } = useAuthStore();
+  const [error, setError] = useState('');
+  const handled = useRef(false);
+
+  useEffect(() => {
+    // The code works once; don't spend it twice in StrictMode
+    if (handled.current) return;
+    handled.current = true;
+
+    const providerError = searchParams.get('error');
+    const code = searchParams.get('code');
+    const state = searchParams.get('state');
+    if (providerError) {
+      setError(searchParams.get('error_description') || 'Sign-in was cancelled or denied by the provider.');
+      return;
+    }
+    if (!code || !state) {
+      setError('This sign-in link is incomplete. Please try again.');
+      return;
+    }
+
+    completeSso(code, state)
+      .then(({ mfaRequired, redirectTo }) => {
+        // Two-factor accounts enter their code on the login page
+        navigate(mfaRequired ? '/login' : redirectTo || '/home', { replace: true });
+      })
+      .catch((err: any) => setError(err.message || 'Single sign-on failed'));
+  }, [searchParams, completeSso, navigate]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-dark-950 via-dark-900 to-dark-950 relative overflow-hidden">
+      {/* Animated gradient background */}
+      <div className="absolute inset-0 overflow-hidden">
+        <div className="absolute -top-40 -right-40 w-80 h-80 bg-primary-500/20 rounded-full blur-3xl animate-pulse-slow" />
+        <div className="absolute -bottom-40 -left-40 w-80 h-80 bg-purple-500/20 rounded-full blur-3xl animate-pulse-slow" style={{ animationDelay: '1s' }} />
+      </div>
+
+      <div className="relative z-10 min-h-screen flex items-center justify-center px-4 py-12">
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          transition={{ duration: 0.5 }}
+          className="w-full max-w-md"
+        >
+          <div className="glass-card rounded-3xl p-8 md:p-10 border border-white/10 shadow-2xl backdrop-blur-xl text-center">
+            {error ? (
+              <>
+                <div className="w-20 h-20 bg-red-500/20 rounded-full flex items-center justify-center mx-auto mb-6">
+                  <AlertCircle className="w-10 h-10 text-red-400" />
+                </div>
+                <h2 className="text-2xl font-bold text-white mb-3">Sign-in failed</h2>
+                <p className="text-dark-400 mb-8">{error}</p>
+                <Link
+                  to="/login"
+                  className="inline-flex items-center space-x-2 text-primary-400 hover:text-primary-300 font-medium transition"
+                >
+                  <ArrowLeft className="w-4 h-4" />
+                  <span>Back to Sign In</span>
+                </Link>
+              </>
+            ) : (
+              <>
+                <Loader2 className="w-10 h-10 text-primary-400 animate-spin mx-auto mb-6" />
+                <h2 className="text-2xl font-bold text-white">Signing you in...</h2>
+              </>
+            )}
+          </div>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import {
   ArrowLeft,
@@ -13,8 +13,20 @@ import {
   Search,
   Sparkles,
   X,
+  Pencil,
+  Check,
+  Flag,
+  ChevronDown,
+  Loader2,
+  AlertTriangle,
+  RotateCw,
 } from 'lucide-react';
 import { useAuthStore } from '../store/auth';
+import { toast } from '../components/Toast';
+import TimedTranscriptText from '../components/TimedTranscriptText';
+import CallQualityTimeline from '../components/CallQualityTimeline';
+import { useRecordingPlayback } from '../hooks/useRecordingPlayback';
+import { findPlaybackPosition, formatCallTime, TimedWord } from '../utils/transcriptTime';
 
 // Use relative URL in production (when served from backend), absolute URL in development
 const getApiUrl = () => {
@@ -32,10 +44,36 @@ const API_URL = getApiUrl();
 
 interface TranscriptSegment {
   speaker: string;
+  speakerKey?: string;
   text: string;
-  timestamp: number;
+  timestamp: number; // ms from call start
+  endTimestamp?: number | null;
+  words?: TimedWord[];
+  flagged?: boolean;
 }
 
+type ExportFormat = 'srt' | 'vtt' | 'md' | 'docx' | 'txt';
+
+const EXPORT_FORMATS: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'docx', label: 'Word document (.docx)' },
+  { format: 'md', label: 'Markdown (.md)' },
+  { format: 'txt', label: 'Plain text (.txt)' },
+  { format: 'srt', label: 'Subtitles (.srt)' },
+  { format: 'vtt', label: 'Web subtitles (.vtt)' },
+];
+
+// Background job that writes the AI summary (see /api/jobs)
+interface SummaryJob {
+  id: string;
+  status: 'queued' | 'running' | 'retrying' | 'completed' | 'dead';
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+}
+
+const SUMMARY_POLL_INTERVAL_MS = 4000;
+
 interface CallDetail {
   _id: string;
   roomId: string;
@@ -45,6 +83,9 @@ interface CallDetail {
   endedAt: string;
   duration: number;
   recordingUrl?: string;
+  metadata?: {
+    recordingOffsetMs?: number | null;
+  };
   transcriptId?: {
     segments: TranscriptSegment[];
     fullText: string;
@@ -58,6 +99,7 @@ interface CallDetail {
     decisions: string[];
     suggestedReplies: string[];
   };
+  summaryJob?: SummaryJob | null;
 }
 
 interface GeneratedImage {
@@ -77,8 +119,14 @@ export default function CallDetail() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
-  const [isPlaying, setIsPlaying] = useState(false);
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [renamingSpeaker, setRenamingSpeaker] = useState<string | null>(null);
+  const [speakerName, setSpeakerName] = useState('');
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [exportOptions, setExportOptions] = useState({ speakers: true, timestamps: true, redact: false });
+  const [summaryJob, setSummaryJob] = useState<SummaryJob | null>(null);
+  const [retryingSummary, setRetryingSummary] = useState(false);
+  const playback = useRecordingPlayback(call?.recordingUrl, call?.metadata?.recordingOffsetMs || 0);
 
   useEffect(() => {
     if (!id || !accessToken) return;
@@ -86,6 +134,30 @@ export default function CallDetail() {
     fetchImages();
   }, [id, accessToken]);
 
+  // Poll the summary job while it is pending; reload the call once it's done
+  const summaryPending = summaryJob && ['queued', 'running', 'retrying'].includes(summaryJob.status);
+  useEffect(() => {
+    if (!summaryPending || !summaryJob || !accessToken) return;
+
+    const timer = setInterval(async () => {
+      try {
+        const response = await fetch(`${API_URL}/api/jobs/${summaryJob.id}`, {
+          headers: { 'Authorization': `Bearer ${accessToken}` },
+        });
+        if (!response.ok) return;
+        const data = await response.json();
+        setSummaryJob(data.job);
+        if (data.job.status === 'completed' || data.job.status === 'dead') {
+          fetchCallDetail();
+        }
+      } catch (err) {
+        console.error('Poll summary job error:', err);
+      }
+    }, SUMMARY_POLL_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [summaryPending, summaryJob?.id, accessToken]);
+
   const fetchCallDetail = async () => {
     if (!accessToken || !id) return;
 
@@ -99,6 +171,7 @@ export default function CallDetail() {
       if (response.ok) {
         const data = await response.json();
         setCall(data.call);
+        setSummaryJob(data.call.summaryJob || null);
       } else if (response.status === 404) {
         setError('Call not found');
       } else {
@@ -127,6 +200,27 @@ export default function CallDetail() {
     }
   };
 
+  const retrySummary = async () => {
+    if (!accessToken || !summaryJob) return;
+    setRetryingSummary(true);
+    try {
+      const response = await fetch(`${API_URL}/api/jobs/${summaryJob.id}/retry`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${accessToken}` },
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to retry summary');
+      }
+      setSummaryJob(data.job);
+      toast.success('Summary Queued', 'The AI summary will be generated again');
+    } catch (error: any) {
+      toast.error('Retry Failed', error.message || 'Failed to retry summary');
+    } finally {
+      setRetryingSummary(false);
+    }
+  };
+
   const formatDuration = (seconds: number) => {
     if (!seconds) return '0:00';
     const mins = Math.floor(seconds / 60);
@@ -134,26 +228,113 @@ export default function CallDetail() {
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const formatTimestamp = (timestamp: number) => {
-    const minutes = Math.floor(timestamp / 60);
-    const seconds = timestamp % 60;
-    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  const downloadTranscript = async (format: ExportFormat) => {
+    if (!accessToken || !id) return;
+    setShowExportMenu(false);
+
+    const params = new URLSearchParams({
+      format,
+      speakers: String(exportOptions.speakers),
+      timestamps: String(exportOptions.timestamps),
+      redact: exportOptions.redact ? 'all' : 'none',
+    });
+
+    try {
+      const response = await fetch(`${API_URL}/api/calls/${id}/transcript/export?${params}`, {
+        headers: { 'Authorization': `Bearer ${accessToken}` },
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to export transcript');
+      }
+
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1]
+        || `call-transcript-${call?.roomId}.${format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast.error('Export Failed', error.message || 'Failed to export transcript');
+    }
   };
 
-  const downloadTranscript = () => {
-    if (!call?.transcriptId) return;
-    
-    const transcriptText = call.transcriptId.segments
-      .map(seg => `[${formatTimestamp(seg.timestamp)}] ${seg.speaker}: ${seg.text}`)
-      .join('\n\n');
-    
-    const blob = new Blob([transcriptText], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `call-transcript-${call.roomId}.txt`;
-    a.click();
-    URL.revokeObjectURL(url);
+  // Flagged segments are replaced with [redacted] in redacted exports
+  const toggleFlag = async (segment: TranscriptSegment) => {
+    if (!accessToken || !id || !call?.transcriptId) return;
+    const index = call.transcriptId.segments.indexOf(segment);
+    const flagged = !segment.flagged;
+
+    try {
+      const response = await fetch(`${API_URL}/api/calls/${id}/transcript/segments/${index}/flag`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ flagged }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to flag segment');
+      }
+
+      setCall(prev => prev && prev.transcriptId ? {
+        ...prev,
+        transcriptId: {
+          ...prev.transcriptId,
+          segments: prev.transcriptId.segments.map((s, i) => (i === index ? { ...s, flagged } : s)),
+        },
+      } : prev);
+    } catch (error: any) {
+      toast.error('Flag Failed', error.message || 'Failed to flag segment');
+    }
+  };
+
+  // Speakers are identified by their stable key, or by label in older transcripts
+  const speakerRef = (segment: TranscriptSegment) => segment.speakerKey || segment.speaker;
+
+  const startRenaming = (segment: TranscriptSegment) => {
+    setRenamingSpeaker(speakerRef(segment));
+    setSpeakerName(segment.speaker);
+  };
+
+  const renameSpeaker = async () => {
+    if (!accessToken || !id || !renamingSpeaker) return;
+    const name = speakerName.trim();
+    if (!name) return;
+
+    try {
+      const response = await fetch(`${API_URL}/api/calls/${id}/transcript/speakers`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ from: renamingSpeaker, name }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to rename speaker');
+      }
+
+      setCall(prev => prev && prev.transcriptId ? {
+        ...prev,
+        transcriptId: {
+          ...prev.transcriptId,
+          segments: data.transcript.segments,
+          fullText: data.transcript.fullText,
+          wordCount: data.transcript.wordCount,
+        },
+      } : prev);
+      setRenamingSpeaker(null);
+      toast.success('Speaker Renamed', `Transcript updated to "${name}"`);
+    } catch (error: any) {
+      toast.error('Rename Failed', error.message || 'Failed to rename speaker');
+    }
   };
 
   const filteredSegments = call?.transcriptId?.segments.filter(seg =>
@@ -161,6 +342,15 @@ export default function CallDetail() {
                   seg.speaker.toLowerCase().includes(searchQuery.toLowerCase()) : true
   ) || [];
 
+  // Where the recording is in the transcript
+  const segments = call?.transcriptId?.segments;
+  const playbackPosition = useMemo(
+    () => (segments && playback.callTime !== null ? findPlaybackPosition(segments, playback.callTime) : null),
+    [segments, playback.callTime]
+  );
+  const activeSegment = playbackPosition && segments ? segments[playbackPosition.segment] : null;
+  const seekTo = call?.recordingUrl ? playback.seek : undefined;
+
   if (loading) {
     return (
       <div className="min-h-screen bg-dark-950 bg-animated flex items-center justify-center">
@@ -225,10 +415,11 @@ export default function CallDetail() {
             <div className="flex items-center space-x-2">
               {call.recordingUrl && (
                 <button
-                  onClick={() => setIsPlaying(!isPlaying)}
-                  className="flex items-center space-x-2 px-4 py-2 glass-card-hover rounded-lg transition"
+                  onClick={playback.togglePlay}
+                  disabled={playback.loading || !!playback.error}
+                  className="flex items-center space-x-2 px-4 py-2 glass-card-hover rounded-lg transition disabled:opacity-50"
                 >
-                  {isPlaying ? (
+                  {playback.isPlaying ? (
                     <Pause className="w-4 h-4 text-white" />
                   ) : (
                     <Play className="w-4 h-4 text-white" />
@@ -237,13 +428,46 @@ export default function CallDetail() {
                 </button>
               )}
               {call.transcriptId && (
-                <button
-                  onClick={downloadTranscript}
-                  className="flex items-center space-x-2 px-4 py-2 glass-card-hover rounded-lg transition"
-                >
-                  <Download className="w-4 h-4 text-white" />
-                  <span className="text-white">Download Transcript</span>
-                </button>
+                <div className="relative">
+                  <button
+                    onClick={() => setShowExportMenu(!showExportMenu)}
+                    className="flex items-center space-x-2 px-4 py-2 glass-card-hover rounded-lg transition"
+                  >
+                    <Download className="w-4 h-4 text-white" />
+                    <span className="text-white">Download Transcript</span>
+                    <ChevronDown className="w-4 h-4 text-dark-400" />
+                  </button>
+                  {showExportMenu && (
+                    <div className="absolute right-0 mt-2 w-64 glass-card rounded-lg border border-dark-700 p-2 z-20 animate-fade-in">
+                      {EXPORT_FORMATS.map(({ format, label }) => (
+                        <button
+                          key={format}
+                          onClick={() => downloadTranscript(format)}
+                          className="w-full text-left px-3 py-2 rounded hover:bg-dark-800/50 text-white text-sm"
+                        >
+                          {label}
+                        </button>
+                      ))}
+                      <div className="border-t border-dark-700 mt-2 pt-2 px-3 space-y-1.5 text-dark-300 text-sm">
+                        {([
+                          ['speakers', 'Speaker names'],
+                          ['timestamps', 'Timestamps'],
+                          ['redact', 'Redact flagged & personal info'],
+                        ] as const).map(([key, label]) => (
+                          <label key={key} className="flex items-center space-x-2 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={exportOptions[key]}
+                              onChange={(e) => setExportOptions(prev => ({ ...prev, [key]: e.target.checked }))}
+                              className="accent-primary-500"
+                            />
+                            <span>{label}</span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
               )}
               <button
                 onClick={async () => {
@@ -295,14 +519,20 @@ export default function CallDetail() {
                     <span>Download Video</span>
                   </a>
                 </div>
-                <video
-                  src={`${API_URL}${call.recordingUrl}`}
-                  controls
-                  className="w-full rounded-lg"
-                  preload="metadata"
-                >
-                  Your browser does not support the video tag.
-                </video>
+                {playback.error ? (
+                  <div className="text-center py-8 text-red-400 text-sm">{playback.error}</div>
+                ) : playback.loading ? (
+                  <div className="text-center py-8 text-dark-400 text-sm">Loading recording...</div>
+                ) : (
+                  <video
+                    {...playback.mediaProps}
+                    controls
+                    className="w-full rounded-lg"
+                    preload="metadata"
+                  >
+                    Your browser does not support the video tag.
+                  </video>
+                )}
               </div>
             )}
 
@@ -336,10 +566,13 @@ export default function CallDetail() {
                 <div className="space-y-3 max-h-[600px] overflow-y-auto">
                   {filteredSegments.map((segment, idx) => {
                     const isHost = segment.speaker === call.hostId.name;
+                    const isActive = segment === activeSegment;
                     return (
                       <div
                         key={idx}
-                        className="glass-card-hover rounded-lg p-4 animate-slide-in border-l-2 border-primary-500/50"
+                        className={`glass-card-hover rounded-lg p-4 animate-slide-in border-l-2 ${
+                          isActive ? 'border-primary-400' : 'border-primary-500/50'
+                        }`}
                       >
                         <div className="flex items-center justify-between mb-2">
                           <div className="flex items-center space-x-2">
@@ -352,17 +585,74 @@ export default function CallDetail() {
                                 {segment.speaker.charAt(0).toUpperCase()}
                               </span>
                             </div>
-                            <span className={`font-semibold text-sm ${
-                              isHost ? 'text-primary-400' : 'text-blue-400'
-                            }`}>
-                              {segment.speaker}
-                            </span>
+                            {renamingSpeaker === speakerRef(segment) ? (
+                              <form
+                                onSubmit={(e) => {
+                                  e.preventDefault();
+                                  renameSpeaker();
+                                }}
+                                className="flex items-center space-x-1"
+                              >
+                                <input
+                                  autoFocus
+                                  value={speakerName}
+                                  onChange={(e) => setSpeakerName(e.target.value)}
+                                  onKeyDown={(e) => e.key === 'Escape' && setRenamingSpeaker(null)}
+                                  maxLength={60}
+                                  className="px-2 py-0.5 bg-dark-800/50 border border-dark-700 rounded text-white text-sm focus:outline-none focus:border-primary-500/50"
+                                />
+                                <button type="submit" className="p-1 rounded hover:bg-dark-800/50" title="Save name">
+                                  <Check className="w-3.5 h-3.5 text-green-400" />
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={() => setRenamingSpeaker(null)}
+                                  className="p-1 rounded hover:bg-dark-800/50"
+                                  title="Cancel"
+                                >
+                                  <X className="w-3.5 h-3.5 text-dark-400" />
+                                </button>
+                              </form>
+                            ) : (
+                              <button
+                                onClick={() => startRenaming(segment)}
+                                className={`group flex items-center space-x-1 font-semibold text-sm ${
+                                  isHost ? 'text-primary-400' : 'text-blue-400'
+                                }`}
+                                title="Rename speaker"
+                              >
+                                <span>{segment.speaker}</span>
+                                <Pencil className="w-3 h-3 opacity-0 group-hover:opacity-100 transition" />
+                              </button>
+                            )}
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            <button
+                              onClick={() => toggleFlag(segment)}
+                              className={`p-1 rounded hover:bg-dark-800/50 transition ${
+                                segment.flagged ? 'text-red-400' : 'text-dark-600 hover:text-dark-300'
+                              }`}
+                              title={segment.flagged ? 'Unflag (kept in redacted exports)' : 'Flag for redaction'}
+                            >
+                              <Flag className="w-3.5 h-3.5" />
+                            </button>
+                            <button
+                              onClick={seekTo ? () => seekTo(segment.timestamp) : undefined}
+                              disabled={!seekTo}
+                              className="text-dark-500 text-xs enabled:hover:text-primary-400"
+                              title={seekTo ? 'Play from here' : undefined}
+                            >
+                              {formatCallTime(segment.timestamp)}
+                            </button>
                           </div>
-                          <span className="text-dark-500 text-xs">
-                            {formatTimestamp(segment.timestamp)}
-                          </span>
                         </div>
-                        <p className="text-dark-200 text-sm leading-relaxed pl-9">{segment.text}</p>
+                        <TimedTranscriptText
+                          segment={segment}
+                          isActive={isActive}
+                          activeWord={isActive ? playbackPosition!.word : null}
+                          onSeek={seekTo}
+                          className="text-dark-200 text-sm leading-relaxed pl-9"
+                        />
                       </div>
                     );
                   })}
@@ -374,6 +664,11 @@ export default function CallDetail() {
               )}
             </div>
 
+            {/* Call quality */}
+            {accessToken && (
+              <CallQualityTimeline apiUrl={API_URL} callId={call._id} accessToken={accessToken} onSeek={seekTo} />
+            )}
+
             {/* Dreamweaving Images Gallery */}
             {images.length > 0 && (
               <div className="glass-card rounded-xl p-6 animate-fade-in">
@@ -412,6 +707,49 @@ export default function CallDetail() {
 
           {/* Right Column - Sidebar */}
           <div className="space-y-6">
+            {/* AI summary status */}
+            {summaryPending && summaryJob && (
+              <div className="glass-card rounded-xl p-4 animate-fade-in flex items-start space-x-3">
+                <Loader2 className="w-5 h-5 text-purple-400 animate-spin flex-shrink-0 mt-0.5" />
+                <div className="text-sm">
+                  <p className="text-white font-medium">Summary pending</p>
+                  <p className="text-dark-400">
+                    {summaryJob.status === 'retrying'
+                      ? `Attempt ${summaryJob.attempts} of ${summaryJob.maxAttempts} failed${
+                          summaryJob.nextAttemptAt
+                            ? `, retrying at ${new Date(summaryJob.nextAttemptAt).toLocaleTimeString()}`
+                            : ''
+                        }`
+                      : summaryJob.status === 'running'
+                        ? 'Generating AI notes...'
+                        : 'Waiting to generate AI notes'}
+                  </p>
+                </div>
+              </div>
+            )}
+            {summaryJob?.status === 'dead' && (
+              <div className="glass-card border border-red-500/30 rounded-xl p-4 animate-fade-in">
+                <div className="flex items-start space-x-3">
+                  <AlertTriangle className="w-5 h-5 text-red-400 flex-shrink-0 mt-0.5" />
+                  <div className="text-sm flex-1 min-w-0">
+                    <p className="text-white font-medium">Summary failed</p>
+                    <p className="text-dark-400 break-words">
+                      {summaryJob.lastError || 'The AI summary could not be generated'}
+                      {call.notesId ? ' - showing basic notes instead.' : ''}
+                    </p>
+                  </div>
+                  <button
+                    onClick={retrySummary}
+                    disabled={retryingSummary}
+                    className="flex items-center space-x-1 px-3 py-1.5 rounded-lg bg-red-500/20 text-red-300 hover:bg-red-500/30 text-sm transition disabled:opacity-50"
+                  >
+                    <RotateCw className={`w-4 h-4 ${retryingSummary ? 'animate-spin' : ''}`} />
+                    <span>Retry</span>
+                  </button>
+                </div>
+              </div>
+            )}
+
             {/* AI Notes */}
             {call.notesId && (
               <div className="glass-card rounded-xl p-6 animate-fade-in">
@@ -18,6 +18,7 @@ import TranscriptViewer from '../components/TranscriptViewer';
 import { toast } from '../components/Toast';
 import { Skeleton, SkeletonCard } from '../components/Skeleton';
 import ErrorState from '../components/ErrorState';
+import type { TimedWord } from '../utils/transcriptTime';
 
 const getApiUrl = () => {
   if (import.meta.env.VITE_API_URL) {
@@ -46,7 +47,9 @@ interface CallHistory {
       speaker: string;
       speakerId?: string;
       text: string;
-      timestamp: number;
+      timestamp: number; // ms from call start
+      endTimestamp?: number | null;
+      words?: TimedWord[];
     }>;
     fullText?: string;
     wordCount?: number;
@@ -62,6 +65,7 @@ interface CallHistory {
   metadata?: {
     audioOnly?: boolean;
     participantCount?: number;
+    recordingOffsetMs?: number | null;
   };
 }
 
@@ -548,6 +552,8 @@ export default function CallHistory() {
             setSelectedCall(null);
           }}
           callTitle={`Call - ${formatDate(selectedCall.startedAt)}`}
+          recordingUrl={selectedCall.recordingUrl}
+          recordingOffsetMs={selectedCall.metadata?.recordingOffsetMs}
         />
       )}
     </div>
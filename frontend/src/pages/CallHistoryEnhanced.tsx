@@ -268,7 +268,8 @@ export default function CallHistoryEnhanced() {
         const data = await response.json();
         navigate(`/call/${data.roomId}`);
       } else {
-        toast.error('Error', 'Failed to start call');
+        const errorData = await response.json().catch(() => ({}));
+        toast.error('Error', errorData.error || 'Failed to start call');
       }
     } catch (error) {
       console.error('Call again error:', error);
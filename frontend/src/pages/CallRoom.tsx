@@ -24,6 +24,7 @@ import {
   FiChevronDown,
   FiChevronUp,
   FiRefreshCw,
+  FiMic,
 } from 'react-icons/fi';
 import { Sparkles, MessageSquare, FileText, StickyNote } from 'lucide-react';
 import { FaRobot } from 'react-icons/fa';
@@ -35,8 +36,12 @@ import VideoParticipant from '../components/VideoParticipant';
 import AIParticipant from '../components/AIParticipant';
 import AINotesSidebar from '../components/AINotesSidebar';
 import CallControls from '../components/CallControls';
+import HostControls from '../components/HostControls';
 import { AIThinking } from '../components/LoadingSpinner';
 import LoadingSpinner from '../components/LoadingSpinner';
+import { formatCallTime } from '../utils/transcriptTime';
+import { uploadFile } from '../utils/chunkedUpload';
+import { rateLimitMessage } from '../utils/errorHandler';
 
 // Use relative URL in production (when served from backend), absolute URL in development
 const getApiUrl = () => {
@@ -77,6 +82,12 @@ export default function CallRoom() {
     isMuted,
     isVideoOff,
     isRecording,
+    recorder,
+    recordingConsent,
+    myRecordingConsent,
+    requestRecording,
+    respondToRecording,
+    lobbyStatus,
     callStartTime,
     speechRecognition,
     callId,
@@ -88,7 +99,10 @@ export default function CallRoom() {
     initSocket,
     minimizeCall,
     maximizeCall,
+    guest,
   } = callStore;
+  // Guests came in through an invite link and have nowhere else in the app to go
+  const exitPath = user ? '/home' : '/';
 
   // Comprehensive notes state
   const [comprehensiveNotes, setComprehensiveNotes] = useState<any>(null);
@@ -291,7 +305,8 @@ export default function CallRoom() {
 
   // Initialize and join room
   useEffect(() => {
-    if (roomId && accessToken && user) {
+    const invitedGuest = !user && guest?.roomId === roomId ? guest : null;
+    if (roomId && ((accessToken && user) || invitedGuest)) {
       const currentRoomId = useCallStore.getState().roomId;
       
       // If call is already active in the same room, just maximize it (don't restart)
@@ -303,10 +318,10 @@ export default function CallRoom() {
       
       // If call is active but different room, or call is not active, initialize
       console.log('[CALLROOM] Initializing socket and joining room:', roomId);
-      initSocket(accessToken, user.name);
-      joinRoom(roomId, accessToken).catch((err) => {
+      initSocket(user ? accessToken : null, user ? user.name : invitedGuest!.name);
+      joinRoom(roomId, user ? accessToken : null).catch((err) => {
         console.error('Failed to join room:', err);
-        navigate('/home');
+        navigate(exitPath);
       });
     }
 
@@ -319,7 +334,7 @@ export default function CallRoom() {
         minimizeCall();
       }
     };
-  }, [roomId, accessToken, user]);
+  }, [roomId, accessToken, user, guest]);
 
   // Fetch historical transcript when callId becomes available
   useEffect(() => {
@@ -578,13 +593,14 @@ export default function CallRoom() {
       const updated = new Map(prev);
       
       // Track local user's stream
-      if (localStream && user) {
+      const self = user ? { name: user.name, id: user._id } : guest;
+      if (localStream && self) {
         updated.set('local', {
           stream: localStream,
           isVideoOff: isVideoOff,
           isMuted: isMuted,
-          userName: user.name || 'You',
-          userId: user._id,
+          userName: self.name || 'You',
+          userId: self.id,
         });
       }
       
@@ -685,7 +701,7 @@ export default function CallRoom() {
       
       return updated;
     });
-  }, [remoteStream, participants, localStream, user, isVideoOff, isMuted]);
+  }, [remoteStream, participants, localStream, user, guest, isVideoOff, isMuted]);
 
   // Listen for participant video/audio state changes
   useEffect(() => {
@@ -1072,7 +1088,7 @@ export default function CallRoom() {
     // Navigation will happen when call:ended is received (if last participant)
     endCall();
     // Navigate immediately since this user is leaving
-    navigate('/home');
+    navigate(exitPath);
   };
 
   // Handle screen share
@@ -1101,7 +1117,12 @@ export default function CallRoom() {
           const sender = callStore.peerConnection?.getSenders().find(s => 
             s.track && s.track.kind === 'video'
           );
-          if (sender && videoTrack) {
+          if (videoTrack && callStore.sfuSession) {
+            // On the SFU there is one video producer to swap
+            await callStore.sfuSession.replaceTrack('video', videoTrack);
+            localStream.removeTrack(localStream.getVideoTracks()[0]);
+            localStream.addTrack(videoTrack);
+          } else if (sender && videoTrack) {
             await sender.replaceTrack(videoTrack);
             localStream.removeTrack(localStream.getVideoTracks()[0]);
             localStream.addTrack(videoTrack);
@@ -1164,6 +1185,9 @@ export default function CallRoom() {
         }),
       });
 
+      if (response.status === 429) {
+        throw new Error(await rateLimitMessage(response));
+      }
       if (!response.ok) {
         throw new Error('Failed to generate image from transcript');
       }
@@ -1203,6 +1227,9 @@ export default function CallRoom() {
         }),
       });
 
+      if (response.status === 429) {
+        throw new Error(await rateLimitMessage(response));
+      }
       if (!response.ok) {
         let errorData;
         try {
@@ -1300,21 +1327,9 @@ export default function CallRoom() {
     
     for (const file of selectedFiles) {
       try {
-        const formData = new FormData();
-        formData.append('file', file);
-        
-        const response = await fetch(`${API_URL}/api/messages/upload`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-          },
-          body: formData,
-        });
-        
-        if (response.ok) {
-          const data = await response.json();
-          uploadedUrls.push(`${API_URL}${data.url}`);
-        }
+        // Sent in resumable chunks
+        const data = await uploadFile(API_URL, accessToken, file);
+        uploadedUrls.push(`${API_URL}${data.url}`);
       } catch (error) {
         console.error('File upload error:', error);
       }
@@ -2166,10 +2181,7 @@ export default function CallRoom() {
                             {segment.speaker}
                           </span>
                           <span className="text-dark-400 text-xs md:text-sm ml-auto flex-shrink-0">
-                            {new Date(segment.timestamp).toLocaleTimeString([], {
-                              hour: '2-digit',
-                              minute: '2-digit',
-                            })}
+                            {formatCallTime(segment.timestamp)}
                           </span>
                         </div>
                         <p className="text-white text-sm md:text-base leading-relaxed pl-9 md:pl-10">{segment.text}</p>
@@ -2737,6 +2749,9 @@ export default function CallRoom() {
         }),
       });
 
+      if (response.status === 429) {
+        throw new Error(await rateLimitMessage(response));
+      }
       if (!response.ok) {
         throw new Error('Failed to process AI command');
       }
@@ -2908,9 +2923,111 @@ export default function CallRoom() {
     }
   };
 
+  // Who is recording, shown to everyone for as long as it lasts
+  const recordingNames = (recordingConsent?.recording || []).map(r => r.userName).join(', ');
+  const someoneRecording = isRecording || (recordingConsent?.recording.length || 0) > 0;
+  const pendingConsents = (recordingConsent?.participants || []).filter(p => p.consent === 'pending').length;
+
       return (
     <div className="h-screen bg-dark-950 flex flex-col overflow-hidden">
 
+      {/* Waiting room: the host hasn't let us in yet */}
+      {lobbyStatus === 'waiting' && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-dark-950/90 backdrop-blur">
+          <div className="glass-card rounded-2xl p-8 max-w-sm w-[90vw] text-center space-y-4">
+            <FiLoader size={32} className="animate-spin text-primary-400 mx-auto" style={{ display: 'inline-block', opacity: 1, visibility: 'visible' }} />
+            <h2 className="text-white text-lg font-semibold">Waiting for the host</h2>
+            <p className="text-dark-400 text-sm">You'll join the call as soon as the host lets you in.</p>
+            <button
+              onClick={async () => {
+                await leaveRoom();
+                navigate(exitPath);
+              }}
+              className="px-4 py-2 rounded-lg bg-dark-700 hover:bg-dark-600 text-white text-sm font-medium"
+            >
+              Leave
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Host: lobby requests and room controls */}
+      {(callStatus === 'active' || callStatus === 'waiting') && <HostControls />}
+
+      {/* Recording consent banner */}
+      {callStatus === 'active' && (
+        <div className={`fixed left-1/2 -translate-x-1/2 z-40 max-w-[95vw] ${isMobile ? 'top-14' : 'top-16'}`}>
+          {recordingConsent?.requestedBy ? (
+            <div className={`flex flex-wrap items-center gap-x-3 gap-y-1 px-4 py-2 rounded-2xl border text-sm shadow-lg backdrop-blur ${
+              someoneRecording ? 'bg-red-500/20 border-red-500/30' : 'bg-dark-900/90 border-dark-700'
+            }`}>
+              {someoneRecording ? (
+                <span className="flex items-center gap-2 text-red-300 font-medium">
+                  <span className="w-2 h-2 bg-red-500 rounded-full animate-pulse" />
+                  {recorder === 'server'
+                    ? `Recording ${recordingNames || 'this call'}`
+                    : `${recordingNames || 'Someone'} ${(recordingConsent.recording.length || 1) > 1 ? 'are' : 'is'} recording this call`}
+                </span>
+              ) : (
+                <span className="flex items-center gap-2 text-dark-300">
+                  <FiMic size={14} className="flex-shrink-0" />
+                  {pendingConsents > 0
+                    ? `Waiting for ${pendingConsents} participant${pendingConsents > 1 ? 's' : ''} to consent to recording`
+                    : 'Not recording'}
+                </span>
+              )}
+
+              {myRecordingConsent === 'pending' && (
+                <span className="flex items-center gap-2">
+                  <span className="text-white">
+                    {recordingConsent.requestedBy.userName} wants to record and transcribe this call
+                  </span>
+                  <button
+                    onClick={() => respondToRecording(true)}
+                    className="px-3 py-1 rounded-lg bg-primary-500 hover:bg-primary-600 text-white text-xs font-medium"
+                  >
+                    Allow
+                  </button>
+                  <button
+                    onClick={() => respondToRecording(false)}
+                    className="px-3 py-1 rounded-lg bg-dark-700 hover:bg-dark-600 text-white text-xs font-medium"
+                  >
+                    Decline
+                  </button>
+                </span>
+              )}
+              {myRecordingConsent === 'granted' && (
+                <button
+                  onClick={() => respondToRecording(false)}
+                  className="text-xs text-dark-300 hover:text-white underline"
+                >
+                  Stop recording me
+                </button>
+              )}
+              {myRecordingConsent === 'declined' && (
+                <span className="flex items-center gap-2 text-xs text-dark-300">
+                  You are not recorded or transcribed
+                  <button
+                    onClick={() => respondToRecording(true)}
+                    className="text-primary-400 hover:text-primary-300 underline"
+                  >
+                    Allow
+                  </button>
+                </span>
+              )}
+            </div>
+          ) : (
+            <button
+              onClick={requestRecording}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-dark-900/90 border border-dark-700 text-xs text-dark-300 hover:text-white shadow-lg"
+            >
+              <FiMic size={12} className="flex-shrink-0" />
+              Not recording · Ask to record and transcribe
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Private Message Notification Icon - Floating button (visible when there are unread messages) */}
       {unreadPrivateMessages.length > 0 && !showPrivateChatOverlay && (
         <div className="fixed top-20 right-4 z-50">
@@ -3332,7 +3449,7 @@ export default function CallRoom() {
                   />
                   <span className="text-white text-sm">{participants.length + 1}</span>
         </div>
-                {isRecording && (
+                {someoneRecording && (
                   <div className="flex items-center space-x-1.5 mt-1 pt-1 border-t border-dark-700/50">
                     <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse" />
                     <span className="text-red-400 text-xs font-medium">REC</span>
@@ -3491,7 +3608,7 @@ export default function CallRoom() {
           {/* Top Header Bar - Desktop Only */}
           <header className="hidden md:flex glass-card border-b border-dark-800/50 px-6 py-3 items-center justify-between">
             <div className="flex items-center space-x-4">
-              {isRecording && (
+              {someoneRecording && (
                 <div className="flex items-center space-x-2 bg-red-500/20 px-3 py-1.5 rounded-full border border-red-500/30">
                   <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse" />
                   <span className="text-red-400 text-sm font-medium">REC</span>
@@ -21,6 +21,7 @@ import { FaMagic } from 'react-icons/fa';
 import { useAuthStore } from '../store/auth';
 import { toast } from '../components/Toast';
 import LoadingSpinner from '../components/LoadingSpinner';
+import { formatCallTime } from '../utils/transcriptTime';
 
 // Use relative URL in production (when served from backend), absolute URL in development
 const getApiUrl = () => {
@@ -38,7 +39,7 @@ const API_URL = getApiUrl();
 interface TranscriptSegment {
   speaker: string;
   text: string;
-  timestamp: number;
+  timestamp: number; // ms from call start
 }
 
 interface ActionItem {
@@ -177,12 +178,6 @@ export default function CallSummary() {
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const formatTimestamp = (timestamp: number) => {
-    const minutes = Math.floor(timestamp / 60);
-    const seconds = timestamp % 60;
-    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
-  };
-
   const exportToPDF = async () => {
     toast.info('Export', 'PDF export coming soon');
     // TODO: Implement PDF export
@@ -228,7 +223,7 @@ export default function CallSummary() {
     if (showTranscript && transcript.length > 0) {
       markdown += `## Full Transcript\n\n`;
       transcript.forEach(seg => {
-        markdown += `**[${formatTimestamp(seg.timestamp)}] ${seg.speaker}:** ${seg.text}\n\n`;
+        markdown += `**[${formatCallTime(seg.timestamp)}] ${seg.speaker}:** ${seg.text}\n\n`;
       });
     }
     
@@ -773,7 +768,7 @@ export default function CallSummary() {
                               {segment.speaker}
                             </span>
                             <span className="text-dark-400 text-xs ml-auto flex-shrink-0">
-                              {formatTimestamp(segment.timestamp)}
+                              {formatCallTime(segment.timestamp)}
                             </span>
                           </div>
                           <p className="text-white text-sm md:text-base leading-relaxed pl-9">
@@ -13,6 +13,7 @@ import {
   MessageSquare,
 } from 'lucide-react';
 import { useAuthStore } from '../store/auth';
+import { keepSocketAuthenticated } from '../utils/socketAuth';
 import { toast } from '../components/Toast';
 import ContactContextCard from '../components/ContactContextCard';
 import { Skeleton, SkeletonMessage, SkeletonCard } from '../components/Skeleton';
@@ -189,6 +190,7 @@ export default function ContactChat() {
       },
       transports: ['websocket', 'polling'],
     });
+    const stopSocketAuth = keepSocketAuthenticated(socket);
 
     socket.on('connect', () => {
       console.log('[CONTACT CHAT] Socket connected');
@@ -223,6 +225,7 @@ export default function ContactChat() {
     socketRef.current = socket;
 
     return () => {
+      stopSocketAuth();
       if (conversationIdRef.current) {
         socket.emit('conversation:leave', conversationIdRef.current);
       }
@@ -413,6 +416,9 @@ export default function ContactChat() {
           },
         });
         toast.success('Call Started', 'Starting call with transcription...');
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        toast.error('Error', errorData.error || 'Failed to start call');
       }
     } catch (error) {
       console.error('Start call error:', error);
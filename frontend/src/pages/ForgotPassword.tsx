@@ -44,7 +44,6 @@ export default function ForgotPassword() {
 
     setLoading(true);
     try {
-      // TODO: Implement forgot password API endpoint
       const response = await fetch(`${API_URL}/api/auth/forgot-password`, {
         method: 'POST',
         headers: {
@@ -14,6 +14,7 @@ import {
   FileText,
 } from 'lucide-react';
 import { useAuthStore } from '../store/auth';
+import { keepSocketAuthenticated } from '../utils/socketAuth';
 import { useCallStore } from '../store/call';
 import { toast } from '../components/Toast';
 import { Skeleton, SkeletonMessage } from '../components/Skeleton';
@@ -219,6 +220,7 @@ export default function FriendChat() {
       reconnectionAttempts: 10,
       timeout: 10000,
     });
+    const stopSocketAuth = keepSocketAuthenticated(socket);
 
     socket.on('connect', () => {
       console.log('[FRIEND CHAT] ✅ Socket connected:', socket.id);
@@ -286,6 +288,7 @@ export default function FriendChat() {
     socketRef.current = socket;
 
     return () => {
+      stopSocketAuth();
       console.log('[FRIEND CHAT] Cleaning up socket connection');
       if (conversationIdRef.current) {
         socket.emit('conversation:leave', conversationIdRef.current);
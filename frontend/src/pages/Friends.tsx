@@ -256,7 +256,8 @@ export default function Friends() {
           },
         });
       } else {
-        toast.error('Error', 'Failed to start call');
+        const errorData = await response.json().catch(() => ({}));
+        toast.error('Error', errorData.error || 'Failed to start call');
       }
     } catch (error) {
       console.error('Start call error:', error);
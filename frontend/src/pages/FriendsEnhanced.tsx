@@ -246,7 +246,8 @@ export default function FriendsEnhanced() {
           state: { conversationId, fromPrivateChat: true },
         });
       } else {
-        toast.error('Error', 'Failed to start call');
+        const errorData = await response.json().catch(() => ({}));
+        toast.error('Error', errorData.error || 'Failed to start call');
       }
     } catch (error) {
       console.error('Start call error:', error);
@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { User, Loader2, AlertCircle, ArrowLeft, Video } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { useAuthStore } from '../store/auth';
+import { useCallStore } from '../store/call';
+
+// Where a guest invite link lands: pick a name and join the call without an account
+export default function GuestJoin() {
+  const { roomId } = useParams<{ roomId: string }>();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { isAuthenticated, isLoading } = useAuthStore();
+  const { startGuestSession } = useCallStore();
+  const invite = searchParams.get('invite');
+
+  const [name, setName] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  // Signed-in users join as themselves
+  useEffect(() => {
+    if (!isLoading && isAuthenticated && roomId) {
+      navigate(`/call/${roomId}`, { replace: true });
+    }
+  }, [isLoading, isAuthenticated, roomId, navigate]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invite) return;
+    if (!name.trim()) {
+      setError('Please enter your name');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    try {
+      const guest = await startGuestSession(invite, name.trim());
+      navigate(`/call/${guest.roomId}`, { replace: true });
+    } catch (err: any) {
+      setError(err.message || 'This invite link does not work');
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-dark-950 via-dark-900 to-dark-950 relative overflow-hidden">
+      {/* Animated gradient background */}
+      <div className="absolute inset-0 overflow-hidden">
+        <div className="absolute -top-40 -right-40 w-80 h-80 bg-primary-500/20 rounded-full blur-3xl animate-pulse-slow" />
+        <div className="absolute -bottom-40 -left-40 w-80 h-80 bg-purple-500/20 rounded-full blur-3xl animate-pulse-slow" style={{ animationDelay: '1s' }} />
+      </div>
+
+      <div className="relative z-10 min-h-screen flex items-center justify-center px-4 py-12">
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          transition={{ duration: 0.5 }}
+          className="w-full max-w-md"
+        >
+          <div className="glass-card rounded-3xl p-8 md:p-10 border border-white/10 shadow-2xl backdrop-blur-xl">
+            {!invite ? (
+              <div className="text-center">
+                <div className="w-20 h-20 bg-red-500/20 rounded-full flex items-center justify-center mx-auto mb-6">
+                  <AlertCircle className="w-10 h-10 text-red-400" />
+                </div>
+                <h2 className="text-2xl font-bold text-white mb-3">Invite link incomplete</h2>
+                <p className="text-dark-400 mb-8">Ask the host to send you the full link again.</p>
+                <Link
+                  to="/login"
+                  className="inline-flex items-center space-x-2 text-primary-400 hover:text-primary-300 font-medium transition"
+                >
+                  <ArrowLeft className="w-4 h-4" />
+                  <span>Sign in instead</span>
+                </Link>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="text-center">
+                  <div className="w-14 h-14 bg-gradient-to-br from-primary-500 via-purple-500 to-pink-500 rounded-2xl flex items-center justify-center shadow-lg shadow-primary-500/30 mx-auto mb-4">
+                    <Video className="w-7 h-7 text-white" />
+                  </div>
+                  <h2 className="text-2xl font-bold text-white">You're invited to a call</h2>
+                  <p className="text-dark-400 mt-2 text-sm">Room {roomId}</p>
+                </div>
+
+                {/* Error message */}
+                {error && (
+                  <motion.div
+                    initial={{ opacity: 0, x: -10 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    className="bg-red-500/10 border border-red-500/30 rounded-xl p-4 text-red-400 text-sm flex items-center space-x-2"
+                  >
+                    <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse" />
+                    <span>{error}</span>
+                  </motion.div>
+                )}
+
+                {/* Name field */}
+                <div>
+                  <label className="block text-dark-300 text-sm font-medium mb-2">
+                    Your Name
+                  </label>
+                  <div className="relative">
+                    <User className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-dark-500" />
+                    <input
+                      type="text"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      maxLength={50}
+                      className="w-full pl-12 pr-4 py-3.5 bg-dark-800/50 border border-dark-700 rounded-xl text-white placeholder-dark-500 focus:outline-none focus:border-primary-500 focus:ring-2 focus:ring-primary-500/20 transition-all"
+                      placeholder="How others will see you"
+                      autoFocus
+                    />
+                  </div>
+                </div>
+
+                {/* Submit button */}
+                <motion.button
+                  type="submit"
+                  disabled={loading}
+                  whileHover={{ scale: loading ? 1 : 1.02 }}
+                  whileTap={{ scale: loading ? 1 : 0.98 }}
+                  className="w-full bg-gradient-to-r from-primary-500 to-purple-500 hover:from-primary-600 hover:to-purple-600 disabled:opacity-50 disabled:cursor-not-allowed text-white py-3.5 rounded-xl font-semibold transition-all shadow-lg shadow-primary-500/30 flex items-center justify-center space-x-2"
+                >
+                  {loading ? (
+                    <>
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                      <span>Joining...</span>
+                    </>
+                  ) : (
+                    <span>Join as Guest</span>
+                  )}
+                </motion.button>
+
+                <p className="text-center text-dark-500 text-sm">
+                  Have an account?{' '}
+                  <Link to="/login" className="text-primary-400 hover:text-primary-300 font-medium transition">
+                    Sign in
+                  </Link>
+                </p>
+              </form>
+            )}
+          </div>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,13 @@
 import { useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { Video, Mail, Lock, Eye, EyeOff, Loader2 } from 'lucide-react';
+import { Video, Mail, Lock, Eye, EyeOff, Loader2, ShieldCheck } from 'lucide-react';
 import { useAuthStore } from '../store/auth';
+import SsoButtons from '../components/SsoButtons';
 import { motion } from 'framer-motion';
 
 export default function Login() {
   const navigate = useNavigate();
-  const { login } = useAuthStore();
+  const { login, verifyMfa, cancelMfa, mfaToken } = useAuthStore();
   
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -15,6 +16,8 @@ export default function Login() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [fieldErrors, setFieldErrors] = useState<{ email?: string; password?: string }>({});
+  const [mfaCode, setMfaCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
 
   const validateEmail = (email: string) => {
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -46,13 +49,14 @@ export default function Login() {
 
     setLoading(true);
     try {
-      await login(email, password);
+      const { mfaRequired } = await login(email, password);
       if (rememberMe) {
         localStorage.setItem('rememberEmail', email);
       } else {
         localStorage.removeItem('rememberEmail');
       }
-      navigate('/home');
+      // Two-factor accounts enter their code next
+      if (!mfaRequired) navigate('/home');
     } catch (err: any) {
       setError(err.message || 'Login failed. Please check your credentials.');
     } finally {
@@ -60,11 +64,24 @@ export default function Login() {
     }
   };
 
-  const handleSocialLogin = (provider: 'google' | 'apple') => {
-    // TODO: Implement social login
-    console.log(`Login with ${provider}`);
-    // For now, just show a message
-    setError(`${provider.charAt(0).toUpperCase() + provider.slice(1)} login coming soon!`);
+  const handleMfaSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (!mfaCode.trim()) {
+      setError(useRecoveryCode ? 'Enter one of your recovery codes' : 'Enter the 6-digit code from your authenticator app');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await verifyMfa(mfaCode.trim(), useRecoveryCode);
+      navigate('/home');
+    } catch (err: any) {
+      setError(err.message || 'Invalid authentication code');
+      setMfaCode('');
+    } finally {
+      setLoading(false);
+    }
   };
 
   // Load remembered email
@@ -123,6 +140,75 @@ export default function Login() {
             transition={{ duration: 0.5, delay: 0.2 }}
             className="glass-card rounded-3xl p-8 md:p-10 border border-white/10 shadow-2xl backdrop-blur-xl"
           >
+            {mfaToken ? (
+            <form onSubmit={handleMfaSubmit} className="space-y-6">
+              <div className="text-center">
+                <div className="w-12 h-12 mx-auto mb-3 bg-primary-500/20 rounded-xl flex items-center justify-center">
+                  <ShieldCheck className="w-6 h-6 text-primary-400" />
+                </div>
+                <h2 className="text-white text-xl font-semibold">Two-factor authentication</h2>
+                <p className="text-dark-400 text-sm mt-1">
+                  {useRecoveryCode
+                    ? 'Enter one of the recovery codes you saved when you turned on 2FA.'
+                    : 'Enter the 6-digit code from your authenticator app.'}
+                </p>
+              </div>
+
+              {error && (
+                <div className="bg-red-500/10 border border-red-500/30 rounded-xl p-4 text-red-400 text-sm flex items-center space-x-2">
+                  <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse" />
+                  <span>{error}</span>
+                </div>
+              )}
+
+              <input
+                type="text"
+                inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                autoComplete="one-time-code"
+                autoFocus
+                value={mfaCode}
+                onChange={(e) => setMfaCode(e.target.value)}
+                maxLength={useRecoveryCode ? 11 : 6}
+                className="w-full px-4 py-3.5 bg-dark-800/50 border border-dark-700 rounded-xl text-white text-center text-2xl tracking-[0.4em] font-mono placeholder-dark-600 focus:outline-none focus:border-primary-500 focus:ring-2 focus:ring-primary-500/20 transition-all"
+                placeholder={useRecoveryCode ? 'XXXXX-XXXXX' : '000000'}
+              />
+
+              <motion.button
+                type="submit"
+                disabled={loading}
+                whileHover={{ scale: loading ? 1 : 1.02 }}
+                whileTap={{ scale: loading ? 1 : 0.98 }}
+                className="w-full bg-gradient-to-r from-primary-500 to-purple-500 hover:from-primary-600 hover:to-purple-600 disabled:opacity-50 disabled:cursor-not-allowed text-white py-3.5 rounded-xl font-semibold transition-all shadow-lg shadow-primary-500/30 flex items-center justify-center space-x-2"
+              >
+                {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : <span>Verify</span>}
+              </motion.button>
+
+              <div className="flex items-center justify-between text-sm">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setMfaCode('');
+                    setError('');
+                  }}
+                  className="text-primary-400 hover:text-primary-300 transition font-medium"
+                >
+                  {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    cancelMfa();
+                    setMfaCode('');
+                    setError('');
+                  }}
+                  className="text-dark-400 hover:text-dark-200 transition"
+                >
+                  Back
+                </button>
+              </div>
+            </form>
+            ) : (
             <form onSubmit={handleSubmit} className="space-y-6">
               {/* Error message */}
               {error && (
@@ -244,76 +330,7 @@ export default function Login() {
                 )}
               </motion.button>
 
-              {/* Divider */}
-              <div className="relative my-6">
-                <div className="absolute inset-0 flex items-center">
-                  <div className="w-full border-t border-dark-700" />
-                </div>
-                <div className="relative flex justify-center text-sm">
-                  <span className="px-4 bg-dark-900/50 text-dark-500">Or continue with</span>
-                </div>
-              </div>
-
-              {/* Social login buttons */}
-              <div className="grid grid-cols-2 gap-3">
-                <motion.button
-                  type="button"
-                  onClick={() => handleSocialLogin('google')}
-                  whileHover={{ scale: 1.02 }}
-                  whileTap={{ scale: 0.98 }}
-                  className="flex items-center justify-center gap-2 h-12 sm:h-12 md:h-14 bg-dark-800/50 border border-dark-700 rounded-xl text-white hover:bg-dark-800 transition group overflow-hidden"
-                  style={{ borderRadius: '12px' }}
-                >
-                  <svg 
-                    className="flex-shrink-0 w-7 h-7 sm:w-8 sm:h-8 lg:w-9 lg:h-9" 
-                    viewBox="0 0 24 24"
-                    style={{ 
-                      minWidth: '28px',
-                      maxWidth: '36px'
-                    }}
-                  >
-                    <path
-                      fill="currentColor"
-                      d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
-                    />
-                    <path
-                      fill="currentColor"
-                      d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
-                    />
-                    <path
-                      fill="currentColor"
-                      d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
-                    />
-                    <path
-                      fill="currentColor"
-                      d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
-                    />
-                  </svg>
-                  <span className="text-sm font-medium group-hover:text-white transition whitespace-nowrap">Google</span>
-                </motion.button>
-
-                <motion.button
-                  type="button"
-                  onClick={() => handleSocialLogin('apple')}
-                  whileHover={{ scale: 1.02 }}
-                  whileTap={{ scale: 0.98 }}
-                  className="flex items-center justify-center gap-2 h-12 sm:h-12 md:h-14 bg-dark-800/50 border border-dark-700 rounded-xl text-white hover:bg-dark-800 transition group overflow-hidden"
-                  style={{ borderRadius: '12px' }}
-                >
-                  <svg 
-                    className="flex-shrink-0 w-7 h-7 sm:w-8 sm:h-8 lg:w-9 lg:h-9" 
-                    viewBox="0 0 24 24" 
-                    fill="currentColor"
-                    style={{ 
-                      minWidth: '28px',
-                      maxWidth: '36px'
-                    }}
-                  >
-                    <path d="M17.05 20.28c-.98.95-2.05.88-3.08.4-1.09-.5-2.08-.48-3.24 0-1.44.62-2.2.44-3.06-.4C2.79 15.25 3.51 7.59 9.05 7.31c1.35.07 2.29.74 3.08.8 1.18-.24 2.31-.93 3.57-.84 1.51.12 2.65.72 3.4 1.8-3.12 1.87-2.38 5.98.48 7.13-.57 1.5-1.31 2.99-2.54 4.09l.01-.01zM12.03 7.25c-.15-2.23 1.66-4.07 3.74-4.25.17 2.08-1.85 3.86-3.74 4.25z" />
-                  </svg>
-                  <span className="text-sm font-medium group-hover:text-white transition whitespace-nowrap">Apple</span>
-                </motion.button>
-              </div>
+              <SsoButtons label="Or continue with" onError={setError} />
 
               {/* Sign up link */}
               <div className="mt-6 text-center">
@@ -326,6 +343,7 @@ export default function Login() {
                 </Link>
               </div>
             </form>
+            )}
           </motion.div>
         </motion.div>
       </div>
@@ -22,8 +22,10 @@ import {
   AtSign,
 } from 'lucide-react';
 import { useAuthStore } from '../store/auth';
+import { keepSocketAuthenticated } from '../utils/socketAuth';
 import { toast } from '../components/Toast';
 import TapHint from '../components/TapHint';
+import { uploadFile } from '../utils/chunkedUpload';
 
 // Use relative URL in production (when served from backend), absolute URL in development
 const getSocketUrl = () => {
@@ -121,6 +123,7 @@ export default function Messages() {
       reconnectionDelay: 1000,
       reconnectionAttempts: 5,
     });
+    const stopSocketAuth = keepSocketAuthenticated(socket);
 
     socket.on('connect', () => {
       console.log('[MESSAGES] ✅ Socket connected');
@@ -193,6 +196,7 @@ export default function Messages() {
     socketRef.current = socket;
 
     return () => {
+      stopSocketAuth();
       console.log('[MESSAGES] Cleaning up Socket.IO connection');
       if (socketRef.current) {
         socketRef.current.disconnect();
@@ -509,22 +513,10 @@ export default function Messages() {
     
     for (const file of selectedFiles) {
       try {
-        const formData = new FormData();
-        formData.append('file', file);
-        
-        const response = await fetch(`${API_URL}/api/messages/upload`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-          },
-          body: formData,
-        });
-        
-        if (response.ok) {
-          const data = await response.json();
-          // Use full URL for file access
-          uploadedUrls.push(`${API_URL}${data.url}`);
-        }
+        // Sent in resumable chunks
+        const data = await uploadFile(API_URL, accessToken, file);
+        // Use full URL for file access
+        uploadedUrls.push(`${API_URL}${data.url}`);
       } catch (error) {
         console.error('File upload error:', error);
       }
@@ -11,6 +11,7 @@ import {
   X,
 } from 'lucide-react';
 import { useAuthStore } from '../store/auth';
+import { rateLimitMessage } from '../utils/errorHandler';
 
 // Use relative URL in production (when served from backend), absolute URL in development
 const getApiUrl = () => {
@@ -210,6 +211,8 @@ export default function Network() {
       if (response.ok) {
         const data = await response.json();
         alert(`Found ${data.matches.length} potential matches!`);
+      } else if (response.status === 429) {
+        alert(await rateLimitMessage(response));
       }
     } catch (error) {
       console.error('Find matches error:', error);
@@ -2,12 +2,16 @@ import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { 
   ArrowLeft, User, Bell, Video, Sparkles, Shield, Palette, 
-  LogOut, Trash2, Save, RotateCcw, Upload, Check, ChevronDown
+  LogOut, Trash2, Save, RotateCcw, Upload, Check, ChevronDown, Download, Loader2
 } from 'lucide-react';
 import { useAuthStore } from '../store/auth';
 import { toast } from '../components/Toast';
+import DeviceSessions from '../components/DeviceSessions';
+import TwoFactorSettings from '../components/TwoFactorSettings';
+import AiUsage from '../components/AiUsage';
 
 interface UserSettings {
+  autoRecord: boolean;
   notifications: {
     incomingCalls: boolean;
     newMessages: boolean;
@@ -37,6 +41,23 @@ interface UserSettings {
   };
 }
 
+interface RetentionReport {
+  policy: UserSettings['privacy']['chatHistory'];
+  cutoff: string | null;
+  calls: number;
+  transcripts: number;
+  notes: number;
+  recordings: { count: number; bytes: number };
+  messages: number;
+  conversations: number;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
 const getApiUrl = () => {
   if (import.meta.env.VITE_API_URL) return import.meta.env.VITE_API_URL;
   if (import.meta.env.PROD) return window.location.origin;
@@ -51,6 +72,8 @@ export default function Settings() {
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [retentionPreview, setRetentionPreview] = useState<RetentionReport | null>(null);
   
   // Profile
   const [name, setName] = useState(user?.name || '');
@@ -60,6 +83,7 @@ export default function Settings() {
   
   // Settings
   const [settings, setSettings] = useState<UserSettings>({
+    autoRecord: true,
     notifications: {
       incomingCalls: true,
       newMessages: true,
@@ -93,6 +117,32 @@ export default function Settings() {
     loadSettings();
   }, []);
 
+  // Preview what the selected chat history policy would purge
+  useEffect(() => {
+    if (!accessToken) return;
+
+    const policy = settings.privacy.chatHistory;
+    if (policy === 'forever') {
+      setRetentionPreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    const API_URL = getApiUrl();
+    fetch(`${API_URL}/api/users/retention/preview?policy=${policy}`, {
+      headers: { 'Authorization': `Bearer ${accessToken}` },
+    })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!cancelled) setRetentionPreview(data?.report || null);
+      })
+      .catch((error) => console.error('Failed to load retention preview:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [accessToken, settings.privacy.chatHistory]);
+
   const loadSettings = async () => {
     if (!accessToken) return;
     
@@ -143,7 +193,7 @@ export default function Settings() {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${accessToken}`,
         },
-        body: JSON.stringify({ settings }),
+        body: JSON.stringify({ settings, autoRecord: settings.autoRecord, callQuality: settings.callQuality }),
       });
 
       if (profileResponse.ok) {
@@ -153,6 +203,15 @@ export default function Settings() {
         }
       }
 
+      // The settings response is the newer copy (adaptive call quality reads it)
+      if (settingsResponse.ok) {
+        const settingsData = await settingsResponse.json();
+        const current = useAuthStore.getState().user;
+        if (settingsData.user && current) {
+          setUser({ ...current, settings: settingsData.user.settings });
+        }
+      }
+
       if (settingsResponse.ok || profileResponse.ok) {
         toast.success('Settings Saved', 'Your preferences have been updated');
       } else {
@@ -194,6 +253,40 @@ export default function Settings() {
     }
   };
 
+  const handleExportData = async () => {
+    if (!accessToken) return;
+
+    setExporting(true);
+    try {
+      const API_URL = getApiUrl();
+      const response = await fetch(`${API_URL}/api/users/export`, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to export data');
+      }
+
+      const blob = await response.blob();
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1]
+        || 'acetime-export.zip';
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast.success('Export Ready', 'Your data has been downloaded');
+    } catch (error: any) {
+      toast.error('Export Failed', error.message || 'Failed to export data');
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const handleDeleteAccount = async () => {
     if (!accessToken) return;
     
@@ -514,6 +607,17 @@ export default function Settings() {
                 <option value="high">High (Recommended)</option>
               </select>
             </div>
+
+            <div className="flex items-center justify-between p-4 bg-dark-800/30 rounded-lg">
+              <div className="flex-1">
+                <p className="text-white font-medium text-sm mb-1">Record Calls</p>
+                <p className="text-dark-400 text-xs">Automatically record calls you host</p>
+              </div>
+              <ToggleSwitch
+                checked={settings.autoRecord !== false}
+                onChange={(checked) => setSettings({ ...settings, autoRecord: checked })}
+              />
+            </div>
           </div>
           </div>
         </div>
@@ -651,6 +755,18 @@ export default function Settings() {
                 <option value="7days">7 Days</option>
                 <option value="delete">Delete Immediately</option>
               </select>
+              {retentionPreview && retentionPreview.policy === settings.privacy.chatHistory && (
+                <p className="text-dark-400 text-xs mt-2">
+                  {retentionPreview.calls + retentionPreview.messages + retentionPreview.recordings.count === 0
+                    ? 'Nothing is old enough to be deleted yet.'
+                    : `Will delete ${retentionPreview.messages} message${retentionPreview.messages === 1 ? '' : 's'} in ${retentionPreview.conversations} conversation${retentionPreview.conversations === 1 ? '' : 's'}, ` +
+                      `transcripts and notes from ${retentionPreview.calls} call${retentionPreview.calls === 1 ? '' : 's'} you hosted` +
+                      (retentionPreview.recordings.count > 0
+                        ? ` and ${retentionPreview.recordings.count} recording${retentionPreview.recordings.count === 1 ? '' : 's'} (${formatBytes(retentionPreview.recordings.bytes)})`
+                        : '') +
+                      '.'}
+                </p>
+              )}
             </div>
 
             <div>
@@ -761,6 +877,21 @@ export default function Settings() {
           <div className={`px-6 pb-6 ${isMobile && !expandedSections.account ? 'hidden' : ''}`}>
 
           <div className="space-y-4">
+            {accessToken && (
+              <TwoFactorSettings
+                apiUrl={getApiUrl()}
+                accessToken={accessToken}
+                onChange={(mfaEnabled) => {
+                  const current = useAuthStore.getState().user;
+                  if (current) setUser({ ...current, mfaEnabled });
+                }}
+              />
+            )}
+
+            {accessToken && <DeviceSessions apiUrl={getApiUrl()} accessToken={accessToken} />}
+
+            {accessToken && <AiUsage apiUrl={getApiUrl()} accessToken={accessToken} />}
+
             <button
               onClick={() => {
                 logout();
@@ -775,6 +906,17 @@ export default function Settings() {
               <span className="font-medium">Logout</span>
             </button>
 
+            <button
+              onClick={handleExportData}
+              disabled={exporting}
+              className="w-full flex items-center justify-center space-x-3 px-4 py-3 
+                       bg-dark-800 hover:bg-dark-700 border border-dark-700 rounded-lg 
+                       text-white transition disabled:opacity-50"
+            >
+              {exporting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Download className="w-5 h-5" />}
+              <span className="font-medium">{exporting ? 'Preparing Export...' : 'Export My Data'}</span>
+            </button>
+
             <button
               onClick={() => setShowDeleteConfirm(true)}
               className="w-full flex items-center justify-center space-x-3 px-4 py-3 
@@ -795,7 +937,7 @@ export default function Settings() {
           <div className="glass-card rounded-2xl p-6 max-w-md mx-4 border border-red-500/30">
             <h3 className="text-white font-semibold text-lg mb-2">Delete Account</h3>
             <p className="text-dark-300 text-sm mb-6">
-              Are you sure you want to delete your account? This action cannot be undone and will permanently delete all your data.
+              Are you sure you want to delete your account? This action cannot be undone and will permanently delete all your data. Messages and calls you shared with others stay in their history, attributed to "Deleted user".
             </p>
             <div className="flex items-center space-x-3">
               <button
@@ -0,0 +1,223 @@
+/**
+ * SFU media for group calls (mediasoup-client)
+ *
+ * Used instead of the peer-to-peer mesh once the backend switches a room to
+ * its SFU (`media:topology`). Local tracks are sent once, video as simulcast
+ * layers picked by the server from the user's call quality settings, and
+ * every other participant's producers are consumed from the router.
+ */
+
+import { Device } from 'mediasoup-client';
+import type { Socket } from 'socket.io-client';
+import type { types } from 'mediasoup-client';
+
+export interface SfuProducerInfo {
+  producerId: string;
+  socketId: string;
+  userId: string;
+  userName: string;
+  kind: 'audio' | 'video';
+}
+
+interface SimulcastProfile {
+  encodings: types.RtpEncodingParameters[];
+  preferredLayers: { spatialLayer: number; temporalLayer: number };
+  maxResolution: { width: number; height: number };
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+export class SfuSession {
+  private device = new Device();
+  private sendTransport: types.Transport | null = null;
+  private recvTransport: types.Transport | null = null;
+  private producers: Map<'audio' | 'video', types.Producer> = new Map();
+  private consumers: Map<string, { consumer: types.Consumer; socketId: string }> = new Map(); // producerId -> consumer
+  private simulcast: SimulcastProfile | null = null;
+  private closed = false;
+
+  onTrack?: (socketId: string, track: MediaStreamTrack) => void;
+  onTrackEnded?: (socketId: string, track: MediaStreamTrack) => void;
+
+  constructor(private socket: Socket, private iceServers: RTCIceServer[] = []) {}
+
+  // Signaling requests are answered through the ack, with { error } on failure
+  private request<T = any>(event: string, data: any = {}): Promise<T> {
+    return new Promise((resolve, reject) => {
+      this.socket.timeout(REQUEST_TIMEOUT_MS).emit(event, data, (err: Error | null, response: any) => {
+        if (err) reject(new Error(`${event} timed out`));
+        else if (response?.error) reject(new Error(response.error));
+        else resolve(response);
+      });
+    });
+  }
+
+  async join(localStream: MediaStream | null) {
+    const { rtpCapabilities, simulcast, producers } = await this.request<{
+      rtpCapabilities: types.RtpCapabilities;
+      simulcast: SimulcastProfile;
+      producers: SfuProducerInfo[];
+    }>('sfu:join');
+    if (this.closed) return;
+    this.simulcast = simulcast;
+
+    if (!this.device.loaded) {
+      await this.device.load({ routerRtpCapabilities: rtpCapabilities });
+    }
+
+    this.socket.on('sfu:producer:new', this.handleProducerNew);
+    this.socket.on('sfu:producer:closed', this.handleProducerClosed);
+    this.socket.on('sfu:consumer:closed', this.handleConsumerClosed);
+
+    this.sendTransport = this.device.createSendTransport({
+      ...(await this.request('sfu:transport:create', { direction: 'send' })),
+      iceServers: this.iceServers,
+    });
+    this.wireTransport(this.sendTransport);
+    this.sendTransport.on('produce', ({ kind, rtpParameters }, callback, errback) => {
+      this.request<{ id: string }>('sfu:produce', { transportId: this.sendTransport!.id, kind, rtpParameters })
+        .then(({ id }) => callback({ id }))
+        .catch(errback);
+    });
+
+    this.recvTransport = this.device.createRecvTransport({
+      ...(await this.request('sfu:transport:create', { direction: 'recv' })),
+      iceServers: this.iceServers,
+    });
+    this.wireTransport(this.recvTransport);
+
+    for (const track of localStream?.getTracks() || []) {
+      await this.produce(track);
+    }
+    for (const producer of producers) {
+      await this.consume(producer);
+    }
+    console.log(`[SFU] ✅ Joined with ${this.producers.size} producer(s), consuming ${this.consumers.size}`);
+  }
+
+  private wireTransport(transport: types.Transport) {
+    transport.on('connect', ({ dtlsParameters }, callback, errback) => {
+      this.request('sfu:transport:connect', { transportId: transport.id, dtlsParameters })
+        .then(() => callback())
+        .catch(errback);
+    });
+    transport.on('connectionstatechange', (state) => {
+      console.log(`[SFU] ${transport.direction} transport:`, state);
+    });
+  }
+
+  private async produce(track: MediaStreamTrack) {
+    if (!this.sendTransport || !this.device.canProduce(track.kind as 'audio' | 'video')) return;
+    const kind = track.kind as 'audio' | 'video';
+    const producer = await this.sendTransport.produce({
+      track,
+      encodings: kind === 'video' ? this.simulcast?.encodings : undefined,
+      codecOptions: kind === 'video' ? { videoGoogleStartBitrate: 1000 } : undefined,
+      stopTracks: false, // The local stream still owns its tracks
+    });
+    this.producers.set(kind, producer);
+  }
+
+  private async consume(info: SfuProducerInfo) {
+    if (this.closed || !this.recvTransport || this.consumers.has(info.producerId)) return;
+    try {
+      const params = await this.request('sfu:consume', {
+        transportId: this.recvTransport.id,
+        producerId: info.producerId,
+        rtpCapabilities: this.device.recvRtpCapabilities,
+      });
+      const consumer = await this.recvTransport.consume(params);
+      if (this.closed) {
+        consumer.close();
+        return;
+      }
+      this.consumers.set(info.producerId, { consumer, socketId: info.socketId });
+      await this.request('sfu:consumer:resume', { consumerId: consumer.id });
+      this.onTrack?.(info.socketId, consumer.track);
+    } catch (error) {
+      console.error('[SFU] ❌ Failed to consume', info.producerId, error);
+    }
+  }
+
+  private dropConsumer(producerId: string) {
+    const entry = this.consumers.get(producerId);
+    if (!entry) return;
+    this.consumers.delete(producerId);
+    entry.consumer.close();
+    this.onTrackEnded?.(entry.socketId, entry.consumer.track);
+  }
+
+  private handleProducerNew = (info: SfuProducerInfo) => {
+    this.consume(info);
+  };
+
+  private handleProducerClosed = ({ producerId }: { producerId: string }) => {
+    this.dropConsumer(producerId);
+  };
+
+  private handleConsumerClosed = ({ producerId }: { producerId: string }) => {
+    this.dropConsumer(producerId);
+  };
+
+  // Swap what we send (screen share) without renegotiating
+  async replaceTrack(kind: 'audio' | 'video', track: MediaStreamTrack) {
+    const producer = this.producers.get(kind);
+    if (producer) {
+      await producer.replaceTrack({ track });
+    } else {
+      await this.produce(track);
+    }
+  }
+
+  // Ask for a lower or higher simulcast layer (e.g. thumbnails vs. spotlight)
+  async setPreferredLayer(spatialLayer: number, temporalLayer?: number) {
+    await this.request('sfu:layers', { spatialLayer, temporalLayer });
+  }
+
+  // Send at most `spatialLayer` (0 = lowest) when the uplink is congested
+  async setMaxSendLayer(spatialLayer: number) {
+    const producer = this.producers.get('video');
+    const layers = this.simulcast?.encodings.length ?? 1;
+    if (!producer || layers < 2) return;
+    await producer.setMaxSpatialLayer(Math.max(0, Math.min(layers - 1, spatialLayer)));
+  }
+
+  get sendLayers() {
+    return this.simulcast?.encodings.length ?? 1;
+  }
+
+  // Stats of both transports, for call quality telemetry
+  async getStats(): Promise<RTCStatsReport[]> {
+    const transports = [this.sendTransport, this.recvTransport].filter((t): t is types.Transport => !!t && !t.closed);
+    return Promise.all(transports.map(t => t.getStats()));
+  }
+
+  // Fresh TURN credentials for later ICE restarts
+  updateIceServers(iceServers: RTCIceServer[]) {
+    this.iceServers = iceServers;
+    this.sendTransport?.updateIceServers({ iceServers }).catch(() => {});
+    this.recvTransport?.updateIceServers({ iceServers }).catch(() => {});
+  }
+
+  get maxResolution() {
+    return this.simulcast?.maxResolution ?? null;
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.socket.off('sfu:producer:new', this.handleProducerNew);
+    this.socket.off('sfu:producer:closed', this.handleProducerClosed);
+    this.socket.off('sfu:consumer:closed', this.handleConsumerClosed);
+
+    for (const producerId of Array.from(this.consumers.keys())) {
+      this.dropConsumer(producerId);
+    }
+    this.producers.forEach(producer => producer.close());
+    this.producers.clear();
+    this.sendTransport?.close();
+    this.recvTransport?.close();
+    this.sendTransport = null;
+    this.recvTransport = null;
+  }
+}
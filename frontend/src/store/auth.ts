@@ -21,10 +21,16 @@ interface User {
   name: string;
   email: string;
   avatar?: string;
+  mfaEnabled?: boolean;
   settings: {
     defaultMic: boolean;
     defaultCamera: boolean;
     autoRecord: boolean;
+    callQuality?: {
+      videoResolution: '720p' | '1080p' | 'auto';
+      bandwidth: 'low' | 'medium' | 'high' | 'auto';
+      audioQuality: 'low' | 'medium' | 'high';
+    };
   };
 }
 
@@ -35,8 +41,13 @@ interface AuthState {
   isLoading: boolean;
   isAuthenticated: boolean;
   error: string | null;
+  mfaToken: string | null; // Password accepted, waiting for the authenticator code
   
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<{ mfaRequired: boolean }>;
+  verifyMfa: (code: string, useRecoveryCode?: boolean) => Promise<void>;
+  cancelMfa: () => void;
+  startSso: (providerId: string, redirectTo?: string) => Promise<void>;
+  completeSso: (code: string, state: string) => Promise<{ mfaRequired: boolean; redirectTo: string | null }>;
   register: (name: string, email: string, password: string) => Promise<void>;
   logout: () => void;
   loadStoredAuth: () => void;
@@ -52,6 +63,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
   isLoading: true,
   isAuthenticated: false,
   error: null,
+  mfaToken: null,
 
   login: async (email: string, password: string) => {
     set({ error: null });
@@ -126,6 +138,12 @@ export const useAuthStore = create<AuthState>((set, get) => ({
         set({ error: message });
         throw new Error(message);
       }
+
+      // Two-factor accounts: the code comes next (verifyMfa)
+      if (data.mfaRequired) {
+        set({ mfaToken: data.mfaToken, error: null });
+        return { mfaRequired: true };
+      }
       
       localStorage.setItem('accessToken', data.accessToken);
       localStorage.setItem('refreshToken', data.refreshToken);
@@ -140,6 +158,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       });
 
       toast.success('Welcome back!', `Logged in as ${data.user.name}`);
+      return { mfaRequired: false };
     } catch (error: any) {
       // Abort error (timeout)
       if (error.name === 'AbortError') {
@@ -169,6 +188,94 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     }
   },
 
+  verifyMfa: async (code: string, useRecoveryCode = false) => {
+    const { mfaToken } = get();
+    if (!mfaToken) throw new Error('Please sign in again');
+
+    const response = await fetch(`${API_URL}/api/auth/mfa/challenge`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(useRecoveryCode ? { mfaToken, recoveryCode: code } : { mfaToken, code }),
+    });
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      // The challenge expired or ran out of attempts: back to the password
+      if (data.code === 'mfa_challenge_invalid') set({ mfaToken: null });
+      throw new Error(data.error || 'Invalid authentication code');
+    }
+
+    localStorage.setItem('accessToken', data.accessToken);
+    localStorage.setItem('refreshToken', data.refreshToken);
+    localStorage.setItem('user', JSON.stringify(data.user));
+
+    set({
+      user: data.user,
+      accessToken: data.accessToken,
+      refreshToken: data.refreshToken,
+      isAuthenticated: true,
+      mfaToken: null,
+      error: null,
+    });
+
+    toast.success('Welcome back!', `Logged in as ${data.user.name}`);
+    if (typeof data.recoveryCodesRemaining === 'number' && data.recoveryCodesRemaining <= 3) {
+      toast.warning('Recovery Codes', `Only ${data.recoveryCodesRemaining} recovery codes left. Generate new ones in Settings.`);
+    }
+  },
+
+  cancelMfa: () => {
+    set({ mfaToken: null });
+  },
+
+  startSso: async (providerId: string, redirectTo?: string) => {
+    const response = await fetch(`${API_URL}/api/auth/oidc/${encodeURIComponent(providerId)}/start`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ redirectTo }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data.error || 'Single sign-on is unavailable');
+
+    // Leaves the app; the provider sends the browser back to /auth/callback
+    window.location.assign(data.authorizationUrl);
+  },
+
+  completeSso: async (code: string, state: string) => {
+    const response = await fetch(`${API_URL}/api/auth/oidc/callback`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code, state }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data.error || 'Single sign-on failed');
+
+    // Two-factor accounts: the code comes next (verifyMfa)
+    if (data.mfaRequired) {
+      set({ mfaToken: data.mfaToken, error: null });
+      return { mfaRequired: true, redirectTo: data.redirectTo || null };
+    }
+
+    localStorage.setItem('accessToken', data.accessToken);
+    localStorage.setItem('refreshToken', data.refreshToken);
+    localStorage.setItem('user', JSON.stringify(data.user));
+
+    set({
+      user: data.user,
+      accessToken: data.accessToken,
+      refreshToken: data.refreshToken,
+      isAuthenticated: true,
+      error: null,
+    });
+
+    if (data.created) {
+      toast.success('Account created!', `Welcome to AceTime, ${data.user.name}`);
+    } else {
+      toast.success('Welcome back!', `Logged in as ${data.user.name}`);
+    }
+    return { mfaRequired: false, redirectTo: data.redirectTo || null };
+  },
+
   register: async (name: string, email: string, password: string) => {
     set({ error: null });
     
@@ -254,6 +361,15 @@ export const useAuthStore = create<AuthState>((set, get) => ({
   },
 
   logout: () => {
+    // End this device's session on the server; other devices stay signed in
+    const { accessToken } = get();
+    if (accessToken) {
+      fetch(`${API_URL}/api/auth/logout`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${accessToken}` },
+      }).catch(() => {});
+    }
+
     localStorage.removeItem('accessToken');
     localStorage.removeItem('refreshToken');
     localStorage.removeItem('user');
@@ -362,7 +478,16 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       });
 
       if (!response.ok) {
-        // Refresh token expired, logout
+        const errorData = await response.json().catch(() => ({}));
+        // Another tab refreshed with the same token first: use what it stores
+        if (errorData.code === 'REFRESH_RACE') {
+          await new Promise(resolve => setTimeout(resolve, 1000));
+          const stored = localStorage.getItem('refreshToken');
+          if (!stored || stored === refreshToken) return false;
+          set({ accessToken: localStorage.getItem('accessToken'), refreshToken: stored });
+          return true;
+        }
+        // Refresh token expired or this device was signed out, logout
         get().logout();
         return false;
       }
@@ -3,6 +3,10 @@ import { io, Socket } from 'socket.io-client';
 import { toast } from '../components/Toast';
 import { parseApiError, getUserFriendlyMessage } from '../utils/errorHandler';
 import { useAuthStore } from './auth';
+import { createChunkedUpload, ChunkedUpload } from '../utils/chunkedUpload';
+import { SfuSession } from '../services/sfu';
+import { createStatsSampler, isCongested, QualitySample } from '../utils/callStats';
+import { keepSocketAuthenticated } from '../utils/socketAuth';
 
 // Use relative URL in production (when served from backend), absolute URL in development
 const getSocketUrl = () => {
@@ -34,7 +38,7 @@ interface TranscriptSegment {
   speaker: string;
   speakerId?: string;
   text: string;
-  timestamp: number;
+  timestamp: number; // ms from call start
 }
 
 interface AINotes {
@@ -54,6 +58,41 @@ interface Participant {
   socketId: string;
 }
 
+type ConsentAnswer = 'granted' | 'declined' | 'pending';
+
+// Who was asked to consent to recording and transcription, and who is recording (from the server)
+export interface RecordingConsentState {
+  requestedBy: { userId: string; userName: string; at: number } | null;
+  participants: Array<{ userId: string; userName: string; consent: ConsentAnswer }>;
+  recording: Array<{ userId: string; userName: string }>;
+  allConsented: boolean;
+}
+
+// Someone waiting in the lobby for the host to let them in
+export interface LobbyRequest {
+  userId: string;
+  userName: string;
+  socketId: string;
+  at: number;
+}
+
+// Who may join the room, and who runs it (from the server)
+export interface RoomAccessState {
+  roomId: string;
+  mode: 'open' | 'invite' | 'lobby';
+  locked: boolean;
+  hostId: string;
+}
+
+// Someone in a call through a guest invite link, without an account
+export interface GuestSession {
+  id: string;
+  name: string;
+  roomId: string;
+  token: string;
+  expiresAt: string;
+}
+
 // Web Speech API types
 declare global {
   interface Window {
@@ -70,14 +109,24 @@ interface CallState {
   localStream: MediaStream | null;
   remoteStream: MediaStream | null; // Keep for backward compatibility (1-on-1 calls)
   remoteStreams: Map<string, MediaStream>; // Map of socketId -> remote stream (for multiple participants)
+  topology: 'mesh' | 'sfu'; // Group calls past a few participants go through the server's SFU
+  sfuSession: SfuSession | null;
   speechRecognition: any | null;
   callRecorder: MediaRecorder | null; // For recording the call
-  recordingChunks: Blob[]; // Store recording chunks
+  recordingUpload: ChunkedUpload | null; // Recording being uploaded as it is recorded
+  recorder: 'client' | 'server' | 'none'; // Who records this call (set by the server at call start)
+  recorderChunkMs: number; // Timeslice for the server recorder feed
+  recordingConsent: RecordingConsentState | null;
+  myRecordingConsent: ConsentAnswer; // Nothing of this participant is recorded or transcribed until 'granted'
   
   roomId: string | null;
   callId: string | null;
   userName: string | null; // Store user name for transcript
+  guest: GuestSession | null; // Set when joined through a guest invite link
   isHost: boolean;
+  roomAccess: RoomAccessState | null;
+  lobbyStatus: 'none' | 'waiting' | 'rejected'; // This user, in a room's lobby
+  lobbyRequests: LobbyRequest[]; // For the host: who is waiting
   callStatus: 'idle' | 'connecting' | 'waiting' | 'active' | 'ended';
   participants: Participant[];
   callStartTime: number | null; // Timestamp when call became active (for continuous duration)
@@ -94,11 +143,14 @@ interface CallState {
   
   error: string | null;
   
-  initSocket: (token: string, userName: string) => void;
+  initSocket: (token: string | null, userName: string) => void; // No token: connect as the guest
   disconnectSocket: () => void;
   createRoom: (token: string) => Promise<string>;
-  joinRoom: (roomId: string, token: string) => Promise<void>;
+  joinRoom: (roomId: string, token: string | null) => Promise<void>;
+  startGuestSession: (invite: string, name: string) => Promise<GuestSession>;
+  createGuestInvite: () => Promise<string | null>;
   leaveRoom: () => void;
+  joinSfu: () => Promise<void>;
   endCall: () => void;
   toggleMute: () => void;
   toggleVideo: () => void;
@@ -110,21 +162,237 @@ interface CallState {
   startSpeechRecognition: () => void;
   stopSpeechRecognition: () => void;
   startCallRecording: () => void;
+  startRecorderFeed: () => void;
   stopCallRecording: () => Promise<void>;
+  requestRecording: () => void;
+  respondToRecording: (granted: boolean) => void;
+  applyRecordingConsent: () => void;
+  admitFromLobby: (userId: string) => Promise<boolean>;
+  rejectFromLobby: (userId: string) => Promise<boolean>;
+  kickParticipant: (userId: string) => Promise<boolean>;
+  muteAll: () => Promise<boolean>;
+  setRoomLocked: (locked: boolean) => Promise<boolean>;
+  setRoomAccessMode: (mode: RoomAccessState['mode']) => Promise<boolean>;
+  transferHost: (userId: string) => Promise<boolean>;
   clearCall: () => void;
   minimizeCall: () => void;
   maximizeCall: () => void;
 }
 
-const ICE_SERVERS: RTCConfiguration = {
-  iceServers: [
-    { urls: 'stun:stun.l.google.com:19302' },
-    { urls: 'stun:stun1.l.google.com:19302' },
-    { urls: 'stun:stun2.l.google.com:19302' },
-    { urls: 'stun:stun3.l.google.com:19302' },
-    { urls: 'stun:stun4.l.google.com:19302' },
-  ],
+// STUN only - used until the server's ICE servers are loaded, or if that fails
+const FALLBACK_ICE_SERVERS: RTCIceServer[] = [
+  { urls: 'stun:stun.l.google.com:19302' },
+  { urls: 'stun:stun1.l.google.com:19302' },
+  { urls: 'stun:stun2.l.google.com:19302' },
+  { urls: 'stun:stun3.l.google.com:19302' },
+  { urls: 'stun:stun4.l.google.com:19302' },
+];
+
+// ICE servers from GET /api/rtc/ice-servers; their TURN credentials expire, so they are refreshed during a call
+let iceServers: { servers: RTCIceServer[]; expiresAt: number } | null = null;
+let iceRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+const rtcConfig = (): RTCConfiguration => ({
+  iceServers: iceServers?.servers || FALLBACK_ICE_SERVERS,
   iceCandidatePoolSize: 10, // Pre-gather candidates for faster connection
+});
+
+const loadIceServers = async (force = false): Promise<void> => {
+  // Guests from an invite link have no account, their guest token gets them TURN credentials
+  const token = useAuthStore.getState().accessToken;
+  const guestToken = useCallStore.getState().guest?.token;
+  if (!token && !guestToken) return;
+  if (!force && iceServers && iceServers.expiresAt - Date.now() > 60000) return;
+
+  try {
+    const response = await fetch(`${API_URL}/api/rtc/ice-servers`, {
+      headers: token ? { 'Authorization': `Bearer ${token}` } : { 'X-Guest-Token': guestToken! },
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const data = await response.json();
+    iceServers = { servers: data.iceServers, expiresAt: Date.parse(data.expiresAt) };
+    console.log('[ICE] ✅ Loaded ICE servers', data.region ? `(TURN region ${data.region})` : '(no TURN)');
+  } catch (error: any) {
+    console.warn('[ICE] ⚠️ Could not load ICE servers, using STUN only:', error.message);
+  }
+};
+
+const stopIceRefresh = () => {
+  if (iceRefreshTimer) clearTimeout(iceRefreshTimer);
+  iceRefreshTimer = null;
+};
+
+// Renew the TURN credentials before they expire and hand them to every open connection,
+// so an ICE restart late in a long call can still use the relay
+const scheduleIceRefresh = () => {
+  stopIceRefresh();
+  if (!iceServers) return;
+  const delay = Math.max(30000, (iceServers.expiresAt - Date.now()) * 0.8);
+
+  iceRefreshTimer = setTimeout(async () => {
+    await loadIceServers(true);
+    const { peerConnection, peerConnections, sfuSession, roomId } = useCallStore.getState();
+    if (!roomId) return;
+
+    const config = rtcConfig();
+    [peerConnection, ...Array.from(peerConnections.values())].forEach((pc) => {
+      if (!pc || pc.signalingState === 'closed') return;
+      try {
+        pc.setConfiguration({ ...pc.getConfiguration(), iceServers: config.iceServers });
+      } catch (error: any) {
+        console.warn('[ICE] ⚠️ Could not update peer connection ICE servers:', error.message);
+      }
+    });
+    sfuSession?.updateIceServers(config.iceServers || []);
+    scheduleIceRefresh();
+  }, delay);
+};
+
+// This participant's id as the server knows it (guests have a guest-<id> of their own)
+const currentUserId = () =>
+  useAuthStore.getState().user?._id || useCallStore.getState().guest?.id || null;
+
+// A guest session lasts as long as the tab, so a reload rejoins the same call
+const GUEST_SESSION_KEY = 'guestSession';
+
+const loadGuestSession = (): GuestSession | null => {
+  try {
+    const guest: GuestSession | null = JSON.parse(sessionStorage.getItem(GUEST_SESSION_KEY) || 'null');
+    return guest && Date.parse(guest.expiresAt) > Date.now() ? guest : null;
+  } catch {
+    return null;
+  }
+};
+
+// Stops keeping the call socket's access token fresh (signed-in users only)
+let stopSocketAuth: (() => void) | null = null;
+
+// Tell the room this browser is (not) recording; the server refuses without consent
+const reportRecording = (socket: Socket | null, active: boolean): Promise<boolean> =>
+  new Promise((resolve) => {
+    if (!socket?.connected) {
+      resolve(false);
+      return;
+    }
+    socket.timeout(5000).emit('recording:status', { active }, (error: any, accepted: boolean) => {
+      resolve(!error && accepted);
+    });
+  });
+
+// Host controls answer through the ack; a refusal is shown and resolves false
+const hostRequest = (socket: Socket | null, event: string, data: any = {}): Promise<boolean> =>
+  new Promise((resolve) => {
+    if (!socket?.connected) {
+      resolve(false);
+      return;
+    }
+    socket.timeout(10000).emit(event, data, (error: any, response: { error?: string }) => {
+      const message = error ? 'The server did not answer' : response?.error;
+      if (message) toast.error('Host Controls', message);
+      resolve(!message);
+    });
+  });
+
+// Call quality telemetry: every connection's getStats() is sampled and sent to the server
+const QUALITY_SAMPLE_INTERVAL_MS = 5000;
+// With bandwidth 'auto', video is sent at 1/scale resolution while the connection struggles
+const SEND_SCALES = [1, 2, 4];
+const CONGESTED_SAMPLES_TO_STEP_DOWN = 2;
+const CLEAR_SAMPLES_TO_STEP_UP = 6;
+
+const statsSampler = createStatsSampler();
+let qualityTimer: ReturnType<typeof setInterval> | null = null;
+let sendScaleLevel = 0;
+let congestedStreak = 0;
+let clearStreak = 0;
+
+const applySendScale = async (level: number) => {
+  const { peerConnections, sfuSession } = useCallStore.getState();
+  const scale = SEND_SCALES[level];
+  sendScaleLevel = level;
+  console.log(`[QUALITY] 📉 Sending video at 1/${scale} resolution`);
+
+  if (sfuSession) {
+    // Simulcast: stop sending the top layers instead
+    await sfuSession.setMaxSendLayer(sfuSession.sendLayers - 1 - level).catch(() => {});
+    return;
+  }
+  for (const pc of Array.from(peerConnections.values())) {
+    const sender = pc.getSenders().find(s => s.track?.kind === 'video');
+    if (!sender) continue;
+    const params = sender.getParameters();
+    if (!params.encodings?.length) continue;
+    params.encodings.forEach(encoding => { encoding.scaleResolutionDownBy = scale; });
+    await sender.setParameters(params).catch((error: any) => {
+      console.warn('[QUALITY] ⚠️ Could not change send resolution:', error.message);
+    });
+  }
+};
+
+// Lower the resolution we send while congested, and raise it again once the connection recovers
+const adaptSendResolution = async (samples: QualitySample[]) => {
+  const bandwidth = useAuthStore.getState().user?.settings?.callQuality?.bandwidth ?? 'auto';
+  if (bandwidth !== 'auto') {
+    if (sendScaleLevel !== 0) await applySendScale(0);
+    return;
+  }
+
+  if (samples.some(isCongested)) {
+    congestedStreak++;
+    clearStreak = 0;
+  } else {
+    clearStreak++;
+    congestedStreak = 0;
+  }
+  if (congestedStreak >= CONGESTED_SAMPLES_TO_STEP_DOWN && sendScaleLevel < SEND_SCALES.length - 1) {
+    congestedStreak = 0;
+    await applySendScale(sendScaleLevel + 1);
+  } else if (clearStreak >= CLEAR_SAMPLES_TO_STEP_UP && sendScaleLevel > 0) {
+    clearStreak = 0;
+    await applySendScale(sendScaleLevel - 1);
+  }
+};
+
+const sampleCallQuality = async () => {
+  const { socket, peerConnections, sfuSession, participants, callStatus } = useCallStore.getState();
+  if (!socket?.connected || callStatus !== 'active') return;
+
+  const samples: QualitySample[] = [];
+  try {
+    if (sfuSession) {
+      samples.push(statsSampler.sample('sfu', await sfuSession.getStats()));
+    } else {
+      for (const [socketId, pc] of Array.from(peerConnections.entries())) {
+        if (pc.connectionState !== 'connected') continue;
+        samples.push({
+          ...statsSampler.sample(socketId, [await pc.getStats()]),
+          peerName: participants.find(p => p.socketId === socketId)?.userName,
+        });
+      }
+    }
+  } catch (error: any) {
+    console.warn('[QUALITY] ⚠️ getStats failed:', error.message);
+    return;
+  }
+  if (samples.length === 0) return;
+
+  await adaptSendResolution(samples);
+  samples.forEach(sample => { sample.sendScale = SEND_SCALES[sendScaleLevel]; });
+  socket.emit('quality:report', { samples });
+};
+
+const startQualityMonitor = () => {
+  if (qualityTimer) clearInterval(qualityTimer);
+  statsSampler.reset();
+  sendScaleLevel = 0;
+  congestedStreak = 0;
+  clearStreak = 0;
+  qualityTimer = setInterval(sampleCallQuality, QUALITY_SAMPLE_INTERVAL_MS);
+};
+
+const stopQualityMonitor = () => {
+  if (qualityTimer) clearInterval(qualityTimer);
+  qualityTimer = null;
 };
 
 export const useCallStore = create<CallState>((set, get) => ({
@@ -135,14 +403,24 @@ export const useCallStore = create<CallState>((set, get) => ({
   localStream: null,
   remoteStream: null,
   remoteStreams: new Map<string, MediaStream>(),
+  topology: 'mesh',
+  sfuSession: null,
   speechRecognition: null,
   callRecorder: null,
-  recordingChunks: [],
+  recordingUpload: null,
+  recorder: 'client',
+  recorderChunkMs: 1000,
+  recordingConsent: null,
+  myRecordingConsent: 'pending',
   
   roomId: null,
   callId: null,
   userName: null,
+  guest: loadGuestSession(),
   isHost: false,
+  roomAccess: null,
+  lobbyStatus: 'none',
+  lobbyRequests: [],
   callStatus: 'idle',
   participants: [],
   callStartTime: null,
@@ -159,7 +437,7 @@ export const useCallStore = create<CallState>((set, get) => ({
   
   error: null,
 
-  initSocket: (token: string, userName: string) => {
+  initSocket: (token: string | null, userName: string) => {
     const existingSocket = get().socket;
     if (existingSocket?.connected) {
       console.log('[SOCKET] Already connected, skipping initialization');
@@ -175,8 +453,9 @@ export const useCallStore = create<CallState>((set, get) => ({
     // Store user name for transcript
     set({ userName });
 
+    const guest = get().guest;
     const socket = io(SOCKET_URL, {
-      auth: { token, userName },
+      auth: token ? { token } : { guestToken: guest?.token },
       transports: ['websocket', 'polling'], // Fallback to polling if websocket fails
       reconnection: true,
       reconnectionDelay: 1000,
@@ -189,6 +468,8 @@ export const useCallStore = create<CallState>((set, get) => ({
     
     // Store socket immediately so joinRoom can access it
     set({ socket });
+    stopSocketAuth?.();
+    stopSocketAuth = token ? keepSocketAuthenticated(socket) : null;
     
     console.log('[SOCKET] Initializing connection to:', SOCKET_URL);
     console.log('[SOCKET] Socket instance created, waiting for connection...');
@@ -211,6 +492,14 @@ export const useCallStore = create<CallState>((set, get) => ({
     
     socket.on('connect_error', (error: any) => {
       connectionAttempts++;
+
+      // The invite link was revoked or ran out; retrying won't help
+      if (error.data?.code === 'guest_invalid') {
+        sessionStorage.removeItem(GUEST_SESSION_KEY);
+        set({ guest: null, error: error.message, callStatus: 'ended' });
+        toast.error('Cannot Join Call', error.message);
+        return;
+      }
       
       // Log error for debugging
       console.warn('[SOCKET] ⚠️ Connection error (will retry):', error.message, `Attempt ${connectionAttempts}`);
@@ -249,27 +538,36 @@ export const useCallStore = create<CallState>((set, get) => ({
       errorToastShown = false;
     });
     
-    socket.on('reconnect', (attemptNumber) => {
+    // Reconnection events come from the manager (socket.io), not the socket
+    socket.io.on('reconnect', (attemptNumber) => {
       console.log('[SOCKET] ✅ Reconnected after', attemptNumber, 'attempts');
       // Only show toast if it took multiple attempts (significant reconnection)
       if (attemptNumber > 3) {
         toast.success('Reconnected', 'Connection restored');
       }
       
-      // Rejoin room if we were in one
-      const { roomId } = get();
-      if (roomId && socket.connected) {
-        console.log('[SOCKET] Rejoining room after reconnect:', roomId);
-        socket.emit('room:join', { roomId });
+      // Rejoin room if we were in one; the server rebuilds it if it restarted
+      // and the call resumes with its original start time
+      const rejoin = () => {
+        const { roomId, callStatus } = get();
+        if (roomId && callStatus !== 'ended') {
+          console.log('[SOCKET] Rejoining room after reconnect:', roomId);
+          socket.emit('room:join', { roomId });
+        }
+      };
+      if (socket.connected) {
+        rejoin();
+      } else {
+        socket.once('connect', rejoin);
       }
     });
     
-    socket.on('reconnect_error', (error) => {
+    socket.io.on('reconnect_error', (error) => {
       // Only log, don't show error - Socket.IO will keep trying
       console.warn('[SOCKET] ⚠️ Reconnection attempt failed (will retry):', error.message || error);
     });
     
-    socket.on('reconnect_failed', () => {
+    socket.io.on('reconnect_failed', () => {
       console.error('[SOCKET] ❌ Reconnection failed - giving up');
       toast.error('Connection Failed', 'Unable to reconnect. Please refresh the page.');
     });
@@ -285,6 +583,14 @@ export const useCallStore = create<CallState>((set, get) => ({
       }
     });
 
+    // This device was signed out (from Settings on another device, or a stolen refresh token was used)
+    socket.on('session:revoked', () => {
+      console.warn('[SOCKET] 🔒 Session revoked');
+      get().clearCall();
+      useAuthStore.getState().logout();
+      window.location.href = '/login';
+    });
+
     socket.on('error', (error: any) => {
       console.error('Socket error:', error);
       const message = error.message || 'An error occurred';
@@ -292,6 +598,75 @@ export const useCallStore = create<CallState>((set, get) => ({
       toast.error('Error', message);
     });
 
+    // Server refused the join (host's privacy settings or a block)
+    socket.on('room:denied', (data: { roomId: string; reason: string; message: string }) => {
+      console.warn('[JOIN] 🚫 Room join denied:', data.reason);
+      set({ error: data.message, callStatus: 'ended' });
+      toast.error('Cannot Join Call', data.message);
+    });
+
+    // The server refused an event this connection isn't allowed to send
+    socket.on('auth:denied', (data: { event: string; reason: string }) => {
+      console.warn(`[SOCKET] 🚫 ${data.event} refused:`, data.reason);
+    });
+
+    // Lobby: wait until the host admits or rejects us
+    socket.on('lobby:waiting', (data: { roomId: string }) => {
+      console.log('[LOBBY] ⏳ Waiting for the host in room', data.roomId);
+      set({ lobbyStatus: 'waiting', roomId: data.roomId });
+    });
+
+    socket.on('lobby:admitted', (data: { roomId: string }) => {
+      if (data.roomId !== get().roomId) return;
+      console.log('[LOBBY] ✅ Admitted to room', data.roomId);
+      set({ lobbyStatus: 'none' });
+      toast.success('Admitted', 'The host let you in');
+      socket.emit('room:join', { roomId: data.roomId });
+    });
+
+    socket.on('lobby:rejected', (data: { roomId: string; message: string }) => {
+      if (data.roomId !== get().roomId) return;
+      set({ lobbyStatus: 'rejected', error: data.message, callStatus: 'ended' });
+      toast.error('Cannot Join Call', data.message);
+    });
+
+    // For the host: who is waiting
+    socket.on('lobby:state', (data: { roomId: string; waiting: LobbyRequest[] }) => {
+      if (data.roomId !== get().roomId) return;
+      set({ lobbyRequests: data.waiting });
+    });
+
+    socket.on('lobby:request', (data: LobbyRequest & { roomId: string }) => {
+      if (data.roomId !== get().roomId) return;
+      toast.info('Waiting to Join', `${data.userName} wants to join this call`);
+    });
+
+    socket.on('room:access', (access: RoomAccessState) => {
+      if (access.roomId !== get().roomId) return;
+      set({ roomAccess: access });
+    });
+
+    socket.on('room:host', (data: { roomId: string; hostId: string; hostName: string }) => {
+      if (data.roomId !== get().roomId) return;
+      const isHost = data.hostId === currentUserId();
+      set({ isHost, lobbyRequests: isHost ? get().lobbyRequests : [] });
+      toast.info('New Host', isHost ? 'You are now the host' : `${data.hostName} is now the host`);
+    });
+
+    socket.on('room:mute', (data: { roomId: string; by: string }) => {
+      if (data.roomId !== get().roomId) return;
+      if (!get().isMuted) get().toggleMute();
+      toast.warning('Muted', `${data.by} muted everyone`);
+    });
+
+    socket.on('room:kicked', async (data: { roomId: string; by: string }) => {
+      if (data.roomId !== get().roomId) return;
+      const message = `${data.by} removed you from the call`;
+      await get().leaveRoom();
+      set({ error: message, callStatus: 'ended' });
+      toast.error('Removed From Call', message);
+    });
+
     socket.on('room:joined', (data) => {
       // Filter out current user from participants list and remove duplicates
       const authUser = useAuthStore.getState().user;
@@ -326,7 +701,28 @@ export const useCallStore = create<CallState>((set, get) => ({
         callId: data.callId,
         participants: filteredParticipants,
         callStatus: data.callStarted ? 'active' : 'waiting',
+        // Joining (or rejoining) a call in progress keeps its original start
+        callStartTime: data.callStarted
+          ? get().callStartTime || data.callStartedAt || Date.now()
+          : get().callStartTime,
+        recorder: data.recorder || 'client',
+        recorderChunkMs: data.recorderChunkMs || 1000,
+        recordingConsent: data.consent || null,
+        topology: data.topology || 'mesh',
+        roomAccess: data.access || null,
+        isHost: data.access ? data.access.hostId === currentUserId : get().isHost,
+        lobbyStatus: 'none',
+        lobbyRequests: data.lobby || [],
       });
+      get().applyRecordingConsent();
+      if (data.topology === 'sfu') get().joinSfu();
+    });
+
+    // The room outgrew the mesh: everyone moves to the SFU
+    socket.on('media:topology', (data: { roomId: string; topology: 'mesh' | 'sfu' }) => {
+      if (data.roomId !== get().roomId || data.topology === get().topology) return;
+      console.log('[SFU] 🔀 Room switched to', data.topology);
+      if (data.topology === 'sfu') get().joinSfu();
     });
 
     socket.on('user:joined', async (data) => {
@@ -379,6 +775,9 @@ export const useCallStore = create<CallState>((set, get) => ({
         };
       });
       
+      // On the SFU, the new participant's media arrives as sfu:producer:new
+      if (get().topology === 'sfu') return;
+
       // CRITICAL: Create peer connection for this new participant
       // For multi-user calls, ALL existing participants create peer connections and offers for new joiners
       // This ensures proper peer-to-peer mesh connectivity
@@ -387,7 +786,7 @@ export const useCallStore = create<CallState>((set, get) => ({
       // Create a new peer connection for this participant if it doesn't exist
       if (localStream && !peerConnections.has(data.socketId)) {
         console.log('[WEBRTC] 🔗 Creating peer connection for new participant:', data.socketId);
-        const pc = new RTCPeerConnection(ICE_SERVERS);
+        const pc = new RTCPeerConnection(rtcConfig());
         
         // CRITICAL: Set up event handlers FIRST (including ontrack)
         // This ensures we can receive remote tracks when they arrive
@@ -467,7 +866,12 @@ export const useCallStore = create<CallState>((set, get) => ({
     });
 
     socket.on('signal:offer', async (data) => {
-      const { peerConnections, localStream, pendingIceCandidates } = get();
+      const { peerConnections, localStream, pendingIceCandidates, topology } = get();
+      
+      if (topology === 'sfu') {
+        console.log('[WEBRTC] ℹ️ Ignoring mesh offer - room is on the SFU');
+        return;
+      }
       
       if (!localStream) {
         console.error('[WEBRTC] ❌ Cannot handle offer - no local stream');
@@ -479,7 +883,7 @@ export const useCallStore = create<CallState>((set, get) => ({
       let pc = peerConnections.get(data.fromId);
       if (!pc) {
         console.log('[WEBRTC] 🔗 Creating new peer connection for participant:', data.fromId);
-        pc = new RTCPeerConnection(ICE_SERVERS);
+        pc = new RTCPeerConnection(rtcConfig());
         
         // CRITICAL: Set up event handlers BEFORE any signaling
         // This ensures ontrack handler is ready when remote tracks arrive
@@ -771,8 +1175,9 @@ export const useCallStore = create<CallState>((set, get) => ({
       set({
         callStatus: 'active',
         callId: data.callId,
-        isRecording: true, // Set flag, actual recording will start when streams are ready
         callStartTime: startTime, // Store start time for continuous duration
+        recorder: data.recorder || 'client',
+        recorderChunkMs: data.recorderChunkMs || 1000,
       });
       // Start speech recognition for transcription
       // Ensure socket is connected first
@@ -820,6 +1225,31 @@ export const useCallStore = create<CallState>((set, get) => ({
       await get().stopCallRecording();
     });
 
+    socket.on('recording:request', (data: { userId: string; userName: string }) => {
+      toast.info('Recording Requested', `${data.userName} wants to record and transcribe this call`);
+    });
+
+    socket.on('recording:state', (state: RecordingConsentState) => {
+      set({ recordingConsent: state });
+      get().applyRecordingConsent();
+    });
+
+    // The server dropped our audio or transcript: we haven't consented (anymore)
+    socket.on('recording:refused', () => {
+      console.warn('[CONSENT] ⚠️ Transcript refused, consent required');
+      get().stopSpeechRecognition();
+    });
+
+    // Live transcription is paused: the AI rate limit or today's credits ran out
+    socket.on('quota:exceeded', (data: { feature: string; reason: 'rate_limited' | 'credits_exhausted'; retryAfter: number }) => {
+      console.warn(`[QUOTA] 🚦 ${data.feature} paused (${data.reason}), retry in ${data.retryAfter}s`);
+      if (data.reason === 'credits_exhausted') {
+        toast.warning('Transcription Paused', "Today's AI credits are used up. Transcription resumes when they reset.");
+      } else {
+        toast.warning('Transcription Paused', 'Too much audio at once. Transcription will catch up shortly.');
+      }
+    });
+
     socket.on('transcript:chunk', (segment: TranscriptSegment) => {
       console.log('[TRANSCRIPT] ✅ Received transcript chunk:', {
         speaker: segment.speaker,
@@ -827,8 +1257,6 @@ export const useCallStore = create<CallState>((set, get) => ({
         text: segment.text.substring(0, 100) + (segment.text.length > 100 ? '...' : ''),
         fullTextLength: segment.text.length,
         timestamp: segment.timestamp,
-        currentTime: Date.now(),
-        timeDiff: Date.now() - segment.timestamp,
       });
       const authUser = useAuthStore.getState().user;
       const currentUserId = authUser?._id;
@@ -961,6 +1389,8 @@ export const useCallStore = create<CallState>((set, get) => ({
     if (socket) {
       socket.disconnect();
     }
+    stopSocketAuth?.();
+    stopSocketAuth = null;
     
     set({
       socket: null,
@@ -1020,7 +1450,55 @@ export const useCallStore = create<CallState>((set, get) => ({
     }
   },
 
-  joinRoom: async (roomId: string, token: string) => {
+  // Trade an invite link for a guest identity in its call (no account needed)
+  startGuestSession: async (invite: string, name: string) => {
+    const response = await fetch(`${API_URL}/api/rooms/guest-invites/redeem`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ invite, name }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || 'This invite link does not work');
+    }
+
+    const guest: GuestSession = {
+      id: data.guest.id,
+      name: data.guest.name,
+      roomId: data.roomId,
+      token: data.guestToken,
+      expiresAt: data.expiresAt,
+    };
+    sessionStorage.setItem(GUEST_SESSION_KEY, JSON.stringify(guest));
+    set({ guest });
+    return guest;
+  },
+
+  // For the host: a link that lets someone without an account into this call
+  createGuestInvite: async () => {
+    const { roomId } = get();
+    const { accessToken } = useAuthStore.getState();
+    if (!roomId || !accessToken) return null;
+
+    try {
+      const response = await fetch(`${API_URL}/api/rooms/${roomId}/guest-invites`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${accessToken}` },
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error('Could Not Create Link', data.error || 'Please try again.');
+        return null;
+      }
+      return data.url as string;
+    } catch (error: any) {
+      console.error('[GUEST] Failed to create guest invite:', error);
+      toast.error('Could Not Create Link', 'Please try again.');
+      return null;
+    }
+  },
+
+  joinRoom: async (roomId: string, token: string | null) => {
     set({ error: null, callStatus: 'connecting' });
     
     // Wait for socket to be connected (with timeout)
@@ -1076,47 +1554,54 @@ export const useCallStore = create<CallState>((set, get) => ({
       await waitForSocket();
       console.log('[JOIN] ✅ Socket connected, proceeding with room join');
 
-      const response = await fetch(`${API_URL}/api/rooms/${roomId}/join`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
+      // Guests were let in by their invite; room:join below checks it again
+      if (!token) {
+        set({ isHost: false, roomId, lobbyStatus: 'none', error: null });
+      } else {
+        const response = await fetch(`${API_URL}/api/rooms/${roomId}/join`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json',
+          },
+        });
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
         
-        if (response.status === 401) {
-          localStorage.removeItem('accessToken');
-          localStorage.removeItem('refreshToken');
-          localStorage.removeItem('user');
-          toast.error('Session Expired', 'Please login again.');
-          window.location.href = '/login';
-          throw new Error('Session expired');
-        }
+          if (response.status === 401) {
+            localStorage.removeItem('accessToken');
+            localStorage.removeItem('refreshToken');
+            localStorage.removeItem('user');
+            toast.error('Session Expired', 'Please login again.');
+            window.location.href = '/login';
+            throw new Error('Session expired');
+          }
         
-        if (response.status === 404) {
-          const message = 'Room not found. Please check the room code.';
+          if (response.status === 404) {
+            const message = 'Room not found. Please check the room code.';
+            set({ error: message });
+            toast.error('Room Not Found', message);
+            throw new Error(message);
+          }
+        
+          const error = parseApiError(errorData);
+          const message = getUserFriendlyMessage(error);
           set({ error: message });
-          toast.error('Room Not Found', message);
+          toast.error('Failed to Join Room', message);
           throw new Error(message);
         }
-        
-        const error = parseApiError(errorData);
-        const message = getUserFriendlyMessage(error);
-        set({ error: message });
-        toast.error('Failed to Join Room', message);
-        throw new Error(message);
-      }
 
-      const data = await response.json();
-      set({
-        isHost: data.isHost,
-        callId: data.callId,
-        roomId,
-        error: null,
-      });
+        const data = await response.json();
+        set({
+          isHost: data.isHost,
+          callId: data.callId,
+          roomId,
+          // 202: room:join below puts us in the lobby
+          lobbyStatus: data.lobby ? 'waiting' : 'none',
+          error: null,
+        });
+      }
     } catch (error: any) {
       if (error instanceof TypeError && error.message === 'Failed to fetch') {
         console.error('[ROOM] Network error - server may not be running on', API_URL);
@@ -1204,7 +1689,11 @@ export const useCallStore = create<CallState>((set, get) => ({
     // For multiple participants, we'll create peer connections on-demand when offers are received
     // The main peerConnection is kept for backward compatibility (1-on-1 calls)
     console.log('[WEBRTC] 🚀 Setting up WebRTC for room:', roomId);
-    const pc = new RTCPeerConnection(ICE_SERVERS);
+    // TURN credentials first, so every connection of this call can fall back to the relay
+    await loadIceServers();
+    scheduleIceRefresh();
+    startQualityMonitor();
+    const pc = new RTCPeerConnection(rtcConfig());
 
     // CRITICAL: Add all tracks to peer connection BEFORE any signaling
     console.log('[WEBRTC] 📤 Adding local tracks to peer connection...');
@@ -1498,7 +1987,6 @@ export const useCallStore = create<CallState>((set, get) => ({
           const startTime = callStartTime || Date.now();
           set({ 
             callStatus: 'active', 
-            isRecording: true,
             callStartTime: startTime, // Store start time for continuous duration
           });
       // Start speech recognition for transcription when connected
@@ -1591,7 +2079,7 @@ export const useCallStore = create<CallState>((set, get) => ({
   },
 
   leaveRoom: async () => {
-    const { socket, roomId, localStream, peerConnection, peerConnections } = get();
+    const { socket, roomId, localStream, peerConnection, peerConnections, sfuSession, lobbyStatus } = get();
     
     console.log('[LEAVE] Leaving room:', roomId);
     
@@ -1603,7 +2091,7 @@ export const useCallStore = create<CallState>((set, get) => ({
     // Emit leave event (but don't disconnect socket - let it reconnect)
     if (socket && roomId && socket.connected) {
       console.log('[LEAVE] Emitting room:leave event');
-      socket.emit('room:leave');
+      socket.emit(lobbyStatus === 'waiting' ? 'lobby:leave' : 'room:leave');
     }
     
     // Stop all media tracks immediately
@@ -1629,6 +2117,9 @@ export const useCallStore = create<CallState>((set, get) => ({
         console.warn('[LEAVE] Error closing peer connection:', error.message);
       }
     });
+    sfuSession?.close();
+    stopIceRefresh();
+    stopQualityMonitor();
     
     // Don't disconnect socket - let it stay connected for reconnection
     // Only disconnect if explicitly requested (e.g., logout)
@@ -1641,9 +2132,14 @@ export const useCallStore = create<CallState>((set, get) => ({
       localStream: null,
       remoteStream: null,
       remoteStreams: new Map(),
+      topology: 'mesh',
+      sfuSession: null,
       roomId: null,
       callId: null,
       isHost: false,
+      roomAccess: null,
+      lobbyStatus: 'none',
+      lobbyRequests: [],
       callStatus: 'idle',
       participants: [],
       transcript: [],
@@ -1658,6 +2154,61 @@ export const useCallStore = create<CallState>((set, get) => ({
     console.log('[LEAVE] Room left, socket remains connected for reconnection');
   },
 
+  joinSfu: async () => {
+    const { socket, localStream, peerConnections, sfuSession } = get();
+    if (!socket) return;
+
+    // A rejoin after reconnecting starts over with the new socket
+    sfuSession?.close();
+    // The router replaces the mesh
+    peerConnections.forEach((pc) => {
+      try {
+        pc.close();
+      } catch (error: any) {
+        console.warn('[SFU] Error closing peer connection:', error.message);
+      }
+    });
+
+    const session = new SfuSession(socket, rtcConfig().iceServers);
+    session.onTrack = (socketId, track) => {
+      if (get().sfuSession !== session) return;
+      const { remoteStreams } = get();
+      const tracks = remoteStreams.get(socketId)?.getTracks().filter(t => t.kind !== track.kind) || [];
+      // A new MediaStream object so React re-renders
+      remoteStreams.set(socketId, new MediaStream([...tracks, track]));
+      set({ remoteStreams: new Map(remoteStreams) });
+    };
+    session.onTrackEnded = (socketId, track) => {
+      if (get().sfuSession !== session) return;
+      const { remoteStreams } = get();
+      const stream = remoteStreams.get(socketId);
+      if (!stream) return;
+      const tracks = stream.getTracks().filter(t => t.id !== track.id);
+      if (tracks.length > 0) remoteStreams.set(socketId, new MediaStream(tracks));
+      else remoteStreams.delete(socketId);
+      set({ remoteStreams: new Map(remoteStreams) });
+    };
+
+    set({
+      topology: 'sfu',
+      sfuSession: session,
+      peerConnections: new Map(),
+      pendingIceCandidates: new Map(),
+      remoteStreams: new Map(),
+    });
+
+    try {
+      await session.join(localStream);
+    } catch (error: any) {
+      console.error('[SFU] ❌ Failed to join the SFU:', error.message);
+      if (get().sfuSession === session) {
+        session.close();
+        set({ sfuSession: null });
+      }
+      toast.error('Connection Error', 'Failed to connect to the media server');
+    }
+  },
+
   endCall: async () => {
     const { socket, localStream, peerConnection, roomId } = get();
     
@@ -1997,6 +2548,12 @@ export const useCallStore = create<CallState>((set, get) => ({
       console.log('[SPEECH] Speech recognition already active');
       return;
     }
+
+    // Nothing is transcribed before this participant consents
+    if (get().myRecordingConsent !== 'granted') {
+      console.log('[SPEECH] Waiting for recording consent');
+      return;
+    }
     
     // Allow speech recognition even without socket (for local display)
     if (!socket || !socket.connected) {
@@ -2088,11 +2645,12 @@ export const useCallStore = create<CallState>((set, get) => ({
           }
           
           // Create segment for local display (fallback if server doesn't respond)
+          const { callStartTime } = get();
           const localSegment: TranscriptSegment = {
             speaker: currentUserName || 'You',
             speakerId: authUser?._id,
             text: finalTranscript.trim(),
-            timestamp: Date.now(),
+            timestamp: callStartTime ? Date.now() - callStartTime : 0,
           };
           
           // Show locally immediately for better UX
@@ -2292,6 +2850,11 @@ export const useCallStore = create<CallState>((set, get) => ({
       console.log('[RECORDING] ⚠️ No call ID, skipping recording');
       return;
     }
+
+    if (get().myRecordingConsent !== 'granted') {
+      console.log('[RECORDING] Waiting for recording consent');
+      return;
+    }
     
     if (!localStream) {
       console.log('[RECORDING] ⚠️ No local stream available');
@@ -2304,6 +2867,30 @@ export const useCallStore = create<CallState>((set, get) => ({
       toast.error('Recording Not Supported', 'MediaRecorder API is not available');
       return;
     }
+
+    // The host turned auto-record off, or the server records the call itself
+    const { recorder: recorderMode } = get();
+    if (recorderMode === 'none') {
+      console.log('[RECORDING] Auto-record is off for this call');
+      set({ isRecording: false });
+      return;
+    }
+    if (recorderMode === 'server') {
+      get().startRecorderFeed();
+      return;
+    }
+
+    // A browser recording has everyone in it: whoever asked for it records,
+    // once everyone consented
+    const { recordingConsent } = get();
+    if (recordingConsent?.requestedBy?.userId !== currentUserId()) {
+      console.log('[RECORDING] Another participant records this call');
+      return;
+    }
+    if (!recordingConsent?.allConsented) {
+      console.log('[RECORDING] Waiting for everyone to consent');
+      return;
+    }
     
     try {
       console.log('[RECORDING] 🎬 Starting call recording...');
@@ -2381,18 +2968,22 @@ export const useCallStore = create<CallState>((set, get) => ({
         videoBitsPerSecond: 2500000, // 2.5 Mbps for good quality/size balance
       });
       
-      // CRITICAL: Clear previous chunks and store in state
-      set({ recordingChunks: [] });
+      // Call time at the first frame, so the transcript can follow playback
+      const recordingOffsetMs = Math.max(0, Date.now() - (get().callStartTime || Date.now()));
+
+      // Upload while recording: if the tab crashes, the server saves what was already
+      // sent as the recording once the upload has sat idle for a while
+      const upload = createChunkedUpload(API_URL, () => localStorage.getItem('accessToken'), {
+        kind: 'recording',
+        callId,
+        contentType: selectedMimeType || 'video/webm',
+        offsetMs: recordingOffsetMs,
+      });
+      set({ recordingUpload: upload });
       
       recorder.ondataavailable = (event) => {
         if (event.data && event.data.size > 0) {
-          console.log('[RECORDING] 📦 Chunk received:', {
-            size: event.data.size,
-            type: event.data.type,
-          });
-          set((state) => ({
-            recordingChunks: [...state.recordingChunks, event.data],
-          }));
+          upload.push(event.data);
         }
       };
       
@@ -2403,76 +2994,39 @@ export const useCallStore = create<CallState>((set, get) => ({
       };
       
       recorder.onstop = async () => {
-        console.log('[RECORDING] ⏹️ Recording stopped, preparing upload...');
-        const { callId: currentCallId, recordingChunks: finalChunks } = get();
+        console.log('[RECORDING] ⏹️ Recording stopped, finishing upload...');
+        reportRecording(get().socket, false);
+        const { sentBytes, pendingBytes } = upload.progress();
         
-        if (finalChunks.length === 0) {
-          console.warn('[RECORDING] ⚠️ No recording chunks collected');
-          set({ callRecorder: null, isRecording: false, recordingChunks: [] });
-          return;
-        }
-        
-        if (!currentCallId) {
-          console.error('[RECORDING] ❌ No call ID for upload');
-          set({ callRecorder: null, isRecording: false, recordingChunks: [] });
+        if (sentBytes + pendingBytes === 0) {
+          console.warn('[RECORDING] ⚠️ No recording data collected');
+          await upload.cancel();
+          set({ callRecorder: null, isRecording: false, recordingUpload: null });
           return;
         }
         
         try {
-          console.log('[RECORDING] 📤 Creating blob from', finalChunks.length, 'chunks...');
-          const blob = new Blob(finalChunks, { type: selectedMimeType || 'video/webm' });
-          console.log('[RECORDING] ✅ Blob created:', {
-            size: blob.size,
-            type: blob.type,
-            sizeMB: (blob.size / (1024 * 1024)).toFixed(2),
-          });
-          
-          const formData = new FormData();
-          const filename = `recording-${currentCallId}-${Date.now()}.webm`;
-          formData.append('recording', blob, filename);
-          
-          const token = localStorage.getItem('accessToken');
-          if (!token) {
-            console.error('[RECORDING] ❌ No access token available');
-            toast.error('Upload Failed', 'Authentication required');
-            set({ callRecorder: null, isRecording: false, recordingChunks: [] });
-            return;
-          }
-          
-          console.log('[RECORDING] 📤 Uploading to server...');
-          const response = await fetch(`${API_URL}/api/calls/${currentCallId}/recording`, {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${token}`,
-            },
-            body: formData,
-          });
-          
-          if (response.ok) {
-            const result = await response.json();
-            console.log('[RECORDING] ✅ Recording uploaded successfully:', result);
-            toast.success('Recording Saved', 'Call recording has been saved successfully');
-          } else {
-            const errorText = await response.text();
-            console.error('[RECORDING] ❌ Upload failed:', {
-              status: response.status,
-              statusText: response.statusText,
-              error: errorText,
-            });
-            toast.error('Upload Failed', `Could not upload recording: ${response.statusText}`);
-          }
+          const result = await upload.finish();
+          console.log('[RECORDING] ✅ Recording uploaded successfully:', result);
+          toast.success('Recording Saved', 'Call recording has been saved successfully');
         } catch (error: any) {
           console.error('[RECORDING] ❌ Upload error:', error);
-          toast.error('Upload Error', error.message || 'Failed to upload recording');
+          toast.error('Upload Failed', error.message || 'Failed to upload recording');
         } finally {
           // Clear recording state
-          set({ callRecorder: null, isRecording: false, recordingChunks: [] });
+          set({ callRecorder: null, isRecording: false, recordingUpload: null });
         }
       };
       
       // Start recording with 1 second chunks (collects data every second)
       recorder.start(1000);
       set({ callRecorder: recorder, isRecording: true });
+      reportRecording(get().socket, true).then((accepted) => {
+        if (accepted || recorder.state === 'inactive') return;
+        console.warn('[RECORDING] 🚫 The server refused the recording');
+        upload.cancel();
+        recorder.stop();
+      });
       console.log('[RECORDING] ✅ Recording started successfully:', {
         state: recorder.state,
         mimeType: selectedMimeType,
@@ -2490,6 +3044,82 @@ export const useCallStore = create<CallState>((set, get) => ({
     }
   },
 
+  // Send this participant's own camera and microphone to the server recorder,
+  // which mixes everyone into the call recording
+  startRecorderFeed: () => {
+    const { localStream, socket, recorderChunkMs } = get();
+    if (!localStream || !socket) return;
+
+    const liveTracks = localStream.getTracks().filter(track => track.readyState === 'live');
+    if (liveTracks.length === 0) {
+      console.warn('[RECORDING] ⚠️ No active tracks to send to the recorder');
+      return;
+    }
+    const feedStream = new MediaStream(liveTracks);
+    const hasVideo = feedStream.getVideoTracks().length > 0;
+    const hasAudio = feedStream.getAudioTracks().length > 0;
+    const mimeType = (hasVideo
+      ? ['video/webm;codecs=vp8,opus', 'video/webm']
+      : ['audio/webm;codecs=opus', 'audio/webm']
+    ).find(type => MediaRecorder.isTypeSupported(type));
+
+    try {
+      const recorder = new MediaRecorder(feedStream, {
+        mimeType,
+        videoBitsPerSecond: 1000000,
+      });
+      const trackId = `${socket.id}-${Date.now().toString(36)}`;
+      let seq = 0;
+      let offsetMs = 0;
+      // Chunks go out in order; the socket holds them while reconnecting
+      let sending = Promise.resolve();
+
+      recorder.ondataavailable = (event) => {
+        if (!event.data || event.data.size === 0) return;
+        const chunkSeq = seq++;
+        const blob = event.data;
+        sending = sending.then(async () => {
+          const data = await blob.arrayBuffer();
+          get().socket?.emit('recorder:chunk', {
+            trackId,
+            seq: chunkSeq,
+            offsetMs,
+            mimeType: recorder.mimeType || mimeType || 'video/webm',
+            hasVideo,
+            hasAudio,
+            data,
+          });
+        }).catch((error) => {
+          console.error('[RECORDING] ❌ Failed to send recorder chunk:', error);
+        });
+      };
+
+      recorder.onerror = (event: any) => {
+        console.error('[RECORDING] ❌ Recorder feed error:', event.error);
+        set({ callRecorder: null, isRecording: false });
+      };
+
+      recorder.onstop = () => {
+        sending.then(() => get().socket?.emit('recorder:track:end', { trackId }));
+        reportRecording(get().socket, false);
+        set({ callRecorder: null, isRecording: false });
+      };
+
+      recorder.start(recorderChunkMs);
+      offsetMs = Math.max(0, Date.now() - (get().callStartTime || Date.now()));
+      set({ callRecorder: recorder, isRecording: true });
+      reportRecording(get().socket, true).then((accepted) => {
+        if (!accepted && recorder.state !== 'inactive') recorder.stop();
+      });
+      console.log('[RECORDING] ✅ Sending media to the server recorder:', { trackId, mimeType, hasVideo, hasAudio });
+      toast.success('Recording Started', 'Call is being recorded');
+    } catch (error: any) {
+      console.error('[RECORDING] ❌ Failed to start recorder feed:', error);
+      toast.error('Recording Failed', error.message || 'Could not start recording');
+      set({ callRecorder: null, isRecording: false });
+    }
+  },
+
   stopCallRecording: async () => {
     const { callRecorder } = get();
     
@@ -2518,8 +3148,73 @@ export const useCallStore = create<CallState>((set, get) => ({
     } catch (error: any) {
       console.error('[RECORDING] ❌ Error stopping recording:', error);
       toast.error('Recording Error', 'Failed to stop recording properly');
-      set({ callRecorder: null, isRecording: false, recordingChunks: [] });
+      set({ callRecorder: null, isRecording: false, recordingUpload: null });
+    }
+  },
+
+  requestRecording: () => {
+    get().socket?.emit('recording:request');
+  },
+
+  admitFromLobby: (userId: string) => hostRequest(get().socket, 'lobby:admit', { userId }),
+
+  rejectFromLobby: (userId: string) => hostRequest(get().socket, 'lobby:reject', { userId }),
+
+  kickParticipant: (userId: string) => hostRequest(get().socket, 'host:kick', { userId }),
+
+  muteAll: async () => {
+    const muted = await hostRequest(get().socket, 'host:mute-all');
+    if (muted) toast.success('Muted Everyone', 'Participants can unmute themselves');
+    return muted;
+  },
+
+  setRoomLocked: (locked: boolean) => hostRequest(get().socket, 'host:lock', { locked }),
+
+  setRoomAccessMode: (mode: RoomAccessState['mode']) => hostRequest(get().socket, 'host:access', { mode }),
+
+  transferHost: (userId: string) => hostRequest(get().socket, 'host:transfer', { userId }),
+
+  respondToRecording: (granted: boolean) => {
+    get().socket?.emit('recording:consent', { granted });
+    // Stop right away rather than waiting for the room to hear about it
+    if (!granted) {
+      get().stopSpeechRecognition();
+      get().stopCallRecording();
+    }
+  },
+
+  // Start or stop transcription and recording to match the consent answers
+  applyRecordingConsent: () => {
+    const { recordingConsent, socket } = get();
+    const userId = currentUserId();
+    const mine = recordingConsent?.participants.find(p => p.userId === userId)?.consent || 'pending';
+    if (mine !== get().myRecordingConsent) set({ myRecordingConsent: mine });
+
+    const { callStatus, isMuted, speechRecognition, callRecorder, recorder, localStream } = get();
+    if (callStatus !== 'active' || !localStream) return;
+
+    if (mine !== 'granted') {
+      if (speechRecognition) get().stopSpeechRecognition();
+      if (callRecorder && callRecorder.state !== 'inactive') get().stopCallRecording();
+      return;
+    }
+    if (!isMuted && !speechRecognition) get().startSpeechRecognition();
+    if (recorder === 'none') return;
+
+    // A browser recording pauses while anyone hasn't consented
+    if (recorder === 'client' && callRecorder) {
+      if (!recordingConsent?.allConsented && callRecorder.state === 'recording') {
+        callRecorder.pause();
+        set({ isRecording: false });
+        reportRecording(socket, false);
+      } else if (recordingConsent?.allConsented && callRecorder.state === 'paused') {
+        callRecorder.resume();
+        set({ isRecording: true });
+        reportRecording(socket, true);
+      }
+      return;
     }
+    if (!callRecorder) get().startCallRecording();
   },
 
   clearCall: async () => {
@@ -2529,7 +3224,7 @@ export const useCallStore = create<CallState>((set, get) => ({
     await get().stopCallRecording();
     
     // Make sure to stop any remaining tracks
-    const { localStream, peerConnection, peerConnections, pendingIceCandidates, socket } = get();
+    const { localStream, peerConnection, peerConnections, pendingIceCandidates, socket, sfuSession } = get();
     
     if (localStream) {
       localStream.getTracks().forEach(track => {
@@ -2550,6 +3245,9 @@ export const useCallStore = create<CallState>((set, get) => ({
         console.warn('[CLEAR] Error closing peer connection:', error.message);
       }
     });
+    sfuSession?.close();
+    stopIceRefresh();
+    stopQualityMonitor();
     
     // Clear pending ICE candidates
     pendingIceCandidates.clear();
@@ -2557,6 +3255,8 @@ export const useCallStore = create<CallState>((set, get) => ({
     if (socket) {
       socket.disconnect();
     }
+    stopSocketAuth?.();
+    stopSocketAuth = null;
     
     set({
       socket: null,
@@ -2566,13 +3266,21 @@ export const useCallStore = create<CallState>((set, get) => ({
       localStream: null,
       remoteStream: null,
       remoteStreams: new Map(),
+      topology: 'mesh',
+      sfuSession: null,
       speechRecognition: null,
       callRecorder: null,
-      recordingChunks: [],
+      recordingUpload: null,
+      recorder: 'client',
+      recordingConsent: null,
+      myRecordingConsent: 'pending',
       roomId: null,
       callId: null,
       userName: null,
       isHost: false,
+      roomAccess: null,
+      lobbyStatus: 'none',
+      lobbyRequests: [],
       callStatus: 'idle',
       participants: [],
       callStartTime: null,
@@ -1,10 +1,27 @@
 import { create } from 'zustand';
+import { useAuthStore } from './auth';
+
+const getApiUrl = () => {
+  if (import.meta.env.VITE_API_URL) {
+    return import.meta.env.VITE_API_URL;
+  }
+  if (import.meta.env.PROD) {
+    return window.location.origin;
+  }
+  return 'http://localhost:3001';
+};
+
+const API_URL = getApiUrl();
 
 export type NotificationType = 
   | 'incoming_call'
+  | 'missed_call'
+  | 'friend_request'
+  | 'friend_accepted'
   | 'new_message'
   | 'ai_insight'
   | 'call_recording_ready'
+  | 'blocked_call_attempt'
   | 'friend_joined'
   | 'info'
   | 'success'
@@ -13,6 +30,7 @@ export type NotificationType =
 
 export interface Notification {
   id: string;
+  serverId?: string; // Set when the notification is persisted in the server inbox
   type: NotificationType;
   title: string;
   message: string;
@@ -31,12 +49,59 @@ export interface Notification {
     friendId?: string;
     friendName?: string;
     senderName?: string;
+    roomId?: string;
+    friendshipId?: string;
+    denialReason?: string;
   };
   duration?: number; // Auto-dismiss duration in ms (default: 5000)
   sound?: boolean; // Play sound (default: true)
   vibration?: boolean; // Vibrate (default: false)
+  toast?: boolean; // Show as a toast (default: true while unread)
+}
+
+// Notification as returned by /api/notifications and `notification:new`
+export interface ServerNotification {
+  _id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  actionUrl?: string;
+  metadata?: Notification['metadata'];
+  read: boolean;
+  createdAt: string;
 }
 
+const fromServer = (item: ServerNotification, toast: boolean): Notification => ({
+  id: `server-${item._id}`,
+  serverId: item._id,
+  type: item.type,
+  title: item.title,
+  message: item.message,
+  actionUrl: item.actionUrl,
+  metadata: item.metadata,
+  timestamp: new Date(item.createdAt),
+  read: item.read,
+  duration: toast ? 8000 : 0,
+  sound: toast,
+  vibration: false,
+  toast,
+});
+
+// Fire-and-forget sync of inbox changes to the server
+const syncInbox = (path: string, method: 'PATCH' | 'POST' | 'DELETE') => {
+  const { accessToken } = useAuthStore.getState();
+  if (!accessToken) return;
+
+  fetch(`${API_URL}/api/notifications${path}`, {
+    method,
+    headers: { 'Authorization': `Bearer ${accessToken}` },
+  }).catch((error) => {
+    console.error('[NOTIFICATIONS] Failed to sync inbox:', error);
+  });
+};
+
+const countUnread = (notifications: Notification[]) => notifications.filter(n => !n.read).length;
+
 interface NotificationState {
   notifications: Notification[];
   unreadCount: number;
@@ -44,6 +109,11 @@ interface NotificationState {
   
   // Actions
   addNotification: (notification: Omit<Notification, 'id' | 'timestamp' | 'read'>) => string;
+  loadInbox: () => Promise<void>;
+  receiveServerNotification: (notification: ServerNotification) => void;
+  applyRemoteRead: (data: { ids?: string[]; all?: boolean }) => void;
+  applyRemoteDelete: (data: { ids?: string[]; all?: boolean }) => void;
+  dismissToast: (id: string) => void;
   removeNotification: (id: string) => void;
   markAsRead: (id: string) => void;
   markAllAsRead: () => void;
@@ -73,43 +143,144 @@ export const useNotificationStore = create<NotificationState>((set, get) => ({
       const newNotifications = [notification, ...state.notifications].slice(0, 50); // Keep last 50
       return {
         notifications: newNotifications,
-        unreadCount: newNotifications.filter(n => !n.read).length,
+        unreadCount: countUnread(newNotifications),
       };
     });
 
     // Auto-dismiss
     if (notification.duration && notification.duration > 0) {
       setTimeout(() => {
-        get().removeNotification(id);
+        get().dismissToast(id);
       }, notification.duration);
     }
 
     return id;
   },
 
+  loadInbox: async () => {
+    const { accessToken } = useAuthStore.getState();
+    if (!accessToken) return;
+
+    try {
+      const response = await fetch(`${API_URL}/api/notifications?limit=50`, {
+        headers: { 'Authorization': `Bearer ${accessToken}` },
+      });
+      if (!response.ok) return;
+
+      const data = await response.json();
+      const persisted = (data.notifications as ServerNotification[]).map(item => fromServer(item, false));
+
+      set((state) => {
+        // Keep local-only notifications (e.g. new message toasts) alongside the inbox
+        const localOnly = state.notifications.filter(n => !n.serverId);
+        const newNotifications = [...localOnly, ...persisted]
+          .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+          .slice(0, 50);
+        return {
+          notifications: newNotifications,
+          unreadCount: countUnread(newNotifications),
+        };
+      });
+    } catch (error) {
+      console.error('[NOTIFICATIONS] Failed to load inbox:', error);
+    }
+  },
+
+  receiveServerNotification: (item) => {
+    if (get().notifications.some(n => n.serverId === item._id)) return;
+
+    // Incoming calls already ring through GlobalCallHandler, so don't toast them twice
+    const notification = fromServer(item, !item.read && item.type !== 'incoming_call');
+    set((state) => {
+      const newNotifications = [notification, ...state.notifications].slice(0, 50);
+      return {
+        notifications: newNotifications,
+        unreadCount: countUnread(newNotifications),
+      };
+    });
+
+    if (notification.duration && notification.duration > 0) {
+      setTimeout(() => {
+        get().dismissToast(notification.id);
+      }, notification.duration);
+    }
+  },
+
+  applyRemoteRead: ({ ids, all }) => {
+    set((state) => {
+      const newNotifications = state.notifications.map(n =>
+        n.serverId && (all || ids?.includes(n.serverId)) ? { ...n, read: true } : n
+      );
+      return {
+        notifications: newNotifications,
+        unreadCount: countUnread(newNotifications),
+      };
+    });
+  },
+
+  applyRemoteDelete: ({ ids, all }) => {
+    set((state) => {
+      const newNotifications = state.notifications.filter(n =>
+        !(n.serverId && (all || ids?.includes(n.serverId)))
+      );
+      return {
+        notifications: newNotifications,
+        unreadCount: countUnread(newNotifications),
+      };
+    });
+  },
+
+  dismissToast: (id) => {
+    const notification = get().notifications.find(n => n.id === id);
+    if (!notification) return;
+
+    // Inbox notifications stay in the center; only local ones disappear
+    if (notification.serverId) {
+      set((state) => ({
+        notifications: state.notifications.map(n => (n.id === id ? { ...n, toast: false } : n)),
+      }));
+    } else {
+      get().removeNotification(id);
+    }
+  },
+
   removeNotification: (id) => {
+    const notification = get().notifications.find(n => n.id === id);
+    if (notification?.serverId) {
+      syncInbox(`/${notification.serverId}`, 'DELETE');
+    }
+
     set((state) => {
       const newNotifications = state.notifications.filter(n => n.id !== id);
       return {
         notifications: newNotifications,
-        unreadCount: newNotifications.filter(n => !n.read).length,
+        unreadCount: countUnread(newNotifications),
       };
     });
   },
 
   markAsRead: (id) => {
+    const notification = get().notifications.find(n => n.id === id);
+    if (notification?.serverId && !notification.read) {
+      syncInbox(`/${notification.serverId}/read`, 'PATCH');
+    }
+
     set((state) => {
       const newNotifications = state.notifications.map(n =>
         n.id === id ? { ...n, read: true } : n
       );
       return {
         notifications: newNotifications,
-        unreadCount: newNotifications.filter(n => !n.read).length,
+        unreadCount: countUnread(newNotifications),
       };
     });
   },
 
   markAllAsRead: () => {
+    if (get().notifications.some(n => n.serverId && !n.read)) {
+      syncInbox('/read-all', 'POST');
+    }
+
     set((state) => ({
       notifications: state.notifications.map(n => ({ ...n, read: true })),
       unreadCount: 0,
@@ -117,6 +288,10 @@ export const useNotificationStore = create<NotificationState>((set, get) => ({
   },
 
   clearAll: () => {
+    if (get().notifications.some(n => n.serverId)) {
+      syncInbox('', 'DELETE');
+    }
+
     set({
       notifications: [],
       unreadCount: 0,
@@ -0,0 +1,130 @@
+/**
+ * Call quality sampling from RTCPeerConnection.getStats().
+ *
+ * Each connection (a mesh peer, or the SFU's send and receive transports) is
+ * reduced to one sample per interval: round trip time, jitter, inbound packet
+ * loss and bitrates over the interval, plus the received video's resolution
+ * and codecs. Counters are cumulative in getStats(), so the sampler keeps the
+ * previous totals per connection.
+ */
+
+export interface QualitySample {
+  peerId: string;
+  peerName?: string;
+  rttMs?: number;
+  jitterMs?: number;
+  packetLossPct?: number;
+  inboundKbps?: number;
+  outboundKbps?: number;
+  frameWidth?: number;
+  frameHeight?: number;
+  framesPerSecond?: number;
+  audioCodec?: string;
+  videoCodec?: string;
+  qualityLimitation?: 'none' | 'bandwidth' | 'cpu' | 'other';
+  sendScale?: number;
+}
+
+interface Totals {
+  at: number;
+  packetsReceived: number;
+  packetsLost: number;
+  bytesReceived: number;
+  bytesSent: number;
+}
+
+// When several video senders disagree, the worst reason wins
+const LIMITATION_ORDER = ['none', 'other', 'cpu', 'bandwidth'];
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export function createStatsSampler() {
+  const previous = new Map<string, Totals>();
+
+  const sample = (peerId: string, reports: RTCStatsReport[]): QualitySample => {
+    const totals: Totals = { at: performance.now(), packetsReceived: 0, packetsLost: 0, bytesReceived: 0, bytesSent: 0 };
+    const codecs = new Map<string, string>();
+    const result: QualitySample = { peerId };
+    let jitter: number | undefined;
+    let rtt: number | undefined;
+    let remoteRtt: number | undefined;
+
+    for (const report of reports) {
+      report.forEach((stat: any) => {
+        if (stat.type === 'codec') codecs.set(stat.id, String(stat.mimeType || '').split('/')[1] || stat.mimeType);
+      });
+      report.forEach((stat: any) => {
+        switch (stat.type) {
+          case 'candidate-pair':
+            if (stat.nominated && stat.state === 'succeeded' && typeof stat.currentRoundTripTime === 'number') {
+              rtt = Math.max(rtt ?? 0, stat.currentRoundTripTime * 1000);
+            }
+            break;
+          case 'remote-inbound-rtp':
+            if (typeof stat.roundTripTime === 'number') remoteRtt = Math.max(remoteRtt ?? 0, stat.roundTripTime * 1000);
+            break;
+          case 'inbound-rtp':
+            totals.packetsReceived += stat.packetsReceived || 0;
+            totals.packetsLost += Math.max(0, stat.packetsLost || 0);
+            totals.bytesReceived += stat.bytesReceived || 0;
+            if (typeof stat.jitter === 'number') jitter = Math.max(jitter ?? 0, stat.jitter * 1000);
+            if (stat.kind === 'video') {
+              if (stat.frameHeight && (!result.frameHeight || stat.frameHeight < result.frameHeight)) {
+                result.frameWidth = stat.frameWidth;
+                result.frameHeight = stat.frameHeight;
+                result.framesPerSecond = stat.framesPerSecond;
+              }
+              if (stat.codecId) result.videoCodec = codecs.get(stat.codecId);
+            } else if (stat.kind === 'audio' && stat.codecId) {
+              result.audioCodec = codecs.get(stat.codecId);
+            }
+            break;
+          case 'outbound-rtp':
+            totals.bytesSent += stat.bytesSent || 0;
+            if (stat.kind === 'video' && stat.qualityLimitationReason) {
+              const reason = LIMITATION_ORDER.includes(stat.qualityLimitationReason) ? stat.qualityLimitationReason : 'other';
+              if (!result.qualityLimitation || LIMITATION_ORDER.indexOf(reason) > LIMITATION_ORDER.indexOf(result.qualityLimitation)) {
+                result.qualityLimitation = reason;
+              }
+            }
+            if (stat.codecId) {
+              const codec = codecs.get(stat.codecId);
+              if (stat.kind === 'video' && !result.videoCodec) result.videoCodec = codec;
+              if (stat.kind === 'audio' && !result.audioCodec) result.audioCodec = codec;
+            }
+            break;
+        }
+      });
+    }
+
+    const rttMs = rtt ?? remoteRtt;
+    if (rttMs !== undefined) result.rttMs = round(rttMs);
+    if (jitter !== undefined) result.jitterMs = round(jitter);
+
+    const last = previous.get(peerId);
+    previous.set(peerId, totals);
+    if (last) {
+      const seconds = (totals.at - last.at) / 1000;
+      const received = totals.packetsReceived - last.packetsReceived;
+      const lost = totals.packetsLost - last.packetsLost;
+      if (received + lost > 0 && lost >= 0) result.packetLossPct = round((lost / (received + lost)) * 100);
+      if (seconds > 0) {
+        result.inboundKbps = round(Math.max(0, totals.bytesReceived - last.bytesReceived) * 8 / 1000 / seconds);
+        result.outboundKbps = round(Math.max(0, totals.bytesSent - last.bytesSent) * 8 / 1000 / seconds);
+      }
+    }
+    return result;
+  };
+
+  return {
+    sample,
+    forget: (peerId: string) => previous.delete(peerId),
+    reset: () => previous.clear(),
+  };
+}
+
+// A connection that is struggling: the browser is holding back for bandwidth, or packets are late or lost
+export const isCongested = (sample: QualitySample) =>
+  sample.qualityLimitation === 'bandwidth' ||
+  (sample.packetLossPct ?? 0) > 5 ||
+  (sample.rttMs ?? 0) > 400;
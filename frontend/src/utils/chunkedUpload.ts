@@ -0,0 +1,269 @@
+import { refreshAccessTokenOnce } from './socketAuth';
+
+/**
+ * Resumable chunked uploads (POST /api/uploads, PUT .../chunks/:n, POST .../complete).
+ *
+ * Data can be pushed while it is still being produced (a call recording) or
+ * all at once (an attachment). Each chunk is sent with its SHA-256, and the
+ * upload completes with the SHA-256 of those digests in order, so nothing has
+ * to be hashed twice. A chunk that fails to send is retried after asking the
+ * server where the upload stands, so a dropped connection resumes where it
+ * left off. An access token that runs out mid-upload is refreshed, and a
+ * rate-limited request waits as long as the server asks (Retry-After).
+ * A recording the server stops taking (someone withdrew consent, or it
+ * reached its size limit) is completed with the chunks it did take.
+ */
+
+export interface UploadInit {
+  kind: 'recording' | 'attachment';
+  filename?: string;
+  contentType?: string;
+  size?: number;
+  callId?: string;
+  offsetMs?: number;
+}
+
+export interface UploadResult {
+  fileId: string;
+  url?: string; // Attachments
+  recordingUrl?: string; // Recordings
+  type?: 'image' | 'audio' | 'file';
+  name?: string;
+}
+
+export interface ChunkedUpload {
+  push: (data: Blob) => void; // Queue data; full chunks are sent in the background
+  finish: () => Promise<UploadResult>; // Send what's left and complete
+  cancel: () => Promise<void>;
+  progress: () => { sentBytes: number; pendingBytes: number };
+}
+
+const CHUNK_BYTES = 2 * 1024 * 1024;
+const MAX_ATTEMPTS = 6;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class UploadFailedError extends Error {
+  constructor(message: string, public status?: number, public code?: string) {
+    super(message);
+    this.name = 'UploadFailedError';
+  }
+}
+
+// Seconds (or an HTTP date) the server asked us to wait, else a backoff
+const retryAfterMs = (response: Response, attempt: number) => {
+  const header = response.headers.get('Retry-After');
+  const seconds = Number(header);
+  if (header && Number.isFinite(seconds)) return Math.max(0, seconds) * 1000;
+  const date = header ? Date.parse(header) : NaN;
+  if (!isNaN(date)) return Math.max(0, date - Date.now());
+  return Math.min(30000, 1000 * Math.pow(2, attempt - 1));
+};
+
+export function createChunkedUpload(
+  apiUrl: string,
+  getToken: () => string | null,
+  init: UploadInit,
+  refreshToken: () => Promise<string | null> = refreshAccessTokenOnce
+): ChunkedUpload {
+  let uploadId: string | null = null;
+  let starting: Promise<string> | null = null;
+  let pending: Blob[] = [];
+  let pendingBytes = 0;
+  let sentBytes = 0;
+  let nextIndex = 0;
+  let acceptedChunks = 0; // Sent in order, so always the first ones
+  let failure: Error | null = null;
+  let queue: Promise<void> = Promise.resolve();
+  const digests: ArrayBuffer[] = [];
+  let refreshedToken: string | null = null;
+
+  const request = async (path: string, options: RequestInit = {}) => {
+    for (let attempt = 1; ; attempt++) {
+      const token = refreshedToken || getToken();
+      if (!token) throw new UploadFailedError('Authentication required');
+      const response = await fetch(`${apiUrl}/api/uploads${path}`, {
+        ...options,
+        headers: { 'Authorization': `Bearer ${token}`, ...(options.headers || {}) },
+      });
+
+      // The access token ran out during a long upload: refresh it and go again
+      if (response.status === 401 && attempt === 1) {
+        const fresh = await refreshToken().catch(() => null);
+        if (fresh) {
+          refreshedToken = fresh;
+          continue;
+        }
+      }
+      if (response.status === 429 && attempt < MAX_ATTEMPTS) {
+        await wait(retryAfterMs(response, attempt));
+        continue;
+      }
+      return response;
+    }
+  };
+
+  const errorOf = async (response: Response) => {
+    const data = await response.json().catch(() => ({}));
+    return data.error || response.statusText || `HTTP ${response.status}`;
+  };
+
+  const start = () => {
+    if (!starting) {
+      starting = (async () => {
+        const response = await request('', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(init),
+        });
+        if (!response.ok) throw new UploadFailedError(await errorOf(response));
+        const data = await response.json();
+        uploadId = data.upload.id as string;
+        return uploadId;
+      })();
+      // Let a failed start be retried
+      starting.catch(() => { starting = null; });
+    }
+    return starting;
+  };
+
+  // Where the server is, after a failure whose outcome we didn't see
+  const serverNextChunk = async (id: string): Promise<number | null> => {
+    try {
+      const response = await request(`/${id}`);
+      if (!response.ok) return null;
+      const data = await response.json();
+      return data.upload.status === 'uploading' ? data.upload.nextChunk : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const sendChunk = async (index: number, chunk: Blob) => {
+    const body = await chunk.arrayBuffer();
+    const digest = await crypto.subtle.digest('SHA-256', body);
+    digests[index] = digest;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const id = await start();
+        const response = await request(`/${id}/chunks/${index}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/octet-stream', 'X-Chunk-Sha256': toHex(digest) },
+          body,
+        });
+        if (response.ok) break;
+        // Gone, too large, checksum mismatch, no consent: retrying won't help
+        if (response.status !== 409 && response.status < 500) {
+          const data = await response.json().catch(() => ({}));
+          throw new UploadFailedError(data.error || response.statusText || `HTTP ${response.status}`, response.status, data.code);
+        }
+        const data = await response.json().catch(() => ({}));
+        if (typeof data.nextChunk === 'number' && data.nextChunk > index) break; // Already there
+        if (attempt >= MAX_ATTEMPTS) throw new UploadFailedError(data.error || 'Chunk upload failed');
+      } catch (error) {
+        if (error instanceof UploadFailedError || attempt >= MAX_ATTEMPTS) throw error;
+        // Network error: the chunk may or may not have arrived
+        const next = uploadId ? await serverNextChunk(uploadId) : null;
+        if (next !== null && next > index) break;
+      }
+      await wait(Math.min(30000, 1000 * Math.pow(2, attempt - 1)));
+    }
+    sentBytes += chunk.size;
+    acceptedChunks = index + 1;
+  };
+
+  const cut = (final: boolean) => {
+    while (pendingBytes >= CHUNK_BYTES || (final && pendingBytes > 0)) {
+      const all = new Blob(pending, { type: init.contentType });
+      const chunk = all.slice(0, CHUNK_BYTES);
+      const rest = all.slice(CHUNK_BYTES);
+      pending = rest.size > 0 ? [rest] : [];
+      pendingBytes = rest.size;
+
+      const index = nextIndex++;
+      queue = queue.then(() => {
+        if (failure) return;
+        return sendChunk(index, chunk).catch((error) => { failure = error; });
+      });
+    }
+  };
+
+  return {
+    push: (data) => {
+      if (failure || data.size === 0) return;
+      pending.push(data);
+      pendingBytes += data.size;
+      cut(false);
+    },
+
+    finish: async () => {
+      cut(true);
+      await queue;
+      const keepsWhatWasTaken = failure instanceof UploadFailedError &&
+        (failure.code === 'recording_consent_required' || failure.code === 'recording_limit_reached');
+      if (failure && !(keepsWhatWasTaken && acceptedChunks > 0)) throw failure;
+      if (nextIndex === 0) throw new UploadFailedError('Nothing to upload');
+
+      const accepted = digests.slice(0, acceptedChunks);
+      const joined = new Uint8Array(accepted.length * 32);
+      accepted.forEach((digest, i) => joined.set(new Uint8Array(digest), i * 32));
+      const chunksSha256 = toHex(await crypto.subtle.digest('SHA-256', joined));
+
+      for (let attempt = 1; ; attempt++) {
+        try {
+          const response = await request(`/${uploadId}/complete`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ chunksSha256 }),
+          });
+          if (response.ok) return response.json();
+          if (response.status < 500 || attempt >= MAX_ATTEMPTS) {
+            throw new UploadFailedError(await errorOf(response), response.status);
+          }
+        } catch (error) {
+          if (error instanceof UploadFailedError || attempt >= MAX_ATTEMPTS) throw error;
+        }
+        await wait(Math.min(30000, 1000 * Math.pow(2, attempt - 1)));
+      }
+    },
+
+    cancel: async () => {
+      failure = new UploadFailedError('Cancelled');
+      pending = [];
+      pendingBytes = 0;
+      if (uploadId) {
+        await request(`/${uploadId}`, { method: 'DELETE' }).catch(() => {});
+      }
+    },
+
+    progress: () => ({ sentBytes, pendingBytes }),
+  };
+}
+
+// Upload a whole file (message attachments). The file is still at hand, so
+// an upload the server lost (410, e.g. after a restart) is started over once.
+export async function uploadFile(
+  apiUrl: string,
+  token: string,
+  file: File,
+  kind: UploadInit['kind'] = 'attachment'
+): Promise<UploadResult> {
+  for (let attempt = 1; ; attempt++) {
+    const upload = createChunkedUpload(apiUrl, () => token, {
+      kind,
+      filename: file.name,
+      contentType: file.type || 'application/octet-stream',
+      size: file.size,
+    });
+    upload.push(file);
+    try {
+      return await upload.finish();
+    } catch (error) {
+      if (!(error instanceof UploadFailedError) || error.status !== 410 || attempt >= 2) throw error;
+    }
+  }
+}
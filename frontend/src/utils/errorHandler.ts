@@ -82,7 +82,12 @@ export const getUserFriendlyMessage = (error: AppError): string => {
     case ErrorType.DUPLICATE:
       return error.message;
     case ErrorType.RATE_LIMIT:
-      return 'Too many requests. Please wait a moment and try again.';
+      if (error.details?.code === 'AI_QUOTA_EXCEEDED') {
+        return "You've used today's AI credits. They reset at midnight UTC.";
+      }
+      return error.details?.retryAfter
+        ? `Too many requests. Please try again in ${error.details.retryAfter} seconds.`
+        : 'Too many requests. Please wait a moment and try again.';
     case ErrorType.EXTERNAL_SERVICE:
       return 'A service is temporarily unavailable. Please try again later.';
     case ErrorType.NETWORK:
@@ -94,6 +99,12 @@ export const getUserFriendlyMessage = (error: AppError): string => {
   }
 };
 
+// Message for a 429 from a rate limit or the daily AI credit budget
+export const rateLimitMessage = async (response: Response): Promise<string> => {
+  const data = await response.json().catch(() => ({}));
+  return getUserFriendlyMessage({ ...parseApiError(data), type: ErrorType.RATE_LIMIT });
+};
+
 // Handle API response
 export const handleApiResponse = async <T>(response: Response): Promise<T> => {
   if (!response.ok) {
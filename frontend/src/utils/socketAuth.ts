@@ -0,0 +1,90 @@
+import { Socket } from 'socket.io-client';
+import { useAuthStore } from '../store/auth';
+
+/**
+ * Keeps a signed-in socket's access token current.
+ *
+ * The server refuses connections without a valid token and drops sockets
+ * whose token runs out. A minute before that it sends `auth:expiring`; the
+ * token is refreshed then and handed over with `auth:refresh`. Tokens
+ * refreshed elsewhere (an API call, another socket) are handed over as
+ * they arrive. A socket refused for an expired token, or dropped with
+ * `auth:expired`, reconnects once a fresh token is in.
+ *
+ * Returns a cleanup function; call it before disconnecting the socket.
+ */
+
+// One refresh for every socket (or upload) that asks at once (refresh tokens rotate, so a
+// second refresh with the same token would look like reuse and sign the device out)
+let refreshing: Promise<boolean> | null = null;
+
+const refreshOnce = () => {
+  if (!refreshing) {
+    refreshing = useAuthStore.getState().refreshAccessToken().finally(() => {
+      refreshing = null;
+    });
+  }
+  return refreshing;
+};
+
+// A new access token, or null when this device has to sign in again
+export const refreshAccessTokenOnce = async (): Promise<string | null> =>
+  (await refreshOnce()) ? useAuthStore.getState().accessToken : null;
+
+export function keepSocketAuthenticated(socket: Socket): () => void {
+  let stopped = false;
+  const currentToken = () => (socket.auth as { token?: string }).token;
+
+  const sendToken = (token: string) => {
+    if (token === currentToken()) return;
+    socket.auth = { ...(socket.auth as object), token };
+    if (!socket.connected) return;
+    socket.emit('auth:refresh', { token }, (response: { error?: string; code?: string }) => {
+      if (response?.error) console.warn('[SOCKET] ⚠️ Re-authentication refused:', response.error);
+    });
+  };
+
+  // A token newer than the socket's, refreshing if there is none yet
+  const freshToken = async (): Promise<string | null> => {
+    const stored = useAuthStore.getState().accessToken;
+    if (stored && stored !== currentToken()) return stored;
+    return (await refreshOnce()) ? useAuthStore.getState().accessToken : null;
+  };
+
+  const reconnect = async () => {
+    const token = await freshToken();
+    if (stopped || !token) return;
+    socket.auth = { ...(socket.auth as object), token };
+    socket.connect();
+  };
+
+  const unsubscribe = useAuthStore.subscribe((state, previous) => {
+    if (state.accessToken && state.accessToken !== previous.accessToken) sendToken(state.accessToken);
+  });
+
+  socket.on('auth:expiring', async () => {
+    const token = await freshToken();
+    if (!stopped && token) sendToken(token);
+  });
+
+  // The server disconnects right after this, and won't be reconnected to on its own
+  let expired = false;
+  socket.on('auth:expired', () => {
+    console.warn('[SOCKET] ⌛ Access token expired, reconnecting with a fresh one');
+    expired = true;
+  });
+  socket.on('disconnect', () => {
+    if (!expired) return;
+    expired = false;
+    reconnect();
+  });
+
+  socket.on('connect_error', (error: Error & { data?: { code?: string } }) => {
+    if (error.data?.code === 'token_expired') reconnect();
+  });
+
+  return () => {
+    stopped = true;
+    unsubscribe();
+  };
+}
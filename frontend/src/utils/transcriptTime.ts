@@ -0,0 +1,60 @@
+/**
+ * Transcript timing. Segment and word times are milliseconds from call start;
+ * a recording's first frame is `recordingOffsetMs` into the call.
+ */
+
+export interface TimedWord {
+  text: string;
+  start: number;
+  end: number;
+  confidence?: number | null;
+}
+
+export interface TimedSegment {
+  timestamp: number;
+  endTimestamp?: number | null;
+  words?: TimedWord[];
+}
+
+export interface PlaybackPosition {
+  segment: number; // Index into the segment list
+  word: number | null; // Index into that segment's words, when it has timings
+}
+
+// 75000 -> "1:15", 3725000 -> "1:02:05"
+export const formatCallTime = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+};
+
+/**
+ * The segment (and word) being spoken at `time`. A segment without an end
+ * time lasts until the next one starts; between words the previous word
+ * stays highlighted so the highlight doesn't flicker.
+ */
+export const findPlaybackPosition = (segments: TimedSegment[], time: number): PlaybackPosition | null => {
+  let segment = -1;
+  segments.forEach((s, i) => {
+    if (s.timestamp <= time && (segment === -1 || s.timestamp >= segments[segment].timestamp)) {
+      segment = i;
+    }
+  });
+  if (segment === -1) return null;
+
+  const current = segments[segment];
+  const next = segments.find(s => s.timestamp > current.timestamp);
+  const end = current.endTimestamp ?? next?.timestamp ?? Infinity;
+  if (time > end) return null;
+
+  const words = current.words || [];
+  let word: number | null = null;
+  words.forEach((w, i) => {
+    if (w.start <= time) word = i;
+  });
+  return { segment, word };
+};